@@ -64,6 +64,13 @@ export const TEST_EMAIL_DOMAIN = '@integration-test.com';
 
 export const DEFAULT_TEST_TIMEOUT = 300000; // 5 minutes
 
+/**
+ * Set when the stack under test was deployed with `mockTranslation=true`:
+ * chunks are pseudo-translated offline, so usage is deterministic and
+ * always non-zero.
+ */
+export const MOCK_TRANSLATION = process.env.MOCK_TRANSLATION === 'true';
+
 // Utility Functions
 
 /**
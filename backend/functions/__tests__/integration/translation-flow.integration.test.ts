@@ -23,10 +23,11 @@
  * Environment Variables:
  * - API_BASE_URL: API Gateway base URL (default: dev endpoint)
  * - TEST_TIMEOUT: Test timeout in milliseconds (default: 300000 = 5 minutes)
+ * - MOCK_TRANSLATION: 'true' when the stack runs the offline mock backend
  */
 
 import { randomBytes } from 'crypto';
-import { API_BASE_URL, DEFAULT_TEST_TIMEOUT } from './helpers/test-helpers';
+import { API_BASE_URL, DEFAULT_TEST_TIMEOUT, MOCK_TRANSLATION } from './helpers/test-helpers';
 
 // Configuration
 const TEST_TIMEOUT = parseInt(process.env.TEST_TIMEOUT || `${DEFAULT_TEST_TIMEOUT}`, 10);
@@ -433,6 +434,10 @@ describe('End-to-End Translation Flow Integration Tests', () => {
         // Token usage and cost may be 0 for test documents
         expect(finalStatus.tokensUsed).toBeGreaterThanOrEqual(0);
         expect(finalStatus.estimatedCost).toBeGreaterThanOrEqual(0);
+        if (MOCK_TRANSLATION) {
+          // The mock reports usage for every chunk it pseudo-translates.
+          expect(Number(finalStatus.tokensUsed)).toBeGreaterThan(0);
+        }
 
         console.log('Translation workflow completed successfully!');
         console.log(`Total chunks: ${finalStatus.totalChunks}`);
@@ -11,12 +11,17 @@ import { S3Event, Context } from 'aws-lambda';
 import { mockClient } from 'aws-sdk-client-mock';
 import {
   S3Client,
+  CopyObjectCommand,
   GetObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
   PutObjectCommand,
 } from '@aws-sdk/client-s3';
 import { DynamoDBClient, GetItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import { Readable } from 'stream';
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { buildEpub } from './epubFixture';
 
 // Mock environment variables
 process.env.DOCUMENT_BUCKET = 'test-bucket';
@@ -319,6 +324,348 @@ describe('Document Chunking Lambda Handler', () => {
     });
   });
 
+  describe('Source language detection', () => {
+    const runWithContent = async (content: string) => {
+      const key = 'uploads/user123/file456/manuscript.txt';
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: Buffer.byteLength(content, 'utf-8'),
+        Metadata: { userid: 'user123', jobid: 'job789', fileid: 'file456' },
+      });
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: streamFromString(content) as never,
+      });
+      mockJobRecord(key);
+      s3Mock.on(PutObjectCommand).resolves({});
+      dynamoMock.on(UpdateItemCommand).resolves({});
+
+      await handler(createS3Event('test-bucket', key), createMockContext(), () => {});
+
+      // The last UpdateItem is the CHUNKED transition
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      return updates[updates.length - 1].args[0].input;
+    };
+
+    it('persists the detected source language on the CHUNKED update', async () => {
+      const input = await runWithContent(
+        'Longtemps, je me suis couché de bonne heure. Parfois, à peine ma bougie éteinte, mes yeux se fermaient si vite que je n’avais pas le temps de me dire que je m’endormais. '.repeat(
+          20
+        )
+      );
+
+      expect(input.UpdateExpression).toContain('sourceLanguage = :sourceLanguage');
+      expect(input.ExpressionAttributeValues?.[':sourceLanguage']).toEqual({ S: 'fr' });
+      expect(input.ExpressionAttributeValues?.[':sourceLanguageConfidence']?.N).toBeDefined();
+    });
+
+    it('leaves sourceLanguage unset when detection is inconclusive', async () => {
+      const input = await runWithContent('12345 67890. '.repeat(50));
+
+      expect(input.UpdateExpression).not.toContain('sourceLanguage');
+      expect(input.ExpressionAttributeValues?.[':status']).toEqual({ S: 'CHUNKED' });
+    });
+  });
+
+  describe('Word (.docx) uploads', () => {
+    const key = 'uploads/user123/file456/manuscript.docx';
+
+    const runWithBody = async (body: Buffer) => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: body.length,
+        Metadata: { userid: 'user123', jobid: 'job789', fileid: 'file456' },
+      });
+      s3Mock.on(GetObjectCommand).resolves({ Body: Readable.from([body]) as never });
+      mockJobRecord(key);
+      s3Mock.on(PutObjectCommand).resolves({});
+      dynamoMock.on(UpdateItemCommand).resolves({});
+
+      await handler(createS3Event('test-bucket', key), createMockContext(), () => {});
+    };
+
+    it('chunks the extracted Markdown, keeping headings and emphasis', async () => {
+      const docx = await Packer.toBuffer(
+        new Document({
+          sections: [
+            {
+              children: [
+                new Paragraph({ text: 'Chapter One', heading: HeadingLevel.HEADING_1 }),
+                new Paragraph({
+                  children: [
+                    new TextRun('It was a '),
+                    new TextRun({ text: 'dark', bold: true }),
+                    new TextRun(' and stormy night.'),
+                  ],
+                }),
+              ],
+            },
+          ],
+        })
+      );
+
+      await runWithBody(docx);
+
+      const chunkBodies = s3Mock
+        .commandCalls(PutObjectCommand)
+        .map((call) => String(call.args[0].input.Body));
+      expect(chunkBodies.join('')).toContain('# Chapter One');
+      expect(chunkBodies.join('')).toContain('It was a **dark** and stormy night.');
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      expect(
+        updates[updates.length - 1].args[0].input.ExpressionAttributeValues?.[':status']
+      ).toEqual({ S: 'CHUNKED' });
+    });
+
+    it('marks the job CHUNKING_FAILED when the file is not a Word document', async () => {
+      await runWithBody(Buffer.from('definitely not a zip archive'));
+
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      expect(
+        updates[updates.length - 1].args[0].input.ExpressionAttributeValues?.[':status']
+      ).toEqual({ S: 'CHUNKING_FAILED' });
+    });
+  });
+
+  describe('EPUB uploads', () => {
+    const key = 'uploads/user123/file456/novel.epub';
+
+    const runWithBody = async (body: Buffer) => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: body.length,
+        Metadata: { userid: 'user123', jobid: 'job789', fileid: 'file456' },
+      });
+      s3Mock.on(GetObjectCommand).resolves({ Body: Readable.from([body]) as never });
+      mockJobRecord(key);
+      s3Mock.on(PutObjectCommand).resolves({});
+      dynamoMock.on(UpdateItemCommand).resolves({});
+
+      await handler(createS3Event('test-bucket', key), createMockContext(), () => {});
+    };
+
+    it('chunks per chapter and records the chapter map and book metadata', async () => {
+      const epub = await buildEpub({
+        chapters: [
+          { file: 'ch1.xhtml', tocTitle: 'One', body: '<p>The first chapter is short.</p>' },
+          { file: 'ch2.xhtml', tocTitle: 'Two', body: '<p>So is the second one.</p>' },
+        ],
+      });
+
+      await runWithBody(epub);
+
+      const chunkBodies = s3Mock
+        .commandCalls(PutObjectCommand)
+        .map((call) => JSON.parse(String(call.args[0].input.Body)).primaryContent);
+      expect(chunkBodies).toEqual(['The first chapter is short.', 'So is the second one.']);
+
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      const finalUpdate = updates[updates.length - 1].args[0].input;
+      const values = unmarshall(finalUpdate.ExpressionAttributeValues!);
+      expect(values[':status']).toBe('CHUNKED');
+      expect(values[':chapters']).toEqual([
+        { title: 'One', firstChunkIndex: 0, chunkCount: 1, href: 'OEBPS/ch1.xhtml' },
+        { title: 'Two', firstChunkIndex: 1, chunkCount: 1, href: 'OEBPS/ch2.xhtml' },
+      ]);
+      expect(values[':sourceMetadata']).toEqual({
+        title: 'The Sample Book',
+        author: 'Jane Author',
+        identifier: 'urn:isbn:9780000000001',
+        language: 'en',
+      });
+    });
+
+    it('marks the job CHUNKING_FAILED when the book has no text', async () => {
+      await runWithBody(
+        await buildEpub({ chapters: [{ file: 'cover.xhtml', body: '<img src="c.jpg"/>' }] })
+      );
+
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      expect(
+        updates[updates.length - 1].args[0].input.ExpressionAttributeValues?.[':status']
+      ).toEqual({ S: 'CHUNKING_FAILED' });
+    });
+  });
+
+  describe('Subtitle uploads', () => {
+    const runWithSubtitles = async (key: string, text: string) => {
+      const body = Buffer.from(text, 'utf-8');
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: body.length,
+        Metadata: { userid: 'user123', jobid: 'job789', fileid: 'file456' },
+      });
+      s3Mock.on(GetObjectCommand).resolves({ Body: Readable.from([body]) as never });
+      mockJobRecord(key);
+      s3Mock.on(PutObjectCommand).resolves({});
+      dynamoMock.on(UpdateItemCommand).resolves({});
+
+      await handler(createS3Event('test-bucket', key), createMockContext(), () => {});
+    };
+
+    it('chunks an .srt file on cue boundaries and marks the job as a subtitle job', async () => {
+      await runWithSubtitles(
+        'uploads/user123/file456/episode.srt',
+        '1\r\n00:00:01,000 --> 00:00:02,000\r\nHello.\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye.\r\n'
+      );
+
+      const chunkBodies = s3Mock
+        .commandCalls(PutObjectCommand)
+        .map((call) => JSON.parse(String(call.args[0].input.Body)).primaryContent);
+      expect(chunkBodies).toEqual([
+        '1\n00:00:01,000 --> 00:00:02,000\nHello.\n\n2\n00:00:03,000 --> 00:00:04,000\nBye.',
+      ]);
+
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      const values = unmarshall(
+        updates[updates.length - 1].args[0].input.ExpressionAttributeValues!
+      );
+      expect(values[':status']).toBe('CHUNKED');
+      expect(values[':subtitleFormat']).toBe('srt');
+      expect(values[':chapters']).toBeUndefined();
+    });
+
+    it('leaves the WebVTT header out of the chunks', async () => {
+      await runWithSubtitles(
+        'uploads/user123/file456/episode.vtt',
+        'WEBVTT\n\n00:01.000 --> 00:02.000\nHello.\n'
+      );
+
+      const chunk = JSON.parse(
+        String(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Body)
+      ).primaryContent;
+      expect(chunk).toBe('00:01.000 --> 00:02.000\nHello.');
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      const values = unmarshall(
+        updates[updates.length - 1].args[0].input.ExpressionAttributeValues!
+      );
+      expect(values[':subtitleFormat']).toBe('vtt');
+    });
+  });
+
+  describe('Revisions', () => {
+    const key = 'uploads/user123/file456/manuscript.txt';
+    let edits: { Contents?: Array<{ Key: string; LastModified: Date }> };
+
+    beforeEach(() => {
+      edits = {};
+    });
+
+    const previousKeys = ['chunks/user123/file123/c0.json', 'chunks/user123/file123/c1.json'];
+
+    const runRevision = async (content: string) => {
+      const previousChunks: Record<string, string> = {
+        [previousKeys[0]]: JSON.stringify({ primaryContent: 'The first part.' }),
+        [previousKeys[1]]: JSON.stringify({ primaryContent: 'The second part.' }),
+      };
+      s3Mock.on(HeadObjectCommand, { Key: key }).resolves({
+        ContentLength: Buffer.byteLength(content, 'utf-8'),
+        Metadata: { userid: 'user123', jobid: 'job789', fileid: 'file456' },
+      });
+      s3Mock.on(GetObjectCommand).callsFake((input) => ({
+        Body: streamFromString(previousChunks[input.Key] ?? content),
+      }));
+      s3Mock.on(PutObjectCommand).resolves({});
+      s3Mock.on(CopyObjectCommand).resolves({});
+      s3Mock.on(ListObjectsV2Command).resolves(edits);
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: marshall({
+          jobId: 'job789',
+          userId: 'user123',
+          documentId: 'file456',
+          status: 'PENDING_UPLOAD',
+          revision: 2,
+          previousRevision: { revision: 1, chunkKeys: previousKeys, targetLanguage: 'es' },
+        }),
+      });
+      dynamoMock.on(UpdateItemCommand).resolves({});
+
+      await handler(createS3Event('test-bucket', key), createMockContext(), () => {});
+
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      return unmarshall(updates[updates.length - 1].args[0].input.ExpressionAttributeValues!);
+    };
+
+    it('archives the previous translation before it is overwritten', async () => {
+      await runRevision('The first part.');
+
+      expect(
+        s3Mock
+          .commandCalls(CopyObjectCommand)
+          .map((call) => [call.args[0].input.CopySource, call.args[0].input.Key])
+      ).toEqual([
+        ['test-bucket/translated/job789/chunk-0.txt', 'revisions/job789/1/chunk-0.txt'],
+        ['test-bucket/translated/job789/chunk-1.txt', 'revisions/job789/1/chunk-1.txt'],
+      ]);
+    });
+
+    it('archives the newest edit of a chunk in place of the machine translation', async () => {
+      const editKey = 'translated-edits/job789/chunk-1/v2.txt';
+      edits = {
+        Contents: [
+          {
+            Key: 'translated-edits/job789/chunk-1/v1.txt',
+            LastModified: new Date('2026-03-02T09:00:00Z'),
+          },
+          { Key: editKey, LastModified: new Date('2026-03-02T10:00:00Z') },
+          // Chunk 0 was retranslated after its edit.
+          {
+            Key: 'translated-edits/job789/chunk-0/v1.txt',
+            LastModified: new Date('2026-03-02T09:00:00Z'),
+          },
+        ],
+      };
+      s3Mock.on(HeadObjectCommand, { Key: 'translated/job789/chunk-0.txt' }).resolves({
+        LastModified: new Date('2026-03-03T08:00:00Z'),
+      });
+      s3Mock.on(HeadObjectCommand, { Key: 'translated/job789/chunk-1.txt' }).resolves({
+        LastModified: new Date('2026-03-01T08:00:00Z'),
+      });
+      s3Mock.on(HeadObjectCommand, { Key: editKey }).resolves({
+        Metadata: { author: 'user123', paragraphalignment: '1,2' },
+      });
+
+      await runRevision('The first part.');
+
+      const copies = s3Mock.commandCalls(CopyObjectCommand).map((call) => call.args[0].input);
+      expect(copies[0].CopySource).toBe('test-bucket/translated/job789/chunk-0.txt');
+      expect(copies[1]).toMatchObject({
+        CopySource: `test-bucket/${editKey}`,
+        Key: 'revisions/job789/1/chunk-1.txt',
+        MetadataDirective: 'REPLACE',
+        Metadata: { paragraphAlignment: '1,2' },
+      });
+    });
+
+    it('records which chunks changed since the previous revision', async () => {
+      const values = await runRevision('The second part.');
+
+      expect(values[':status']).toBe('CHUNKED');
+      expect(values[':revisionAlignment']).toEqual({
+        previousRevision: 1,
+        targetLanguage: 'es',
+        reusedFrom: [1],
+        changedChunks: 0,
+      });
+    });
+
+    it('leaves the alignment out for a first upload', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 15,
+        Metadata: { userid: 'user123', jobid: 'job789', fileid: 'file456' },
+      });
+      s3Mock.on(GetObjectCommand).resolves({ Body: streamFromString('The first part.') as never });
+      mockJobRecord(key, 15);
+      s3Mock.on(PutObjectCommand).resolves({});
+      dynamoMock.on(UpdateItemCommand).resolves({});
+
+      await handler(createS3Event('test-bucket', key), createMockContext(), () => {});
+
+      const updates = dynamoMock.commandCalls(UpdateItemCommand);
+      expect(updates[updates.length - 1].args[0].input.UpdateExpression).not.toContain(
+        'revisionAlignment'
+      );
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should reject documents above the size guard without downloading body', async () => {
       const bucket = 'test-bucket';
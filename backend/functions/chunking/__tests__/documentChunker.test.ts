@@ -544,6 +544,121 @@ describe('DocumentChunker', () => {
       await expect(chunker.chunkDocumentStream(erroringStream)).rejects.toThrow(/NoSuchKey/);
     });
   });
+
+  describe('Section-based Chunking (chunkSections)', () => {
+    it('never lets a chunk straddle two sections', () => {
+      const chapterOne = '# One\n\nA short opening chapter.';
+      const chapterTwo = generateLongText(8000);
+      const chapterThree = 'A short closing chapter.';
+
+      const result = chunker.chunkSections([chapterOne, chapterTwo, chapterThree]);
+
+      expect(result.sections).toHaveLength(3);
+      expect(result.sections![0]).toEqual({ firstChunkIndex: 0, chunkCount: 1 });
+      expect(result.sections![1].firstChunkIndex).toBe(1);
+      expect(result.sections![1].chunkCount).toBeGreaterThanOrEqual(2);
+      expect(result.sections![2]).toEqual({
+        firstChunkIndex: 1 + result.sections![1].chunkCount,
+        chunkCount: 1,
+      });
+      expect(result.chunks[0].primaryContent).toBe(chapterOne);
+      expect(result.chunks[result.chunks.length - 1].primaryContent).toBe(chapterThree);
+      expect(result.metadata.totalChunks).toBe(result.chunks.length);
+    });
+
+    it('carries sliding-window context across section boundaries', () => {
+      const result = chunker.chunkSections(['First chapter ends here.', 'Second chapter.']);
+
+      expect(result.chunks[1].previousSummary).toBe('First chapter ends here.');
+      expect(result.chunks[0].nextPreview).toBe('Second chapter.');
+    });
+
+    it('gives an empty section an empty range and rejects all-empty input', () => {
+      const result = chunker.chunkSections(['Some text.', '   ']);
+
+      expect(result.sections![1]).toEqual({ firstChunkIndex: 1, chunkCount: 0 });
+      expect(() => chunker.chunkSections(['', ' '])).toThrow('Content cannot be empty');
+    });
+  });
+
+  describe('Block-based Chunking (chunkBlocks)', () => {
+    const cue = (n: number) =>
+      `${n}\n00:00:${String(n % 60).padStart(2, '0')},000 --> 00:00:${String(n % 60).padStart(2, '0')},900\nLine number ${n} of the subtitle track, spoken slowly.`;
+
+    it('packs whole blocks into chunks without splitting any block', () => {
+      const blocks = Array.from({ length: 400 }, (_, i) => cue(i + 1));
+      const small = createChunker({ primaryChunkSize: 500 });
+
+      const result = small.chunkBlocks(blocks);
+
+      expect(result.chunks.length).toBeGreaterThanOrEqual(2);
+      const rejoined = result.chunks.flatMap((chunk) => chunk.primaryContent.split('\n\n'));
+      expect(rejoined).toEqual(blocks);
+      for (const chunk of result.chunks) {
+        expect(countTokens(chunk.primaryContent)).toBeLessThanOrEqual(500);
+      }
+      expect(result.chunks[1].previousSummary.length).toBeGreaterThan(0);
+    });
+
+    it('keeps an oversized block whole in a chunk of its own', () => {
+      const huge = `1\n00:00:01,000 --> 00:00:02,000\n${generateLongText(200)}`;
+      const small = createChunker({ primaryChunkSize: 100 });
+
+      const result = small.chunkBlocks([cue(2), huge, cue(3)]);
+
+      expect(result.chunks.map((chunk) => chunk.primaryContent)).toEqual([
+        cue(2),
+        huge.trim(),
+        cue(3),
+      ]);
+    });
+
+    it('rejects input with no non-empty blocks', () => {
+      expect(() => chunker.chunkBlocks(['', '  '])).toThrow('Content cannot be empty');
+    });
+  });
+
+  describe('Revision Alignment (alignChunks)', () => {
+    const manuscript = (edit: (sentences: string[]) => void = () => {}) => {
+      const sentences = Array.from(
+        { length: 120 },
+        (_, i) => `Sentence ${i} of the manuscript tells its part of the story.`
+      );
+      edit(sentences);
+      return sentences.join(' ');
+    };
+    const previous = createChunker({ primaryChunkSize: 200 }).chunkDocument(manuscript());
+    const previousChunks = previous.chunks.map((chunk) => chunk.primaryContent);
+
+    it('cuts unchanged text where the previous revision was cut', async () => {
+      // Lengthening an early sentence would shift every later boundary.
+      const revised = manuscript((sentences) => {
+        sentences[3] += ' A new sentence was added to the opening chapter of the book.';
+      });
+      const reviser = createChunker({ primaryChunkSize: 200, previousChunks });
+
+      const result = await reviser.chunkDocumentStream(Readable.from([revised]));
+      const alignment = reviser.alignChunks(result.chunks);
+
+      expect(alignment[0]).toBe(-1);
+      expect(alignment.slice(-(previousChunks.length - 1))).toEqual(
+        previousChunks.slice(1).map((_, i) => i + 1)
+      );
+      expect(alignment.filter((index) => index === -1).length).toBeLessThanOrEqual(2);
+    });
+
+    it('matches every chunk of an unchanged document', () => {
+      const reviser = createChunker({ primaryChunkSize: 200, previousChunks });
+
+      const alignment = reviser.alignChunks(reviser.chunkDocument(manuscript()).chunks);
+
+      expect(alignment).toEqual(previousChunks.map((_, i) => i));
+    });
+
+    it('reports every chunk as changed without a previous revision', () => {
+      expect(chunker.alignChunks(previous.chunks)).toEqual(previous.chunks.map(() => -1));
+    });
+  });
 });
 
 /**
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the DOCX text extractor
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { extractDocxMarkdown } from '../docxExtractor';
+
+describe('extractDocxMarkdown', () => {
+  it('keeps the heading hierarchy and inline emphasis of a Word document', async () => {
+    const docx = await Packer.toBuffer(
+      new Document({
+        sections: [
+          {
+            children: [
+              new Paragraph({ text: 'Part One', heading: HeadingLevel.HEADING_1 }),
+              new Paragraph({ text: 'The Beginning', heading: HeadingLevel.HEADING_2 }),
+              new Paragraph({
+                children: [
+                  new TextRun('She read '),
+                  new TextRun({ text: 'War and Peace', italics: true }),
+                  new TextRun(' in a '),
+                  new TextRun({ text: 'single', bold: true }),
+                  new TextRun(' night.'),
+                ],
+              }),
+              new Paragraph({ text: '' }),
+              new Paragraph({ text: 'The end.' }),
+            ],
+          },
+        ],
+      })
+    );
+
+    const markdown = await extractDocxMarkdown(docx);
+
+    expect(markdown).toBe(
+      [
+        '# Part One',
+        '## The Beginning',
+        'She read *War and Peace* in a **single** night.',
+        'The end.',
+      ].join('\n\n')
+    );
+  });
+
+  it('rejects bytes that are not a Word document', async () => {
+    await expect(extractDocxMarkdown(Buffer.from('plain text'))).rejects.toThrow();
+  });
+});
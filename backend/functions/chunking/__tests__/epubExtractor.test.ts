@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the EPUB extractor
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import JSZip = require('jszip');
+import { extractEpub } from '../epubExtractor';
+import { buildEpub } from './epubFixture';
+
+describe('extractEpub', () => {
+  it('returns spine chapters with TOC titles and the package metadata', async () => {
+    const epub = await buildEpub({
+      chapters: [
+        { file: 'cover.xhtml', body: '<div><img src="cover.jpg" alt=""/></div>' },
+        {
+          file: 'text/ch1.xhtml',
+          tocTitle: 'I. The Arrival',
+          body: '<h1>I</h1><p>She came by <em>night</em>.</p>',
+        },
+        {
+          file: 'text/ch2.xhtml',
+          tocTitle: 'II. The &amp; Departure',
+          body: '<h1>II</h1><p>She left at dawn.</p>',
+        },
+      ],
+    });
+
+    const { metadata, chapters } = await extractEpub(epub);
+
+    expect(metadata).toEqual({
+      title: 'The Sample Book',
+      author: 'Jane Author',
+      identifier: 'urn:isbn:9780000000001',
+      language: 'en',
+    });
+    expect(chapters).toEqual([
+      {
+        title: 'I. The Arrival',
+        href: 'OEBPS/text/ch1.xhtml',
+        markdown: '# I\n\nShe came by *night*.',
+      },
+      {
+        title: 'II. The & Departure',
+        href: 'OEBPS/text/ch2.xhtml',
+        markdown: '# II\n\nShe left at dawn.',
+      },
+    ]);
+  });
+
+  it('reads chapter titles from toc.ncx in EPUB 2 books', async () => {
+    const epub = await buildEpub({
+      version: 2,
+      chapters: [
+        { file: 'ch1.xhtml', tocTitle: 'Prologue', body: '<p>Before it all.</p>' },
+        { file: 'ch2.xhtml', tocTitle: 'Epilogue', body: '<p>After it all.</p>' },
+      ],
+    });
+
+    const { chapters } = await extractEpub(epub);
+
+    expect(chapters.map((chapter) => chapter.title)).toEqual(['Prologue', 'Epilogue']);
+  });
+
+  it('falls back to the first heading, then to the chapter position', async () => {
+    const epub = await buildEpub({
+      chapters: [
+        { file: 'ch1.xhtml', body: '<h2>The <b>Storm</b></h2><p>Rain.</p>' },
+        { file: 'ch2.xhtml', body: '<p>No heading here.</p>' },
+      ],
+    });
+
+    const { chapters } = await extractEpub(epub);
+
+    expect(chapters.map((chapter) => chapter.title)).toEqual(['The Storm', 'Chapter 2']);
+  });
+
+  it('rejects a zip without an EPUB container', async () => {
+    const zip = new JSZip();
+    zip.file('readme.txt', 'not a book');
+
+    await expect(extractEpub(await zip.generateAsync({ type: 'nodebuffer' }))).rejects.toThrow(
+      'EPUB is missing META-INF/container.xml'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Minimal EPUB builder for the extractor and chunking tests.
+ *
+ * Produces a real zip with container.xml, a package document and either an
+ * EPUB 3 navigation document or an EPUB 2 `toc.ncx`.
+ */
+
+import JSZip = require('jszip');
+
+export interface FixtureChapter {
+  file: string;
+  /** Table-of-contents label; omit to leave the chapter out of the TOC. */
+  tocTitle?: string;
+  body: string;
+}
+
+export interface FixtureOptions {
+  chapters: FixtureChapter[];
+  version?: 2 | 3;
+  title?: string;
+  author?: string;
+  identifier?: string;
+}
+
+export async function buildEpub({
+  chapters,
+  version = 3,
+  title = 'The Sample Book',
+  author = 'Jane Author',
+  identifier = 'urn:isbn:9780000000001',
+}: FixtureOptions): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`
+  );
+
+  const toc = chapters.filter((chapter) => chapter.tocTitle);
+  const manifest = chapters
+    .map(
+      (chapter, index) =>
+        `<item id="c${index}" href="${chapter.file}" media-type="application/xhtml+xml"/>`
+    )
+    .join('\n    ');
+  const spine = chapters.map((_, index) => `<itemref idref="c${index}"/>`).join('\n    ');
+
+  zip.file(
+    'OEBPS/content.opf',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="${version}.0" unique-identifier="BookId">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="alt">urn:uuid:not-the-book-id</dc:identifier>
+    <dc:identifier id="BookId">${identifier}</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:creator>${author}</dc:creator>
+    <dc:language>en</dc:language>
+  </metadata>
+  <manifest>
+    ${manifest}
+    ${
+      version === 3
+        ? '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>'
+        : '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>'
+    }
+  </manifest>
+  <spine${version === 2 ? ' toc="ncx"' : ''}>
+    ${spine}
+  </spine>
+</package>`
+  );
+
+  if (version === 3) {
+    zip.file(
+      'OEBPS/nav.xhtml',
+      `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<body>
+  <nav epub:type="toc"><ol>
+    ${toc.map((chapter) => `<li><a href="${chapter.file}">${chapter.tocTitle}</a></li>`).join('\n    ')}
+  </ol></nav>
+</body>
+</html>`
+    );
+  } else {
+    zip.file(
+      'OEBPS/toc.ncx',
+      `<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <navMap>
+    ${toc
+      .map(
+        (chapter, index) =>
+          `<navPoint id="p${index}" playOrder="${index + 1}">
+      <navLabel><text>${chapter.tocTitle}</text></navLabel>
+      <content src="${chapter.file}"/>
+    </navPoint>`
+      )
+      .join('\n    ')}
+  </navMap>
+</ncx>`
+    );
+  }
+
+  for (const chapter of chapters) {
+    zip.file(
+      `OEBPS/${chapter.file}`,
+      `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head><title>${chapter.tocTitle ?? ''}</title></head>
+<body>
+${chapter.body}
+</body>
+</html>`
+    );
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
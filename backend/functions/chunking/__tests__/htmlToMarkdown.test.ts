@@ -0,0 +1,67 @@
+/**
+ * Unit tests for the HTML → Markdown walker shared by the DOCX and EPUB extractors
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { htmlToMarkdown } from '../htmlToMarkdown';
+
+describe('htmlToMarkdown', () => {
+  it('moves whitespace outside emphasis markers and merges split runs', () => {
+    expect(htmlToMarkdown('<p><strong>Hello </strong><strong>big</strong> world</p>')).toBe(
+      '**Hello big** world'
+    );
+  });
+
+  it('renders bullet, numbered and nested lists', () => {
+    const html = '<ul><li>One<ol><li>First</li><li>Second</li></ol></li><li>Two</li></ul>';
+
+    expect(htmlToMarkdown(html)).toBe(['- One', '  1. First', '  2. Second', '- Two'].join('\n\n'));
+  });
+
+  it('flattens table cells into paragraphs', () => {
+    expect(
+      htmlToMarkdown('<table><tr><td><p>Left</p></td><td><p>Right</p></td></tr></table>')
+    ).toBe('Left\n\nRight');
+  });
+
+  it('escapes text that would otherwise read as Markdown syntax', () => {
+    expect(htmlToMarkdown('<p>#1 bestseller with 5*5 &amp; snake_case</p>')).toBe(
+      '\\#1 bestseller with 5\\*5 & snake\\_case'
+    );
+  });
+
+  it('drops images and reflows line breaks', () => {
+    expect(htmlToMarkdown('<p>Line one<br />line two<img src="" /></p>')).toBe('Line one line two');
+  });
+
+  it('reads hand-written XHTML chapters', () => {
+    const xhtml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml">
+  <head><title>Ignored</title><style>p { margin: 0 }</style></head>
+  <body>
+    <!-- chapter opener -->
+    <H2 class="chapter">Chapter&#160;One</H2>
+    <div class="text">
+      <p>It was a <i>bright</i> cold day in April,
+        and the clocks were <b>striking</b> thirteen.</p>
+      <blockquote>&#x201C;Quoted&#x201D; &amp; indented.</blockquote>
+    </div>
+    <ul>
+      <li>
+        <p>Item</p>
+      </li>
+    </ul>
+  </body>
+</html>`;
+
+    expect(htmlToMarkdown(xhtml)).toBe(
+      [
+        '## Chapter\u00a0One',
+        'It was a *bright* cold day in April, and the clocks were **striking** thirteen.',
+        '\u201CQuoted\u201D & indented.',
+        '- Item',
+      ].join('\n\n')
+    );
+  });
+});
@@ -5,7 +5,20 @@
  * - Validates document size via HeadObject (DoS guard) before downloading
  * - Streams document body directly into the chunker — never holds the full
  *   document in memory at once (issue #24)
+ * - Word uploads (.docx) are the exception: a zip archive can't be read
+ *   incrementally, so the file is buffered and converted to Markdown first
+ * - E-books (.epub) are buffered too, and chunked chapter by chapter so no
+ *   chunk straddles two chapters; the chapter map and the book's metadata
+ *   are recorded on the job for the ePub export
+ * - Subtitles (.srt, .vtt) are chunked on cue boundaries; the job records
+ *   its subtitle format, which switches translation and download into
+ *   subtitle mode
+ * - A revision of a translated document (POST /jobs/{jobId}/revisions) is
+ *   chunked against the previous revision's chunks: unchanged text is cut
+ *   the same way, the previous translation is archived, and the job records
+ *   which chunks changed
  * - Stores chunks in S3
+ * - Detects the source language from the first chunks
  * - Updates job status in DynamoDB
  */
 
@@ -26,9 +39,31 @@ import {
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import { Readable } from 'stream';
-import { createChunker, ChunkContext, ChunkingResult } from './documentChunker';
+import type {
+  DynamoDBJob,
+  PreviousRevision,
+  RevisionAlignment,
+  SourceChapter,
+  SubtitleFormat,
+} from '@lfmt/shared-types';
+import {
+  createChunker,
+  ChunkContext,
+  ChunkingResult,
+  DocumentChunker,
+  SectionChunkRange,
+} from './documentChunker';
 import Logger from '../shared/logger';
 import { getRequiredEnv } from '../shared/env';
+import { detectLanguage, LanguageDetectionResult } from '../shared/languageDetector';
+import { extractDocxMarkdown } from './docxExtractor';
+import { extractEpub, EpubChapter } from './epubExtractor';
+import { formatCueBlock, parseSubtitles } from '../shared/subtitles';
+import {
+  copyChunkTranslation,
+  latestEditsByChunk,
+  listChunkEdits,
+} from '../shared/chunkTranslations';
 
 const logger = new Logger('lfmt-chunk-document');
 const s3Client = new S3Client({});
@@ -45,6 +80,13 @@ const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
  */
 const MAX_DOCUMENT_BYTES = 100 * 1024 * 1024;
 
+/**
+ * Number of leading chunks sampled for source-language detection. The
+ * detector itself caps the sample length; three chunks is plenty even for
+ * manuscripts that open with a short front-matter chunk.
+ */
+const LANGUAGE_DETECTION_CHUNKS = 3;
+
 interface JobRecord {
   jobId: string;
   userId: string;
@@ -59,6 +101,7 @@ interface JobRecord {
     originalFilename?: string;
     uploadRequestId?: string;
   };
+  previousRevision?: PreviousRevision;
 }
 
 interface S3ObjectMetadata {
@@ -140,6 +183,80 @@ async function openDocumentStream(bucket: string, key: string): Promise<Readable
   return body;
 }
 
+/**
+ * Read a whole S3 object into memory.
+ *
+ * Only for zip-based uploads (DOCX, EPUB), whose central directory sits at
+ * the end of the file so they cannot be consumed incrementally, and for
+ * subtitles, which are parsed into cues whole. Bounded by the
+ * MAX_DOCUMENT_BYTES HeadObject guard.
+ */
+async function readObjectBuffer(bucket: string, key: string): Promise<Buffer> {
+  const command = new GetObjectCommand({ Bucket: bucket, Key: key });
+  const response: GetObjectCommandOutput = await s3Client.send(command);
+
+  if (!response.Body) {
+    throw new Error('S3 object has no body');
+  }
+
+  const parts: Buffer[] = [];
+  for await (const part of response.Body as Readable) {
+    parts.push(part as Buffer);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Open a Word upload as a Markdown text stream for the chunker.
+ *
+ * The document is buffered and converted before chunking. The extracted
+ * Markdown keeps the manuscript's heading levels so DOCX/ePub/PDF exports
+ * can rebuild its structure.
+ */
+async function openDocxAsMarkdownStream(bucket: string, key: string): Promise<Readable> {
+  logger.info('Reading Word document', { bucket, key });
+
+  const docx = await readObjectBuffer(bucket, key);
+  const markdown = await extractDocxMarkdown(docx);
+  logger.info('Extracted Word document text', {
+    bucket,
+    key,
+    docxBytes: docx.length,
+    markdownChars: markdown.length,
+  });
+  return Readable.from([markdown]);
+}
+
+/**
+ * Source-structure fields recorded on the job alongside the chunk metadata:
+ * the chapter map and package metadata of an EPUB, or a subtitle format,
+ * and for a revision its alignment with the previous one.
+ */
+type SourceStructure = Pick<
+  DynamoDBJob,
+  'chapters' | 'sourceMetadata' | 'subtitleFormat' | 'revisionAlignment'
+>;
+
+/** Subtitle format of an upload, by extension; undefined for other documents. */
+function subtitleFormatOf(lowerKey: string): SubtitleFormat | undefined {
+  if (lowerKey.endsWith('.srt')) return 'srt';
+  if (lowerKey.endsWith('.vtt')) return 'vtt';
+  return undefined;
+}
+
+/**
+ * Pair each extracted chapter with the chunk range chunkSections gave it.
+ * Every extracted chapter has text, so every range is non-empty.
+ */
+function buildChapterMap(chapters: EpubChapter[], ranges: SectionChunkRange[]): SourceChapter[] {
+  return chapters.map((chapter, index) => ({
+    title: chapter.title,
+    firstChunkIndex: ranges[index].firstChunkIndex,
+    chunkCount: ranges[index].chunkCount,
+    href: chapter.href,
+  }));
+}
+
 /**
  * Domain-typed metadata payload for a source chunk written to S3.
  *
@@ -226,6 +343,76 @@ async function storeChunks(
   return s3Keys;
 }
 
+/**
+ * Load the primary content of the previous revision's chunks, in order.
+ */
+async function loadPreviousChunks(previous: PreviousRevision): Promise<string[]> {
+  const contents: string[] = [];
+  for (const key of previous.chunkKeys) {
+    const chunk = JSON.parse((await readObjectBuffer(DOCUMENT_BUCKET, key)).toString('utf8')) as {
+      primaryContent?: string;
+    };
+    contents.push(chunk.primaryContent ?? '');
+  }
+  return contents;
+}
+
+/**
+ * Align a revision's chunks with the previous revision's and archive the
+ * previous translation under `revisions/{jobId}/{revision}/`, where
+ * translateChunk copies unchanged chunks from — the translated/ keys are
+ * overwritten chunk by chunk once the revision is translated. The archive
+ * holds each chunk's current translation, edits included: the copy
+ * translateChunk writes back is newer than the edits, so it is what the
+ * editor and downloads see afterwards.
+ */
+async function alignRevision(
+  chunker: DocumentChunker,
+  chunks: ChunkContext[],
+  jobId: string,
+  previous: PreviousRevision
+): Promise<RevisionAlignment> {
+  const latestEdits = latestEditsByChunk(await listChunkEdits(s3Client, DOCUMENT_BUCKET, jobId));
+  for (let index = 0; index < previous.chunkKeys.length; index++) {
+    await copyChunkTranslation(
+      s3Client,
+      DOCUMENT_BUCKET,
+      jobId,
+      index,
+      latestEdits.get(index),
+      `revisions/${jobId}/${previous.revision}/chunk-${index}.txt`
+    );
+  }
+
+  const reusedFrom = chunker.alignChunks(chunks);
+  return {
+    previousRevision: previous.revision,
+    targetLanguage: previous.targetLanguage,
+    reusedFrom,
+    changedChunks: reusedFrom.filter((index) => index === -1).length,
+  };
+}
+
+/**
+ * Detect the source language from the first chunks' primary content.
+ * Never throws — a failed or inconclusive detection just leaves the job
+ * without a `sourceLanguage`, which the translation prompt tolerates.
+ */
+function detectSourceLanguage(chunks: ChunkContext[]): LanguageDetectionResult | null {
+  try {
+    const sample = chunks
+      .slice(0, LANGUAGE_DETECTION_CHUNKS)
+      .map((chunk) => chunk.primaryContent)
+      .join('\n');
+    return detectLanguage(sample);
+  } catch (error) {
+    logger.warn('Source language detection failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
 /**
  * Get job record from DynamoDB
  */
@@ -261,7 +448,9 @@ async function updateJobStatus(
     averageChunkSize: number;
     processingTimeMs: number;
   },
-  errorMessage?: string
+  errorMessage?: string,
+  sourceLanguage?: LanguageDetectionResult | null,
+  sourceStructure?: SourceStructure
 ): Promise<void> {
   logger.info('Updating job status', { jobId, userId, status });
 
@@ -287,6 +476,20 @@ async function updateJobStatus(
     expressionAttributeValues[':errorMessage'] = errorMessage;
   }
 
+  if (sourceLanguage) {
+    updateExpression.push('sourceLanguage = :sourceLanguage');
+    updateExpression.push('sourceLanguageConfidence = :sourceLanguageConfidence');
+    expressionAttributeValues[':sourceLanguage'] = sourceLanguage.language;
+    expressionAttributeValues[':sourceLanguageConfidence'] = sourceLanguage.confidence;
+  }
+
+  for (const [field, value] of Object.entries(sourceStructure ?? {})) {
+    if (value !== undefined) {
+      updateExpression.push(`${field} = :${field}`);
+      expressionAttributeValues[`:${field}`] = value;
+    }
+  }
+
   const command = new UpdateItemCommand({
     TableName: JOBS_TABLE,
     Key: marshall({ jobId, userId }),
@@ -335,17 +538,66 @@ export const handler: S3Handler = async (event: S3Event): Promise<void> => {
 
       // 4. Open the body as a Readable stream and chunk incrementally.
       //    Memory peak is bounded by chunk size + small text buffer, NOT by document size.
-      const bodyStream = await openDocumentStream(bucket, key);
-
-      logger.info('Starting streaming document chunking', {
-        jobId,
-        userId,
-        fileId,
-        contentLength,
+      //    Word uploads are converted to Markdown up front (see openDocxAsMarkdownStream);
+      //    e-books are extracted whole and chunked per chapter, subtitles cue by cue.
+      //    A revision is cut where the previous revision was, wherever its text is unchanged.
+      const previousRevision = jobRecord.previousRevision;
+      const chunker = createChunker({
+        previousChunks: previousRevision ? await loadPreviousChunks(previousRevision) : undefined,
       });
-
-      const chunker = createChunker();
-      const result: ChunkingResult = await chunker.chunkDocumentStream(bodyStream);
+      const lowerKey = key.toLowerCase();
+      let result: ChunkingResult;
+      const subtitleFormat = subtitleFormatOf(lowerKey);
+      let sourceStructure: SourceStructure | undefined;
+
+      if (subtitleFormat) {
+        const cues = parseSubtitles(
+          (await readObjectBuffer(bucket, key)).toString('utf8'),
+          subtitleFormat
+        );
+
+        logger.info('Starting cue-boundary subtitle chunking', {
+          jobId,
+          userId,
+          fileId,
+          contentLength,
+          subtitleFormat,
+          cueCount: cues.length,
+        });
+
+        result = chunker.chunkBlocks(cues.map(formatCueBlock));
+        sourceStructure = { subtitleFormat };
+      } else if (lowerKey.endsWith('.epub')) {
+        logger.info('Reading EPUB', { bucket, key });
+        const epub = await extractEpub(await readObjectBuffer(bucket, key));
+
+        logger.info('Starting per-chapter document chunking', {
+          jobId,
+          userId,
+          fileId,
+          contentLength,
+          chapterCount: epub.chapters.length,
+        });
+
+        result = chunker.chunkSections(epub.chapters.map((chapter) => chapter.markdown));
+        sourceStructure = {
+          chapters: buildChapterMap(epub.chapters, result.sections ?? []),
+          sourceMetadata: epub.metadata,
+        };
+      } else {
+        const bodyStream = lowerKey.endsWith('.docx')
+          ? await openDocxAsMarkdownStream(bucket, key)
+          : await openDocumentStream(bucket, key);
+
+        logger.info('Starting streaming document chunking', {
+          jobId,
+          userId,
+          fileId,
+          contentLength,
+        });
+
+        result = await chunker.chunkDocumentStream(bodyStream);
+      }
 
       logger.info('Document chunked successfully', {
         jobId,
@@ -361,19 +613,49 @@ export const handler: S3Handler = async (event: S3Event): Promise<void> => {
       // 5. Store chunks in S3
       const chunkKeys = await storeChunks(result.chunks, userId, fileId, jobId);
 
-      // 6. Update job status to CHUNKED with metadata
-      await updateJobStatus(jobId, userId, 'CHUNKED', {
-        totalChunks: result.metadata.totalChunks,
-        chunkKeys,
-        originalTokenCount: result.metadata.originalTokenCount,
-        averageChunkSize: result.metadata.averageChunkSize,
-        processingTimeMs: result.metadata.processingTimeMs,
-      });
+      // 6. Detect the source language from the first chunks
+      const sourceLanguage = detectSourceLanguage(result.chunks);
+
+      if (previousRevision) {
+        const revisionAlignment = await alignRevision(
+          chunker,
+          result.chunks,
+          jobId,
+          previousRevision
+        );
+        sourceStructure = { ...sourceStructure, revisionAlignment };
+
+        logger.info('Revision aligned with the previous revision', {
+          jobId,
+          previousRevision: previousRevision.revision,
+          totalChunks: result.chunks.length,
+          changedChunks: revisionAlignment.changedChunks,
+        });
+      }
+
+      // 7. Update job status to CHUNKED with metadata
+      await updateJobStatus(
+        jobId,
+        userId,
+        'CHUNKED',
+        {
+          totalChunks: result.metadata.totalChunks,
+          chunkKeys,
+          originalTokenCount: result.metadata.originalTokenCount,
+          averageChunkSize: result.metadata.averageChunkSize,
+          processingTimeMs: result.metadata.processingTimeMs,
+        },
+        undefined,
+        sourceLanguage,
+        sourceStructure
+      );
 
       logger.info('Document chunking completed successfully', {
         jobId,
         fileId,
         totalChunks: result.metadata.totalChunks,
+        sourceLanguage: sourceLanguage?.language,
+        sourceLanguageConfidence: sourceLanguage?.confidence,
       });
     } catch (error) {
       logger.error('Error processing document', {
@@ -18,8 +18,16 @@ export interface ChunkContext {
   chunkId: string; // Unique identifier for this chunk
 }
 
+/** Chunk range owned by one input section (see chunkSections). */
+export interface SectionChunkRange {
+  firstChunkIndex: number;
+  chunkCount: number;
+}
+
 export interface ChunkingResult {
   chunks: ChunkContext[];
+  /** Per-section chunk ranges, in input order — set by chunkSections only. */
+  sections?: SectionChunkRange[];
   metadata: {
     originalTokenCount: number;
     totalChunks: number;
@@ -32,17 +40,32 @@ export interface ChunkingOptions {
   primaryChunkSize?: number; // Default: 3500
   contextSize?: number; // Default: 250
   minChunkSize?: number; // Default: 100 (minimum tokens to create a chunk)
+  /**
+   * Primary content of the chunks of the document's previous revision. A
+   * new chunk is started at every sentence that opened one of them, so
+   * text the revision left alone is cut into the same chunks again and
+   * alignChunks can match them.
+   */
+  previousChunks?: string[];
 }
 
 export class DocumentChunker {
   private readonly PRIMARY_CHUNK_SIZE: number;
   private readonly CONTEXT_SIZE: number;
   private readonly MIN_CHUNK_SIZE: number;
+  private readonly previousChunks: string[];
+  private readonly previousChunkOpenings: Set<string>;
 
   constructor(options: ChunkingOptions = {}) {
     this.PRIMARY_CHUNK_SIZE = options.primaryChunkSize || 3500;
     this.CONTEXT_SIZE = options.contextSize || 250;
     this.MIN_CHUNK_SIZE = options.minChunkSize || 100;
+    this.previousChunks = options.previousChunks ?? [];
+    this.previousChunkOpenings = new Set(
+      this.previousChunks
+        .map((content) => splitIntoSentences(content)[0])
+        .filter((sentence): sentence is string => sentence !== undefined)
+    );
   }
 
   /**
@@ -176,8 +199,13 @@ export class DocumentChunker {
           continue;
         }
 
-        // Sentence won't fit in current chunk → finalize current, start new one with this sentence.
-        if (currentTokens + sentenceTokens > this.PRIMARY_CHUNK_SIZE && currentChunk.length > 0) {
+        // Sentence won't fit in current chunk, or opened a chunk of the previous
+        // revision → finalize current, start new one with this sentence.
+        if (
+          (currentTokens + sentenceTokens > this.PRIMARY_CHUNK_SIZE ||
+            this.previousChunkOpenings.has(sentence)) &&
+          currentChunk.length > 0
+        ) {
           rawChunks.push(currentChunk.trim());
           currentChunk = sentence;
           currentTokens = sentenceTokens;
@@ -282,6 +310,134 @@ export class DocumentChunker {
     };
   }
 
+  /**
+   * Chunk a document that is already divided into sections (e.g. the
+   * chapters of an EPUB) so that no chunk straddles a section boundary.
+   *
+   * Each section is chunked on its own with the usual sentence-boundary
+   * rules; the sliding-window context still runs across boundaries, so the
+   * first chunk of a chapter sees the end of the previous one.
+   *
+   * @param sections - Section texts in reading order
+   * @returns ChunkingResult whose `sections` gives each section's chunk range
+   *   (`chunkCount` is 0 for a section with no text)
+   */
+  public chunkSections(sections: string[]): ChunkingResult {
+    const startTime = Date.now();
+    const rawChunks: string[] = [];
+    const ranges: SectionChunkRange[] = [];
+    let originalTokenCount = 0;
+
+    for (const section of sections) {
+      const sectionTokens = countTokens(section);
+      const firstChunkIndex = rawChunks.length;
+      originalTokenCount += sectionTokens;
+
+      if (sectionTokens > this.PRIMARY_CHUNK_SIZE) {
+        rawChunks.push(...this.createPrimaryChunks(splitIntoSentences(section)));
+      } else if (sectionTokens > 0) {
+        rawChunks.push(section.trim());
+      }
+
+      ranges.push({ firstChunkIndex, chunkCount: rawChunks.length - firstChunkIndex });
+    }
+
+    if (rawChunks.length === 0) {
+      throw new Error('Content cannot be empty');
+    }
+
+    const chunksWithContext = this.addSlidingWindowContext(rawChunks);
+    const totalContentTokens = chunksWithContext.reduce(
+      (sum, chunk) => sum + countTokens(chunk.primaryContent),
+      0
+    );
+
+    return {
+      chunks: chunksWithContext,
+      sections: ranges,
+      metadata: {
+        originalTokenCount,
+        totalChunks: chunksWithContext.length,
+        averageChunkSize: Math.round(totalContentTokens / chunksWithContext.length),
+        processingTimeMs: Date.now() - startTime,
+      },
+    };
+  }
+
+  /**
+   * Chunk a document made of indivisible blocks (e.g. subtitle cues) by
+   * packing whole blocks, separated by a blank line, into each chunk.
+   *
+   * A block is never split — one larger than the chunk size becomes a
+   * chunk of its own. Sliding-window context works as in chunkDocument.
+   *
+   * @param blocks - Block texts in document order
+   * @returns ChunkingResult with chunks and metadata
+   */
+  public chunkBlocks(blocks: string[]): ChunkingResult {
+    const startTime = Date.now();
+    const rawChunks: string[] = [];
+    let currentBlocks: string[] = [];
+    let currentTokens = 0;
+    let originalTokenCount = 0;
+
+    for (const block of blocks.map((text) => text.trim()).filter((text) => text.length > 0)) {
+      const blockTokens = countTokens(block);
+      originalTokenCount += blockTokens;
+
+      if (currentTokens + blockTokens > this.PRIMARY_CHUNK_SIZE && currentBlocks.length > 0) {
+        rawChunks.push(currentBlocks.join('\n\n'));
+        currentBlocks = [];
+        currentTokens = 0;
+      }
+      currentBlocks.push(block);
+      currentTokens += blockTokens;
+    }
+
+    if (currentBlocks.length > 0) {
+      rawChunks.push(currentBlocks.join('\n\n'));
+    }
+
+    if (rawChunks.length === 0) {
+      throw new Error('Content cannot be empty');
+    }
+
+    const chunksWithContext = this.addSlidingWindowContext(rawChunks);
+    const totalContentTokens = chunksWithContext.reduce(
+      (sum, chunk) => sum + countTokens(chunk.primaryContent),
+      0
+    );
+
+    return {
+      chunks: chunksWithContext,
+      metadata: {
+        originalTokenCount,
+        totalChunks: chunksWithContext.length,
+        averageChunkSize: Math.round(totalContentTokens / chunksWithContext.length),
+        processingTimeMs: Date.now() - startTime,
+      },
+    };
+  }
+
+  /**
+   * Align the chunks of a revised document with the chunks of its previous
+   * revision (the `previousChunks` option).
+   *
+   * @param chunks - Chunks of the revision, in order
+   * @returns For each chunk, the index of the previous chunk with the same
+   *   primary content, or -1 when its source changed
+   */
+  public alignChunks(chunks: ChunkContext[]): number[] {
+    const previousIndex = new Map<string, number>();
+    this.previousChunks.forEach((content, index) => {
+      if (!previousIndex.has(content)) {
+        previousIndex.set(content, index);
+      }
+    });
+
+    return chunks.map((chunk) => previousIndex.get(chunk.primaryContent) ?? -1);
+  }
+
   /**
    * Create primary chunks from sentences
    * Ensures chunks don't exceed PRIMARY_CHUNK_SIZE and don't split sentences
@@ -309,8 +465,13 @@ export class DocumentChunker {
         continue;
       }
 
-      // Check if adding this sentence would exceed the limit
-      if (currentTokens + sentenceTokens > this.PRIMARY_CHUNK_SIZE && currentChunk.length > 0) {
+      // Check if adding this sentence would exceed the limit, or if a chunk of
+      // the previous revision started here
+      if (
+        (currentTokens + sentenceTokens > this.PRIMARY_CHUNK_SIZE ||
+          this.previousChunkOpenings.has(sentence)) &&
+        currentChunk.length > 0
+      ) {
         chunks.push(currentChunk.trim());
         currentChunk = sentence;
         currentTokens = sentenceTokens;
@@ -0,0 +1,41 @@
+/**
+ * DOCX Text Extractor
+ *
+ * Turns an uploaded Word manuscript into the Markdown the chunker and the
+ * translation prompt already understand, so a `.docx` upload flows through
+ * the same pipeline as a `.txt` one:
+ *
+ * - Heading 1–6 paragraphs become `#`–`######` lines, which the ePub, PDF
+ *   and DOCX exporters use to rebuild chapters and the heading hierarchy.
+ * - Bold and italic runs become `**…**` and `*…*`.
+ * - List items become `- ` / `1. ` lines; tables are flattened into plain
+ *   paragraphs, cell by cell.
+ * - Everything else (images, footnote markers, comments, tracked-change
+ *   metadata) is dropped — only the text is translated.
+ *
+ * mammoth does the OOXML parsing and style mapping; its HTML output is
+ * folded into Markdown by htmlToMarkdown.ts.
+ */
+
+import mammoth = require('mammoth');
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+/**
+ * Extract a `.docx` manuscript as Markdown.
+ *
+ * @param docx - Raw bytes of the uploaded Word document
+ * @returns Markdown with headings and emphasis preserved; empty string for
+ *   a document with no text
+ * @throws When the bytes are not a readable Word document
+ */
+export async function extractDocxMarkdown(docx: Buffer): Promise<string> {
+  const { value: html } = await mammoth.convertToHtml(
+    { buffer: docx },
+    {
+      // Never inline images as base64 data URIs — they are dropped anyway,
+      // and a picture-heavy manuscript would balloon the HTML.
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+    }
+  );
+  return htmlToMarkdown(html);
+}
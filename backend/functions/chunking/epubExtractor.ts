@@ -0,0 +1,222 @@
+/**
+ * EPUB Extractor
+ *
+ * Reads an uploaded e-book into per-chapter Markdown so chunkDocument can
+ * chunk each spine item separately (chunks never straddle chapters) and
+ * the ePub export can rebuild the book with its original structure:
+ *
+ * - The package document (`.opf`, located via `META-INF/container.xml`)
+ *   supplies the reading order (spine) and the metadata we carry over to
+ *   the translated ePub — title, author, identifier, language.
+ * - Chapter titles come from the table of contents: the EPUB 3 navigation
+ *   document, or `toc.ncx` for EPUB 2 books. A spine item the TOC doesn't
+ *   name falls back to its first heading, then to "Chapter N".
+ * - Each XHTML spine item is converted with htmlToMarkdown.ts. Items with
+ *   no text (cover pages, image plates) are skipped.
+ *
+ * The package is a small, well-formed XML vocabulary, so the few elements
+ * we need are matched with regular expressions rather than a full parser.
+ */
+
+import * as path from 'path';
+import JSZip = require('jszip');
+import { SourceDocumentMetadata } from '@lfmt/shared-types';
+import { decodeEntities, htmlToMarkdown } from './htmlToMarkdown';
+
+/** Spine items are XHTML; anything else in the spine (e.g. SVG pages) is skipped. */
+const XHTML_MEDIA_TYPE = 'application/xhtml+xml';
+
+/** Upper bound on chapter title length, matching the ePub converter's cap. */
+const MAX_CHAPTER_TITLE_LEN = 200;
+
+export interface EpubChapter {
+  title: string;
+  /** Path of the spine item inside the archive. */
+  href: string;
+  markdown: string;
+}
+
+export interface ExtractedEpub {
+  metadata: SourceDocumentMetadata;
+  /** Chapters with text, in reading order. */
+  chapters: EpubChapter[];
+}
+
+interface ManifestItem {
+  href: string;
+  mediaType: string;
+  properties: string[];
+}
+
+/** Attributes of one start tag, e.g. `<item id="c1" href="c1.xhtml"/>`. */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of tag.matchAll(
+    /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  )) {
+    attributes[name] = doubleQuoted ?? singleQuoted;
+  }
+  return attributes;
+}
+
+/** Start tags named `name`, with or without a namespace prefix. */
+function findTags(xml: string, name: string): Array<Record<string, string>> {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>`, 'g');
+  return [...xml.matchAll(pattern)].map(([tag]) => parseAttributes(tag));
+}
+
+/** Plain text of an inline fragment: tags dropped, entities decoded, whitespace collapsed. */
+function textOf(fragment: string): string {
+  return decodeEntities(fragment.replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Text content of every `<dc:name>` element, in document order. */
+function dublinCore(opf: string, name: string): Array<{ id?: string; text: string }> {
+  const pattern = new RegExp(`<dc:${name}\\b([^>]*)>([\\s\\S]*?)</dc:${name}>`, 'g');
+  return [...opf.matchAll(pattern)].map(([, attributes, content]) => ({
+    id: parseAttributes(attributes).id,
+    text: textOf(content),
+  }));
+}
+
+function readMetadata(opf: string): SourceDocumentMetadata {
+  const uniqueIdentifierId = findTags(opf, 'package')[0]?.['unique-identifier'];
+  const identifiers = dublinCore(opf, 'identifier');
+  const identifier =
+    identifiers.find((entry) => entry.id && entry.id === uniqueIdentifierId) ?? identifiers[0];
+
+  const metadata: SourceDocumentMetadata = {
+    title: dublinCore(opf, 'title')[0]?.text,
+    author: dublinCore(opf, 'creator')
+      .map((entry) => entry.text)
+      .filter((name) => name.length > 0)
+      .join(', '),
+    identifier: identifier?.text,
+    language: dublinCore(opf, 'language')[0]?.text,
+  };
+
+  // Drop empty fields so the job record only carries what the book declares.
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value)
+  ) as SourceDocumentMetadata;
+}
+
+/** Resolve an href relative to the document it appears in; drops the fragment. */
+function resolveHref(baseFile: string, href: string): string {
+  const withoutFragment = decodeURIComponent(href.split('#')[0]);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), withoutFragment));
+}
+
+async function readText(zip: JSZip, file: string): Promise<string> {
+  const entry = zip.file(file);
+  if (!entry) {
+    throw new Error(`EPUB is missing ${file}`);
+  }
+  return entry.async('string');
+}
+
+/**
+ * Chapter titles keyed by spine item path. The first TOC entry pointing
+ * into a file wins — later entries are sections within that chapter.
+ */
+async function readTocTitles(
+  zip: JSZip,
+  opfPath: string,
+  manifest: Map<string, ManifestItem>,
+  tocId: string | undefined
+): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const addTitle = (tocFile: string, href: string | undefined, label: string) => {
+    const target = href && resolveHref(tocFile, href);
+    if (target && label && !titles.has(target)) {
+      titles.set(target, label);
+    }
+  };
+
+  const nav = [...manifest.values()].find((item) => item.properties.includes('nav'));
+  if (nav) {
+    const navFile = resolveHref(opfPath, nav.href);
+    const navXhtml = await readText(zip, navFile);
+    const tocNav =
+      /<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^>]*>([\s\S]*?)<\/nav>/.exec(navXhtml)?.[1] ??
+      navXhtml;
+    for (const [, attributes, label] of tocNav.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/g)) {
+      addTitle(navFile, parseAttributes(attributes).href, textOf(label));
+    }
+    return titles;
+  }
+
+  const ncx = tocId ? manifest.get(tocId) : undefined;
+  if (ncx) {
+    const ncxFile = resolveHref(opfPath, ncx.href);
+    const ncxXml = await readText(zip, ncxFile);
+    for (const [, navPoint] of ncxXml.matchAll(
+      /<navPoint\b[^>]*>([\s\S]*?)(?=<navPoint\b|<\/navPoint>)/g
+    )) {
+      const label = /<text>([\s\S]*?)<\/text>/.exec(navPoint)?.[1] ?? '';
+      addTitle(ncxFile, findTags(navPoint, 'content')[0]?.src, textOf(label));
+    }
+  }
+  return titles;
+}
+
+function chapterTitle(tocTitle: string | undefined, markdown: string, position: number): string {
+  // Headings come back as Markdown — strip emphasis markers and escapes.
+  const firstHeading = /^#{1,6} (.+)$/m.exec(markdown)?.[1]?.replace(/\\(.)|[*_]/g, '$1');
+  const title = tocTitle || firstHeading || `Chapter ${position}`;
+  return title.length > MAX_CHAPTER_TITLE_LEN ? title.slice(0, MAX_CHAPTER_TITLE_LEN) + '…' : title;
+}
+
+/**
+ * Extract an EPUB (2 or 3) as per-chapter Markdown plus package metadata.
+ *
+ * @param epub - Raw bytes of the uploaded e-book
+ * @returns Metadata and the chapters that contain text, in spine order
+ * @throws When the bytes are not a zip, or the container, package document
+ *   or a spine item is missing
+ */
+export async function extractEpub(epub: Buffer): Promise<ExtractedEpub> {
+  const zip = await JSZip.loadAsync(epub);
+
+  const container = await readText(zip, 'META-INF/container.xml');
+  const opfPath = findTags(container, 'rootfile')[0]?.['full-path'];
+  if (!opfPath) {
+    throw new Error('EPUB container.xml does not name a package document');
+  }
+  const opf = await readText(zip, opfPath);
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of findTags(opf, 'item')) {
+    if (item.id && item.href) {
+      manifest.set(item.id, {
+        href: item.href,
+        mediaType: item['media-type'] ?? '',
+        properties: (item.properties ?? '').split(/\s+/),
+      });
+    }
+  }
+
+  const tocTitles = await readTocTitles(zip, opfPath, manifest, findTags(opf, 'spine')[0]?.toc);
+
+  const chapters: EpubChapter[] = [];
+  for (const { idref } of findTags(opf, 'itemref')) {
+    const item = manifest.get(idref);
+    if (!item || item.mediaType !== XHTML_MEDIA_TYPE) {
+      continue;
+    }
+    const href = resolveHref(opfPath, item.href);
+    const markdown = htmlToMarkdown(await readText(zip, href));
+    if (markdown.length === 0) {
+      continue;
+    }
+    chapters.push({
+      title: chapterTitle(tocTitles.get(href), markdown, chapters.length + 1),
+      href,
+      markdown,
+    });
+  }
+
+  return { metadata: readMetadata(opf), chapters };
+}
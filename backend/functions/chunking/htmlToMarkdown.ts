@@ -0,0 +1,195 @@
+/**
+ * HTML → Markdown walker
+ *
+ * Folds the HTML produced by mammoth (Word uploads) and the XHTML chapters
+ * of an EPUB into the Markdown the chunker and the translation prompt
+ * understand: headings, paragraphs, lists, bold and italic. Anything else
+ * (links, images, spans, tables' layout) is reduced to its text.
+ *
+ * Both sources use a small element vocabulary, so a tokenizer over tags
+ * and text runs is enough — no DOM is needed.
+ */
+
+/** Block-level element names. `div`/`blockquote` only occur in EPUB chapters. */
+const HEADING_TAG = /^h([1-6])$/;
+const BLOCK_TAGS = new Set(['p', 'li', 'td', 'th', 'div', 'blockquote']);
+const LIST_TAGS = new Set(['ul', 'ol']);
+const BOLD_TAGS = new Set(['strong', 'b']);
+const ITALIC_TAGS = new Set(['em', 'i']);
+
+/**
+ * Markup whose content is never text to translate: comments, processing
+ * instructions, doctypes, CDATA, and the `<head>`, `<script>` and `<style>`
+ * elements of an XHTML page.
+ */
+const NON_CONTENT =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<(head|script|style)\b[\s\S]*?<\/\1\s*>/gi;
+
+/** Matches one tag or one run of text. */
+const HTML_TOKEN = /<(\/?)([a-z0-9]+)[^>]*>|([^<]+)/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+interface InlineSegment {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface OpenList {
+  ordered: boolean;
+  nextNumber: number;
+}
+
+/** Decode named and numeric character references. */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint =
+        name[1] === 'x' || name[1] === 'X'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[name] ?? entity;
+  });
+}
+
+/** Backslash-escape characters that would otherwise be read as Markdown emphasis. */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_])/g, '\\$1');
+}
+
+/**
+ * Render a paragraph's runs as Markdown. Adjacent runs with the same
+ * styling are merged first (Word splits runs freely, e.g. at spell-check
+ * boundaries), and surrounding whitespace is moved outside the markers —
+ * `** bold **` is not emphasis in Markdown.
+ */
+function renderInline(segments: InlineSegment[]): string {
+  const merged: InlineSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.bold === segment.bold && last.italic === segment.italic) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged
+    .map(({ text, bold, italic }) => {
+      const marker = (bold ? '**' : '') + (italic ? '*' : '');
+      const escaped = escapeMarkdown(text);
+      if (!marker || escaped.trim().length === 0) {
+        return escaped;
+      }
+      const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(escaped)!;
+      return `${leading}${marker}${core}${[...marker].reverse().join('')}${trailing}`;
+    })
+    .join('')
+    .replace(/[ \t\r\n]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Convert mammoth's HTML into Markdown blocks separated by blank lines —
+ * the paragraph separator the chunker splits on.
+ */
+export function htmlToMarkdown(html: string): string {
+  const blocks: string[] = [];
+  const lists: OpenList[] = [];
+  let segments: InlineSegment[] = [];
+  let prefix: string | null = null;
+  let boldDepth = 0;
+  let italicDepth = 0;
+
+  const flush = () => {
+    if (prefix !== null) {
+      const text = renderInline(segments);
+      if (text.length > 0) {
+        // A body paragraph that happens to start with `#` must not become a heading.
+        blocks.push(prefix + (prefix.startsWith('#') ? text : text.replace(/^#/, '\\#')));
+      }
+    }
+    segments = [];
+    prefix = null;
+  };
+
+  for (const match of html.replace(NON_CONTENT, '').matchAll(HTML_TOKEN)) {
+    const [, closing, rawTag, text] = match;
+    const tag = rawTag?.toLowerCase();
+
+    if (text !== undefined) {
+      if (prefix === null) {
+        if (text.trim().length === 0) {
+          // Indentation between tags in hand-written XHTML.
+          continue;
+        }
+        // Stray text outside any block — treat it as its own paragraph.
+        prefix = '';
+      }
+      segments.push({ text: decodeEntities(text), bold: boldDepth > 0, italic: italicDepth > 0 });
+      continue;
+    }
+
+    const heading = HEADING_TAG.exec(tag);
+    if (closing) {
+      if (heading || BLOCK_TAGS.has(tag)) {
+        flush();
+      } else if (LIST_TAGS.has(tag)) {
+        flush();
+        lists.pop();
+      } else if (BOLD_TAGS.has(tag)) {
+        boldDepth = Math.max(0, boldDepth - 1);
+      } else if (ITALIC_TAGS.has(tag)) {
+        italicDepth = Math.max(0, italicDepth - 1);
+      }
+      continue;
+    }
+
+    if (heading) {
+      flush();
+      prefix = `${'#'.repeat(Number(heading[1]))} `;
+    } else if (BLOCK_TAGS.has(tag)) {
+      // A <p> opening straight inside a list item or table cell continues
+      // that block rather than starting a new one.
+      if (
+        tag === 'p' &&
+        prefix !== null &&
+        segments.every((segment) => segment.text.trim().length === 0)
+      ) {
+        continue;
+      }
+      flush();
+      if (tag === 'li') {
+        const list = lists[lists.length - 1];
+        const indent = '  '.repeat(Math.max(0, lists.length - 1));
+        prefix = indent + (list?.ordered ? `${list.nextNumber++}. ` : '- ');
+      } else {
+        prefix = '';
+      }
+    } else if (LIST_TAGS.has(tag)) {
+      // A nested list closes the parent item's text first.
+      flush();
+      lists.push({ ordered: tag === 'ol', nextNumber: 1 });
+    } else if (BOLD_TAGS.has(tag)) {
+      boldDepth++;
+    } else if (ITALIC_TAGS.has(tag)) {
+      italicDepth++;
+    } else if (tag === 'br') {
+      // Soft line break inside a paragraph — reflowed as a space.
+      segments.push({ text: ' ', bold: false, italic: false });
+    }
+  }
+  flush();
+
+  return blocks.join('\n\n');
+}
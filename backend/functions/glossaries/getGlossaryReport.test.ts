@@ -0,0 +1,305 @@
+/**
+ * Unit tests for the glossary compliance report endpoint
+ * GET and POST /jobs/{jobId}/glossary-report
+ */
+
+process.env.DOCUMENT_BUCKET = 'test-documents-bucket';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import { handler } from './getGlossaryReport';
+import { chunkEditKey, encodeEditMetadata } from '../shared/chunkTranslations';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+
+const TEST_JOB_ID = '11111111-1111-1111-1111-111111111111';
+const TEST_USER_ID = 'user-123';
+const STARTED_AT = new Date('2026-03-01T08:00:00Z');
+const TRANSLATED_AT = new Date('2026-03-01T09:00:00Z');
+
+function makeS3Stream(content: string) {
+  return sdkStreamMixin(Readable.from([content]));
+}
+
+describe('getGlossaryReport endpoint', () => {
+  const createEvent = (
+    opts: { jobId?: string; glossaryId?: string; userId?: string | null; body?: string } = {}
+  ): APIGatewayProxyEvent =>
+    ({
+      httpMethod: opts.body === undefined ? 'GET' : 'POST',
+      path: `/jobs/${opts.jobId ?? TEST_JOB_ID}/glossary-report`,
+      pathParameters: { jobId: opts.jobId ?? TEST_JOB_ID },
+      queryStringParameters: opts.glossaryId ? { glossaryId: opts.glossaryId } : null,
+      headers: {},
+      body: opts.body ?? null,
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer:
+          opts.userId === null ? undefined : { claims: { sub: opts.userId ?? TEST_USER_ID } },
+      },
+    }) as unknown as APIGatewayProxyEvent;
+
+  const completedJob = (overrides: Record<string, unknown> = {}) => ({
+    jobId: TEST_JOB_ID,
+    userId: TEST_USER_ID,
+    translationStatus: 'COMPLETED',
+    translationStartedAt: STARTED_AT.toISOString(),
+    glossaryId: 'gloss-1',
+    chunkingMetadata: { chunkKeys: ['chunks/u/f/chunk-0.json', 'chunks/u/f/chunk-1.json'] },
+    ...overrides,
+  });
+
+  const glossary = {
+    userId: TEST_USER_ID,
+    glossaryId: 'gloss-1',
+    name: 'Middle-earth',
+    terms: [
+      { source: 'Shire', target: 'Comarca' },
+      { source: 'Frodo', target: 'Frodo' },
+      { source: 'Mordor', target: 'Mordor' },
+    ],
+  };
+
+  const mockJob = (job: Record<string, unknown> | null) =>
+    dynamoMock
+      .on(GetItemCommand, { TableName: 'test-jobs-table' })
+      .resolves(job ? { Item: marshall(job, { removeUndefinedValues: true }) } : {});
+
+  const mockGlossary = (record: Record<string, unknown> | null) =>
+    dynamoMock
+      .on(GetItemCommand, { TableName: 'test-glossaries-table' })
+      .resolves(record ? { Item: marshall(record) } : {});
+
+  const mockObject = (key: string, body: string, extra: Record<string, unknown> = {}) =>
+    s3Mock
+      .on(GetObjectCommand, { Key: key })
+      .resolves({ Body: makeS3Stream(body), LastModified: TRANSLATED_AT, ...extra } as never);
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    s3Mock.on(ListObjectsV2Command).resolves({ Contents: [] });
+  });
+
+  it('returns 401 without an authenticated caller', async () => {
+    const result = await handler(createEvent({ userId: null }));
+    expect(result.statusCode).toBe(401);
+  });
+
+  it('returns 400 for a non-UUID jobId', async () => {
+    const result = await handler(createEvent({ jobId: 'not-a-uuid' }));
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('returns 404 when the job is missing or owned by another user', async () => {
+    mockJob(null);
+    const result = await handler(createEvent());
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('returns 409 while the translation is not COMPLETED', async () => {
+    mockJob(completedJob({ translationStatus: 'IN_PROGRESS' }));
+    const result = await handler(createEvent());
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).message).toContain('IN_PROGRESS');
+  });
+
+  it('returns 400 when neither the query nor the job names a glossary', async () => {
+    mockJob(completedJob({ glossaryId: undefined }));
+    const result = await handler(createEvent());
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('returns 404 when the glossary is missing', async () => {
+    mockJob(completedJob());
+    mockGlossary(null);
+    const result = await handler(createEvent());
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).message).toContain('Glossary not found');
+  });
+
+  it('reports per-chunk violations against the job glossary', async () => {
+    mockJob(completedJob());
+    mockGlossary(glossary);
+    mockObject(
+      'chunks/u/f/chunk-0.json',
+      JSON.stringify({ primaryContent: 'Frodo left the Shire. The Shire was quiet.' })
+    );
+    mockObject('translated/' + TEST_JOB_ID + '/chunk-0.txt', 'Frodo dejó la Comarca.');
+    mockObject(
+      'chunks/u/f/chunk-1.json',
+      JSON.stringify({ primaryContent: 'The road to Mordor was long.' })
+    );
+    mockObject('translated/' + TEST_JOB_ID + '/chunk-1.txt', 'El camino a Morder era largo.');
+
+    const result = await handler(createEvent());
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body).toMatchObject({
+      jobId: TEST_JOB_ID,
+      glossaryId: 'gloss-1',
+      glossaryName: 'Middle-earth',
+      totalChunks: 2,
+      termsFound: 3,
+      violationCount: 1,
+    });
+    expect(body.chunks).toEqual([
+      {
+        chunkIndex: 0,
+        violationCount: 0,
+        terms: [
+          {
+            source: 'Shire',
+            target: 'Comarca',
+            sourceOccurrences: 2,
+            targetOccurrences: 1,
+            compliant: true,
+          },
+          {
+            source: 'Frodo',
+            target: 'Frodo',
+            sourceOccurrences: 1,
+            targetOccurrences: 1,
+            compliant: true,
+          },
+        ],
+      },
+      {
+        chunkIndex: 1,
+        violationCount: 1,
+        terms: [
+          {
+            source: 'Mordor',
+            target: 'Mordor',
+            sourceOccurrences: 1,
+            targetOccurrences: 0,
+            compliant: false,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('omits chunks without glossary terms and skips fetching their translation', async () => {
+    mockJob(completedJob({ chunkingMetadata: { chunkKeys: ['chunks/u/f/chunk-0.json'] } }));
+    mockGlossary(glossary);
+    mockObject('chunks/u/f/chunk-0.json', JSON.stringify({ primaryContent: 'Nothing here.' }));
+
+    const result = await handler(createEvent());
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body.chunks).toEqual([]);
+    expect(body.termsFound).toBe(0);
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(1);
+  });
+
+  it('checks against the ?glossaryId= override instead of the job glossary', async () => {
+    mockJob(completedJob({ glossaryId: undefined }));
+    mockGlossary({ ...glossary, glossaryId: 'gloss-2' });
+    mockObject('chunks/u/f/chunk-0.json', JSON.stringify({ primaryContent: '' }));
+    mockObject('chunks/u/f/chunk-1.json', JSON.stringify({ primaryContent: '' }));
+
+    const result = await handler(createEvent({ glossaryId: 'gloss-2' }));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).glossaryId).toBe('gloss-2');
+    const glossaryLookup = dynamoMock
+      .commandCalls(GetItemCommand)
+      .find((call) => call.args[0].input.TableName === 'test-glossaries-table');
+    expect(glossaryLookup?.args[0].input.Key).toEqual(
+      marshall({ userId: TEST_USER_ID, glossaryId: 'gloss-2' })
+    );
+  });
+
+  it('returns 500 when a chunk cannot be read', async () => {
+    mockJob(completedJob());
+    mockGlossary(glossary);
+    s3Mock.on(GetObjectCommand).rejects(new Error('NoSuchKey'));
+
+    const result = await handler(createEvent());
+
+    expect(result.statusCode).toBe(500);
+  });
+
+  it('checks the newest post-edit instead of the machine translation', async () => {
+    mockJob(completedJob({ chunkingMetadata: { chunkKeys: ['chunks/u/f/chunk-0.json'] } }));
+    mockGlossary(glossary);
+    mockObject(
+      'chunks/u/f/chunk-0.json',
+      JSON.stringify({ primaryContent: 'Frodo left the Shire.' })
+    );
+    mockObject('translated/' + TEST_JOB_ID + '/chunk-0.txt', 'Frodo dejó la Provincia.');
+    const editKey = chunkEditKey(TEST_JOB_ID, 0, 1);
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [{ Key: editKey, LastModified: new Date('2026-03-01T10:00:00Z') }],
+    });
+    mockObject(editKey, 'Frodo dejó la Comarca.', {
+      Metadata: encodeEditMetadata({
+        author: TEST_USER_ID,
+        savedAt: '2026-03-01T10:00:00Z',
+        baseVersion: 0,
+      }),
+    });
+
+    const result = await handler(createEvent());
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body.violationCount).toBe(0);
+    expect(body.chunks[0].terms[0]).toMatchObject({ source: 'Shire', compliant: true });
+  });
+
+  it('checks a submitted term list without loading a glossary', async () => {
+    mockJob(completedJob({ chunkingMetadata: { chunkKeys: ['chunks/u/f/chunk-0.json'] } }));
+    mockObject(
+      'chunks/u/f/chunk-0.json',
+      JSON.stringify({ primaryContent: 'Frodo left the Shire.' })
+    );
+    mockObject('translated/' + TEST_JOB_ID + '/chunk-0.txt', 'Frodo dejó la Provincia.');
+
+    const result = await handler(
+      createEvent({ body: JSON.stringify({ terms: [{ source: 'Shire', target: 'Comarca' }] }) })
+    );
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body.glossaryId).toBeUndefined();
+    expect(body.violationCount).toBe(1);
+    expect(body.chunks).toEqual([
+      {
+        chunkIndex: 0,
+        violationCount: 1,
+        terms: [
+          {
+            source: 'Shire',
+            target: 'Comarca',
+            sourceOccurrences: 1,
+            targetOccurrences: 0,
+            compliant: false,
+          },
+        ],
+      },
+    ]);
+    const glossaryLookup = dynamoMock
+      .commandCalls(GetItemCommand)
+      .find((call) => call.args[0].input.TableName === 'test-glossaries-table');
+    expect(glossaryLookup).toBeUndefined();
+  });
+
+  it('returns 400 for a malformed or empty submitted term list', async () => {
+    mockJob(completedJob());
+
+    expect((await handler(createEvent({ body: '{not json' }))).statusCode).toBe(400);
+    expect((await handler(createEvent({ body: JSON.stringify({ terms: [] }) }))).statusCode).toBe(
+      400
+    );
+  });
+});
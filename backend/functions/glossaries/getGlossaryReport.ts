@@ -0,0 +1,340 @@
+/**
+ * Glossary Compliance Report Lambda Function
+ * GET  /jobs/{jobId}/glossary-report[?glossaryId=...]
+ * POST /jobs/{jobId}/glossary-report   body: { terms: GlossaryTerm[] }
+ *
+ * Checks a COMPLETED job against a term list after the fact: for every
+ * term found in a source chunk (the `storeChunks` output referenced by
+ * `chunkingMetadata.chunkKeys`), reports whether the required rendering
+ * appears in the chunk's current translation — its newest post-edit, or
+ * the machine output (`translated/{jobId}/chunk-{N}.txt`) when it has none,
+ * i.e. the text downloads serve. Reviewers use the per-chunk violations to
+ * jump straight to the offending chunk.
+ *
+ * Term list selection:
+ *   - POST checks the job against the submitted term list, which need not
+ *     be saved as a glossary.
+ *   - `?glossaryId=` checks the job against any glossary the caller owns —
+ *     useful for auditing a job that was translated without one, or against
+ *     a glossary edited after the job ran.
+ *   - Without either, the glossary the job was translated with
+ *     (`job.glossaryId`, set by startTranslation.ts) is used.
+ *   - None present → 400.
+ *
+ * Matching reuses glossaryMatcher.ts, so "found in the source" means exactly
+ * what it meant when the prompt was built. The expected rendering is matched
+ * with the same whole-word / case rules applied to `term.target`.
+ *
+ * Ownership enforcement: both the job and the glossary are loaded with
+ * composite-key GetItems scoped to the Cognito sub, so a cross-user probe of
+ * either returns 404 (OWASP API1:2023 — BOLA).
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+  DynamoDBJob,
+  GlossaryReportApiResponse,
+  GlossaryReportChunk,
+  GlossaryTerm,
+  GlossaryTermCheck,
+  glossaryReportRequestSchema,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUser } from '../shared/jobRepository';
+import { loadGlossaryForUser } from '../shared/glossaryRepository';
+import { buildGlossaryTermPattern } from '../shared/glossaryMatcher';
+import { readChunkTranslation } from '../shared/chunkTranslations';
+
+const logger = new Logger('lfmt-glossary-report');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const GLOSSARIES_TABLE = getRequiredEnv('GLOSSARIES_TABLE');
+const DOCUMENT_BUCKET = getRequiredEnv('DOCUMENT_BUCKET');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+
+/**
+ * Number of chunks fetched concurrently. Each chunk costs up to three S3
+ * calls (source, translation, edit listing); 10 keeps a 115-chunk job well inside the Lambda
+ * timeout without opening hundreds of sockets at once.
+ */
+const CHUNK_FETCH_CONCURRENCY = 10;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Count whole-word occurrences of `phrase` in `text` under glossary matching rules. */
+function countOccurrences(
+  phrase: string,
+  caseSensitive: boolean | undefined,
+  text: string
+): number {
+  if (phrase.trim().length === 0) {
+    return 0;
+  }
+  const pattern = buildGlossaryTermPattern({ source: phrase, target: phrase, caseSensitive }, true);
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Drop blank and duplicate source terms, keeping the first occurrence —
+ * the same de-duplication rule the prompt builder applies.
+ */
+function uniqueTerms(terms: readonly GlossaryTerm[]): GlossaryTerm[] {
+  const seen = new Set<string>();
+  return terms.filter((term) => {
+    const source = term.source?.trim() ?? '';
+    if (source.length === 0) {
+      return false;
+    }
+    const key = term.caseSensitive ? source : source.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+async function readObject(bucket: string, key: string): Promise<string> {
+  const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  if (!response.Body) {
+    throw new Error(`Object body missing for key: ${key}`);
+  }
+  return response.Body.transformToString('utf-8');
+}
+
+/**
+ * Check one chunk. Returns null when none of the glossary terms occur in the
+ * chunk's source text, so the report only lists chunks worth reviewing.
+ */
+async function checkChunk(
+  job: DynamoDBJob,
+  chunkIndex: number,
+  chunkKey: string,
+  terms: readonly GlossaryTerm[]
+): Promise<GlossaryReportChunk | null> {
+  const sourceChunk = JSON.parse(await readObject(CHUNKS_BUCKET, chunkKey));
+  const sourceText: string =
+    typeof sourceChunk.primaryContent === 'string' ? sourceChunk.primaryContent : '';
+
+  const found = terms
+    .map((term) => ({
+      term,
+      sourceOccurrences: countOccurrences(term.source, term.caseSensitive, sourceText),
+    }))
+    .filter(({ sourceOccurrences }) => sourceOccurrences > 0);
+
+  if (found.length === 0) {
+    return null;
+  }
+
+  // Only fetch the translation once we know there is something to check.
+  const translation = await readChunkTranslation(s3Client, DOCUMENT_BUCKET, job, chunkIndex);
+  if (!translation) {
+    throw new Error(`Translation missing for chunk ${chunkIndex}`);
+  }
+
+  const checks: GlossaryTermCheck[] = found.map(({ term, sourceOccurrences }) => {
+    const targetOccurrences = countOccurrences(term.target, term.caseSensitive, translation.text);
+    return {
+      source: term.source,
+      target: term.target,
+      sourceOccurrences,
+      targetOccurrences,
+      compliant: targetOccurrences > 0,
+    };
+  });
+
+  return {
+    chunkIndex,
+    terms: checks,
+    violationCount: checks.filter((check) => !check.compliant).length,
+  };
+}
+
+/**
+ * Parse the JSON request body. Returns `undefined` for malformed JSON so the
+ * caller can map it to a 400 instead of the catch-all 500.
+ */
+function parseBody(event: APIGatewayProxyEvent): unknown {
+  try {
+    return event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return undefined;
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Glossary report request', {
+    requestId,
+    path: event.path,
+    method: event.httpMethod,
+  });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(400, 'Missing jobId in path', requestId, undefined, requestOrigin);
+    }
+    if (!UUID_PATTERN.test(jobId)) {
+      return createErrorResponse(
+        400,
+        'Invalid jobId format — must be a UUID',
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    if (job.translationStatus !== 'COMPLETED') {
+      const currentStatus = job.translationStatus ?? 'UNKNOWN';
+      return createErrorResponse(
+        409,
+        `Translation not yet complete; current status: ${currentStatus}`,
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    let glossaryId: string | undefined;
+    let glossaryName: string | undefined;
+    let glossaryTerms: GlossaryTerm[];
+    if (event.httpMethod === 'POST') {
+      const body = parseBody(event);
+      if (body === undefined) {
+        return createErrorResponse(400, 'Malformed JSON body', requestId, undefined, requestOrigin);
+      }
+      const validation = glossaryReportRequestSchema.safeParse(body);
+      if (!validation.success) {
+        return createErrorResponse(
+          400,
+          'Term list validation failed',
+          requestId,
+          validation.error.flatten().fieldErrors,
+          requestOrigin
+        );
+      }
+      glossaryTerms = validation.data.terms;
+    } else {
+      glossaryId = event.queryStringParameters?.glossaryId || job.glossaryId;
+      if (!glossaryId) {
+        return createErrorResponse(
+          400,
+          'No glossary to check against — pass ?glossaryId=, submit a term list, or translate the job with a glossary',
+          requestId,
+          undefined,
+          requestOrigin
+        );
+      }
+
+      const glossary = await loadGlossaryForUser(
+        dynamoClient,
+        GLOSSARIES_TABLE,
+        glossaryId,
+        userId
+      );
+      if (!glossary) {
+        return createErrorResponse(
+          404,
+          `Glossary not found: ${glossaryId}`,
+          requestId,
+          undefined,
+          requestOrigin
+        );
+      }
+      glossaryName = glossary.name;
+      glossaryTerms = glossary.terms;
+    }
+
+    const chunkKeys = job.chunkingMetadata?.chunkKeys ?? [];
+    if (chunkKeys.length === 0) {
+      logger.error('COMPLETED job has no chunk keys', { requestId, jobId });
+      return createErrorResponse(
+        500,
+        'Translation data missing — no source chunks recorded for completed job',
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    const terms = uniqueTerms(glossaryTerms);
+    const results: Array<GlossaryReportChunk | null> = [];
+    for (let start = 0; start < chunkKeys.length; start += CHUNK_FETCH_CONCURRENCY) {
+      const batch = chunkKeys.slice(start, start + CHUNK_FETCH_CONCURRENCY);
+      results.push(
+        ...(await Promise.all(
+          batch.map((key, offset) => checkChunk(job, start + offset, key, terms))
+        ))
+      );
+    }
+
+    const chunks = results.filter((chunk): chunk is GlossaryReportChunk => chunk !== null);
+    const termsFound = new Set(chunks.flatMap((chunk) => chunk.terms.map((check) => check.source)))
+      .size;
+    const violationCount = chunks.reduce((sum, chunk) => sum + chunk.violationCount, 0);
+
+    const body: GlossaryReportApiResponse = {
+      jobId,
+      glossaryId,
+      glossaryName,
+      totalChunks: chunkKeys.length,
+      termsFound,
+      violationCount,
+      chunks,
+      generatedAt: new Date().toISOString(),
+    };
+
+    logger.info('Glossary report generated', {
+      requestId,
+      jobId,
+      glossaryId,
+      termCount: terms.length,
+      chunksWithTerms: chunks.length,
+      termsFound,
+      violationCount,
+    });
+
+    return createFlatResponse(200, body, requestId, requestOrigin);
+  } catch (error) {
+    logger.error('Failed to generate glossary report', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to generate glossary report',
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+};
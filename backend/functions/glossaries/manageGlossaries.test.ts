@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the glossary CRUD endpoint
+ * GET/POST /glossaries, GET/PUT/DELETE /glossaries/{glossaryId}
+ */
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { handler } from './manageGlossaries';
+
+const dynamoMock = mockClient(DynamoDBClient);
+
+describe('manageGlossaries endpoint', () => {
+  beforeEach(() => {
+    dynamoMock.reset();
+  });
+
+  const createEvent = (
+    method: string,
+    opts: { glossaryId?: string; body?: unknown; userId?: string | null } = {}
+  ): APIGatewayProxyEvent =>
+    ({
+      httpMethod: method,
+      path: opts.glossaryId ? `/glossaries/${opts.glossaryId}` : '/glossaries',
+      pathParameters: opts.glossaryId ? { glossaryId: opts.glossaryId } : null,
+      headers: {},
+      body:
+        opts.body === undefined
+          ? null
+          : typeof opts.body === 'string'
+            ? opts.body
+            : JSON.stringify(opts.body),
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer:
+          opts.userId === null ? undefined : { claims: { sub: opts.userId ?? 'user-123' } },
+      },
+    }) as unknown as APIGatewayProxyEvent;
+
+  const storedGlossary = {
+    userId: 'user-123',
+    glossaryId: 'gloss-1',
+    name: 'Middle-earth',
+    targetLanguage: 'es',
+    terms: [{ source: 'Shire', target: 'Comarca' }],
+    termCount: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('returns 401 without an authenticated caller', async () => {
+    const result = await handler(createEvent('GET', { userId: null }));
+    expect(result.statusCode).toBe(401);
+  });
+
+  describe('POST /glossaries', () => {
+    it('creates a glossary owned by the caller', async () => {
+      dynamoMock.on(PutItemCommand).resolves({});
+
+      const result = await handler(
+        createEvent('POST', {
+          body: { name: 'Middle-earth', terms: [{ source: 'Shire', target: 'Comarca' }] },
+        })
+      );
+
+      expect(result.statusCode).toBe(201);
+      const body = JSON.parse(result.body);
+      expect(body.glossaryId).toEqual(expect.any(String));
+      expect(body.termCount).toBe(1);
+
+      const put = dynamoMock.commandCalls(PutItemCommand)[0].args[0].input;
+      const item = unmarshall(put.Item!);
+      expect(item.userId).toBe('user-123');
+      expect(item.termCount).toBe(1);
+      expect(put.ConditionExpression).toBe('attribute_not_exists(glossaryId)');
+    });
+
+    it('rejects a body that fails validation', async () => {
+      const result = await handler(
+        createEvent('POST', { body: { name: '', terms: [{ source: 'x' }] } })
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errors).toBeDefined();
+      expect(dynamoMock.commandCalls(PutItemCommand)).toHaveLength(0);
+    });
+
+    it('rejects malformed JSON', async () => {
+      const result = await handler(createEvent('POST', { body: '{not json' }));
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /glossaries', () => {
+    it('lists summaries scoped to the caller', async () => {
+      dynamoMock.on(QueryCommand).resolves({
+        Items: [marshall({ ...storedGlossary, terms: undefined }, { removeUndefinedValues: true })],
+      });
+
+      const result = await handler(createEvent('GET'));
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.count).toBe(1);
+      expect(body.glossaries[0]).toMatchObject({ glossaryId: 'gloss-1', termCount: 1 });
+      expect(body.glossaries[0].terms).toBeUndefined();
+
+      const query = dynamoMock.commandCalls(QueryCommand)[0].args[0].input;
+      expect(unmarshall(query.ExpressionAttributeValues!)).toEqual({ ':userId': 'user-123' });
+    });
+  });
+
+  describe('GET /glossaries/{glossaryId}', () => {
+    it('returns the glossary with its terms', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: marshall(storedGlossary) });
+
+      const result = await handler(createEvent('GET', { glossaryId: 'gloss-1' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).terms).toEqual(storedGlossary.terms);
+    });
+
+    it('returns 404 for a glossary owned by another user (BOLA)', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: undefined });
+
+      const result = await handler(
+        createEvent('GET', { glossaryId: 'gloss-1', userId: 'attacker-999' })
+      );
+
+      expect(result.statusCode).toBe(404);
+      const key = unmarshall(dynamoMock.commandCalls(GetItemCommand)[0].args[0].input.Key!);
+      expect(key).toEqual({ userId: 'attacker-999', glossaryId: 'gloss-1' });
+    });
+  });
+
+  describe('PUT /glossaries/{glossaryId}', () => {
+    it('replaces the term list and bumps updatedAt', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: marshall(storedGlossary) });
+      dynamoMock.on(PutItemCommand).resolves({});
+
+      const result = await handler(
+        createEvent('PUT', {
+          glossaryId: 'gloss-1',
+          body: { terms: [{ source: 'Mordor', target: 'Mordor' }] },
+        })
+      );
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.name).toBe('Middle-earth');
+      expect(body.terms).toEqual([{ source: 'Mordor', target: 'Mordor' }]);
+      expect(body.updatedAt).not.toBe(storedGlossary.updatedAt);
+    });
+
+    it('returns 404 when the glossary is deleted mid-update', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: marshall(storedGlossary) });
+      dynamoMock
+        .on(PutItemCommand)
+        .rejects(new ConditionalCheckFailedException({ message: 'gone', $metadata: {} }));
+
+      const result = await handler(
+        createEvent('PUT', { glossaryId: 'gloss-1', body: { name: 'Renamed' } })
+      );
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /glossaries/{glossaryId}', () => {
+    it('deletes an owned glossary', async () => {
+      dynamoMock.on(DeleteItemCommand).resolves({});
+
+      const result = await handler(createEvent('DELETE', { glossaryId: 'gloss-1' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).glossaryId).toBe('gloss-1');
+    });
+
+    it('returns 404 when the glossary does not exist', async () => {
+      dynamoMock
+        .on(DeleteItemCommand)
+        .rejects(new ConditionalCheckFailedException({ message: 'missing', $metadata: {} }));
+
+      const result = await handler(createEvent('DELETE', { glossaryId: 'nope' }));
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  it('returns 405 for an unsupported method', async () => {
+    const result = await handler(createEvent('PATCH', { glossaryId: 'gloss-1' }));
+    expect(result.statusCode).toBe(405);
+  });
+
+  it('returns 500 when DynamoDB fails', async () => {
+    dynamoMock.on(QueryCommand).rejects(new Error('boom'));
+
+    const result = await handler(createEvent('GET'));
+
+    expect(result.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Manage Glossaries Lambda Function
+ *
+ *   GET    /glossaries                 — list the caller's glossaries (summaries)
+ *   POST   /glossaries                 — create a glossary
+ *   GET    /glossaries/{glossaryId}    — fetch one glossary including its terms
+ *   PUT    /glossaries/{glossaryId}    — update name/description/language/terms
+ *   DELETE /glossaries/{glossaryId}    — delete a glossary
+ *
+ * One Lambda serves the whole resource (dispatching on method + path
+ * parameter) because every route needs exactly the same IAM grant — CRUD on
+ * the Glossaries table and nothing else. Splitting it five ways would add
+ * five cold-start pools without narrowing any permission.
+ *
+ * Ownership enforcement:
+ * The Glossaries table uses a composite primary key (userId HASH +
+ * glossaryId RANGE). userId always comes from the Cognito authorizer claim,
+ * so every GetItem / PutItem / DeleteItem is scoped to the caller at the
+ * database level and a cross-user probe returns the same 404 as a missing
+ * glossary (OWASP API1:2023 — BOLA).
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  PutItemCommand,
+  QueryCommand,
+  QueryCommandOutput,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  createGlossaryRequestSchema,
+  DeleteGlossaryApiResponse,
+  Glossary,
+  GlossaryApiResponse,
+  GlossarySummary,
+  ListGlossariesApiResponse,
+  updateGlossaryRequestSchema,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadGlossaryForUser } from '../shared/glossaryRepository';
+
+const logger = new Logger('lfmt-manage-glossaries');
+const dynamoClient = new DynamoDBClient({});
+
+const GLOSSARIES_TABLE = getRequiredEnv('GLOSSARIES_TABLE');
+
+/** Maximum number of glossaries returned by GET /glossaries. */
+const MAX_LIST_ITEMS = 100;
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Glossary request', {
+    requestId,
+    path: event.path,
+    method: event.httpMethod,
+  });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const glossaryId = event.pathParameters?.glossaryId;
+
+    if (!glossaryId) {
+      switch (event.httpMethod) {
+        case 'GET':
+          return await listGlossaries(userId, requestId, requestOrigin);
+        case 'POST':
+          return await createGlossary(event, userId, requestId, requestOrigin);
+      }
+    } else {
+      switch (event.httpMethod) {
+        case 'GET':
+          return await getGlossary(glossaryId, userId, requestId, requestOrigin);
+        case 'PUT':
+          return await updateGlossary(event, glossaryId, userId, requestId, requestOrigin);
+        case 'DELETE':
+          return await deleteGlossary(glossaryId, userId, requestId, requestOrigin);
+      }
+    }
+
+    return createErrorResponse(
+      405,
+      `Method ${event.httpMethod} not allowed`,
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  } catch (error) {
+    logger.error('Glossary request failed', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to process glossary request',
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+};
+
+/**
+ * Parse the JSON request body. Returns `undefined` for malformed JSON so the
+ * caller can map it to a 400 instead of the catch-all 500.
+ */
+function parseBody(event: APIGatewayProxyEvent): unknown {
+  try {
+    return event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return undefined;
+  }
+}
+
+function toApiResponse(glossary: Glossary): GlossaryApiResponse {
+  return {
+    glossaryId: glossary.glossaryId,
+    name: glossary.name,
+    description: glossary.description,
+    targetLanguage: glossary.targetLanguage,
+    terms: glossary.terms,
+    termCount: glossary.terms.length,
+    createdAt: glossary.createdAt,
+    updatedAt: glossary.updatedAt,
+  };
+}
+
+function glossaryNotFound(
+  glossaryId: string,
+  requestId: string,
+  requestOrigin?: string
+): APIGatewayProxyResult {
+  return createErrorResponse(
+    404,
+    `Glossary not found: ${glossaryId}`,
+    requestId,
+    undefined,
+    requestOrigin
+  );
+}
+
+/**
+ * Persist a glossary. `termCount` is denormalised onto the item so the list
+ * route can project it without reading every term list.
+ */
+async function putGlossary(glossary: Glossary, conditionExpression: string): Promise<void> {
+  await dynamoClient.send(
+    new PutItemCommand({
+      TableName: GLOSSARIES_TABLE,
+      Item: marshall(
+        { ...glossary, termCount: glossary.terms.length },
+        { removeUndefinedValues: true }
+      ),
+      ConditionExpression: conditionExpression,
+    })
+  );
+}
+
+async function listGlossaries(
+  userId: string,
+  requestId: string,
+  requestOrigin?: string
+): Promise<APIGatewayProxyResult> {
+  const result: QueryCommandOutput = await dynamoClient.send(
+    new QueryCommand({
+      TableName: GLOSSARIES_TABLE,
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: marshall({ ':userId': userId }),
+      // Term lists can be large — the list view only needs the summary.
+      ProjectionExpression:
+        'glossaryId, #name, description, targetLanguage, termCount, createdAt, updatedAt',
+      ExpressionAttributeNames: { '#name': 'name' },
+      Limit: MAX_LIST_ITEMS,
+    })
+  );
+
+  const glossaries: GlossarySummary[] = (result.Items ?? []).map((item) => {
+    const record = unmarshall(item);
+    return {
+      glossaryId: record.glossaryId,
+      name: record.name,
+      description: record.description,
+      targetLanguage: record.targetLanguage,
+      termCount: typeof record.termCount === 'number' ? record.termCount : 0,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  });
+
+  const body: ListGlossariesApiResponse = { glossaries, count: glossaries.length };
+
+  logger.info('Glossaries listed', { requestId, userId, count: glossaries.length });
+
+  return createFlatResponse(200, body, requestId, requestOrigin);
+}
+
+async function createGlossary(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  requestId: string,
+  requestOrigin?: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody(event);
+  if (body === undefined) {
+    return createErrorResponse(400, 'Malformed JSON body', requestId, undefined, requestOrigin);
+  }
+
+  const validation = createGlossaryRequestSchema.safeParse(body);
+  if (!validation.success) {
+    return createErrorResponse(
+      400,
+      'Glossary validation failed',
+      requestId,
+      validation.error.flatten().fieldErrors,
+      requestOrigin
+    );
+  }
+
+  const now = new Date().toISOString();
+  const glossary: Glossary = {
+    userId,
+    glossaryId: randomUUID(),
+    ...validation.data,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await putGlossary(glossary, 'attribute_not_exists(glossaryId)');
+
+  logger.info('Glossary created', {
+    requestId,
+    glossaryId: glossary.glossaryId,
+    termCount: glossary.terms.length,
+  });
+
+  return createFlatResponse(201, toApiResponse(glossary), requestId, requestOrigin);
+}
+
+async function getGlossary(
+  glossaryId: string,
+  userId: string,
+  requestId: string,
+  requestOrigin?: string
+): Promise<APIGatewayProxyResult> {
+  const glossary = await loadGlossaryForUser(dynamoClient, GLOSSARIES_TABLE, glossaryId, userId);
+  if (!glossary) {
+    return glossaryNotFound(glossaryId, requestId, requestOrigin);
+  }
+
+  return createFlatResponse(200, toApiResponse(glossary), requestId, requestOrigin);
+}
+
+async function updateGlossary(
+  event: APIGatewayProxyEvent,
+  glossaryId: string,
+  userId: string,
+  requestId: string,
+  requestOrigin?: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody(event);
+  if (body === undefined) {
+    return createErrorResponse(400, 'Malformed JSON body', requestId, undefined, requestOrigin);
+  }
+
+  const validation = updateGlossaryRequestSchema.safeParse(body);
+  if (!validation.success) {
+    return createErrorResponse(
+      400,
+      'Glossary validation failed',
+      requestId,
+      validation.error.flatten().fieldErrors,
+      requestOrigin
+    );
+  }
+
+  const existing = await loadGlossaryForUser(dynamoClient, GLOSSARIES_TABLE, glossaryId, userId);
+  if (!existing) {
+    return glossaryNotFound(glossaryId, requestId, requestOrigin);
+  }
+
+  const updated: Glossary = {
+    ...existing,
+    ...validation.data,
+    userId,
+    glossaryId,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    // attribute_exists guards against a concurrent DELETE between the read
+    // above and this write resurrecting the glossary.
+    await putGlossary(updated, 'attribute_exists(glossaryId)');
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return glossaryNotFound(glossaryId, requestId, requestOrigin);
+    }
+    throw error;
+  }
+
+  logger.info('Glossary updated', { requestId, glossaryId, termCount: updated.terms.length });
+
+  return createFlatResponse(200, toApiResponse(updated), requestId, requestOrigin);
+}
+
+async function deleteGlossary(
+  glossaryId: string,
+  userId: string,
+  requestId: string,
+  requestOrigin?: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    await dynamoClient.send(
+      new DeleteItemCommand({
+        TableName: GLOSSARIES_TABLE,
+        Key: marshall({ userId, glossaryId }),
+        ConditionExpression: 'attribute_exists(glossaryId)',
+      })
+    );
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return glossaryNotFound(glossaryId, requestId, requestOrigin);
+    }
+    throw error;
+  }
+
+  logger.info('Glossary deleted', { requestId, glossaryId });
+
+  const body: DeleteGlossaryApiResponse = { message: 'Glossary deleted', glossaryId };
+  return createFlatResponse(200, body, requestId, requestOrigin);
+}
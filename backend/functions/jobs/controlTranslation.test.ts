@@ -0,0 +1,343 @@
+/**
+ * Unit tests for Control Translation endpoint
+ * POST /jobs/{jobId}/pause
+ * POST /jobs/{jobId}/resume
+ * POST /jobs/{jobId}/cancel
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.CHUNKS_BUCKET = 'test-chunks-bucket';
+process.env.STATE_MACHINE_NAME = 'test-state-machine';
+process.env.AWS_REGION = 'us-east-1';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  BatchWriteItemCommand,
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { SFNClient, StartExecutionCommand, StopExecutionCommand } from '@aws-sdk/client-sfn';
+import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import { handler } from './controlTranslation';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+const sfnMock = mockClient(SFNClient);
+const stsMock = mockClient(STSClient);
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('controlTranslation endpoint', () => {
+  const STARTED_AT = '2026-03-01T10:00:00.000Z';
+
+  const runningJob = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'CHUNKED',
+    translationStatus: 'IN_PROGRESS',
+    targetLanguage: 'fr',
+    translationTone: 'neutral',
+    translationContextMode: 'parallel',
+    totalChunks: 3,
+    translatedChunks: 1,
+    translationStartedAt: STARTED_AT,
+    executionArn: 'arn:exec:old',
+  };
+
+  const pausedJob = { ...runningJob, status: 'PAUSED', translationStatus: 'PAUSED' };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    sfnMock.reset();
+    stsMock.reset();
+    stsMock.on(GetCallerIdentityCommand).resolves({ Account: '123456789012' });
+    dynamoMock.on(UpdateItemCommand).resolves({});
+    sfnMock.on(StopExecutionCommand).resolves({} as any);
+    sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec:new' } as any);
+  });
+
+  function mockJob(job: Record<string, unknown> | null) {
+    dynamoMock
+      .on(GetItemCommand)
+      .resolves(job ? { Item: marshall(job, { removeUndefinedValues: true }) } : {});
+  }
+
+  /** Translated objects written during the run, by chunk index. */
+  function mockTranslatedChunks(indexes: number[]) {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: indexes.map((index) => ({
+        Key: `translated/job-123/chunk-${index}.txt`,
+        LastModified: new Date('2026-03-01T10:05:00.000Z'),
+      })),
+    });
+  }
+
+  const request = (action: string, body: Record<string, unknown> = {}) =>
+    handler({
+      httpMethod: 'POST',
+      resource: `/jobs/{jobId}/${action}`,
+      path: `/jobs/job-123/${action}`,
+      pathParameters: { jobId: 'job-123' },
+      headers: {},
+      body: JSON.stringify(body),
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer: { claims: { sub: 'user-123' } },
+      } as any,
+    } as unknown as APIGatewayProxyEvent);
+
+  function update(index = 0) {
+    const input = dynamoMock.commandCalls(UpdateItemCommand)[index].args[0].input;
+    return { ...input, values: unmarshall(input.ExpressionAttributeValues ?? {}) };
+  }
+
+  describe('POST /jobs/{jobId}/pause', () => {
+    it('records PAUSED and stops the running execution', async () => {
+      mockJob(runningJob);
+
+      const result = await request('pause', { reason: 'Checking the glossary' });
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: 'job-123',
+        translationStatus: 'PAUSED',
+        translatedChunks: 1,
+        totalChunks: 3,
+      });
+      expect(update().values).toMatchObject({
+        ':status': 'PAUSED',
+        ':expectedStatus': 'IN_PROGRESS',
+        ':reason': 'Checking the glossary',
+      });
+      expect(update().UpdateExpression).toContain('pauseReason = :reason');
+      expect(sfnMock.commandCalls(StopExecutionCommand)[0].args[0].input).toEqual({
+        executionArn: 'arn:exec:old',
+        cause: 'Checking the glossary',
+      });
+    });
+
+    it('rejects a translation that is not running', async () => {
+      mockJob(pausedJob);
+
+      const result = await request('pause');
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+      expect(sfnMock.commandCalls(StopExecutionCommand)).toHaveLength(0);
+    });
+
+    it('rejects a running translation without a recorded execution', async () => {
+      mockJob({ ...runningJob, executionArn: undefined });
+
+      const result = await request('pause');
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('returns 409 without stopping when the job changed in the meantime', async () => {
+      mockJob(runningJob);
+      dynamoMock
+        .on(UpdateItemCommand)
+        .rejects(new ConditionalCheckFailedException({ message: 'changed', $metadata: {} }));
+
+      const result = await request('pause');
+
+      expect(result.statusCode).toBe(409);
+      expect(sfnMock.commandCalls(StopExecutionCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('POST /jobs/{jobId}/resume', () => {
+    it('translates only the chunks without a translation', async () => {
+      mockJob(pausedJob);
+      mockTranslatedChunks([0, 2]);
+
+      const result = await request('resume');
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        translationStatus: 'IN_PROGRESS',
+        translatedChunks: 2,
+        chunkIndexes: [1],
+        executionArn: 'arn:exec:new',
+      });
+      expect(update().values).toMatchObject({
+        ':status': 'IN_PROGRESS',
+        ':outerStatus': 'CHUNKED',
+        ':translated': 2,
+        ':expectedStatus': 'PAUSED',
+      });
+      const input = JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+      expect(input).toMatchObject({
+        targetLanguage: 'fr',
+        totalChunks: 3,
+        retranslation: null,
+        chunks: [{ chunkIndex: 1 }],
+      });
+      expect(update(1).values).toEqual({ ':executionArn': 'arn:exec:new' });
+    });
+
+    it('completes the job when every chunk was translated before the pause took effect', async () => {
+      mockJob(pausedJob);
+      mockTranslatedChunks([0, 1, 2]);
+
+      const result = await request('resume');
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        translationStatus: 'COMPLETED',
+        chunkIndexes: [],
+      });
+      expect(update().values).toMatchObject({ ':status': 'COMPLETED', ':totalChunks': 3 });
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    describe('translation memory of a job completed on resume', () => {
+      const objects: Record<string, string> = {
+        'chunks/c-0.json': JSON.stringify({ primaryContent: 'Good morning.\n\nGood night.' }),
+        'translated/job-123/chunk-0.txt': 'Bonjour.\n\nBonne nuit.',
+      };
+
+      beforeEach(() => {
+        mockJob({
+          ...pausedJob,
+          totalChunks: 1,
+          chunkingMetadata: { chunkKeys: ['chunks/c-0.json'] },
+        });
+        mockTranslatedChunks([0]);
+        s3Mock.on(GetObjectCommand).callsFake((input) => ({
+          Body: sdkStreamMixin(Readable.from([objects[input.Key]])),
+        }));
+      });
+
+      it('records the paragraphs like a completed execution', async () => {
+        dynamoMock.on(BatchWriteItemCommand).resolves({});
+
+        const result = await request('resume');
+
+        expect(result.statusCode).toBe(200);
+        const items = dynamoMock
+          .commandCalls(BatchWriteItemCommand)[0]
+          .args[0].input.RequestItems?.[
+            'test-translation-memory-table'
+          ].map((request) => unmarshall(request.PutRequest?.Item ?? {}));
+        expect(items).toEqual([
+          expect.objectContaining({
+            memoryKey: 'user-123#fr',
+            source: 'Good morning.',
+            translation: 'Bonjour.',
+            jobId: 'job-123',
+          }),
+          expect.objectContaining({ source: 'Good night.', translation: 'Bonne nuit.' }),
+        ]);
+      });
+
+      it('still completes the job when the memory cannot be written', async () => {
+        dynamoMock.on(BatchWriteItemCommand).rejects(new Error('Throttled'));
+
+        const result = await request('resume');
+
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).translationStatus).toBe('COMPLETED');
+        expect(update().values).toMatchObject({ ':status': 'COMPLETED' });
+      });
+    });
+
+    it('rejects a translation that is not paused', async () => {
+      mockJob(runningJob);
+
+      const result = await request('resume');
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+
+    it('rejects resumeFromState', async () => {
+      mockJob(pausedJob);
+
+      const result = await request('resume', { resumeFromState: 'ProcessChunksMap' });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+    });
+  });
+
+  describe('POST /jobs/{jobId}/cancel', () => {
+    it('cancels a running translation and stops its execution', async () => {
+      mockJob(runningJob);
+
+      const result = await request('cancel');
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: 'job-123',
+        status: 'CANCELLED',
+        translatedChunks: 1,
+      });
+      expect(update().values).toMatchObject({
+        ':status': 'CANCELLED',
+        ':expectedStatus': 'IN_PROGRESS',
+      });
+      expect(update().UpdateExpression).not.toContain('cancelReason');
+      expect(sfnMock.commandCalls(StopExecutionCommand)[0].args[0].input.cause).toBe(
+        'Cancelled by owner'
+      );
+    });
+
+    it('cancels a paused translation without stopping anything', async () => {
+      mockJob(pausedJob);
+
+      const result = await request('cancel', { reason: 'Wrong language' });
+
+      expect(result.statusCode).toBe(200);
+      expect(update().values).toMatchObject({
+        ':expectedStatus': 'PAUSED',
+        ':reason': 'Wrong language',
+      });
+      expect(sfnMock.commandCalls(StopExecutionCommand)).toHaveLength(0);
+    });
+
+    it('rejects a completed translation', async () => {
+      mockJob({ ...runningJob, status: 'COMPLETED', translationStatus: 'COMPLETED' });
+
+      const result = await request('cancel');
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+
+    it('rejects a reason over the length limit', async () => {
+      mockJob(runningJob);
+
+      const result = await request('cancel', { reason: 'x'.repeat(501) });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+    });
+  });
+
+  it('returns 404 for a job the user does not own', async () => {
+    mockJob(null);
+
+    const result = await request('pause');
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).errorCode).toBe('JOB_NOT_FOUND');
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * Control Translation Lambda Function
+ * POST /jobs/{jobId}/pause
+ * POST /jobs/{jobId}/resume
+ * POST /jobs/{jobId}/cancel
+ *
+ * Lets the owner stop a running translation without losing the chunks it
+ * already translated:
+ *
+ *   - `pause` stops the job's execution and records PAUSED.
+ *   - `resume` starts a new execution over the chunks that have no
+ *     translation in the chunks bucket yet (see shared/translatedChunks.ts),
+ *     and completes the job straight away when none is missing, recording
+ *     it in the translation memory like a completed execution.
+ *   - `cancel` stops a running or paused translation for good and records
+ *     CANCELLED. The translated chunks stay in the bucket until the job is
+ *     deleted.
+ *
+ * Stopping an execution does not stop the translateChunk Lambdas it has in
+ * flight. translateChunk checks the job before writing its status, so a
+ * chunk that finishes after the pause is counted without resetting it.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { S3Client } from '@aws-sdk/client-s3';
+import { SFNClient, StopExecutionCommand } from '@aws-sdk/client-sfn';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  CancelTranslationApiResponse,
+  CancelTranslationRequest,
+  DynamoDBJob,
+  PauseTranslationApiResponse,
+  PauseTranslationRequest,
+  ResumeTranslationApiResponse,
+  ResumeTranslationRequest,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUser, recordExecutionArn } from '../shared/jobRepository';
+import { rerunParams, startTranslationExecution } from '../shared/translationExecution';
+import { findUntranslatedChunks } from '../shared/translatedChunks';
+import { recordJobTranslationMemory } from '../translation/translationMemory';
+
+const logger = new Logger('lfmt-control-translation');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+const sfnClient = new SFNClient({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+const TRANSLATION_MEMORY_TABLE = getRequiredEnv('TRANSLATION_MEMORY_TABLE');
+
+/** Longest pause or cancel reason stored on the job. */
+const MAX_REASON_LENGTH = 500;
+
+/** A request that cannot be served, as the error response to return. */
+class ControlRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string
+  ) {
+    super(message);
+    this.name = 'ControlRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+  const action = event.resource?.split('/').pop();
+
+  logger.info('Control translation request', { requestId, path: event.path, action });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(
+        400,
+        'Invalid JSON in request body',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    let responseBody:
+      | PauseTranslationApiResponse
+      | ResumeTranslationApiResponse
+      | CancelTranslationApiResponse;
+    switch (action) {
+      case 'pause':
+        responseBody = await pauseTranslation(job, body as PauseTranslationRequest);
+        break;
+      case 'resume':
+        responseBody = await resumeTranslation(job, body as ResumeTranslationRequest);
+        break;
+      case 'cancel':
+        responseBody = await cancelTranslation(job, body as CancelTranslationRequest);
+        break;
+      default:
+        throw new ControlRequestError(400, `Unknown action: ${action}`, 'INVALID_REQUEST');
+    }
+
+    return createFlatResponse(200, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    if (error instanceof ControlRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        undefined,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Failed to control translation', {
+      requestId,
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to update the translation. Please try again later.',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+/**
+ * Stop the running execution and record PAUSED. The job is updated first:
+ * its condition fails when the execution finished in the meantime, and a
+ * chunk that completes between the update and the stop already sees the
+ * pause.
+ */
+async function pauseTranslation(
+  job: DynamoDBJob,
+  body: PauseTranslationRequest
+): Promise<PauseTranslationApiResponse> {
+  const reason = parseReason(body.reason);
+
+  if (job.translationStatus !== 'IN_PROGRESS') {
+    throw new ControlRequestError(
+      400,
+      `Only a running translation can be paused. Current status: ${job.translationStatus ?? job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+  if (!job.executionArn) {
+    throw new ControlRequestError(
+      400,
+      'This translation was started before it could be paused; cancel it instead',
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  const pausedAt = new Date().toISOString();
+  await updateJob(job, {
+    expectedStatus: 'IN_PROGRESS',
+    status: 'PAUSED',
+    timestampField: 'pausedAt',
+    timestamp: pausedAt,
+    reasonField: 'pauseReason',
+    reason,
+  });
+  await stopExecution(job.executionArn, reason ?? 'Paused by owner');
+
+  logger.info('Translation paused', {
+    jobId: job.jobId,
+    executionArn: job.executionArn,
+    translatedChunks: job.translatedChunks,
+  });
+
+  return {
+    message: 'Translation paused',
+    jobId: job.jobId,
+    translationStatus: 'PAUSED',
+    translatedChunks: job.translatedChunks ?? 0,
+    totalChunks: job.totalChunks ?? 0,
+    pausedAt,
+  };
+}
+
+/**
+ * Translate the chunks a paused run did not get to.
+ */
+async function resumeTranslation(
+  job: DynamoDBJob,
+  body: ResumeTranslationRequest
+): Promise<ResumeTranslationApiResponse> {
+  if (body.resumeFromState !== undefined) {
+    throw new ControlRequestError(
+      400,
+      'resumeFromState is not supported; a translation resumes with its untranslated chunks',
+      'INVALID_REQUEST'
+    );
+  }
+  if (job.translationStatus !== 'PAUSED' || !job.totalChunks) {
+    throw new ControlRequestError(
+      400,
+      `Only a paused translation can be resumed. Current status: ${job.translationStatus ?? job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  const chunkIndexes = await findUntranslatedChunks(s3Client, CHUNKS_BUCKET, job);
+  const translatedChunks = job.totalChunks - chunkIndexes.length;
+
+  // The chunks in flight when the run was paused finished it.
+  if (chunkIndexes.length === 0) {
+    await completePausedJob(job);
+    logger.info('Paused translation had every chunk translated', { jobId: job.jobId });
+    return {
+      message: 'Translation completed',
+      jobId: job.jobId,
+      translationStatus: 'COMPLETED',
+      totalChunks: job.totalChunks,
+      translatedChunks,
+      chunkIndexes,
+    };
+  }
+
+  await resumeJob(job, translatedChunks);
+
+  const executionArn = await startTranslationExecution(sfnClient, job.jobId, job.userId, {
+    ...rerunParams(job),
+    chunkIndexes,
+  });
+  await recordExecutionArn(dynamoClient, JOBS_TABLE, job.jobId, job.userId, executionArn);
+
+  logger.info('Translation resumed', { jobId: job.jobId, chunkIndexes, executionArn });
+
+  return {
+    message: 'Translation resumed',
+    jobId: job.jobId,
+    translationStatus: 'IN_PROGRESS',
+    totalChunks: job.totalChunks,
+    translatedChunks,
+    chunkIndexes,
+    executionArn,
+  };
+}
+
+/**
+ * Stop a running or paused translation for good.
+ */
+async function cancelTranslation(
+  job: DynamoDBJob,
+  body: CancelTranslationRequest
+): Promise<CancelTranslationApiResponse> {
+  const reason = parseReason(body.reason);
+
+  if (job.translationStatus !== 'IN_PROGRESS' && job.translationStatus !== 'PAUSED') {
+    throw new ControlRequestError(
+      400,
+      `Only a running or paused translation can be cancelled. Current status: ${job.translationStatus ?? job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  await updateJob(job, {
+    expectedStatus: job.translationStatus,
+    status: 'CANCELLED',
+    timestampField: 'cancelledAt',
+    timestamp: new Date().toISOString(),
+    reasonField: 'cancelReason',
+    reason,
+  });
+  if (job.translationStatus === 'IN_PROGRESS' && job.executionArn) {
+    await stopExecution(job.executionArn, reason ?? 'Cancelled by owner');
+  }
+
+  logger.info('Translation cancelled', {
+    jobId: job.jobId,
+    previousStatus: job.translationStatus,
+    translatedChunks: job.translatedChunks,
+  });
+
+  return {
+    message: 'Translation cancelled',
+    jobId: job.jobId,
+    status: 'CANCELLED',
+    translatedChunks: job.translatedChunks ?? 0,
+    totalChunks: job.totalChunks ?? 0,
+  };
+}
+
+/**
+ * The optional pause or cancel reason: trimmed, null when empty.
+ */
+function parseReason(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string' || value.length > MAX_REASON_LENGTH) {
+    throw new ControlRequestError(
+      400,
+      `reason must be a string of at most ${MAX_REASON_LENGTH} characters`,
+      'INVALID_REQUEST'
+    );
+  }
+  return value.trim() || null;
+}
+
+async function stopExecution(executionArn: string, cause: string): Promise<void> {
+  await sfnClient.send(new StopExecutionCommand({ executionArn, cause }));
+}
+
+/**
+ * Record PAUSED or CANCELLED in both status fields, as the workflow's
+ * completion steps do for its outcomes.
+ */
+async function updateJob(
+  job: DynamoDBJob,
+  update: {
+    expectedStatus: 'IN_PROGRESS' | 'PAUSED';
+    status: 'PAUSED' | 'CANCELLED';
+    timestampField: 'pausedAt' | 'cancelledAt';
+    timestamp: string;
+    reasonField: 'pauseReason' | 'cancelReason';
+    reason: string | null;
+  }
+): Promise<void> {
+  await conditionalUpdate(
+    new UpdateItemCommand({
+      TableName: JOBS_TABLE,
+      Key: marshall({ jobId: job.jobId, userId: job.userId }),
+      UpdateExpression:
+        `SET translationStatus = :status, #status = :status, ${update.timestampField} = :timestamp, updatedAt = :timestamp` +
+        (update.reason ? `, ${update.reasonField} = :reason` : ''),
+      ConditionExpression: 'translationStatus = :expectedStatus',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: marshall({
+        ':status': update.status,
+        ':timestamp': update.timestamp,
+        ':expectedStatus': update.expectedStatus,
+        ...(update.reason && { ':reason': update.reason }),
+      }),
+    })
+  );
+}
+
+/**
+ * Move a paused job back to an in-progress translation before the new
+ * execution starts, as recoverTranslation does. `translatedChunks` counts
+ * the chunks already translated; each chunk of the new execution ADDs one.
+ */
+async function resumeJob(job: DynamoDBJob, translatedChunks: number): Promise<void> {
+  await conditionalUpdate(
+    new UpdateItemCommand({
+      TableName: JOBS_TABLE,
+      Key: marshall({ jobId: job.jobId, userId: job.userId }),
+      UpdateExpression:
+        'SET translationStatus = :status, #status = :outerStatus, translatedChunks = :translated, updatedAt = :updatedAt REMOVE pausedAt, pauseReason',
+      ConditionExpression: 'translationStatus = :expectedStatus',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: marshall({
+        ':status': 'IN_PROGRESS',
+        // The outer status of a translation in progress; the execution's
+        // completion step sets it again.
+        ':outerStatus': 'CHUNKED',
+        ':translated': translatedChunks,
+        ':expectedStatus': 'PAUSED',
+        ':updatedAt': new Date().toISOString(),
+      }),
+    })
+  );
+}
+
+/**
+ * Complete a paused job whose chunks are all translated, with the fields
+ * the workflow's UpdateJobCompleted step writes, and record its paragraphs
+ * in the translation memory as the workflow's next step does. As there, a
+ * failure to record is logged and the job stays completed.
+ */
+async function completePausedJob(job: DynamoDBJob): Promise<void> {
+  const completedAt = new Date().toISOString();
+  await conditionalUpdate(
+    new UpdateItemCommand({
+      TableName: JOBS_TABLE,
+      Key: marshall({ jobId: job.jobId, userId: job.userId }),
+      UpdateExpression:
+        'SET translationStatus = :status, #status = :status, translationCompletedAt = :completedAt, translatedChunks = :totalChunks, updatedAt = :completedAt REMOVE pausedAt, pauseReason',
+      ConditionExpression: 'translationStatus = :expectedStatus',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: marshall({
+        ':status': 'COMPLETED',
+        ':completedAt': completedAt,
+        ':totalChunks': job.totalChunks,
+        ':expectedStatus': 'PAUSED',
+      }),
+    })
+  );
+
+  try {
+    const { recordedSegments, skippedChunks } = await recordJobTranslationMemory(
+      dynamoClient,
+      s3Client,
+      TRANSLATION_MEMORY_TABLE,
+      CHUNKS_BUCKET,
+      job,
+      job.targetLanguage!
+    );
+    logger.info('Translation memory recorded', {
+      jobId: job.jobId,
+      recordedSegments,
+      skippedChunks,
+    });
+  } catch (error) {
+    logger.warn('Failed to record translation memory', {
+      jobId: job.jobId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Send a status transition conditioned on the status the job was loaded
+ * with. A failed condition means a concurrent request changed the job
+ * first, e.g. a double-clicked pause.
+ */
+async function conditionalUpdate(command: UpdateItemCommand): Promise<void> {
+  try {
+    await dynamoClient.send(command);
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      throw new ControlRequestError(
+        409,
+        'The job changed while the request was being handled. Please refresh and try again.',
+        'INVALID_JOB_STATUS'
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for Create Revision endpoint
+ * POST /jobs/{jobId}/revisions
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.DOCUMENT_BUCKET = 'test-document-bucket';
+process.env.ATTESTATIONS_TABLE_NAME = 'test-attestations-table';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { handler } from './createRevision';
+
+const dynamoMock = mockClient(DynamoDBClient);
+
+const mockGetSignedUrl = jest.fn();
+jest.mock('@aws-sdk/s3-request-presigner', () => ({
+  getSignedUrl: (...args: any[]) => mockGetSignedUrl(...args),
+}));
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('createRevision endpoint', () => {
+  // Job ids are UUIDs; the attestation record schema enforces it.
+  const JOB_ID = '6f1c2f1e-3b1a-4c55-9a8e-2d4b8e0c7a11';
+
+  const attestation = {
+    acceptCopyrightOwnership: true,
+    acceptTranslationRights: true,
+    acceptLiabilityTerms: true,
+    userIPAddress: '127.0.0.1',
+    userAgent: 'jest-test',
+    timestamp: '2026-01-01T00:00:00.000Z',
+  };
+
+  const completedJob = {
+    jobId: JOB_ID,
+    userId: 'user-123',
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    targetLanguage: 'es',
+    chunkingMetadata: { chunkKeys: ['chunks/a.json', 'chunks/b.json'] },
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    jest.clearAllMocks();
+    mockGetSignedUrl.mockResolvedValue('https://mocked-presigned-url.s3.amazonaws.com');
+    dynamoMock.on(PutItemCommand).resolves({});
+    dynamoMock.on(UpdateItemCommand).resolves({});
+  });
+
+  const createEvent = (body: Record<string, unknown>): Partial<APIGatewayProxyEvent> => ({
+    httpMethod: 'POST',
+    path: `/jobs/${JOB_ID}/revisions`,
+    pathParameters: { jobId: JOB_ID },
+    headers: {},
+    body: JSON.stringify({
+      fileName: 'manuscript-v2.txt',
+      fileSize: 50000,
+      contentType: 'text/plain',
+      legalAttestation: attestation,
+      ...body,
+    }),
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: { claims: { sub: 'user-123' } },
+      identity: { sourceIp: '127.0.0.1' },
+    } as any,
+  });
+
+  function mockJob(job: Record<string, unknown> | null) {
+    dynamoMock.on(GetItemCommand).resolves(job ? { Item: marshall(job) } : {});
+  }
+
+  function updatedValues(): Record<string, any> {
+    const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    return unmarshall(input.ExpressionAttributeValues ?? {});
+  }
+
+  it('issues an upload URL and moves a completed job back to PENDING_UPLOAD', async () => {
+    mockJob(completedJob);
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(201);
+    const body = JSON.parse(result.body);
+    expect(body).toMatchObject({
+      jobId: JOB_ID,
+      revision: 2,
+      uploadUrl: 'https://mocked-presigned-url.s3.amazonaws.com',
+      requiredHeaders: { 'Content-Type': 'text/plain', 'Content-Length': '50000' },
+    });
+
+    const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(input.UpdateExpression).toContain('REMOVE translationStatus, revisionAlignment');
+    expect(updatedValues()).toMatchObject({
+      ':status': 'PENDING_UPLOAD',
+      ':expectedStatus': 'COMPLETED',
+      ':documentId': body.fileId,
+      ':s3Key': `uploads/user-123/${body.fileId}/manuscript-v2.txt`,
+      ':revision': 2,
+      ':previousRevision': {
+        revision: 1,
+        chunkKeys: ['chunks/a.json', 'chunks/b.json'],
+        targetLanguage: 'es',
+      },
+    });
+    expect(dynamoMock.commandCalls(PutItemCommand)).toHaveLength(1);
+  });
+
+  it('retries a revision whose chunking failed against the same previous revision', async () => {
+    const previousRevision = { revision: 2, chunkKeys: ['chunks/a.json'], targetLanguage: 'fr' };
+    mockJob({ ...completedJob, status: 'CHUNKING_FAILED', revision: 3, previousRevision });
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(201);
+    expect(JSON.parse(result.body).revision).toBe(3);
+    expect(updatedValues()[':previousRevision']).toEqual(previousRevision);
+  });
+
+  it('revises an approved translation and removes its review', async () => {
+    mockJob({
+      ...completedJob,
+      status: 'APPROVED',
+      reviewerEmail: 'reviewer@example.com',
+      reviewSubmittedAt: '2026-03-01T08:00:00.000Z',
+      chunkReviews: { '0': { approvedBy: 'reviewer@example.com', approvedAt: 'x' } },
+      approvedAt: '2026-03-02T08:00:00.000Z',
+      approvedBy: 'reviewer@example.com',
+    });
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(201);
+    const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(input.UpdateExpression).toContain(
+      'reviewerEmail, reviewSubmittedAt, chunkReviews, reviewComment, approvedAt, approvedBy'
+    );
+    expect(updatedValues()).toMatchObject({
+      ':status': 'PENDING_UPLOAD',
+      ':expectedStatus': 'APPROVED',
+      ':previousRevision': { revision: 1, targetLanguage: 'es' },
+    });
+  });
+
+  it('returns 409 while the translation is in review', async () => {
+    mockJob({
+      ...completedJob,
+      status: 'IN_REVIEW',
+      reviewerEmail: 'reviewer@example.com',
+      reviewSubmittedAt: '2026-03-01T08:00:00.000Z',
+    });
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+  });
+
+  it('rejects a job whose translation has not completed', async () => {
+    mockJob({ ...completedJob, status: 'CHUNKED', translationStatus: 'IN_PROGRESS' });
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+  });
+
+  it('returns 404 for a job the user does not own', async () => {
+    mockJob(null);
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).errorCode).toBe('JOB_NOT_FOUND');
+  });
+
+  it('requires the legal attestation', async () => {
+    mockJob(completedJob);
+
+    const result = await handler(createEvent({ legalAttestation: null }) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(400);
+    expect(dynamoMock.commandCalls(GetItemCommand)).toHaveLength(0);
+  });
+
+  it('returns 409 when the job changed in the meantime', async () => {
+    mockJob(completedJob);
+    dynamoMock
+      .on(UpdateItemCommand)
+      .rejects(new ConditionalCheckFailedException({ message: 'changed', $metadata: {} }));
+
+    const result = await handler(createEvent({}) as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Create Revision Lambda Function
+ * POST /jobs/{jobId}/revisions
+ *
+ * Starts a new revision of a translated job: issues a presigned URL for the
+ * revised source document and moves the job back to PENDING_UPLOAD. The
+ * upload then takes the usual path (uploadComplete → chunkDocument), except
+ * that chunkDocument aligns the new chunks against the previous revision's
+ * and records which ones changed — the translation-status endpoint reports
+ * that count before the user starts (and pays for) the translation, and
+ * translateChunk copies the unchanged chunks from the previous translation.
+ *
+ * The previous revision is snapshotted from the completed job — approved
+ * or sent back or never reviewed; the revision removes the review, and
+ * waits while one is under way (see shared/jobReview.ts). When the
+ * revision's own upload or chunking failed, the same revision can be
+ * uploaded again against the snapshot already on the job.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  CreateRevisionApiResponse,
+  DynamoDBJob,
+  fileValidationSchema,
+  legalAttestationPayloadSchema,
+  isTranslatedStatus,
+  PresignedUrlRequest,
+  PreviousRevision,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUser } from '../shared/jobRepository';
+import { REVIEW_ATTRIBUTES } from '../shared/jobReview';
+import {
+  AttestationWriteError,
+  buildAttestationRecord,
+  writeAttestation,
+} from '../shared/attestationWriter';
+
+const logger = new Logger('lfmt-create-revision');
+const s3Client = new S3Client({});
+const dynamoClient = new DynamoDBClient({});
+
+const DOCUMENT_BUCKET = getRequiredEnv('DOCUMENT_BUCKET');
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const PRESIGNED_URL_EXPIRATION = 900; // 15 minutes, as for POST /jobs/upload
+
+/** Statuses in which a revision whose upload did not get through can be retried. */
+const RETRYABLE_REVISION_STATUSES = ['PENDING_UPLOAD', 'VALIDATION_FAILED', 'CHUNKING_FAILED'];
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Create revision request', { requestId, path: event.path });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    let body: Partial<PresignedUrlRequest> & { legalAttestation?: unknown };
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(
+        400,
+        'Invalid JSON in request body',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const validation = fileValidationSchema.safeParse({
+      filename: body.fileName,
+      fileSize: body.fileSize,
+      contentType: body.contentType,
+    });
+    if (!validation.success) {
+      return createErrorResponse(
+        400,
+        'File validation failed',
+        requestId,
+        validation.error.flatten().fieldErrors,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    // A revision is a new upload of the manuscript and needs the same
+    // consent as the first one (see uploadRequest.ts).
+    const attestation = legalAttestationPayloadSchema.safeParse(body.legalAttestation);
+    if (!attestation.success) {
+      return createErrorResponse(
+        400,
+        'Legal attestation is required: you must accept all three clauses to upload.',
+        requestId,
+        attestation.error.flatten().fieldErrors,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    // The review covers the translation a revision would replace.
+    if (job.status === 'IN_REVIEW') {
+      return createErrorResponse(
+        409,
+        'A revision cannot be uploaded while the translation is in review.',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_JOB_STATUS'
+      );
+    }
+
+    const previousRevision = revisionBase(job);
+    if (!previousRevision) {
+      return createErrorResponse(
+        400,
+        `A revision can only be uploaded for a completed translation. Current status: ${job.status}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_JOB_STATUS'
+      );
+    }
+
+    const { filename, fileSize, contentType } = validation.data;
+    const revision = previousRevision.revision + 1;
+    const fileId = randomUUID();
+    const s3Key = `uploads/${userId}/${fileId}/${filename}`;
+
+    try {
+      await writeAttestation(
+        buildAttestationRecord({
+          userId,
+          jobId,
+          documentId: fileId,
+          filename,
+          fileSize,
+          contentType,
+          ipAddress: event.requestContext.identity?.sourceIp || 'unknown',
+          userAgent:
+            event.headers['User-Agent'] ||
+            event.headers['user-agent'] ||
+            event.requestContext.identity?.userAgent ||
+            'unknown',
+          acceptedClauses: {
+            acceptCopyrightOwnership: attestation.data.acceptCopyrightOwnership,
+            acceptTranslationRights: attestation.data.acceptTranslationRights,
+            acceptLiabilityTerms: attestation.data.acceptLiabilityTerms,
+          },
+        }),
+        { logger }
+      );
+    } catch (err) {
+      logger.error('Refusing revision upload — attestation persistence failed', {
+        requestId,
+        jobId,
+        fileId,
+        errorCode: err instanceof AttestationWriteError ? err.code : 'UnknownAttestationError',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+      return createErrorResponse(
+        500,
+        'AttestationPersistFailure: legal attestation could not be recorded; upload aborted.',
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    const uploadUrl = await getSignedUrl(
+      s3Client,
+      new PutObjectCommand({
+        Bucket: DOCUMENT_BUCKET,
+        Key: s3Key,
+        ContentType: contentType,
+        ContentLength: fileSize,
+        Metadata: {
+          userId,
+          fileId,
+          jobId,
+          originalFilename: filename,
+          uploadRequestId: requestId,
+        },
+      }),
+      { expiresIn: PRESIGNED_URL_EXPIRATION }
+    );
+
+    // The status condition guards against a concurrent revision (or a
+    // translation started in between) changing the job under us. Removing
+    // translationStatus lets startTranslation accept the job once the
+    // revision is CHUNKED.
+    try {
+      await dynamoClient.send(
+        new UpdateItemCommand({
+          TableName: JOBS_TABLE,
+          Key: marshall({ jobId, userId }),
+          UpdateExpression: `SET #status = :status, documentId = :documentId, filename = :filename, s3Key = :s3Key, fileSize = :fileSize, revision = :revision, previousRevision = :previousRevision, metadata = :metadata, updatedAt = :updatedAt REMOVE translationStatus, revisionAlignment, errorMessage, ${REVIEW_ATTRIBUTES}`,
+          ConditionExpression: '#status = :expectedStatus',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: marshall({
+            ':status': 'PENDING_UPLOAD',
+            ':expectedStatus': job.status,
+            ':documentId': fileId,
+            ':filename': filename,
+            ':s3Key': s3Key,
+            ':fileSize': fileSize,
+            ':revision': revision,
+            ':previousRevision': previousRevision,
+            ':metadata': { originalFilename: filename, uploadRequestId: requestId },
+            ':updatedAt': new Date().toISOString(),
+          }),
+        })
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return createErrorResponse(
+          409,
+          'The job changed while the revision was being created. Please try again.',
+          requestId,
+          undefined,
+          requestOrigin,
+          'INVALID_JOB_STATUS'
+        );
+      }
+      throw error;
+    }
+
+    logger.info('Revision created', {
+      requestId,
+      jobId,
+      fileId,
+      revision,
+      previousChunks: previousRevision.chunkKeys.length,
+    });
+
+    const responseBody: CreateRevisionApiResponse = {
+      message: 'Revision upload URL generated successfully',
+      jobId,
+      revision,
+      uploadUrl,
+      fileId,
+      expiresIn: PRESIGNED_URL_EXPIRATION,
+      requiredHeaders: {
+        'Content-Type': contentType,
+        'Content-Length': fileSize.toString(),
+      },
+    };
+
+    return createFlatResponse(201, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    logger.error('Failed to create revision', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to create revision. Please try again later.',
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+};
+
+/**
+ * The revision a new upload is aligned against: a snapshot of the completed
+ * translation, or the snapshot already on the job when the last revision
+ * never got as far as chunking. Null when the job cannot take a revision.
+ */
+function revisionBase(job: DynamoDBJob): PreviousRevision | null {
+  if (isTranslatedStatus(job.status) && job.targetLanguage && job.chunkingMetadata?.chunkKeys) {
+    return {
+      revision: job.revision ?? 1,
+      chunkKeys: job.chunkingMetadata.chunkKeys,
+      targetLanguage: job.targetLanguage,
+    };
+  }
+  if (job.previousRevision && RETRYABLE_REVISION_STATUSES.includes(job.status)) {
+    return job.previousRevision;
+  }
+  return null;
+}
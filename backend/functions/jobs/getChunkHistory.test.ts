@@ -0,0 +1,293 @@
+/**
+ * Unit tests for the chunk history endpoints:
+ * GET /jobs/{jobId}/chunks/{chunkIndex}/versions[/{versionId}] and GET /jobs/{jobId}/edits
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.CHUNKS_BUCKET = 'test-document-bucket';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListObjectVersionsCommand,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import { handler } from './getChunkHistory';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('getChunkHistory endpoints', () => {
+  const job = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    translationStartedAt: '2026-03-01T10:00:00.000Z',
+    totalChunks: 2,
+    chunkingMetadata: { chunkKeys: ['chunks/job-123/0.json', 'chunks/job-123/1.json'] },
+  };
+
+  const machineKey = 'translated/job-123/chunk-1.txt';
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    dynamoMock.on(GetItemCommand).resolves({ Item: marshall(job) });
+    s3Mock.on(ListObjectVersionsCommand).resolves({
+      Versions: [
+        // A retranslation: the first machine translation is noncurrent.
+        {
+          Key: machineKey,
+          VersionId: 'mv2',
+          IsLatest: true,
+          LastModified: new Date('2026-03-01T10:05:00.000Z'),
+        },
+        {
+          Key: machineKey,
+          VersionId: 'mv1',
+          IsLatest: false,
+          LastModified: new Date('2026-02-20T08:00:00.000Z'),
+        },
+      ],
+    });
+    s3Mock.on(HeadObjectCommand, { Key: machineKey }).resolves({
+      Metadata: {
+        provider: 'claude',
+        model: 'claude-sonnet',
+        translatedat: '2026-03-01T10:05:00Z',
+      },
+    });
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [
+        {
+          Key: 'translated-edits/job-123/chunk-1/v1.txt',
+          LastModified: new Date('2026-03-02T09:00:00.000Z'),
+        },
+      ],
+    });
+    s3Mock.on(HeadObjectCommand, { Key: 'translated-edits/job-123/chunk-1/v1.txt' }).resolves({
+      Metadata: {
+        author: 'user-123',
+        savedat: '2026-03-02T09:00:00.000Z',
+        baseversion: '0',
+        note: Buffer.from('Fixed the tense', 'utf8').toString('base64'),
+        wordcount: '4',
+        wordsadded: '3',
+        wordsremoved: '2',
+      },
+    });
+  });
+
+  const request = (pathParameters: Record<string, string>, path: string) =>
+    handler({
+      httpMethod: 'GET',
+      path,
+      pathParameters: { jobId: 'job-123', ...pathParameters },
+      headers: {},
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer: { claims: { sub: 'user-123' } },
+      } as any,
+    } as unknown as APIGatewayProxyEvent);
+
+  const listVersions = () =>
+    request({ chunkIndex: '1' }, '/jobs/job-123/chunks/1/versions').then((result) => ({
+      statusCode: result.statusCode,
+      body: JSON.parse(result.body),
+    }));
+
+  it('lists machine translations and edits oldest first, marking the current one', async () => {
+    const { statusCode, body } = await listVersions();
+
+    expect(statusCode).toBe(200);
+    expect(body.versions).toEqual([
+      expect.objectContaining({ versionId: 'machine-mv1', kind: 'machine', current: false }),
+      expect.objectContaining({
+        versionId: 'machine-mv2',
+        kind: 'machine',
+        author: 'claude/claude-sonnet',
+        savedAt: '2026-03-01T10:05:00Z',
+        current: false,
+      }),
+      {
+        versionId: 'edit-1',
+        kind: 'edit',
+        version: 1,
+        author: 'user-123',
+        savedAt: '2026-03-02T09:00:00.000Z',
+        note: 'Fixed the tense',
+        baseVersion: 0,
+        wordCount: 4,
+        wordsAdded: 3,
+        wordsRemoved: 2,
+        current: true,
+      },
+    ]);
+    expect(s3Mock.commandCalls(ListObjectVersionsCommand)[0].args[0].input.Prefix).toBe(machineKey);
+  });
+
+  it('marks the machine translation current when it was retranslated after the edit', async () => {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [
+        {
+          Key: 'translated-edits/job-123/chunk-1/v1.txt',
+          LastModified: new Date('2026-02-21T09:00:00.000Z'),
+        },
+      ],
+    });
+
+    const { body } = await listVersions();
+
+    expect(body.versions.map((v: { versionId: string }) => v.versionId)).toEqual([
+      'machine-mv1',
+      'edit-1',
+      'machine-mv2',
+    ]);
+    expect(body.versions.filter((v: { current: boolean }) => v.current)).toEqual([
+      expect.objectContaining({ versionId: 'machine-mv2' }),
+    ]);
+  });
+
+  it('marks no version current while the latest run has not translated the chunk', async () => {
+    dynamoMock.on(GetItemCommand).resolves({
+      Item: marshall({ ...job, translationStartedAt: '2026-03-05T00:00:00.000Z' }),
+    });
+
+    const { body } = await listVersions();
+
+    expect(body.versions).toHaveLength(3);
+    expect(body.versions.some((v: { current: boolean }) => v.current)).toBe(false);
+  });
+
+  it('returns the text of an earlier machine translation by its S3 version id', async () => {
+    s3Mock.on(GetObjectCommand, { Key: machineKey, VersionId: 'mv1' }).resolves({
+      Body: sdkStreamMixin(Readable.from(['Llovió.'])),
+    } as never);
+
+    const result = await request(
+      { chunkIndex: '1', versionId: 'machine-mv1' },
+      '/jobs/job-123/chunks/1/versions/machine-mv1'
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toMatchObject({
+      chunkIndex: 1,
+      versionId: 'machine-mv1',
+      text: 'Llovió.',
+    });
+  });
+
+  it('returns the text of an edit', async () => {
+    s3Mock.on(GetObjectCommand, { Key: 'translated-edits/job-123/chunk-1/v1.txt' }).resolves({
+      Body: sdkStreamMixin(Readable.from(['Llovía.'])),
+    } as never);
+
+    const result = await request(
+      { chunkIndex: '1', versionId: 'edit-1' },
+      '/jobs/job-123/chunks/1/versions/edit-1'
+    );
+
+    expect(JSON.parse(result.body).text).toBe('Llovía.');
+  });
+
+  it('returns 404 for a version that does not exist', async () => {
+    s3Mock.on(GetObjectCommand).rejects(
+      new S3ServiceException({
+        name: 'NoSuchVersion',
+        $fault: 'client',
+        $metadata: { httpStatusCode: 404 },
+      })
+    );
+
+    const result = await request(
+      { chunkIndex: '1', versionId: 'machine-gone' },
+      '/jobs/job-123/chunks/1/versions/machine-gone'
+    );
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).errorCode).toBe('VERSION_NOT_FOUND');
+  });
+
+  it('rejects a version id that is neither an edit nor a machine translation', async () => {
+    const result = await request(
+      { chunkIndex: '1', versionId: 'v1' },
+      '/jobs/job-123/chunks/1/versions/v1'
+    );
+
+    expect(result.statusCode).toBe(400);
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+  });
+
+  it('returns 404 for a chunk past the end of the job', async () => {
+    const result = await request({ chunkIndex: '2' }, '/jobs/job-123/chunks/2/versions');
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).errorCode).toBe('CHUNK_NOT_FOUND');
+  });
+
+  it('exports every edit of the job for accounting', async () => {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [
+        {
+          Key: 'translated-edits/job-123/chunk-1/v1.txt',
+          LastModified: new Date('2026-03-02T09:00:00.000Z'),
+        },
+        {
+          Key: 'translated-edits/job-123/chunk-0/v1.txt',
+          LastModified: new Date('2026-03-02T10:00:00.000Z'),
+        },
+      ],
+    });
+    s3Mock.on(HeadObjectCommand, { Key: 'translated-edits/job-123/chunk-0/v1.txt' }).resolves({
+      Metadata: { author: 'user-123', savedat: '2026-03-02T10:00:00.000Z', baseversion: '0' },
+    });
+
+    const result = await request({}, '/jobs/job-123/edits');
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toMatchObject({
+      jobId: 'job-123',
+      edits: [
+        { chunkIndex: 0, version: 1, author: 'user-123', baseVersion: 0 },
+        {
+          chunkIndex: 1,
+          version: 1,
+          note: 'Fixed the tense',
+          wordCount: 4,
+          wordsAdded: 3,
+          wordsRemoved: 2,
+        },
+      ],
+    });
+    expect(s3Mock.commandCalls(ListObjectsV2Command)[0].args[0].input.Prefix).toBe(
+      'translated-edits/job-123/'
+    );
+  });
+
+  it('returns 404 for a job the user does not own', async () => {
+    dynamoMock.on(GetItemCommand).resolves({});
+
+    const result = await request({}, '/jobs/job-123/edits');
+
+    expect(result.statusCode).toBe(404);
+    expect(s3Mock.commandCalls(ListObjectsV2Command)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Chunk History Lambda Function
+ * GET /jobs/{jobId}/chunks/{chunkIndex}/versions
+ * GET /jobs/{jobId}/chunks/{chunkIndex}/versions/{versionId}
+ * GET /jobs/{jobId}/edits
+ *
+ * Every translation a chunk has had, for the history view's diffs:
+ *
+ *   - Machine translations. translateChunk writes each chunk to the same
+ *     `translated/{jobId}/chunk-{index}.txt` key on every retry,
+ *     retranslation and revision; the documents bucket is versioned, so
+ *     each earlier write is still there as a noncurrent S3 object version
+ *     until the bucket's lifecycle rule expires it (30 days).
+ *   - Edits saved in the viewer, numbered versions under
+ *     `translated-edits/` (see shared/chunkTranslations.ts).
+ *
+ * `versions` lists both, oldest first, marking the one the viewer and
+ * downloads use; `versions/{versionId}` returns one version's text.
+ * `edits` exports what was saved with every edit of the job — author,
+ * time, note, word counts — for translator-payment accounting.
+ *
+ * Ownership goes through loadJobForUser, which also hides soft-deleted
+ * jobs — a job of another user, a deleted job and a missing one all 404.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectVersionsCommand,
+  ListObjectVersionsCommandOutput,
+  ObjectVersion,
+} from '@aws-sdk/client-s3';
+import {
+  ChunkEditRecord,
+  ChunkVersionApiResponse,
+  ChunkVersionSummary,
+  ChunkVersionsApiResponse,
+  DynamoDBJob,
+  JobEditsApiResponse,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUser } from '../shared/jobRepository';
+import {
+  chunkEditKey,
+  editSupersedes,
+  headChunkEdit,
+  latestEditsByChunk,
+  listChunkEdits,
+  machineTranslationKey,
+  translatedInLatestRun,
+} from '../shared/chunkTranslations';
+
+const logger = new Logger('lfmt-get-chunk-history');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+
+/**
+ * Number of objects whose metadata is read concurrently, as for the
+ * glossary report's chunk fetches.
+ */
+const HEAD_CONCURRENCY = 10;
+
+const EDIT_VERSION_ID = /^edit-(\d+)$/;
+const MACHINE_VERSION_ID = /^machine-(.+)$/;
+
+/** A request that cannot be served, as the error response to return. */
+class HistoryRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string
+  ) {
+    super(message);
+    this.name = 'HistoryRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Chunk history request', { requestId, path: event.path });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    const chunkIndexParam = event.pathParameters?.chunkIndex;
+    const versionId = event.pathParameters?.versionId;
+    let responseBody: ChunkVersionsApiResponse | ChunkVersionApiResponse | JobEditsApiResponse;
+    if (chunkIndexParam === undefined) {
+      responseBody = await exportEdits(job);
+    } else {
+      const chunkIndex = parseChunkIndex(job, chunkIndexParam);
+      responseBody =
+        versionId === undefined
+          ? await listVersions(job, chunkIndex)
+          : await readVersion(job, chunkIndex, versionId);
+    }
+
+    return createFlatResponse(200, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    if (error instanceof HistoryRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        undefined,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Failed to read chunk history', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to read chunk history',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+function parseChunkIndex(job: DynamoDBJob, chunkIndexParam: string): number {
+  if (!/^\d+$/.test(chunkIndexParam)) {
+    throw new HistoryRequestError(
+      400,
+      `Invalid chunk index: ${chunkIndexParam}`,
+      'INVALID_REQUEST'
+    );
+  }
+  const chunkIndex = Number(chunkIndexParam);
+  const totalChunks = job.chunkingMetadata?.chunkKeys?.length ?? 0;
+  if (chunkIndex >= totalChunks) {
+    throw new HistoryRequestError(
+      404,
+      `Chunk ${chunkIndex} not found; the job has ${totalChunks} chunks`,
+      'CHUNK_NOT_FOUND'
+    );
+  }
+  return chunkIndex;
+}
+
+/**
+ * The chunk's machine translations and edits, oldest first.
+ */
+async function listVersions(
+  job: DynamoDBJob,
+  chunkIndex: number
+): Promise<ChunkVersionsApiResponse> {
+  const [machineVersions, edits] = await Promise.all([
+    listMachineVersions(job.jobId, chunkIndex),
+    listChunkEdits(s3Client, CHUNKS_BUCKET, job.jobId, chunkIndex),
+  ]);
+
+  // The current translation, as shared/chunkTranslations.ts reads it.
+  const latestMachine = machineVersions.find((version) => version.IsLatest);
+  const latestEdit = latestEditsByChunk(edits).get(chunkIndex);
+  const machineModified = latestMachine?.LastModified ?? new Date(0);
+  const translated = !!latestMachine && translatedInLatestRun(job, machineModified);
+  const editCurrent = translated && !!latestEdit && editSupersedes(latestEdit, machineModified);
+
+  const entries: Array<{ modified: Date; summary: ChunkVersionSummary }> = [];
+
+  const machineSummaries = await inBatches(machineVersions, async (version) => {
+    const head = await s3Client.send(
+      new HeadObjectCommand({
+        Bucket: CHUNKS_BUCKET,
+        Key: version.Key,
+        VersionId: version.VersionId,
+      })
+    );
+    const modified = version.LastModified ?? new Date(0);
+    // S3 returns user metadata keys in lower case.
+    const { provider, model, translatedat } = head.Metadata ?? {};
+    const summary: ChunkVersionSummary = {
+      versionId: `machine-${version.VersionId ?? 'null'}`,
+      kind: 'machine',
+      author: provider && model ? `${provider}/${model}` : 'machine',
+      savedAt: translatedat ?? modified.toISOString(),
+      current: version === latestMachine && translated && !editCurrent,
+    };
+    return { modified, summary };
+  });
+  entries.push(...machineSummaries);
+
+  const editSummaries = await inBatches(edits, async (edit) => {
+    const metadata = await headChunkEdit(s3Client, CHUNKS_BUCKET, edit);
+    const summary: ChunkVersionSummary = {
+      versionId: `edit-${edit.version}`,
+      kind: 'edit',
+      version: edit.version,
+      author: metadata.author,
+      savedAt: metadata.savedAt,
+      note: metadata.note,
+      baseVersion: metadata.baseVersion,
+      wordCount: metadata.wordCount,
+      wordsAdded: metadata.wordsAdded,
+      wordsRemoved: metadata.wordsRemoved,
+      current: edit === latestEdit && editCurrent,
+    };
+    return { modified: edit.lastModified, summary };
+  });
+  entries.push(...editSummaries);
+
+  entries.sort((a, b) => a.modified.getTime() - b.modified.getTime());
+
+  return {
+    jobId: job.jobId,
+    chunkIndex,
+    versions: entries.map((entry) => entry.summary),
+  };
+}
+
+/**
+ * Every S3 object version of the chunk's machine translation; delete
+ * markers are skipped.
+ */
+async function listMachineVersions(jobId: string, chunkIndex: number): Promise<ObjectVersion[]> {
+  const key = machineTranslationKey(jobId, chunkIndex);
+  const versions: ObjectVersion[] = [];
+
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+  do {
+    const response: ListObjectVersionsCommandOutput = await s3Client.send(
+      new ListObjectVersionsCommand({
+        Bucket: CHUNKS_BUCKET,
+        Prefix: key,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+      })
+    );
+    // The prefix `chunk-1.txt` cannot match `chunk-10.txt`, but it can
+    // match longer keys, so compare whole keys.
+    versions.push(...(response.Versions ?? []).filter((version) => version.Key === key));
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+  } while (keyMarker || versionIdMarker);
+
+  return versions;
+}
+
+/**
+ * The text of one version: `edit-{n}` or `machine-{s3VersionId}`.
+ */
+async function readVersion(
+  job: DynamoDBJob,
+  chunkIndex: number,
+  versionId: string
+): Promise<ChunkVersionApiResponse> {
+  const edit = versionId.match(EDIT_VERSION_ID);
+  const machine = versionId.match(MACHINE_VERSION_ID);
+  if (!edit && !machine) {
+    throw new HistoryRequestError(400, `Invalid version id: ${versionId}`, 'INVALID_REQUEST');
+  }
+
+  const object = edit
+    ? { Key: chunkEditKey(job.jobId, chunkIndex, Number(edit[1])) }
+    : { Key: machineTranslationKey(job.jobId, chunkIndex), VersionId: machine?.[1] };
+
+  let text: string | undefined;
+  try {
+    const response = await s3Client.send(
+      new GetObjectCommand({ Bucket: CHUNKS_BUCKET, ...object })
+    );
+    text = await response.Body?.transformToString('utf-8');
+  } catch (error) {
+    if (!isMissingVersion(error)) {
+      throw error;
+    }
+  }
+
+  if (text === undefined) {
+    throw new HistoryRequestError(
+      404,
+      `Version ${versionId} of chunk ${chunkIndex} not found`,
+      'VERSION_NOT_FOUND'
+    );
+  }
+
+  return { jobId: job.jobId, chunkIndex, versionId, text };
+}
+
+/**
+ * What was saved with every edit of the job, by chunk then version.
+ * Edits a retranslation replaced are included: the work was still done.
+ */
+async function exportEdits(job: DynamoDBJob): Promise<JobEditsApiResponse> {
+  const edits = await listChunkEdits(s3Client, CHUNKS_BUCKET, job.jobId);
+  const records = await inBatches(edits, async (edit): Promise<ChunkEditRecord> => {
+    const metadata = await headChunkEdit(s3Client, CHUNKS_BUCKET, edit);
+    return {
+      chunkIndex: edit.chunkIndex,
+      version: edit.version,
+      author: metadata.author,
+      savedAt: metadata.savedAt,
+      note: metadata.note,
+      baseVersion: metadata.baseVersion,
+      wordCount: metadata.wordCount,
+      wordsAdded: metadata.wordsAdded,
+      wordsRemoved: metadata.wordsRemoved,
+    };
+  });
+
+  logger.info('Chunk edits exported', { jobId: job.jobId, edits: records.length });
+
+  return { jobId: job.jobId, edits: records };
+}
+
+/** Map `items` HEAD_CONCURRENCY at a time, keeping their order. */
+async function inBatches<T, R>(items: T[], map: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let start = 0; start < items.length; start += HEAD_CONCURRENCY) {
+    results.push(...(await Promise.all(items.slice(start, start + HEAD_CONCURRENCY).map(map))));
+  }
+  return results;
+}
+
+/**
+ * S3 answers a GET of a version id that does not exist — or is not a
+ * valid id at all — with NoSuchVersion or 400 InvalidArgument.
+ */
+function isMissingVersion(error: unknown): boolean {
+  const e = error as { name?: string };
+  return e?.name === 'NoSuchKey' || e?.name === 'NoSuchVersion' || e?.name === 'InvalidArgument';
+}
@@ -0,0 +1,330 @@
+/**
+ * Unit tests for the job content endpoints
+ * GET /jobs/{jobId}/source
+ * GET /jobs/{jobId}/chunks/{chunkIndex}
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.DOCUMENT_BUCKET = 'test-document-bucket';
+process.env.CHUNKS_BUCKET = 'test-document-bucket';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient, GetItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand, ListObjectsV2Command, NoSuchKey } from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import { handler } from './getJobContent';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+
+const mockGetSignedUrl = jest.fn();
+jest.mock('@aws-sdk/s3-request-presigner', () => ({
+  getSignedUrl: (...args: any[]) => mockGetSignedUrl(...args),
+}));
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+function makeS3Stream(content: string) {
+  return sdkStreamMixin(Readable.from([content]));
+}
+
+describe('getJobContent endpoint', () => {
+  const STARTED_AT = '2026-03-01T10:00:00.500Z';
+
+  const completedJob = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    filename: 'novela española.txt',
+    fileSize: 2048,
+    s3Key: 'uploads/user-123/file-1/novela española.txt',
+    translationStartedAt: STARTED_AT,
+    totalChunks: 2,
+    chunkingMetadata: { chunkKeys: ['chunks/job-123/chunk-0.json', 'chunks/job-123/chunk-1.json'] },
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    s3Mock.on(ListObjectsV2Command).resolves({ Contents: [] });
+    mockGetSignedUrl.mockReset();
+    mockGetSignedUrl.mockResolvedValue('https://s3.example.com/presigned');
+  });
+
+  function mockJob(job: Record<string, unknown> | null) {
+    dynamoMock
+      .on(GetItemCommand)
+      .resolves(job ? { Item: marshall(job, { removeUndefinedValues: true }) } : {});
+  }
+
+  function mockChunk(index: number, primaryContent: string) {
+    s3Mock
+      .on(GetObjectCommand, { Key: `chunks/job-123/chunk-${index}.json` })
+      .resolves({ Body: makeS3Stream(JSON.stringify({ primaryContent })) } as never);
+  }
+
+  function mockTranslation(
+    index: number,
+    text: string,
+    options: { lastModified?: string; metadata?: Record<string, string> } = {}
+  ) {
+    s3Mock.on(GetObjectCommand, { Key: `translated/job-123/chunk-${index}.txt` }).resolves({
+      Body: makeS3Stream(text),
+      LastModified: new Date(options.lastModified ?? '2026-03-01T10:05:00.000Z'),
+      Metadata: options.metadata ?? {},
+    } as never);
+  }
+
+  const request = (
+    path: string,
+    pathParameters: Record<string, string>,
+    claims: Record<string, string> = { sub: 'user-123' }
+  ) =>
+    handler({
+      httpMethod: 'GET',
+      resource: path,
+      path,
+      pathParameters: { jobId: 'job-123', ...pathParameters },
+      headers: {},
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer: { claims },
+      } as any,
+    } as unknown as APIGatewayProxyEvent);
+
+  const getSource = () => request('/jobs/{jobId}/source', {});
+  const getChunk = (chunkIndex: string) =>
+    request('/jobs/{jobId}/chunks/{chunkIndex}', { chunkIndex });
+
+  describe('GET /jobs/{jobId}/source', () => {
+    it('presigns the validated copy of the source document', async () => {
+      mockJob({ ...completedJob, revision: 2 });
+
+      const result = await getSource();
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toEqual({
+        jobId: 'job-123',
+        filename: 'novela española.txt',
+        fileSize: 2048,
+        revision: 2,
+        downloadUrl: 'https://s3.example.com/presigned',
+        expiresInSeconds: 900,
+        requestId: 'test-request-id',
+      });
+      const [, command, options] = mockGetSignedUrl.mock.calls[0];
+      expect(command.input).toEqual({
+        Bucket: 'test-document-bucket',
+        Key: 'documents/user-123/file-1/novela española.txt',
+        ResponseContentDisposition: "attachment; filename*=UTF-8''novela%20espa%C3%B1ola.txt",
+      });
+      expect(options).toEqual({ expiresIn: 900 });
+    });
+
+    it('returns 409 while the upload has not been validated', async () => {
+      mockJob({ ...completedJob, status: 'PENDING_UPLOAD' });
+
+      const result = await getSource();
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).errorCode).toBe('SOURCE_NOT_AVAILABLE');
+      expect(mockGetSignedUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /jobs/{jobId}/chunks/{chunkIndex}', () => {
+    it('returns the source text with its translation and alignment', async () => {
+      mockJob(completedJob);
+      mockChunk(1, 'It rained.\n\nWe left.');
+      mockTranslation(1, 'Llovió.\n\nNos\n\nfuimos.', {
+        metadata: { paragraphalignment: '1,2' },
+      });
+
+      const result = await getChunk('1');
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: 'job-123',
+        chunkIndex: 1,
+        totalChunks: 2,
+        sourceText: 'It rained.\n\nWe left.',
+        translatedText: 'Llovió.\n\nNos\n\nfuimos.',
+        paragraphAlignment: [1, 2],
+        translationVersion: 0,
+      });
+    });
+
+    it('returns the newest edit in place of the machine translation', async () => {
+      mockJob(completedJob);
+      mockChunk(0, 'It rained.\n\nWe left.');
+      mockTranslation(0, 'Llovió.\n\nNos fuimos.');
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [
+          {
+            Key: 'translated-edits/job-123/chunk-0/v1.txt',
+            LastModified: new Date('2026-03-02T09:00:00.000Z'),
+          },
+          {
+            Key: 'translated-edits/job-123/chunk-0/v2.txt',
+            LastModified: new Date('2026-03-02T09:30:00.000Z'),
+          },
+        ],
+      });
+      s3Mock.on(GetObjectCommand, { Key: 'translated-edits/job-123/chunk-0/v2.txt' }).resolves({
+        Body: makeS3Stream('Llovía.\n\nNos marchamos.'),
+        Metadata: {},
+      } as never);
+
+      const body = JSON.parse((await getChunk('0')).body);
+
+      expect(body).toMatchObject({
+        translatedText: 'Llovía.\n\nNos marchamos.',
+        translationVersion: 2,
+      });
+    });
+
+    it('keeps a retranslation over an older edit', async () => {
+      mockJob(completedJob);
+      mockChunk(0, 'It rained.');
+      mockTranslation(0, 'Llovió.', { lastModified: '2026-03-03T10:00:00.000Z' });
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [
+          {
+            Key: 'translated-edits/job-123/chunk-0/v1.txt',
+            LastModified: new Date('2026-03-02T09:00:00.000Z'),
+          },
+        ],
+      });
+
+      const body = JSON.parse((await getChunk('0')).body);
+
+      expect(body).toMatchObject({ translatedText: 'Llovió.', translationVersion: 0 });
+    });
+
+    it('leaves out the alignment of a one-to-one translation', async () => {
+      mockJob(completedJob);
+      mockChunk(0, 'It rained.');
+      mockTranslation(0, 'Llovió.');
+
+      const body = JSON.parse((await getChunk('0')).body);
+
+      expect(body.translatedText).toBe('Llovió.');
+      expect(body).not.toHaveProperty('paragraphAlignment');
+    });
+
+    it('returns no translation for a chunk not translated yet', async () => {
+      mockJob({ ...completedJob, translationStatus: 'IN_PROGRESS' });
+      mockChunk(1, 'We left.');
+      s3Mock
+        .on(GetObjectCommand, { Key: 'translated/job-123/chunk-1.txt' })
+        .rejects(new NoSuchKey({ message: 'The specified key does not exist.', $metadata: {} }));
+
+      const body = JSON.parse((await getChunk('1')).body);
+
+      expect(body).toMatchObject({ sourceText: 'We left.', translatedText: null });
+    });
+
+    it('ignores a translation written before the latest run started', async () => {
+      mockJob(completedJob);
+      mockChunk(0, 'It rained a lot.');
+      mockTranslation(0, 'Llovió.', { lastModified: '2026-02-20T08:00:00.000Z' });
+
+      const body = JSON.parse((await getChunk('0')).body);
+
+      expect(body.translatedText).toBeNull();
+    });
+
+    it('does not read translations of a revision that was not translated yet', async () => {
+      mockJob({ ...completedJob, status: 'CHUNKED', translationStatus: undefined });
+      mockChunk(0, 'It rained a lot.');
+
+      const body = JSON.parse((await getChunk('0')).body);
+
+      expect(body.translatedText).toBeNull();
+      expect(
+        s3Mock
+          .commandCalls(GetObjectCommand)
+          .map((call) => call.args[0].input.Key)
+          .filter((key) => key?.startsWith('translated/'))
+      ).toEqual([]);
+    });
+
+    it('returns 404 for a chunk past the end of the job', async () => {
+      mockJob(completedJob);
+
+      const result = await getChunk('2');
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).errorCode).toBe('CHUNK_NOT_FOUND');
+    });
+
+    it('rejects a chunk index that is not a number', async () => {
+      mockJob(completedJob);
+
+      const result = await getChunk('first');
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+    });
+  });
+
+  it('returns 404 for a soft-deleted job', async () => {
+    mockJob({ ...completedJob, deleteAt: 1790000000 });
+
+    const result = await getSource();
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).errorCode).toBe('JOB_NOT_FOUND');
+  });
+
+  it('returns a chunk to the reviewer the job is assigned to', async () => {
+    mockJob(null);
+    dynamoMock
+      .on(QueryCommand)
+      .resolves({ Items: [marshall({ ...completedJob, reviewerEmail: 'reviewer@example.com' })] });
+    mockChunk(0, 'It rained.');
+    mockTranslation(0, 'Llovió.');
+
+    const result = await request(
+      '/jobs/{jobId}/chunks/{chunkIndex}',
+      { chunkIndex: '0' },
+      { sub: 'user-456', email: 'Reviewer@Example.com', email_verified: 'true' }
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).translatedText).toBe('Llovió.');
+    expect(dynamoMock.commandCalls(QueryCommand)[0].args[0].input.IndexName).toBe(
+      'ReviewerJobsIndex'
+    );
+  });
+
+  it('returns 404 for a job the user does not own', async () => {
+    mockJob(null);
+
+    const result = await getChunk('0');
+
+    expect(result.statusCode).toBe(404);
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+  });
+
+  it('returns 401 without an authenticated user', async () => {
+    const result = await handler({
+      pathParameters: { jobId: 'job-123' },
+      headers: {},
+      requestContext: { requestId: 'test-request-id' },
+    } as unknown as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Job Content Lambda Function
+ * GET /jobs/{jobId}/source
+ * GET /jobs/{jobId}/chunks/{chunkIndex}
+ *
+ * Serves what the compare view shows next to a translation:
+ *
+ *   - `source` presigns a GET of the job's source document (the
+ *     post-validation `documents/` copy of the current revision), so the
+ *     browser fetches the original straight from S3 whatever its size.
+ *   - `chunks/{chunkIndex}` returns one chunk's source text together with
+ *     its translation and paragraph alignment, so the side-by-side viewer
+ *     pages through a document a chunk at a time instead of loading two
+ *     multi-megabyte blobs.
+ *
+ * A chunk's translation is the one shared/chunkTranslations.ts reads:
+ * the newest edit saved in the viewer, or else the machine translation —
+ * and only once the job's latest run has translated the chunk, since
+ * after a revision is uploaded `translated/` still holds the previous
+ * revision's text.
+ *
+ * Access goes through loadJobForUserOrReviewer, which also hides
+ * soft-deleted jobs: the owner and, while the job is in their hands, its
+ * assigned reviewer read it; for anyone else a job of another user, a
+ * deleted job and a missing one all 404.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { DynamoDBJob, JobChunkApiResponse, JobSourceApiResponse } from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUserOrReviewer } from '../shared/jobRepository';
+import { verifiedEmail } from '../shared/jobReview';
+import { readChunkTranslation } from '../shared/chunkTranslations';
+
+const logger = new Logger('lfmt-get-job-content');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const DOCUMENT_BUCKET = getRequiredEnv('DOCUMENT_BUCKET');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+
+/** Presigned-URL expiry, in seconds; as for translated downloads. */
+const PRESIGNED_URL_TTL_SECONDS = 15 * 60;
+
+/** Statuses in which the source document has not passed validation (yet). */
+const SOURCE_UNAVAILABLE_STATUSES = ['PENDING_UPLOAD', 'VALIDATION_FAILED'];
+
+/** A request that cannot be served, as the error response to return. */
+class ContentRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string
+  ) {
+    super(message);
+    this.name = 'ContentRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Job content request', { requestId, path: event.path });
+
+  try {
+    const claims = event.requestContext?.authorizer?.claims;
+    const userId = claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    const job = await loadJobForUserOrReviewer(
+      dynamoClient,
+      JOBS_TABLE,
+      jobId,
+      userId,
+      verifiedEmail(claims)
+    );
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    const chunkIndex = event.pathParameters?.chunkIndex;
+    const responseBody =
+      chunkIndex === undefined ? await presignSource(job) : await readChunk(job, chunkIndex);
+
+    return createFlatResponse(200, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    if (error instanceof ContentRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        undefined,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Failed to read job content', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to read job content',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+/**
+ * Presign a download of the job's source document. uploadComplete.ts
+ * copies every validated upload from `uploads/` to `documents/`.
+ */
+async function presignSource(job: DynamoDBJob): Promise<JobSourceApiResponse> {
+  if (typeof job.s3Key !== 'string' || SOURCE_UNAVAILABLE_STATUSES.includes(job.status)) {
+    throw new ContentRequestError(
+      409,
+      `The source document is not available; current status: ${job.status}`,
+      'SOURCE_NOT_AVAILABLE'
+    );
+  }
+
+  const filename = job.filename ?? job.s3Key.split('/').pop() ?? 'source';
+  const downloadUrl = await getSignedUrl(
+    s3Client,
+    new GetObjectCommand({
+      Bucket: DOCUMENT_BUCKET,
+      Key: job.s3Key.replace(/^uploads\//, 'documents/'),
+      // RFC 6266 extended notation: the filename cannot break out of the header.
+      ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    }),
+    { expiresIn: PRESIGNED_URL_TTL_SECONDS }
+  );
+
+  logger.info('Source document presigned', { jobId: job.jobId, revision: job.revision ?? 1 });
+
+  return {
+    jobId: job.jobId,
+    filename,
+    fileSize: typeof job.fileSize === 'number' ? job.fileSize : undefined,
+    revision: job.revision ?? 1,
+    downloadUrl,
+    expiresInSeconds: PRESIGNED_URL_TTL_SECONDS,
+  };
+}
+
+/**
+ * One chunk's source text with its current translation, when the latest
+ * run translated it.
+ */
+async function readChunk(job: DynamoDBJob, chunkIndexParam: string): Promise<JobChunkApiResponse> {
+  if (!/^\d+$/.test(chunkIndexParam)) {
+    throw new ContentRequestError(
+      400,
+      `Invalid chunk index: ${chunkIndexParam}`,
+      'INVALID_REQUEST'
+    );
+  }
+  const chunkIndex = Number(chunkIndexParam);
+  const chunkKeys = job.chunkingMetadata?.chunkKeys ?? [];
+  if (chunkIndex >= chunkKeys.length) {
+    throw new ContentRequestError(
+      404,
+      `Chunk ${chunkIndex} not found; the job has ${chunkKeys.length} chunks`,
+      'CHUNK_NOT_FOUND'
+    );
+  }
+
+  const [sourceChunk, translation] = await Promise.all([
+    s3Client.send(new GetObjectCommand({ Bucket: CHUNKS_BUCKET, Key: chunkKeys[chunkIndex] })),
+    readChunkTranslation(s3Client, CHUNKS_BUCKET, job, chunkIndex),
+  ]);
+  const chunk = JSON.parse((await sourceChunk.Body?.transformToString('utf-8')) ?? '{}');
+
+  return {
+    jobId: job.jobId,
+    chunkIndex,
+    totalChunks: chunkKeys.length,
+    sourceText: typeof chunk.primaryContent === 'string' ? chunk.primaryContent : '',
+    translatedText: translation?.text ?? null,
+    paragraphAlignment: translation?.alignment,
+    translationVersion: translation?.version,
+  };
+}
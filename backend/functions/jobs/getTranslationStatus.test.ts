@@ -7,7 +7,8 @@ process.env.JOBS_TABLE = 'test-jobs-table';
 
 import { APIGatewayProxyEvent } from 'aws-lambda';
 import { mockClient } from 'aws-sdk-client-mock';
-import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBClient, GetItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
 import { handler } from './getTranslationStatus';
 
 // Create mocks
@@ -410,6 +411,225 @@ describe('getTranslationStatus endpoint', () => {
       expect(body).toHaveProperty('translationStartedAt');
     });
 
+    it('should surface the detected source language and its confidence', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: {
+          jobId: { S: 'job-123' },
+          userId: { S: 'user-123' },
+          status: { S: 'CHUNKED' },
+          totalChunks: { N: '5' },
+          sourceLanguage: { S: 'fr' },
+          sourceLanguageConfidence: { N: '0.82' },
+        },
+      } as any);
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      const body = JSON.parse(result.body);
+      expect(body.sourceLanguage).toBe('fr');
+      expect(body.sourceLanguageConfidence).toBe(0.82);
+    });
+
+    it('should report translation memory reuse once chunks have been looked up', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: {
+          jobId: { S: 'job-123' },
+          userId: { S: 'user-123' },
+          status: { S: 'CHUNKED' },
+          translationStatus: { S: 'IN_PROGRESS' },
+          totalChunks: { N: '4' },
+          translatedChunks: { N: '2' },
+          memorySegments: { N: '40' },
+          memoryReusedSegments: { N: '30' },
+          memorySavedTokens: { N: '5200' },
+        },
+      } as any);
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body).translationMemory).toEqual({
+        segments: 40,
+        reusedSegments: 30,
+        reuseRatio: 0.75,
+        savedTokens: 5200,
+      });
+    });
+
+    it('should omit translation memory reuse before any chunk was looked up', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: {
+          jobId: { S: 'job-123' },
+          userId: { S: 'user-123' },
+          status: { S: 'CHUNKED' },
+          totalChunks: { N: '4' },
+        },
+      } as any);
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body)).not.toHaveProperty('translationMemory');
+    });
+
+    it('should report how many chunks of a revision changed', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: marshall({
+          jobId: 'job-123',
+          userId: 'user-123',
+          status: 'CHUNKED',
+          totalChunks: 4,
+          revision: 3,
+          revisionAlignment: {
+            previousRevision: 2,
+            targetLanguage: 'es',
+            reusedFrom: [0, -1, 1, 2],
+            changedChunks: 1,
+          },
+        }),
+      });
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body).revision).toEqual({
+        revision: 3,
+        previousRevision: 2,
+        changedChunks: 1,
+        unchangedChunks: 3,
+        targetLanguage: 'es',
+      });
+    });
+
+    it('should report the chunks that failed for good', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: marshall({
+          jobId: 'job-123',
+          userId: 'user-123',
+          status: 'TRANSLATION_FAILED',
+          translationStatus: 'TRANSLATION_FAILED',
+          totalChunks: 4,
+          translatedChunks: 2,
+          failedChunkIndexes: new Set([1, 3]),
+        }),
+      });
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body).failedChunks).toBe(2);
+    });
+
+    it('should list the flagged chunks in document order with their highest severity', async () => {
+      const dropped = {
+        type: 'DROPPED_PARAGRAPHS',
+        severity: 'MEDIUM',
+        description: '9 of 10 paragraphs came back; 1 may have been dropped or merged.',
+      };
+      const truncated = {
+        type: 'TRUNCATED',
+        severity: 'HIGH',
+        description:
+          'The model stopped at its output limit; the end of this part is likely missing.',
+      };
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: marshall({
+          jobId: 'job-123',
+          userId: 'user-123',
+          status: 'COMPLETED',
+          translationStatus: 'COMPLETED',
+          totalChunks: 12,
+          translatedChunks: 12,
+          qualityFlags: { '10': [truncated, dropped], '2': [dropped] },
+        }),
+      });
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body).flaggedChunks).toEqual([
+        { chunkIndex: 2, severity: 'MEDIUM', flags: [dropped] },
+        { chunkIndex: 10, severity: 'HIGH', flags: [truncated, dropped] },
+      ]);
+    });
+
+    it('should omit flaggedChunks when no chunk was flagged', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: marshall({
+          jobId: 'job-123',
+          userId: 'user-123',
+          status: 'COMPLETED',
+          translationStatus: 'COMPLETED',
+          totalChunks: 2,
+          translatedChunks: 2,
+          qualityFlags: {},
+        }),
+      });
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body)).not.toHaveProperty('flaggedChunks');
+    });
+
+    it('should include the review of a translation submitted for review', async () => {
+      const approval = { approvedBy: 'editor@example.com', approvedAt: '2026-03-02T09:00:00.000Z' };
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: marshall({
+          jobId: 'job-123',
+          userId: 'user-123',
+          status: 'IN_REVIEW',
+          translationStatus: 'COMPLETED',
+          totalChunks: 12,
+          translatedChunks: 12,
+          reviewerEmail: 'reviewer@example.com',
+          reviewSubmittedAt: '2026-03-02T08:00:00.000Z',
+          chunkReviews: { '10': approval, '2': approval },
+        }),
+      });
+
+      const result = await handler(createEvent('job-123') as APIGatewayProxyEvent);
+
+      expect(JSON.parse(result.body)).toMatchObject({
+        status: 'IN_REVIEW',
+        review: {
+          reviewerEmail: 'reviewer@example.com',
+          submittedAt: '2026-03-02T08:00:00.000Z',
+          approvedChunks: [2, 10],
+          totalChunks: 12,
+        },
+      });
+      expect(JSON.parse(result.body)).not.toHaveProperty('reviewerAccess');
+    });
+
+    it('should return the job to its assigned reviewer with reviewerAccess', async () => {
+      dynamoMock.on(GetItemCommand).resolves({});
+      dynamoMock.on(QueryCommand).resolves({
+        Items: [
+          marshall({
+            jobId: 'job-123',
+            userId: 'user-123',
+            status: 'IN_REVIEW',
+            translationStatus: 'COMPLETED',
+            totalChunks: 2,
+            translatedChunks: 2,
+            reviewerEmail: 'reviewer@example.com',
+            reviewSubmittedAt: '2026-03-02T08:00:00.000Z',
+            chunkReviews: {},
+          }),
+        ],
+      });
+      const event = createEvent('job-123');
+      event.requestContext!.authorizer!.claims = {
+        sub: 'user-456',
+        email: 'Reviewer@Example.com',
+        email_verified: 'true',
+      };
+
+      const result = await handler(event as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        status: 'IN_REVIEW',
+        reviewerAccess: true,
+        review: { reviewerEmail: 'reviewer@example.com' },
+      });
+    });
+
     it('should return createdAt as a valid ISO-8601 timestamp from DynamoDB', async () => {
       // Regression coverage for TranslationStatusResponse.createdAt: the
       // performance benchmark anchors its start-of-window to this field, so
@@ -2,6 +2,9 @@
  * Get Translation Status Lambda Function
  * GET /jobs/{jobId}/translation-status
  * Returns detailed translation progress and status
+ *
+ * The job's assigned reviewer reads it too (see reviewTranslation.ts); the
+ * response then carries `reviewerAccess`.
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
@@ -11,6 +14,9 @@ import { DynamoDBJob, TranslationStatusApiResponse } from '@lfmt/shared-types';
 import Logger from '../shared/logger';
 import { getRequiredEnv } from '../shared/env';
 import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { highestSeverity } from '../translation/qualityCheck';
+import { reviewSummary, verifiedEmail } from '../shared/jobReview';
+import { loadJobForReviewer } from '../shared/jobRepository';
 // Note: getTranslationStatus does NOT use loadJobForUser from jobRepository.ts.
 // It retains ConsistentRead: true (inline below) because it is polled tightly
 // during an active translation — the UI updates on every poll response, so a
@@ -55,7 +61,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
 
   try {
     // Get authenticated user from Cognito claims
-    const userId = event.requestContext?.authorizer?.claims?.sub;
+    const claims = event.requestContext?.authorizer?.claims;
+    const userId = claims?.sub;
     if (!userId) {
       return createErrorResponse(401, 'Unauthorized', undefined, undefined, requestOrigin);
     }
@@ -66,8 +73,15 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return createErrorResponse(400, 'Missing jobId in path', undefined, undefined, requestOrigin);
     }
 
-    // Load job from DynamoDB (requires both jobId and userId as composite key)
-    const job = await loadJob(jobId, userId);
+    // Load job from DynamoDB (requires both jobId and userId as composite
+    // key), or else as the job's assigned reviewer
+    const ownJob = await loadJob(jobId, userId);
+    const reviewerEmail = verifiedEmail(claims);
+    const job =
+      ownJob ??
+      (reviewerEmail
+        ? await loadJobForReviewer(dynamoClient, JOBS_TABLE, jobId, reviewerEmail)
+        : null);
 
     // Verify job exists
     if (!job) {
@@ -136,6 +150,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       contentType: typeof job.contentType === 'string' ? job.contentType : undefined,
       status: job.status, // Overall job status (PENDING_UPLOAD, UPLOADED, CHUNKED, etc.)
       translationStatus: job.translationStatus || 'NOT_STARTED',
+      sourceLanguage: job.sourceLanguage,
+      sourceLanguageConfidence: job.sourceLanguageConfidence,
       targetLanguage: job.targetLanguage,
       tone: job.translationTone,
       totalChunks,
@@ -150,6 +166,57 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       translationCompletedAt: job.translationCompletedAt,
     };
 
+    // Translation memory reuse, once a prose chunk has been looked up
+    if (typeof job.memorySegments === 'number') {
+      const reusedSegments = job.memoryReusedSegments ?? 0;
+      response.translationMemory = {
+        segments: job.memorySegments,
+        reusedSegments,
+        reuseRatio: job.memorySegments > 0 ? reusedSegments / job.memorySegments : 0,
+        savedTokens: job.memorySavedTokens ?? 0,
+      };
+    }
+
+    // Revision of the source document, once chunkDocument has aligned it
+    if (job.revisionAlignment) {
+      const { previousRevision, changedChunks, reusedFrom, targetLanguage } = job.revisionAlignment;
+      response.revision = {
+        revision: job.revision ?? previousRevision + 1,
+        previousRevision,
+        changedChunks,
+        unchangedChunks: reusedFrom.length - changedChunks,
+        targetLanguage,
+      };
+    }
+
+    // Chunks of the latest run that failed for good, which POST
+    // /jobs/{jobId}/recover retries
+    if (job.failedChunkIndexes && job.failedChunkIndexes.size > 0) {
+      response.failedChunks = job.failedChunkIndexes.size;
+    }
+
+    // Chunks the automatic quality check flagged (see qualityCheck.ts)
+    const flaggedChunks = Object.entries(job.qualityFlags ?? {})
+      .filter(([, flags]) => flags.length > 0)
+      .map(([chunkIndex, flags]) => ({
+        chunkIndex: Number(chunkIndex),
+        severity: highestSeverity(flags),
+        flags,
+      }))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    if (flaggedChunks.length > 0) {
+      response.flaggedChunks = flaggedChunks;
+    }
+
+    // Review of the completed translation, once submitted (see reviewTranslation.ts)
+    const review = reviewSummary(job);
+    if (review) {
+      response.review = review;
+    }
+    if (!ownJob) {
+      response.reviewerAccess = true;
+    }
+
     // Add estimated completion for in-progress translations
     if (job.translationStatus === 'IN_PROGRESS') {
       response.estimatedCompletion = calculateEstimatedCompletion(
@@ -0,0 +1,362 @@
+/**
+ * Unit tests for the comment endpoints:
+ * GET/POST /jobs/{jobId}/comments,
+ * POST /jobs/{jobId}/comments/{threadId}/replies,
+ * PUT /jobs/{jobId}/comments/{threadId}/resolve
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.COMMENTS_TABLE = 'test-comments-table';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { handler } from './jobComments';
+
+const dynamoMock = mockClient(DynamoDBClient);
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('jobComments endpoint', () => {
+  const completedJob = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    totalChunks: 2,
+  };
+
+  const thread = (overrides: Record<string, unknown> = {}) => ({
+    jobId: 'job-123',
+    threadId: 'thread-1',
+    chunkIndex: 0,
+    paragraphIndex: 3,
+    side: 'translation',
+    comments: [
+      {
+        commentId: 'comment-1',
+        author: 'editor@example.com',
+        body: 'Too literal',
+        createdAt: '2026-03-02T08:00:00.000Z',
+      },
+    ],
+    resolved: false,
+    createdAt: '2026-03-02T08:00:00.000Z',
+    updatedAt: '2026-03-02T08:00:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dynamoMock.reset();
+  });
+
+  function mockJob(job: Record<string, unknown> | null) {
+    dynamoMock.on(GetItemCommand).resolves(job ? { Item: marshall(job) } : {});
+  }
+
+  const request = (
+    httpMethod: string,
+    resource: string,
+    body: Record<string, unknown> = {},
+    threadId?: string,
+    claims: Record<string, string> = { sub: 'user-123', email: 'Editor@Example.com' }
+  ) =>
+    handler({
+      httpMethod,
+      resource,
+      path: resource,
+      pathParameters: { jobId: 'job-123', ...(threadId && { threadId }) },
+      headers: {},
+      body: JSON.stringify(body),
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer: { claims },
+      } as any,
+    } as unknown as APIGatewayProxyEvent);
+
+  const createThread = (body: Record<string, unknown>) =>
+    request('POST', '/jobs/{jobId}/comments', body);
+
+  describe('list', () => {
+    it('returns the threads of the job in document order', async () => {
+      mockJob(completedJob);
+      dynamoMock
+        .on(QueryCommand)
+        .resolvesOnce({
+          Items: [marshall(thread({ threadId: 'later', chunkIndex: 1, paragraphIndex: 0 }))],
+          LastEvaluatedKey: marshall({ jobId: 'job-123', threadId: 'later' }),
+        })
+        .resolvesOnce({
+          Items: [
+            marshall(thread({ threadId: 'translation', paragraphIndex: 0 })),
+            marshall(thread({ threadId: 'source', paragraphIndex: 2, side: 'source' })),
+          ],
+        });
+
+      const result = await request('GET', '/jobs/{jobId}/comments');
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.threads.map((t: { threadId: string }) => t.threadId)).toEqual([
+        'source',
+        'translation',
+        'later',
+      ]);
+      expect(dynamoMock.commandCalls(QueryCommand)[1].args[0].input.ExclusiveStartKey).toEqual(
+        marshall({ jobId: 'job-123', threadId: 'later' })
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('opens a thread on a paragraph in the name of the signed-in user', async () => {
+      mockJob(completedJob);
+      dynamoMock.on(PutItemCommand).resolves({});
+
+      const result = await createThread({
+        chunkIndex: 1,
+        paragraphIndex: 4,
+        side: 'source',
+        body: '  Is this a quote? ',
+      });
+
+      expect(result.statusCode).toBe(201);
+      const body = JSON.parse(result.body);
+      expect(body).toMatchObject({
+        jobId: 'job-123',
+        chunkIndex: 1,
+        paragraphIndex: 4,
+        side: 'source',
+        resolved: false,
+        comments: [{ author: 'editor@example.com', body: 'Is this a quote?' }],
+      });
+      const input = dynamoMock.commandCalls(PutItemCommand)[0].args[0].input;
+      expect(input.TableName).toBe('test-comments-table');
+      expect(input.ConditionExpression).toBe('attribute_not_exists(threadId)');
+      expect(unmarshall(input.Item!).threadId).toBe(body.threadId);
+    });
+
+    it('lets the reviewer the job is assigned to open a thread', async () => {
+      mockJob(null);
+      dynamoMock.on(QueryCommand, { IndexName: 'ReviewerJobsIndex' }).resolves({
+        Items: [
+          marshall({ ...completedJob, status: 'IN_REVIEW', reviewerEmail: 'reviewer@example.com' }),
+        ],
+      });
+      dynamoMock.on(PutItemCommand).resolves({});
+
+      const result = await request(
+        'POST',
+        '/jobs/{jobId}/comments',
+        { chunkIndex: 0, paragraphIndex: 1, side: 'translation', body: 'Check the tense' },
+        undefined,
+        { sub: 'user-456', email: 'Reviewer@Example.com', email_verified: 'true' }
+      );
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).comments[0].author).toBe('reviewer@example.com');
+    });
+
+    it('rejects an empty comment', async () => {
+      mockJob(completedJob);
+
+      const result = await createThread({
+        chunkIndex: 0,
+        paragraphIndex: 0,
+        side: 'translation',
+        body: '   ',
+      });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errors).toHaveProperty('body');
+      expect(dynamoMock.commandCalls(PutItemCommand)).toHaveLength(0);
+    });
+
+    it('rejects a chunk past the end of the job', async () => {
+      mockJob(completedJob);
+
+      const result = await createThread({
+        chunkIndex: 2,
+        paragraphIndex: 0,
+        side: 'translation',
+        body: 'Missing part?',
+      });
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(PutItemCommand)).toHaveLength(0);
+    });
+
+    it('refuses a translation that is still running', async () => {
+      mockJob({ ...completedJob, status: 'CHUNKED', translationStatus: 'IN_PROGRESS' });
+
+      const result = await createThread({
+        chunkIndex: 0,
+        paragraphIndex: 0,
+        side: 'translation',
+        body: 'Too early',
+      });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+  });
+
+  describe('reply', () => {
+    it('appends the reply to the thread', async () => {
+      mockJob(completedJob);
+      const replied = thread({
+        comments: [
+          ...thread().comments,
+          {
+            commentId: 'comment-2',
+            author: 'editor@example.com',
+            body: 'Agreed',
+            createdAt: '2026-03-02T09:00:00.000Z',
+          },
+        ],
+      });
+      dynamoMock.on(UpdateItemCommand).resolves({ Attributes: marshall(replied) });
+
+      const result = await request(
+        'POST',
+        '/jobs/{jobId}/comments/{threadId}/replies',
+        { body: 'Agreed' },
+        'thread-1'
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).comments).toHaveLength(2);
+      const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(unmarshall(input.Key!)).toEqual({ jobId: 'job-123', threadId: 'thread-1' });
+      expect(input.UpdateExpression).toContain('list_append(comments, :reply)');
+      expect(unmarshall(input.ExpressionAttributeValues!)).toMatchObject({
+        ':reply': [{ author: 'editor@example.com', body: 'Agreed' }],
+        ':maxComments': 100,
+      });
+    });
+
+    it('returns 409 when the thread is missing or full', async () => {
+      mockJob(completedJob);
+      dynamoMock.on(UpdateItemCommand).rejects(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+        })
+      );
+
+      const result = await request(
+        'POST',
+        '/jobs/{jobId}/comments/{threadId}/replies',
+        { body: 'Agreed' },
+        'thread-1'
+      );
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).errorCode).toBe('THREAD_UNAVAILABLE');
+    });
+  });
+
+  describe('resolve', () => {
+    it('resolves a thread in the name of the signed-in user', async () => {
+      mockJob(completedJob);
+      dynamoMock.on(UpdateItemCommand).resolves({
+        Attributes: marshall(
+          thread({
+            resolved: true,
+            resolvedBy: 'editor@example.com',
+            resolvedAt: '2026-03-02T10:00:00.000Z',
+          })
+        ),
+      });
+
+      const result = await request(
+        'PUT',
+        '/jobs/{jobId}/comments/{threadId}/resolve',
+        { resolved: true },
+        'thread-1'
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        resolved: true,
+        resolvedBy: 'editor@example.com',
+      });
+      const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(unmarshall(input.ExpressionAttributeValues!)[':author']).toBe('editor@example.com');
+    });
+
+    it('reopens a thread', async () => {
+      mockJob(completedJob);
+      dynamoMock.on(UpdateItemCommand).resolves({ Attributes: marshall(thread()) });
+
+      const result = await request(
+        'PUT',
+        '/jobs/{jobId}/comments/{threadId}/resolve',
+        { resolved: false },
+        'thread-1'
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input.UpdateExpression).toBe(
+        'SET resolved = :resolved, updatedAt = :now REMOVE resolvedAt, resolvedBy'
+      );
+    });
+
+    it('returns 404 for an unknown thread', async () => {
+      mockJob(completedJob);
+      dynamoMock.on(UpdateItemCommand).rejects(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+        })
+      );
+
+      const result = await request(
+        'PUT',
+        '/jobs/{jobId}/comments/{threadId}/resolve',
+        { resolved: true },
+        'thread-9'
+      );
+
+      expect(result.statusCode).toBe(404);
+    });
+
+    it('rejects a body without a boolean', async () => {
+      mockJob(completedJob);
+
+      const result = await request(
+        'PUT',
+        '/jobs/{jobId}/comments/{threadId}/resolve',
+        { resolved: 'yes' },
+        'thread-1'
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+  });
+
+  it('returns 404 for a job the user does not own', async () => {
+    mockJob(null);
+
+    const result = await request('GET', '/jobs/{jobId}/comments');
+
+    expect(result.statusCode).toBe(404);
+    expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Job Comments Lambda Function
+ *   GET  /jobs/{jobId}/comments                      — list the job's threads
+ *   POST /jobs/{jobId}/comments                      — open a thread on a paragraph
+ *   POST /jobs/{jobId}/comments/{threadId}/replies   — reply to a thread
+ *   PUT  /jobs/{jobId}/comments/{threadId}/resolve   — resolve or reopen a thread
+ *
+ * Review comments on the paragraphs of a translation, one thread per
+ * DynamoDB item in the Comments table (see shared-types comments.ts for
+ * how a thread is anchored). Threads can be opened once the translation
+ * is complete, and on a translation that is already approved, where they
+ * still serve as notes for the next edition.
+ *
+ * The owner and the job's assigned reviewer (see reviewTranslation.ts)
+ * both comment, so each comment records the email of the signed-in user
+ * who wrote it. Access is checked on the job; the Comments table itself
+ * carries no userId.
+ *
+ * Replies are appended with `list_append`, conditioned on the thread
+ * existing and having room left (MAX_THREAD_COMMENTS), so concurrent
+ * replies never overwrite each other.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  PutItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  CommentThread,
+  CommentThreadApiResponse,
+  DynamoDBJob,
+  JobComment,
+  ListCommentThreadsApiResponse,
+  MAX_THREAD_COMMENTS,
+  createCommentThreadRequestSchema,
+  isTranslatedStatus,
+  replyToCommentThreadRequestSchema,
+  resolveCommentThreadRequestSchema,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUserOrReviewer } from '../shared/jobRepository';
+import { verifiedEmail } from '../shared/jobReview';
+import { listCommentThreads } from '../shared/commentRepository';
+
+const logger = new Logger('lfmt-job-comments');
+const dynamoClient = new DynamoDBClient({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const COMMENTS_TABLE = getRequiredEnv('COMMENTS_TABLE');
+
+/** A request that cannot be served, as the error response to return. */
+class CommentRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string,
+    public readonly errors?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'CommentRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+  const action = event.pathParameters?.threadId ? event.resource?.split('/').pop() : undefined;
+
+  logger.info('Job comments request', {
+    requestId,
+    path: event.path,
+    method: event.httpMethod,
+    action,
+  });
+
+  try {
+    const claims = event.requestContext?.authorizer?.claims;
+    const userId = claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+    const author = typeof claims.email === 'string' ? claims.email.toLowerCase() : userId;
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(
+        400,
+        'Invalid JSON in request body',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const job = await loadJobForUserOrReviewer(
+      dynamoClient,
+      JOBS_TABLE,
+      jobId,
+      userId,
+      verifiedEmail(claims)
+    );
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    const threadId = event.pathParameters?.threadId;
+    const route = `${event.httpMethod} ${action ?? 'comments'}`;
+    switch (route) {
+      case 'GET comments': {
+        const threads = await listCommentThreads(dynamoClient, COMMENTS_TABLE, jobId);
+        logger.info('Comment threads listed', { requestId, jobId, count: threads.length });
+        const responseBody: ListCommentThreadsApiResponse = { jobId, threads };
+        return createFlatResponse(200, responseBody, requestId, requestOrigin);
+      }
+      case 'POST comments': {
+        const thread = await createThread(job, body, author);
+        logger.info('Comment thread created', {
+          requestId,
+          jobId,
+          threadId: thread.threadId,
+          chunkIndex: thread.chunkIndex,
+          paragraphIndex: thread.paragraphIndex,
+          side: thread.side,
+        });
+        return createFlatResponse(201, toApiResponse(thread), requestId, requestOrigin);
+      }
+      case 'POST replies': {
+        const thread = await replyToThread(job, threadId!, body, author);
+        logger.info('Comment thread replied to', {
+          requestId,
+          jobId,
+          threadId,
+          comments: thread.comments.length,
+        });
+        return createFlatResponse(200, toApiResponse(thread), requestId, requestOrigin);
+      }
+      case 'PUT resolve': {
+        const thread = await resolveThread(job, threadId!, body, author);
+        logger.info('Comment thread resolution changed', {
+          requestId,
+          jobId,
+          threadId,
+          resolved: thread.resolved,
+        });
+        return createFlatResponse(200, toApiResponse(thread), requestId, requestOrigin);
+      }
+      default:
+        return createErrorResponse(
+          405,
+          `Method ${event.httpMethod} not allowed`,
+          requestId,
+          undefined,
+          requestOrigin
+        );
+    }
+  } catch (error) {
+    if (error instanceof CommentRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        error.errors,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Job comments request failed', {
+      requestId,
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to process the comment request. Please try again later.',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+/**
+ * Open a thread on a paragraph of a completed translation. The paragraph
+ * index is not checked against the chunk's text: it is the viewer's
+ * position, and the chunk's paragraphs can change under it with an edit.
+ */
+async function createThread(
+  job: DynamoDBJob,
+  body: unknown,
+  author: string
+): Promise<CommentThread> {
+  const validation = createCommentThreadRequestSchema.safeParse(body);
+  if (!validation.success) {
+    throw new CommentRequestError(
+      400,
+      'Comment validation failed',
+      'INVALID_REQUEST',
+      validation.error.flatten().fieldErrors
+    );
+  }
+  const { chunkIndex, paragraphIndex, side, body: text } = validation.data;
+
+  if (!isTranslatedStatus(job.status) || job.translationStatus !== 'COMPLETED') {
+    throw new CommentRequestError(
+      400,
+      `Only a completed translation can be commented on. Current status: ${job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+  if (chunkIndex >= (job.totalChunks ?? 0)) {
+    throw new CommentRequestError(400, `Invalid chunk index: ${chunkIndex}`, 'INVALID_REQUEST');
+  }
+
+  const now = new Date().toISOString();
+  const thread: CommentThread = {
+    jobId: job.jobId,
+    threadId: randomUUID(),
+    chunkIndex,
+    paragraphIndex,
+    side,
+    comments: [newComment(author, text, now)],
+    resolved: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await dynamoClient.send(
+    new PutItemCommand({
+      TableName: COMMENTS_TABLE,
+      Item: marshall(thread, { removeUndefinedValues: true }),
+      ConditionExpression: 'attribute_not_exists(threadId)',
+    })
+  );
+
+  return thread;
+}
+
+/** Append a reply to a thread that has room for it. */
+async function replyToThread(
+  job: DynamoDBJob,
+  threadId: string,
+  body: unknown,
+  author: string
+): Promise<CommentThread> {
+  const validation = replyToCommentThreadRequestSchema.safeParse(body);
+  if (!validation.success) {
+    throw new CommentRequestError(
+      400,
+      'Comment validation failed',
+      'INVALID_REQUEST',
+      validation.error.flatten().fieldErrors
+    );
+  }
+
+  const now = new Date().toISOString();
+  try {
+    return await updateThread(job.jobId, threadId, {
+      UpdateExpression: 'SET comments = list_append(comments, :reply), updatedAt = :now',
+      ConditionExpression: 'attribute_exists(threadId) AND size(comments) < :maxComments',
+      ExpressionAttributeValues: marshall({
+        ':reply': [newComment(author, validation.data.body, now)],
+        ':now': now,
+        ':maxComments': MAX_THREAD_COMMENTS,
+      }),
+    });
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      throw new CommentRequestError(
+        409,
+        `Thread ${threadId} does not exist or already has ${MAX_THREAD_COMMENTS} comments`,
+        'THREAD_UNAVAILABLE'
+      );
+    }
+    throw error;
+  }
+}
+
+/** Mark a thread resolved in the name of the signed-in user, or reopen it. */
+async function resolveThread(
+  job: DynamoDBJob,
+  threadId: string,
+  body: unknown,
+  author: string
+): Promise<CommentThread> {
+  const validation = resolveCommentThreadRequestSchema.safeParse(body);
+  if (!validation.success) {
+    throw new CommentRequestError(
+      400,
+      'Comment validation failed',
+      'INVALID_REQUEST',
+      validation.error.flatten().fieldErrors
+    );
+  }
+
+  const now = new Date().toISOString();
+  try {
+    return await updateThread(
+      job.jobId,
+      threadId,
+      validation.data.resolved
+        ? {
+            UpdateExpression:
+              'SET resolved = :resolved, resolvedAt = :now, resolvedBy = :author, updatedAt = :now',
+            ConditionExpression: 'attribute_exists(threadId)',
+            ExpressionAttributeValues: marshall({
+              ':resolved': true,
+              ':now': now,
+              ':author': author,
+            }),
+          }
+        : {
+            UpdateExpression:
+              'SET resolved = :resolved, updatedAt = :now REMOVE resolvedAt, resolvedBy',
+            ConditionExpression: 'attribute_exists(threadId)',
+            ExpressionAttributeValues: marshall({ ':resolved': false, ':now': now }),
+          }
+    );
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      throw new CommentRequestError(404, `Thread not found: ${threadId}`, 'THREAD_NOT_FOUND');
+    }
+    throw error;
+  }
+}
+
+/** Apply an update to a thread of the job and return the thread after it. */
+async function updateThread(
+  jobId: string,
+  threadId: string,
+  update: Pick<
+    ConstructorParameters<typeof UpdateItemCommand>[0],
+    'UpdateExpression' | 'ConditionExpression' | 'ExpressionAttributeValues'
+  >
+): Promise<CommentThread> {
+  const result = await dynamoClient.send(
+    new UpdateItemCommand({
+      TableName: COMMENTS_TABLE,
+      Key: marshall({ jobId, threadId }),
+      ...update,
+      ReturnValues: 'ALL_NEW',
+    })
+  );
+  return unmarshall(result.Attributes!) as CommentThread;
+}
+
+function toApiResponse(thread: CommentThread): CommentThreadApiResponse {
+  return { ...thread };
+}
+
+function newComment(author: string, body: string, createdAt: string): JobComment {
+  return { commentId: randomUUID(), author, body, createdAt };
+}
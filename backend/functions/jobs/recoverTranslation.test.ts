@@ -0,0 +1,352 @@
+/**
+ * Unit tests for Recover Translation endpoint
+ * POST /jobs/{jobId}/recover
+ * POST /jobs/{jobId}/chunks/{chunkIndex}/retranslate
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.CHUNKS_BUCKET = 'test-chunks-bucket';
+process.env.STATE_MACHINE_NAME = 'test-state-machine';
+process.env.AWS_REGION = 'us-east-1';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { S3Client, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { SFNClient, StartExecutionCommand } from '@aws-sdk/client-sfn';
+import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { handler } from './recoverTranslation';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+const sfnMock = mockClient(SFNClient);
+const stsMock = mockClient(STSClient);
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('recoverTranslation endpoint', () => {
+  const STARTED_AT = '2026-03-01T10:00:00.500Z';
+
+  const failedJob = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'TRANSLATION_FAILED',
+    translationStatus: 'TRANSLATION_FAILED',
+    targetLanguage: 'es',
+    translationTone: 'formal',
+    translationContextChunks: 3,
+    translationContextMode: 'sequential',
+    translationBriefMode: 'initial',
+    glossaryId: 'gloss-1',
+    totalChunks: 4,
+    translatedChunks: 2,
+    translationStartedAt: STARTED_AT,
+    failedChunkIndexes: new Set([1]),
+  };
+
+  const completedJob = {
+    ...failedJob,
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    translatedChunks: 4,
+    failedChunkIndexes: undefined,
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    sfnMock.reset();
+    stsMock.reset();
+    stsMock.on(GetCallerIdentityCommand).resolves({ Account: '123456789012' });
+    dynamoMock.on(UpdateItemCommand).resolves({});
+    sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
+  });
+
+  function mockJob(job: Record<string, unknown> | null) {
+    dynamoMock
+      .on(GetItemCommand)
+      .resolves(job ? { Item: marshall(job, { removeUndefinedValues: true }) } : {});
+  }
+
+  /** Translated objects by chunk index, written at the given time. */
+  function mockTranslatedChunks(chunks: Record<number, string>) {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: Object.entries(chunks).map(([index, lastModified]) => ({
+        Key: `translated/job-123/chunk-${index}.txt`,
+        LastModified: new Date(lastModified),
+      })),
+    });
+  }
+
+  const createEvent = (
+    path: string,
+    body: Record<string, unknown>,
+    chunkIndex?: string
+  ): Partial<APIGatewayProxyEvent> => ({
+    httpMethod: 'POST',
+    path,
+    pathParameters: { jobId: 'job-123', ...(chunkIndex !== undefined && { chunkIndex }) },
+    headers: {},
+    body: JSON.stringify(body),
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: { claims: { sub: 'user-123' } },
+    } as any,
+  });
+
+  const recover = (body: Record<string, unknown>) =>
+    handler(createEvent('/jobs/job-123/recover', body) as APIGatewayProxyEvent);
+
+  const retranslate = (chunkIndex: string, body: Record<string, unknown> = {}) =>
+    handler(
+      createEvent(
+        `/jobs/job-123/chunks/${chunkIndex}/retranslate`,
+        body,
+        chunkIndex
+      ) as APIGatewayProxyEvent
+    );
+
+  function executionInput(): Record<string, any> {
+    return JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+  }
+
+  function updatedValues(): Record<string, any> {
+    const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    return unmarshall(input.ExpressionAttributeValues ?? {});
+  }
+
+  describe('POST /jobs/{jobId}/recover', () => {
+    it('retries the failed chunks and those the run never translated', async () => {
+      mockJob(failedJob);
+      // Written in the same second the run started: S3 drops the milliseconds.
+      mockTranslatedChunks({
+        0: '2026-03-01T10:00:00.000Z',
+        2: '2026-03-01T10:03:00.000Z',
+        3: '2026-02-01T09:00:00.000Z',
+      });
+
+      const result = await recover({ recoveryStrategy: 'RETRY' });
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: 'job-123',
+        recoveryStrategy: 'RETRY',
+        translationStatus: 'IN_PROGRESS',
+        totalChunks: 4,
+        translatedChunks: 2,
+        chunkIndexes: [1, 3],
+        executionArn: 'arn:exec',
+      });
+      expect(s3Mock.commandCalls(ListObjectsV2Command)[0].args[0].input).toMatchObject({
+        Bucket: 'test-chunks-bucket',
+        Prefix: 'translated/job-123/',
+      });
+      expect(updatedValues()).toMatchObject({
+        ':status': 'IN_PROGRESS',
+        ':outerStatus': 'CHUNKED',
+        ':translated': 2,
+        ':expectedStatus': 'TRANSLATION_FAILED',
+      });
+      expect(executionInput()).toMatchObject({
+        jobId: 'job-123',
+        targetLanguage: 'es',
+        tone: 'formal',
+        contextChunks: 3,
+        contextMode: 'sequential',
+        maxConcurrency: 1,
+        glossaryId: 'gloss-1',
+        briefMode: 'off',
+        totalChunks: 4,
+        retranslation: null,
+        chunks: [{ chunkIndex: 1 }, { chunkIndex: 3 }],
+      });
+      const recorded = dynamoMock.commandCalls(UpdateItemCommand)[1].args[0].input;
+      expect(unmarshall(recorded.ExpressionAttributeValues!)).toEqual({
+        ':executionArn': 'arn:exec',
+      });
+    });
+
+    it('adds the instruction override to the retried chunks', async () => {
+      mockJob(failedJob);
+      mockTranslatedChunks({});
+
+      await recover({
+        recoveryStrategy: 'RETRY',
+        parameters: { instructions: '  Keep every cue on one line.  ' },
+      });
+
+      expect(executionInput().retranslation).toEqual({
+        instructions: 'Keep every cue on one line.',
+      });
+      expect(executionInput().chunks).toHaveLength(4);
+    });
+
+    it('rejects recovery strategies other than RETRY', async () => {
+      mockJob(failedJob);
+
+      const result = await recover({ recoveryStrategy: 'SKIP' });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('rejects a job whose translation did not fail', async () => {
+      mockJob(completedJob);
+
+      const result = await recover({ recoveryStrategy: 'RETRY' });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('reports when no chunk is missing', async () => {
+      mockJob({ ...failedJob, failedChunkIndexes: undefined });
+      mockTranslatedChunks({
+        0: '2026-03-01T10:01:00.000Z',
+        1: '2026-03-01T10:01:00.000Z',
+        2: '2026-03-01T10:01:00.000Z',
+        3: '2026-03-01T10:01:00.000Z',
+      });
+
+      const result = await recover({ recoveryStrategy: 'RETRY' });
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('NO_FAILED_CHUNKS');
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('returns 409 when a recovery is already under way', async () => {
+      mockJob(failedJob);
+      mockTranslatedChunks({});
+      dynamoMock
+        .on(UpdateItemCommand)
+        .rejects(new ConditionalCheckFailedException({ message: 'changed', $metadata: {} }));
+
+      const result = await recover({ recoveryStrategy: 'RETRY' });
+
+      expect(result.statusCode).toBe(409);
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('returns 404 for a job the user does not own', async () => {
+      mockJob(null);
+
+      const result = await recover({ recoveryStrategy: 'RETRY' });
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).errorCode).toBe('JOB_NOT_FOUND');
+    });
+  });
+
+  describe('POST /jobs/{jobId}/chunks/{chunkIndex}/retranslate', () => {
+    it('translates one chunk of a completed job again', async () => {
+      mockJob(completedJob);
+
+      const result = await retranslate('2', { instructions: 'Use "usted" throughout.' });
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: 'job-123',
+        chunkIndex: 2,
+        translationStatus: 'IN_PROGRESS',
+      });
+      expect(updatedValues()).toMatchObject({
+        ':translated': 3,
+        ':expectedStatus': 'COMPLETED',
+      });
+      expect(executionInput()).toMatchObject({
+        chunks: [{ chunkIndex: 2 }],
+        totalChunks: 4,
+        retranslation: { instructions: 'Use "usted" throughout.' },
+      });
+      expect(s3Mock.commandCalls(ListObjectsV2Command)).toHaveLength(0);
+    });
+
+    it('retranslates without an instruction override', async () => {
+      mockJob(completedJob);
+
+      await retranslate('0');
+
+      expect(executionInput().retranslation).toEqual({ instructions: null });
+    });
+
+    it.each(['4', '-1', '1.5', 'abc'])('rejects chunk index %s', async (chunkIndex) => {
+      mockJob(completedJob);
+
+      const result = await retranslate(chunkIndex);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+    });
+
+    it('rejects instructions over the length limit', async () => {
+      mockJob(completedJob);
+
+      const result = await retranslate('0', { instructions: 'x'.repeat(2001) });
+
+      expect(result.statusCode).toBe(400);
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('retranslates a chunk of an approved translation and removes its review', async () => {
+      mockJob({
+        ...completedJob,
+        status: 'APPROVED',
+        reviewerEmail: 'reviewer@example.com',
+        reviewSubmittedAt: '2026-03-01T08:00:00.000Z',
+        approvedAt: '2026-03-02T08:00:00.000Z',
+        approvedBy: 'reviewer@example.com',
+      });
+
+      const result = await retranslate('1');
+
+      expect(result.statusCode).toBe(200);
+      const input = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(input.UpdateExpression).toContain(
+        'reviewerEmail, reviewSubmittedAt, chunkReviews, reviewComment, approvedAt, approvedBy'
+      );
+      expect(updatedValues()).toMatchObject({ ':outerStatus': 'CHUNKED' });
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(1);
+    });
+
+    it('returns 409 while the translation is in review', async () => {
+      mockJob({
+        ...completedJob,
+        status: 'IN_REVIEW',
+        reviewerEmail: 'reviewer@example.com',
+        reviewSubmittedAt: '2026-03-01T08:00:00.000Z',
+      });
+
+      const result = await retranslate('1');
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('rejects a chunk of a failed translation', async () => {
+      mockJob(failedJob);
+
+      const result = await retranslate('0');
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+  });
+});
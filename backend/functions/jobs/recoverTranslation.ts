@@ -0,0 +1,343 @@
+/**
+ * Recover Translation Lambda Function
+ * POST /jobs/{jobId}/recover
+ * POST /jobs/{jobId}/chunks/{chunkIndex}/retranslate
+ *
+ * Runs the translation workflow again over part of a job instead of
+ * starting it over:
+ *
+ *   - `recover` with the RETRY strategy takes a TRANSLATION_FAILED job and
+ *     translates only the chunks the failed run left without a translation:
+ *     those translateChunk recorded as failed, plus any an aborted
+ *     execution never reached (no translated object written since the run
+ *     started).
+ *   - `retranslate` translates one chunk of a completed job again, from
+ *     scratch, optionally with an instruction added to its prompt. A job
+ *     in review is refused with 409; one approved, or sent back, loses its
+ *     review (see shared/jobReview.ts).
+ *
+ * Both start an execution of the same state machine over just those
+ * chunks (see shared/translationExecution.ts). The other chunks keep their
+ * stored translations, and the execution's completion step marks the job
+ * COMPLETED — or TRANSLATION_FAILED again — as for a full run.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { S3Client } from '@aws-sdk/client-s3';
+import { SFNClient } from '@aws-sdk/client-sfn';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  DynamoDBJob,
+  isTranslatedStatus,
+  MAX_RETRANSLATION_INSTRUCTIONS_LENGTH,
+  RecoverTranslationApiResponse,
+  RecoverTranslationRequest,
+  RetranslateChunkApiResponse,
+  RetranslateChunkRequest,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUser, recordExecutionArn } from '../shared/jobRepository';
+import { REVIEW_ATTRIBUTES } from '../shared/jobReview';
+import { rerunParams, startTranslationExecution } from '../shared/translationExecution';
+import { findUntranslatedChunks } from '../shared/translatedChunks';
+
+const logger = new Logger('lfmt-recover-translation');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+const sfnClient = new SFNClient({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+
+/** A request that cannot be served, as the error response to return. */
+class RecoveryRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string
+  ) {
+    super(message);
+    this.name = 'RecoveryRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Recover translation request', { requestId, path: event.path });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(
+        400,
+        'Invalid JSON in request body',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    const chunkIndex = event.pathParameters?.chunkIndex;
+    const responseBody =
+      chunkIndex === undefined
+        ? await retryFailedChunks(job, body as Partial<RecoverTranslationRequest>)
+        : await retranslateChunk(job, chunkIndex, body as RetranslateChunkRequest);
+
+    return createFlatResponse(200, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    if (error instanceof RecoveryRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        undefined,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Failed to recover translation', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to recover translation. Please try again later.',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+/**
+ * RETRY: translate the chunks a failed run left without a translation.
+ */
+async function retryFailedChunks(
+  job: DynamoDBJob,
+  body: Partial<RecoverTranslationRequest>
+): Promise<RecoverTranslationApiResponse> {
+  if (body.recoveryStrategy !== 'RETRY') {
+    throw new RecoveryRequestError(
+      400,
+      `Unsupported recovery strategy: ${String(body.recoveryStrategy)}. Only RETRY is supported.`,
+      'INVALID_REQUEST'
+    );
+  }
+  const instructions = parseInstructions(body.parameters?.instructions);
+
+  if (job.translationStatus !== 'TRANSLATION_FAILED' || !job.totalChunks) {
+    throw new RecoveryRequestError(
+      400,
+      `Only a failed translation can be retried. Current status: ${job.translationStatus ?? job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  const chunkIndexes = await findUntranslatedChunks(s3Client, CHUNKS_BUCKET, job);
+  if (chunkIndexes.length === 0) {
+    throw new RecoveryRequestError(
+      400,
+      'Every chunk of this job has a translation; retranslate a chunk instead',
+      'NO_FAILED_CHUNKS'
+    );
+  }
+
+  const translatedChunks = job.totalChunks - chunkIndexes.length;
+  await beginRecovery(job, 'TRANSLATION_FAILED', translatedChunks);
+
+  const executionArn = await startTranslationExecution(sfnClient, job.jobId, job.userId, {
+    ...rerunParams(job),
+    chunkIndexes,
+    retranslation: instructions ? { instructions } : null,
+  });
+  await recordExecutionArn(dynamoClient, JOBS_TABLE, job.jobId, job.userId, executionArn);
+
+  logger.info('Retrying failed chunks', {
+    jobId: job.jobId,
+    chunkIndexes,
+    executionArn,
+  });
+
+  return {
+    message: 'Retrying the failed chunks',
+    jobId: job.jobId,
+    recoveryStrategy: 'RETRY',
+    translationStatus: 'IN_PROGRESS',
+    totalChunks: job.totalChunks,
+    translatedChunks,
+    chunkIndexes,
+    executionArn,
+  };
+}
+
+/**
+ * Translate one chunk of a completed job again.
+ */
+async function retranslateChunk(
+  job: DynamoDBJob,
+  chunkIndexParam: string,
+  body: RetranslateChunkRequest
+): Promise<RetranslateChunkApiResponse> {
+  const chunkIndex = Number(chunkIndexParam);
+  if (!/^\d+$/.test(chunkIndexParam) || chunkIndex >= (job.totalChunks ?? 0)) {
+    throw new RecoveryRequestError(
+      400,
+      `Invalid chunk index: ${chunkIndexParam}`,
+      'INVALID_REQUEST'
+    );
+  }
+  const instructions = parseInstructions(body.instructions);
+
+  // A failed job first needs its missing chunks; retranslating one chunk
+  // of it could not end in a complete translation.
+  if (!isTranslatedStatus(job.status) || job.translationStatus !== 'COMPLETED') {
+    throw new RecoveryRequestError(
+      400,
+      `Only a chunk of a completed translation can be retranslated. Current status: ${job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  if (job.status === 'IN_REVIEW') {
+    throw new RecoveryRequestError(
+      409,
+      'A chunk cannot be retranslated while the translation is in review.',
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  await beginRecovery(job, 'COMPLETED', job.totalChunks! - 1);
+
+  const executionArn = await startTranslationExecution(sfnClient, job.jobId, job.userId, {
+    ...rerunParams(job),
+    chunkIndexes: [chunkIndex],
+    retranslation: { instructions },
+  });
+  await recordExecutionArn(dynamoClient, JOBS_TABLE, job.jobId, job.userId, executionArn);
+
+  logger.info('Retranslating chunk', {
+    jobId: job.jobId,
+    chunkIndex,
+    hasInstructions: instructions !== null,
+    executionArn,
+  });
+
+  return {
+    message: 'Retranslating the chunk',
+    jobId: job.jobId,
+    chunkIndex,
+    translationStatus: 'IN_PROGRESS',
+    executionArn,
+  };
+}
+
+/**
+ * The optional instruction override: trimmed, null when empty.
+ */
+function parseInstructions(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string' || value.length > MAX_RETRANSLATION_INSTRUCTIONS_LENGTH) {
+    throw new RecoveryRequestError(
+      400,
+      `instructions must be a string of at most ${MAX_RETRANSLATION_INSTRUCTIONS_LENGTH} characters`,
+      'INVALID_REQUEST'
+    );
+  }
+  return value.trim() || null;
+}
+
+/**
+ * Move the job back to an in-progress translation before the execution
+ * starts, as startTranslation does. `translatedChunks` counts the chunks
+ * that keep their translation; each chunk of the new execution ADDs one.
+ * The review, if any, is removed: it covered the translation being redone.
+ *
+ * The condition on the translation status makes a double submit, or a
+ * recovery racing another one, fail with 409 instead of starting a second
+ * execution over the same chunks. It also refuses a job submitted for
+ * review in the meantime.
+ */
+async function beginRecovery(
+  job: DynamoDBJob,
+  expectedTranslationStatus: 'TRANSLATION_FAILED' | 'COMPLETED',
+  translatedChunks: number
+): Promise<void> {
+  try {
+    await dynamoClient.send(
+      new UpdateItemCommand({
+        TableName: JOBS_TABLE,
+        Key: marshall({ jobId: job.jobId, userId: job.userId }),
+        UpdateExpression: `SET translationStatus = :status, #status = :outerStatus, translatedChunks = :translated, updatedAt = :updatedAt REMOVE translationError, translationFailedAt, ${REVIEW_ATTRIBUTES}`,
+        ConditionExpression: 'translationStatus = :expectedStatus AND #status <> :inReview',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: marshall({
+          ':status': 'IN_PROGRESS',
+          // The outer status of a translation in progress, as after
+          // chunking; the execution's completion step sets it again.
+          ':outerStatus': 'CHUNKED',
+          ':translated': translatedChunks,
+          ':expectedStatus': expectedTranslationStatus,
+          ':inReview': 'IN_REVIEW',
+          ':updatedAt': new Date().toISOString(),
+        }),
+      })
+    );
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      throw new RecoveryRequestError(
+        409,
+        'The job changed while the recovery was being started. Please try again.',
+        'INVALID_JOB_STATUS'
+      );
+    }
+    throw error;
+  }
+}
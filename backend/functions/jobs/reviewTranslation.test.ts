@@ -0,0 +1,423 @@
+/**
+ * Unit tests for the review endpoints:
+ * POST /jobs/{jobId}/review/submit, /review/request-changes and /review/approve,
+ * PUT /jobs/{jobId}/chunks/{chunkIndex}/review
+ * GET /reviews
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { handler } from './reviewTranslation';
+
+const dynamoMock = mockClient(DynamoDBClient);
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('reviewTranslation endpoint', () => {
+  const completedJob = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    totalChunks: 2,
+  };
+
+  const review = { approvedBy: 'reviewer@example.com', approvedAt: '2026-03-02T09:00:00.000Z' };
+
+  const OWNER = { sub: 'user-123', email: 'Owner@Example.com', email_verified: 'true' };
+  const REVIEWER = { sub: 'user-456', email: 'Reviewer@Example.com', email_verified: 'true' };
+
+  const inReviewJob = {
+    ...completedJob,
+    status: 'IN_REVIEW',
+    reviewerEmail: 'reviewer@example.com',
+    reviewSubmittedAt: '2026-03-02T08:00:00.000Z',
+    chunkReviews: { '0': review },
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+  });
+
+  /** The job as its owner loads it and, once it has a reviewer, as the reviewer does. */
+  function mockJob(job: Record<string, unknown> | null) {
+    dynamoMock.on(GetItemCommand).resolves({});
+    dynamoMock.on(QueryCommand).resolves({ Items: [] });
+    if (job) {
+      dynamoMock
+        .on(GetItemCommand, { Key: marshall({ jobId: job.jobId, userId: job.userId }) })
+        .resolves({ Item: marshall(job) });
+    }
+    if (job?.reviewerEmail) {
+      dynamoMock
+        .on(QueryCommand, {
+          IndexName: 'ReviewerJobsIndex',
+          ExpressionAttributeValues: marshall({
+            ':reviewerEmail': job.reviewerEmail,
+            ':jobId': job.jobId,
+          }),
+        })
+        .resolves({ Items: [marshall(job)] });
+    }
+  }
+
+  /** The job as the update returns it. */
+  function mockUpdatedJob(job: Record<string, unknown>) {
+    dynamoMock.on(UpdateItemCommand).resolves({ Attributes: marshall(job) });
+  }
+
+  const request = (
+    resource: string,
+    body: Record<string, unknown> = {},
+    pathParameters: Record<string, string> = {},
+    claims: Record<string, string> = REVIEWER
+  ) =>
+    handler({
+      httpMethod: resource.includes('{chunkIndex}') ? 'PUT' : 'POST',
+      resource,
+      path: resource,
+      pathParameters: { jobId: 'job-123', ...pathParameters },
+      headers: {},
+      body: JSON.stringify(body),
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer: { claims },
+      } as any,
+    } as unknown as APIGatewayProxyEvent);
+
+  const submit = (reviewerEmail: string) =>
+    request('/jobs/{jobId}/review/submit', { reviewerEmail }, {}, OWNER);
+
+  const reviewChunk = (chunkIndex: string, approved: unknown) =>
+    request('/jobs/{jobId}/chunks/{chunkIndex}/review', { approved }, { chunkIndex });
+
+  const updateInput = () => dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+
+  describe('submit', () => {
+    it('assigns the reviewer and moves a completed translation into review', async () => {
+      mockJob(completedJob);
+      mockUpdatedJob({
+        ...completedJob,
+        status: 'IN_REVIEW',
+        reviewerEmail: 'reviewer@example.com',
+        reviewSubmittedAt: '2026-03-02T08:00:00.000Z',
+        chunkReviews: {},
+      });
+
+      const result = await request(
+        '/jobs/{jobId}/review/submit',
+        { reviewerEmail: ' Reviewer@Example.com ' },
+        {},
+        OWNER
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: 'job-123',
+        status: 'IN_REVIEW',
+        review: { reviewerEmail: 'reviewer@example.com', approvedChunks: [], totalChunks: 2 },
+      });
+      const input = updateInput();
+      expect(input.UpdateExpression).toContain('if_not_exists(chunkReviews, :noReviews)');
+      expect(unmarshall(input.ExpressionAttributeValues!)).toMatchObject({
+        ':status': 'IN_REVIEW',
+        ':reviewerEmail': 'reviewer@example.com',
+        ':expectedStatus': 'COMPLETED',
+      });
+    });
+
+    it('resubmits a translation with changes requested', async () => {
+      mockJob({ ...inReviewJob, status: 'CHANGES_REQUESTED' });
+      mockUpdatedJob(inReviewJob);
+
+      const result = await submit('reviewer@example.com');
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).review.approvedChunks).toEqual([0]);
+    });
+
+    it('rejects a reviewer that is not an email address', async () => {
+      mockJob(completedJob);
+
+      const result = await submit('reviewer');
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('refuses a translation that is still running', async () => {
+      mockJob({ ...completedJob, status: 'CHUNKED', translationStatus: 'IN_PROGRESS' });
+
+      const result = await submit('reviewer@example.com');
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+
+    it('refuses the owner as the reviewer of their own translation', async () => {
+      mockJob(completedJob);
+
+      const result = await submit('owner@example.com');
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('leaves resubmitting to the owner', async () => {
+      mockJob({ ...inReviewJob, status: 'CHANGES_REQUESTED' });
+
+      const result = await request('/jobs/{jobId}/review/submit', {
+        reviewerEmail: 'other@example.com',
+      });
+
+      expect(result.statusCode).toBe(404);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('chunk review', () => {
+    it('approves a chunk in the name of the assigned reviewer', async () => {
+      mockJob(inReviewJob);
+      mockUpdatedJob({ ...inReviewJob, chunkReviews: { '0': review, '1': review } });
+
+      const result = await reviewChunk('1', true);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).review.approvedChunks).toEqual([0, 1]);
+      const input = updateInput();
+      expect(input.UpdateExpression).toBe('SET chunkReviews.#chunk = :review, updatedAt = :now');
+      expect(input.ExpressionAttributeNames).toMatchObject({ '#chunk': '1' });
+      expect(unmarshall(input.ExpressionAttributeValues!)).toMatchObject({
+        ':review': { approvedBy: 'reviewer@example.com' },
+        ':expectedReviewer': 'reviewer@example.com',
+      });
+      expect(input.ConditionExpression).toBe(
+        '#status = :expectedStatus AND reviewerEmail = :expectedReviewer'
+      );
+    });
+
+    it('withdraws the approval of a chunk', async () => {
+      mockJob(inReviewJob);
+      mockUpdatedJob({ ...inReviewJob, chunkReviews: {} });
+
+      const result = await reviewChunk('0', false);
+
+      expect(JSON.parse(result.body).review.approvedChunks).toEqual([]);
+      expect(updateInput().UpdateExpression).toBe(
+        'SET updatedAt = :now REMOVE chunkReviews.#chunk'
+      );
+    });
+
+    it('rejects a chunk past the end of the job', async () => {
+      mockJob(inReviewJob);
+
+      const result = await reviewChunk('2', true);
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('rejects a body without a boolean approval', async () => {
+      mockJob(inReviewJob);
+
+      const result = await reviewChunk('1', 'yes');
+
+      expect(result.statusCode).toBe(400);
+    });
+
+    it('refuses to approve chunks of a job that is not in review', async () => {
+      mockJob({ ...inReviewJob, status: 'CHANGES_REQUESTED' });
+
+      const result = await reviewChunk('0', true);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+  });
+
+  describe('request changes', () => {
+    it('records the reviewer comment', async () => {
+      mockJob(inReviewJob);
+      mockUpdatedJob({
+        ...inReviewJob,
+        status: 'CHANGES_REQUESTED',
+        reviewComment: 'Part 2 drops a sentence',
+      });
+
+      const result = await request('/jobs/{jobId}/review/request-changes', {
+        comment: '  Part 2 drops a sentence ',
+      });
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        status: 'CHANGES_REQUESTED',
+        review: { comment: 'Part 2 drops a sentence' },
+      });
+      expect(unmarshall(updateInput().ExpressionAttributeValues!)[':comment']).toBe(
+        'Part 2 drops a sentence'
+      );
+    });
+  });
+
+  describe('approve', () => {
+    it('approves the translation once every chunk is approved', async () => {
+      const fullyReviewed = { ...inReviewJob, chunkReviews: { '0': review, '1': review } };
+      mockJob(fullyReviewed);
+      mockUpdatedJob({
+        ...fullyReviewed,
+        status: 'APPROVED',
+        approvedAt: '2026-03-03T10:00:00.000Z',
+        approvedBy: 'reviewer@example.com',
+      });
+
+      const result = await request('/jobs/{jobId}/review/approve');
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        status: 'APPROVED',
+        review: { approvedBy: 'reviewer@example.com', approvedChunks: [0, 1] },
+      });
+      expect(updateInput().ConditionExpression).toBe(
+        '#status = :expectedStatus AND reviewerEmail = :expectedReviewer AND size(chunkReviews) = :totalChunks'
+      );
+      expect(unmarshall(updateInput().ExpressionAttributeValues!)[':approvedBy']).toBe(
+        'reviewer@example.com'
+      );
+    });
+
+    it('refuses while a chunk is not approved', async () => {
+      mockJob(inReviewJob);
+
+      const result = await request('/jobs/{jobId}/review/approve');
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body)).toMatchObject({
+        errorCode: 'REVIEW_INCOMPLETE',
+        message: '1 of 2 parts are not approved yet',
+      });
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('returns 409 when the job changed concurrently', async () => {
+      mockJob({ ...inReviewJob, chunkReviews: { '0': review, '1': review } });
+      dynamoMock.on(UpdateItemCommand).rejects(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+        })
+      );
+
+      const result = await request('/jobs/{jobId}/review/approve');
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    });
+  });
+
+  describe('reviewer access', () => {
+    it('refuses the owner, who is not the reviewer', async () => {
+      mockJob({ ...inReviewJob, chunkReviews: { '0': review, '1': review } });
+
+      const result = await request('/jobs/{jobId}/review/approve', {}, {}, OWNER);
+
+      expect(result.statusCode).toBe(403);
+      expect(JSON.parse(result.body).errorCode).toBe('NOT_REVIEWER');
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+
+    it('does not look the job up by an unverified email', async () => {
+      mockJob(inReviewJob);
+
+      const result = await request(
+        '/jobs/{jobId}/review/request-changes',
+        {},
+        {},
+        { ...REVIEWER, email_verified: 'false' }
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+    });
+
+    it('returns 404 to a user who neither owns nor reviews the job', async () => {
+      mockJob(null);
+
+      const result = await request('/jobs/{jobId}/review/approve');
+
+      expect(result.statusCode).toBe(404);
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('assignments', () => {
+    const listReviews = (claims: Record<string, string> = REVIEWER) =>
+      handler({
+        httpMethod: 'GET',
+        resource: '/reviews',
+        path: '/reviews',
+        pathParameters: null,
+        headers: {},
+        body: null,
+        requestContext: { requestId: 'test-request-id', authorizer: { claims } } as any,
+      } as unknown as APIGatewayProxyEvent);
+
+    it('lists the jobs assigned to the caller, most recently submitted first', async () => {
+      dynamoMock.on(QueryCommand).resolves({
+        Items: [
+          marshall({ ...inReviewJob, filename: 'older.txt', targetLanguage: 'fr' }),
+          marshall({
+            ...inReviewJob,
+            jobId: 'job-789',
+            filename: 'newer.txt',
+            reviewSubmittedAt: '2026-03-05T08:00:00.000Z',
+          }),
+          marshall({ ...inReviewJob, jobId: 'job-deleted', deleteAt: 1790000000 }),
+        ],
+      });
+
+      const result = await listReviews();
+
+      expect(result.statusCode).toBe(200);
+      const { assignments } = JSON.parse(result.body);
+      expect(assignments.map((assignment: { jobId: string }) => assignment.jobId)).toEqual([
+        'job-789',
+        'job-123',
+      ]);
+      expect(assignments[1]).toMatchObject({
+        fileName: 'older.txt',
+        targetLanguage: 'fr',
+        status: 'IN_REVIEW',
+        review: { reviewerEmail: 'reviewer@example.com', approvedChunks: [0] },
+      });
+      expect(dynamoMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+        IndexName: 'ReviewerJobsIndex',
+        ExpressionAttributeValues: marshall({ ':reviewerEmail': 'reviewer@example.com' }),
+      });
+    });
+
+    it('returns no assignments without a verified email', async () => {
+      const result = await listReviews({ sub: 'user-456' });
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).assignments).toEqual([]);
+      expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+    });
+  });
+});
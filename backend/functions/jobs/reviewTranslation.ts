@@ -0,0 +1,482 @@
+/**
+ * Review Translation Lambda Function
+ * POST /jobs/{jobId}/review/submit
+ * POST /jobs/{jobId}/review/request-changes
+ * POST /jobs/{jobId}/review/approve
+ * PUT /jobs/{jobId}/chunks/{chunkIndex}/review
+ * GET /reviews
+ *
+ * Moves a completed translation through human review:
+ *
+ *   - `submit` assigns a reviewer — another user, by email — and records
+ *     IN_REVIEW. A translation with changes requested is submitted again
+ *     the same way; the approvals it already has are kept.
+ *   - the chunk route approves one part of the translation, or withdraws
+ *     its approval, while the job is in review.
+ *   - `request-changes` records CHANGES_REQUESTED with the reviewer's comment.
+ *   - `approve` records APPROVED once every part is approved.
+ *   - `GET /reviews` lists the jobs assigned to the caller.
+ *
+ * Only the owner submits, and only the assigned reviewer — signed in with
+ * that verified email — approves parts, requests changes or approves, so
+ * each approval and `approvedBy` record the reviewer. The reviewer reaches
+ * the job through loadJobForReviewer (see shared/jobRepository.ts); to
+ * anyone else it stays a 404. Saving an edit of a part withdraws its
+ * approval (see saveChunkTranslation.ts); an approved translation can no
+ * longer be edited.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  ChunkReview,
+  ChunkReviewRequest,
+  DynamoDBJob,
+  MAX_REVIEW_COMMENT_LENGTH,
+  REVIEW_STATUSES,
+  RequestChangesRequest,
+  ReviewApiResponse,
+  ReviewAssignment,
+  ReviewAssignmentsApiResponse,
+  ReviewStatus,
+  SubmitReviewRequest,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import {
+  listJobsForReviewer,
+  loadJobForUser,
+  loadJobForUserOrReviewer,
+} from '../shared/jobRepository';
+import { reviewSummary, verifiedEmail } from '../shared/jobReview';
+
+const logger = new Logger('lfmt-review-translation');
+const dynamoClient = new DynamoDBClient({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+
+/** Longest email address accepted (RFC 5321). */
+const MAX_EMAIL_LENGTH = 254;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** A request that cannot be served, as the error response to return. */
+class ReviewRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string
+  ) {
+    super(message);
+    this.name = 'ReviewRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+  const action = event.resource?.split('/').pop();
+
+  logger.info('Review translation request', { requestId, path: event.path, action });
+
+  try {
+    const claims = event.requestContext?.authorizer?.claims;
+    const userId = claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+    const callerEmail = verifiedEmail(claims);
+
+    if (action === 'reviews') {
+      const responseBody: ReviewAssignmentsApiResponse = {
+        assignments: callerEmail ? await listAssignments(callerEmail) : [],
+      };
+      return createFlatResponse(200, responseBody, requestId, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(
+        400,
+        'Invalid JSON in request body',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    // Only the owner submits; the reviewer's actions also load the job
+    // through the reviewer assignment.
+    const job =
+      action === 'submit'
+        ? await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId)
+        : await loadJobForUserOrReviewer(dynamoClient, JOBS_TABLE, jobId, userId, callerEmail);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    let updated: DynamoDBJob;
+    switch (action) {
+      case 'submit':
+        updated = await submitForReview(
+          job,
+          body as Partial<SubmitReviewRequest>,
+          typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined
+        );
+        break;
+      case 'review':
+        updated = await reviewChunk(
+          job,
+          event.pathParameters?.chunkIndex ?? '',
+          body as Partial<ChunkReviewRequest>,
+          callerEmail
+        );
+        break;
+      case 'request-changes':
+        updated = await requestChanges(job, body as RequestChangesRequest, callerEmail);
+        break;
+      case 'approve':
+        updated = await approve(job, callerEmail);
+        break;
+      default:
+        throw new ReviewRequestError(400, `Unknown action: ${action}`, 'INVALID_REQUEST');
+    }
+
+    const responseBody: ReviewApiResponse = {
+      jobId,
+      status: updated.status as ReviewStatus,
+      review: reviewSummary(updated)!,
+    };
+    return createFlatResponse(200, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    if (error instanceof ReviewRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        undefined,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Failed to update the review', {
+      requestId,
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to update the review. Please try again later.',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+/**
+ * The jobs assigned to the reviewer, most recently submitted first.
+ */
+async function listAssignments(reviewerEmail: string): Promise<ReviewAssignment[]> {
+  const jobs = await listJobsForReviewer(dynamoClient, JOBS_TABLE, reviewerEmail);
+  return jobs
+    .flatMap((job) => {
+      const review = reviewSummary(job);
+      return review && (REVIEW_STATUSES as readonly string[]).includes(job.status)
+        ? [
+            {
+              jobId: job.jobId,
+              fileName: job.filename,
+              sourceLanguage: job.sourceLanguage,
+              targetLanguage: job.targetLanguage,
+              status: job.status as ReviewStatus,
+              review,
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => b.review.submittedAt.localeCompare(a.review.submittedAt));
+}
+
+/**
+ * Assign the reviewer and record IN_REVIEW. The approvals map is created
+ * on the first submission, so approving a chunk can set one entry of it.
+ * The owner cannot review their own translation.
+ */
+async function submitForReview(
+  job: DynamoDBJob,
+  body: Partial<SubmitReviewRequest>,
+  ownerEmail: string | undefined
+): Promise<DynamoDBJob> {
+  const reviewerEmail = parseEmail(body.reviewerEmail);
+  if (reviewerEmail === ownerEmail) {
+    throw new ReviewRequestError(
+      400,
+      'The reviewer must be someone other than the owner of the translation',
+      'INVALID_REQUEST'
+    );
+  }
+  if (
+    (job.status !== 'COMPLETED' && job.status !== 'CHANGES_REQUESTED') ||
+    job.translationStatus !== 'COMPLETED'
+  ) {
+    throw new ReviewRequestError(
+      400,
+      `Only a completed translation, or one with changes requested, can be submitted for review. Current status: ${job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  const submittedAt = new Date().toISOString();
+  const updated = await updateReview(job, {
+    UpdateExpression:
+      'SET #status = :status, reviewerEmail = :reviewerEmail, reviewSubmittedAt = :submittedAt, chunkReviews = if_not_exists(chunkReviews, :noReviews), updatedAt = :submittedAt',
+    ExpressionAttributeValues: {
+      ':status': 'IN_REVIEW',
+      ':reviewerEmail': reviewerEmail,
+      ':submittedAt': submittedAt,
+      ':noReviews': {},
+    },
+  });
+
+  logger.info('Translation submitted for review', {
+    jobId: job.jobId,
+    previousStatus: job.status,
+  });
+  return updated;
+}
+
+/**
+ * Approve one chunk, or withdraw its approval.
+ */
+async function reviewChunk(
+  job: DynamoDBJob,
+  chunkIndexParam: string,
+  body: Partial<ChunkReviewRequest>,
+  callerEmail: string | undefined
+): Promise<DynamoDBJob> {
+  const chunkIndex = Number(chunkIndexParam);
+  if (!/^\d+$/.test(chunkIndexParam) || chunkIndex >= (job.totalChunks ?? 0)) {
+    throw new ReviewRequestError(400, `Invalid chunk index: ${chunkIndexParam}`, 'INVALID_REQUEST');
+  }
+  if (typeof body.approved !== 'boolean') {
+    throw new ReviewRequestError(400, 'approved must be true or false', 'INVALID_REQUEST');
+  }
+  requireInReview(job, 'Parts can only be approved');
+  const reviewer = requireReviewer(job, callerEmail);
+
+  const now = new Date().toISOString();
+  const review: ChunkReview = { approvedBy: reviewer, approvedAt: now };
+  const updated = await updateReview(job, {
+    UpdateExpression: body.approved
+      ? 'SET chunkReviews.#chunk = :review, updatedAt = :now'
+      : 'SET updatedAt = :now REMOVE chunkReviews.#chunk',
+    ExpressionAttributeNames: { '#chunk': String(chunkIndex) },
+    ExpressionAttributeValues: {
+      ...(body.approved && { ':review': review }),
+      ':now': now,
+    },
+  });
+
+  logger.info(body.approved ? 'Chunk approved' : 'Chunk approval withdrawn', {
+    jobId: job.jobId,
+    chunkIndex,
+  });
+  return updated;
+}
+
+async function requestChanges(
+  job: DynamoDBJob,
+  body: RequestChangesRequest,
+  callerEmail: string | undefined
+): Promise<DynamoDBJob> {
+  const comment = parseComment(body.comment);
+  requireInReview(job, 'Changes can only be requested');
+  requireReviewer(job, callerEmail);
+
+  const now = new Date().toISOString();
+  const updated = await updateReview(job, {
+    UpdateExpression: comment
+      ? 'SET #status = :status, reviewComment = :comment, updatedAt = :now'
+      : 'SET #status = :status, updatedAt = :now REMOVE reviewComment',
+    ExpressionAttributeValues: {
+      ':status': 'CHANGES_REQUESTED',
+      ':now': now,
+      ...(comment && { ':comment': comment }),
+    },
+  });
+
+  logger.info('Changes requested', { jobId: job.jobId });
+  return updated;
+}
+
+/**
+ * Record APPROVED. The condition repeats the every-part check, so an
+ * approval withdrawn in the meantime fails it rather than being missed.
+ */
+async function approve(job: DynamoDBJob, callerEmail: string | undefined): Promise<DynamoDBJob> {
+  requireInReview(job, 'Approval is only possible');
+  const reviewer = requireReviewer(job, callerEmail);
+
+  const totalChunks = job.totalChunks ?? 0;
+  const pending = totalChunks - (reviewSummary(job)?.approvedChunks.length ?? 0);
+  if (pending > 0) {
+    throw new ReviewRequestError(
+      409,
+      `${pending} of ${totalChunks} parts are not approved yet`,
+      'REVIEW_INCOMPLETE'
+    );
+  }
+
+  const approvedAt = new Date().toISOString();
+  const updated = await updateReview(
+    job,
+    {
+      UpdateExpression:
+        'SET #status = :status, approvedAt = :approvedAt, approvedBy = :approvedBy, updatedAt = :approvedAt',
+      ExpressionAttributeValues: {
+        ':status': 'APPROVED',
+        ':approvedAt': approvedAt,
+        ':approvedBy': reviewer,
+        ':totalChunks': totalChunks,
+      },
+    },
+    'size(chunkReviews) = :totalChunks'
+  );
+
+  logger.info('Translation approved', { jobId: job.jobId, totalChunks });
+  return updated;
+}
+
+function requireInReview(job: DynamoDBJob, what: string): void {
+  if (job.status !== 'IN_REVIEW') {
+    throw new ReviewRequestError(
+      400,
+      `${what} while the translation is in review. Current status: ${job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+}
+
+/**
+ * The caller's email, when the caller is the job's assigned reviewer. The
+ * owner can see the review but not take part in it.
+ */
+function requireReviewer(job: DynamoDBJob, callerEmail: string | undefined): string {
+  if (!callerEmail || callerEmail !== job.reviewerEmail) {
+    throw new ReviewRequestError(
+      403,
+      'Only the assigned reviewer can review this translation',
+      'NOT_REVIEWER'
+    );
+  }
+  return callerEmail;
+}
+
+function parseEmail(value: unknown): string {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) {
+    throw new ReviewRequestError(400, 'reviewerEmail must be an email address', 'INVALID_REQUEST');
+  }
+  return email;
+}
+
+/**
+ * The optional change-request comment: trimmed, undefined when empty.
+ */
+function parseComment(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_REVIEW_COMMENT_LENGTH) {
+    throw new ReviewRequestError(
+      400,
+      `comment must be a string of at most ${MAX_REVIEW_COMMENT_LENGTH} characters`,
+      'INVALID_REQUEST'
+    );
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Apply a review update conditioned on the status and reviewer the job was
+ * loaded with and return the job as updated. A failed condition means a
+ * concurrent request changed the job first, e.g. a second tab approving it
+ * or the owner submitting it to another reviewer.
+ */
+async function updateReview(
+  job: DynamoDBJob,
+  update: {
+    UpdateExpression: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues: Record<string, unknown>;
+  },
+  extraCondition?: string
+): Promise<DynamoDBJob> {
+  try {
+    const result = await dynamoClient.send(
+      new UpdateItemCommand({
+        TableName: JOBS_TABLE,
+        Key: marshall({ jobId: job.jobId, userId: job.userId }),
+        UpdateExpression: update.UpdateExpression,
+        ConditionExpression: [
+          '#status = :expectedStatus',
+          job.reviewerEmail
+            ? 'reviewerEmail = :expectedReviewer'
+            : 'attribute_not_exists(reviewerEmail)',
+          ...(extraCondition ? [extraCondition] : []),
+        ].join(' AND '),
+        ExpressionAttributeNames: { '#status': 'status', ...update.ExpressionAttributeNames },
+        ExpressionAttributeValues: marshall({
+          ...update.ExpressionAttributeValues,
+          ':expectedStatus': job.status,
+          ...(job.reviewerEmail && { ':expectedReviewer': job.reviewerEmail }),
+        }),
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return unmarshall(result.Attributes ?? {}) as DynamoDBJob;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      throw new ReviewRequestError(
+        409,
+        'The job changed while the request was being handled. Please refresh and try again.',
+        'INVALID_JOB_STATUS'
+      );
+    }
+    throw error;
+  }
+}
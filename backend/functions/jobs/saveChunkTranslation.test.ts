@@ -0,0 +1,280 @@
+/**
+ * Unit tests for PUT /jobs/{jobId}/chunks/{chunkIndex}/translation
+ */
+
+// Set environment variables BEFORE imports
+process.env.JOBS_TABLE = 'test-jobs-table';
+process.env.CHUNKS_BUCKET = 'test-document-bucket';
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient, GetItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  S3Client,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import { handler } from './saveChunkTranslation';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+
+jest.mock('../shared/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('saveChunkTranslation endpoint', () => {
+  const completedJob = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    status: 'COMPLETED',
+    translationStatus: 'COMPLETED',
+    translationStartedAt: '2026-03-01T10:00:00.000Z',
+    totalChunks: 2,
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    dynamoMock.on(GetItemCommand).resolves({ Item: marshall(completedJob) });
+    s3Mock.on(GetObjectCommand, { Key: 'translated/job-123/chunk-1.txt' }).resolves({
+      Body: sdkStreamMixin(Readable.from(['Llovió.\n\nNos fuimos.'])),
+      LastModified: new Date('2026-03-01T10:05:00.000Z'),
+    } as never);
+    s3Mock.on(ListObjectsV2Command).resolves({ Contents: [] });
+    s3Mock.on(PutObjectCommand).resolves({});
+  });
+
+  function mockEdits(versions: Array<{ version: number; lastModified: string }>) {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: versions.map(({ version, lastModified }) => ({
+        Key: `translated-edits/job-123/chunk-1/v${version}.txt`,
+        LastModified: new Date(lastModified),
+      })),
+    });
+  }
+
+  const save = (body: unknown, chunkIndex = '1') =>
+    handler({
+      httpMethod: 'PUT',
+      resource: '/jobs/{jobId}/chunks/{chunkIndex}/translation',
+      path: `/jobs/job-123/chunks/${chunkIndex}/translation`,
+      pathParameters: { jobId: 'job-123', chunkIndex },
+      headers: {},
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      requestContext: {
+        requestId: 'test-request-id',
+        authorizer: { claims: { sub: 'user-123' } },
+      } as any,
+    } as unknown as APIGatewayProxyEvent);
+
+  const putInput = () => s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+
+  it('saves the first edit as version 1 next to the machine translation', async () => {
+    const result = await save({
+      translatedText: 'Llovía.\n\nNos marchamos.',
+      paragraphAlignment: [1, 1],
+      baseVersion: 0,
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toMatchObject({
+      jobId: 'job-123',
+      chunkIndex: 1,
+      version: 1,
+      savedAt: expect.any(String),
+    });
+    expect(putInput()).toMatchObject({
+      Bucket: 'test-document-bucket',
+      Key: 'translated-edits/job-123/chunk-1/v1.txt',
+      Body: 'Llovía.\n\nNos marchamos.',
+      IfNoneMatch: '*',
+      Metadata: { author: 'user-123', baseVersion: '0' },
+    });
+    // A one-to-one pairing is stored as no alignment.
+    expect(putInput().Metadata).not.toHaveProperty('paragraphAlignment');
+  });
+
+  it('numbers an edit after the newest one and keeps its alignment', async () => {
+    mockEdits([
+      { version: 1, lastModified: '2026-03-02T09:00:00.000Z' },
+      { version: 2, lastModified: '2026-03-02T09:30:00.000Z' },
+    ]);
+    s3Mock.on(GetObjectCommand, { Key: 'translated-edits/job-123/chunk-1/v2.txt' }).resolves({
+      Body: sdkStreamMixin(Readable.from(['Llovía.\n\nNos marchamos.'])),
+    } as never);
+
+    const result = await save({
+      translatedText: 'Llovía.\n\nNos\n\nmarchamos.',
+      paragraphAlignment: [1, 2],
+      baseVersion: 2,
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).version).toBe(3);
+    expect(putInput().Key).toBe('translated-edits/job-123/chunk-1/v3.txt');
+    expect(putInput().Metadata).toMatchObject({ baseVersion: '2', paragraphAlignment: '1,2' });
+  });
+
+  it('records the note and the words changed relative to the base version', async () => {
+    const result = await save({
+      translatedText: 'Llovía.\n\nNos fuimos juntos.',
+      note: '  Tense of the first sentence  ',
+    });
+
+    expect(result.statusCode).toBe(200);
+    const metadata = putInput().Metadata ?? {};
+    // "Llovió." → "Llovía." and "fuimos." → "fuimos juntos."
+    expect(metadata).toMatchObject({ wordCount: '4', wordsAdded: '3', wordsRemoved: '2' });
+    expect(Buffer.from(metadata.note, 'base64').toString('utf8')).toBe(
+      'Tense of the first sentence'
+    );
+  });
+
+  it('rejects a note longer than 200 characters', async () => {
+    const result = await save({ translatedText: 'Llovía.', note: 'x'.repeat(201) });
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+  });
+
+  it('refuses an edit based on a version that is no longer current', async () => {
+    mockEdits([{ version: 1, lastModified: '2026-03-02T09:00:00.000Z' }]);
+
+    const result = await save({ translatedText: 'Llovía.', baseVersion: 0 });
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).errorCode).toBe('EDIT_CONFLICT');
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('bases an edit on the machine translation when the chunk was retranslated since', async () => {
+    mockEdits([{ version: 1, lastModified: '2026-02-28T09:00:00.000Z' }]);
+
+    const result = await save({ translatedText: 'Llovía.', baseVersion: 0 });
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).version).toBe(2);
+    expect(putInput().Metadata).toMatchObject({ baseVersion: '0' });
+  });
+
+  it('returns 409 when another save wrote the same version first', async () => {
+    s3Mock.on(PutObjectCommand).rejects(
+      new S3ServiceException({
+        name: 'PreconditionFailed',
+        $fault: 'client',
+        $metadata: { httpStatusCode: 412 },
+      })
+    );
+
+    const result = await save({ translatedText: 'Llovía.' });
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).errorCode).toBe('EDIT_CONFLICT');
+  });
+
+  it('rejects an alignment that does not account for every paragraph', async () => {
+    const result = await save({
+      translatedText: 'Llovía.\n\nNos marchamos.',
+      paragraphAlignment: [1],
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects an empty translation', async () => {
+    const result = await save({ translatedText: '  \n ' });
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects a chunk index past the end of the job', async () => {
+    const result = await save({ translatedText: 'Llovía.' }, '2');
+
+    expect(result.statusCode).toBe(400);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('only edits a completed translation', async () => {
+    dynamoMock
+      .on(GetItemCommand)
+      .resolves({ Item: marshall({ ...completedJob, translationStatus: 'IN_PROGRESS' }) });
+
+    const result = await save({ translatedText: 'Llovía.' });
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+  });
+
+  it('withdraws the approval of a chunk edited during review', async () => {
+    const approval = { approvedBy: 'editor@example.com', approvedAt: '2026-03-02T09:00:00.000Z' };
+    dynamoMock.on(GetItemCommand).resolves({
+      Item: marshall({ ...completedJob, status: 'IN_REVIEW', chunkReviews: { '1': approval } }),
+    });
+    dynamoMock.on(UpdateItemCommand).resolves({});
+
+    const result = await save({ translatedText: 'Llovía.' });
+
+    expect(result.statusCode).toBe(200);
+    expect(dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input).toMatchObject({
+      UpdateExpression: 'REMOVE chunkReviews.#chunk',
+      ExpressionAttributeNames: { '#chunk': '1' },
+    });
+  });
+
+  it('leaves the job alone when it has never been reviewed', async () => {
+    await save({ translatedText: 'Llovía.' });
+
+    expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+  });
+
+  it('refuses to edit an approved translation', async () => {
+    dynamoMock
+      .on(GetItemCommand)
+      .resolves({ Item: marshall({ ...completedJob, status: 'APPROVED', chunkReviews: {} }) });
+
+    const result = await save({ translatedText: 'Llovía.' });
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).errorCode).toBe('INVALID_JOB_STATUS');
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('refuses to edit a chunk with no current translation', async () => {
+    s3Mock
+      .on(GetObjectCommand, { Key: 'translated/job-123/chunk-1.txt' })
+      .rejects(new NoSuchKey({ message: 'The specified key does not exist.', $metadata: {} }));
+
+    const result = await save({ translatedText: 'Llovía.' });
+
+    expect(result.statusCode).toBe(400);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('returns 404 for a job the user does not own', async () => {
+    dynamoMock.on(GetItemCommand).resolves({});
+
+    const result = await save({ translatedText: 'Llovía.' });
+
+    expect(result.statusCode).toBe(404);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('returns 400 for a body that is not JSON', async () => {
+    const result = await save('{not json');
+
+    expect(result.statusCode).toBe(400);
+  });
+});
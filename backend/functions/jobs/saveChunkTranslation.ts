@@ -0,0 +1,361 @@
+/**
+ * Save Chunk Translation Lambda Function
+ * PUT /jobs/{jobId}/chunks/{chunkIndex}/translation
+ *
+ * Saves a translation edited in the side-by-side viewer as the chunk's
+ * next version, `translated-edits/{jobId}/chunk-{index}/v{version}.txt`
+ * (see shared/chunkTranslations.ts). The machine translation stays where
+ * translateChunk wrote it, so every version can still be diffed against
+ * it; downloads and the viewer use the newest version.
+ *
+ * Only a chunk of a completed translation can be edited — a running
+ * translation would write over the edit's base — and not once the
+ * translation is approved. During review, saving an edit withdraws the
+ * chunk's approval (see reviewTranslation.ts). A request that names the
+ * version it started from (`baseVersion`) is refused with 409 when
+ * another edit was saved in the meantime, and the version object is
+ * written with `If-None-Match: *`, so two saves racing for the same
+ * version cannot overwrite each other either.
+ *
+ * Each version records its author, an optional note and how many words
+ * it added and removed relative to the version it was made from; GET
+ * /jobs/{jobId}/edits exports them for translator-payment accounting.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  DynamoDBJob,
+  MAX_EDIT_NOTE_LENGTH,
+  ParagraphAlignment,
+  SaveChunkTranslationApiResponse,
+  SaveChunkTranslationRequest,
+  countWordChanges,
+  countWords,
+  isTranslatedStatus,
+} from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadJobForUser } from '../shared/jobRepository';
+import {
+  chunkEditKey,
+  editSupersedes,
+  encodeEditMetadata,
+  latestEditsByChunk,
+  listChunkEdits,
+  readChunkEdit,
+  readMachineTranslation,
+} from '../shared/chunkTranslations';
+import { splitSegments } from '../translation/translationMemory';
+
+const logger = new Logger('lfmt-save-chunk-translation');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+
+/**
+ * Largest edited chunk accepted, in bytes. Chunks are a few thousand
+ * tokens, so anything near this is not an edit of one.
+ */
+const MAX_TRANSLATION_BYTES = 512 * 1024;
+
+/** A request that cannot be served, as the error response to return. */
+class SaveRequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly errorCode: string
+  ) {
+    super(message);
+    this.name = 'SaveRequestError';
+  }
+}
+
+/** Lambda handler */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  const requestOrigin = event.headers.origin || event.headers.Origin;
+
+  logger.info('Save chunk translation request', { requestId, path: event.path });
+
+  try {
+    const userId = event.requestContext?.authorizer?.claims?.sub;
+    if (!userId) {
+      return createErrorResponse(401, 'Unauthorized', requestId, undefined, requestOrigin);
+    }
+
+    const jobId = event.pathParameters?.jobId;
+    if (!jobId) {
+      return createErrorResponse(
+        400,
+        'Missing jobId in path',
+        requestId,
+        undefined,
+        requestOrigin,
+        'MISSING_JOB_ID'
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return createErrorResponse(
+        400,
+        'Invalid JSON in request body',
+        requestId,
+        undefined,
+        requestOrigin,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      return createErrorResponse(
+        404,
+        `Job not found: ${jobId}`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'JOB_NOT_FOUND'
+      );
+    }
+
+    const responseBody = await saveEdit(
+      job,
+      event.pathParameters?.chunkIndex ?? '',
+      body as Partial<SaveChunkTranslationRequest>,
+      userId
+    );
+
+    return createFlatResponse(200, responseBody, requestId, requestOrigin);
+  } catch (error) {
+    if (error instanceof SaveRequestError) {
+      return createErrorResponse(
+        error.statusCode,
+        error.message,
+        requestId,
+        undefined,
+        requestOrigin,
+        error.errorCode
+      );
+    }
+
+    logger.error('Failed to save chunk translation', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return createErrorResponse(
+      500,
+      'Failed to save the translation. Please try again later.',
+      requestId,
+      undefined,
+      requestOrigin,
+      'INTERNAL_ERROR'
+    );
+  }
+};
+
+/**
+ * Store the edited translation as the chunk's next version.
+ */
+async function saveEdit(
+  job: DynamoDBJob,
+  chunkIndexParam: string,
+  body: Partial<SaveChunkTranslationRequest>,
+  userId: string
+): Promise<SaveChunkTranslationApiResponse> {
+  const chunkIndex = Number(chunkIndexParam);
+  if (!/^\d+$/.test(chunkIndexParam) || chunkIndex >= (job.totalChunks ?? 0)) {
+    throw new SaveRequestError(400, `Invalid chunk index: ${chunkIndexParam}`, 'INVALID_REQUEST');
+  }
+  const translatedText = parseTranslatedText(body.translatedText);
+  const alignment = parseAlignment(body.paragraphAlignment, translatedText);
+  const note = parseNote(body.note);
+  if (
+    body.baseVersion !== undefined &&
+    !(Number.isInteger(body.baseVersion) && body.baseVersion >= 0)
+  ) {
+    throw new SaveRequestError(
+      400,
+      'baseVersion must be a non-negative integer',
+      'INVALID_REQUEST'
+    );
+  }
+
+  if (!isTranslatedStatus(job.status) || job.translationStatus !== 'COMPLETED') {
+    throw new SaveRequestError(
+      400,
+      `Only a chunk of a completed translation can be edited. Current status: ${job.status}`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+  if (job.status === 'APPROVED') {
+    throw new SaveRequestError(
+      400,
+      'This translation has been approved and can no longer be edited',
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  const [machine, edits] = await Promise.all([
+    readMachineTranslation(s3Client, CHUNKS_BUCKET, job, chunkIndex),
+    listChunkEdits(s3Client, CHUNKS_BUCKET, job.jobId, chunkIndex),
+  ]);
+  if (!machine) {
+    throw new SaveRequestError(
+      400,
+      `Chunk ${chunkIndex} has no translation to edit`,
+      'INVALID_JOB_STATUS'
+    );
+  }
+
+  const latest = latestEditsByChunk(edits).get(chunkIndex);
+  const currentVersion =
+    latest && editSupersedes(latest, machine.lastModified) ? latest.version : 0;
+  if (body.baseVersion !== undefined && body.baseVersion !== currentVersion) {
+    throw new SaveRequestError(
+      409,
+      `This part was saved again since version ${body.baseVersion} (now version ${currentVersion}); reload it before editing`,
+      'EDIT_CONFLICT'
+    );
+  }
+
+  const baseText =
+    latest && currentVersion > 0
+      ? (await readChunkEdit(s3Client, CHUNKS_BUCKET, latest)).text
+      : machine.text;
+  const { wordsAdded, wordsRemoved } = countWordChanges(baseText, translatedText);
+
+  // Numbers keep counting past edits a retranslation replaced, so no
+  // version is ever written twice.
+  const version = (latest?.version ?? 0) + 1;
+  const savedAt = new Date().toISOString();
+  try {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: CHUNKS_BUCKET,
+        Key: chunkEditKey(job.jobId, chunkIndex, version),
+        Body: translatedText,
+        ContentType: 'text/plain; charset=utf-8',
+        IfNoneMatch: '*',
+        Metadata: encodeEditMetadata({
+          author: userId,
+          savedAt,
+          baseVersion: currentVersion,
+          alignment,
+          note,
+          wordCount: countWords(translatedText),
+          wordsAdded,
+          wordsRemoved,
+        }),
+      })
+    );
+  } catch (error) {
+    if (isPreconditionFailed(error)) {
+      throw new SaveRequestError(
+        409,
+        'This part was saved again while you were editing; reload it before editing',
+        'EDIT_CONFLICT'
+      );
+    }
+    throw error;
+  }
+
+  if (job.chunkReviews) {
+    await withdrawApproval(job, chunkIndex);
+  }
+
+  logger.info('Chunk translation edit saved', {
+    jobId: job.jobId,
+    chunkIndex,
+    version,
+    baseVersion: currentVersion,
+    size: translatedText.length,
+    wordsAdded,
+    wordsRemoved,
+  });
+
+  return { jobId: job.jobId, chunkIndex, version, savedAt };
+}
+
+/**
+ * Remove the chunk's approval, which was given to the text just replaced.
+ * The job has had an approvals map since its first submission for review.
+ */
+async function withdrawApproval(job: DynamoDBJob, chunkIndex: number): Promise<void> {
+  await dynamoClient.send(
+    new UpdateItemCommand({
+      TableName: JOBS_TABLE,
+      Key: marshall({ jobId: job.jobId, userId: job.userId }),
+      UpdateExpression: 'REMOVE chunkReviews.#chunk',
+      ConditionExpression: 'attribute_exists(chunkReviews)',
+      ExpressionAttributeNames: { '#chunk': String(chunkIndex) },
+    })
+  );
+}
+
+function parseTranslatedText(value: unknown): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new SaveRequestError(400, 'translatedText must be a non-empty string', 'INVALID_REQUEST');
+  }
+  if (Buffer.byteLength(value, 'utf8') > MAX_TRANSLATION_BYTES) {
+    throw new SaveRequestError(
+      400,
+      `translatedText must be at most ${MAX_TRANSLATION_BYTES} bytes`,
+      'INVALID_REQUEST'
+    );
+  }
+  return value;
+}
+
+function parseNote(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_EDIT_NOTE_LENGTH) {
+    throw new SaveRequestError(
+      400,
+      `note must be a string of at most ${MAX_EDIT_NOTE_LENGTH} characters`,
+      'INVALID_REQUEST'
+    );
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * The edit's paragraph alignment, which has to account for every
+ * paragraph of the text. A one-to-one pairing is stored as no alignment,
+ * as translateChunk does.
+ */
+function parseAlignment(value: unknown, translatedText: string): ParagraphAlignment | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const paragraphs = splitSegments(translatedText).length;
+  if (
+    !Array.isArray(value) ||
+    !value.every((count) => Number.isInteger(count) && count >= 0) ||
+    value.reduce((sum: number, count: number) => sum + count, 0) !== paragraphs
+  ) {
+    throw new SaveRequestError(
+      400,
+      `paragraphAlignment must be counts adding up to the ${paragraphs} paragraphs of translatedText`,
+      'INVALID_REQUEST'
+    );
+  }
+  return value.every((count) => count === 1) ? undefined : (value as ParagraphAlignment);
+}
+
+function isPreconditionFailed(error: unknown): boolean {
+  const e = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return e?.name === 'PreconditionFailed' || e?.$metadata?.httpStatusCode === 412;
+}
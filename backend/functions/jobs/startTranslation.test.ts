@@ -102,7 +102,6 @@ describe('startTranslation endpoint', () => {
       expect(body.translatedChunks).toBe(0);
       // Regression guard: old field name MUST NOT appear on the wire.
       expect(body).not.toHaveProperty('chunksTranslated');
-      expect(body.estimatedCompletion).toBeDefined();
       expect(body.estimatedCost).toBeGreaterThan(0);
       expect(body.executionArn).toBeDefined();
       // #267 — success responses must echo the API Gateway request UUID
@@ -113,9 +112,12 @@ describe('startTranslation endpoint', () => {
       // #267 — success responses MUST NOT carry an `errorCode` field.
       expect(body).not.toHaveProperty('errorCode');
 
-      // Verify DynamoDB update was called
+      // Verify DynamoDB update was called, then the execution recorded
       const dynamoCalls = dynamoMock.commandCalls(UpdateItemCommand);
-      expect(dynamoCalls.length).toBe(1);
+      expect(dynamoCalls.length).toBe(2);
+      expect(dynamoCalls[1].args[0].input.UpdateExpression).toBe(
+        'SET executionArn = :executionArn'
+      );
 
       // Verify Step Functions execution started
       const sfnCalls = sfnMock.commandCalls(StartExecutionCommand);
@@ -136,7 +138,7 @@ describe('startTranslation endpoint', () => {
       } as any);
 
       dynamoMock.on(UpdateItemCommand).resolves({} as any);
-      sfnMock.on(StartExecutionCommand).resolves({} as any);
+      sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
 
       const event = createEvent('job-123', {
         targetLanguage: 'fr',
@@ -162,7 +164,7 @@ describe('startTranslation endpoint', () => {
       } as any);
 
       dynamoMock.on(UpdateItemCommand).resolves({} as any);
-      sfnMock.on(StartExecutionCommand).resolves({} as any);
+      sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
 
       const event = createEvent('job-123', {
         targetLanguage: 'de',
@@ -175,6 +177,486 @@ describe('startTranslation endpoint', () => {
     });
   });
 
+  describe('project glossary', () => {
+    const chunkedJob = {
+      Item: {
+        jobId: { S: 'job-123' },
+        userId: { S: 'user-123' },
+        status: { S: 'CHUNKED' },
+        totalChunks: { N: '3' },
+      },
+    } as any;
+
+    beforeEach(() => {
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
+    });
+
+    it('threads a validated glossaryId into DynamoDB and the state machine input', async () => {
+      dynamoMock.on(GetItemCommand, { TableName: 'test-jobs-table' }).resolves(chunkedJob);
+      dynamoMock.on(GetItemCommand, { TableName: 'test-glossaries-table' }).resolves({
+        Item: {
+          userId: { S: 'user-123' },
+          glossaryId: { S: 'gloss-1' },
+          name: { S: 'Names' },
+          terms: { L: [] },
+        },
+      } as any);
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          glossaryId: 'gloss-1',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).glossaryId).toBe('gloss-1');
+
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.UpdateExpression).toContain('glossaryId = :glossaryId');
+
+      const input = JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+      expect(input.glossaryId).toBe('gloss-1');
+    });
+
+    it('falls back to translationOptions.customGlossary captured at job creation', async () => {
+      dynamoMock.on(GetItemCommand, { TableName: 'test-jobs-table' }).resolves({
+        Item: {
+          ...chunkedJob.Item,
+          translationOptions: { M: { customGlossary: { S: 'gloss-2' } } },
+        },
+      } as any);
+      dynamoMock.on(GetItemCommand, { TableName: 'test-glossaries-table' }).resolves({
+        Item: { userId: { S: 'user-123' }, glossaryId: { S: 'gloss-2' }, terms: { L: [] } },
+      } as any);
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      const input = JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+      expect(input.glossaryId).toBe('gloss-2');
+    });
+
+    it('passes glossaryId: null to the state machine when no glossary is used', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob);
+
+      await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent);
+
+      const input = JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+      expect(input.glossaryId).toBeNull();
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.UpdateExpression).toContain('REMOVE glossaryId');
+    });
+
+    it('restarts the translation memory counters of a previous run', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob);
+
+      await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent);
+
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.UpdateExpression).toContain(
+        'memorySegments, memoryReusedSegments, memorySavedTokens'
+      );
+    });
+
+    it('starts the run with no quality flags', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob);
+
+      await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent);
+
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.UpdateExpression).toContain('qualityFlags = :noFlags');
+      expect(update.ExpressionAttributeValues![':noFlags']).toEqual({ M: {} });
+    });
+
+    it('runs every chunk as a first translation and forgets the failed chunks of a previous run', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob);
+
+      await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent);
+
+      const input = JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+      expect(input.totalChunks).toBe(input.chunks.length);
+      expect(input.chunks[0]).toEqual({ chunkIndex: 0 });
+      expect(input.retranslation).toBeNull();
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.UpdateExpression).toContain('failedChunkIndexes');
+    });
+
+    it('leaves the unchanged chunks of a revision out of the estimate', async () => {
+      const revision = {
+        M: {
+          previousRevision: { N: '1' },
+          targetLanguage: { S: 'es' },
+          reusedFrom: { L: [{ N: '0' }, { N: '-1' }, { N: '1' }] },
+          changedChunks: { N: '1' },
+        },
+      };
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: { ...chunkedJob.Item, revisionAlignment: revision },
+      } as any);
+
+      const sameLanguage = JSON.parse(
+        (await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent))
+          .body
+      );
+      const otherLanguage = JSON.parse(
+        (await handler(createEvent('job-123', { targetLanguage: 'fr' }) as APIGatewayProxyEvent))
+          .body
+      );
+
+      expect(sameLanguage.reusedChunks).toBe(2);
+      expect(sameLanguage.estimatedCost).toBeCloseTo(otherLanguage.estimatedCost / 3);
+      expect(otherLanguage).not.toHaveProperty('reusedChunks');
+    });
+
+    it('emits errorCode=GLOSSARY_NOT_FOUND for an unknown or foreign glossary', async () => {
+      dynamoMock.on(GetItemCommand, { TableName: 'test-jobs-table' }).resolves(chunkedJob);
+      dynamoMock
+        .on(GetItemCommand, { TableName: 'test-glossaries-table' })
+        .resolves({ Item: undefined } as any);
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          glossaryId: 'missing',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).errorCode).toBe('GLOSSARY_NOT_FOUND');
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('rejects a non-string glossaryId', async () => {
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es', glossaryId: 42 }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('INVALID_REQUEST');
+    });
+  });
+
+  describe('source language', () => {
+    const detectedJob = (language: string, confidence: number) =>
+      ({
+        Item: {
+          jobId: { S: 'job-123' },
+          userId: { S: 'user-123' },
+          status: { S: 'CHUNKED' },
+          totalChunks: { N: '3' },
+          sourceLanguage: { S: language },
+          sourceLanguageConfidence: { N: String(confidence) },
+        },
+      }) as any;
+
+    beforeEach(() => {
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
+    });
+
+    it('echoes the detected source language on success', async () => {
+      dynamoMock.on(GetItemCommand).resolves(detectedJob('fr', 0.9));
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'en' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.sourceLanguage).toBe('fr');
+      expect(body.warnings).toBeUndefined();
+    });
+
+    it('emits errorCode=SOURCE_LANGUAGE_MATCHES_TARGET for a confident detection', async () => {
+      dynamoMock.on(GetItemCommand).resolves(detectedJob('de', 0.85));
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'de' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      const body = JSON.parse(result.body);
+      expect(body.errorCode).toBe('SOURCE_LANGUAGE_MATCHES_TARGET');
+      expect(body.message).toContain('German');
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('only warns when a low-confidence detection matches the target', async () => {
+      dynamoMock.on(GetItemCommand).resolves(detectedJob('es', 0.3));
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).warnings).toEqual([expect.stringContaining('Spanish')]);
+    });
+
+    it('persists a sourceLanguage override and drops the stale confidence', async () => {
+      dynamoMock.on(GetItemCommand).resolves(detectedJob('en', 0.4));
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'en',
+          sourceLanguage: 'fr',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).sourceLanguage).toBe('fr');
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.UpdateExpression).toContain('sourceLanguage = :sourceLanguage');
+      expect(update.UpdateExpression).toContain('REMOVE glossaryId, sourceLanguageConfidence');
+    });
+
+    it('rejects an override equal to the target regardless of detection', async () => {
+      dynamoMock.on(GetItemCommand).resolves(detectedJob('fr', 0.2));
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'it',
+          sourceLanguage: 'it',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('SOURCE_LANGUAGE_MATCHES_TARGET');
+    });
+
+    it('rejects an unknown sourceLanguage override', async () => {
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'en',
+          sourceLanguage: 'xx',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).message).toContain('Invalid sourceLanguage');
+    });
+  });
+
+  describe('translation provider', () => {
+    const chunkedJob = (fields: Record<string, any> = {}) =>
+      ({
+        Item: {
+          jobId: { S: 'job-123' },
+          userId: { S: 'user-123' },
+          status: { S: 'CHUNKED' },
+          totalChunks: { N: '3' },
+          ...fields,
+        },
+      }) as any;
+
+    const persisted = () =>
+      dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input.ExpressionAttributeValues!;
+
+    beforeEach(() => {
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
+    });
+
+    it('defaults to the Gemini provider and model', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.translationProvider).toBe('gemini');
+      expect(body.translationModel).toBe('gemini-2.5-flash');
+      expect(persisted()[':provider']).toEqual({ S: 'gemini' });
+      expect(persisted()[':model']).toEqual({ S: 'gemini-2.5-flash' });
+    });
+
+    it('persists the requested provider with its default model', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          provider: 'anthropic',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).translationModel).toBe('claude-sonnet-4-5');
+      expect(persisted()[':provider']).toEqual({ S: 'anthropic' });
+    });
+
+    it("keeps the previous run's provider and model on retry", async () => {
+      dynamoMock.on(GetItemCommand).resolves(
+        chunkedJob({
+          translationProvider: { S: 'anthropic' },
+          translationModel: { S: 'claude-haiku-4-5' },
+        })
+      );
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent
+      );
+
+      const body = JSON.parse(result.body);
+      expect(body.translationProvider).toBe('anthropic');
+      expect(body.translationModel).toBe('claude-haiku-4-5');
+    });
+
+    it('rejects an unknown provider', async () => {
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es', provider: 'openai' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).message).toContain('Invalid provider');
+    });
+
+    it('rejects a model from another provider', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          model: 'claude-sonnet-4-5',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('MODEL_PROVIDER_MISMATCH');
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('context mode and brief', () => {
+    const chunkedJob = (fields: Record<string, any> = {}) =>
+      ({
+        Item: {
+          jobId: { S: 'job-123' },
+          userId: { S: 'user-123' },
+          status: { S: 'CHUNKED' },
+          totalChunks: { N: '3' },
+          ...fields,
+        },
+      }) as any;
+
+    const executionInput = () =>
+      JSON.parse(sfnMock.commandCalls(StartExecutionCommand)[0].args[0].input.input!);
+
+    beforeEach(() => {
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
+    });
+
+    it('defaults to parallel chunks', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent
+      );
+
+      const body = JSON.parse(result.body);
+      expect(body.translationContextMode).toBe('parallel');
+      expect(executionInput()).toMatchObject({ contextMode: 'parallel', maxConcurrency: 10 });
+      const values =
+        dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input.ExpressionAttributeValues!;
+      expect(values[':contextMode']).toEqual({ S: 'parallel' });
+    });
+
+    it('runs a sequential job one chunk at a time', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          contextMode: 'sequential',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).translationContextMode).toBe('sequential');
+      expect(executionInput()).toMatchObject({ contextMode: 'sequential', maxConcurrency: 1 });
+    });
+
+    it("keeps the previous run's mode on retry", async () => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves(chunkedJob({ translationContextMode: { S: 'sequential' } }));
+
+      await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent);
+
+      expect(executionInput().contextMode).toBe('sequential');
+    });
+
+    it('passes the brief mode to the state machine and records it', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          contextMode: 'sequential',
+          briefMode: 'rolling',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(JSON.parse(result.body).translationBriefMode).toBe('rolling');
+      expect(executionInput().briefMode).toBe('rolling');
+      const values =
+        dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input.ExpressionAttributeValues!;
+      expect(values[':briefMode']).toEqual({ S: 'rolling' });
+    });
+
+    it('defaults to no brief', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      await handler(createEvent('job-123', { targetLanguage: 'es' }) as APIGatewayProxyEvent);
+
+      expect(executionInput().briefMode).toBe('off');
+    });
+
+    it('rejects a rolling brief for a parallel job', async () => {
+      dynamoMock.on(GetItemCommand).resolves(chunkedJob());
+
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          briefMode: 'rolling',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).errorCode).toBe('ROLLING_BRIEF_REQUIRES_SEQUENTIAL');
+      expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+    });
+
+    it('rejects an unknown brief mode', async () => {
+      const result = await handler(
+        createEvent('job-123', { targetLanguage: 'es', briefMode: 'full' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).message).toContain('Invalid briefMode: full');
+    });
+
+    it('rejects an unknown mode', async () => {
+      const result = await handler(
+        createEvent('job-123', {
+          targetLanguage: 'es',
+          contextMode: 'batched',
+        }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).message).toBe(
+        'Invalid contextMode: batched. Must be one of: parallel, sequential'
+      );
+    });
+  });
+
   describe('validation errors', () => {
     it('should reject missing jobId', async () => {
       const event: Partial<APIGatewayProxyEvent> = {
@@ -222,7 +704,20 @@ describe('startTranslation endpoint', () => {
     });
 
     it('should accept all valid target languages', async () => {
-      const validLanguages = ['es', 'fr', 'it', 'de', 'zh'];
+      const validLanguages = [
+        'en',
+        'es',
+        'fr',
+        'it',
+        'de',
+        'zh',
+        'ja',
+        'ko',
+        'pt',
+        'ru',
+        'ar',
+        'he',
+      ];
 
       for (const lang of validLanguages) {
         dynamoMock.on(GetItemCommand).resolves({
@@ -235,7 +730,7 @@ describe('startTranslation endpoint', () => {
         } as any);
 
         dynamoMock.on(UpdateItemCommand).resolves({} as any);
-        sfnMock.on(StartExecutionCommand).resolves({} as any);
+        sfnMock.on(StartExecutionCommand).resolves({ executionArn: 'arn:exec' } as any);
 
         const event = createEvent('job-123', {
           targetLanguage: lang,
@@ -270,8 +765,24 @@ describe('startTranslation endpoint', () => {
 
       expect(result.statusCode).toBe(400);
       const body = JSON.parse(result.body);
-      expect(body.message).toContain('contextChunks must be between 0 and 5');
+      expect(body.message).toContain('contextChunks must be an integer between 0 and 5');
     });
+
+    it.each([2.5, '3'])(
+      'should reject a contextChunks of %p that is not an integer',
+      async (value) => {
+        const event = createEvent('job-123', {
+          targetLanguage: 'es',
+          contextChunks: value,
+        });
+
+        const result = await handler(event as APIGatewayProxyEvent);
+
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).message).toContain('contextChunks must be an integer');
+        expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(0);
+      }
+    );
   });
 
   describe('authorization and permissions', () => {
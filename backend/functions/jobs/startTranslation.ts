@@ -11,17 +11,36 @@ import {
   GetItemCommandOutput,
   UpdateItemCommand,
 } from '@aws-sdk/client-dynamodb';
-import { SFNClient, StartExecutionCommand, StartExecutionCommandOutput } from '@aws-sdk/client-sfn';
+import { SFNClient } from '@aws-sdk/client-sfn';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import {
+  DEFAULT_TRANSLATION_MODELS,
+  DEFAULT_TRANSLATION_PROVIDER,
   DynamoDBJob,
+  getLanguage,
+  isLanguageCode,
+  isTranslationBriefMode,
+  isTranslationContextMode,
+  isTranslationProvider,
+  LANGUAGE_CODES,
+  MAX_CONTEXT_CHUNKS,
   StartTranslationApiResponse,
+  TRANSLATION_BRIEF_MODES,
+  TRANSLATION_CONTEXT_MODES,
+  TRANSLATION_PROVIDERS,
   TRANSLATION_TONE_VALUES,
+  TranslationBriefMode,
+  TranslationContextMode,
+  TranslationProviderName,
   TranslationTone,
 } from '@lfmt/shared-types';
 import Logger from '../shared/logger';
 import { getRequiredEnv } from '../shared/env';
 import { createFlatResponse, createErrorResponse } from '../shared/api-response';
+import { loadGlossaryForUser } from '../shared/glossaryRepository';
+import { recordExecutionArn } from '../shared/jobRepository';
+import { RELIABLE_DETECTION_CONFIDENCE } from '../shared/languageDetector';
+import { startTranslationExecution } from '../shared/translationExecution';
 import { isValidTargetLanguage, TargetLanguage } from '../translation/types';
 
 const logger = new Logger('lfmt-start-translation');
@@ -29,29 +48,27 @@ const dynamoClient = new DynamoDBClient({});
 const sfnClient = new SFNClient({});
 
 const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
-const STATE_MACHINE_NAME = getRequiredEnv('STATE_MACHINE_NAME'); // State machine name (ARN constructed dynamically)
-// AWS_REGION is always set by Lambda runtime - no fallback needed
-const AWS_REGION = getRequiredEnv('AWS_REGION');
-
-// Cache account ID at module level to avoid repeated STS calls.
-// Lambda container reuse means module-level variables persist across warm invocations,
-// making this an effective and safe cache pattern for immutable data like account ID.
-let cachedAccountId: string | undefined;
+const GLOSSARIES_TABLE = getRequiredEnv('GLOSSARIES_TABLE');
 
 /**
- * Construct State Machine ARN dynamically to avoid circular dependency in CDK
- * ARN format: arn:aws:states:<region>:<account-id>:stateMachine:<name>
+ * Model ids are passed through to the vendor API, so they are checked for
+ * shape and family here rather than against a list that would go stale
+ * with every model release. A typo still fails — as a non-retryable
+ * 400/404 from the vendor on the first chunk.
  */
-const getStateMachineArn = async (): Promise<string> => {
-  // Get account ID from STS (cached after first call)
-  if (!cachedAccountId) {
-    const { STSClient, GetCallerIdentityCommand } = await import('@aws-sdk/client-sts');
-    const stsClient = new STSClient({});
-    const identity = await stsClient.send(new GetCallerIdentityCommand({}));
-    cachedAccountId = identity.Account;
-  }
+const MODEL_ID_PATTERN = /^[a-z0-9][a-z0-9.-]{0,63}$/;
+const MODEL_PREFIXES: Record<TranslationProviderName, string> = {
+  gemini: 'gemini-',
+  anthropic: 'claude-',
+};
 
-  return `arn:aws:states:${AWS_REGION}:${cachedAccountId}:stateMachine:${STATE_MACHINE_NAME}`;
+/**
+ * Input-token price (USD per 1M) of each provider's default model, for the
+ * up-front estimate returned to the client.
+ */
+const ESTIMATE_COST_PER_MILLION_TOKENS: Record<TranslationProviderName, number> = {
+  gemini: 0.075,
+  anthropic: 3,
 };
 
 /**
@@ -63,6 +80,31 @@ interface StartTranslationRequest {
   // of truth shared with the frontend TONE_OPTIONS selector.
   tone?: TranslationTone;
   contextChunks?: number;
+  /** Project glossary to enforce on every chunk (see manageGlossaries.ts). */
+  glossaryId?: string;
+  /**
+   * Overrides the language detected at chunking time (see
+   * chunkDocument.ts). Persisted on the job, so later retries inherit it.
+   */
+  sourceLanguage?: string;
+  /**
+   * LLM backend and model for this run. Persisted on the job; omitted
+   * values fall back to the job's previous choice, then the defaults.
+   */
+  provider?: TranslationProviderName;
+  model?: string;
+  /**
+   * `sequential` trades speed for continuity: chunks run one at a time and
+   * each sees the translation of the `contextChunks` before it. Omitted →
+   * the job's previous choice, then `parallel`.
+   */
+  contextMode?: TranslationContextMode;
+  /**
+   * Translation memory brief (characters, style, plot) injected into every
+   * chunk prompt. `rolling` requires the `sequential` context mode.
+   * Omitted → the job's previous choice, then `off`.
+   */
+  briefMode?: TranslationBriefMode;
 }
 
 /**
@@ -183,11 +225,104 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       );
     }
 
+    // Resolve the project glossary. An explicit `glossaryId` in the body
+    // wins; otherwise fall back to the glossary captured at job creation
+    // (CreateJobRequest.translationOptions.customGlossary). Validated here,
+    // before the workflow starts, so a typo surfaces as a 404 on this call
+    // rather than as N failed chunk Lambdas.
+    const glossaryId = body.glossaryId ?? job.translationOptions?.customGlossary;
+    if (glossaryId) {
+      const glossary = await loadGlossaryForUser(
+        dynamoClient,
+        GLOSSARIES_TABLE,
+        glossaryId,
+        userId
+      );
+      if (!glossary) {
+        return createErrorResponse(
+          404,
+          `Glossary not found: ${glossaryId}`,
+          requestId,
+          undefined,
+          requestOrigin,
+          'GLOSSARY_NOT_FOUND'
+        );
+      }
+    }
+
+    // Guard against translating a document into its own language. A
+    // user-supplied source or a confident detection is a hard 400; a
+    // low-confidence detection only warns, since short or mixed-language
+    // manuscripts are exactly where the detector guesses wrong.
+    const sourceLanguage = body.sourceLanguage ?? job.sourceLanguage;
+    const warnings: string[] = [];
+    if (sourceLanguage === body.targetLanguage) {
+      const isReliable =
+        body.sourceLanguage !== undefined ||
+        (job.sourceLanguageConfidence ?? 0) >= RELIABLE_DETECTION_CONFIDENCE;
+      const languageName = getLanguage(sourceLanguage)?.englishName ?? sourceLanguage;
+      if (isReliable) {
+        return createErrorResponse(
+          400,
+          `Document is already in ${languageName}; choose a different targetLanguage`,
+          requestId,
+          undefined,
+          requestOrigin,
+          'SOURCE_LANGUAGE_MATCHES_TARGET'
+        );
+      }
+      warnings.push(
+        `Document appears to be in ${languageName} already (low-confidence detection); translating anyway`
+      );
+    }
+
+    // A retry keeps the provider and model of the previous run unless the
+    // request names new ones; switching provider alone resets the model to
+    // that provider's default.
+    const provider: TranslationProviderName =
+      body.provider ?? job.translationProvider ?? DEFAULT_TRANSLATION_PROVIDER;
+    const model =
+      body.model ??
+      (provider === job.translationProvider ? job.translationModel : undefined) ??
+      DEFAULT_TRANSLATION_MODELS[provider];
+    if (!model.startsWith(MODEL_PREFIXES[provider])) {
+      return createErrorResponse(
+        400,
+        `Model ${model} is not a ${provider} model`,
+        requestId,
+        undefined,
+        requestOrigin,
+        'MODEL_PROVIDER_MISMATCH'
+      );
+    }
+
+    const contextMode: TranslationContextMode =
+      body.contextMode ?? job.translationContextMode ?? 'parallel';
+    const briefMode: TranslationBriefMode = body.briefMode ?? job.translationBriefMode ?? 'off';
+    // Parallel chunks would each revise the brief from the same starting
+    // point and overwrite one another's changes.
+    if (briefMode === 'rolling' && contextMode !== 'sequential') {
+      return createErrorResponse(
+        400,
+        'A rolling brief requires the sequential context mode',
+        requestId,
+        undefined,
+        requestOrigin,
+        'ROLLING_BRIEF_REQUIRES_SEQUENTIAL'
+      );
+    }
+
     logger.info('Starting translation', {
       jobId,
       userId,
+      sourceLanguage,
       targetLanguage: body.targetLanguage,
       totalChunks: job.totalChunks,
+      glossaryId,
+      provider,
+      model,
+      contextMode,
+      briefMode,
     });
 
     // Initialize translation in DynamoDB
@@ -196,19 +331,38 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       tone: body.tone,
       contextChunks: body.contextChunks ?? 2,
       totalChunks: job.totalChunks,
+      glossaryId,
+      sourceLanguageOverride: body.sourceLanguage,
+      provider,
+      model,
+      contextMode,
+      briefMode,
     });
 
     // Start Step Functions workflow to process all chunks
-    const executionArn = await startStateMachineExecution(jobId, userId, {
+    const executionArn = await startTranslationExecution(sfnClient, jobId, userId, {
       targetLanguage: body.targetLanguage,
       tone: body.tone,
       contextChunks: body.contextChunks ?? 2,
       totalChunks: job.totalChunks,
+      glossaryId,
+      contextMode,
+      briefMode,
     });
+    await recordExecutionArn(dynamoClient, JOBS_TABLE, jobId, userId, executionArn);
+
+    // Chunks of a revision whose source did not change are copied from the
+    // previous translation by translateChunk — when it is in this language.
+    const reusedChunks =
+      job.revisionAlignment?.targetLanguage === body.targetLanguage
+        ? job.revisionAlignment.reusedFrom.filter((index) => index >= 0).length
+        : 0;
+    const chunksToTranslate = job.totalChunks - reusedChunks;
 
     // Calculate estimated completion time
-    // Assume 10 seconds per chunk (conservative estimate with rate limiting)
-    const estimatedSeconds = job.totalChunks * 10;
+    // Assume 10 seconds per chunk (conservative estimate with rate limiting);
+    // a sequential run waits out every API call back to back.
+    const estimatedSeconds = chunksToTranslate * (contextMode === 'sequential' ? 30 : 10);
     const estimatedCompletion = new Date(Date.now() + estimatedSeconds * 1000).toISOString();
 
     logger.info('Translation started successfully', {
@@ -230,8 +384,16 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       // #229: renamed from `chunksTranslated` → `translatedChunks` to match DDB column.
       translatedChunks: 0,
       estimatedCompletion,
-      estimatedCost: calculateEstimatedCost(job.totalChunks, 3500), // Assume 3500 tokens per chunk
+      estimatedCost: calculateEstimatedCost(chunksToTranslate, 3500, provider), // Assume 3500 tokens per chunk
       executionArn, // Step Functions execution ARN for tracking
+      glossaryId,
+      sourceLanguage,
+      translationProvider: provider,
+      translationModel: model,
+      translationContextMode: contextMode,
+      translationBriefMode: briefMode,
+      ...(reusedChunks > 0 && { reusedChunks }),
+      ...(warnings.length > 0 && { warnings }),
     };
 
     return createFlatResponse(200, responseBody, requestId, requestOrigin);
@@ -270,7 +432,14 @@ function validateRequest(body: StartTranslationRequest): {
   if (!isValidTargetLanguage(body.targetLanguage)) {
     return {
       valid: false,
-      error: `Invalid targetLanguage: ${body.targetLanguage}. Must be one of: es, fr, it, de, zh`,
+      error: `Invalid targetLanguage: ${body.targetLanguage}. Must be one of: ${LANGUAGE_CODES.join(', ')}`,
+    };
+  }
+
+  if (body.sourceLanguage !== undefined && !isLanguageCode(body.sourceLanguage)) {
+    return {
+      valid: false,
+      error: `Invalid sourceLanguage: ${body.sourceLanguage}. Must be one of: ${LANGUAGE_CODES.join(', ')}`,
     };
   }
 
@@ -284,10 +453,58 @@ function validateRequest(body: StartTranslationRequest): {
     };
   }
 
-  if (body.contextChunks !== undefined && (body.contextChunks < 0 || body.contextChunks > 5)) {
+  // translateChunk fails every chunk given a non-integer, so reject it here.
+  if (
+    body.contextChunks !== undefined &&
+    (typeof body.contextChunks !== 'number' ||
+      !Number.isInteger(body.contextChunks) ||
+      body.contextChunks < 0 ||
+      body.contextChunks > MAX_CONTEXT_CHUNKS)
+  ) {
+    return {
+      valid: false,
+      error: `contextChunks must be an integer between 0 and ${MAX_CONTEXT_CHUNKS}`,
+    };
+  }
+
+  if (
+    body.glossaryId !== undefined &&
+    (typeof body.glossaryId !== 'string' || body.glossaryId.trim().length === 0)
+  ) {
     return {
       valid: false,
-      error: 'contextChunks must be between 0 and 5',
+      error: 'glossaryId must be a non-empty string',
+    };
+  }
+
+  if (body.provider !== undefined && !isTranslationProvider(body.provider)) {
+    return {
+      valid: false,
+      error: `Invalid provider: ${String(body.provider)}. Must be one of: ${TRANSLATION_PROVIDERS.join(', ')}`,
+    };
+  }
+
+  if (
+    body.model !== undefined &&
+    (typeof body.model !== 'string' || !MODEL_ID_PATTERN.test(body.model))
+  ) {
+    return {
+      valid: false,
+      error: `Invalid model: ${body.model}`,
+    };
+  }
+
+  if (body.contextMode !== undefined && !isTranslationContextMode(body.contextMode)) {
+    return {
+      valid: false,
+      error: `Invalid contextMode: ${String(body.contextMode)}. Must be one of: ${TRANSLATION_CONTEXT_MODES.join(', ')}`,
+    };
+  }
+
+  if (body.briefMode !== undefined && !isTranslationBriefMode(body.briefMode)) {
+    return {
+      valid: false,
+      error: `Invalid briefMode: ${String(body.briefMode)}. Must be one of: ${TRANSLATION_BRIEF_MODES.join(', ')}`,
     };
   }
 
@@ -323,13 +540,41 @@ async function initializeTranslation(
     tone?: string;
     contextChunks: number;
     totalChunks: number;
+    glossaryId?: string;
+    sourceLanguageOverride?: string;
+    provider: TranslationProviderName;
+    model: string;
+    contextMode: TranslationContextMode;
+    briefMode: TranslationBriefMode;
   }
 ): Promise<void> {
+  // glossaryId is SET when present and REMOVEd otherwise, so a retry
+  // without a glossary doesn't inherit the previous run's value.
+  const glossaryClause = params.glossaryId ? ', glossaryId = :glossaryId' : '';
+  // A user override replaces the detection outright; its confidence no
+  // longer describes the stored value.
+  const sourceClause = params.sourceLanguageOverride ? ', sourceLanguage = :sourceLanguage' : '';
+  // Translation memory counters are ADDed per chunk (translateChunk.ts);
+  // removing them restarts the count without an ADD-on-missing special case.
+  // The failed chunks of an earlier run no longer need a retry.
+  const removed = [
+    ...(params.glossaryId ? [] : ['glossaryId']),
+    ...(params.sourceLanguageOverride ? ['sourceLanguageConfidence'] : []),
+    'memorySegments',
+    'memoryReusedSegments',
+    'memorySavedTokens',
+    'failedChunkIndexes',
+  ];
+  const removeClause = ` REMOVE ${removed.join(', ')}`;
+
   const command = new UpdateItemCommand({
     TableName: JOBS_TABLE,
     Key: marshall({ jobId, userId }),
     UpdateExpression:
-      'SET translationStatus = :status, targetLanguage = :lang, translationTone = :tone, translationContextChunks = :context, translatedChunks = :translated, translationStartedAt = :startedAt, tokensUsed = :tokens, estimatedCost = :cost, updatedAt = :updatedAt',
+      'SET translationStatus = :status, targetLanguage = :lang, translationTone = :tone, translationContextChunks = :context, translatedChunks = :translated, translationStartedAt = :startedAt, tokensUsed = :tokens, estimatedCost = :cost, translationProvider = :provider, translationModel = :model, translationContextMode = :contextMode, translationBriefMode = :briefMode, qualityFlags = :noFlags, updatedAt = :updatedAt' +
+      glossaryClause +
+      sourceClause +
+      removeClause,
     ExpressionAttributeValues: marshall({
       ':status': 'IN_PROGRESS',
       ':lang': params.targetLanguage,
@@ -339,7 +584,17 @@ async function initializeTranslation(
       ':startedAt': new Date().toISOString(),
       ':tokens': 0,
       ':cost': 0,
+      ':provider': params.provider,
+      ':model': params.model,
+      ':contextMode': params.contextMode,
+      ':briefMode': params.briefMode,
+      // translateChunk SETs qualityFlags.{chunkIndex}, which needs the map
+      ':noFlags': {},
       ':updatedAt': new Date().toISOString(),
+      ...(params.glossaryId ? { ':glossaryId': params.glossaryId } : {}),
+      ...(params.sourceLanguageOverride
+        ? { ':sourceLanguage': params.sourceLanguageOverride }
+        : {}),
     }),
   });
 
@@ -354,61 +609,13 @@ async function initializeTranslation(
 }
 
 /**
- * Start Step Functions state machine execution
- */
-async function startStateMachineExecution(
-  jobId: string,
-  userId: string,
-  params: {
-    targetLanguage: string;
-    tone?: string;
-    contextChunks: number;
-    totalChunks: number;
-  }
-): Promise<string> {
-  // Load chunk metadata from S3 to build chunks array for state machine
-  const chunks = [];
-  for (let i = 0; i < params.totalChunks; i++) {
-    chunks.push({
-      chunkIndex: i,
-    });
-  }
-
-  const input = {
-    jobId,
-    userId,
-    targetLanguage: params.targetLanguage,
-    tone: params.tone || 'neutral',
-    contextChunks: params.contextChunks,
-    chunks,
-  };
-
-  // Construct state machine ARN dynamically
-  const stateMachineArn = await getStateMachineArn();
-
-  const command = new StartExecutionCommand({
-    stateMachineArn,
-    name: `${jobId}-${Date.now()}`, // Unique execution name
-    input: JSON.stringify(input),
-  });
-
-  const response: StartExecutionCommandOutput = await sfnClient.send(command);
-
-  logger.info('Started Step Functions execution', {
-    jobId,
-    executionArn: response.executionArn,
-    totalChunks: params.totalChunks,
-  });
-
-  return response.executionArn!;
-}
-
-/**
- * Calculate estimated cost based on token count
- * Gemini 1.5 Pro: $0.075 per 1M input tokens
+ * Calculate estimated cost based on token count and provider
  */
-function calculateEstimatedCost(totalChunks: number, tokensPerChunk: number): number {
+function calculateEstimatedCost(
+  totalChunks: number,
+  tokensPerChunk: number,
+  provider: TranslationProviderName
+): number {
   const totalTokens = totalChunks * tokensPerChunk;
-  const costPerMillionTokens = 0.075;
-  return (totalTokens / 1_000_000) * costPerMillionTokens;
+  return (totalTokens / 1_000_000) * ESTIMATE_COST_PER_MILLION_TOKENS[provider];
 }
@@ -367,6 +367,60 @@ describe('uploadRequest Lambda Function - Comprehensive Coverage', () => {
       expect(result.statusCode).toBe(400);
     });
 
+    it('should accept a Word document (.docx)', async () => {
+      const contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+      const event = createMockEvent({
+        fileName: 'manuscript.docx',
+        fileSize: 50000,
+        contentType,
+      });
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.requiredHeaders['Content-Type']).toBe(contentType);
+    });
+
+    it('should accept an e-book (.epub)', async () => {
+      const event = createMockEvent({
+        fileName: 'novel.epub',
+        fileSize: 50000,
+        contentType: 'application/epub+zip',
+      });
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.requiredHeaders['Content-Type']).toBe('application/epub+zip');
+    });
+
+    it.each([
+      ['episode.srt', 'application/x-subrip'],
+      ['episode.vtt', 'text/vtt'],
+    ])('should accept subtitles (%s)', async (fileName, contentType) => {
+      const event = createMockEvent({ fileName, fileSize: 50000, contentType });
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.requiredHeaders['Content-Type']).toBe(contentType);
+    });
+
+    it('should reject a .docx filename declared as text/plain', async () => {
+      const event = createMockEvent({
+        fileName: 'manuscript.docx',
+        fileSize: 50000,
+        contentType: 'text/plain',
+      });
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+    });
+
     it('should reject file with double extension (.txt.exe)', async () => {
       const event = createMockEvent({
         fileName: 'malicious.txt.exe',
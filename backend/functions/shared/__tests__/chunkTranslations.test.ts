@@ -0,0 +1,181 @@
+/**
+ * Unit tests for reading and snapshotting chunk translations, against an
+ * in-memory bucket so a chunk can be edited, revised and read back the way
+ * the handlers do it in turn.
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  CopyObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { DynamoDBJob } from '@lfmt/shared-types';
+import {
+  chunkEditKey,
+  copyChunkTranslation,
+  encodeEditMetadata,
+  latestEditsByChunk,
+  listChunkEdits,
+  machineTranslationKey,
+  readChunkTranslation,
+} from '../chunkTranslations';
+
+const BUCKET = 'test-bucket';
+const s3Mock = mockClient(S3Client);
+const client = new S3Client({});
+
+interface StoredObject {
+  body: string;
+  metadata: Record<string, string>;
+  lastModified: Date;
+}
+
+describe('chunk translations', () => {
+  let objects: Map<string, StoredObject>;
+  let now: number;
+
+  /** Write an object a minute after the previous one. */
+  function put(key: string, body: string, metadata: Record<string, string> = {}) {
+    now += 60_000;
+    objects.set(key, { body, metadata: lowerCaseKeys(metadata), lastModified: new Date(now) });
+  }
+
+  function lowerCaseKeys(metadata: Record<string, string>) {
+    return Object.fromEntries(Object.entries(metadata).map(([k, v]) => [k.toLowerCase(), v]));
+  }
+
+  function stored(key: string | undefined): StoredObject {
+    const object = key && objects.get(key);
+    if (!object) {
+      throw new NoSuchKey({ message: 'The specified key does not exist.', $metadata: {} });
+    }
+    return object;
+  }
+
+  beforeEach(() => {
+    s3Mock.reset();
+    objects = new Map();
+    now = Date.parse('2026-03-01T08:00:00Z');
+
+    s3Mock.on(GetObjectCommand).callsFake((input) => {
+      const object = stored(input.Key);
+      return {
+        Body: { transformToString: async () => object.body },
+        Metadata: object.metadata,
+        LastModified: object.lastModified,
+      };
+    });
+    s3Mock.on(HeadObjectCommand).callsFake((input) => {
+      const object = stored(input.Key);
+      return { Metadata: object.metadata, LastModified: object.lastModified };
+    });
+    s3Mock.on(PutObjectCommand).callsFake((input) => {
+      put(input.Key!, String(input.Body), input.Metadata);
+      return {};
+    });
+    s3Mock.on(CopyObjectCommand).callsFake((input) => {
+      const source = stored(input.CopySource!.slice(BUCKET.length + 1));
+      put(
+        input.Key!,
+        source.body,
+        input.MetadataDirective === 'REPLACE' ? (input.Metadata ?? {}) : source.metadata
+      );
+      return {};
+    });
+    s3Mock.on(ListObjectsV2Command).callsFake((input) => ({
+      Contents: [...objects]
+        .filter(([key]) => key.startsWith(input.Prefix!))
+        .map(([key, object]) => ({ Key: key, LastModified: object.lastModified })),
+    }));
+  });
+
+  const job = (translationStartedAt: string): DynamoDBJob =>
+    ({
+      jobId: 'job-1',
+      userId: 'user-1',
+      translationStatus: 'COMPLETED',
+      translationStartedAt,
+    }) as DynamoDBJob;
+
+  it('reads the newest edit over the machine translation', async () => {
+    const startedAt = new Date(now).toISOString();
+    put(machineTranslationKey('job-1', 0), 'Llovió.');
+    put(chunkEditKey('job-1', 0, 1), 'Llovía.', encodeEditMetadata(edit()));
+
+    expect(await readChunkTranslation(client, BUCKET, job(startedAt), 0)).toEqual({
+      text: 'Llovía.',
+      alignment: undefined,
+      version: 1,
+    });
+  });
+
+  it('keeps an edit through a revision that reuses the chunk', async () => {
+    put(machineTranslationKey('job-1', 0), 'Llovió.\n\nEl río creció.');
+    put(
+      chunkEditKey('job-1', 0, 1),
+      'Llovía.\n\nEl río\n\ncreció.',
+      encodeEditMetadata(edit({ alignment: [1, 2] }))
+    );
+
+    // The revision is uploaded: chunkDocument snapshots the translation...
+    const edits = latestEditsByChunk(await listChunkEdits(client, BUCKET, 'job-1'));
+    await copyChunkTranslation(
+      client,
+      BUCKET,
+      'job-1',
+      0,
+      edits.get(0),
+      'revisions/job-1/1/chunk-0.txt'
+    );
+    // ...and translateChunk copies the unchanged chunk back once the
+    // revision is translated.
+    const revisionStartedAt = new Date(now + 1000).toISOString();
+    await client.send(
+      new CopyObjectCommand({
+        Bucket: BUCKET,
+        CopySource: `${BUCKET}/revisions/job-1/1/chunk-0.txt`,
+        Key: machineTranslationKey('job-1', 0),
+      })
+    );
+
+    expect(await readChunkTranslation(client, BUCKET, job(revisionStartedAt), 0)).toEqual({
+      text: 'Llovía.\n\nEl río\n\ncreció.',
+      alignment: [1, 2],
+      version: 0,
+    });
+  });
+
+  it('snapshots the machine translation when it was retranslated after the edit', async () => {
+    put(chunkEditKey('job-1', 0, 1), 'Llovía.', encodeEditMetadata(edit()));
+    put(machineTranslationKey('job-1', 0), 'Llovió de nuevo.', { paragraphAlignment: '1' });
+
+    const edits = latestEditsByChunk(await listChunkEdits(client, BUCKET, 'job-1'));
+    await copyChunkTranslation(
+      client,
+      BUCKET,
+      'job-1',
+      0,
+      edits.get(0),
+      'revisions/job-1/1/chunk-0.txt'
+    );
+
+    expect(objects.get('revisions/job-1/1/chunk-0.txt')).toMatchObject({
+      body: 'Llovió de nuevo.',
+      metadata: { paragraphalignment: '1' },
+    });
+  });
+
+  function edit(overrides: { alignment?: number[] } = {}) {
+    return {
+      author: 'user-1',
+      savedAt: new Date(now).toISOString(),
+      baseVersion: 0,
+      ...overrides,
+    };
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the glossary matcher
+ */
+
+import {
+  glossaryTermOccursIn,
+  MAX_PROMPT_GLOSSARY_TERMS,
+  selectGlossaryTermsForText,
+} from '../glossaryMatcher';
+
+describe('glossaryTermOccursIn', () => {
+  it('matches case-insensitively by default', () => {
+    expect(glossaryTermOccursIn({ source: 'Gandalf', target: 'Gandalf' }, 'GANDALF said')).toBe(
+      true
+    );
+  });
+
+  it('honours caseSensitive', () => {
+    const term = { source: 'Will', target: 'Guillermo', caseSensitive: true };
+    expect(glossaryTermOccursIn(term, 'I will go.')).toBe(false);
+    expect(glossaryTermOccursIn(term, 'Will went.')).toBe(true);
+  });
+
+  it('requires whole-word matches for space-delimited scripts', () => {
+    const term = { source: 'Ann', target: 'Ana' };
+    expect(glossaryTermOccursIn(term, 'The annual report')).toBe(false);
+    expect(glossaryTermOccursIn(term, 'Ann, the annual reporter')).toBe(true);
+  });
+
+  it('applies word boundaries to accented and Cyrillic letters', () => {
+    expect(glossaryTermOccursIn({ source: 'Zoë', target: 'Zoé' }, 'Zoëtrope')).toBe(false);
+    expect(glossaryTermOccursIn({ source: 'Иван', target: 'Ivan' }, 'Иваново')).toBe(false);
+    expect(glossaryTermOccursIn({ source: 'Иван', target: 'Ivan' }, 'Сказал Иван.')).toBe(true);
+  });
+
+  it('skips word boundaries for unspaced scripts', () => {
+    expect(glossaryTermOccursIn({ source: '東京', target: 'Tokyo' }, '彼は東京に行った')).toBe(
+      true
+    );
+  });
+
+  it('escapes regular-expression metacharacters', () => {
+    expect(glossaryTermOccursIn({ source: 'C++', target: 'C++' }, 'Written in C++ today')).toBe(
+      true
+    );
+    expect(glossaryTermOccursIn({ source: 'a.b', target: 'x' }, 'axb')).toBe(false);
+  });
+
+  it('never matches a blank source term', () => {
+    expect(glossaryTermOccursIn({ source: '   ', target: 'x' }, 'anything')).toBe(false);
+  });
+});
+
+describe('selectGlossaryTermsForText', () => {
+  it('returns only occurring terms in glossary order', () => {
+    const terms = [
+      { source: 'Mordor', target: 'Mordor' },
+      { source: 'Shire', target: 'Comarca' },
+      { source: 'Frodo', target: 'Frodo' },
+    ];
+
+    const selected = selectGlossaryTermsForText(terms, 'Frodo left the Shire.');
+
+    expect(selected.map((t) => t.source)).toEqual(['Shire', 'Frodo']);
+  });
+
+  it('de-duplicates terms with the same source', () => {
+    const terms = [
+      { source: 'Shire', target: 'Comarca' },
+      { source: 'shire', target: 'La Comarca' },
+    ];
+
+    expect(selectGlossaryTermsForText(terms, 'the Shire')).toHaveLength(1);
+  });
+
+  it('caps the selection at MAX_PROMPT_GLOSSARY_TERMS', () => {
+    const terms = Array.from({ length: MAX_PROMPT_GLOSSARY_TERMS + 50 }, (_, i) => ({
+      source: `term${i}`,
+      target: `t${i}`,
+    }));
+    const text = terms.map((t) => t.source).join(' ');
+
+    expect(selectGlossaryTermsForText(terms, text)).toHaveLength(MAX_PROMPT_GLOSSARY_TERMS);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the source language detector
+ */
+
+import { detectLanguage, RELIABLE_DETECTION_CONFIDENCE } from '../languageDetector';
+
+describe('detectLanguage', () => {
+  it.each([
+    [
+      'en',
+      'It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness, and we had everything before us.',
+    ],
+    [
+      'fr',
+      "Longtemps, je me suis couché de bonne heure. Parfois, à peine ma bougie éteinte, mes yeux se fermaient si vite que je n'avais pas le temps de me dire : Je m'endors.",
+    ],
+    [
+      'de',
+      'Als Gregor Samsa eines Morgens aus unruhigen Träumen erwachte, fand er sich in seinem Bett zu einem ungeheueren Ungeziefer verwandelt. Er lag auf seinem panzerartig harten Rücken.',
+    ],
+    [
+      'es',
+      'En un lugar de la Mancha, de cuyo nombre no quiero acordarme, no ha mucho tiempo que vivía un hidalgo de los de lanza en astillero, adarga antigua, rocín flaco y galgo corredor.',
+    ],
+    [
+      'it',
+      'Nel mezzo del cammin di nostra vita mi ritrovai per una selva oscura, ché la diritta via era smarrita. Ahi quanto a dir qual era è cosa dura.',
+    ],
+  ])('reliably detects %s prose', (language, text) => {
+    const result = detectLanguage(text);
+
+    expect(result?.language).toBe(language);
+    expect(result!.confidence).toBeGreaterThanOrEqual(RELIABLE_DETECTION_CONFIDENCE);
+  });
+
+  it.each([
+    ['zh', '我们在这里讨论翻译的问题，这是一本很长的小说，需要保持风格一致。'],
+    ['ja', '吾輩は猫である。名前はまだ無い。どこで生れたかとんと見当がつかぬ。'],
+    ['ko', '나는 오늘 아침에 학교에 갔다. 친구들과 함께 점심을 먹었다.'],
+    [
+      'ru',
+      'Все счастливые семьи похожи друг на друга, каждая несчастливая семья несчастлива по-своему.',
+    ],
+  ])('detects %s from its script', (language, text) => {
+    expect(detectLanguage(text)?.language).toBe(language);
+  });
+
+  it('returns null for samples that are too short', () => {
+    expect(detectLanguage('Hello')).toBeNull();
+  });
+
+  it('returns null when no stop word matches', () => {
+    expect(detectLanguage('Xylophone zebra quixotic jukebox fjord nymph waltz')).toBeNull();
+  });
+
+  it('lowers confidence for mixed-script text', () => {
+    const english = 'It was the best of times and the worst of times for all of us.';
+    const pure = detectLanguage(english)!;
+    const mixed = detectLanguage(`${english} Все счастливые семьи похожи друг на друга.`)!;
+
+    expect(mixed.language).toBe('en');
+    expect(mixed.confidence).toBeLessThan(pure.confidence);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for subtitle cue parsing, validation and serialization
+ */
+
+import {
+  formatCueBlock,
+  parseSubtitles,
+  serializeSubtitles,
+  validateSubtitleTranslation,
+} from '../subtitles';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:02,500',
+  'Hello there.',
+  '',
+  '2',
+  '00:00:03,000 --> 00:00:05,000',
+  'How are you?',
+  'Fine, thanks.',
+  '',
+].join('\r\n');
+
+const VTT = [
+  'WEBVTT - Episode 1',
+  '',
+  'NOTE written by hand',
+  '',
+  'intro',
+  '00:01.000 --> 00:02.500 align:start',
+  'Hello there.',
+  '',
+  '00:00:03.000 --> 00:00:05.000',
+  'How are you?',
+  '',
+].join('\n');
+
+describe('parseSubtitles', () => {
+  it('splits SRT into numbered cues, tolerating a BOM and CRLF', () => {
+    expect(parseSubtitles('\uFEFF' + SRT, 'srt')).toEqual([
+      { identifier: '1', timing: '00:00:01,000 --> 00:00:02,500', lines: ['Hello there.'] },
+      {
+        identifier: '2',
+        timing: '00:00:03,000 --> 00:00:05,000',
+        lines: ['How are you?', 'Fine, thanks.'],
+      },
+    ]);
+  });
+
+  it('drops the WebVTT header and NOTE blocks and keeps optional identifiers', () => {
+    expect(parseSubtitles(VTT, 'vtt')).toEqual([
+      {
+        identifier: 'intro',
+        timing: '00:01.000 --> 00:02.500 align:start',
+        lines: ['Hello there.'],
+      },
+      { identifier: undefined, timing: '00:00:03.000 --> 00:00:05.000', lines: ['How are you?'] },
+    ]);
+  });
+
+  it('rejects a block without a timing line', () => {
+    expect(() => parseSubtitles('1\nHello there.', 'srt')).toThrow(
+      'Subtitle cue 1 has no timing line'
+    );
+  });
+
+  it('round-trips cue blocks through formatCueBlock', () => {
+    const blocks = parseSubtitles(SRT, 'srt').map(formatCueBlock);
+    expect(blocks[1]).toBe('2\n00:00:03,000 --> 00:00:05,000\nHow are you?\nFine, thanks.');
+  });
+});
+
+describe('serializeSubtitles', () => {
+  it('writes VTT cues as SRT, renumbered and without cue settings', () => {
+    expect(serializeSubtitles(parseSubtitles(VTT, 'vtt'), 'srt')).toBe(
+      [
+        '1',
+        '00:00:01,000 --> 00:00:02,500',
+        'Hello there.',
+        '',
+        '2',
+        '00:00:03,000 --> 00:00:05,000',
+        'How are you?',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes SRT cues as VTT with a header and dotted milliseconds', () => {
+    expect(serializeSubtitles(parseSubtitles(SRT, 'srt'), 'vtt')).toBe(
+      [
+        'WEBVTT',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:02.500',
+        'Hello there.',
+        '',
+        '2',
+        '00:00:03.000 --> 00:00:05.000',
+        'How are you?',
+        'Fine, thanks.',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('validateSubtitleTranslation', () => {
+  const translated = SRT.replace('Hello there.', 'Hola.').replace('How are you?', '¿Qué tal?');
+
+  it('accepts a translation that only changes cue text', () => {
+    expect(validateSubtitleTranslation(SRT, translated, 'srt')).toEqual({
+      isValid: true,
+      errors: [],
+    });
+  });
+
+  it('rejects a translation with a different cue count', () => {
+    const merged = '1\n00:00:01,000 --> 00:00:05,000\nHola. ¿Qué tal?';
+    expect(validateSubtitleTranslation(SRT, merged, 'srt')).toEqual({
+      isValid: false,
+      errors: ['Expected 2 cues, got 1'],
+    });
+  });
+
+  it('rejects a translation that rewrites a timing line', () => {
+    const shifted = translated.replace('00:00:01,000', '00:00:01.000');
+    expect(validateSubtitleTranslation(SRT, shifted, 'srt').errors).toEqual([
+      'Cue 1 timing changed from "00:00:01,000 --> 00:00:02,500" to "00:00:01.000 --> 00:00:02,500"',
+    ]);
+  });
+
+  it('rejects a response that is not made of cues', () => {
+    expect(validateSubtitleTranslation(SRT, 'Hola. ¿Qué tal?', 'srt')).toEqual({
+      isValid: false,
+      errors: ['Subtitle cue 1 has no timing line'],
+    });
+  });
+});
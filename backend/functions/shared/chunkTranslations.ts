@@ -0,0 +1,353 @@
+/**
+ * Chunk Translations
+ *
+ * Reads a chunk's translation as the editor sees it. translateChunk writes
+ * the machine translation to `translated/{jobId}/chunk-{index}.txt`; every
+ * save from the editor adds a numbered version next to it in the same
+ * bucket, `translated-edits/{jobId}/chunk-{index}/v{version}.txt`, so the
+ * machine output is never overwritten and any two versions can be diffed.
+ * The machine translation counts as version 0.
+ *
+ * The newest edit is the chunk's translation unless the machine
+ * translation was written after it — a chunk retranslated, or a revision
+ * translated, replaces the edits made to the old text.
+ *
+ * Edits live under their own prefix so nothing that lists `translated/`
+ * (download assembly, findUntranslatedChunks) mistakes them for chunks.
+ * What was saved with an edit — author, note, word counts — is kept in
+ * the edit object's metadata (see encodeEditMetadata).
+ */
+
+import {
+  S3Client,
+  CopyObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
+  NoSuchKey,
+} from '@aws-sdk/client-s3';
+import { DynamoDBJob, ParagraphAlignment } from '@lfmt/shared-types';
+
+const EDIT_KEY = /\/chunk-(\d+)\/v(\d+)\.txt$/;
+
+/** A saved edit of a chunk's translation, as listed in the bucket. */
+export interface ChunkEditObject {
+  chunkIndex: number;
+  version: number;
+  key: string;
+  lastModified: Date;
+}
+
+/** A chunk's translation: the machine output, or the edit that replaced it. */
+export interface ChunkTranslation {
+  text: string;
+  alignment?: ParagraphAlignment;
+  /** 0 for the machine translation. */
+  version: number;
+}
+
+/** What was saved with an edit, kept in the edit object's metadata. */
+export interface ChunkEditMetadata {
+  /** User id of the editor. */
+  author: string;
+  savedAt: string;
+  /** The version the edit was made from; 0 for the machine translation. */
+  baseVersion: number;
+  alignment?: ParagraphAlignment;
+  note?: string;
+  wordCount?: number;
+  /** Words added and removed relative to the base version (shared-types diffWords). */
+  wordsAdded?: number;
+  wordsRemoved?: number;
+}
+
+export function machineTranslationKey(jobId: string, chunkIndex: number): string {
+  return `translated/${jobId}/chunk-${chunkIndex}.txt`;
+}
+
+export function chunkEditKey(jobId: string, chunkIndex: number, version: number): string {
+  return `translated-edits/${jobId}/chunk-${chunkIndex}/v${version}.txt`;
+}
+
+/**
+ * The saved edits of a job's chunks — of one chunk when `chunkIndex` is
+ * given — ordered by chunk, then version.
+ *
+ * @param client - S3Client instance (caller manages lifecycle)
+ * @param bucket - Chunks bucket name from environment
+ */
+export async function listChunkEdits(
+  client: S3Client,
+  bucket: string,
+  jobId: string,
+  chunkIndex?: number
+): Promise<ChunkEditObject[]> {
+  const prefix =
+    chunkIndex === undefined
+      ? `translated-edits/${jobId}/`
+      : `translated-edits/${jobId}/chunk-${chunkIndex}/`;
+  const edits: ChunkEditObject[] = [];
+
+  let continuationToken: string | undefined;
+  do {
+    const response: ListObjectsV2CommandOutput = await client.send(
+      new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+
+    for (const object of response.Contents ?? []) {
+      const match = object.Key?.match(EDIT_KEY);
+      if (match && object.Key) {
+        edits.push({
+          chunkIndex: Number(match[1]),
+          version: Number(match[2]),
+          key: object.Key,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return edits.sort((a, b) => a.chunkIndex - b.chunkIndex || a.version - b.version);
+}
+
+/**
+ * The newest edit of each chunk that `edits` covers.
+ */
+export function latestEditsByChunk(edits: ChunkEditObject[]): Map<number, ChunkEditObject> {
+  const latest = new Map<number, ChunkEditObject>();
+  for (const edit of edits) {
+    const current = latest.get(edit.chunkIndex);
+    if (!current || edit.version > current.version) {
+      latest.set(edit.chunkIndex, edit);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Whether an edit replaces the machine translation last modified at
+ * `machineModified`. S3 reports LastModified to the second, so an edit
+ * saved in the same second as the machine output counts.
+ */
+export function editSupersedes(edit: ChunkEditObject, machineModified: Date | undefined): boolean {
+  return edit.lastModified.getTime() >= (machineModified?.getTime() ?? 0);
+}
+
+/**
+ * Whether a machine translation last modified at `lastModified` was
+ * written by the job's latest run. S3 reports LastModified to the second.
+ */
+export function translatedInLatestRun(job: DynamoDBJob, lastModified: Date): boolean {
+  if (!job.translationStatus || !job.translationStartedAt) {
+    return false;
+  }
+  const startedAt = Math.floor(Date.parse(job.translationStartedAt) / 1000) * 1000;
+  return lastModified.getTime() >= startedAt;
+}
+
+/**
+ * The machine translation of a chunk and its paragraph alignment (from
+ * the object metadata translateChunk writes), or null when the chunk has
+ * not been translated since the job's latest run started: after a
+ * revision is uploaded, `translated/` still holds the previous revision's
+ * text until the revision is translated.
+ */
+export async function readMachineTranslation(
+  client: S3Client,
+  bucket: string,
+  job: DynamoDBJob,
+  chunkIndex: number
+): Promise<{ text: string; alignment?: ParagraphAlignment; lastModified: Date } | null> {
+  if (!job.translationStatus || !job.translationStartedAt) {
+    return null;
+  }
+
+  const response = await getObjectOrNull(
+    client,
+    bucket,
+    machineTranslationKey(job.jobId, chunkIndex)
+  );
+  const lastModified = response?.LastModified ?? new Date(0);
+  if (!response?.Body || !translatedInLatestRun(job, lastModified)) {
+    return null;
+  }
+
+  return {
+    text: await response.Body.transformToString('utf-8'),
+    alignment: parseAlignment(response.Metadata?.paragraphalignment),
+    lastModified,
+  };
+}
+
+/**
+ * The chunk's current translation — its newest edit, unless the machine
+ * translation replaced it — or null when the latest run has not
+ * translated the chunk.
+ */
+export async function readChunkTranslation(
+  client: S3Client,
+  bucket: string,
+  job: DynamoDBJob,
+  chunkIndex: number
+): Promise<ChunkTranslation | null> {
+  const [machine, edits] = await Promise.all([
+    readMachineTranslation(client, bucket, job, chunkIndex),
+    listChunkEdits(client, bucket, job.jobId, chunkIndex),
+  ]);
+  if (!machine) {
+    return null;
+  }
+
+  const edit = latestEditsByChunk(edits).get(chunkIndex);
+  if (!edit || !editSupersedes(edit, machine.lastModified)) {
+    return { text: machine.text, alignment: machine.alignment, version: 0 };
+  }
+
+  const { text, metadata } = await readChunkEdit(client, bucket, edit);
+  return { text, alignment: metadata.alignment, version: edit.version };
+}
+
+/**
+ * Copy a chunk's current translation — its newest edit (`latestEdit`),
+ * unless the machine translation was written after it — to `destinationKey`
+ * without reading it, with its paragraph alignment as the machine output's
+ * metadata. Unlike readChunkTranslation this does not ask whether the
+ * job's latest run wrote the machine translation: it snapshots a completed
+ * translation, whose run the caller has already moved past.
+ */
+export async function copyChunkTranslation(
+  client: S3Client,
+  bucket: string,
+  jobId: string,
+  chunkIndex: number,
+  latestEdit: ChunkEditObject | undefined,
+  destinationKey: string
+): Promise<void> {
+  const machineKey = machineTranslationKey(jobId, chunkIndex);
+  if (latestEdit) {
+    const machine = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: machineKey }));
+    if (editSupersedes(latestEdit, machine.LastModified)) {
+      const { alignment } = await headChunkEdit(client, bucket, latestEdit);
+      await client.send(
+        new CopyObjectCommand({
+          Bucket: bucket,
+          CopySource: `${bucket}/${latestEdit.key}`,
+          Key: destinationKey,
+          // The edit's author and note stay with the edit.
+          MetadataDirective: 'REPLACE',
+          ContentType: 'text/plain; charset=utf-8',
+          Metadata: alignment ? { paragraphAlignment: alignment.join(',') } : {},
+        })
+      );
+      return;
+    }
+  }
+  await client.send(
+    new CopyObjectCommand({
+      Bucket: bucket,
+      CopySource: `${bucket}/${machineKey}`,
+      Key: destinationKey,
+    })
+  );
+}
+
+/**
+ * A saved edit's text and what was saved with it.
+ */
+export async function readChunkEdit(
+  client: S3Client,
+  bucket: string,
+  edit: ChunkEditObject
+): Promise<{ text: string; metadata: ChunkEditMetadata }> {
+  const response = await getObjectOrNull(client, bucket, edit.key);
+  if (!response?.Body) {
+    throw new Error(`Edit body missing for key: ${edit.key}`);
+  }
+  return {
+    text: await response.Body.transformToString('utf-8'),
+    metadata: decodeEditMetadata(response.Metadata, edit.lastModified),
+  };
+}
+
+/**
+ * What was saved with an edit, without reading its text.
+ */
+export async function headChunkEdit(
+  client: S3Client,
+  bucket: string,
+  edit: ChunkEditObject
+): Promise<ChunkEditMetadata> {
+  const response = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: edit.key }));
+  return decodeEditMetadata(response.Metadata, edit.lastModified);
+}
+
+/**
+ * Object metadata for an edit. Values must be strings (see translateChunk.ts,
+ * issue #172) and US-ASCII, so the free-text note is stored base64-encoded.
+ */
+export function encodeEditMetadata(edit: ChunkEditMetadata): Record<string, string> {
+  return {
+    author: edit.author,
+    savedAt: edit.savedAt,
+    baseVersion: String(edit.baseVersion),
+    ...(edit.alignment && { paragraphAlignment: edit.alignment.join(',') }),
+    ...(edit.note && { note: Buffer.from(edit.note, 'utf8').toString('base64') }),
+    ...(edit.wordCount !== undefined && { wordCount: String(edit.wordCount) }),
+    ...(edit.wordsAdded !== undefined && { wordsAdded: String(edit.wordsAdded) }),
+    ...(edit.wordsRemoved !== undefined && { wordsRemoved: String(edit.wordsRemoved) }),
+  };
+}
+
+/**
+ * Read back encodeEditMetadata's values (S3 returns user metadata keys in
+ * lower case). Edits saved before a field existed simply lack it.
+ */
+export function decodeEditMetadata(
+  metadata: Record<string, string> | undefined,
+  lastModified: Date
+): ChunkEditMetadata {
+  const count = (value: string | undefined) => {
+    const n = Number(value);
+    return value !== undefined && Number.isInteger(n) && n >= 0 ? n : undefined;
+  };
+  return {
+    author: metadata?.author ?? 'unknown',
+    savedAt: metadata?.savedat ?? lastModified.toISOString(),
+    baseVersion: count(metadata?.baseversion) ?? 0,
+    alignment: parseAlignment(metadata?.paragraphalignment),
+    note: metadata?.note ? Buffer.from(metadata.note, 'base64').toString('utf8') : undefined,
+    wordCount: count(metadata?.wordcount),
+    wordsAdded: count(metadata?.wordsadded),
+    wordsRemoved: count(metadata?.wordsremoved),
+  };
+}
+
+/**
+ * Parse a comma-joined ParagraphAlignment from object metadata (S3
+ * returns user metadata keys in lower case).
+ */
+export function parseAlignment(value: string | undefined): ParagraphAlignment | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const counts = value.split(',').map(Number);
+  return counts.every((count) => Number.isInteger(count) && count >= 0) ? counts : undefined;
+}
+
+async function getObjectOrNull(client: S3Client, bucket: string, key: string) {
+  try {
+    return await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  } catch (error) {
+    if (error instanceof NoSuchKey) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Comment Repository
+ *
+ * Loads the comment threads of a job, shared by the comments handler
+ * (jobs/jobComments.ts) and the review PDF export in downloadTranslation.ts.
+ *
+ * The Comments table is keyed by jobId HASH + threadId RANGE, so all the
+ * threads of a job are one Query. It carries no userId: callers check that
+ * the caller may read the job (loadJobForUser, or loadJobForUserOrReviewer
+ * for the comments handler) before reading its threads.
+ * Threads of a deleted job are left behind like its chunks (see deleteJob.ts);
+ * nothing can reach them without the job.
+ */
+
+import { DynamoDBClient, QueryCommand, QueryCommandOutput } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { CommentSide, CommentThread } from '@lfmt/shared-types';
+
+const SIDE_ORDER: Record<CommentSide, number> = { source: 0, translation: 1 };
+
+/**
+ * Every comment thread of a job, in document order: by chunk, source side
+ * before translation side, then by paragraph and creation time.
+ */
+export async function listCommentThreads(
+  client: DynamoDBClient,
+  tableName: string,
+  jobId: string
+): Promise<CommentThread[]> {
+  const threads: CommentThread[] = [];
+  let exclusiveStartKey: QueryCommandOutput['LastEvaluatedKey'];
+
+  do {
+    const result: QueryCommandOutput = await client.send(
+      new QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: 'jobId = :jobId',
+        ExpressionAttributeValues: marshall({ ':jobId': jobId }),
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    for (const item of result.Items ?? []) {
+      threads.push(unmarshall(item) as CommentThread);
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return threads.sort(compareThreads);
+}
+
+function compareThreads(a: CommentThread, b: CommentThread): number {
+  return (
+    a.chunkIndex - b.chunkIndex ||
+    SIDE_ORDER[a.side] - SIDE_ORDER[b.side] ||
+    a.paragraphIndex - b.paragraphIndex ||
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
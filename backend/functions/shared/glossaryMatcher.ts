@@ -0,0 +1,101 @@
+/**
+ * Glossary Matcher
+ *
+ * Decides which project-glossary terms occur in a piece of source text.
+ * Used by GeminiClient.buildTranslationPrompt so a chunk's prompt carries
+ * ONLY the terms that chunk actually contains — injecting a 2,000-entry
+ * glossary into every one of ~115 chunk prompts would burn TPM budget on
+ * terms the model never needs to see.
+ *
+ * Matching rules:
+ * - Case-insensitive unless the term sets `caseSensitive`.
+ * - Whole-word for space-delimited scripts: "Ann" must not match inside
+ *   "Annual". The boundary test is Unicode-aware (`\p{L}` / `\p{N}`), so
+ *   accented Latin and Cyrillic terms behave the same as ASCII ones.
+ * - No word boundary for scripts written without spaces (Han, Hiragana,
+ *   Katakana, Thai) — a boundary requirement there would never match.
+ */
+
+import type { GlossaryTerm } from '@lfmt/shared-types';
+
+/**
+ * Upper bound on the number of glossary terms injected into one prompt.
+ *
+ * A chunk of ~3,500 tokens cannot plausibly mention more distinct named
+ * entities than this; the cap only bites on adversarial glossaries made of
+ * common words, where it keeps the prompt overhead bounded.
+ */
+export const MAX_PROMPT_GLOSSARY_TERMS = 200;
+
+/** Scripts written without inter-word spaces — whole-word matching is skipped. */
+const UNSPACED_SCRIPT_CHAR =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/** Letter or digit — the characters a whole-word match must not be adjacent to. */
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the RegExp used to find `term.source` in source text.
+ * Exported for the glossary compliance report, which needs the same
+ * matching semantics when scanning chunked source after translation.
+ */
+export function buildGlossaryTermPattern(term: GlossaryTerm, global = false): RegExp {
+  const source = term.source.trim();
+  const first = source.charAt(0);
+  const last = source.charAt(source.length - 1);
+
+  const needsLeadingBoundary = !UNSPACED_SCRIPT_CHAR.test(first);
+  const needsTrailingBoundary = !UNSPACED_SCRIPT_CHAR.test(last);
+
+  const pattern =
+    (needsLeadingBoundary ? `(?<!${WORD_CHAR})` : '') +
+    escapeRegExp(source) +
+    (needsTrailingBoundary ? `(?!${WORD_CHAR})` : '');
+
+  const flags = 'u' + (term.caseSensitive ? '' : 'i') + (global ? 'g' : '');
+  return new RegExp(pattern, flags);
+}
+
+/**
+ * Whether `term.source` occurs in `text` under the matching rules above.
+ */
+export function glossaryTermOccursIn(term: GlossaryTerm, text: string): boolean {
+  if (!term.source || term.source.trim().length === 0) {
+    return false;
+  }
+  return buildGlossaryTermPattern(term).test(text);
+}
+
+/**
+ * Return the subset of `terms` that occur in `text`, in glossary order,
+ * de-duplicated by source term and capped at MAX_PROMPT_GLOSSARY_TERMS.
+ */
+export function selectGlossaryTermsForText(
+  terms: readonly GlossaryTerm[],
+  text: string
+): GlossaryTerm[] {
+  const selected: GlossaryTerm[] = [];
+  const seen = new Set<string>();
+
+  for (const term of terms) {
+    if (selected.length >= MAX_PROMPT_GLOSSARY_TERMS) {
+      break;
+    }
+
+    const key = term.caseSensitive ? term.source.trim() : term.source.trim().toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+
+    if (glossaryTermOccursIn(term, text)) {
+      seen.add(key);
+      selected.push(term);
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,48 @@
+/**
+ * Glossary Repository
+ *
+ * Ownership-enforcing loader for project glossaries, shared by the glossary
+ * CRUD handler, startTranslation.ts (validates `glossaryId` before starting
+ * the workflow) and translateChunk.ts (loads the terms for the prompt).
+ *
+ * The Glossaries table uses a composite primary key (userId HASH +
+ * glossaryId RANGE), so GetItem with both keys enforces ownership at the
+ * database level, exactly like loadJobForUser in jobRepository.ts. Callers
+ * map null → 404 (NOT 403) to avoid leaking glossary existence.
+ */
+
+import { DynamoDBClient, GetItemCommand, GetItemCommandOutput } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { Glossary } from '@lfmt/shared-types';
+
+/**
+ * Load a glossary record from DynamoDB, enforcing that it belongs to the caller.
+ *
+ * @param client     - DynamoDBClient instance (caller manages lifecycle)
+ * @param tableName  - Glossaries table name from environment
+ * @param glossaryId - Glossary identifier
+ * @param userId     - Cognito sub of the caller (owner check)
+ * @returns The glossary if it exists AND belongs to userId, otherwise null
+ */
+export async function loadGlossaryForUser(
+  client: DynamoDBClient,
+  tableName: string,
+  glossaryId: string,
+  userId: string
+): Promise<Glossary | null> {
+  const command = new GetItemCommand({
+    TableName: tableName,
+    Key: marshall({ userId, glossaryId }),
+  });
+
+  const result: GetItemCommandOutput = await client.send(command);
+
+  if (!result.Item) {
+    return null;
+  }
+
+  const glossary = unmarshall(result.Item) as Glossary;
+  // Defensive default: a record written by hand (or by an older writer)
+  // without a `terms` list must not crash the prompt builder.
+  return { ...glossary, terms: Array.isArray(glossary.terms) ? glossary.terms : [] };
+}
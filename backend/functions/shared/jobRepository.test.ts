@@ -1,14 +1,21 @@
 /**
  * Unit tests for shared jobRepository
- * Tests the loadJobForUser ownership-enforcing fetch helper.
+ * Tests the loadJobForUser ownership-enforcing fetch helper and the
+ * reviewer lookups through ReviewerJobsIndex.
  */
 
 // Set environment variables BEFORE imports
 process.env.JOBS_TABLE = 'test-jobs-table';
 
 import { mockClient } from 'aws-sdk-client-mock';
-import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
-import { loadJobForUser } from './jobRepository';
+import { DynamoDBClient, GetItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  listJobsForReviewer,
+  loadJobForReviewer,
+  loadJobForUser,
+  loadJobForUserOrReviewer,
+} from './jobRepository';
 
 const dynamoMock = mockClient(DynamoDBClient);
 const client = new DynamoDBClient({});
@@ -66,6 +73,26 @@ describe('loadJobForUser', () => {
     expect(result).toBeNull();
   });
 
+  // ---------------------------------------------------------------------------
+  // Soft delete: a job with deleteAt set is gone to its owner
+  // ---------------------------------------------------------------------------
+
+  it('returns null when the job is soft-deleted', async () => {
+    dynamoMock.on(GetItemCommand).resolves({
+      Item: {
+        jobId: { S: 'job-abc' },
+        userId: { S: 'user-123' },
+        status: { S: 'COMPLETED' },
+        createdAt: { S: '2026-01-01T00:00:00.000Z' },
+        deleteAt: { N: '1790000000' },
+      },
+    } as any);
+
+    const result = await loadJobForUser(client, 'test-jobs-table', 'job-abc', 'user-123');
+
+    expect(result).toBeNull();
+  });
+
   // ---------------------------------------------------------------------------
   // Passes correct keys to DynamoDB (spot-check the marshall call)
   // ---------------------------------------------------------------------------
@@ -96,3 +123,118 @@ describe('loadJobForUser', () => {
     );
   });
 });
+
+describe('reviewer lookups', () => {
+  const reviewedJob = {
+    jobId: 'job-abc',
+    userId: 'user-123',
+    status: 'IN_REVIEW',
+    reviewerEmail: 'reviewer@example.com',
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+  });
+
+  it('loads a job through the reviewer index by reviewer and jobId', async () => {
+    dynamoMock.on(QueryCommand).resolves({ Items: [marshall(reviewedJob)] });
+
+    const result = await loadJobForReviewer(
+      client,
+      'test-jobs-table',
+      'job-abc',
+      'reviewer@example.com'
+    );
+
+    expect(result).toMatchObject(reviewedJob);
+    expect(dynamoMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+      TableName: 'test-jobs-table',
+      IndexName: 'ReviewerJobsIndex',
+      KeyConditionExpression: 'reviewerEmail = :reviewerEmail AND jobId = :jobId',
+      ExpressionAttributeValues: marshall({
+        ':reviewerEmail': 'reviewer@example.com',
+        ':jobId': 'job-abc',
+      }),
+    });
+  });
+
+  it('returns null for a job not assigned to the reviewer, or soft-deleted', async () => {
+    dynamoMock
+      .on(QueryCommand)
+      .resolvesOnce({ Items: [] })
+      .resolvesOnce({
+        Items: [marshall({ ...reviewedJob, deleteAt: 1790000000 })],
+      });
+
+    expect(
+      await loadJobForReviewer(client, 'test-jobs-table', 'job-abc', 'reviewer@example.com')
+    ).toBeNull();
+    expect(
+      await loadJobForReviewer(client, 'test-jobs-table', 'job-abc', 'reviewer@example.com')
+    ).toBeNull();
+  });
+
+  it('prefers the owner and falls back to the reviewer', async () => {
+    dynamoMock
+      .on(GetItemCommand)
+      .resolvesOnce({ Item: marshall(reviewedJob) })
+      .resolves({});
+    dynamoMock.on(QueryCommand).resolves({ Items: [marshall(reviewedJob)] });
+
+    const asOwner = await loadJobForUserOrReviewer(
+      client,
+      'test-jobs-table',
+      'job-abc',
+      'user-123',
+      'owner@example.com'
+    );
+    expect(asOwner).toMatchObject(reviewedJob);
+    expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+
+    const asReviewer = await loadJobForUserOrReviewer(
+      client,
+      'test-jobs-table',
+      'job-abc',
+      'user-456',
+      'reviewer@example.com'
+    );
+    expect(asReviewer).toMatchObject(reviewedJob);
+  });
+
+  it('does not query the index without an email', async () => {
+    dynamoMock.on(GetItemCommand).resolves({});
+
+    const result = await loadJobForUserOrReviewer(
+      client,
+      'test-jobs-table',
+      'job-abc',
+      'user-456',
+      undefined
+    );
+
+    expect(result).toBeNull();
+    expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  it('lists the jobs assigned to a reviewer, page by page', async () => {
+    dynamoMock
+      .on(QueryCommand)
+      .resolvesOnce({
+        Items: [marshall(reviewedJob)],
+        LastEvaluatedKey: marshall({ jobId: 'job-abc' }),
+      })
+      .resolvesOnce({
+        Items: [
+          marshall({ ...reviewedJob, jobId: 'job-def' }),
+          marshall({ ...reviewedJob, jobId: 'job-gone', deleteAt: 1790000000 }),
+        ],
+      });
+
+    const jobs = await listJobsForReviewer(client, 'test-jobs-table', 'reviewer@example.com');
+
+    expect(jobs.map((job) => job.jobId)).toEqual(['job-abc', 'job-def']);
+    expect(dynamoMock.commandCalls(QueryCommand)[1].args[0].input.ExclusiveStartKey).toEqual(
+      marshall({ jobId: 'job-abc' })
+    );
+  });
+});
@@ -12,9 +12,21 @@
  *
  * Callers should map null → 404 (NOT 403) to avoid leaking job existence to
  * cross-ownership probes (OWASP API1:2023 — Broken Object Level Authorization).
+ *
+ * The one exception to ownership is review: a job submitted for review is
+ * also readable by its assigned reviewer, found through the sparse
+ * ReviewerJobsIndex GSI (reviewerEmail HASH + jobId RANGE), which holds
+ * only jobs with a reviewer.
  */
 
-import { DynamoDBClient, GetItemCommand, GetItemCommandOutput } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  GetItemCommandOutput,
+  QueryCommand,
+  QueryCommandOutput,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import { DynamoDBJob } from '@lfmt/shared-types';
 
@@ -25,7 +37,8 @@ import { DynamoDBJob } from '@lfmt/shared-types';
  * @param tableName - Jobs table name from environment
  * @param jobId     - Job identifier from path parameters
  * @param userId    - Cognito sub from the authorizer claims (owner check)
- * @returns The job record if it exists AND belongs to userId, otherwise null
+ * @returns The job record if it exists, belongs to userId and is not
+ *          soft-deleted (`deleteAt` set), otherwise null
  */
 export async function loadJobForUser(
   client: DynamoDBClient,
@@ -53,5 +66,114 @@ export async function loadJobForUser(
     return null;
   }
 
-  return unmarshall(result.Item) as DynamoDBJob;
+  // A soft-deleted job only waits for the purge; to its owner it is gone.
+  const job = unmarshall(result.Item) as DynamoDBJob;
+  return job.deleteAt === undefined ? job : null;
+}
+
+/** GSI of the jobs table keyed by the assigned reviewer's email. */
+export const REVIEWER_JOBS_INDEX = 'ReviewerJobsIndex';
+
+/**
+ * Load a job for the reviewer it is assigned to.
+ *
+ * @param reviewerEmail - The caller's verified email (see verifiedEmail in
+ *                        jobReview.ts)
+ * @returns The job record if it is assigned to reviewerEmail and is not
+ *          soft-deleted, otherwise null
+ */
+export async function loadJobForReviewer(
+  client: DynamoDBClient,
+  tableName: string,
+  jobId: string,
+  reviewerEmail: string
+): Promise<DynamoDBJob | null> {
+  const result = await client.send(
+    new QueryCommand({
+      TableName: tableName,
+      IndexName: REVIEWER_JOBS_INDEX,
+      KeyConditionExpression: 'reviewerEmail = :reviewerEmail AND jobId = :jobId',
+      ExpressionAttributeValues: marshall({ ':reviewerEmail': reviewerEmail, ':jobId': jobId }),
+    })
+  );
+
+  const item = result.Items?.[0];
+  if (!item) {
+    return null;
+  }
+  const job = unmarshall(item) as DynamoDBJob;
+  return job.deleteAt === undefined ? job : null;
+}
+
+/**
+ * Load a job for its owner or, failing that, for its assigned reviewer.
+ * Without a verified email the caller can only be the owner.
+ */
+export async function loadJobForUserOrReviewer(
+  client: DynamoDBClient,
+  tableName: string,
+  jobId: string,
+  userId: string,
+  reviewerEmail: string | undefined
+): Promise<DynamoDBJob | null> {
+  const job = await loadJobForUser(client, tableName, jobId, userId);
+  if (job || !reviewerEmail) {
+    return job;
+  }
+  return loadJobForReviewer(client, tableName, jobId, reviewerEmail);
+}
+
+/**
+ * List the jobs assigned to a reviewer, soft-deleted ones left out.
+ */
+export async function listJobsForReviewer(
+  client: DynamoDBClient,
+  tableName: string,
+  reviewerEmail: string
+): Promise<DynamoDBJob[]> {
+  const jobs: DynamoDBJob[] = [];
+  let exclusiveStartKey: QueryCommandOutput['LastEvaluatedKey'];
+  do {
+    const result: QueryCommandOutput = await client.send(
+      new QueryCommand({
+        TableName: tableName,
+        IndexName: REVIEWER_JOBS_INDEX,
+        KeyConditionExpression: 'reviewerEmail = :reviewerEmail',
+        ExpressionAttributeValues: marshall({ ':reviewerEmail': reviewerEmail }),
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    for (const item of result.Items ?? []) {
+      const job = unmarshall(item) as DynamoDBJob;
+      if (job.deleteAt === undefined) {
+        jobs.push(job);
+      }
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+  return jobs;
+}
+
+/**
+ * Record the translation execution a job is running, so pausing,
+ * cancelling or deleting the job can stop it.
+ *
+ * @param client    - DynamoDBClient instance (caller manages lifecycle)
+ * @param tableName - Jobs table name from environment
+ */
+export async function recordExecutionArn(
+  client: DynamoDBClient,
+  tableName: string,
+  jobId: string,
+  userId: string,
+  executionArn: string
+): Promise<void> {
+  await client.send(
+    new UpdateItemCommand({
+      TableName: tableName,
+      Key: marshall({ jobId, userId }),
+      UpdateExpression: 'SET executionArn = :executionArn',
+      ExpressionAttributeValues: marshall({ ':executionArn': executionArn }),
+    })
+  );
 }
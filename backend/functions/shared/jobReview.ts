@@ -0,0 +1,67 @@
+/**
+ * Job Review
+ *
+ * A completed translation can be submitted to a reviewer, who approves it
+ * part by part (see jobs/reviewTranslation.ts). The review lives on the
+ * job record: the status moves through REVIEW_STATUSES, and `chunkReviews`
+ * holds the approval of each approved chunk.
+ *
+ * The reviewer is another user, named by email. While the job has a
+ * reviewer, that user can read it, comment on it and review it (see
+ * loadJobForReviewer in jobRepository.ts); only they can approve it.
+ *
+ * A revision or a retranslation changes the translation that was reviewed,
+ * so it removes the review (REVIEW_ATTRIBUTES), and with it the reviewer's
+ * access; the job is COMPLETED again once translated and is then submitted
+ * for review afresh. Neither is accepted while the review is under way
+ * (IN_REVIEW): they wait, with a 409, until the reviewer approves or
+ * requests changes.
+ */
+
+import { DynamoDBJob, ReviewSummary, isTranslatedStatus } from '@lfmt/shared-types';
+
+/** The job attributes holding its review, as the list of a REMOVE clause. */
+export const REVIEW_ATTRIBUTES =
+  'reviewerEmail, reviewSubmittedAt, chunkReviews, reviewComment, approvedAt, approvedBy';
+
+/** The job's review, or undefined when it has never been submitted. */
+export function reviewSummary(job: DynamoDBJob): ReviewSummary | undefined {
+  if (!job.reviewerEmail || !job.reviewSubmittedAt) {
+    return undefined;
+  }
+  const totalChunks = Number(job.totalChunks ?? 0);
+  return {
+    reviewerEmail: job.reviewerEmail,
+    submittedAt: job.reviewSubmittedAt,
+    approvedChunks: Object.keys(job.chunkReviews ?? {})
+      .map(Number)
+      .filter((chunkIndex) => chunkIndex < totalChunks)
+      .sort((a, b) => a - b),
+    totalChunks,
+    comment: job.reviewComment,
+    approvedAt: job.approvedAt,
+    approvedBy: job.approvedBy,
+  };
+}
+
+/**
+ * Whether the job's translation is a draft: translated and not approved
+ * yet, whether or not it was submitted for review. Downloads of a draft
+ * are watermarked.
+ */
+export function isReviewDraft(job: Pick<DynamoDBJob, 'status'>): boolean {
+  return isTranslatedStatus(job.status) && job.status !== 'APPROVED';
+}
+
+/**
+ * The caller's email, lower-cased, as a reviewer is named by — only once
+ * Cognito has verified it: the attribute is mutable, so an unverified
+ * email could name anyone.
+ */
+export function verifiedEmail(claims: Record<string, unknown> | undefined): string | undefined {
+  const email = claims?.email;
+  const verified = claims?.email_verified;
+  return typeof email === 'string' && (verified === 'true' || verified === true)
+    ? email.toLowerCase()
+    : undefined;
+}
@@ -0,0 +1,176 @@
+/**
+ * Source Language Detector
+ *
+ * Local, dependency-free heuristic used by chunkDocument.ts to detect the
+ * language of an uploaded manuscript from its first chunks. It is NOT a
+ * general-purpose classifier — it only has to tell apart the languages
+ * our users actually upload, and to say "don't know" when the sample is
+ * too small or too mixed to call.
+ *
+ * Two stages:
+ * 1. Script census. Non-Latin scripts identify the language almost on
+ *    their own: Hangul → ko, any Hiragana/Katakana among Han → ja, Han
+ *    alone → zh, Cyrillic → ru, Arabic → ar, Hebrew → he.
+ * 2. For Latin-script text, a stop-word vote. Every language in
+ *    LATIN_STOP_WORDS collects votes from sample tokens that are among its
+ *    most frequent function words; the winner's relative lead over the
+ *    runner-up is the confidence.
+ */
+
+import type { LanguageCode } from '@lfmt/shared-types';
+
+/** Result of a successful detection. */
+export interface LanguageDetectionResult {
+  /** ISO 639-1 code (e.g. 'fr'); always a LANGUAGE_REGISTRY entry. */
+  language: LanguageCode;
+  /** 0–1; how clearly the winner beat the alternatives. */
+  confidence: number;
+}
+
+/**
+ * Confidence at or above which a detection is treated as reliable — e.g.
+ * startTranslation rejects source == target only above this bar and merely
+ * warns below it.
+ */
+export const RELIABLE_DETECTION_CONFIDENCE = 0.6;
+
+/** Detection needs at least this many letters to say anything. */
+const MIN_SAMPLE_LETTERS = 20;
+
+/** Only the first N characters are examined; the answer does not improve past this. */
+const MAX_SAMPLE_CHARS = 20_000;
+
+/** Most frequent function words per Latin-script language. */
+const LATIN_STOP_WORDS: Partial<Record<LanguageCode, ReadonlySet<string>>> = {
+  en: new Set(
+    'the and of to a in is that it was he for on are as with his they at be this have from or had by not but what all were we when your can said there an which she do their if will up'.split(
+      ' '
+    )
+  ),
+  fr: new Set(
+    'le la les de des du et est un une il elle je me mes à l d n qu j que qui dans pour pas sur au aux avec ce se ne plus par son sa ses mais nous vous ils était avait été cette comme tout'.split(
+      ' '
+    )
+  ),
+  de: new Set(
+    'der die das und ist nicht ein eine einem einen zu zum den von mit sich des auf aus für im dem es er sie wir ich war auch als an nach wie aber noch oder wenn hat sein seine seinem dass bei nur'.split(
+      ' '
+    )
+  ),
+  es: new Set(
+    'el la los las de del y que en un una es por con no se su para al lo como más pero sus le ya o este fue ha muy también'.split(
+      ' '
+    )
+  ),
+  it: new Set(
+    'il lo la gli le di del della e che è un una per non in con si da al alla sono ma come più anche questo era nel'.split(
+      ' '
+    )
+  ),
+  pt: new Set(
+    'o a os as de do da dos das e que em um uma é para com não se por mais na no ao como mas foi ele ela seu sua também'.split(
+      ' '
+    )
+  ),
+  nl: new Set(
+    'de het een en van is dat die in niet te op zijn voor met er maar ook als aan hij zij ik was om bij door'.split(
+      ' '
+    )
+  ),
+};
+
+const SCRIPT_PATTERNS = {
+  hangul: /\p{Script=Hangul}/gu,
+  kana: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu,
+  han: /\p{Script=Han}/gu,
+  cyrillic: /\p{Script=Cyrillic}/gu,
+  arabic: /\p{Script=Arabic}/gu,
+  hebrew: /\p{Script=Hebrew}/gu,
+  latin: /\p{Script=Latin}/gu,
+} as const;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Stop-word vote over Latin-script text. Returns null when no language
+ * scored at all (e.g. a list of proper nouns).
+ */
+function detectLatinLanguage(text: string): LanguageDetectionResult | null {
+  const tokens = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const stopWords = Object.entries(LATIN_STOP_WORDS) as Array<[LanguageCode, ReadonlySet<string>]>;
+  const scores = new Map(stopWords.map(([language]) => [language, 0]));
+  for (const token of tokens) {
+    const owners = stopWords.filter(([, words]) => words.has(token)).map(([language]) => language);
+    // A word shared by k languages casts 1/k of a vote for each, so "de"
+    // barely moves the needle while "und" or "the" decide.
+    for (const language of owners) {
+      scores.set(language, scores.get(language)! + 1 / owners.length);
+    }
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  const [[language, best], [, runnerUp]] = ranked;
+  if (best === 0) {
+    return null;
+  }
+
+  return { language, confidence: round2(1 - runnerUp / best) };
+}
+
+/**
+ * Detect the dominant language of `text`.
+ *
+ * @returns The detected language and a confidence in [0, 1], or null when
+ *   the sample is too short or matches nothing the detector knows.
+ */
+export function detectLanguage(text: string): LanguageDetectionResult | null {
+  const sample = text.slice(0, MAX_SAMPLE_CHARS);
+
+  const counts = {
+    hangul: countMatches(sample, SCRIPT_PATTERNS.hangul),
+    kana: countMatches(sample, SCRIPT_PATTERNS.kana),
+    han: countMatches(sample, SCRIPT_PATTERNS.han),
+    cyrillic: countMatches(sample, SCRIPT_PATTERNS.cyrillic),
+    arabic: countMatches(sample, SCRIPT_PATTERNS.arabic),
+    hebrew: countMatches(sample, SCRIPT_PATTERNS.hebrew),
+    latin: countMatches(sample, SCRIPT_PATTERNS.latin),
+  };
+
+  const totalLetters = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  if (totalLetters < MIN_SAMPLE_LETTERS) {
+    return null;
+  }
+
+  // Japanese mixes kana with Han, so the two are scored together.
+  const scripts: Array<{ language: LanguageCode | 'latin'; letters: number }> = [
+    { language: 'ko', letters: counts.hangul },
+    { language: 'ja', letters: counts.kana > 0 ? counts.kana + counts.han : 0 },
+    { language: 'zh', letters: counts.kana > 0 ? 0 : counts.han },
+    { language: 'ru', letters: counts.cyrillic },
+    { language: 'ar', letters: counts.arabic },
+    { language: 'he', letters: counts.hebrew },
+    { language: 'latin', letters: counts.latin },
+  ];
+  scripts.sort((a, b) => b.letters - a.letters);
+  const dominant = scripts[0];
+  const scriptShare = dominant.letters / totalLetters;
+
+  if (dominant.language !== 'latin') {
+    return { language: dominant.language, confidence: round2(scriptShare) };
+  }
+
+  const latin = detectLatinLanguage(sample);
+  return latin
+    ? { language: latin.language, confidence: round2(latin.confidence * scriptShare) }
+    : null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Subtitle Cues
+ *
+ * Parsing, validation and serialization for SubRip (`.srt`) and WebVTT
+ * (`.vtt`) files. A subtitle job moves through the pipeline as cue blocks
+ * written in the upload's own format:
+ *
+ * - chunkDocument packs whole cue blocks into chunks, so a cue is never
+ *   split between two translation requests.
+ * - translateChunk rejects a translated chunk whose cue count or timing
+ *   lines differ from the source chunk (`validateSubtitleTranslation`).
+ * - downloadTranslation re-parses the assembled translation and writes it
+ *   out as SRT or VTT, whichever was requested.
+ *
+ * WebVTT header, NOTE, STYLE and REGION blocks carry no translatable text
+ * and are dropped at parse time; exported VTT files get a fresh header.
+ */
+
+import type { SubtitleFormat } from '@lfmt/shared-types';
+
+export interface SubtitleCue {
+  /** SRT sequence number or VTT cue identifier, as written in the source. */
+  identifier?: string;
+  /** Timing line as written, e.g. `00:00:01,000 --> 00:00:03,500`, with any VTT cue settings. */
+  timing: string;
+  /** Cue text, one entry per displayed line. */
+  lines: string[];
+}
+
+export interface SubtitleValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/** WebVTT blocks that hold metadata rather than cues. */
+const VTT_METADATA_BLOCK = /^(?:WEBVTT|NOTE|STYLE|REGION)(?:[ \t]|$)/;
+
+/** A cue timestamp: optional hours, minutes, seconds, and milliseconds after `,` (SRT) or `.` (VTT). */
+const TIMESTAMP = /(?:(\d+):)?(\d{2}):(\d{2})[,.](\d{3})/g;
+
+/** Upper bound on listed timing mismatches, so one bad response can't flood the logs. */
+const MAX_REPORTED_TIMING_MISMATCHES = 5;
+
+/**
+ * Split a subtitle file (or a chunk of one) into cues.
+ *
+ * @param text - File contents; a byte-order mark and CRLF line endings are tolerated
+ * @param format - Format the text is written in
+ * @throws When a block has no `-->` timing line in its first two lines
+ */
+export function parseSubtitles(text: string, format: SubtitleFormat): SubtitleCue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n(?:[ \t]*\n)+/)
+    .map((block) => block.replace(/^\n+|\s+$/g, ''))
+    .filter((block) => block.length > 0);
+
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    if (format === 'vtt' && VTT_METADATA_BLOCK.test(block)) {
+      continue;
+    }
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line, index) => index < 2 && line.includes('-->'));
+    if (timingIndex === -1) {
+      throw new Error(`Subtitle cue ${cues.length + 1} has no timing line`);
+    }
+    cues.push({
+      identifier: timingIndex === 1 ? lines[0].trim() : undefined,
+      timing: lines[timingIndex].trim(),
+      lines: lines.slice(timingIndex + 1),
+    });
+  }
+  return cues;
+}
+
+/** One cue as a block of text, exactly as it was parsed. */
+export function formatCueBlock(cue: SubtitleCue): string {
+  return [...(cue.identifier ? [cue.identifier] : []), cue.timing, ...cue.lines].join('\n');
+}
+
+/** Rewrite every timestamp in a timing line with hours and the given millisecond separator. */
+function normalizeTimestamps(timing: string, separator: ',' | '.'): string {
+  return timing.replace(
+    TIMESTAMP,
+    (_, hours: string | undefined, minutes: string, seconds: string, millis: string) =>
+      `${(hours ?? '0').padStart(2, '0')}:${minutes}:${seconds}${separator}${millis}`
+  );
+}
+
+/**
+ * Write cues as a complete subtitle file.
+ *
+ * SRT output is renumbered from 1 and drops VTT cue settings (anything
+ * after the end timestamp), which SubRip players don't understand. VTT
+ * output keeps cue identifiers and settings and starts with `WEBVTT`.
+ */
+export function serializeSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  if (format === 'srt') {
+    const blocks = cues.map((cue, index) => {
+      const timing = normalizeTimestamps(cue.timing, ',');
+      const [start, end] = timing.match(TIMESTAMP) ?? [];
+      return formatCueBlock({
+        identifier: String(index + 1),
+        timing: start && end ? `${start} --> ${end}` : timing,
+        lines: cue.lines,
+      });
+    });
+    return blocks.join('\n\n') + '\n';
+  }
+
+  const blocks = cues.map((cue) =>
+    formatCueBlock({ ...cue, timing: normalizeTimestamps(cue.timing, '.') })
+  );
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * Check that a translated chunk kept the source chunk's cue structure: the
+ * same number of cues, and timing lines identical to the source, in order.
+ * Cue text is free to change; nothing else is.
+ */
+export function validateSubtitleTranslation(
+  source: string,
+  translated: string,
+  format: SubtitleFormat
+): SubtitleValidationResult {
+  let translatedCues: SubtitleCue[];
+  try {
+    translatedCues = parseSubtitles(translated, format);
+  } catch (error) {
+    return { isValid: false, errors: [(error as Error).message] };
+  }
+  const sourceCues = parseSubtitles(source, format);
+
+  if (translatedCues.length !== sourceCues.length) {
+    return {
+      isValid: false,
+      errors: [`Expected ${sourceCues.length} cues, got ${translatedCues.length}`],
+    };
+  }
+
+  const errors = sourceCues
+    .map((cue, index) =>
+      cue.timing === translatedCues[index].timing
+        ? undefined
+        : `Cue ${index + 1} timing changed from "${cue.timing}" to "${translatedCues[index].timing}"`
+    )
+    .filter((error): error is string => error !== undefined)
+    .slice(0, MAX_REPORTED_TIMING_MISMATCHES);
+
+  return { isValid: errors.length === 0, errors };
+}
@@ -0,0 +1,63 @@
+/**
+ * Translated Chunks
+ *
+ * Works out which chunks of a job's current run still need a translation,
+ * from the objects translateChunk writes to the chunks bucket
+ * (`translated/{jobId}/chunk-{index}.txt`). Used by recoverTranslation.ts
+ * to retry a failed run and by controlTranslation.ts to resume a paused
+ * one; both start an execution over just those chunks.
+ */
+
+import { S3Client, ListObjectsV2Command, ListObjectsV2CommandOutput } from '@aws-sdk/client-s3';
+import { DynamoDBJob } from '@lfmt/shared-types';
+
+const TRANSLATED_CHUNK_KEY = /\/chunk-(\d+)\.txt$/;
+
+/**
+ * The chunks the job's run did not translate, in document order: those
+ * translateChunk recorded as failed, and those without a translated
+ * object written since the run started — an execution that was stopped or
+ * aborted (e.g. a chunk Lambda timing out after its retries) records
+ * nothing for the chunks it never reached. Revision chunks copied from the
+ * previous revision are written during the run too, so they count as
+ * translated.
+ *
+ * @param client - S3Client instance (caller manages lifecycle)
+ * @param bucket - Chunks bucket name from environment
+ */
+export async function findUntranslatedChunks(
+  client: S3Client,
+  bucket: string,
+  job: DynamoDBJob
+): Promise<number[]> {
+  // S3 reports LastModified to the second.
+  const startedAt = job.translationStartedAt
+    ? Math.floor(Date.parse(job.translationStartedAt) / 1000) * 1000
+    : 0;
+  const translated = new Set<number>();
+
+  let continuationToken: string | undefined;
+  do {
+    const response: ListObjectsV2CommandOutput = await client.send(
+      new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: `translated/${job.jobId}/`,
+        ContinuationToken: continuationToken,
+      })
+    );
+
+    for (const object of response.Contents ?? []) {
+      const match = object.Key?.match(TRANSLATED_CHUNK_KEY);
+      if (match && (object.LastModified?.getTime() ?? 0) >= startedAt) {
+        translated.add(Number(match[1]));
+      }
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  const failed = job.failedChunkIndexes ?? new Set<number>();
+  return Array.from({ length: job.totalChunks ?? 0 }, (_, index) => index).filter(
+    (index) => failed.has(index) || !translated.has(index)
+  );
+}
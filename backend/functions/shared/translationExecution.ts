@@ -0,0 +1,142 @@
+/**
+ * Translation Workflow Executions
+ *
+ * Starts the translation state machine (createStepFunctions in
+ * lfmt-infrastructure-stack.ts) for a job. Shared by startTranslation.ts,
+ * which translates every chunk, and recoverTranslation.ts, which runs the
+ * same workflow over a subset of them — a failed run's missing chunks, or
+ * one chunk to retranslate — as does controlTranslation.ts to resume a
+ * paused run. The Map state ends in the same completion
+ * aggregation either way, so a recovery run that succeeds marks the job
+ * COMPLETED exactly like a full one.
+ *
+ * Reads STATE_MACHINE_NAME, AWS_REGION and TRANSLATION_MAX_CONCURRENCY
+ * from the environment of the calling Lambda.
+ */
+
+import { SFNClient, StartExecutionCommand, StartExecutionCommandOutput } from '@aws-sdk/client-sfn';
+import { DynamoDBJob, TranslationBriefMode, TranslationContextMode } from '@lfmt/shared-types';
+import { getOptionalEnv, getRequiredEnv } from './env';
+
+/**
+ * Set on an execution that translates chunks again rather than for the
+ * first time: translateChunk then ignores the stored translations it would
+ * otherwise reuse (previous revision, exact translation memory matches)
+ * and adds `instructions` to the prompt.
+ */
+export interface ChunkRetranslation {
+  instructions: string | null;
+}
+
+export interface TranslationExecutionParams {
+  targetLanguage: string;
+  tone?: string;
+  contextChunks: number;
+  totalChunks: number;
+  glossaryId?: string;
+  contextMode: TranslationContextMode;
+  briefMode: TranslationBriefMode;
+  /** Chunks to translate, in document order; every chunk when absent. */
+  chunkIndexes?: number[];
+  retranslation?: ChunkRetranslation | null;
+}
+
+/**
+ * The settings of the job's latest run, which an execution over part of
+ * its chunks repeats so the new chunks read like the rest of the
+ * translation.
+ */
+export function rerunParams(
+  job: DynamoDBJob
+): Omit<TranslationExecutionParams, 'chunkIndexes' | 'retranslation'> {
+  return {
+    targetLanguage: job.targetLanguage!,
+    tone: job.translationTone,
+    contextChunks: job.translationContextChunks ?? 2,
+    totalChunks: job.totalChunks!,
+    glossaryId: job.glossaryId,
+    contextMode: job.translationContextMode ?? 'parallel',
+    // The run's brief is still stored and translateChunk loads it whenever
+    // the job has one (translationBriefMode); writing it again would only
+    // cost tokens.
+    briefMode: 'off',
+  };
+}
+
+// Cache account ID at module level to avoid repeated STS calls.
+// Lambda container reuse means module-level variables persist across warm invocations,
+// making this an effective and safe cache pattern for immutable data like account ID.
+let cachedAccountId: string | undefined;
+
+/**
+ * Construct State Machine ARN dynamically to avoid circular dependency in CDK
+ * ARN format: arn:aws:states:<region>:<account-id>:stateMachine:<name>
+ */
+async function getStateMachineArn(): Promise<string> {
+  // Get account ID from STS (cached after first call)
+  if (!cachedAccountId) {
+    const { STSClient, GetCallerIdentityCommand } = await import('@aws-sdk/client-sts');
+    const stsClient = new STSClient({});
+    const identity = await stsClient.send(new GetCallerIdentityCommand({}));
+    cachedAccountId = identity.Account;
+  }
+
+  // AWS_REGION is always set by Lambda runtime - no fallback needed
+  const region = getRequiredEnv('AWS_REGION');
+  const stateMachineName = getRequiredEnv('STATE_MACHINE_NAME');
+  return `arn:aws:states:${region}:${cachedAccountId}:stateMachine:${stateMachineName}`;
+}
+
+/**
+ * Start a translation workflow execution for a job.
+ *
+ * @param client - SFNClient instance (caller manages lifecycle)
+ * @returns The execution ARN
+ */
+export async function startTranslationExecution(
+  client: SFNClient,
+  jobId: string,
+  userId: string,
+  params: TranslationExecutionParams
+): Promise<string> {
+  const chunkIndexes =
+    params.chunkIndexes ?? Array.from({ length: params.totalChunks }, (_, index) => index);
+
+  // Chunks in flight for a parallel run. Set from the stack's
+  // `maxConcurrency` context.
+  const parallelMaxConcurrency = Number(getOptionalEnv('TRANSLATION_MAX_CONCURRENCY', '10'));
+
+  const input = {
+    jobId,
+    userId,
+    targetLanguage: params.targetLanguage,
+    tone: params.tone || 'neutral',
+    contextChunks: params.contextChunks,
+    // Always present (null when unused): the Map state's parameters
+    // reference $.glossaryId and a missing path fails the execution.
+    glossaryId: params.glossaryId ?? null,
+    contextMode: params.contextMode,
+    // Read by the BuildTranslationBrief task, which no-ops for `off`.
+    briefMode: params.briefMode,
+    // Read by the Map state's MaxConcurrencyPath. With a concurrency of 1
+    // Step Functions runs the iterations in input order, so chunk N starts
+    // only after chunk N-1 has finished.
+    maxConcurrency: params.contextMode === 'sequential' ? 1 : parallelMaxConcurrency,
+    // Written to translatedChunks by UpdateJobCompleted: the job's chunk
+    // count, which a recovery run's `chunks` falls short of.
+    totalChunks: params.totalChunks,
+    // Always present (null for a first translation), like glossaryId.
+    retranslation: params.retranslation ?? null,
+    chunks: chunkIndexes.map((chunkIndex) => ({ chunkIndex })),
+  };
+
+  const response: StartExecutionCommandOutput = await client.send(
+    new StartExecutionCommand({
+      stateMachineArn: await getStateMachineArn(),
+      name: `${jobId}-${Date.now()}`, // Unique execution name
+      input: JSON.stringify(input),
+    })
+  );
+
+  return response.executionArn!;
+}
@@ -167,3 +167,16 @@ export const GEMINI_RATE_LIMITS: RateLimitConfig = {
   tpm: 250000, // 250K tokens per minute (combined input + output)
   rpd: 25, // 25 requests per day
 };
+
+/**
+ * Anthropic API Rate Limits (Tier 1, Sonnet-class models)
+ * Source: https://docs.anthropic.com/en/api/rate-limits
+ * TPM covers input tokens only on Anthropic's side; we budget the combined
+ * estimate against it, which errs on the side of throttling early.
+ */
+export const ANTHROPIC_RATE_LIMITS: RateLimitConfig = {
+  apiId: 'anthropic-api',
+  rpm: 50, // 50 requests per minute
+  tpm: 30000, // 30K input tokens per minute
+  rpd: 72000, // no daily cap; RPM sustained over 24h
+};
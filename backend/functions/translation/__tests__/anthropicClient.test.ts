@@ -0,0 +1,208 @@
+/**
+ * Unit tests for Anthropic Client
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { AnthropicClient, estimateAnthropicCost } from '../anthropicClient';
+import { AnthropicApiError, TranslationApiError, TranslationOptions } from '../types';
+
+const secretsMock = mockClient(SecretsManagerClient);
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function messageResponse(text: string, overrides: Record<string, unknown> = {}) {
+  return jsonResponse(200, {
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 1000, output_tokens: 500 },
+    ...overrides,
+  });
+}
+
+describe('AnthropicClient', () => {
+  const mockConfig = {
+    apiKeySecretName: 'test-anthropic-api-key',
+    model: 'claude-sonnet-4-5',
+    maxRetries: 2,
+    initialRetryDelayMs: 1, // Faster for tests
+  };
+  const options: TranslationOptions = { targetLanguage: 'es', tone: 'neutral' };
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    secretsMock.reset();
+    secretsMock.on(GetSecretValueCommand).resolves({ SecretString: 'sk-ant-test' } as any);
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  async function initializedClient() {
+    const client = new AnthropicClient(mockConfig);
+    await client.initialize();
+    return client;
+  }
+
+  describe('initialization', () => {
+    it('fetches the API key from Secrets Manager once', async () => {
+      const client = await initializedClient();
+      await client.initialize();
+
+      expect(secretsMock.commandCalls(GetSecretValueCommand)).toHaveLength(1);
+      expect(secretsMock.commandCalls(GetSecretValueCommand)[0].args[0].input).toEqual({
+        SecretId: mockConfig.apiKeySecretName,
+      });
+    });
+
+    it('throws a non-retryable error when the secret is empty', async () => {
+      secretsMock.on(GetSecretValueCommand).resolves({ SecretString: '' } as any);
+
+      const client = new AnthropicClient(mockConfig);
+
+      await expect(client.initialize()).rejects.toMatchObject({
+        errorCode: 'INITIALIZATION_ERROR',
+        retryable: false,
+      });
+    });
+
+    it('refuses to translate before initialization', async () => {
+      const client = new AnthropicClient(mockConfig);
+
+      await expect(client.translate('Hello', options)).rejects.toThrow('not initialized');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('translate', () => {
+    it('posts the prompt to the Messages API and reports usage', async () => {
+      fetchMock.mockResolvedValueOnce(messageResponse('Hola mundo'));
+      const client = await initializedClient();
+
+      const result = await client.translate('Hello world', options);
+
+      expect(result.translatedText).toBe('Hola mundo');
+      expect(result.tokensUsed).toEqual({ input: 1000, output: 500, total: 1500 });
+      // 1000 × $3/M + 500 × $15/M
+      expect(result.estimatedCost).toBeCloseTo(0.0105);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers).toMatchObject({
+        'x-api-key': 'sk-ant-test',
+        'anthropic-version': '2023-06-01',
+      });
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe('claude-sonnet-4-5');
+      expect(body.messages).toEqual([
+        { role: 'user', content: expect.stringContaining('Hello world') },
+      ]);
+    });
+
+    it('exposes its provider name and model', () => {
+      const client = new AnthropicClient(mockConfig);
+
+      expect(client.name).toBe('anthropic');
+      expect(client.model).toBe('claude-sonnet-4-5');
+    });
+
+    it('retries overload responses and succeeds', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(529, { error: { message: 'Overloaded' } }))
+        .mockResolvedValueOnce(messageResponse('Hola'));
+      const client = await initializedClient();
+
+      const result = await client.translate('Hello', options);
+
+      expect(result.translatedText).toBe('Hola');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('surfaces a retryable rate-limit error once retries are exhausted', async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse(429, { error: { message: 'Too many requests' } })
+      );
+      const client = await initializedClient();
+
+      const error = await client.translate('Hello', options).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AnthropicApiError);
+      expect(error).toBeInstanceOf(TranslationApiError);
+      expect(error).toMatchObject({ errorCode: 'RATE_LIMIT_EXCEEDED', retryable: true });
+      expect(fetchMock).toHaveBeenCalledTimes(mockConfig.maxRetries + 1);
+    });
+
+    it('does not retry an invalid API key', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(401, { error: { message: 'invalid x-api-key' } })
+      );
+      const client = await initializedClient();
+
+      await expect(client.translate('Hello', options)).rejects.toMatchObject({
+        errorCode: 'INVALID_API_KEY',
+        retryable: false,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('includes the API message for a bad request', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(400, { error: { message: 'model: not-a-model not found' } })
+      );
+      const client = await initializedClient();
+
+      await expect(client.translate('Hello', options)).rejects.toThrow(
+        'Invalid request: model: not-a-model not found'
+      );
+    });
+
+    it('returns a response truncated at the output limit flagged MAX_TOKENS', async () => {
+      fetchMock.mockResolvedValueOnce(
+        messageResponse('Hola, esto se cor', { stop_reason: 'max_tokens' })
+      );
+      const client = await initializedClient();
+
+      const result = await client.translate('Hello', options);
+
+      expect(result.translatedText).toBe('Hola, esto se cor');
+      expect(result.finishReason).toBe('MAX_TOKENS');
+    });
+
+    it('rejects an empty response truncated at the output limit', async () => {
+      fetchMock.mockResolvedValueOnce(
+        messageResponse('', { content: [], stop_reason: 'max_tokens' })
+      );
+      const client = await initializedClient();
+
+      await expect(client.translate('Hello', options)).rejects.toMatchObject({
+        errorCode: 'MAX_TOKENS',
+        retryable: false,
+      });
+    });
+
+    it('treats an empty response as retryable', async () => {
+      fetchMock.mockResolvedValueOnce(messageResponse('', { content: [] }));
+      const client = await initializedClient();
+
+      await expect(client.translate('Hello', options)).rejects.toMatchObject({
+        errorCode: 'EMPTY_RESPONSE',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('estimateAnthropicCost', () => {
+    it('prices by model family and falls back to Sonnet pricing', () => {
+      expect(estimateAnthropicCost('claude-haiku-4-5', 1_000_000, 1_000_000)).toBe(6);
+      expect(estimateAnthropicCost('claude-opus-4-1', 1_000_000, 0)).toBe(15);
+      expect(estimateAnthropicCost('claude-next', 1_000_000, 0)).toBe(3);
+    });
+  });
+});
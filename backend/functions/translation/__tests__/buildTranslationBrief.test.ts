@@ -0,0 +1,129 @@
+/**
+ * Unit tests for Build Translation Brief Lambda
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { Readable } from 'stream';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { GoogleGenAI } from '@google/genai';
+import { handler, BriefRetryableError } from '../buildTranslationBrief';
+import { resetProviders } from '../providers';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+const secretsMock = mockClient(SecretsManagerClient);
+
+const generateContent = jest.fn();
+jest.mock('@google/genai', () => ({
+  GoogleGenAI: jest.fn().mockImplementation(() => ({ models: { generateContent } })),
+}));
+
+const BRIEF_RESPONSE = JSON.stringify({
+  characters: [{ name: 'Alex', gender: 'female', rendering: 'Alejandra' }],
+  style: 'First person, past tense',
+  plotSummary: 'Alex leaves home.',
+});
+
+describe('buildTranslationBrief Lambda', () => {
+  const event = {
+    jobId: 'job-123',
+    userId: 'user-123',
+    targetLanguage: 'es',
+    briefMode: 'initial' as const,
+  };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    secretsMock.reset();
+    generateContent.mockReset();
+    resetProviders();
+
+    secretsMock.on(GetSecretValueCommand).resolves({ SecretString: 'test-key' } as any);
+    dynamoMock.on(GetItemCommand, { TableName: 'test-jobs-table' }).resolves({
+      Item: marshall({
+        jobId: 'job-123',
+        userId: 'user-123',
+        sourceLanguage: 'en',
+        chunkingMetadata: { chunkKeys: ['c-0.json', 'c-1.json'] },
+      }),
+    });
+    dynamoMock.on(PutItemCommand).resolves({});
+    dynamoMock.on(UpdateItemCommand).resolves({});
+    s3Mock.on(GetObjectCommand).callsFake((input) => ({
+      Body: sdkStreamMixin(
+        Readable.from([JSON.stringify({ primaryContent: `Opening of ${input.Key}` })])
+      ),
+    }));
+    s3Mock.on(PutObjectCommand).resolves({});
+    generateContent.mockResolvedValue({
+      text: BRIEF_RESPONSE,
+      usageMetadata: { promptTokenCount: 900, candidatesTokenCount: 100, totalTokenCount: 1000 },
+    });
+  });
+
+  it('does nothing when the job has no brief', async () => {
+    const result = await handler({ ...event, briefMode: 'off' });
+
+    expect(result).toEqual({ jobId: 'job-123', generated: false });
+    expect(dynamoMock.calls()).toHaveLength(0);
+    expect(GoogleGenAI).not.toHaveBeenCalled();
+  });
+
+  it('writes the brief from source excerpts and records its usage', async () => {
+    const result = await handler(event);
+
+    expect(result).toMatchObject({ generated: true, characters: 1, tokensUsed: 1000 });
+
+    const prompt: string = generateContent.mock.calls[0][0].contents;
+    expect(prompt).toContain('English document for translation into Spanish');
+    expect(prompt).toContain('Opening of c-0.json');
+    expect(prompt).toContain('Opening of c-1.json');
+
+    const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(put.Key).toBe('briefs/job-123/brief.json');
+    expect(JSON.parse(put.Body as string)).toMatchObject({
+      characters: [{ name: 'Alex', gender: 'female', rendering: 'Alejandra' }],
+      updatedThroughChunk: -1,
+    });
+
+    const usage = dynamoMock
+      .commandCalls(UpdateItemCommand)
+      .find((call) => call.args[0].input.TableName === 'test-jobs-table');
+    expect(usage?.args[0].input.UpdateExpression).toBe(
+      'ADD tokensUsed :tokens, estimatedCost :cost'
+    );
+    expect(usage?.args[0].input.ExpressionAttributeValues?.[':tokens']).toEqual({ N: '1000' });
+  });
+
+  it('carries on without a brief when the response is not one', async () => {
+    generateContent.mockResolvedValue({
+      text: 'Here is your brief!',
+      usageMetadata: { promptTokenCount: 900, candidatesTokenCount: 5, totalTokenCount: 905 },
+    });
+
+    const result = await handler(event);
+
+    expect(result).toEqual({
+      jobId: 'job-123',
+      generated: false,
+      error: 'Translation brief response is not valid JSON',
+    });
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('hands transient API failures back to Step Functions', async () => {
+    generateContent.mockResolvedValue({ text: '', candidates: [{ finishReason: 'OTHER' }] });
+
+    await expect(handler(event)).rejects.toThrow(BriefRetryableError);
+  });
+});
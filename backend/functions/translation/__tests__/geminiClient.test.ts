@@ -127,6 +127,20 @@ describe('GeminiClient', () => {
       expect(result.tokensUsed.total).toBe(15);
       expect(result.estimatedCost).toBeGreaterThan(0);
       expect(result.processingTimeMs).toBeGreaterThanOrEqual(0);
+      expect(result.finishReason).toBeUndefined();
+    });
+
+    it('should report a response cut off at the output limit', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: 'Hola, mun',
+        candidates: [{ finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      const result = await client.translate('Hello, world!', { targetLanguage: 'es' });
+
+      expect(result.translatedText).toBe('Hola, mun');
+      expect(result.finishReason).toBe('MAX_TOKENS');
     });
 
     it('should include context in translation prompt', async () => {
@@ -236,6 +250,116 @@ describe('GeminiClient', () => {
       expect(promptText).toContain('Preserve all proper nouns');
     });
 
+    it('should inject only the glossary terms that occur in the chunk', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: 'Frodo llegó a la Comarca.',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      const options: TranslationOptions = {
+        targetLanguage: 'es',
+        glossaryTerms: [
+          { source: 'the Shire', target: 'la Comarca', notes: 'place name' },
+          { source: 'Frodo', target: 'Frodo' },
+          { source: 'Mordor', target: 'Mordor' },
+        ],
+      };
+
+      await client.translate('Frodo came back to the Shire.', options);
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+
+      expect(promptText).toContain('---GLOSSARY---');
+      expect(promptText).toContain('- the Shire → la Comarca (place name)');
+      expect(promptText).toContain('- Frodo → Frodo');
+      expect(promptText).not.toContain('Mordor');
+    });
+
+    it('should omit the glossary section when no term occurs in the chunk', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: 'Hola',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      await client.translate('Hello', {
+        targetLanguage: 'es',
+        glossaryTerms: [{ source: 'Mordor', target: 'Mordor' }],
+      });
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+      expect(promptText).not.toContain('GLOSSARY');
+    });
+
+    it('should name the source language in the prompt when known', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: 'Hello',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      await client.translate('Bonjour', { targetLanguage: 'en', sourceLanguage: 'fr' });
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+      expect(promptText).toContain('Translate the following French text to English.');
+    });
+
+    it.each([
+      ['ja', 'Japanese'],
+      ['ar', 'Arabic'],
+      ['zh', 'Chinese (Simplified)'],
+    ] as const)('should name registry language %s as %s in the prompt', async (code, name) => {
+      mockGenerateContent.mockResolvedValue({
+        text: '…',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      await client.translate('Hello', { targetLanguage: code });
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+      expect(promptText).toContain(`Translate the following text to ${name}.`);
+    });
+
+    it('should ask for cue numbers and timestamps verbatim for subtitle chunks', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: '1\n00:00:01,000 --> 00:00:02,000\nHola',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      await client.translate('1\n00:00:01,000 --> 00:00:02,000\nHello', {
+        targetLanguage: 'es',
+        subtitleFormat: 'srt',
+      });
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+      expect(promptText).toContain('SubRip (SRT) subtitle cues');
+      expect(promptText).toContain('timing line (the lines containing "-->") exactly as written');
+      expect(promptText).toContain('Return the same number of cues in the same order');
+    });
+
+    it('should ask for the exact paragraph count when one is given', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: 'Hola.\n\nAdiós.',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      await client.translate('Hello.\n\nGoodbye.', { targetLanguage: 'es', paragraphCount: 2 });
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+      expect(promptText).toContain('The text has exactly 2 paragraphs, separated by blank lines.');
+      expect(promptText).toContain('Never merge, split, drop or add paragraphs.');
+    });
+
+    it('should leave subtitle rules out of prose prompts', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: 'Hola',
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      await client.translate('Hello', { targetLanguage: 'es' });
+
+      const promptText: string = mockGenerateContent.mock.calls[0][0].contents;
+      expect(promptText).not.toContain('subtitle');
+    });
+
     it('should throw error if client not initialized', async () => {
       const uninitializedClient = new GeminiClient(mockConfig);
 
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the offline mock translation backend
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { GeminiClient } from '../geminiClient';
+import {
+  createMockGenAI,
+  mockConfigFromEnv,
+  MockTranslationConfig,
+  pseudoTranslate,
+} from '../mockGenAI';
+import { AuthenticationError, GeminiApiError, RateLimitError, TranslationOptions } from '../types';
+import { validateSubtitleTranslation } from '../../shared/subtitles';
+
+const secretsMock = mockClient(SecretsManagerClient);
+
+describe('mockGenAI', () => {
+  const options: TranslationOptions = { targetLanguage: 'es' };
+  const baseConfig: MockTranslationConfig = { latencyMs: 0, charsPerToken: 4, failures: {} };
+
+  async function mockClientFor(config: MockTranslationConfig, chunkIndex = 0) {
+    const client = new GeminiClient({
+      apiKeySecretName: 'unused',
+      maxRetries: 2,
+      initialRetryDelayMs: 1,
+      backend: createMockGenAI(config, chunkIndex),
+    });
+    await client.initialize();
+    return client;
+  }
+
+  beforeEach(() => {
+    secretsMock.reset();
+  });
+
+  describe('mockConfigFromEnv', () => {
+    it('is disabled unless TRANSLATION_MOCK is true', () => {
+      expect(mockConfigFromEnv({})).toBeNull();
+      expect(mockConfigFromEnv({ TRANSLATION_MOCK: '1' })).toBeNull();
+    });
+
+    it('parses latency, token ratio and failures', () => {
+      expect(
+        mockConfigFromEnv({
+          TRANSLATION_MOCK: 'true',
+          TRANSLATION_MOCK_LATENCY_MS: '250',
+          TRANSLATION_MOCK_CHARS_PER_TOKEN: '3',
+          TRANSLATION_MOCK_FAILURES: '2:SAFETY, 4:503x1',
+        })
+      ).toEqual({
+        latencyMs: 250,
+        charsPerToken: 3,
+        failures: { 2: { finishReason: 'SAFETY' }, 4: { status: 503, times: 1 } },
+      });
+    });
+
+    it('rejects a malformed failure entry', () => {
+      expect(() =>
+        mockConfigFromEnv({ TRANSLATION_MOCK: 'true', TRANSLATION_MOCK_FAILURES: 'two:SAFETY' })
+      ).toThrow('Invalid TRANSLATION_MOCK_FAILURES entry: two:SAFETY');
+    });
+  });
+
+  describe('pseudoTranslate', () => {
+    it('brackets and pads prose lines, keeping markdown markers', () => {
+      expect(pseudoTranslate('# Title\n\nHello world', 'Spanish')).toBe(
+        '# [Spanish] Title ~~\n\n[Spanish] Hello world ~~~~'
+      );
+    });
+
+    it('keeps subtitle cue numbers and timing lines intact', () => {
+      const srt =
+        '1\n00:00:01,000 --> 00:00:02,000\nHello\n\n2\n00:00:03,000 --> 00:00:04,000\nBye';
+
+      const translated = pseudoTranslate(srt, 'French');
+
+      expect(translated).toContain('[French] Hello');
+      expect(validateSubtitleTranslation(srt, translated, 'srt').isValid).toBe(true);
+    });
+  });
+
+  describe('through GeminiClient', () => {
+    it('translates without reading an API key', async () => {
+      const client = await mockClientFor(baseConfig);
+
+      const result = await client.translate('Good morning', options);
+
+      expect(result.translatedText).toBe('[Spanish] Good morning ~~~~');
+      expect(result.tokensUsed.total).toBe(result.tokensUsed.input + result.tokensUsed.output);
+      expect(result.tokensUsed.output).toBe(Math.ceil(result.translatedText.length / 4));
+      expect(secretsMock.commandCalls(GetSecretValueCommand)).toHaveLength(0);
+    });
+
+    it('answers a non-translation prompt with an empty brief', async () => {
+      const client = await mockClientFor(baseConfig);
+
+      const result = await client.complete('Write a brief.\n---DOCUMENT EXCERPTS---\nHi');
+
+      expect(JSON.parse(result.text)).toMatchObject({ characters: [], plotSummary: '' });
+    });
+
+    it('is deterministic', async () => {
+      const first = await (await mockClientFor(baseConfig)).translate('Same input', options);
+      const second = await (await mockClientFor(baseConfig)).translate('Same input', options);
+
+      expect(second.translatedText).toBe(first.translatedText);
+      expect(second.tokensUsed).toEqual(first.tokensUsed);
+    });
+
+    it('only fails the configured chunk', async () => {
+      const config = { ...baseConfig, failures: { 3: { finishReason: 'SAFETY' } } };
+
+      await expect(
+        (await mockClientFor(config, 2)).translate('Hi', options)
+      ).resolves.toBeDefined();
+      await expect((await mockClientFor(config, 3)).translate('Hi', options)).rejects.toThrow(
+        GeminiApiError
+      );
+    });
+
+    it.each([
+      ['SAFETY', false],
+      ['MAX_TOKENS', false],
+      ['OTHER', true],
+    ])('maps finishReason %s to an EMPTY_RESPONSE with retryable=%s', async (reason, retryable) => {
+      const client = await mockClientFor({
+        ...baseConfig,
+        failures: { 0: { finishReason: reason } },
+      });
+
+      await expect(client.translate('Hi', options)).rejects.toMatchObject({
+        errorCode: 'EMPTY_RESPONSE',
+        retryable,
+      });
+    });
+
+    it('recovers from a transient server error through the client retry loop', async () => {
+      const client = await mockClientFor({
+        ...baseConfig,
+        failures: { 0: { status: 503, times: 1 } },
+      });
+
+      const result = await client.translate('Hi', options);
+
+      expect(result.translatedText).toBe('[Spanish] Hi ~');
+    });
+
+    it('surfaces persistent 429s as a RateLimitError', async () => {
+      const client = await mockClientFor({ ...baseConfig, failures: { 0: { status: 429 } } });
+
+      await expect(client.translate('Hi', options)).rejects.toThrow(RateLimitError);
+    });
+
+    it('surfaces 401 as a non-retryable AuthenticationError', async () => {
+      const client = await mockClientFor({ ...baseConfig, failures: { 0: { status: 401 } } });
+
+      const error = await client.translate('Hi', options).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.retryable).toBe(false);
+    });
+  });
+});
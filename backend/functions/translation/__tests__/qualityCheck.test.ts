@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the automatic translation quality check
+ */
+
+import { assessChunkQuality, highestSeverity } from '../qualityCheck';
+
+const SOURCE_PARAGRAPHS = [
+  'The rain had not stopped for three days, and the river was already over the old stone bridge.',
+  'Nobody in the village remembered a flood like this one, not even the oldest of the fishermen.',
+  'At dawn the mayor rang the church bell and told everyone to carry what they could up the hill.',
+  'By noon the square was empty, and the water was lapping at the steps of the town hall.',
+];
+
+const TRANSLATED_PARAGRAPHS = [
+  'La lluvia no había parado en tres días y el río ya cubría el viejo puente de piedra.',
+  'Nadie en el pueblo recordaba una inundación así, ni siquiera el más viejo de los pescadores.',
+  'Al amanecer el alcalde tocó la campana de la iglesia y dijo a todos que subieran a la colina.',
+  'A mediodía la plaza estaba vacía y el agua lamía los escalones del ayuntamiento.',
+];
+
+const SOURCE = SOURCE_PARAGRAPHS.join('\n\n');
+const TRANSLATION = TRANSLATED_PARAGRAPHS.join('\n\n');
+
+const assess = (translation: string, overrides: Record<string, unknown> = {}) =>
+  assessChunkQuality({
+    source: SOURCE,
+    translation,
+    sourceLanguage: 'en',
+    targetLanguage: 'es',
+    ...overrides,
+  });
+
+describe('assessChunkQuality', () => {
+  it('raises nothing for a faithful translation', () => {
+    expect(assess(TRANSLATION, { finishReason: 'STOP' })).toEqual([]);
+  });
+
+  it('flags a response cut off at the output limit', () => {
+    expect(assess(TRANSLATION, { finishReason: 'MAX_TOKENS' })).toEqual([
+      expect.objectContaining({ type: 'TRUNCATED', severity: 'HIGH' }),
+    ]);
+  });
+
+  it('flags paragraphs that did not come back', () => {
+    const flags = assess(TRANSLATED_PARAGRAPHS.slice(0, 2).join('\n\n'));
+
+    expect(flags).toContainEqual(
+      expect.objectContaining({
+        type: 'DROPPED_PARAGRAPHS',
+        severity: 'HIGH',
+        description: '2 of 4 paragraphs came back; 2 may have been dropped or merged.',
+      })
+    );
+  });
+
+  it('rates a single merged paragraph MEDIUM', () => {
+    const merged = [
+      TRANSLATED_PARAGRAPHS[0],
+      TRANSLATED_PARAGRAPHS[1],
+      `${TRANSLATED_PARAGRAPHS[2]} ${TRANSLATED_PARAGRAPHS[3]}`,
+    ].join('\n\n');
+
+    expect(assess(merged)).toEqual([
+      expect.objectContaining({ type: 'DROPPED_PARAGRAPHS', severity: 'MEDIUM' }),
+    ]);
+  });
+
+  it('flags a translation far shorter than its source', () => {
+    const flags = assess('La lluvia.\n\nNadie.\n\nEl alcalde.\n\nLa plaza.');
+
+    expect(flags).toEqual([expect.objectContaining({ type: 'LENGTH_RATIO', severity: 'HIGH' })]);
+    expect(flags[0].description).toContain('much shorter');
+  });
+
+  it('weights Han and kana so a Japanese translation is not flagged as short', () => {
+    const japanese = [
+      '三日間雨が止まず、川はすでに古い石橋を越えていた。',
+      '村の誰もこんな洪水を覚えていなかった。最年長の漁師でさえも。',
+      '夜明けに村長は教会の鐘を鳴らし、持てるものを持って丘に登れと皆に告げた。',
+      '正午には広場は空になり、水は町役場の階段を洗っていた。',
+    ].join('\n\n');
+
+    expect(assess(japanese, { targetLanguage: 'ja' })).toEqual([]);
+  });
+
+  it('flags a paragraph returned untranslated', () => {
+    const leaked = [...TRANSLATED_PARAGRAPHS.slice(0, 3), SOURCE_PARAGRAPHS[3]].join('\n\n');
+
+    expect(assess(leaked)).toEqual([
+      expect.objectContaining({
+        type: 'UNTRANSLATED_SEGMENT',
+        severity: 'MEDIUM',
+        description: expect.stringContaining('1 paragraph appears to be left untranslated'),
+      }),
+    ]);
+  });
+
+  it('flags source-language paragraphs that differ from the source text', () => {
+    const leaked = [
+      TRANSLATED_PARAGRAPHS[0],
+      'Nobody in the whole village could remember a flood like this one, not even the fishermen.',
+      'The mayor rang the bell of the church at dawn and told all of them to go up the hill.',
+      TRANSLATED_PARAGRAPHS[3],
+    ].join('\n\n');
+
+    expect(assess(leaked)).toEqual([
+      expect.objectContaining({ type: 'UNTRANSLATED_SEGMENT', severity: 'HIGH' }),
+    ]);
+  });
+
+  it('detects the source language from the chunk when the job has none', () => {
+    const leaked = [...TRANSLATED_PARAGRAPHS.slice(0, 3), SOURCE_PARAGRAPHS[2]].join('\n\n');
+
+    expect(assess(leaked, { sourceLanguage: undefined }).map((flag) => flag.type)).toEqual([
+      'UNTRANSLATED_SEGMENT',
+    ]);
+  });
+
+  it('flags a sentence the model kept repeating', () => {
+    const loop = 'El agua seguía subiendo por la calle. '.repeat(6);
+    const looped = [...TRANSLATED_PARAGRAPHS.slice(0, 3), loop].join('\n\n');
+
+    expect(assess(looped)).toEqual([
+      expect.objectContaining({
+        type: 'REPETITION',
+        severity: 'HIGH',
+        description: expect.stringContaining('repeated 6 times ("El agua seguía subiendo'),
+      }),
+    ]);
+  });
+
+  it('does not flag a refrain the source repeats as often', () => {
+    const refrain = 'And still the rain kept falling on the roofs. ';
+    const translatedRefrain = 'Y la lluvia seguía cayendo sobre los tejados. ';
+
+    expect(
+      assessChunkQuality({
+        source: `${SOURCE}\n\n${refrain.repeat(3)}`,
+        translation: `${TRANSLATION}\n\n${translatedRefrain.repeat(3)}`,
+        sourceLanguage: 'en',
+        targetLanguage: 'es',
+      })
+    ).toEqual([]);
+  });
+
+  it('orders the flags most severe first', () => {
+    const flags = assess(TRANSLATED_PARAGRAPHS.slice(0, 3).join('\n\n'), {
+      finishReason: 'MAX_TOKENS',
+    });
+
+    expect(flags.map((flag) => flag.severity)).toEqual(['HIGH', 'MEDIUM']);
+  });
+});
+
+describe('highestSeverity', () => {
+  it('returns the most severe flag', () => {
+    expect(
+      highestSeverity([
+        { type: 'DROPPED_PARAGRAPHS', severity: 'MEDIUM', description: '' },
+        { type: 'TRUNCATED', severity: 'HIGH', description: '' },
+      ])
+    ).toBe('HIGH');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for Record Translation Memory Lambda
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { BatchWriteItemCommand, DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { Readable } from 'stream';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { handler } from '../recordTranslationMemory';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+
+const OBJECTS: Record<string, string> = {
+  'c-0.json': JSON.stringify({ primaryContent: 'Good morning.\n\nGood night.' }),
+  'translated/job-123/chunk-0.txt': 'Buenos días.\n\nBuenas noches.',
+  // The model merged two paragraphs — nothing to pair by position.
+  'c-1.json': JSON.stringify({ primaryContent: 'Hello.\n\nGoodbye.' }),
+  'translated/job-123/chunk-1.txt': 'Hola y adiós.',
+};
+
+describe('recordTranslationMemory Lambda', () => {
+  const event = { jobId: 'job-123', userId: 'user-123', targetLanguage: 'es' };
+
+  function mockJob(extra: Record<string, unknown> = {}) {
+    dynamoMock.on(GetItemCommand).resolves({
+      Item: marshall({
+        jobId: 'job-123',
+        userId: 'user-123',
+        chunkingMetadata: { chunkKeys: ['c-0.json', 'c-1.json'] },
+        ...extra,
+      }),
+    });
+  }
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    dynamoMock.on(BatchWriteItemCommand).resolves({});
+    s3Mock.on(GetObjectCommand).callsFake((input) => ({
+      Body: sdkStreamMixin(Readable.from([OBJECTS[input.Key]])),
+    }));
+  });
+
+  it("stores the paragraph pairs of every aligned chunk in the user's memory", async () => {
+    mockJob();
+
+    const result = await handler(event);
+
+    expect(result).toEqual({ jobId: 'job-123', recordedSegments: 2, skippedChunks: 1 });
+    const items = dynamoMock
+      .commandCalls(BatchWriteItemCommand)[0]
+      .args[0].input.RequestItems?.[
+        'test-translation-memory-table'
+      ].map((request) => unmarshall(request.PutRequest?.Item ?? {}));
+    expect(items).toEqual([
+      expect.objectContaining({
+        memoryKey: 'user-123#es',
+        source: 'Good morning.',
+        translation: 'Buenos días.',
+        jobId: 'job-123',
+      }),
+      expect.objectContaining({ source: 'Good night.', translation: 'Buenas noches.' }),
+    ]);
+  });
+
+  it('skips subtitle jobs', async () => {
+    mockJob({ subtitleFormat: 'srt' });
+
+    const result = await handler(event);
+
+    expect(result.recordedSegments).toBe(0);
+    expect(s3Mock.calls()).toHaveLength(0);
+    expect(dynamoMock.commandCalls(BatchWriteItemCommand)).toHaveLength(0);
+  });
+
+  it('fails for a job the user does not own', async () => {
+    dynamoMock.on(GetItemCommand).resolves({});
+
+    await expect(handler(event)).rejects.toThrow('Job not found: job-123');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for Translate Chunk Lambda running on the offline mock backend
+ */
+
+// Set environment variables BEFORE imports — the mock is selected at cold start
+process.env.TRANSLATION_MOCK = 'true';
+process.env.TRANSLATION_MOCK_FAILURES = '1:SAFETY,2:OTHER';
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient, GetItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { Readable } from 'stream';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { handler, resetClients } from '../translateChunk';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const s3Mock = mockClient(S3Client);
+const secretsMock = mockClient(SecretsManagerClient);
+
+describe('translateChunk Lambda (TRANSLATION_MOCK)', () => {
+  const event = { jobId: 'job-123', userId: 'user-123', targetLanguage: 'es' };
+
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+    secretsMock.reset();
+    resetClients();
+
+    dynamoMock.on(GetItemCommand).resolves({
+      Item: marshall({
+        jobId: 'job-123',
+        userId: 'user-123',
+        status: 'CHUNKED',
+        totalChunks: 3,
+        translatedChunks: 0,
+        chunkingMetadata: { chunkKeys: ['c-0.json', 'c-1.json', 'c-2.json'] },
+      }),
+    });
+    dynamoMock.on(UpdateItemCommand).resolves({});
+    s3Mock.on(GetObjectCommand).callsFake(() => ({
+      Body: sdkStreamMixin(
+        Readable.from([JSON.stringify({ primaryContent: 'Good morning', chunkId: 'chunk' })])
+      ),
+    }));
+    s3Mock.on(PutObjectCommand).resolves({});
+  });
+
+  it('stores a pseudo-translation without an API key or rate limiter', async () => {
+    const result = await handler({ ...event, chunkIndex: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.tokensUsed).toBeGreaterThan(0);
+    const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(put.Body).toBe('[Spanish] Good morning ~~~~');
+    expect(put.Metadata).toMatchObject({ provider: 'gemini', model: 'mock' });
+    expect(secretsMock.commandCalls(GetSecretValueCommand)).toHaveLength(0);
+    // Only the job read — no rate-limit bucket traffic.
+    expect(dynamoMock.commandCalls(GetItemCommand)).toHaveLength(1);
+  });
+
+  it('fails the job on an injected content-policy block', async () => {
+    const result = await handler({ ...event, chunkIndex: 1 });
+
+    expect(result).toMatchObject({ success: false, retryable: false });
+    expect(result.error).toContain('finishReason: SAFETY');
+    const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+    expect(update.ExpressionAttributeValues?.[':status']).toEqual({ S: 'TRANSLATION_FAILED' });
+  });
+
+  it('hands an injected transient failure back to Step Functions for retry', async () => {
+    const result = await handler({ ...event, chunkIndex: 2 });
+
+    expect(result).toMatchObject({ success: false, retryable: true });
+    expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+  });
+});
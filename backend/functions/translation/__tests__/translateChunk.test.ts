@@ -8,9 +8,23 @@ process.env.CHUNKS_BUCKET = 'test-chunks-bucket';
 process.env.GEMINI_API_KEY_SECRET_NAME = 'test-gemini-secret';
 
 import { mockClient } from 'aws-sdk-client-mock';
-import { DynamoDBClient, GetItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
-import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import {
+  AttributeValue,
+  BatchGetItemCommand,
+  BatchWriteItemCommand,
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import {
+  S3Client,
+  CopyObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+} from '@aws-sdk/client-s3';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
 import { Readable } from 'stream';
 import {
   handler,
@@ -20,6 +34,7 @@ import {
 } from '../translateChunk';
 import { sdkStreamMixin } from '@smithy/util-stream';
 import { RateLimitError, RateLimitType } from '../../shared/types/rateLimiting';
+import { storeTranslationMemory } from '../translationMemory';
 // Imported alongside the jest.mock() factory below so OMC-followup C3 can
 // override the GenAI mock for a single test (see usageMetadata-undefined case).
 import { GoogleGenAI } from '@google/genai';
@@ -667,7 +682,20 @@ describe('translateChunk Lambda', () => {
     });
 
     it('should accept valid target languages', async () => {
-      const validLanguages = ['es', 'fr', 'it', 'de', 'zh'];
+      const validLanguages = [
+        'en',
+        'es',
+        'fr',
+        'it',
+        'de',
+        'zh',
+        'ja',
+        'ko',
+        'pt',
+        'ru',
+        'ar',
+        'he',
+      ];
 
       for (const lang of validLanguages) {
         const event = {
@@ -906,6 +934,700 @@ describe('translateChunk Lambda', () => {
     });
   });
 
+  describe('sequential context mode', () => {
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 3,
+      targetLanguage: 'es',
+      contextMode: 'sequential',
+    };
+
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: createMockJob({
+          totalChunks: 5,
+          extraFields: { translationStatus: { S: 'IN_PROGRESS' } },
+        }),
+      } as any);
+      s3Mock.on(GetObjectCommand).callsFake((input) => {
+        const translated = /^translated\/job-123\/chunk-(\d+)\.txt$/.exec(input.Key);
+        const body = translated
+          ? `Traducción del fragmento ${translated[1]}`
+          : JSON.stringify({
+              primaryContent: 'Chunk 3',
+              chunkId: 'chunk-3',
+              previousSummary: 'Source summary',
+            });
+        return { Body: createMockStream(body) };
+      });
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+    });
+
+    function sentPrompt(): string {
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      return genAi.models.generateContent.mock.calls[0][0].contents;
+    }
+
+    it('feeds the previous translations, oldest first, instead of the source summary', async () => {
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      const keys = s3Mock
+        .commandCalls(GetObjectCommand)
+        .map((call) => call.args[0].input.Key)
+        .filter((key) => key?.startsWith('translated/'));
+      expect(keys).toEqual(['translated/job-123/chunk-1.txt', 'translated/job-123/chunk-2.txt']);
+
+      const prompt = sentPrompt();
+      expect(prompt).toContain(
+        '---PREVIOUS TRANSLATION---\nTraducción del fragmento 1\n\nTraducción del fragmento 2\n'
+      );
+      expect(prompt).toContain('Continue it seamlessly');
+      expect(prompt).not.toContain('Source summary');
+    });
+
+    it('honours contextChunks', async () => {
+      await handler({ ...event, contextChunks: 1 });
+
+      const prompt = sentPrompt();
+      expect(prompt).toContain('Traducción del fragmento 2');
+      expect(prompt).not.toContain('Traducción del fragmento 1');
+    });
+
+    it('fails the job without calling the API when a previous translation is missing', async () => {
+      s3Mock
+        .on(GetObjectCommand, { Key: 'translated/job-123/chunk-2.txt' })
+        .rejects(
+          Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' })
+        );
+
+      const result = await handler(event);
+
+      expect(result).toMatchObject({ success: false, retryable: false });
+      expect(result.error).toContain('requires chunk 2 to be translated before chunk 3');
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      expect(genAi.models.generateContent).not.toHaveBeenCalled();
+      const update = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(update.ExpressionAttributeValues?.[':status']).toEqual({ S: 'TRANSLATION_FAILED' });
+    });
+
+    it('rejects a contextChunks value outside 0-5', async () => {
+      const result = await handler({ ...event, contextChunks: 6 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('contextChunks must be an integer between 0 and 5');
+    });
+  });
+
+  describe('translation brief', () => {
+    const storedBrief = {
+      characters: [{ name: 'Alex', gender: 'female', rendering: 'Alejandra' }],
+      style: 'Plain',
+      plotSummary: 'Alex leaves home.',
+      updatedThroughChunk: -1,
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const usage = { promptTokenCount: 100, candidatesTokenCount: 50, totalTokenCount: 150 };
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 1,
+      targetLanguage: 'es',
+    };
+
+    function mockJob(briefMode: string) {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: createMockJob({
+          totalChunks: 3,
+          extraFields: { translationBriefMode: { S: briefMode } },
+        }),
+      } as any);
+    }
+
+    beforeEach(() => {
+      s3Mock.on(GetObjectCommand).callsFake((input) => ({
+        Body: createMockStream(
+          input.Key === 'briefs/job-123/brief.json'
+            ? JSON.stringify(storedBrief)
+            : JSON.stringify({ primaryContent: 'Alex waved.', chunkId: 'chunk-1' })
+        ),
+      }));
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+    });
+
+    it("puts the job's brief into the prompt", async () => {
+      mockJob('initial');
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      const prompt: string = genAi.models.generateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('- Alex → Alejandra; female\n');
+      // An initial brief is read-only for the chunks.
+      expect(genAi.models.generateContent).toHaveBeenCalledTimes(1);
+      const keys = s3Mock.commandCalls(PutObjectCommand).map((call) => call.args[0].input.Key);
+      expect(keys).toEqual(['translated/job-123/chunk-1.txt']);
+    });
+
+    it('does not read a brief for jobs without one', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: createMockJob({ totalChunks: 3 }) } as any);
+
+      await handler(event);
+
+      const keys = s3Mock.commandCalls(GetObjectCommand).map((call) => call.args[0].input.Key);
+      expect(keys).not.toContain('briefs/job-123/brief.json');
+    });
+
+    it('revises a rolling brief after the chunk and bills the revision to the job', async () => {
+      mockJob('rolling');
+      (GoogleGenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+        models: {
+          generateContent: jest
+            .fn()
+            .mockResolvedValueOnce({ text: 'Alejandra saludó.', usageMetadata: usage })
+            .mockResolvedValueOnce({
+              text: JSON.stringify({ ...storedBrief, plotSummary: 'Alex leaves home and waves.' }),
+              usageMetadata: usage,
+            }),
+        },
+      }));
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      const put = s3Mock
+        .commandCalls(PutObjectCommand)
+        .find((call) => call.args[0].input.Key === 'briefs/job-123/brief.json');
+      expect(JSON.parse(put?.args[0].input.Body as string)).toMatchObject({
+        plotSummary: 'Alex leaves home and waves.',
+        updatedThroughChunk: 1,
+      });
+      const progress = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(progress.ExpressionAttributeValues?.[':tokens']).toEqual({ N: '300' });
+    });
+
+    it('keeps the translation when the brief revision fails', async () => {
+      mockJob('rolling');
+
+      const result = await handler(event);
+
+      // The default mock answers the revision with prose, not a brief.
+      expect(result.success).toBe(true);
+      const keys = s3Mock.commandCalls(PutObjectCommand).map((call) => call.args[0].input.Key);
+      expect(keys).toEqual(['translated/job-123/chunk-1.txt']);
+    });
+  });
+
+  describe('translation memory', () => {
+    const usage = { promptTokenCount: 100, candidatesTokenCount: 50, totalTokenCount: 150 };
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 0,
+      targetLanguage: 'es',
+    };
+    const edited =
+      'The rain had not stopped for four days, and the river was already over the old stone bridge.';
+
+    function mockModel(...texts: string[]) {
+      const generateContent = jest.fn();
+      for (const text of texts) {
+        generateContent.mockResolvedValueOnce({ text, usageMetadata: usage });
+      }
+      (GoogleGenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+        models: { generateContent },
+      }));
+      return generateContent;
+    }
+
+    beforeEach(async () => {
+      // BatchGetItem answers from whatever BatchWriteItem stored.
+      const table = new Map<string, Record<string, AttributeValue>>();
+      dynamoMock.on(BatchWriteItemCommand).callsFake((input) => {
+        for (const request of Object.values(input.RequestItems).flat() as any[]) {
+          table.set(request.PutRequest.Item.segmentKey.S, request.PutRequest.Item);
+        }
+        return {};
+      });
+      dynamoMock.on(BatchGetItemCommand).callsFake((input) => ({
+        Responses: {
+          'test-translation-memory-table': (
+            input.RequestItems['test-translation-memory-table'].Keys as any[]
+          )
+            .map((key) => table.get(key.segmentKey.S))
+            .filter(Boolean),
+        },
+      }));
+      await storeTranslationMemory(
+        new DynamoDBClient({}),
+        'test-translation-memory-table',
+        'user-123',
+        'es',
+        'job-old',
+        [
+          { source: 'Good morning.', translation: 'Buenos días.' },
+          {
+            source: edited.replace('four', 'three'),
+            translation: 'La lluvia no había parado en tres días y el río ya cubría el puente.',
+          },
+        ]
+      );
+
+      dynamoMock.on(GetItemCommand).resolves({ Item: createMockJob({ totalChunks: 3 }) } as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+    });
+
+    function mockChunk(primaryContent: string) {
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent, chunkId: 'chunk-0' })),
+      } as any);
+    }
+
+    function storedTranslation(): string {
+      return s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Body as string;
+    }
+
+    it('reuses a chunk the memory covers without calling the model', async () => {
+      mockChunk('Good morning.\n\nGood  morning.');
+      const generateContent = mockModel();
+
+      const result = await handler(event);
+
+      expect(result).toMatchObject({ success: true, tokensUsed: 0 });
+      expect(generateContent).not.toHaveBeenCalled();
+      expect(storedTranslation()).toBe('Buenos días.\n\nBuenos días.');
+      const progress = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(progress.UpdateExpression).toContain(
+        'memorySegments :segments, memoryReusedSegments :reused, memorySavedTokens :saved'
+      );
+      expect(progress.ExpressionAttributeValues?.[':segments']).toEqual({ N: '2' });
+      expect(progress.ExpressionAttributeValues?.[':reused']).toEqual({ N: '2' });
+    });
+
+    it('ignores exact matches when retranslating a chunk', async () => {
+      mockChunk('Good morning.');
+      const generateContent = mockModel('Buen día.');
+
+      await handler({ ...event, retranslation: { instructions: null } });
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(storedTranslation()).toBe('Buen día.');
+    });
+
+    it('sends only the unmatched paragraphs and stitches the answer in order', async () => {
+      mockChunk('The storm came.\n\nGood morning.\n\nThe sun rose.');
+      const generateContent = mockModel('Llegó la tormenta.\n\nSalió el sol.');
+
+      await handler(event);
+
+      const prompt: string = generateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('---TEXT TO TRANSLATE---\nThe storm came.\n\nThe sun rose.\n');
+      expect(storedTranslation()).toBe('Llegó la tormenta.\n\nBuenos días.\n\nSalió el sol.');
+      const progress = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(progress.ExpressionAttributeValues?.[':reused']).toEqual({ N: '1' });
+    });
+
+    it('translates the whole chunk when the answer does not line up', async () => {
+      mockChunk('The storm came.\n\nGood morning.');
+      const generateContent = mockModel(
+        'Llegó\n\nla tormenta.',
+        'Llegó la tormenta.\n\nBuenos días a todos.'
+      );
+
+      const result = await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(2);
+      expect(storedTranslation()).toBe('Llegó la tormenta.\n\nBuenos días a todos.');
+      expect(result.tokensUsed).toBe(300);
+      const progress = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(progress.ExpressionAttributeValues?.[':reused']).toEqual({ N: '0' });
+    });
+
+    it('acquires tokens again before translating the whole chunk', async () => {
+      mockChunk('The storm came.\n\nGood morning.');
+      const generateContent = mockModel('Llegó\n\nla tormenta.');
+      const rateLimiter = {
+        acquire: jest
+          .fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValue(
+            new RateLimitError({
+              tokensNeeded: 1000,
+              tokensAvailable: 0,
+              retryAfterMs: 5000,
+              limitType: RateLimitType.TPM,
+            })
+          ),
+      } as any;
+      setRateLimiterForTesting(rateLimiter);
+
+      const result = await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ success: false, retryable: true });
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    });
+
+    it('gives the model an edited paragraph as a reference', async () => {
+      mockChunk(edited);
+      const generateContent = mockModel('La lluvia no había parado en cuatro días.');
+
+      await handler(event);
+
+      const prompt: string = generateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('---TRANSLATION MEMORY---');
+      expect(prompt).toContain('Translation: La lluvia no había parado en tres días');
+    });
+
+    it('translates as usual when the lookup fails', async () => {
+      dynamoMock.on(BatchGetItemCommand).rejects(new Error('Throughput exceeded'));
+      mockChunk('Good morning.');
+      const generateContent = mockModel('Buen día.');
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(storedTranslation()).toBe('Buen día.');
+    });
+  });
+
+  describe('revisions', () => {
+    const alignment = {
+      M: {
+        previousRevision: { N: '1' },
+        targetLanguage: { S: 'es' },
+        reusedFrom: { L: [{ N: '0' }, { N: '-1' }, { N: '1' }] },
+        changedChunks: { N: '1' },
+      },
+    };
+
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: createMockJob({ totalChunks: 3, extraFields: { revisionAlignment: alignment } }),
+      } as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      s3Mock.on(CopyObjectCommand).resolves({} as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent: 'New text.', chunkId: 'c' })),
+      } as any);
+    });
+
+    function event(chunkIndex: number, targetLanguage = 'es'): TranslateChunkEvent {
+      return { jobId: 'job-123', userId: 'user-123', chunkIndex, targetLanguage };
+    }
+
+    it("copies an unchanged chunk's translation from the previous revision", async () => {
+      const result = await handler(event(2));
+
+      expect(result).toMatchObject({
+        success: true,
+        translatedKey: 'translated/job-123/chunk-2.txt',
+        tokensUsed: 0,
+      });
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toMatchObject({
+        CopySource: 'test-chunks-bucket/revisions/job-123/1/chunk-1.txt',
+        Key: 'translated/job-123/chunk-2.txt',
+      });
+      expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      expect(genAi.models.generateContent).not.toHaveBeenCalled();
+      const progress = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(progress.ExpressionAttributeValues?.[':one']).toEqual({ N: '1' });
+      expect(progress.ExpressionAttributeValues?.[':cost']).toEqual({ N: '0' });
+    });
+
+    it('translates a changed chunk', async () => {
+      const result = await handler(event(1));
+
+      expect(result.success).toBe(true);
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Key).toBe(
+        'translated/job-123/chunk-1.txt'
+      );
+    });
+
+    it('translates every chunk into a different target language', async () => {
+      await handler(event(0, 'fr'));
+
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('recovery', () => {
+    const alignment = {
+      M: {
+        previousRevision: { N: '1' },
+        targetLanguage: { S: 'es' },
+        reusedFrom: { L: [{ N: '0' }, { N: '-1' }] },
+        changedChunks: { N: '1' },
+      },
+    };
+
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: createMockJob({ totalChunks: 2, extraFields: { revisionAlignment: alignment } }),
+      } as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent: 'Old text.', chunkId: 'c' })),
+      } as any);
+    });
+
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 0,
+      targetLanguage: 'es',
+    };
+
+    it('retranslates a reusable chunk with the instruction override', async () => {
+      const result = await handler({
+        ...event,
+        retranslation: { instructions: 'Keep the narrator in the present tense.' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      expect(genAi.models.generateContent.mock.calls[0][0].contents).toContain(
+        'Keep the narrator in the present tense.'
+      );
+      const progress = dynamoMock.commandCalls(UpdateItemCommand)[0].args[0].input;
+      expect(progress.UpdateExpression).toContain('DELETE failedChunkIndexes :chunk');
+      expect(progress.ExpressionAttributeValues?.[':chunk']).toEqual({ NS: ['0'] });
+    });
+
+    it('records a chunk that fails for good among the failed chunks', async () => {
+      s3Mock.on(GetObjectCommand).rejects(new Error('Access Denied'));
+
+      const result = await handler({ ...event, chunkIndex: 1 });
+
+      expect(result).toMatchObject({ success: false, retryable: false });
+      const failure = dynamoMock.commandCalls(UpdateItemCommand).pop()!.args[0].input;
+      expect(failure.UpdateExpression).toContain('ADD failedChunkIndexes :chunk');
+      expect(failure.ExpressionAttributeValues?.[':status']).toEqual({ S: 'TRANSLATION_FAILED' });
+      expect(failure.ExpressionAttributeValues?.[':chunk']).toEqual({ NS: ['1'] });
+    });
+
+    it('counts a chunk that finishes after the job was paused without resetting its status', async () => {
+      dynamoMock
+        .on(UpdateItemCommand)
+        .rejectsOnce(new ConditionalCheckFailedException({ message: 'paused', $metadata: {} }))
+        .resolves({} as any);
+
+      const result = await handler({ ...event, chunkIndex: 1 });
+
+      expect(result.success).toBe(true);
+      const [guarded, counted] = dynamoMock
+        .commandCalls(UpdateItemCommand)
+        .map((c) => c.args[0].input);
+      expect(guarded.ConditionExpression).toBe('NOT translationStatus IN (:paused, :cancelled)');
+      expect(counted.UpdateExpression).not.toContain('translationStatus');
+      expect(counted.UpdateExpression).toContain('ADD translatedChunks :one');
+      expect(counted.ConditionExpression).toBeUndefined();
+    });
+
+    it('leaves a paused job paused when a chunk fails for good', async () => {
+      s3Mock.on(GetObjectCommand).rejects(new Error('Access Denied'));
+      dynamoMock
+        .on(UpdateItemCommand)
+        .rejects(new ConditionalCheckFailedException({ message: 'paused', $metadata: {} }));
+
+      const result = await handler({ ...event, chunkIndex: 1 });
+
+      expect(result).toMatchObject({ success: false, retryable: false });
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('quality check', () => {
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: createMockJob({ totalChunks: 2 }) } as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent: 'Short text.', chunkId: 'c' })),
+      } as any);
+    });
+
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 1,
+      targetLanguage: 'es',
+    };
+
+    function respondWith(response: Record<string, unknown>) {
+      (GoogleGenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+        models: { generateContent: jest.fn().mockResolvedValue(response) },
+      }));
+    }
+
+    it("stores the flags of a response cut off at the model's output limit", async () => {
+      respondWith({
+        text: 'Texto traducido',
+        candidates: [{ finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      const [progress, flags] = dynamoMock
+        .commandCalls(UpdateItemCommand)
+        .map((c) => c.args[0].input);
+      expect(progress.UpdateExpression).toContain('ADD translatedChunks :one');
+      expect(flags.UpdateExpression).toBe('SET qualityFlags.#chunk = :flags');
+      expect(flags.ExpressionAttributeNames).toEqual({ '#chunk': '1' });
+      expect(unmarshall(flags.ExpressionAttributeValues!)[':flags']).toEqual([
+        expect.objectContaining({ type: 'TRUNCATED', severity: 'HIGH' }),
+      ]);
+    });
+
+    it('writes nothing for a clean first translation', async () => {
+      await handler(event);
+
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(1);
+    });
+
+    it('drops the flags of the previous translation when a retranslation comes back clean', async () => {
+      await handler({ ...event, retranslation: { instructions: null } });
+
+      const flags = dynamoMock.commandCalls(UpdateItemCommand)[1].args[0].input;
+      expect(flags.UpdateExpression).toBe('REMOVE qualityFlags.#chunk');
+      expect(flags.ExpressionAttributeValues).toBeUndefined();
+    });
+
+    it('keeps the translation when the flags cannot be stored', async () => {
+      respondWith({ text: 'Texto', candidates: [{ finishReason: 'MAX_TOKENS' }] });
+      dynamoMock
+        .on(UpdateItemCommand)
+        .resolvesOnce({} as any)
+        .rejects(new Error('The document path provided in the update expression is invalid'));
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('paragraph alignment', () => {
+    const usage = { promptTokenCount: 100, candidatesTokenCount: 50, totalTokenCount: 150 };
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 0,
+      targetLanguage: 'es',
+    };
+
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: createMockJob({ totalChunks: 1 }) } as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(
+          JSON.stringify({
+            primaryContent: 'It rained.\n\nThe river rose.\n\nWe left.',
+            chunkId: 'chunk-0',
+          })
+        ),
+      } as any);
+    });
+
+    function mockModel(...texts: string[]) {
+      const generateContent = jest.fn();
+      for (const text of texts) {
+        generateContent.mockResolvedValueOnce({ text, usageMetadata: usage });
+      }
+      (GoogleGenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+        models: { generateContent },
+      }));
+      return generateContent;
+    }
+
+    const stored = () => s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+
+    it('stores a one-to-one translation without asking again', async () => {
+      const generateContent = mockModel('Llovió.\n\nEl río creció.\n\nNos fuimos.');
+
+      await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(stored().Metadata).not.toHaveProperty('paragraphAlignment');
+    });
+
+    it('asks again with the paragraph count when paragraphs were merged', async () => {
+      const generateContent = mockModel(
+        'Llovió. El río creció.\n\nNos fuimos.',
+        'Llovió.\n\nEl río creció.\n\nNos fuimos.'
+      );
+
+      const result = await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(2);
+      expect(generateContent.mock.calls[1][0].contents).toContain('exactly 3 paragraphs');
+      expect(stored().Body).toBe('Llovió.\n\nEl río creció.\n\nNos fuimos.');
+      expect(stored().Metadata).not.toHaveProperty('paragraphAlignment');
+      expect(result.tokensUsed).toBe(300);
+    });
+
+    it('translates paragraph by paragraph and records the alignment as a last resort', async () => {
+      const generateContent = mockModel(
+        'Llovió. El río creció. Nos fuimos.',
+        'Llovió. El río creció.\n\nNos fuimos.',
+        'Llovió.',
+        'El río\n\ncreció.',
+        'Nos fuimos.'
+      );
+
+      const result = await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(5);
+      expect(generateContent.mock.calls[2][0].contents).toContain('exactly 1 paragraph');
+      expect(stored().Body).toBe('Llovió.\n\nEl río\n\ncreció.\n\nNos fuimos.');
+      expect(stored().Metadata).toMatchObject({ paragraphAlignment: '1,2,1' });
+      expect(result.tokensUsed).toBe(750);
+    });
+
+    it('returns a retryable error when the limiter runs dry while asking again', async () => {
+      const generateContent = mockModel('Llovió. El río creció.\n\nNos fuimos.');
+      const rateLimiter = {
+        acquire: jest
+          .fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValue(
+            new RateLimitError({
+              tokensNeeded: 1000,
+              tokensAvailable: 0,
+              retryAfterMs: 5000,
+              limitType: RateLimitType.TPM,
+            })
+          ),
+      } as any;
+      setRateLimiterForTesting(rateLimiter);
+
+      const result = await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ success: false, retryable: true });
+      expect(result.error).toContain('Rate limit exceeded');
+      // The job is left for the retry, not marked failed.
+      expect(dynamoMock.commandCalls(UpdateItemCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    });
+  });
+
   describe('parallel translation behavior', () => {
     it('should handle chunk with empty previousSummary (first chunk)', async () => {
       dynamoMock.on(GetItemCommand).resolves({
@@ -1088,6 +1810,287 @@ describe('translateChunk Lambda', () => {
     });
   });
 
+  describe('source language', () => {
+    it('names the detected source language in the prompt and chunk metadata', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: { ...createMockJob({ totalChunks: 1 }), sourceLanguage: { S: 'de' } },
+      } as any);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent: 'Guten Tag', chunkId: 'chunk-0' })),
+      } as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+
+      const result = await handler({
+        jobId: 'job-123',
+        userId: 'user-123',
+        chunkIndex: 0,
+        targetLanguage: 'en',
+      });
+
+      expect(result.success).toBe(true);
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      const prompt: string = genAi.models.generateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('Translate the following German text to English.');
+      const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+      expect(put.Metadata?.sourceLanguage).toBe('de');
+    });
+  });
+
+  describe('translation provider', () => {
+    beforeEach(() => {
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent: 'Good day', chunkId: 'chunk-0' })),
+      } as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+    });
+
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 0,
+      targetLanguage: 'es',
+    };
+
+    it('records the default provider and model on jobs that predate the selection', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: createMockJob({ totalChunks: 1 }) } as any);
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+      expect(put.Metadata).toMatchObject({ provider: 'gemini', model: 'gemini-2.5-flash' });
+    });
+
+    it("translates with the job's Anthropic model", async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: createMockJob({
+          totalChunks: 1,
+          extraFields: {
+            translationProvider: { S: 'anthropic' },
+            translationModel: { S: 'claude-haiku-4-5' },
+          },
+        }),
+      } as any);
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            content: [{ type: 'text', text: 'Buenos días' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 100, output_tokens: 50 },
+          }),
+          { status: 200 }
+        )
+      );
+
+      try {
+        const result = await handler(event);
+
+        expect(result.success).toBe(true);
+        expect(result.tokensUsed).toBe(150);
+        expect(GoogleGenAI).not.toHaveBeenCalled();
+        expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).model).toBe(
+          'claude-haiku-4-5'
+        );
+        const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+        expect(put.Body).toBe('Buenos días');
+        expect(put.Metadata).toMatchObject({ provider: 'anthropic', model: 'claude-haiku-4-5' });
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+  });
+
+  describe('subtitle jobs', () => {
+    const cues =
+      '1\n00:00:01,000 --> 00:00:02,500\nHello.\n\n2\n00:00:03,000 --> 00:00:04,000\nBye.';
+    const usageMetadata = { promptTokenCount: 100, candidatesTokenCount: 50, totalTokenCount: 150 };
+
+    /** Route the next GoogleGenAI instance's responses through `texts`, in order. */
+    function mockResponses(...texts: string[]): jest.Mock {
+      const generateContent = jest.fn();
+      for (const text of texts) {
+        generateContent.mockResolvedValueOnce({ text, usageMetadata });
+      }
+      (GoogleGenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+        models: { generateContent },
+      }));
+      return generateContent;
+    }
+
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: createMockJob({ totalChunks: 1, extraFields: { subtitleFormat: { S: 'srt' } } }),
+      } as any);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: createMockStream(JSON.stringify({ primaryContent: cues, chunkId: 'chunk-0' })),
+      } as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+    });
+
+    const event: TranslateChunkEvent = {
+      jobId: 'job-123',
+      userId: 'user-123',
+      chunkIndex: 0,
+      targetLanguage: 'es',
+    };
+
+    it('stores a translation that keeps every cue and timing line', async () => {
+      const translated = cues.replace('Hello.', 'Hola.').replace('Bye.', 'Adiós.');
+      const generateContent = mockResponses(translated);
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(generateContent.mock.calls[0][0].contents).toContain('SubRip (SRT) subtitle cues');
+      const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+      expect(put.Body).toBe(translated);
+    });
+
+    it('re-requests a response that merged cues and bills both attempts', async () => {
+      const translated = cues.replace('Hello.', 'Hola.').replace('Bye.', 'Adiós.');
+      const generateContent = mockResponses(
+        '1\n00:00:01,000 --> 00:00:04,000\nHola. Adiós.',
+        translated
+      );
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(true);
+      expect(generateContent).toHaveBeenCalledTimes(2);
+      expect(result.tokensUsed).toBe(300);
+      expect(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Body).toBe(translated);
+    });
+
+    it('returns a retryable error when the limiter runs dry before a repeat', async () => {
+      const generateContent = mockResponses('1\n00:00:01,000 --> 00:00:04,000\nHola. Adiós.');
+      const rateLimiter = {
+        acquire: jest
+          .fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValue(
+            new RateLimitError({
+              tokensNeeded: 1000,
+              tokensAvailable: 0,
+              retryAfterMs: 5000,
+              limitType: RateLimitType.TPM,
+            })
+          ),
+      } as any;
+      setRateLimiterForTesting(rateLimiter);
+
+      const result = await handler(event);
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ success: false, retryable: true });
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    });
+
+    it('fails the job when every attempt changes a timing line', async () => {
+      const shifted = cues.replace('00:00:03,000', '00:00:03,200');
+      mockResponses(shifted, shifted);
+
+      const result = await handler(event);
+
+      expect(result.success).toBe(false);
+      expect(result.retryable).toBe(false);
+      expect(result.error).toContain('Cue 2 timing changed');
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+      const failure = dynamoMock.commandCalls(UpdateItemCommand).pop()!.args[0].input;
+      expect(failure.ExpressionAttributeValues?.[':status']).toEqual({ S: 'TRANSLATION_FAILED' });
+    });
+  });
+
+  describe('project glossary', () => {
+    const chunkContent = JSON.stringify({
+      primaryContent: 'Frodo walked out of the Shire.',
+      chunkId: 'chunk-0',
+    });
+
+    beforeEach(() => {
+      dynamoMock.on(GetItemCommand, { TableName: 'test-jobs-table' }).resolves({
+        Item: createMockJob({ totalChunks: 1 }),
+      } as any);
+      s3Mock.on(GetObjectCommand).resolves({ Body: createMockStream(chunkContent) } as any);
+      s3Mock.on(PutObjectCommand).resolves({} as any);
+      dynamoMock.on(UpdateItemCommand).resolves({} as any);
+    });
+
+    it('injects the glossary terms found in the chunk into the prompt', async () => {
+      dynamoMock.on(GetItemCommand, { TableName: 'test-glossaries-table' }).resolves({
+        Item: {
+          userId: { S: 'user-123' },
+          glossaryId: { S: 'gloss-1' },
+          terms: {
+            L: [
+              { M: { source: { S: 'Shire' }, target: { S: 'Comarca' } } },
+              { M: { source: { S: 'Mordor' }, target: { S: 'Mordor' } } },
+            ],
+          },
+        },
+      } as any);
+
+      const result = await handler({
+        jobId: 'job-123',
+        userId: 'user-123',
+        chunkIndex: 0,
+        targetLanguage: 'es',
+        glossaryId: 'gloss-1',
+      });
+
+      expect(result.success).toBe(true);
+
+      const glossaryGet = dynamoMock
+        .commandCalls(GetItemCommand)
+        .find((call) => call.args[0].input.TableName === 'test-glossaries-table');
+      expect(glossaryGet?.args[0].input.Key).toEqual({
+        userId: { S: 'user-123' },
+        glossaryId: { S: 'gloss-1' },
+      });
+
+      const genAi = (GoogleGenAI as unknown as jest.Mock).mock.results[0].value;
+      const prompt: string = genAi.models.generateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('- Shire → Comarca');
+      expect(prompt).not.toContain('Mordor');
+    });
+
+    it('fails the chunk non-retryably when the glossary no longer exists', async () => {
+      dynamoMock
+        .on(GetItemCommand, { TableName: 'test-glossaries-table' })
+        .resolves({ Item: undefined } as any);
+
+      const result = await handler({
+        jobId: 'job-123',
+        userId: 'user-123',
+        chunkIndex: 0,
+        targetLanguage: 'es',
+        glossaryId: 'deleted',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.retryable).toBe(false);
+      expect(result.error).toContain('Glossary not found');
+    });
+
+    it('does not read the glossaries table when glossaryId is null', async () => {
+      const result = await handler({
+        jobId: 'job-123',
+        userId: 'user-123',
+        chunkIndex: 0,
+        targetLanguage: 'es',
+        glossaryId: null,
+      });
+
+      expect(result.success).toBe(true);
+      const tables = dynamoMock.commandCalls(GetItemCommand).map((c) => c.args[0].input.TableName);
+      expect(tables).not.toContain('test-glossaries-table');
+    });
+  });
+
   describe('CRITICAL: distributed rate limiter integration', () => {
     it('should successfully acquire rate limit tokens during translation', async () => {
       // This test verifies rate limiter integration during normal operation
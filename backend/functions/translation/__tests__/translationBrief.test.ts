@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the translation memory brief helpers
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import type { TranslationBrief } from '@lfmt/shared-types';
+import { buildTranslationPrompt } from '../promptBuilder';
+import {
+  buildBriefUpdatePrompt,
+  loadBrief,
+  parseBrief,
+  planBriefExcerpts,
+} from '../translationBrief';
+
+const s3Mock = mockClient(S3Client);
+
+describe('translationBrief', () => {
+  const brief: TranslationBrief = {
+    characters: [
+      { name: 'Alex', gender: 'female', rendering: 'Alejandra', notes: 'narrator' },
+      { name: 'Sam', gender: 'unknown' },
+    ],
+    style: 'First person, past tense',
+    plotSummary: 'Alex leaves home.',
+    updatedThroughChunk: 2,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  describe('planBriefExcerpts', () => {
+    it('takes the opening of every chunk when the budget allows', () => {
+      expect(planBriefExcerpts(4, 40_000)).toEqual({
+        chunkIndices: [0, 1, 2, 3],
+        charsPerChunk: 10_000,
+      });
+    });
+
+    it('samples evenly spaced chunks of a long document', () => {
+      const plan = planBriefExcerpts(100, 6_000);
+
+      expect(plan).toEqual({ chunkIndices: [0, 25, 50, 75], charsPerChunk: 1_500 });
+    });
+
+    it('plans nothing for a document without chunks', () => {
+      expect(planBriefExcerpts(0).chunkIndices).toEqual([]);
+    });
+  });
+
+  describe('parseBrief', () => {
+    it('accepts a fenced response and normalizes unknown genders', () => {
+      const parsed = parseBrief(
+        '```json\n{"characters":[{"name":"Kim","gender":"F","rendering":""}],"style":"Terse"}\n```',
+        4
+      );
+
+      expect(parsed).toMatchObject({
+        characters: [{ name: 'Kim', gender: 'unknown' }],
+        style: 'Terse',
+        plotSummary: '',
+        updatedThroughChunk: 4,
+      });
+      expect(parsed.characters[0]).not.toHaveProperty('rendering');
+    });
+
+    it('rejects a response without a characters list', () => {
+      expect(() => parseBrief('{"style":"Terse"}', 0)).toThrow(
+        'Translation brief response has no characters list'
+      );
+      expect(() => parseBrief('null', 0)).toThrow('no characters list');
+    });
+  });
+
+  describe('prompts', () => {
+    it('puts the brief into the translation prompt', () => {
+      const prompt = buildTranslationPrompt(
+        'Sam waved.',
+        { targetLanguage: 'es' },
+        {
+          previousChunks: [],
+          contextTokens: 0,
+          brief,
+        }
+      );
+
+      expect(prompt).toContain('- Alex → Alejandra; female (narrator)\n');
+      expect(prompt).toContain('- Sam → Sam; unknown\n');
+      expect(prompt).toContain('Style: First person, past tense\n');
+      expect(prompt).toContain('Story so far: Alex leaves home.\n');
+      expect(prompt.indexOf('---END BRIEF---')).toBeLessThan(
+        prompt.indexOf('---TEXT TO TRANSLATE---')
+      );
+    });
+
+    it('leaves an empty brief out of the translation prompt', () => {
+      const prompt = buildTranslationPrompt(
+        'Hi',
+        { targetLanguage: 'es' },
+        {
+          previousChunks: [],
+          contextTokens: 0,
+          brief: { ...brief, characters: [], style: '', plotSummary: '' },
+        }
+      );
+
+      expect(prompt).not.toContain('TRANSLATION BRIEF');
+    });
+
+    it('asks for a revision that keeps existing renderings', () => {
+      const prompt = buildBriefUpdatePrompt(brief, 'Sam smiled.', 'Sam sonrió.', 'es');
+
+      expect(prompt).toContain('Never change an existing rendering');
+      expect(prompt).toContain('"rendering":"Alejandra"');
+      expect(prompt).toContain('---SPANISH TRANSLATION OF THE SECTION---\nSam sonrió.');
+      expect(prompt).not.toContain('updatedThroughChunk');
+    });
+  });
+
+  describe('loadBrief', () => {
+    beforeEach(() => s3Mock.reset());
+
+    it('returns null when the job has no brief', async () => {
+      s3Mock
+        .on(GetObjectCommand)
+        .rejects(
+          Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' })
+        );
+
+      await expect(loadBrief(new S3Client({}), 'bucket', 'job-1')).resolves.toBeNull();
+    });
+
+    it('surfaces other S3 errors', async () => {
+      s3Mock.on(GetObjectCommand).rejects(new Error('Access Denied'));
+
+      await expect(loadBrief(new S3Client({}), 'bucket', 'job-1')).rejects.toThrow('Access Denied');
+    });
+  });
+});
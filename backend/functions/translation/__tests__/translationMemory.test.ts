@@ -0,0 +1,179 @@
+/**
+ * Unit tests for the translation memory store
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AttributeValue,
+  BatchGetItemCommand,
+  BatchWriteItemCommand,
+  DynamoDBClient,
+} from '@aws-sdk/client-dynamodb';
+import {
+  lookupTranslationMemory,
+  pairSegments,
+  segmentSimilarity,
+  splitSegments,
+  storeTranslationMemory,
+} from '../translationMemory';
+
+const dynamoMock = mockClient(DynamoDBClient);
+const TABLE = 'test-translation-memory-table';
+
+const LONG_SOURCE =
+  'The rain had not stopped for three days, and the river was already over the old stone bridge.';
+const LONG_TRANSLATION =
+  'La lluvia no había parado en tres días y el río ya cubría el viejo puente de piedra.';
+
+/** Serve BatchGetItem from whatever BatchWriteItem stored, like the real table. */
+function fakeMemoryTable(): Map<string, Record<string, AttributeValue>> {
+  const table = new Map<string, Record<string, AttributeValue>>();
+  const id = (key: Record<string, AttributeValue>) => `${key.memoryKey.S}|${key.segmentKey.S}`;
+
+  dynamoMock.on(BatchWriteItemCommand).callsFake((input) => {
+    for (const request of input.RequestItems[TABLE]) {
+      table.set(id(request.PutRequest.Item), request.PutRequest.Item);
+    }
+    return {};
+  });
+  dynamoMock.on(BatchGetItemCommand).callsFake((input) => ({
+    Responses: {
+      [TABLE]: input.RequestItems[TABLE].Keys.map(id)
+        .filter((key: string) => table.has(key))
+        .map((key: string) => table.get(key)),
+    },
+  }));
+  return table;
+}
+
+describe('translationMemory', () => {
+  const client = new DynamoDBClient({});
+
+  beforeEach(() => dynamoMock.reset());
+
+  describe('segments', () => {
+    it('splits text into trimmed paragraphs', () => {
+      expect(splitSegments('  One.\n\n\nTwo\nlines.\n \nThree. ')).toEqual([
+        'One.',
+        'Two\nlines.',
+        'Three.',
+      ]);
+    });
+
+    it('pairs paragraphs only when the translation lines up', () => {
+      expect(pairSegments('A.\n\nB.', 'Una.\n\nBe.')).toEqual([
+        { source: 'A.', translation: 'Una.' },
+        { source: 'B.', translation: 'Be.' },
+      ]);
+      expect(pairSegments('A.\n\nB.', 'Una y be.')).toBeNull();
+    });
+
+    it('scores similarity by words changed', () => {
+      expect(segmentSimilarity('a b c d', 'a  b\nc d')).toBe(1);
+      expect(segmentSimilarity('a b c d', 'a x c d')).toBe(0.75);
+    });
+  });
+
+  describe('lookup', () => {
+    it('finds an exact match despite whitespace differences', async () => {
+      fakeMemoryTable();
+      await storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+        { source: 'Good  morning.', translation: 'Buenos días.' },
+      ]);
+
+      const matches = await lookupTranslationMemory(client, TABLE, 'user-1', 'es', [
+        'Good morning.',
+        'Good night.',
+      ]);
+
+      expect(matches).toEqual([
+        { source: 'Good  morning.', translation: 'Buenos días.', similarity: 1 },
+        null,
+      ]);
+    });
+
+    it('offers an edited paragraph as a fuzzy match', async () => {
+      fakeMemoryTable();
+      await storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+        { source: LONG_SOURCE, translation: LONG_TRANSLATION },
+      ]);
+
+      const [match] = await lookupTranslationMemory(client, TABLE, 'user-1', 'es', [
+        LONG_SOURCE.replace('three days', 'four days'),
+      ]);
+
+      expect(match?.translation).toBe(LONG_TRANSLATION);
+      expect(match?.similarity).toBeCloseTo(17 / 18);
+    });
+
+    it('ignores a paragraph that only shares its opening', async () => {
+      fakeMemoryTable();
+      await storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+        { source: LONG_SOURCE, translation: LONG_TRANSLATION },
+      ]);
+
+      const [match] = await lookupTranslationMemory(client, TABLE, 'user-1', 'es', [
+        'The rain had not stopped for three days, so we stayed inside and read old letters aloud.',
+      ]);
+
+      expect(match).toBeNull();
+    });
+
+    it("never returns another user's or another language's translations", async () => {
+      fakeMemoryTable();
+      await storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+        { source: 'Good morning.', translation: 'Buenos días.' },
+      ]);
+
+      const [otherUser] = await lookupTranslationMemory(client, TABLE, 'user-2', 'es', [
+        'Good morning.',
+      ]);
+      const [otherLanguage] = await lookupTranslationMemory(client, TABLE, 'user-1', 'fr', [
+        'Good morning.',
+      ]);
+
+      expect(otherUser).toBeNull();
+      expect(otherLanguage).toBeNull();
+    });
+  });
+
+  describe('store', () => {
+    it('writes each key once, in batches of 25', async () => {
+      const table = fakeMemoryTable();
+      const pairs = Array.from({ length: 30 }, (_, i) => ({
+        source: `Line ${i}.`,
+        translation: `Línea ${i}.`,
+      }));
+
+      const written = await storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+        ...pairs,
+        pairs[0],
+      ]);
+
+      expect(written).toBe(30);
+      expect(table.size).toBe(30);
+      expect(dynamoMock.commandCalls(BatchWriteItemCommand)).toHaveLength(2);
+    });
+
+    it('retries unprocessed items and gives up when they persist', async () => {
+      const pending = { [TABLE]: [{ PutRequest: { Item: {} } }] };
+      dynamoMock
+        .on(BatchWriteItemCommand)
+        .resolvesOnce({ UnprocessedItems: pending })
+        .resolvesOnce({});
+
+      await storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+        { source: 'A.', translation: 'Una.' },
+      ]);
+      expect(dynamoMock.commandCalls(BatchWriteItemCommand)).toHaveLength(2);
+
+      dynamoMock.reset();
+      dynamoMock.on(BatchWriteItemCommand).resolves({ UnprocessedItems: pending });
+      await expect(
+        storeTranslationMemory(client, TABLE, 'user-1', 'es', 'job-1', [
+          { source: 'A.', translation: 'Una.' },
+        ])
+      ).rejects.toThrow('Translation memory writes still throttled after 3 attempts');
+    });
+  });
+});
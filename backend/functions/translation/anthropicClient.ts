@@ -0,0 +1,379 @@
+/**
+ * Anthropic API Client Wrapper
+ * Handles communication with the Anthropic Messages API for translation
+ *
+ * Calls the HTTP API directly with the runtime's `fetch` — one endpoint and
+ * one request shape don't justify bundling the vendor SDK into the chunk
+ * Lambda. Mirrors GeminiClient: the API key comes from Secrets Manager,
+ * 429 / 5xx / 529 (overloaded) responses are retried with exponential
+ * backoff, and failures surface as AnthropicApiError with a `retryable` flag
+ * translateChunk hands back to Step Functions.
+ */
+
+import {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+  GetSecretValueCommandOutput,
+} from '@aws-sdk/client-secrets-manager';
+import Logger from '../shared/logger';
+import { buildTranslationPrompt } from './promptBuilder';
+import {
+  TranslationOptions,
+  TranslationResult,
+  TranslationContext,
+  CompletionResult,
+  AnthropicApiError,
+  TranslationProvider,
+} from './types';
+
+const logger = new Logger('lfmt-anthropic-client');
+
+const MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * finishReason reported for a response cut off at max_tokens — Gemini's
+ * name for it, so the truncation check (qualityCheck.ts) and the
+ * paragraph realignment treat both providers alike.
+ */
+const TRUNCATED_FINISH_REASON = 'MAX_TOKENS';
+
+/**
+ * USD per million tokens, by model family. Used for the per-job cost
+ * estimate only — billing is whatever the vendor invoices. Unknown model
+ * names are priced as Sonnet.
+ */
+const PRICING_PER_MILLION_TOKENS: ReadonlyArray<{
+  family: string;
+  input: number;
+  output: number;
+}> = [
+  { family: 'opus', input: 15, output: 75 },
+  { family: 'sonnet', input: 3, output: 15 },
+  { family: 'haiku', input: 1, output: 5 },
+];
+
+/**
+ * Configuration for Anthropic client
+ */
+export interface AnthropicClientConfig {
+  /**
+   * AWS Secrets Manager secret name containing API key
+   */
+  apiKeySecretName: string;
+
+  /**
+   * Model to use for translation
+   * @default 'claude-sonnet-4-5'
+   */
+  model?: string;
+
+  /**
+   * Upper bound on the translated output, in tokens. A response cut off at
+   * this limit is rejected rather than stored half-translated.
+   * @default 16384
+   */
+  maxOutputTokens?: number;
+
+  /**
+   * Maximum retries for transient failures
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Initial retry delay in milliseconds
+   * @default 1000
+   */
+  initialRetryDelayMs?: number;
+}
+
+/** The parts of a Messages API response we read. */
+interface MessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string | null;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Anthropic API Client for translation operations
+ */
+export class AnthropicClient implements TranslationProvider {
+  readonly name = 'anthropic' as const;
+  private apiKey: string | null = null;
+  private secretsClient: SecretsManagerClient;
+  private config: Required<AnthropicClientConfig>;
+
+  constructor(config: AnthropicClientConfig) {
+    this.config = {
+      apiKeySecretName: config.apiKeySecretName,
+      model: config.model || 'claude-sonnet-4-5',
+      maxOutputTokens: config.maxOutputTokens ?? 16384,
+      maxRetries: config.maxRetries ?? 3,
+      initialRetryDelayMs: config.initialRetryDelayMs ?? 1000,
+    };
+
+    this.secretsClient = new SecretsManagerClient({});
+    logger.info('AnthropicClient initialized', { model: this.config.model });
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Initialize the client by fetching API key from Secrets Manager
+   */
+  async initialize(): Promise<void> {
+    if (this.apiKey) {
+      logger.debug('Client already initialized');
+      return;
+    }
+
+    try {
+      logger.info('Fetching Anthropic API key from Secrets Manager', {
+        secretName: this.config.apiKeySecretName,
+      });
+
+      const response: GetSecretValueCommandOutput = await this.secretsClient.send(
+        new GetSecretValueCommand({ SecretId: this.config.apiKeySecretName })
+      );
+
+      if (!response.SecretString) {
+        throw new Error('Secret value is empty');
+      }
+
+      this.apiKey = response.SecretString;
+      logger.info('Anthropic client initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize Anthropic client', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new AnthropicApiError(
+        'Failed to retrieve API key from Secrets Manager',
+        500,
+        'INITIALIZATION_ERROR',
+        false
+      );
+    }
+  }
+
+  /**
+   * Translate text to target language
+   *
+   * @param text - Text to translate
+   * @param options - Translation options
+   * @param context - Optional context from previous chunks
+   * @returns Translation result with metadata
+   */
+  async translate(
+    text: string,
+    options: TranslationOptions,
+    context?: TranslationContext
+  ): Promise<TranslationResult> {
+    logger.info('Starting translation', {
+      textLength: text.length,
+      targetLanguage: options.targetLanguage,
+      hasContext: !!context,
+      contextChunks: context?.previousChunks.length ?? 0,
+      hasBrief: !!context?.brief,
+    });
+
+    const result = await this.complete(buildTranslationPrompt(text, options, context));
+
+    logger.info('Translation completed', {
+      targetLanguage: options.targetLanguage,
+      tokensUsed: result.tokensUsed.total,
+      estimatedCost: result.estimatedCost,
+      processingTimeMs: result.processingTimeMs,
+    });
+
+    return {
+      translatedText: result.text,
+      targetLanguage: options.targetLanguage,
+      tokensUsed: result.tokensUsed,
+      estimatedCost: result.estimatedCost,
+      processingTimeMs: result.processingTimeMs,
+      finishReason: result.finishReason,
+    };
+  }
+
+  /**
+   * Send a prompt and return the model's text, with the same retry and
+   * error mapping as a translation request. A response cut off at
+   * max_tokens is returned as far as it got, flagged MAX_TOKENS, as
+   * GeminiClient does.
+   */
+  async complete(prompt: string): Promise<CompletionResult> {
+    if (!this.apiKey) {
+      throw new AnthropicApiError(
+        'Client not initialized. Call initialize() first.',
+        500,
+        'NOT_INITIALIZED',
+        false
+      );
+    }
+
+    const startTime = Date.now();
+    const response = await this.makeRequestWithRetry(prompt);
+    const processingTimeMs = Date.now() - startTime;
+
+    // A refusal will be repeated on retry, so it is not retryable.
+    if (response.stop_reason === 'refusal') {
+      throw new AnthropicApiError('Anthropic declined to answer this request', 200, 'REFUSAL');
+    }
+
+    const truncated = response.stop_reason === 'max_tokens';
+    const text = (response.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+    // Nothing fits in the output limit: the same input fails again.
+    if (text === '' && truncated) {
+      throw new AnthropicApiError(
+        `Response exceeded the ${this.config.maxOutputTokens}-token output limit`,
+        200,
+        'MAX_TOKENS'
+      );
+    }
+    if (text === '') {
+      throw new AnthropicApiError(
+        `Anthropic returned an empty response (stop_reason: ${response.stop_reason ?? 'unknown'})`,
+        200,
+        'EMPTY_RESPONSE',
+        true
+      );
+    }
+
+    const input = response.usage?.input_tokens ?? 0;
+    const output = response.usage?.output_tokens ?? 0;
+
+    return {
+      text,
+      tokensUsed: { input, output, total: input + output },
+      estimatedCost: estimateAnthropicCost(this.config.model, input, output),
+      processingTimeMs,
+      finishReason: truncated ? TRUNCATED_FINISH_REASON : (response.stop_reason ?? undefined),
+    };
+  }
+
+  /**
+   * POST the prompt to the Messages API, retrying rate limits, server
+   * errors and overload (529) with exponential backoff.
+   */
+  private async makeRequestWithRetry(prompt: string, retryCount = 0): Promise<MessagesResponse> {
+    let response: Response;
+    try {
+      response = await fetch(MESSAGES_URL, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey ?? '',
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          max_tokens: this.config.maxOutputTokens,
+          messages: [{ role: 'user', content: prompt }],
+        }),
+      });
+    } catch (error) {
+      // Network failure before any HTTP status — transient by nature.
+      throw new AnthropicApiError(
+        `Request to Anthropic failed: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        'NETWORK_ERROR',
+        true
+      );
+    }
+
+    if (response.ok) {
+      return (await response.json()) as MessagesResponse;
+    }
+
+    const status = response.status;
+    const transient = status === 429 || status >= 500;
+    if (transient && retryCount < this.config.maxRetries) {
+      const retryAfterSeconds = Number(response.headers.get('retry-after'));
+      const delayMs =
+        retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : this.calculateRetryDelay(retryCount);
+
+      logger.warn('Transient error, retrying', {
+        status,
+        retryCount: retryCount + 1,
+        delayMs,
+      });
+
+      await this.sleep(delayMs);
+      return this.makeRequestWithRetry(prompt, retryCount + 1);
+    }
+
+    throw await this.toApiError(response);
+  }
+
+  /**
+   * Classify an error response. The body is `{ error: { type, message } }`.
+   */
+  private async toApiError(response: Response): Promise<AnthropicApiError> {
+    const status = response.status;
+    let message = response.statusText || 'Unknown API error';
+    try {
+      const body = (await response.json()) as { error?: { message?: string } };
+      message = body.error?.message ?? message;
+    } catch {
+      // Non-JSON error body — keep the status text.
+    }
+
+    if (status === 401 || status === 403) {
+      return new AnthropicApiError(
+        'Invalid or expired API key. Please check your Anthropic API credentials.',
+        status,
+        'INVALID_API_KEY'
+      );
+    }
+    if (status === 429) {
+      return new AnthropicApiError(
+        'Rate limit exceeded. Please try again later.',
+        429,
+        'RATE_LIMIT_EXCEEDED',
+        true
+      );
+    }
+    if (status === 400) {
+      return new AnthropicApiError(`Invalid request: ${message}`, 400, 'BAD_REQUEST');
+    }
+    if (status >= 500) {
+      return new AnthropicApiError(`Server error: ${message}`, status, 'SERVER_ERROR', true);
+    }
+    return new AnthropicApiError(`Translation failed: ${message}`, status, 'UNKNOWN_ERROR');
+  }
+
+  /**
+   * Calculate exponential backoff delay
+   */
+  private calculateRetryDelay(retryCount: number): number {
+    // Exponential backoff: 1s, 2s, 4s, 8s...
+    const baseDelay = this.config.initialRetryDelayMs * Math.pow(2, retryCount);
+    // Add jitter (±25%)
+    const jitter = baseDelay * 0.25 * (Math.random() - 0.5);
+    return Math.floor(baseDelay + jitter);
+  }
+
+  /**
+   * Sleep utility for retry delays
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Estimated USD cost of one request, from PRICING_PER_MILLION_TOKENS.
+ * Exported for testability.
+ */
+export function estimateAnthropicCost(model: string, input: number, output: number): number {
+  const price =
+    PRICING_PER_MILLION_TOKENS.find(({ family }) => model.includes(family)) ??
+    PRICING_PER_MILLION_TOKENS[1];
+  return (input / 1_000_000) * price.input + (output / 1_000_000) * price.output;
+}
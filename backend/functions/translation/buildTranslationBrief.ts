@@ -0,0 +1,189 @@
+/**
+ * Build Translation Brief Lambda Function
+ * Writes a job's translation memory brief (see translationBrief.ts) from
+ * excerpts of the source, before the Step Functions Map translates the
+ * first chunk
+ *
+ * Runs for every execution and returns immediately when the job was started
+ * with `briefMode: 'off'`. The brief improves consistency but is not
+ * required to translate, so only transient failures (rate limits, 5xx) are
+ * surfaced for Step Functions to retry; anything else is logged and the job
+ * carries on without a brief.
+ */
+
+import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  DEFAULT_TRANSLATION_MODELS,
+  DEFAULT_TRANSLATION_PROVIDER,
+  isLanguageCode,
+} from '@lfmt/shared-types';
+import type { TranslationBriefMode, TranslationProviderName } from '@lfmt/shared-types';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { countTokens } from '../shared/tokenizer';
+import { loadJobForUser } from '../shared/jobRepository';
+import { RateLimitError, RateLimitType } from '../shared/types/rateLimiting';
+import { mockConfigFromEnv } from './mockGenAI';
+import { getMockProvider, getProvider, getRateLimiter } from './providers';
+import { buildBriefPrompt, parseBrief, planBriefExcerpts, storeBrief } from './translationBrief';
+import { TranslationApiError } from './types';
+
+const logger = new Logger('lfmt-build-translation-brief');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+// Offline pseudo-translation for local runs and CI (see mockGenAI.ts).
+const MOCK_TRANSLATION = mockConfigFromEnv();
+
+/** Tokens reserved for the brief itself when acquiring rate-limit capacity. */
+const BRIEF_OUTPUT_TOKENS = 2000;
+
+/**
+ * Thrown for failures a later attempt may not hit. The state machine
+ * retries this error name and otherwise moves on to the chunks.
+ */
+export class BriefRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BriefRetryableError';
+  }
+}
+
+/**
+ * Lambda event structure (from the state machine execution input)
+ */
+export interface BuildTranslationBriefEvent {
+  jobId: string;
+  userId: string;
+  targetLanguage: string;
+  briefMode?: TranslationBriefMode;
+}
+
+/**
+ * Lambda response structure
+ */
+export interface BuildTranslationBriefResponse {
+  jobId: string;
+  generated: boolean;
+  characters?: number;
+  tokensUsed?: number;
+  error?: string;
+}
+
+export const handler = async (
+  event: BuildTranslationBriefEvent
+): Promise<BuildTranslationBriefResponse> => {
+  const { jobId, userId } = event;
+
+  if (!event.briefMode || event.briefMode === 'off') {
+    return { jobId, generated: false };
+  }
+
+  try {
+    if (!isLanguageCode(event.targetLanguage)) {
+      throw new Error(`Invalid targetLanguage: ${event.targetLanguage}`);
+    }
+
+    const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+
+    const excerpts = await loadExcerpts(job.chunkingMetadata?.chunkKeys ?? []);
+    if (excerpts.length === 0) {
+      throw new Error(`Job ${jobId} has no chunks to write a brief from`);
+    }
+
+    const sourceLanguage =
+      job.sourceLanguage && isLanguageCode(job.sourceLanguage) ? job.sourceLanguage : undefined;
+    const prompt = buildBriefPrompt(excerpts, event.targetLanguage, sourceLanguage);
+
+    // Same vendor and model as the chunks, so the brief's renderings read
+    // like the translation they steer.
+    const providerName: TranslationProviderName =
+      job.translationProvider ?? DEFAULT_TRANSLATION_PROVIDER;
+    const model = job.translationModel ?? DEFAULT_TRANSLATION_MODELS[providerName];
+    const provider = MOCK_TRANSLATION
+      ? await getMockProvider(MOCK_TRANSLATION, -1)
+      : await getProvider(providerName, model);
+
+    if (!MOCK_TRANSLATION) {
+      await getRateLimiter(providerName).acquire(
+        countTokens(prompt) + BRIEF_OUTPUT_TOKENS,
+        RateLimitType.TPM
+      );
+    }
+
+    const result = await provider.complete(prompt);
+    const brief = parseBrief(result.text, -1);
+    await storeBrief(s3Client, CHUNKS_BUCKET, jobId, brief);
+    await recordUsage(jobId, userId, result.tokensUsed.total, result.estimatedCost);
+
+    logger.info('Translation brief written', {
+      jobId,
+      characters: brief.characters.length,
+      excerpts: excerpts.length,
+      tokensUsed: result.tokensUsed.total,
+    });
+
+    return {
+      jobId,
+      generated: true,
+      characters: brief.characters.length,
+      tokensUsed: result.tokensUsed.total,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retryable =
+      error instanceof RateLimitError || (error instanceof TranslationApiError && error.retryable);
+
+    logger.error('Failed to write translation brief', { jobId, error: message, retryable });
+
+    if (retryable) {
+      throw new BriefRetryableError(message);
+    }
+    return { jobId, generated: false, error: message };
+  }
+};
+
+/**
+ * Load the openings of the source chunks chosen by planBriefExcerpts.
+ */
+async function loadExcerpts(chunkKeys: string[]): Promise<string[]> {
+  const { chunkIndices, charsPerChunk } = planBriefExcerpts(chunkKeys.length);
+
+  return Promise.all(
+    chunkIndices.map(async (index) => {
+      const response = await s3Client.send(
+        new GetObjectCommand({ Bucket: CHUNKS_BUCKET, Key: chunkKeys[index] })
+      );
+      const chunk = JSON.parse((await response.Body?.transformToString()) ?? '{}');
+      return String(chunk.primaryContent ?? '').slice(0, charsPerChunk);
+    })
+  );
+}
+
+/**
+ * Add the brief request to the job's token and cost totals. Atomic ADD, as
+ * in translateChunk's updateJobProgress — startTranslation zeroes both
+ * attributes before the execution starts.
+ */
+async function recordUsage(
+  jobId: string,
+  userId: string,
+  tokensUsed: number,
+  estimatedCost: number
+): Promise<void> {
+  await dynamoClient.send(
+    new UpdateItemCommand({
+      TableName: JOBS_TABLE,
+      Key: marshall({ jobId, userId }),
+      UpdateExpression: 'ADD tokensUsed :tokens, estimatedCost :cost',
+      ExpressionAttributeValues: marshall({ ':tokens': tokensUsed, ':cost': estimatedCost }),
+    })
+  );
+}
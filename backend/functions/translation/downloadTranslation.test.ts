@@ -1,21 +1,26 @@
 /**
  * Unit tests for the Download Translation endpoint
- * GET /jobs/{jobId}/download[?format=markdown|epub|pdf]
+ * GET /jobs/{jobId}/download[?format=markdown|epub|pdf|docx|srt|vtt][&chapter=N]
+ * GET /jobs/{jobId}/chapters
+ * GET /jobs/{jobId}/review-pdf[?comments=all|unresolved]
  */
 
 // Set required environment variables BEFORE any imports so that getRequiredEnv()
 // succeeds at module-evaluation time (same pattern as getJob.test.ts).
 process.env.JOBS_TABLE = 'test-jobs-table';
 process.env.DOCUMENT_BUCKET = 'test-documents-bucket';
+process.env.COMMENTS_TABLE = 'test-comments-table';
 
 // Mock @lesjoursfr/html-to-epub (issue #28) BEFORE importing the handler.
 // The real library ships as native ESM and the ts-jest preset (CJS) cannot
 // load it. Same mock strategy as in formatConverters.test.ts — see the
 // rationale block there.
 jest.mock('@lesjoursfr/html-to-epub', () => {
+  const mockConstructor = jest.fn();
   class FakeEPub {
     private outputPath: string;
-    constructor(_options: Record<string, unknown>, outputPath: string) {
+    constructor(options: Record<string, unknown>, outputPath: string) {
+      mockConstructor(options);
       this.outputPath = outputPath;
     }
     async render(): Promise<{ result: string }> {
@@ -26,7 +31,7 @@ jest.mock('@lesjoursfr/html-to-epub', () => {
       return { result: 'ok' };
     }
   }
-  return { EPub: FakeEPub };
+  return { EPub: FakeEPub, __mockConstructor: mockConstructor };
 });
 
 // Mock the s3-request-presigner getSignedUrl helper — tests assert that
@@ -37,7 +42,7 @@ jest.mock('@aws-sdk/s3-request-presigner', () => ({
 
 import { APIGatewayProxyEvent } from 'aws-lambda';
 import { mockClient } from 'aws-sdk-client-mock';
-import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBClient, GetItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
 import {
   S3Client,
   GetObjectCommand,
@@ -50,7 +55,11 @@ import { sdkStreamMixin } from '@smithy/util-stream';
 import { Readable } from 'stream';
 import { handler } from './downloadTranslation';
 import * as presignerModule from '@aws-sdk/s3-request-presigner';
+import * as epubModule from '@lesjoursfr/html-to-epub';
 const { getSignedUrl } = presignerModule;
+const { __mockConstructor: mockEpubConstructor } = epubModule as unknown as {
+  __mockConstructor: jest.Mock;
+};
 
 const dynamoMock = mockClient(DynamoDBClient);
 const s3Mock = mockClient(S3Client);
@@ -74,7 +83,8 @@ function makeCompletedJobItem(overrides: Record<string, unknown> = {}) {
     {
       jobId: TEST_JOB_ID,
       userId: TEST_USER_ID,
-      status: 'COMPLETED',
+      // Approved, so downloads are not watermarked as drafts.
+      status: 'APPROVED',
       translationStatus: 'COMPLETED',
       filename: 'original.txt',
       createdAt: '2026-05-01T10:00:00.000Z',
@@ -178,6 +188,53 @@ describe('downloadTranslation handler', () => {
     expect(result.body).toBe('chunk0\nchunk2\nchunk10');
   });
 
+  it('assembles an edited chunk from its newest edit unless it was retranslated since', async () => {
+    dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
+
+    const machineAt = new Date('2026-05-01T10:05:00.000Z');
+    s3Mock
+      .on(ListObjectsV2Command, { Prefix: `translated/${TEST_JOB_ID}/` })
+      .resolves({
+        Contents: [
+          { Key: `translated/${TEST_JOB_ID}/chunk-0.txt`, LastModified: machineAt },
+          {
+            Key: `translated/${TEST_JOB_ID}/chunk-1.txt`,
+            LastModified: new Date('2026-05-03T09:00:00.000Z'),
+          },
+        ],
+        IsTruncated: false,
+      })
+      .on(ListObjectsV2Command, { Prefix: `translated-edits/${TEST_JOB_ID}/` })
+      .resolves({
+        Contents: [
+          {
+            Key: `translated-edits/${TEST_JOB_ID}/chunk-0/v1.txt`,
+            LastModified: new Date('2026-05-02T08:00:00.000Z'),
+          },
+          {
+            Key: `translated-edits/${TEST_JOB_ID}/chunk-0/v2.txt`,
+            LastModified: new Date('2026-05-02T08:30:00.000Z'),
+          },
+          // Chunk 1 was retranslated after this edit.
+          {
+            Key: `translated-edits/${TEST_JOB_ID}/chunk-1/v1.txt`,
+            LastModified: new Date('2026-05-02T08:00:00.000Z'),
+          },
+        ],
+        IsTruncated: false,
+      });
+    s3Mock
+      .on(GetObjectCommand, { Key: `translated/${TEST_JOB_ID}/chunk-1.txt` })
+      .resolves({ Body: makeS3Stream('retranslated1') } as any)
+      .on(GetObjectCommand, { Key: `translated-edits/${TEST_JOB_ID}/chunk-0/v2.txt` })
+      .resolves({ Body: makeS3Stream('edited0') } as any);
+
+    const result = await handler(createEvent() as APIGatewayProxyEvent);
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toBe('edited0\nretranslated1');
+  });
+
   // -------------------------------------------------------------------------
   // Auth failures
   // -------------------------------------------------------------------------
@@ -609,7 +666,7 @@ describe('downloadTranslation handler', () => {
     });
 
     it('rejects an unsupported format with 400', async () => {
-      const result = await handler(createFormatEvent('docx') as APIGatewayProxyEvent);
+      const result = await handler(createFormatEvent('mobi') as APIGatewayProxyEvent);
       expect(result.statusCode).toBe(400);
       expect(result.body).toContain('Unsupported format');
     });
@@ -664,6 +721,70 @@ describe('downloadTranslation handler', () => {
       expect(getSignedUrl).toHaveBeenCalledTimes(1);
     });
 
+    describe('EPUB sources', () => {
+      const chunkTexts = ['# Prologue\n\nBefore.', '# One\n\nFirst half.', 'Second half.'];
+
+      const mockThreeChunks = () => {
+        s3Mock.on(ListObjectsV2Command).resolves({
+          Contents: chunkTexts.map((_, i) => ({ Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })),
+          IsTruncated: false,
+        });
+        chunkTexts.forEach((text, i) => {
+          s3Mock
+            .on(GetObjectCommand, { Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })
+            .resolves({ Body: makeS3Stream(text) } as any);
+        });
+        s3Mock
+          .on(HeadObjectCommand)
+          .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+        s3Mock.on(PutObjectCommand).resolves({});
+        mockEpubConstructor.mockClear();
+      };
+
+      it('rebuilds the original chapters and reuses the book metadata', async () => {
+        dynamoMock.on(GetItemCommand).resolves({
+          Item: makeCompletedJobItem({
+            filename: 'novel.epub',
+            totalChunks: 3,
+            chapters: [
+              { title: 'Prologue', firstChunkIndex: 0, chunkCount: 1 },
+              { title: 'Chapter One', firstChunkIndex: 1, chunkCount: 2 },
+            ],
+            sourceMetadata: { author: 'Jane Author', identifier: 'urn:isbn:9780000000001' },
+          }),
+        });
+        mockThreeChunks();
+
+        const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
+
+        expect(result.statusCode).toBe(200);
+        const [options] = mockEpubConstructor.mock.calls[0];
+        expect(options.author).toBe('Jane Author');
+        expect(options.content.map((c: { title: string }) => c.title)).toEqual([
+          'Prologue',
+          'Chapter One',
+        ]);
+        expect(options.content[1].data).toContain('First half.');
+        expect(options.content[1].data).toContain('Second half.');
+      });
+
+      it('falls back to heading chapters when the map does not cover every chunk', async () => {
+        dynamoMock.on(GetItemCommand).resolves({
+          Item: makeCompletedJobItem({
+            chapters: [{ title: 'Only', firstChunkIndex: 0, chunkCount: 2 }],
+          }),
+        });
+        mockThreeChunks();
+
+        const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
+
+        expect(result.statusCode).toBe(200);
+        const [options] = mockEpubConstructor.mock.calls[0];
+        expect(options.author).toBe('Translated by LFMT');
+        expect(options.content.map((c: { title: string }) => c.title)).toEqual(['Prologue', 'One']);
+      });
+    });
+
     it('generates a PDF and returns a presigned URL envelope', async () => {
       dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
       s3Mock.on(ListObjectsV2Command).resolves({
@@ -690,10 +811,117 @@ describe('downloadTranslation handler', () => {
       expect(putBody.slice(0, 5).toString()).toBe('%PDF-');
     });
 
+    it('generates a Word document with the DOCX content type', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [{ Key: `translated/${TEST_JOB_ID}/chunk-0.txt` }],
+        IsTruncated: false,
+      });
+      s3Mock
+        .on(GetObjectCommand)
+        .resolves({ Body: makeS3Stream('# Chapitre 1\n\nBonjour **le** monde.') } as any);
+      s3Mock
+        .on(HeadObjectCommand)
+        .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const result = await handler(createFormatEvent('docx') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.format).toBe('docx');
+      expect(body.objectKey).toBe(`translated-output/${TEST_JOB_ID}/translation.docx`);
+      const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+      expect(put.ContentType).toBe(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      );
+      // A .docx is a zip archive.
+      expect((put.Body as Buffer).slice(0, 2).toString()).toBe('PK');
+    });
+
+    describe('subtitle jobs', () => {
+      const chunkTexts = [
+        '1\n00:00:01,000 --> 00:00:02,000\nHola.',
+        '2\n00:00:03,000 --> 00:00:04,000\nAdiós.',
+      ];
+
+      const mockSubtitleChunks = () => {
+        s3Mock.on(ListObjectsV2Command).resolves({
+          Contents: chunkTexts.map((_, i) => ({ Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })),
+          IsTruncated: false,
+        });
+        chunkTexts.forEach((text, i) => {
+          s3Mock
+            .on(GetObjectCommand, { Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })
+            .resolves({ Body: makeS3Stream(text) } as any);
+        });
+        s3Mock
+          .on(HeadObjectCommand)
+          .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+        s3Mock.on(PutObjectCommand).resolves({});
+      };
+
+      it('converts an SRT job to WebVTT, keeping the cue boundary between chunks', async () => {
+        dynamoMock.on(GetItemCommand).resolves({
+          Item: makeCompletedJobItem({
+            filename: 'episode.srt',
+            totalChunks: 2,
+            subtitleFormat: 'srt',
+          }),
+        });
+        mockSubtitleChunks();
+
+        const result = await handler(createFormatEvent('vtt') as APIGatewayProxyEvent);
+
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).objectKey).toBe(
+          `translated-output/${TEST_JOB_ID}/translation.vtt`
+        );
+        const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+        expect(put.ContentType).toBe('text/vtt');
+        expect((put.Body as Buffer).toString('utf-8')).toBe(
+          'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nHola.\n\n' +
+            '2\n00:00:03.000 --> 00:00:04.000\nAdiós.\n'
+        );
+      });
+
+      it('returns 400 for srt on a job that is not a subtitle translation', async () => {
+        dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
+
+        const result = await handler(createFormatEvent('srt') as APIGatewayProxyEvent);
+
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).message).toContain('only available for subtitle');
+        expect(s3Mock.commandCalls(ListObjectsV2Command)).toHaveLength(0);
+      });
+    });
+
+    it('still generates a CJK PDF when no font is available (Helvetica fallback)', async () => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves({ Item: makeCompletedJobItem({ targetLanguage: 'zh' }) });
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [{ Key: `translated/${TEST_JOB_ID}/chunk-0.txt` }],
+        IsTruncated: false,
+      });
+      s3Mock.on(GetObjectCommand).resolves({ Body: makeS3Stream('# 标题\n\n正文。') } as any);
+      s3Mock
+        .on(HeadObjectCommand)
+        .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const result = await handler(createFormatEvent('pdf') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      const putBody = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Body as Buffer;
+      expect(putBody.slice(0, 5).toString()).toBe('%PDF-');
+    });
+
     it('reuses the cached artefact when HeadObject succeeds (cache hit)', async () => {
       dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
       // Cache hit — HeadObject succeeds, generation is skipped entirely.
       s3Mock.on(HeadObjectCommand).resolves({} as never);
+      s3Mock.on(ListObjectsV2Command).resolves({ Contents: [], IsTruncated: false });
 
       const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
 
@@ -703,11 +931,112 @@ describe('downloadTranslation handler', () => {
       // No PutObject — we reused the existing artefact.
       expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
       // The chunk listing must also have been skipped (no need to
-      // re-fetch the source markdown when the artefact already exists).
-      expect(s3Mock.commandCalls(ListObjectsV2Command)).toHaveLength(0);
+      // re-fetch the source markdown when the artefact already exists);
+      // only the edits are listed, to check the artefact is current.
+      expect(
+        s3Mock.commandCalls(ListObjectsV2Command).map((call) => call.args[0].input.Prefix)
+      ).toEqual([`translated-edits/${TEST_JOB_ID}/`]);
       expect(getSignedUrl).toHaveBeenCalledTimes(1);
     });
 
+    it('generates the artefact again when a chunk was edited after it was cached', async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
+      s3Mock
+        .on(HeadObjectCommand)
+        .resolves({ LastModified: new Date('2026-05-02T08:00:00.000Z') } as never);
+      s3Mock
+        .on(ListObjectsV2Command, { Prefix: `translated/${TEST_JOB_ID}/` })
+        .resolves({
+          Contents: [{ Key: `translated/${TEST_JOB_ID}/chunk-0.txt` }],
+          IsTruncated: false,
+        })
+        .on(ListObjectsV2Command, { Prefix: `translated-edits/${TEST_JOB_ID}/` })
+        .resolves({
+          Contents: [
+            {
+              Key: `translated-edits/${TEST_JOB_ID}/chunk-0/v1.txt`,
+              LastModified: new Date('2026-05-02T09:00:00.000Z'),
+            },
+          ],
+          IsTruncated: false,
+        });
+      s3Mock
+        .on(GetObjectCommand)
+        .resolves({ Body: makeS3Stream('# Capítulo\n\nTexto corregido.') } as any);
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(GetObjectCommand)[0].args[0].input.Key).toBe(
+        `translated-edits/${TEST_JOB_ID}/chunk-0/v1.txt`
+      );
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(1);
+    });
+
+    it('generates the artefact again when the job was retranslated after it was cached', async () => {
+      // A retranslation or recovery rewrites translated/ in place and ends
+      // by setting translationCompletedAt again.
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: makeCompletedJobItem({ translationCompletedAt: '2026-05-02T09:00:00.000Z' }),
+      });
+      s3Mock
+        .on(HeadObjectCommand)
+        .resolves({ LastModified: new Date('2026-05-02T08:00:00.000Z') } as never);
+      s3Mock.on(ListObjectsV2Command).resolves({ Contents: [], IsTruncated: false });
+      s3Mock.on(ListObjectsV2Command, { Prefix: `translated/${TEST_JOB_ID}/` }).resolves({
+        Contents: [{ Key: `translated/${TEST_JOB_ID}/chunk-0.txt` }],
+        IsTruncated: false,
+      });
+      s3Mock
+        .on(GetObjectCommand)
+        .resolves({ Body: makeS3Stream('# Capítulo\n\nTexto traducido de nuevo.') } as any);
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(1);
+    });
+
+    it('reuses an artefact cached after the latest run', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: makeCompletedJobItem({ translationCompletedAt: '2026-05-02T07:00:00.000Z' }),
+      });
+      s3Mock
+        .on(HeadObjectCommand)
+        .resolves({ LastModified: new Date('2026-05-02T08:00:00.000Z') } as never);
+      s3Mock.on(ListObjectsV2Command).resolves({ Contents: [], IsTruncated: false });
+
+      const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    });
+
+    it("caches a revision's artefact under its own key", async () => {
+      dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem({ revision: 2 }) });
+      s3Mock
+        .on(HeadObjectCommand)
+        .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [{ Key: `translated/${TEST_JOB_ID}/chunk-0.txt` }],
+        IsTruncated: false,
+      });
+      s3Mock.on(GetObjectCommand).resolves({ Body: makeS3Stream('# Capítulo\n\nTexto.') } as any);
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const result = await handler(createFormatEvent('epub') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).objectKey).toBe(
+        `translated-output/${TEST_JOB_ID}/revision-2/translation.epub`
+      );
+      expect(s3Mock.commandCalls(HeadObjectCommand)[0].args[0].input.Key).toBe(
+        `translated-output/${TEST_JOB_ID}/revision-2/translation.epub`
+      );
+    });
+
     it('returns 409 when requesting any format for a non-COMPLETED job', async () => {
       dynamoMock.on(GetItemCommand).resolves({
         Item: makeCompletedJobItem({ translationStatus: 'IN_PROGRESS' }),
@@ -726,4 +1055,346 @@ describe('downloadTranslation handler', () => {
       expect(result.statusCode).toBe(404);
     });
   });
+
+  describe('drafts under review', () => {
+    beforeEach(() => {
+      (getSignedUrl as jest.Mock).mockClear();
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [{ Key: `translated/${TEST_JOB_ID}/chunk-0.txt` }],
+        IsTruncated: false,
+      });
+      s3Mock
+        .on(GetObjectCommand)
+        .callsFake(() => ({ Body: makeS3Stream('# Title\n\nBody text.') }) as any);
+      s3Mock
+        .on(HeadObjectCommand)
+        .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+      s3Mock.on(PutObjectCommand).resolves({});
+    });
+
+    it('opens the text of a translation in review with a draft notice', async () => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves({ Item: makeCompletedJobItem({ status: 'IN_REVIEW' }) });
+
+      const result = await handler(createEvent() as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toBe(
+        'DRAFT — this translation has not been approved yet.\n\n# Title\n\nBody text.'
+      );
+      expect(result.headers?.['Content-Disposition']).toBe(
+        'attachment; filename="translated_original_DRAFT.txt"'
+      );
+    });
+
+    it('marks a translation that was never submitted for review as a draft', async () => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves({ Item: makeCompletedJobItem({ status: 'COMPLETED' }) });
+
+      const result = await handler(createEvent() as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toBe(
+        'DRAFT — this translation has not been approved yet.\n\n# Title\n\nBody text.'
+      );
+      expect(result.headers?.['Content-Disposition']).toBe(
+        'attachment; filename="translated_original_DRAFT.txt"'
+      );
+    });
+
+    it('watermarks a PDF of a translation with changes requested under a draft key', async () => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves({ Item: makeCompletedJobItem({ status: 'CHANGES_REQUESTED' }) });
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const PDFDocument = require('pdfkit');
+      const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+
+      const result = await handler(createFormatEvent('pdf') as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).objectKey).toBe(
+        `translated-output/${TEST_JOB_ID}/translation-draft.pdf`
+      );
+      expect(textSpy.mock.calls.some(([text]) => text === 'DRAFT')).toBe(true);
+      const presigned = (getSignedUrl as jest.Mock).mock.calls[0][1].input;
+      expect(presigned.ResponseContentDisposition).toBe(
+        'attachment; filename="translated_original_DRAFT.pdf"'
+      );
+      textSpy.mockRestore();
+    });
+
+    it('serves an approved translation without the watermark', async () => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves({ Item: makeCompletedJobItem({ status: 'APPROVED' }) });
+
+      const result = await handler(createFormatEvent('markdown') as APIGatewayProxyEvent);
+      const pdf = await handler(createFormatEvent('pdf') as APIGatewayProxyEvent);
+
+      expect(result.body).toBe('# Title\n\nBody text.');
+      expect(JSON.parse(pdf.body).objectKey).toBe(
+        `translated-output/${TEST_JOB_ID}/translation.pdf`
+      );
+    });
+  });
+
+  describe('per-chapter downloads', () => {
+    const BOOK = ['Preface text.', '# One\n\nFirst chapter.', '# Two\n\nSecond chapter.'];
+
+    const createChapterEvent = (
+      query: Record<string, string>,
+      resource = '/jobs/{jobId}/download'
+    ): Partial<APIGatewayProxyEvent> => ({
+      ...createEvent(),
+      resource,
+      queryStringParameters: query,
+    });
+
+    beforeEach(() => {
+      dynamoMock
+        .on(GetItemCommand)
+        .resolves({ Item: makeCompletedJobItem({ filename: 'book.txt' }) });
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: BOOK.map((_, i) => ({ Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })),
+        IsTruncated: false,
+      });
+      BOOK.forEach((text, i) => {
+        s3Mock
+          .on(GetObjectCommand, { Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })
+          .resolves({ Body: makeS3Stream(text) } as any);
+      });
+      s3Mock
+        .on(HeadObjectCommand)
+        .rejects({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+      s3Mock.on(PutObjectCommand).resolves({});
+      (getSignedUrl as jest.Mock).mockClear();
+      mockEpubConstructor.mockClear();
+    });
+
+    it('lists the chapters the ePub would contain, numbered from 1', async () => {
+      const result = await handler(
+        createChapterEvent({}, '/jobs/{jobId}/chapters') as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        jobId: TEST_JOB_ID,
+        chapters: [
+          { number: 1, title: 'Introduction' },
+          { number: 2, title: 'One' },
+          { number: 3, title: 'Two' },
+        ],
+      });
+    });
+
+    it('returns one chapter as text under its own heading', async () => {
+      const result = await handler(createChapterEvent({ chapter: '3' }) as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toBe('# Two\n\nSecond chapter.\n');
+      expect(result.headers?.['Content-Disposition']).toContain('translated_book_chapter-3.txt');
+    });
+
+    it('generates a single-chapter ePub under its own cache key', async () => {
+      const result = await handler(
+        createChapterEvent({ format: 'epub', chapter: '2' }) as APIGatewayProxyEvent
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).objectKey).toBe(
+        `translated-output/${TEST_JOB_ID}/chapter-2.epub`
+      );
+      const [options] = mockEpubConstructor.mock.calls[0];
+      expect(options.content.map((c: { title: string }) => c.title)).toEqual(['One']);
+      expect(options.content[0].data).toContain('First chapter.');
+      expect(options.content[0].data).not.toContain('Second chapter.');
+    });
+
+    it('returns 404 for a chapter past the last one', async () => {
+      const result = await handler(createChapterEvent({ chapter: '4' }) as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).message).toBe(
+        'Chapter 4 not found; the translation has 3 chapters'
+      );
+    });
+
+    it.each(['0', '-1', 'two', '1.5'])('rejects chapter=%s with 400', async (chapter) => {
+      const result = await handler(createChapterEvent({ chapter }) as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).message).toContain('Invalid chapter');
+    });
+
+    it('returns 400 for chapters of a subtitle translation', async () => {
+      dynamoMock.on(GetItemCommand).resolves({
+        Item: makeCompletedJobItem({ subtitleFormat: 'srt' }),
+      });
+
+      const list = await handler(
+        createChapterEvent({}, '/jobs/{jobId}/chapters') as APIGatewayProxyEvent
+      );
+      const download = await handler(
+        createChapterEvent({ format: 'srt', chapter: '1' }) as APIGatewayProxyEvent
+      );
+
+      expect(list.statusCode).toBe(400);
+      expect(download.statusCode).toBe(400);
+      expect(JSON.parse(list.body).message).toMatch(/not divided into chapters/);
+    });
+  });
+
+  describe('review PDF', () => {
+    const thread = (overrides: Record<string, unknown>) => ({
+      jobId: TEST_JOB_ID,
+      threadId: 'thread',
+      chunkIndex: 0,
+      paragraphIndex: 0,
+      side: 'translation',
+      comments: [
+        {
+          commentId: 'comment',
+          author: 'editor@example.com',
+          body: 'Note',
+          createdAt: '2026-05-02T08:00:00.000Z',
+        },
+      ],
+      resolved: false,
+      createdAt: '2026-05-02T08:00:00.000Z',
+      updatedAt: '2026-05-02T08:00:00.000Z',
+      ...overrides,
+    });
+
+    const createReviewEvent = (
+      query: Record<string, string> = {}
+    ): Partial<APIGatewayProxyEvent> => ({
+      ...createEvent(),
+      path: `/jobs/${TEST_JOB_ID}/review-pdf`,
+      resource: '/jobs/{jobId}/review-pdf',
+      queryStringParameters: query,
+    });
+
+    /** The y each text was drawn at, by text. */
+    const drawnAt = (textSpy: jest.SpyInstance) =>
+      new Map(textSpy.mock.calls.map(([text, , y]) => [text, y]));
+
+    beforeEach(() => {
+      (getSignedUrl as jest.Mock).mockClear();
+      dynamoMock.on(GetItemCommand).resolves({ Item: makeCompletedJobItem() });
+      dynamoMock.on(QueryCommand).resolves({
+        Items: [
+          marshall(
+            thread({
+              threadId: 'row',
+              paragraphIndex: 1,
+              comments: [
+                {
+                  commentId: 'c1',
+                  author: 'editor@example.com',
+                  body: 'Merge these',
+                  createdAt: '2026-05-02T08:00:00.000Z',
+                },
+              ],
+            })
+          ),
+          marshall(
+            thread({
+              threadId: 'source',
+              chunkIndex: 1,
+              side: 'source',
+              comments: [
+                {
+                  commentId: 'c2',
+                  author: 'editor@example.com',
+                  body: 'Is this a quote?',
+                  createdAt: '2026-05-02T08:00:00.000Z',
+                },
+              ],
+            })
+          ),
+          marshall(
+            thread({
+              threadId: 'done',
+              resolved: true,
+              comments: [
+                {
+                  commentId: 'c3',
+                  author: 'editor@example.com',
+                  body: 'Fixed typo',
+                  createdAt: '2026-05-02T08:00:00.000Z',
+                },
+              ],
+            })
+          ),
+        ],
+      });
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [0, 1].map((i) => ({ Key: `translated/${TEST_JOB_ID}/chunk-${i}.txt` })),
+        IsTruncated: false,
+      });
+      s3Mock
+        .on(GetObjectCommand, { Key: `translated/${TEST_JOB_ID}/chunk-0.txt` })
+        .resolves({
+          Body: makeS3Stream('First.\n\nSecond.\n\nThird.'),
+          Metadata: { paragraphalignment: '1,2' },
+        } as any)
+        .on(GetObjectCommand, { Key: `translated/${TEST_JOB_ID}/chunk-1.txt` })
+        .resolves({ Body: makeS3Stream('Fourth.') } as any);
+      s3Mock.on(PutObjectCommand).resolves({});
+    });
+
+    it('prints each thread beside the row it is anchored to', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const PDFDocument = require('pdfkit');
+      const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+
+      const result = await handler(createReviewEvent() as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        format: 'pdf',
+        objectKey: `translated-output/${TEST_JOB_ID}/review.pdf`,
+      });
+      const y = drawnAt(textSpy);
+      // Row 1 of chunk 0 holds the two paragraphs its alignment groups.
+      expect(y.get('editor@example.com: Merge these')).toBeGreaterThan(y.get('First.'));
+      expect(y.get('Comment')).toBe(y.get('Second.\n\nThird.'));
+      expect(y.get('On the source')).toBe(y.get('Fourth.'));
+      expect(y.has('Comment (resolved)')).toBe(true);
+      expect(s3Mock.commandCalls(HeadObjectCommand)).toHaveLength(0);
+      const presigned = (getSignedUrl as jest.Mock).mock.calls[0][1].input;
+      expect(presigned.ResponseContentDisposition).toBe(
+        'attachment; filename="translated_original_review.pdf"'
+      );
+      textSpy.mockRestore();
+    });
+
+    it('leaves out resolved threads when asked for the unresolved ones', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const PDFDocument = require('pdfkit');
+      const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+
+      const result = await handler(
+        createReviewEvent({ comments: 'unresolved' }) as APIGatewayProxyEvent
+      );
+
+      expect(JSON.parse(result.body).objectKey).toBe(
+        `translated-output/${TEST_JOB_ID}/review-unresolved.pdf`
+      );
+      const texts = textSpy.mock.calls.map(([text]) => text);
+      expect(texts).toContain('editor@example.com: Merge these');
+      expect(texts).not.toContain('editor@example.com: Fixed typo');
+      textSpy.mockRestore();
+    });
+
+    it('rejects an unknown comments filter with 400', async () => {
+      const result = await handler(createReviewEvent({ comments: 'mine' }) as APIGatewayProxyEvent);
+
+      expect(result.statusCode).toBe(400);
+      expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+    });
+  });
 });
@@ -1,6 +1,8 @@
 /**
  * Download Translation Lambda Function
  * GET /jobs/{jobId}/download
+ * GET /jobs/{jobId}/chapters
+ * GET /jobs/{jobId}/review-pdf
  *
  * Assembles all translated chunks for a completed job and returns the full
  * translated document as a raw binary response (Content-Type: text/plain).
@@ -37,7 +39,8 @@
  *
  * 6. IAM — dedicated role (DownloadTranslationLambdaRole):
  *    Only needs: dynamodb:GetItem on JobsTable + s3:GetObject on
- *    documentBucket's `translated/*` prefix + s3:ListBucket on the bucket.
+ *    documentBucket's `translated/*` and `translated-edits/*` prefixes +
+ *    s3:ListBucket on the bucket.
  *    This is scoped more narrowly than translationRole to satisfy least
  *    privilege.
  *
@@ -61,10 +64,10 @@
  *     The NodeHttpHandler is configured with connection keep-alive and a capped
  *     socket pool to reduce TCP overhead on parallel chunk fan-out.
  *
- * 11. Multi-format output (issue #28 — ePub + PDF):
+ * 11. Multi-format output (issue #28 — ePub + PDF, later DOCX):
  *     The `?format=` query parameter selects the output format. The default
  *     (`markdown`, or absent) preserves the legacy raw text/plain response so
- *     existing clients are unaffected. `epub` and `pdf` follow a different
+ *     existing clients are unaffected. `epub`, `pdf` and `docx` follow a different
  *     wire contract: we generate the bytes lazily on demand, persist them to
  *     S3 under `translated-output/{jobId}/translation.{ext}`, and return a
  *     15-minute presigned GET URL inside a JSON envelope. Rationale:
@@ -74,6 +77,58 @@
  *       - Lazy generation avoids the storage and reassembly-Lambda churn of
  *         eager pre-generation when most casual readers only download one
  *         format. See PR body for the full lazy-vs-eager decision.
+ *
+ * 12. EPUB sources keep their structure:
+ *     chunkDocument records a chapter map (`job.chapters`) and the book's
+ *     package metadata (`job.sourceMetadata`) for EPUB uploads. The ePub
+ *     export regroups the translated chunks by that map — chunks never
+ *     straddle chapters — and reuses the original author and identifier.
+ *
+ * 13. Subtitle jobs:
+ *     `srt` and `vtt` are offered only for jobs chunked from a subtitle
+ *     upload (`job.subtitleFormat`); any other job gets 400. Translated
+ *     chunks hold whole cue blocks, so they are joined with a blank line
+ *     to keep the cue boundary between the last cue of one chunk and the
+ *     first cue of the next.
+ *
+ * 14. Per-chapter downloads:
+ *     `?chapter=N` (1-based) narrows any format to one chapter so editors
+ *     can review a book piece by piece, and GET /jobs/{jobId}/chapters
+ *     lists the numbers and titles to pick from. Chapters are the ones the
+ *     ePub export would build — the EPUB source's chapter map when it
+ *     accounts for every chunk, otherwise the `# ` heading split — so
+ *     chapter N here is chapter N in the ePub's table of contents. Both
+ *     routes share this Lambda (dispatching on the API Gateway resource)
+ *     because they need the same assembly pipeline and IAM grants.
+ *     Generated chapter artefacts are cached next to the whole-book ones
+ *     as `translated-output/{jobId}/chapter-{N}.{ext}`.
+ *
+ * 15. Post-edited chunks:
+ *     A chunk edited in the side-by-side viewer is assembled from its
+ *     newest saved version under `translated-edits/` rather than the
+ *     machine output, which is kept for diffing; a later retranslation of
+ *     the chunk wins again. Edits change the document without touching
+ *     the job, so a cached `translated-output/` artefact older than the
+ *     newest edit is generated again rather than reused — as is one older
+ *     than the job's latest run (`translationCompletedAt`), since a
+ *     retranslation or recovery rewrites `translated/` in place.
+ *
+ * 16. Drafts:
+ *     Until a translation is approved (shared/jobReview.ts), whether or not
+ *     it was submitted for review, every download is marked DRAFT: the
+ *     filename ends in `_DRAFT`, the text download opens with a draft
+ *     notice, and ePub / PDF / DOCX carry the converters' watermark. Draft artefacts are cached under their own
+ *     `-draft` keys, so approving the job never serves a watermarked copy.
+ *
+ * 17. Review PDF:
+ *     GET /jobs/{jobId}/review-pdf prints the translation, chunk by chunk in
+ *     the viewer's rows, with its comment threads (jobs/jobComments.ts) as
+ *     margin notes; `?comments=unresolved` leaves out the resolved ones.
+ *     A thread on a source paragraph is printed beside the row translating
+ *     it. Comments change without touching the translation, so the review
+ *     PDF is generated on every request and `translated-output/` only
+ *     holds its latest copy for the presigned URL. The role adds
+ *     dynamodb:Query on the Comments table.
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
@@ -91,15 +146,44 @@ import { NodeHttpHandler } from '@smithy/node-http-handler';
 import { Agent as HttpAgent } from 'http';
 import Logger from '../shared/logger';
 import { getRequiredEnv } from '../shared/env';
-import { getCorsHeaders, createErrorResponse } from '../shared/api-response';
+import { getCorsHeaders, createErrorResponse, createFlatResponse } from '../shared/api-response';
 import { loadJobForUser } from '../shared/jobRepository';
+import { isReviewDraft } from '../shared/jobReview';
 import {
+  editSupersedes,
+  latestEditsByChunk,
+  listChunkEdits,
+  parseAlignment,
+} from '../shared/chunkTranslations';
+import { listCommentThreads } from '../shared/commentRepository';
+import {
+  ChapterListApiResponse,
+  CommentThread,
+  DynamoDBJob,
   OutputFormat,
+  ParagraphAlignment,
+  ReviewPdfComments,
+  SourceChapter,
   OUTPUT_FORMAT_CONTENT_TYPES,
   OUTPUT_FORMAT_FILE_EXTENSIONS,
+  OUTPUT_FORMAT_VALUES,
+  SUBTITLE_FORMATS,
   isOutputFormat,
 } from '@lfmt/shared-types';
-import { convertMarkdownToEpub, convertMarkdownToPdf } from './formatConverters';
+import {
+  convertMarkdownToDocx,
+  convertMarkdownToEpub,
+  convertMarkdownToPdf,
+  convertSubtitlesToSrt,
+  convertSubtitlesToVtt,
+  convertToReviewPdf,
+  FormatConversionInput,
+  MarkdownChapter,
+  ReviewPdfParagraph,
+  splitMarkdownIntoChapters,
+} from './formatConverters';
+import { loadPdfFont, pdfFontFileFor } from './pdfFonts';
+import { splitSegments } from './translationMemory';
 
 const logger = new Logger('lfmt-download-translation');
 const dynamoClient = new DynamoDBClient({});
@@ -118,6 +202,22 @@ const s3Client = new S3Client({
 
 const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
 const DOCUMENT_BUCKET = getRequiredEnv('DOCUMENT_BUCKET');
+const COMMENTS_TABLE = getRequiredEnv('COMMENTS_TABLE');
+
+/** Formats generated from the Markdown and served via presigned URL. */
+type ConvertedFormat = Exclude<OutputFormat, 'markdown'>;
+
+const CONVERTERS: Readonly<
+  Record<ConvertedFormat, (input: FormatConversionInput) => Promise<Buffer>>
+> = {
+  epub: convertMarkdownToEpub,
+  pdf: convertMarkdownToPdf,
+  docx: convertMarkdownToDocx,
+  srt: convertSubtitlesToSrt,
+  vtt: convertSubtitlesToVtt,
+};
+// Optional: without it, non-Latin PDFs fall back to Helvetica (see pdfFonts.ts).
+const PDF_FONTS_BUCKET = process.env.PDF_FONTS_BUCKET;
 
 /**
  * Maximum assembled document size API Gateway will accept as a response body.
@@ -125,7 +225,7 @@ const DOCUMENT_BUCKET = getRequiredEnv('DOCUMENT_BUCKET');
  * for multi-byte UTF-8 and response overhead.
  *
  * Documents exceeding this should use a presigned-URL download flow instead
- * (deferred — see OMC performance item #14).
+ * (deferred — see OMC performance item #14) or be fetched per chapter.
  */
 const MAX_RESPONSE_BYTES = 6 * 1024 * 1024; // 6 MB
 
@@ -143,6 +243,12 @@ const MAX_CORRUPT_KEYS_LOGGED = 10;
  */
 const SAFE_FILENAME_PATTERN = /^[\w\-. ]+$/;
 
+/** Watermark of a translation that is in review and not approved yet. */
+const DRAFT_WATERMARK = 'DRAFT';
+
+/** Opens the text download of a draft. */
+const DRAFT_NOTICE = `${DRAFT_WATERMARK} — this translation has not been approved yet.\n\n`;
+
 /**
  * Parse the numeric chunk index from a translated chunk S3 key.
  *
@@ -155,16 +261,22 @@ function parseChunkIndex(key: string): number {
   return match ? parseInt(match[1], 10) : NaN;
 }
 
+/** A machine-translated chunk as listed under `translated/{jobId}/`. */
+interface TranslatedChunkObject {
+  key: string;
+  lastModified?: Date;
+}
+
 /**
- * List all translated chunk keys for a job, sorted in ascending chunk order.
+ * List all translated chunk objects for a job, sorted in ascending chunk order.
  *
  * S3 ListObjectsV2 returns keys in lexicographic (UTF-8 byte) order, which is
  * not the same as numeric order for keys that contain integers without
  * zero-padding. We extract the numeric index from each key and sort explicitly.
  */
-async function listTranslatedChunkKeys(jobId: string): Promise<string[]> {
+async function listTranslatedChunks(jobId: string): Promise<TranslatedChunkObject[]> {
   const prefix = `translated/${jobId}/`;
-  const keys: string[] = [];
+  const chunks: TranslatedChunkObject[] = [];
   let continuationToken: string | undefined;
 
   // Paginate through all objects under the prefix (handles large chunk counts)
@@ -179,7 +291,7 @@ async function listTranslatedChunkKeys(jobId: string): Promise<string[]> {
 
     for (const obj of response.Contents ?? []) {
       if (obj.Key && obj.Key.endsWith('.txt')) {
-        keys.push(obj.Key);
+        chunks.push({ key: obj.Key, lastModified: obj.LastModified });
       }
     }
 
@@ -188,15 +300,22 @@ async function listTranslatedChunkKeys(jobId: string): Promise<string[]> {
 
   // Sort numerically by chunk index so the assembled document is in order
   // regardless of how S3 returned the keys.
-  keys.sort((a, b) => parseChunkIndex(a) - parseChunkIndex(b));
+  chunks.sort((a, b) => parseChunkIndex(a.key) - parseChunkIndex(b.key));
+
+  return chunks;
+}
 
-  return keys;
+/** A translated chunk's text and its paragraph alignment, if it has one. */
+interface ChunkContent {
+  text: string;
+  alignment?: ParagraphAlignment;
 }
 
 /**
- * Fetch the text content of a single translated chunk from S3.
+ * Fetch the text content of a single translated chunk from S3, with the
+ * alignment translateChunk or the editor recorded in its metadata.
  */
-async function fetchChunkContent(key: string): Promise<string> {
+async function fetchChunkContent(key: string): Promise<ChunkContent> {
   const response = await s3Client.send(
     new GetObjectCommand({
       Bucket: DOCUMENT_BUCKET,
@@ -208,7 +327,10 @@ async function fetchChunkContent(key: string): Promise<string> {
     throw new Error(`Chunk body missing for key: ${key}`);
   }
 
-  return response.Body.transformToString('utf-8');
+  return {
+    text: await response.Body.transformToString('utf-8'),
+    alignment: parseAlignment(response.Metadata?.paragraphalignment),
+  };
 }
 
 /**
@@ -218,7 +340,11 @@ async function fetchChunkContent(key: string): Promise<string> {
  * from being interpolated into the response header (defense-in-depth — the
  * filenameSchema upstream also validates, but this seam is the authoritative guard).
  */
-function buildSafeDownloadFilename(rawFilename: string | undefined): string {
+function buildSafeDownloadFilename(
+  rawFilename: string | undefined,
+  chapter?: number,
+  draft = false
+): string {
   const base = typeof rawFilename === 'string' && rawFilename ? rawFilename : 'translation.txt';
 
   // Strip path separators to prevent directory traversal in the filename token.
@@ -226,8 +352,11 @@ function buildSafeDownloadFilename(rawFilename: string | undefined): string {
 
   // Add .txt extension if not already present.
   const withExt = stripped.endsWith('.txt') ? stripped : `${stripped}.txt`;
+  const suffix =
+    (chapter === undefined ? '' : `_chapter-${chapter}`) + (draft ? `_${DRAFT_WATERMARK}` : '');
+  const named = withExt.replace(/\.txt$/, `${suffix}.txt`);
 
-  const candidate = `translated_${withExt}`;
+  const candidate = `translated_${named}`;
 
   if (!SAFE_FILENAME_PATTERN.test(candidate)) {
     // Fall back to a generic safe name rather than serving a potentially unsafe header.
@@ -255,8 +384,8 @@ const PRESIGNED_URL_TTL_SECONDS = 15 * 60;
  * defense-in-depth ceiling: anything past this is almost certainly a
  * partial-corruption red flag, not a real book.
  *
- * Documents that legitimately exceed this should be paginated by chapter
- * — out of scope for v1 (#28 OMC R1 H3-cq).
+ * Documents that legitimately exceed this can be converted one chapter
+ * at a time with `?chapter=N`.
  */
 const MAX_CONVERSION_SOURCE_BYTES = 8 * 1024 * 1024;
 
@@ -278,6 +407,33 @@ function parseFormatParam(event: APIGatewayProxyEvent): OutputFormat | null {
   return isOutputFormat(raw) ? raw : null;
 }
 
+/**
+ * Parse and validate the review PDF's `comments` query parameter, which
+ * defaults to `all`. Returns `null` for any other value; callers map that
+ * to 400.
+ */
+function parseCommentsParam(event: APIGatewayProxyEvent): ReviewPdfComments | null {
+  const raw = event.queryStringParameters?.comments;
+  if (raw === undefined || raw === null || raw === '') {
+    return 'all';
+  }
+  return raw === 'all' || raw === 'unresolved' ? raw : null;
+}
+
+/**
+ * Parse and validate the optional `chapter` query parameter.
+ *
+ * Returns `undefined` for a whole-book download and `null` when the value
+ * is present but not a positive integer; callers map that to 400.
+ */
+function parseChapterParam(event: APIGatewayProxyEvent): number | undefined | null {
+  const raw = event.queryStringParameters?.chapter;
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined;
+  }
+  return /^[1-9]\d{0,5}$/.test(raw) ? parseInt(raw, 10) : null;
+}
+
 /**
  * Build the deterministic S3 key for a generated ePub/PDF output.
  *
@@ -285,10 +441,25 @@ function parseFormatParam(event: APIGatewayProxyEvent): OutputFormat | null {
  * (translated-output/) so the IAM grant on the existing `translated/`
  * prefix does NOT accidentally widen to include generated artefacts.
  * The Lambda's role is updated separately in the CDK stack to add the
- * write permission only on this prefix.
+ * write permission only on this prefix. Single-chapter outputs sit
+ * alongside as `chapter-{N}.{ext}`, and watermarked drafts as
+ * `translation-draft.{ext}` / `chapter-{N}-draft.{ext}`.
+ *
+ * A revision keeps the jobId (and may change the target language), so the
+ * outputs of revision 2 onwards live under `revision-{N}/` and never serve
+ * an earlier revision's cached copy.
  */
-function buildOutputObjectKey(jobId: string, format: OutputFormat): string {
-  return `translated-output/${jobId}/translation.${OUTPUT_FORMAT_FILE_EXTENSIONS[format]}`;
+function buildOutputObjectKey(
+  jobId: string,
+  revision: number | undefined,
+  format: OutputFormat,
+  chapter?: number,
+  draft = false
+): string {
+  const name =
+    (chapter === undefined ? 'translation' : `chapter-${chapter}`) + (draft ? '-draft' : '');
+  const prefix = revision && revision > 1 ? `${jobId}/revision-${revision}` : jobId;
+  return `translated-output/${prefix}/${name}.${OUTPUT_FORMAT_FILE_EXTENSIONS[format]}`;
 }
 
 /**
@@ -314,23 +485,79 @@ function deriveTitle(rawFilename: string | undefined): string {
  * existing object instead of regenerating. HeadObject is cheap (~5 ms)
  * compared with PDF/ePub generation (1–5 s).
  *
- * Returns `true` if the object exists, `false` if not, and rethrows on
- * any other error (e.g. AccessDenied — surfacing an IAM misconfiguration
- * rather than silently falling through to regeneration).
+ * Returns the object's LastModified (epoch when S3 omits it) if the object
+ * exists, `null` if not, and rethrows on any other error (e.g. AccessDenied
+ * — surfacing an IAM misconfiguration rather than silently falling through
+ * to regeneration).
  */
-async function objectExists(bucket: string, key: string): Promise<boolean> {
+async function objectLastModified(bucket: string, key: string): Promise<Date | null> {
   try {
-    await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
-    return true;
+    const response = await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+    return response.LastModified ?? new Date(0);
   } catch (err) {
     const e = err as { name?: string; $metadata?: { httpStatusCode?: number } };
     if (e?.name === 'NotFound' || e?.$metadata?.httpStatusCode === 404) {
-      return false;
+      return null;
     }
     throw err;
   }
 }
 
+/**
+ * Whether the job's translation changed after `since` — a run completed
+ * (a retranslation or recovery rewrites `translated/`) or a chunk was
+ * edited — so a cached artefact generated before it no longer matches.
+ */
+async function translationChangedSince(
+  job: Pick<DynamoDBJob, 'translationCompletedAt'>,
+  jobId: string,
+  since: Date
+): Promise<boolean> {
+  if (job.translationCompletedAt && Date.parse(job.translationCompletedAt) > since.getTime()) {
+    return true;
+  }
+  const edits = await listChunkEdits(s3Client, DOCUMENT_BUCKET, jobId);
+  return edits.some((edit) => edit.lastModified.getTime() > since.getTime());
+}
+
+/**
+ * Load the PDF font for the job's target language. A font that is missing
+ * or fails to load is logged and answered with null, so the PDF is still
+ * produced (in Helvetica) rather than failing the whole download.
+ */
+async function loadPdfFontOrWarn(
+  language: string | undefined,
+  jobId: string,
+  requestId: string
+): Promise<Buffer | null> {
+  const fontFile = pdfFontFileFor(language);
+  if (!fontFile) {
+    return null;
+  }
+
+  try {
+    const font = await loadPdfFont(s3Client, PDF_FONTS_BUCKET, language);
+    if (!font) {
+      logger.warn('PDF font not found — falling back to Helvetica', {
+        requestId,
+        jobId,
+        language,
+        fontFile,
+      });
+    }
+    return font;
+  } catch (err) {
+    logger.warn('PDF font failed to load — falling back to Helvetica', {
+      requestId,
+      jobId,
+      language,
+      fontFile,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
 /**
  * Assemble the translated Markdown document for a job — encapsulates the
  * full chunk-listing → ordering → fetching → concatenation pipeline so the
@@ -341,11 +568,20 @@ async function objectExists(bucket: string, key: string): Promise<boolean> {
  * without re-deriving the appropriate HTTP code.
  */
 async function assembleMarkdown(
-  job: { totalChunks?: number },
+  job: Pick<DynamoDBJob, 'totalChunks' | 'subtitleFormat'>,
   jobId: string,
   requestId: string
-): Promise<{ ok: true; markdown: string } | { ok: false; statusCode: number; message: string }> {
-  const chunkKeys = await listTranslatedChunkKeys(jobId);
+): Promise<
+  | {
+      ok: true;
+      markdown: string;
+      chunks: string[];
+      alignments: Array<ParagraphAlignment | undefined>;
+    }
+  | { ok: false; statusCode: number; message: string }
+> {
+  const translatedChunks = await listTranslatedChunks(jobId);
+  const chunkKeys = translatedChunks.map((chunk) => chunk.key);
 
   if (chunkKeys.length === 0) {
     logger.error('COMPLETED job has no translated chunks in S3', { requestId, jobId });
@@ -398,29 +634,137 @@ async function assembleMarkdown(
     };
   }
 
-  const chunkContents = await Promise.all(validChunkKeys.map(fetchChunkContent));
-  return { ok: true, markdown: chunkContents.join('\n') };
+  // A chunk edited in the viewer is read from its newest edit instead,
+  // unless the chunk was retranslated after it (see shared/chunkTranslations.ts).
+  const latestEdits = latestEditsByChunk(await listChunkEdits(s3Client, DOCUMENT_BUCKET, jobId));
+  const contentKeys = translatedChunks
+    .filter((chunk) => !isNaN(parseChunkIndex(chunk.key)))
+    .map((chunk) => {
+      const edit = latestEdits.get(parseChunkIndex(chunk.key));
+      return edit && editSupersedes(edit, chunk.lastModified) ? edit.key : chunk.key;
+    });
+  const editedChunks = contentKeys.filter((key, index) => key !== validChunkKeys[index]).length;
+  if (editedChunks > 0) {
+    logger.info('Assembling with edited chunks', { requestId, jobId, editedChunks });
+  }
+
+  const chunkContents = await Promise.all(contentKeys.map(fetchChunkContent));
+  const chunks = chunkContents.map((content) => content.text);
+  // Subtitle chunks end on a cue; a blank line keeps the next chunk's first cue separate.
+  const separator = job.subtitleFormat ? '\n\n' : '\n';
+  return {
+    ok: true,
+    markdown: chunks.join(separator),
+    chunks,
+    alignments: chunkContents.map((content) => content.alignment),
+  };
 }
 
 /**
- * Lambda handler — GET /jobs/{jobId}/download[?format=markdown|epub|pdf]
+ * Regroup the ordered translated chunks into the chapters recorded by
+ * chunkDocument for an EPUB upload. Returns undefined — so the ePub falls
+ * back to splitting on `# ` headings — when the job has no chapter map or
+ * the map does not account for exactly the chunks we found.
+ */
+function groupChunksByChapter(
+  chapters: SourceChapter[] | undefined,
+  chunks: string[],
+  jobId: string,
+  requestId: string
+): MarkdownChapter[] | undefined {
+  if (!chapters || chapters.length === 0) {
+    return undefined;
+  }
+
+  const mappedChunks = chapters.reduce((sum, chapter) => sum + chapter.chunkCount, 0);
+  if (mappedChunks !== chunks.length) {
+    logger.warn('Chapter map does not match translated chunks — using heading split', {
+      requestId,
+      jobId,
+      mappedChunks,
+      foundChunks: chunks.length,
+    });
+    return undefined;
+  }
+
+  return chapters.map((chapter) => ({
+    title: chapter.title,
+    markdown: chunks
+      .slice(chapter.firstChunkIndex, chapter.firstChunkIndex + chapter.chunkCount)
+      .join('\n'),
+  }));
+}
+
+/**
+ * The chapters a completed translation is split into — the same ones, in
+ * the same order, as the ePub export's table of contents.
+ */
+function chaptersOf(
+  job: Pick<DynamoDBJob, 'chapters'>,
+  assembled: { markdown: string; chunks: string[] },
+  jobId: string,
+  requestId: string
+): MarkdownChapter[] {
+  return (
+    groupChunksByChapter(job.chapters, assembled.chunks, jobId, requestId) ??
+    splitMarkdownIntoChapters(assembled.markdown)
+  );
+}
+
+/** A single chapter as a standalone document, headed by its title. */
+function chapterDocument(chapter: MarkdownChapter): string {
+  return `# ${chapter.title}\n\n${chapter.markdown.trim()}\n`;
+}
+
+/**
+ * Pick chapter `number` (1-based) out of the translation, or describe the
+ * 404 when the translation has fewer chapters.
+ */
+function selectChapter(
+  chapters: MarkdownChapter[],
+  number: number
+): { ok: true; chapter: MarkdownChapter } | { ok: false; statusCode: number; message: string } {
+  const chapter = chapters[number - 1];
+  if (!chapter) {
+    return {
+      ok: false,
+      statusCode: 404,
+      message: `Chapter ${number} not found; the translation has ${chapters.length} chapters`,
+    };
+  }
+  return { ok: true, chapter };
+}
+
+/**
+ * Lambda handler — GET /jobs/{jobId}/download[?format=markdown|epub|pdf|docx|srt|vtt][&chapter=N]
+ * and GET /jobs/{jobId}/chapters
  *
  * Format dispatch:
  *   - `markdown` (default) — returns the raw text/plain body inline,
  *     preserving the pre-#28 contract.
- *   - `epub` / `pdf` — generates the output if not already cached in S3,
+ *   - `epub` / `pdf` / `docx` / `srt` / `vtt` — generates the output if not
+ *     already cached in S3,
  *     uploads under `translated-output/{jobId}/translation.{ext}`, and
  *     returns a JSON envelope `{ downloadUrl, expiresIn, format, ... }`
  *     pointing at a 15-minute presigned GET URL.
+ *   - `chapter=N` — either of the above, for chapter N only.
+ *
+ * The `/chapters` route returns `{ jobId, chapters: [{ number, title }] }`,
+ * and the `/review-pdf[?comments=all|unresolved]` route the converted-format
+ * envelope for the review PDF.
  *
  * HTTP response codes:
- *   200 — document assembled and returned / presigned URL ready
- *   400 — missing or invalid jobId; unsupported `format` value
+ *   200 — document assembled and returned / presigned URL ready / chapter list
+ *   400 — missing or invalid jobId; unsupported `format` value; `srt` /
+ *          `vtt` requested for a job that is not a subtitle translation;
+ *          `chapter` not a positive integer; chapters requested for a
+ *          subtitle translation
  *   401 — no authenticated user (missing Cognito claims)
- *   404 — job not found or belongs to another user (BOLA-safe)
+ *   404 — job not found or belongs to another user (BOLA-safe); chapter
+ *          number past the last chapter
  *   409 — job exists but translationStatus is not COMPLETED
  *   413 — assembled markdown exceeds 6 MB inline-response limit
- *          (markdown path only; ePub/PDF bypass this via S3)
+ *          (markdown path only; converted formats bypass this via S3)
  *   500 — unexpected error (S3 read failure, conversion failure, etc.)
  */
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
@@ -432,6 +776,7 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     path: event.path,
     method: event.httpMethod,
     format: event.queryStringParameters?.format,
+    chapter: event.queryStringParameters?.chapter,
   });
 
   try {
@@ -446,7 +791,18 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     if (format === null) {
       return createErrorResponse(
         400,
-        `Unsupported format: ${event.queryStringParameters?.format}. Allowed: markdown, epub, pdf.`,
+        `Unsupported format: ${event.queryStringParameters?.format}. Allowed: ${OUTPUT_FORMAT_VALUES.join(', ')}.`,
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    const chapter = parseChapterParam(event);
+    if (chapter === null) {
+      return createErrorResponse(
+        400,
+        `Invalid chapter: ${event.queryStringParameters?.chapter}. Must be a positive integer.`,
         requestId,
         undefined,
         requestOrigin
@@ -494,19 +850,69 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       );
     }
 
+    if ((SUBTITLE_FORMATS as readonly string[]).includes(format) && !job.subtitleFormat) {
+      return createErrorResponse(
+        400,
+        `Format ${format} is only available for subtitle translations`,
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    const listChapters = event.resource?.endsWith('/chapters') ?? false;
+    if (job.subtitleFormat && (listChapters || chapter !== undefined)) {
+      return createErrorResponse(
+        400,
+        'Subtitle translations are not divided into chapters',
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+
+    if (listChapters) {
+      return await handleChapterList({ job, jobId, requestId, requestOrigin });
+    }
+
     const rawFilename = typeof job.filename === 'string' ? job.filename : undefined;
+    const draft = isReviewDraft(job);
+
+    if (event.resource?.endsWith('/review-pdf')) {
+      const comments = parseCommentsParam(event);
+      if (comments === null) {
+        return createErrorResponse(
+          400,
+          `Invalid comments: ${event.queryStringParameters?.comments}. Allowed: all, unresolved.`,
+          requestId,
+          undefined,
+          requestOrigin
+        );
+      }
+      return await handleReviewPdf({
+        comments,
+        job,
+        jobId,
+        requestId,
+        requestOrigin,
+        rawFilename,
+        draft,
+      });
+    }
 
     // -----------------------------------------------------------------
-    // ePub / PDF path — generate-or-reuse via S3 + presigned URL.
+    // ePub / PDF / DOCX / subtitle path — generate-or-reuse via S3 + presigned URL.
     // -----------------------------------------------------------------
-    if (format === 'epub' || format === 'pdf') {
+    if (format !== 'markdown') {
       return await handleConvertedFormat({
         format,
+        chapter,
         job,
         jobId,
         requestId,
         requestOrigin,
         rawFilename,
+        draft,
       });
     }
 
@@ -524,7 +930,24 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         requestOrigin
       );
     }
-    const assembledDocument = assembled.markdown;
+    let assembledDocument = assembled.markdown;
+    if (chapter !== undefined) {
+      const selected = selectChapter(chaptersOf(job, assembled, jobId, requestId), chapter);
+      if (!selected.ok) {
+        return createErrorResponse(
+          selected.statusCode,
+          selected.message,
+          requestId,
+          undefined,
+          requestOrigin
+        );
+      }
+      assembledDocument = chapterDocument(selected.chapter);
+    }
+    // Subtitle cues are left as they are; the filename marks the draft.
+    if (draft && !job.subtitleFormat) {
+      assembledDocument = DRAFT_NOTICE + assembledDocument;
+    }
 
     const documentBytes = Buffer.byteLength(assembledDocument, 'utf-8');
     if (documentBytes > MAX_RESPONSE_BYTES) {
@@ -537,7 +960,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return createErrorResponse(
         413,
         'Assembled translation exceeds the 6 MB download limit via this API. ' +
-          'Use ?format=pdf or ?format=epub for a presigned-URL download of large documents.',
+          'Use ?format=pdf or ?format=epub for a presigned-URL download of large documents, ' +
+          'or ?chapter=N to download one chapter at a time.',
         requestId,
         undefined,
         requestOrigin
@@ -547,10 +971,11 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     logger.info('Translation assembled (markdown)', {
       requestId,
       jobId,
+      chapter,
       documentBytes,
     });
 
-    const downloadFilename = buildSafeDownloadFilename(rawFilename);
+    const downloadFilename = buildSafeDownloadFilename(rawFilename, chapter, draft);
 
     return {
       statusCode: 200,
@@ -582,40 +1007,56 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
 };
 
 /**
- * Generate (or reuse) an ePub/PDF artefact and return a presigned-URL
+ * Generate (or reuse) an ePub/PDF/DOCX/subtitle artefact and return a presigned-URL
  * JSON envelope so the SPA can issue a follow-up direct-to-S3 download.
  *
- * Caching: keyed off `translated-output/{jobId}/translation.{ext}`. If
+ * Caching: keyed off `translated-output/{jobId}/translation.{ext}` (or
+ * `chapter-{N}.{ext}` for a single chapter). If
  * the object already exists, we skip the (expensive) conversion and go
  * straight to presigning. This is the deduplication strategy mentioned
  * in the issue brief — both concurrent callers succeed; the second
  * request just pays for a HeadObject + Presign instead of a full render.
  */
 async function handleConvertedFormat(params: {
-  format: 'epub' | 'pdf';
-  job: { totalChunks?: number };
+  format: ConvertedFormat;
+  chapter: number | undefined;
+  job: Pick<
+    DynamoDBJob,
+    | 'totalChunks'
+    | 'targetLanguage'
+    | 'chapters'
+    | 'sourceMetadata'
+    | 'subtitleFormat'
+    | 'translationCompletedAt'
+    | 'revision'
+  >;
   jobId: string;
   requestId: string;
   requestOrigin: string | undefined;
   rawFilename: string | undefined;
+  /** Watermark the artefact (see isReviewDraft). */
+  draft: boolean;
 }): Promise<APIGatewayProxyResult> {
-  const { format, job, jobId, requestId, requestOrigin, rawFilename } = params;
-  const outputKey = buildOutputObjectKey(jobId, format);
+  const { format, chapter, job, jobId, requestId, requestOrigin, rawFilename, draft } = params;
+  const outputKey = buildOutputObjectKey(jobId, job.revision, format, chapter, draft);
 
-  // Cache hit — short-circuit straight to a presigned URL.
-  if (await objectExists(DOCUMENT_BUCKET, outputKey)) {
+  // Cache hit — short-circuit straight to a presigned URL, unless the
+  // translation was rerun or edited after the artefact was generated.
+  const cachedAt = await objectLastModified(DOCUMENT_BUCKET, outputKey);
+  if (cachedAt && !(await translationChangedSince(job, jobId, cachedAt))) {
     logger.info('Reusing cached generated artefact', {
       requestId,
       jobId,
       format,
+      chapter,
       outputKey,
     });
-    const url = await presignDownload(outputKey, rawFilename, format);
+    const url = await presignDownload(outputKey, rawFilename, format, chapter, draft);
     return jsonOk(url, format, outputKey, requestOrigin);
   }
 
   // Cache miss — fetch the markdown source, convert, and upload.
-  logger.info('Generating converted artefact', { requestId, jobId, format });
+  logger.info('Generating converted artefact', { requestId, jobId, format, chapter });
 
   const assembled = await assembleMarkdown(job, jobId, requestId);
   if (!assembled.ok) {
@@ -628,7 +1069,31 @@ async function handleConvertedFormat(params: {
     );
   }
 
-  const sourceBytes = Buffer.byteLength(assembled.markdown, 'utf-8');
+  // A single chapter becomes the whole document: one ePub chapter, or the
+  // chapter under its own heading for every other format.
+  let title = deriveTitle(rawFilename);
+  let markdown = assembled.markdown;
+  let chapters =
+    format === 'epub'
+      ? groupChunksByChapter(job.chapters, assembled.chunks, jobId, requestId)
+      : undefined;
+  if (chapter !== undefined) {
+    const selected = selectChapter(chaptersOf(job, assembled, jobId, requestId), chapter);
+    if (!selected.ok) {
+      return createErrorResponse(
+        selected.statusCode,
+        selected.message,
+        requestId,
+        undefined,
+        requestOrigin
+      );
+    }
+    title = `${title} - ${selected.chapter.title}`;
+    markdown = chapterDocument(selected.chapter);
+    chapters = format === 'epub' ? [selected.chapter] : undefined;
+  }
+
+  const sourceBytes = Buffer.byteLength(markdown, 'utf-8');
   if (sourceBytes > MAX_CONVERSION_SOURCE_BYTES) {
     logger.warn('Source document exceeds conversion size cap', {
       requestId,
@@ -640,22 +1105,33 @@ async function handleConvertedFormat(params: {
     return createErrorResponse(
       413,
       `Translation source exceeds the ${MAX_CONVERSION_SOURCE_BYTES} byte ePub/PDF conversion limit. ` +
-        'Per-chapter export is planned (see issue #28 follow-up).',
+        'Request one chapter at a time with ?chapter=N.',
       requestId,
       undefined,
       requestOrigin
     );
   }
 
-  const title = deriveTitle(rawFilename);
-  const author = 'Translated by LFMT';
+  const conversionInput: FormatConversionInput = {
+    title,
+    // EPUB uploads carry their author and identifier through to the export.
+    author: job.sourceMetadata?.author ?? 'Translated by LFMT',
+    identifier: job.sourceMetadata?.identifier,
+    // Drives dc:language and, for Arabic/Hebrew, right-to-left layout.
+    language: job.targetLanguage,
+    markdown,
+    chapters,
+    pdfFont:
+      format === 'pdf'
+        ? ((await loadPdfFontOrWarn(job.targetLanguage, jobId, requestId)) ?? undefined)
+        : undefined,
+    subtitleFormat: job.subtitleFormat,
+    watermark: draft ? DRAFT_WATERMARK : undefined,
+  };
 
   let body: Buffer;
   try {
-    body =
-      format === 'epub'
-        ? await convertMarkdownToEpub({ title, author, markdown: assembled.markdown })
-        : await convertMarkdownToPdf({ title, author, markdown: assembled.markdown });
+    body = await CONVERTERS[format](conversionInput);
   } catch (err) {
     logger.error('Conversion failed', {
       requestId,
@@ -689,11 +1165,12 @@ async function handleConvertedFormat(params: {
     requestId,
     jobId,
     format,
+    chapter,
     outputKey,
     bytes: body.length,
   });
 
-  const url = await presignDownload(outputKey, rawFilename, format);
+  const url = await presignDownload(outputKey, rawFilename, format, chapter, draft);
   return jsonOk(url, format, outputKey, requestOrigin);
 }
 
@@ -706,7 +1183,10 @@ async function handleConvertedFormat(params: {
 async function presignDownload(
   key: string,
   rawFilename: string | undefined,
-  format: 'epub' | 'pdf'
+  format: ConvertedFormat,
+  chapter?: number,
+  draft = false,
+  review = false
 ): Promise<string> {
   const ext = OUTPUT_FORMAT_FILE_EXTENSIONS[format];
   const baseName = (rawFilename ? rawFilename.replace(/\.[^.]+$/, '') : 'translation').replace(
@@ -714,7 +1194,11 @@ async function presignDownload(
     '_'
   );
   const safe = /^[\w\-. ]+$/.test(baseName) ? baseName : 'translation';
-  const filename = `translated_${safe}.${ext}`;
+  const suffix =
+    (chapter === undefined ? '' : `_chapter-${chapter}`) +
+    (review ? '_review' : '') +
+    (draft ? `_${DRAFT_WATERMARK}` : '');
+  const filename = `translated_${safe}${suffix}.${ext}`;
 
   return await getSignedUrl(
     s3Client,
@@ -729,10 +1213,10 @@ async function presignDownload(
 }
 
 /**
- * Build the JSON-envelope success response for ePub/PDF downloads.
+ * Build the JSON-envelope success response for converted-format downloads.
  *
  * Shape:
- *   { format: 'epub' | 'pdf',
+ *   { format: 'epub' | 'pdf' | 'docx' | 'srt' | 'vtt',
  *     downloadUrl: string,
  *     expiresInSeconds: number,
  *     objectKey: string }
@@ -743,7 +1227,7 @@ async function presignDownload(
  */
 function jsonOk(
   url: string,
-  format: 'epub' | 'pdf',
+  format: ConvertedFormat,
   objectKey: string,
   requestOrigin: string | undefined
 ): APIGatewayProxyResult {
@@ -763,3 +1247,179 @@ function jsonOk(
     isBase64Encoded: false,
   };
 }
+
+/**
+ * List the chapters of a completed translation for the per-chapter picker.
+ * Needs the assembled text for the heading split, so it runs the same
+ * integrity checks as a download.
+ */
+async function handleChapterList(params: {
+  job: Pick<DynamoDBJob, 'totalChunks' | 'chapters' | 'subtitleFormat'>;
+  jobId: string;
+  requestId: string;
+  requestOrigin: string | undefined;
+}): Promise<APIGatewayProxyResult> {
+  const { job, jobId, requestId, requestOrigin } = params;
+
+  const assembled = await assembleMarkdown(job, jobId, requestId);
+  if (!assembled.ok) {
+    return createErrorResponse(
+      assembled.statusCode,
+      assembled.message,
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+
+  const chapters = chaptersOf(job, assembled, jobId, requestId);
+  logger.info('Chapters listed', { requestId, jobId, chapterCount: chapters.length });
+
+  return createFlatResponse<ChapterListApiResponse>(
+    200,
+    {
+      jobId,
+      chapters: chapters.map((c, index) => ({ number: index + 1, title: c.title })),
+    },
+    requestId,
+    requestOrigin
+  );
+}
+
+/**
+ * Generate the review PDF — the translation with its comment threads as
+ * margin notes — and return a presigned-URL JSON envelope like the other
+ * converted formats. Never served from cache (see design decision 17).
+ */
+async function handleReviewPdf(params: {
+  comments: ReviewPdfComments;
+  job: Pick<DynamoDBJob, 'totalChunks' | 'targetLanguage' | 'sourceMetadata' | 'subtitleFormat'>;
+  jobId: string;
+  requestId: string;
+  requestOrigin: string | undefined;
+  rawFilename: string | undefined;
+  draft: boolean;
+}): Promise<APIGatewayProxyResult> {
+  const { comments, job, jobId, requestId, requestOrigin, rawFilename, draft } = params;
+
+  const [assembled, threads] = await Promise.all([
+    assembleMarkdown(job, jobId, requestId),
+    listCommentThreads(dynamoClient, COMMENTS_TABLE, jobId),
+  ]);
+  if (!assembled.ok) {
+    return createErrorResponse(
+      assembled.statusCode,
+      assembled.message,
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+
+  const sourceBytes = Buffer.byteLength(assembled.markdown, 'utf-8');
+  if (sourceBytes > MAX_CONVERSION_SOURCE_BYTES) {
+    logger.warn('Source document exceeds conversion size cap', {
+      requestId,
+      jobId,
+      format: 'review-pdf',
+      sourceBytes,
+      limitBytes: MAX_CONVERSION_SOURCE_BYTES,
+    });
+    return createErrorResponse(
+      413,
+      `Translation source exceeds the ${MAX_CONVERSION_SOURCE_BYTES} byte PDF conversion limit.`,
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+
+  const printed = comments === 'unresolved' ? threads.filter((t) => !t.resolved) : threads;
+  logger.info('Generating review PDF', {
+    requestId,
+    jobId,
+    comments,
+    threads: printed.length,
+  });
+
+  let body: Buffer;
+  try {
+    body = await convertToReviewPdf({
+      title: deriveTitle(rawFilename),
+      author: job.sourceMetadata?.author ?? 'Translated by LFMT',
+      language: job.targetLanguage,
+      pdfFont: (await loadPdfFontOrWarn(job.targetLanguage, jobId, requestId)) ?? undefined,
+      parts: reviewParts(assembled.chunks, assembled.alignments, printed),
+      watermark: draft ? DRAFT_WATERMARK : undefined,
+    });
+  } catch (err) {
+    logger.error('Conversion failed', {
+      requestId,
+      jobId,
+      format: 'review-pdf',
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+    return createErrorResponse(
+      500,
+      'Failed to generate the review PDF',
+      requestId,
+      undefined,
+      requestOrigin
+    );
+  }
+
+  const outputKey =
+    `translated-output/${jobId}/review` +
+    (comments === 'unresolved' ? '-unresolved' : '') +
+    (draft ? '-draft' : '') +
+    '.pdf';
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: DOCUMENT_BUCKET,
+      Key: outputKey,
+      Body: body,
+      ContentType: OUTPUT_FORMAT_CONTENT_TYPES.pdf,
+      CacheControl: 'no-store',
+    })
+  );
+
+  logger.info('Review PDF uploaded', { requestId, jobId, outputKey, bytes: body.length });
+
+  const url = await presignDownload(outputKey, rawFilename, 'pdf', undefined, draft, true);
+  return jsonOk(url, 'pdf', outputKey, requestOrigin);
+}
+
+/**
+ * Lay the chunks out as the side-by-side viewer's rows — a chunk's
+ * paragraphs grouped by its alignment, when the alignment accounts for
+ * every paragraph — and attach each thread to the row it is anchored to.
+ * A thread past a chunk's last row (the chunk has fewer paragraphs since
+ * an edit) goes on the last row; one on a chunk the translation no longer
+ * has is left out.
+ */
+function reviewParts(
+  chunks: string[],
+  alignments: Array<ParagraphAlignment | undefined>,
+  threads: CommentThread[]
+): ReviewPdfParagraph[][] {
+  const parts = chunks.map((text, index) =>
+    reviewRows(splitSegments(text), alignments[index]).map(
+      (row): ReviewPdfParagraph => ({ text: row, threads: [] })
+    )
+  );
+  for (const thread of threads) {
+    const rows = parts[thread.chunkIndex];
+    if (rows && rows.length > 0) {
+      rows[Math.min(thread.paragraphIndex, rows.length - 1)].threads.push(thread);
+    }
+  }
+  return parts;
+}
+
+function reviewRows(paragraphs: string[], alignment: ParagraphAlignment | undefined): string[] {
+  if (!alignment || alignment.reduce((sum, count) => sum + count, 0) !== paragraphs.length) {
+    return paragraphs;
+  }
+  let next = 0;
+  return alignment.map((count) => paragraphs.slice(next, (next += count)).join('\n\n'));
+}
@@ -21,11 +21,13 @@
 // render() runs (so the downstream readFile + Buffer assertions work).
 jest.mock('@lesjoursfr/html-to-epub', () => {
   const mockConstructor = jest.fn();
+  const mockInstances: unknown[] = [];
   class FakeEPub {
     private outputPath: string;
     private options: Record<string, unknown>;
     constructor(options: Record<string, unknown>, outputPath: string) {
       mockConstructor(options, outputPath);
+      mockInstances.push(this);
       this.options = options;
       this.outputPath = outputPath;
     }
@@ -53,24 +55,38 @@ jest.mock('@lesjoursfr/html-to-epub', () => {
       return { result: 'ok' };
     }
   }
-  return { EPub: FakeEPub, __mockConstructor: mockConstructor };
+  return { EPub: FakeEPub, __mockConstructor: mockConstructor, __mockInstances: mockInstances };
 });
 
-import { convertMarkdownToEpub, convertMarkdownToPdf } from './formatConverters';
+import JSZip from 'jszip';
+import {
+  convertMarkdownToDocx,
+  convertMarkdownToEpub,
+  convertMarkdownToPdf,
+  convertSubtitlesToSrt,
+  convertSubtitlesToVtt,
+  convertToReviewPdf,
+  splitMarkdownIntoChapters,
+} from './formatConverters';
+import { CommentThread } from '@lfmt/shared-types';
+import { extractDocxMarkdown } from '../chunking/docxExtractor';
 import * as epubModule from '@lesjoursfr/html-to-epub';
 
-// The mock factory exports `__mockConstructor` (a Jest spy) alongside the
-// real `EPub` named export. Cast through `unknown` because the official
-// type declarations don't include the spy.
-const { __mockConstructor: mockEpubConstructor } = epubModule as unknown as {
-  __mockConstructor: jest.Mock;
-};
+// The mock factory exports `__mockConstructor` (a Jest spy) and the
+// constructed instances alongside the real `EPub` named export. Cast
+// through `unknown` because the official type declarations don't include them.
+const { __mockConstructor: mockEpubConstructor, __mockInstances: mockEpubInstances } =
+  epubModule as unknown as {
+    __mockConstructor: jest.Mock;
+    __mockInstances: Array<{ uuid?: string }>;
+  };
 
 // Heading-flood / DoS guard — keep in sync with formatConverters.ts.
 const MAX_EPUB_CHAPTERS = 500;
 
 beforeEach(() => {
   mockEpubConstructor.mockClear();
+  mockEpubInstances.length = 0;
 });
 
 describe('convertMarkdownToPdf', () => {
@@ -99,6 +115,84 @@ describe('convertMarkdownToPdf', () => {
     expect(buffer.slice(0, 5).toString()).toBe('%PDF-');
   });
 
+  it('lays out a right-to-left target right-aligned', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const PDFDocument = require('pdfkit');
+    const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+
+    await convertMarkdownToPdf({
+      title: 'Hebrew',
+      author: 'Translator',
+      language: 'he',
+      markdown: '# Chapter\n\nBody line.',
+    });
+
+    const aligns = textSpy.mock.calls.map(([, options]) => (options as { align?: string }).align);
+    // Cover lines stay centred; the heading and body follow the language.
+    expect(aligns.slice(2)).toEqual(['right', 'right']);
+    textSpy.mockRestore();
+  });
+
+  it('sets the document in the supplied font for non-Latin targets', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const PDFDocument = require('pdfkit');
+    // No real font file in the test tree — stub the registration and keep
+    // rendering in the default Helvetica.
+    const registerSpy = jest.spyOn(PDFDocument.prototype, 'registerFont').mockReturnThis();
+    const realFont = PDFDocument.prototype.font;
+    const fontSpy = jest.spyOn(PDFDocument.prototype, 'font').mockImplementation(function (
+      this: unknown,
+      name: unknown,
+      ...rest: unknown[]
+    ) {
+      return name === 'Body' ? this : realFont.call(this, name, ...rest);
+    });
+    const font = Buffer.from('fake-ttf-bytes');
+
+    const buffer = await convertMarkdownToPdf({
+      title: 'Chinese',
+      author: 'Translator',
+      language: 'zh',
+      pdfFont: font,
+      markdown: '# 第一章\n\n正文。',
+    });
+
+    expect(buffer.slice(0, 5).toString()).toBe('%PDF-');
+    expect(registerSpy).toHaveBeenCalledWith('Body', font);
+    expect(fontSpy).toHaveBeenCalledWith('Body');
+    registerSpy.mockRestore();
+    fontSpy.mockRestore();
+  });
+
+  it('keeps the default font when no font is supplied', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const PDFDocument = require('pdfkit');
+    const registerSpy = jest.spyOn(PDFDocument.prototype, 'registerFont');
+
+    await convertMarkdownToPdf({ title: 'English', author: 'Translator', markdown: 'Body.' });
+
+    expect(registerSpy).not.toHaveBeenCalled();
+    registerSpy.mockRestore();
+  });
+
+  it('draws the watermark on every page', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const PDFDocument = require('pdfkit');
+    const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+
+    const buffer = await convertMarkdownToPdf({
+      title: 'Draft',
+      author: 'Translator',
+      markdown: '# One\n\nBody.\n\n# Two\n\nBody.',
+      watermark: 'DRAFT',
+    });
+
+    expect(buffer.slice(0, 5).toString()).toBe('%PDF-');
+    // The cover page plus one page per chapter.
+    expect(textSpy.mock.calls.filter(([text]) => text === 'DRAFT')).toHaveLength(3);
+    textSpy.mockRestore();
+  });
+
   it('handles a malformed-source heading-flood without OOM', async () => {
     // 2000 H1 lines — well past MAX_EPUB_CHAPTERS — verifies the PDF
     // path is also resilient (it uses a different code path than the
@@ -113,6 +207,206 @@ describe('convertMarkdownToPdf', () => {
   }, 30_000);
 });
 
+describe('convertToReviewPdf', () => {
+  const thread = (overrides: Partial<CommentThread> = {}): CommentThread => ({
+    jobId: 'job-1',
+    threadId: 'thread-1',
+    chunkIndex: 0,
+    paragraphIndex: 0,
+    side: 'translation',
+    comments: [
+      {
+        commentId: 'comment-1',
+        author: 'editor@example.com',
+        body: 'Too literal',
+        createdAt: '2026-03-02T08:00:00.000Z',
+      },
+    ],
+    resolved: false,
+    createdAt: '2026-03-02T08:00:00.000Z',
+    updatedAt: '2026-03-02T08:00:00.000Z',
+    ...overrides,
+  });
+
+  /** Page objects in the PDF (page dictionaries are not compressed). */
+  const pageCount = (buffer: Buffer) =>
+    (buffer.toString('latin1').match(/\/Type \/Page\b/g) ?? []).length;
+
+  it('prints each thread beside its paragraph in the notes column', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const PDFDocument = require('pdfkit');
+    const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+
+    const buffer = await convertToReviewPdf({
+      title: 'Review',
+      author: 'Translator',
+      parts: [
+        [
+          { text: 'First paragraph.', threads: [] },
+          {
+            text: 'Second paragraph.',
+            threads: [thread({ side: 'source', resolved: true })],
+          },
+        ],
+      ],
+    });
+
+    expect(buffer.slice(0, 5).toString()).toBe('%PDF-');
+    const calls = textSpy.mock.calls as Array<[string, number, number, { width?: number }]>;
+    const paragraph = calls.find(([text]) => text === 'Second paragraph.')!;
+    const label = calls.find(([text]) => text === 'On the source (resolved)')!;
+    // Level with the paragraph, to the right of the text column.
+    expect(label[2]).toBe(paragraph[2]);
+    expect(label[1]).toBeGreaterThan(paragraph[1] + paragraph[3].width!);
+    expect(calls.some(([text]) => text === 'editor@example.com: Too literal')).toBe(true);
+    expect(calls.some(([text]) => text === 'Review copy — 1 comment thread')).toBe(true);
+    textSpy.mockRestore();
+  });
+
+  it('cuts notes short at the bottom of the page instead of adding pages', async () => {
+    const longThread = thread({
+      comments: Array.from({ length: 100 }, (_, i) => ({
+        commentId: `comment-${i}`,
+        author: 'editor@example.com',
+        body: 'A long remark about this paragraph. '.repeat(20),
+        createdAt: '2026-03-02T08:00:00.000Z',
+      })),
+    });
+
+    const buffer = await convertToReviewPdf({
+      title: 'Review',
+      author: 'Translator',
+      parts: [[{ text: 'Short paragraph.', threads: [longThread] }]],
+    });
+
+    expect(pageCount(buffer)).toBe(1);
+  });
+
+  it('draws the watermark on every page', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const PDFDocument = require('pdfkit');
+    const textSpy = jest.spyOn(PDFDocument.prototype, 'text');
+    const paragraphs = Array.from({ length: 60 }, (_, i) => ({
+      text: `Paragraph ${i} of a part long enough to run over several pages.`,
+      threads: i % 10 === 0 ? [thread()] : [],
+    }));
+
+    const buffer = await convertToReviewPdf({
+      title: 'Draft',
+      author: 'Translator',
+      parts: [paragraphs],
+      watermark: 'DRAFT',
+    });
+
+    const pages = pageCount(buffer);
+    expect(pages).toBeGreaterThan(1);
+    expect(textSpy.mock.calls.filter(([text]) => text === 'DRAFT')).toHaveLength(pages);
+    textSpy.mockRestore();
+  });
+});
+
+describe('convertMarkdownToDocx', () => {
+  // Round-trip through the upload extractor: what a .docx upload would read
+  // back is exactly the structure the export wrote.
+  it('writes headings, paragraphs and emphasis that the DOCX extractor reads back', async () => {
+    const markdown = [
+      '# Part One',
+      '## Chapter 1',
+      'It was a **dark** and *stormy* night.',
+      '- rain',
+      '- wind',
+      '1. first',
+      '2. second',
+    ].join('\n\n');
+
+    const buffer = await convertMarkdownToDocx({
+      title: 'Novel',
+      author: 'Translator',
+      markdown,
+    });
+
+    expect(buffer.slice(0, 2).toString()).toBe('PK');
+    expect(await extractDocxMarkdown(buffer)).toBe(
+      [
+        '# Part One',
+        '## Chapter 1',
+        'It was a **dark** and *stormy* night.',
+        '- rain',
+        '- wind',
+        '1. first',
+        '2. second',
+      ].join('\n\n')
+    );
+  });
+
+  it('marks paragraphs bidirectional for a right-to-left target', async () => {
+    const buffer = await convertMarkdownToDocx({
+      title: 'Arabic',
+      author: 'Translator',
+      language: 'ar',
+      markdown: '# فصل\n\nنص.',
+    });
+
+    const documentXml = await (await JSZip.loadAsync(buffer))
+      .file('word/document.xml')!
+      .async('string');
+    expect(documentXml.match(/<w:bidi\/>/g)).toHaveLength(2);
+    expect(documentXml).toContain('<w:rtl/>');
+  });
+
+  it('puts the watermark in the page header', async () => {
+    const buffer = await convertMarkdownToDocx({
+      title: 'Novel',
+      author: 'Translator',
+      markdown: 'Body.',
+      watermark: 'DRAFT',
+    });
+
+    const zip = await JSZip.loadAsync(buffer);
+    const header = zip.file(/^word\/header\d*\.xml$/)[0];
+    expect(await header.async('string')).toContain('DRAFT');
+    // The body is unchanged, so the document reads back as it was.
+    expect(await extractDocxMarkdown(buffer)).toBe('Body.');
+  });
+});
+
+describe('subtitle converters', () => {
+  const translatedCues = [
+    '1\n00:00:01,000 --> 00:00:02,000\nHola.',
+    '2\n00:00:03,000 --> 00:00:04,000\nAdiós.',
+  ].join('\n\n');
+
+  it('writes SRT cues back out as SRT', async () => {
+    const buffer = await convertSubtitlesToSrt({
+      title: 'episode',
+      author: 'Translator',
+      markdown: translatedCues,
+      subtitleFormat: 'srt',
+    });
+
+    expect(buffer.toString('utf-8')).toBe(translatedCues + '\n');
+  });
+
+  it('converts SRT cues to WebVTT', async () => {
+    const buffer = await convertSubtitlesToVtt({
+      title: 'episode',
+      author: 'Translator',
+      markdown: translatedCues,
+      subtitleFormat: 'srt',
+    });
+
+    expect(buffer.toString('utf-8')).toBe(
+      'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nHola.\n\n2\n00:00:03.000 --> 00:00:04.000\nAdiós.\n'
+    );
+  });
+
+  it('refuses a document that is not made of subtitle cues', async () => {
+    await expect(
+      convertSubtitlesToSrt({ title: 'novel', author: 'Translator', markdown: '# One' })
+    ).rejects.toThrow('SRT output requires subtitle cues');
+  });
+});
+
 describe('convertMarkdownToEpub', () => {
   it('produces a Buffer matching the ZIP signature emitted by the underlying library', async () => {
     const buffer = await convertMarkdownToEpub({
@@ -158,6 +452,68 @@ describe('convertMarkdownToEpub', () => {
     expect(outputPath.startsWith(os.tmpdir())).toBe(true);
   });
 
+  it('heads every chapter with the watermark', async () => {
+    await convertMarkdownToEpub({
+      title: 'Test Book',
+      author: 'Translator',
+      markdown: '# One\n\nA.\n\n# Two\n\nB.',
+      watermark: 'DRAFT',
+    });
+
+    const [options] = mockEpubConstructor.mock.calls[0];
+    for (const chapter of options.content) {
+      expect(chapter.data).toMatch(/^<p [^>]*>DRAFT<\/p>/);
+    }
+  });
+
+  it('uses the registry hyphenation tag for dc:language when one exists', async () => {
+    await convertMarkdownToEpub({
+      title: 'German',
+      author: 'Translator',
+      language: 'de',
+      markdown: 'Text.',
+    });
+    const [options] = mockEpubConstructor.mock.calls[0];
+    expect(options.lang).toBe('de-1996');
+  });
+
+  it('emits an RTL spine and dir="rtl" chapters for a right-to-left target', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const fsModule = require('fs') as typeof import('fs');
+    const writeSpy = jest.spyOn(fsModule.promises, 'writeFile');
+
+    await convertMarkdownToEpub({
+      title: 'Arabic',
+      author: 'Translator',
+      language: 'ar',
+      markdown: '# الفصل الأول\n\nنص.',
+    });
+
+    const [options] = mockEpubConstructor.mock.calls[0];
+    expect(options.lang).toBe('ar');
+    expect(options.content[0].data).toMatch(/^<div dir="rtl">/);
+    expect(typeof options.customOpfTemplatePath).toBe('string');
+    const templateWrite = writeSpy.mock.calls.find(
+      ([file]) => file === options.customOpfTemplatePath
+    );
+    expect(String(templateWrite?.[1])).toContain(
+      '<spine toc="ncx" page-progression-direction="rtl">'
+    );
+    writeSpy.mockRestore();
+  });
+
+  it('keeps the stock template and unwrapped chapters for a left-to-right target', async () => {
+    await convertMarkdownToEpub({
+      title: 'French',
+      author: 'Translator',
+      language: 'fr',
+      markdown: 'Texte.',
+    });
+    const [options] = mockEpubConstructor.mock.calls[0];
+    expect(options.customOpfTemplatePath).toBeUndefined();
+    expect(options.content[0].data).not.toContain('dir="rtl"');
+  });
+
   it('synthesises an Introduction chapter when content precedes the first H1', async () => {
     await convertMarkdownToEpub({
       title: 'With Intro',
@@ -217,6 +573,55 @@ describe('convertMarkdownToEpub', () => {
     expect(options.content[0].title.endsWith('…')).toBe(true);
   });
 
+  it('builds chapters from an EPUB source instead of splitting on headings', async () => {
+    await convertMarkdownToEpub({
+      title: 'novel',
+      author: 'Jane Author',
+      markdown: 'ignored when chapters are given',
+      chapters: [
+        { title: 'Prologue', markdown: 'Before it all.' },
+        {
+          title: 'I. The Arrival',
+          markdown: '# I\n\nShe came by *night*.\n\n# Interlude\n\nMore.',
+        },
+      ],
+    });
+
+    const [options] = mockEpubConstructor.mock.calls[0];
+    expect(options.author).toBe('Jane Author');
+    expect(options.content.map((c: { title: string }) => c.title)).toEqual([
+      'Prologue',
+      'I. The Arrival',
+    ]);
+    expect(options.content[0].data).toContain('Before it all.');
+    expect(options.content[1].data).toContain('<em>night</em>');
+    expect(options.content[1].data).toContain('<h1>Interlude</h1>');
+  });
+
+  it('folds EPUB source chapters past MAX_EPUB_CHAPTERS into the last one', async () => {
+    const chapters = Array.from({ length: MAX_EPUB_CHAPTERS + 3 }, (_, i) => ({
+      title: `Chapter ${i}`,
+      markdown: `Body ${i}.`,
+    }));
+
+    await convertMarkdownToEpub({ title: 'Long', author: 'A', markdown: '', chapters });
+
+    const [options] = mockEpubConstructor.mock.calls[0];
+    expect(options.content).toHaveLength(MAX_EPUB_CHAPTERS);
+    expect(options.content[MAX_EPUB_CHAPTERS - 1].data).toContain(`Body ${MAX_EPUB_CHAPTERS + 2}.`);
+  });
+
+  it('keeps the source book identifier instead of a random UUID', async () => {
+    await convertMarkdownToEpub({
+      title: 'novel',
+      author: 'Jane Author',
+      markdown: 'Text.',
+      identifier: 'urn:isbn:9780000000001',
+    });
+
+    expect(mockEpubInstances[0].uuid).toBe('urn:isbn:9780000000001');
+  });
+
   it('escapes raw HTML in source body (no <script> passthrough)', async () => {
     // markdown-it html: false means raw `<script>` is escaped to
     // `&lt;script&gt;` BEFORE reaching the ePub library.
@@ -232,3 +637,17 @@ describe('convertMarkdownToEpub', () => {
     expect(html).toContain('&lt;script');
   });
 });
+
+describe('splitMarkdownIntoChapters', () => {
+  it('returns each chapter body without its heading, Introduction first', () => {
+    expect(splitMarkdownIntoChapters('Preface.\n# One\nFirst.\n# Two\nSecond.')).toEqual([
+      { title: 'Introduction', markdown: 'Preface.' },
+      { title: 'One', markdown: 'First.' },
+      { title: 'Two', markdown: 'Second.' },
+    ]);
+  });
+
+  it('omits an empty Introduction', () => {
+    expect(splitMarkdownIntoChapters('\n# Only\nBody.').map((c) => c.title)).toEqual(['Only']);
+  });
+});
@@ -2,7 +2,9 @@
  * Format Converters — issue #28.
  *
  * Pure-function conversion helpers that turn the assembled translated
- * Markdown document into ePub or PDF bytes. Owned by the
+ * Markdown document into ePub, PDF or DOCX bytes — or, for subtitle jobs,
+ * the assembled cues into SRT or VTT — and the review PDF, which prints
+ * a translation's comment threads as margin notes. Owned by the
  * downloadTranslation Lambda (and consumed only there).
  *
  * Design decisions:
@@ -19,7 +21,9 @@
  *    single `#` (Markdown H1) as a chapter break. Text before the first
  *    H1 lives in a synthetic "Introduction" chapter so we never lose
  *    content. If no H1 is present the entire document becomes one chapter
- *    — readable on every e-reader.
+ *    — readable on every e-reader. EPUB uploads skip the heuristic: the
+ *    caller passes the book's own chapters (titles and order from its
+ *    table of contents), and its author and identifier are carried over.
  *
  * 3. **No external network / disk for ePub.** `@lesjoursfr/html-to-epub`
  *    can fetch remote images; the source documents we produce have no
@@ -29,11 +33,11 @@
  *    Lambda container).
  *
  * 4. **PDF typography.** PDFKit's default Helvetica handles Latin
- *    scripts cleanly. For CJK / non-Latin targets we deliberately do NOT
- *    embed extra fonts in v1: bundling a CJK font (~15 MB) would balloon
- *    the Lambda zip past the 50 MB direct-upload limit, and the casual
- *    reader use-case is satisfied by glyph fallback. Documented as
- *    out-of-scope in the PR body and the OMC R1 self-review.
+ *    scripts cleanly but has no CJK, Cyrillic, Arabic or Hebrew glyphs.
+ *    For those targets the caller passes `pdfFont` — loaded on demand
+ *    from a layer or S3 by pdfFonts.ts, never bundled (a CJK face is
+ *    ~15 MB) — and the whole PDF is set in it. Without one we still fall
+ *    back to Helvetica rather than fail the download.
  *
  * 5. **Pagination is implicit.** PDFKit auto-paginates when content
  *    overflows the page bottom. We use Letter size with 1-inch margins
@@ -45,6 +49,34 @@
  *    lines are folded into the body text of the previous chapter so the
  *    ePub generator can't be coerced into unbounded TOC growth. See
  *    OMC R1 self-review for the full red-team analysis.
+ *
+ * 7. **Text direction follows the target language.** `language` is looked
+ *    up in the shared LANGUAGE_REGISTRY; for right-to-left languages
+ *    (Arabic, Hebrew) the ePub gets `page-progression-direction="rtl"`
+ *    on its spine and `dir="rtl"` chapter bodies, and the PDF is laid
+ *    out right-aligned. Glyph shaping is left to the PDF font (PDFKit's
+ *    built-in Helvetica has no Arabic or Hebrew glyphs at all — see #4).
+ *
+ * 8. **DOCX mirrors the source structure.** Word uploads are extracted to
+ *    Markdown with `#`–`######` headings (chunking/docxExtractor.ts), so
+ *    the DOCX export maps those levels straight back onto Word's built-in
+ *    Heading 1–6 styles, and `**`/`*` back onto bold/italic runs. Unlike
+ *    the ePub there is no chapter split — Word's navigation pane builds
+ *    the outline from the heading styles.
+ *
+ * 9. **Subtitles are re-serialized, not passed through.** A subtitle job's
+ *    `markdown` is its translated cue blocks in the upload's own format
+ *    (`subtitleFormat`). The SRT and VTT converters parse those cues and
+ *    write a clean file in the requested format (shared/subtitles.ts), so
+ *    an `.srt` upload can be downloaded as `.vtt` and vice versa.
+ *
+ * 10. **Review PDF notes sit beside their paragraph.** The review PDF
+ *    narrows the text column and prints each paragraph's comment threads
+ *    in the right margin, level with the paragraph. A paragraph whose
+ *    notes run longer than its text is followed by white space, so notes
+ *    never overlap; notes that would run off the page are cut short with
+ *    an ellipsis rather than carried over, and the reviewer reads the
+ *    rest in the viewer.
  */
 
 import { EPub } from '@lesjoursfr/html-to-epub';
@@ -52,9 +84,12 @@ import { EPub } from '@lesjoursfr/html-to-epub';
 import MarkdownIt = require('markdown-it');
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 import PDFDocument = require('pdfkit');
+import { AlignmentType, Document, Header, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { CommentThread, getLanguage, SubtitleFormat, TextDirection } from '@lfmt/shared-types';
+import { parseSubtitles, serializeSubtitles } from '../shared/subtitles';
 
 /**
  * Upper bound on the number of ePub chapters generated from one document.
@@ -77,6 +112,12 @@ const MAX_EPUB_CHAPTERS = 500;
  */
 const MAX_CHAPTER_TITLE_LEN = 200;
 
+/** One chapter of a translation, as Markdown without its own heading. */
+export interface MarkdownChapter {
+  title: string;
+  markdown: string;
+}
+
 /**
  * Inputs for the converters. `title` and `author` populate the ePub
  * metadata block (and the PDF cover line). `markdown` is the fully
@@ -92,13 +133,40 @@ export interface FormatConversionInput {
    */
   author: string;
   /**
-   * Optional language code (BCP 47) — surfaces in ePub <dc:language>.
-   * Falls back to 'en' which is the conservative default for e-readers
-   * that key off this tag for hyphenation rules.
+   * Optional target language code — surfaces in ePub <dc:language> (as the
+   * registry's hyphenation tag when it has one) and selects the text
+   * direction. Falls back to 'en' which is the conservative default for
+   * e-readers that key off this tag for hyphenation rules.
    */
   language?: string;
+  /**
+   * TrueType/OpenType font to set the PDF in, for scripts Helvetica can't
+   * render. Loaded by the caller (see pdfFonts.ts) so this module stays
+   * free of I/O; ignored by the ePub converter, where the reader's own
+   * fonts apply.
+   */
+  pdfFont?: Buffer;
   /** The assembled translated Markdown / plain-text body. */
   markdown: string;
+  /**
+   * Chapters of an EPUB source, in reading order, each with its translated
+   * Markdown. When present the ePub is built from these instead of
+   * splitting `markdown` on `# ` headings; other formats ignore it.
+   */
+  chapters?: MarkdownChapter[];
+  /** Source book identifier (ISBN, URN) for the ePub `<dc:identifier>`. */
+  identifier?: string;
+  /**
+   * Set for subtitle jobs: the format `markdown`'s cue blocks are written
+   * in. Required by the SRT and VTT converters.
+   */
+  subtitleFormat?: SubtitleFormat;
+  /**
+   * Marks the document as not final, e.g. `DRAFT`: across every PDF page,
+   * in the header of every Word page and above every ePub chapter.
+   * Subtitle files carry no watermark — a player would show it as a cue.
+   */
+  watermark?: string;
 }
 
 interface Chapter {
@@ -107,6 +175,36 @@ interface Chapter {
   html: string;
 }
 
+/** Text direction for a target language; unknown codes read left-to-right. */
+function directionOf(language: string | undefined): TextDirection {
+  return (language && getLanguage(language)?.direction) || 'ltr';
+}
+
+/**
+ * Write an RTL variant of the library's EPUB 3 package template into
+ * `tempDir` and return its path. The stock template has no hook for the
+ * spine's `page-progression-direction`, so we patch the one `<spine>` tag
+ * rather than fork the whole template.
+ */
+async function writeRtlOpfTemplate(tempDir: string): Promise<string> {
+  const stockTemplate = path.resolve(
+    path.dirname(require.resolve('@lesjoursfr/html-to-epub')),
+    '../templates/epub3/content.opf.ejs'
+  );
+  const template = await fs.readFile(stockTemplate, 'utf-8');
+  const templatePath = path.join(tempDir, 'content-rtl.opf.ejs');
+  await fs.writeFile(
+    templatePath,
+    template.replace('<spine toc="ncx">', '<spine toc="ncx" page-progression-direction="rtl">')
+  );
+  return templatePath;
+}
+
+/** Truncate a chapter title to MAX_CHAPTER_TITLE_LEN characters. */
+function capTitle(title: string): string {
+  return title.length > MAX_CHAPTER_TITLE_LEN ? title.slice(0, MAX_CHAPTER_TITLE_LEN) + '…' : title;
+}
+
 /**
  * Split a Markdown body into chapters keyed on `# ` (H1) lines.
  *
@@ -118,9 +216,10 @@ interface Chapter {
  *
  * The `MAX_EPUB_CHAPTERS` ceiling caps the number of distinct chapters.
  * Excess H1 lines are folded inline so the generator can never be coerced
- * into an unbounded TOC tree.
+ * into an unbounded TOC tree. Exported because per-chapter downloads
+ * (downloadTranslation.ts) number chapters the same way the ePub TOC does.
  */
-function splitMarkdownIntoChapters(markdown: string): Chapter[] {
+export function splitMarkdownIntoChapters(markdown: string): MarkdownChapter[] {
   const lines = markdown.split('\n');
   const chapters: { title: string; bodyLines: string[] }[] = [
     { title: 'Introduction', bodyLines: [] },
@@ -130,12 +229,7 @@ function splitMarkdownIntoChapters(markdown: string): Chapter[] {
     const headingMatch = /^#\s+(.+)$/.exec(line);
     if (headingMatch && chapters.length < MAX_EPUB_CHAPTERS) {
       // New chapter — start fresh with the heading text as the title.
-      const rawTitle = headingMatch[1].trim();
-      const title =
-        rawTitle.length > MAX_CHAPTER_TITLE_LEN
-          ? rawTitle.slice(0, MAX_CHAPTER_TITLE_LEN) + '…'
-          : rawTitle;
-      chapters.push({ title, bodyLines: [] });
+      chapters.push({ title: capTitle(headingMatch[1].trim()), bodyLines: [] });
     } else {
       // Either not a heading, or we hit the chapter cap — append to the
       // current chapter body. (Excess headings beyond the cap are still
@@ -146,17 +240,28 @@ function splitMarkdownIntoChapters(markdown: string): Chapter[] {
 
   // Drop the synthetic Introduction if it has no content (the common case
   // when the source begins with a heading).
-  const filtered = chapters.filter(
-    (c, idx) => idx > 0 || c.bodyLines.some((l) => l.trim().length > 0)
-  );
+  return chapters
+    .filter((c, idx) => idx > 0 || c.bodyLines.some((l) => l.trim().length > 0))
+    .map((c) => ({ title: c.title, markdown: c.bodyLines.join('\n') }));
+}
+
+/**
+ * Render chapters to HTML. The MAX_EPUB_CHAPTERS ceiling applies here too
+ * for EPUB sources — chapters past it are folded into the last one.
+ */
+function renderChapters(source: MarkdownChapter[]): Chapter[] {
+  const kept = source.slice(0, MAX_EPUB_CHAPTERS).map((c) => ({ ...c }));
+  if (source.length > MAX_EPUB_CHAPTERS) {
+    kept[kept.length - 1].markdown = source
+      .slice(MAX_EPUB_CHAPTERS - 1)
+      .map((c) => c.markdown)
+      .join('\n\n');
+  }
 
   // Render each chapter body through markdown-it once so HTML escaping
   // and link/image normalisation happen consistently across all formats.
   const md = new MarkdownIt({ html: false, linkify: true, breaks: false });
-  return filtered.map((c) => ({
-    title: c.title,
-    html: md.render(c.bodyLines.join('\n')),
-  }));
+  return kept.map((c) => ({ title: capTitle(c.title), html: md.render(c.markdown) }));
 }
 
 /**
@@ -169,7 +274,10 @@ function splitMarkdownIntoChapters(markdown: string): Chapter[] {
  * in the same warm container don't accumulate stale zips.
  */
 export async function convertMarkdownToEpub(input: FormatConversionInput): Promise<Buffer> {
-  const chapters = splitMarkdownIntoChapters(input.markdown);
+  const chapters = renderChapters(
+    input.chapters?.length ? input.chapters : splitMarkdownIntoChapters(input.markdown)
+  );
+  const direction = directionOf(input.language);
 
   const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lfmt-epub-'));
   const outputPath = path.join(tempDir, 'translation.epub');
@@ -183,17 +291,26 @@ export async function convertMarkdownToEpub(input: FormatConversionInput): Promi
         // synthesise a sensible default keyed off the title.
         description: `Translation of ${input.title}`,
         author: input.author,
-        lang: input.language ?? 'en',
+        lang:
+          (input.language && getLanguage(input.language)?.epubHyphenationCode) ||
+          input.language ||
+          'en',
         // Disable verbose logging — the library writes to stdout otherwise
         // and pollutes CloudWatch logs.
         verbose: false,
         // Each chapter object: title + html body. The `content` field is
         // mandatory in the library's API; missing chapter titles default
         // to "Chapter N".
-        content: chapters.map((c, idx) => ({
-          title: c.title || `Chapter ${idx + 1}`,
-          data: c.html,
-        })),
+        content: chapters.map((c, idx) => {
+          const html = input.watermark ? watermarkHtml(input.watermark) + c.html : c.html;
+          return {
+            title: c.title || `Chapter ${idx + 1}`,
+            data: direction === 'rtl' ? `<div dir="rtl">${html}</div>` : html,
+          };
+        }),
+        ...(direction === 'rtl' && {
+          customOpfTemplatePath: await writeRtlOpfTemplate(tempDir),
+        }),
         // Place generation artefacts in our explicit tmpdir so the library
         // never tries to write to the read-only Lambda root filesystem.
         tempDir,
@@ -201,6 +318,12 @@ export async function convertMarkdownToEpub(input: FormatConversionInput): Promi
       outputPath
     );
 
+    // The library mints a random UUID for <dc:identifier>; a translated
+    // EPUB keeps the source book's identifier instead.
+    if (input.identifier) {
+      epub.uuid = input.identifier;
+    }
+
     // render() returns `{ result: string }` but the side-effect we care
     // about is the file write to `outputPath` — we read that back below.
     await epub.render();
@@ -217,6 +340,12 @@ export async function convertMarkdownToEpub(input: FormatConversionInput): Promi
   }
 }
 
+/** The watermark as a banner paragraph above an ePub chapter. */
+function watermarkHtml(watermark: string): string {
+  const text = new MarkdownIt().utils.escapeHtml(watermark);
+  return `<p style="text-align: center; color: #c00000; font-weight: bold; letter-spacing: 0.2em;">${text}</p>`;
+}
+
 /**
  * Convert the assembled translation to a PDF `Buffer`.
  *
@@ -230,6 +359,10 @@ export async function convertMarkdownToEpub(input: FormatConversionInput): Promi
  * docs.
  */
 export function convertMarkdownToPdf(input: FormatConversionInput): Promise<Buffer> {
+  const rtl = directionOf(input.language) === 'rtl';
+  const headingAlign = rtl ? 'right' : 'left';
+  const bodyAlign = rtl ? 'right' : 'justify';
+
   return new Promise((resolve, reject) => {
     try {
       const doc = new PDFDocument({
@@ -240,6 +373,8 @@ export function convertMarkdownToPdf(input: FormatConversionInput): Promise<Buff
           Author: input.author,
           Creator: 'LFMT POC',
         },
+        // A watermark is drawn over every page once the text is laid out.
+        bufferPages: !!input.watermark,
       });
 
       const chunks: Buffer[] = [];
@@ -247,6 +382,11 @@ export function convertMarkdownToPdf(input: FormatConversionInput): Promise<Buff
       doc.on('end', () => resolve(Buffer.concat(chunks)));
       doc.on('error', reject);
 
+      if (input.pdfFont) {
+        doc.registerFont('Body', input.pdfFont);
+        doc.font('Body');
+      }
+
       // Cover header
       doc
         .fontSize(20)
@@ -271,14 +411,167 @@ export function convertMarkdownToPdf(input: FormatConversionInput): Promise<Buff
           // Force a new page before each chapter so the structure mirrors
           // the ePub. The first H1 still gets its own page — acceptable.
           doc.addPage();
-          doc.fontSize(18).text(h1[1].trim(), { align: 'left' }).moveDown(1);
+          doc.fontSize(18).text(h1[1].trim(), { align: headingAlign }).moveDown(1);
         } else if (h2) {
-          doc.fontSize(14).text(h2[1].trim(), { align: 'left' }).moveDown(0.5);
+          doc.fontSize(14).text(h2[1].trim(), { align: headingAlign }).moveDown(0.5);
         } else if (line.trim().length === 0) {
           // Blank line → paragraph break.
           doc.moveDown(0.5);
         } else {
-          doc.fontSize(12).text(line, { align: 'justify' });
+          doc.fontSize(12).text(line, { align: bodyAlign });
+        }
+      }
+
+      if (input.watermark) {
+        const pages = doc.bufferedPageRange();
+        for (let i = pages.start; i < pages.start + pages.count; i++) {
+          doc.switchToPage(i);
+          drawPdfWatermark(doc, input.watermark);
+        }
+      }
+
+      doc.end();
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
+
+/** Large, faint, diagonal text across the middle of the current page. */
+function drawPdfWatermark(doc: PDFKit.PDFDocument, watermark: string): void {
+  const { width, height } = doc.page;
+  doc
+    .save()
+    .rotate(-45, { origin: [width / 2, height / 2] })
+    .fillColor('#c00000')
+    .fillOpacity(0.15)
+    .fontSize(96)
+    .text(watermark, 0, height / 2 - 48, { width, align: 'center', lineBreak: false })
+    .restore();
+}
+
+/** One paragraph of the review PDF — a row of the side-by-side viewer. */
+export interface ReviewPdfParagraph {
+  text: string;
+  /** Threads printed beside the paragraph, in the order given. */
+  threads: CommentThread[];
+}
+
+/** Inputs for the review PDF; the metadata fields mean what they do for the PDF export. */
+export interface ReviewPdfInput extends Pick<
+  FormatConversionInput,
+  'title' | 'author' | 'language' | 'pdfFont' | 'watermark'
+> {
+  /** The translation chunk by chunk, each as its paragraphs. */
+  parts: ReviewPdfParagraph[][];
+}
+
+/** Width of the notes column of the review PDF, in points. */
+const REVIEW_NOTES_WIDTH = 156;
+
+/** Space between the text and the notes column, in points. */
+const REVIEW_GUTTER = 18;
+
+/**
+ * Convert a translation and its comment threads to a review PDF `Buffer`:
+ * the PDF export's page and typography with a narrower text column and
+ * each paragraph's threads as notes in the right margin (see #10).
+ */
+export function convertToReviewPdf(input: ReviewPdfInput): Promise<Buffer> {
+  const rtl = directionOf(input.language) === 'rtl';
+  const bodyAlign = rtl ? 'right' : 'left';
+  const threadCount = input.parts.reduce(
+    (sum, part) => sum + part.reduce((count, paragraph) => count + paragraph.threads.length, 0),
+    0
+  );
+
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'LETTER',
+        margins: { top: 72, bottom: 72, left: 72, right: 72 },
+        info: {
+          Title: `${input.title} (review)`,
+          Author: input.author,
+          Creator: 'LFMT POC',
+        },
+        // Notes are drawn on the page their paragraph starts on, which can
+        // be behind the current page once a long paragraph has been laid out.
+        bufferPages: true,
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      if (input.pdfFont) {
+        doc.registerFont('Body', input.pdfFont);
+        doc.font('Body');
+      }
+
+      const left = doc.page.margins.left;
+      const textWidth =
+        doc.page.width - left - doc.page.margins.right - REVIEW_NOTES_WIDTH - REVIEW_GUTTER;
+      const notesLeft = left + textWidth + REVIEW_GUTTER;
+      const currentPage = () => {
+        const pages = doc.bufferedPageRange();
+        return pages.start + pages.count - 1;
+      };
+
+      doc
+        .fontSize(20)
+        .text(input.title, { align: 'center' })
+        .moveDown(0.5)
+        .fontSize(12)
+        .fillColor('#666666')
+        .text(input.author, { align: 'center' })
+        .text(`Review copy — ${threadCount} comment ${threadCount === 1 ? 'thread' : 'threads'}`, {
+          align: 'center',
+        })
+        .fillColor('#000000')
+        .moveDown(2);
+
+      input.parts.forEach((part, partIndex) => {
+        doc
+          .fontSize(14)
+          .fillColor('#666666')
+          .text(`Part ${partIndex + 1}`, left, doc.y, { width: textWidth, align: bodyAlign })
+          .fillColor('#000000')
+          .moveDown(0.5);
+
+        for (const paragraph of part) {
+          const heading = /^#{1,6}\s+(.+)$/.exec(paragraph.text.trim());
+          doc.fontSize(heading ? 14 : 11);
+          // Start the paragraph where its notes can start, not in the bottom margin.
+          if (doc.y + doc.currentLineHeight(true) > doc.page.height - doc.page.margins.bottom) {
+            doc.addPage();
+          }
+          const startPage = currentPage();
+          const top = doc.y;
+          doc.text(heading ? heading[1] : paragraph.text, left, top, {
+            width: textWidth,
+            align: bodyAlign,
+          });
+          const endPage = currentPage();
+          const textBottom = doc.y;
+
+          if (paragraph.threads.length > 0) {
+            doc.switchToPage(startPage);
+            const notesBottom = drawReviewNotes(doc, paragraph.threads, notesLeft, top);
+            doc.switchToPage(endPage);
+            doc.y = endPage === startPage ? Math.max(textBottom, notesBottom) : textBottom;
+          }
+          doc.x = left;
+          doc.moveDown(0.5);
+        }
+      });
+
+      if (input.watermark) {
+        const pages = doc.bufferedPageRange();
+        for (let i = pages.start; i < pages.start + pages.count; i++) {
+          doc.switchToPage(i);
+          drawPdfWatermark(doc, input.watermark);
         }
       }
 
@@ -288,3 +581,211 @@ export function convertMarkdownToPdf(input: FormatConversionInput): Promise<Buff
     }
   });
 }
+
+/**
+ * Print threads in the notes column of the current page from `top` down,
+ * and return where they end. Whatever does not fit above the bottom
+ * margin is cut short.
+ */
+function drawReviewNotes(
+  doc: PDFKit.PDFDocument,
+  threads: CommentThread[],
+  left: number,
+  top: number
+): number {
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const note = (text: string, color: string) => {
+    const height = bottom - doc.y;
+    if (height < doc.currentLineHeight(true)) return;
+    doc.fillColor(color).text(text, left, doc.y, {
+      width: REVIEW_NOTES_WIDTH,
+      height,
+      ellipsis: true,
+    });
+  };
+
+  doc.fontSize(8);
+  doc.y = top;
+  for (const thread of threads) {
+    const label =
+      (thread.side === 'source' ? 'On the source' : 'Comment') +
+      (thread.resolved ? ' (resolved)' : '');
+    note(label, '#c00000');
+    for (const comment of thread.comments) {
+      note(`${comment.author}: ${comment.body}`, '#333333');
+    }
+    doc.y += 4;
+  }
+  doc.fillColor('#000000');
+  return Math.min(doc.y, bottom);
+}
+
+type MarkdownToken = ReturnType<MarkdownIt['parse']>[number];
+
+const DOCX_HEADING_LEVELS: Record<string, (typeof HeadingLevel)[keyof typeof HeadingLevel]> = {
+  h1: HeadingLevel.HEADING_1,
+  h2: HeadingLevel.HEADING_2,
+  h3: HeadingLevel.HEADING_3,
+  h4: HeadingLevel.HEADING_4,
+  h5: HeadingLevel.HEADING_5,
+  h6: HeadingLevel.HEADING_6,
+};
+
+/** Turn one markdown-it inline token's children into styled Word runs. */
+function inlineToDocxRuns(children: MarkdownToken[], rightToLeft: boolean): TextRun[] {
+  const runs: TextRun[] = [];
+  let bold = 0;
+  let italic = 0;
+
+  for (const child of children) {
+    switch (child.type) {
+      case 'strong_open':
+        bold++;
+        break;
+      case 'strong_close':
+        bold--;
+        break;
+      case 'em_open':
+        italic++;
+        break;
+      case 'em_close':
+        italic--;
+        break;
+      case 'softbreak':
+        runs.push(new TextRun({ text: ' ', rightToLeft }));
+        break;
+      case 'hardbreak':
+        runs.push(new TextRun({ break: 1, rightToLeft }));
+        break;
+      case 'text':
+      case 'code_inline':
+        runs.push(
+          new TextRun({ text: child.content, bold: bold > 0, italics: italic > 0, rightToLeft })
+        );
+        break;
+      default:
+        // Links, images and raw HTML carry no text we need to keep.
+        break;
+    }
+  }
+  return runs;
+}
+
+/**
+ * Convert the assembled translation to a Word (`.docx`) `Buffer`.
+ *
+ * Walks markdown-it's block tokens: headings keep their level as Word
+ * heading styles, paragraphs become body paragraphs, bullet lists use
+ * Word's built-in bullets and numbered items keep their `N. ` prefix.
+ * Right-to-left targets get bidirectional paragraphs and RTL runs.
+ */
+export async function convertMarkdownToDocx(input: FormatConversionInput): Promise<Buffer> {
+  const rightToLeft = directionOf(input.language) === 'rtl';
+  const md = new MarkdownIt({ html: false, linkify: false, breaks: false });
+  const tokens = md.parse(input.markdown, {});
+
+  const paragraphs: Paragraph[] = [];
+  const lists: { ordered: boolean; nextNumber: number }[] = [];
+  let heading: (typeof DOCX_HEADING_LEVELS)[string] | undefined;
+  let itemPrefix: string | null = null;
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading_open':
+        heading = DOCX_HEADING_LEVELS[token.tag];
+        break;
+      case 'heading_close':
+        heading = undefined;
+        break;
+      case 'bullet_list_open':
+      case 'ordered_list_open':
+        lists.push({
+          ordered: token.type === 'ordered_list_open',
+          nextNumber: Number(token.attrGet('start') ?? 1),
+        });
+        break;
+      case 'bullet_list_close':
+      case 'ordered_list_close':
+        lists.pop();
+        break;
+      case 'list_item_open': {
+        const list = lists[lists.length - 1];
+        itemPrefix = list.ordered ? `${list.nextNumber++}. ` : '';
+        break;
+      }
+      case 'inline':
+      case 'fence':
+      case 'code_block': {
+        const list = lists[lists.length - 1];
+        const runs =
+          token.type === 'inline'
+            ? inlineToDocxRuns(token.children ?? [], rightToLeft)
+            : [new TextRun({ text: token.content.replace(/\n$/, ''), rightToLeft })];
+        if (itemPrefix) {
+          runs.unshift(new TextRun({ text: itemPrefix, rightToLeft }));
+        }
+        paragraphs.push(
+          new Paragraph({
+            children: runs,
+            heading,
+            bidirectional: rightToLeft,
+            ...(list && !list.ordered && { bullet: { level: Math.min(lists.length - 1, 8) } }),
+            ...(list?.ordered && { indent: { left: 360 * lists.length } }),
+          })
+        );
+        // Only the item's first paragraph carries its number.
+        itemPrefix = null;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  const doc = new Document({
+    title: input.title,
+    creator: input.author,
+    description: `Translation of ${input.title}`,
+    sections: [
+      {
+        ...(input.watermark && {
+          headers: {
+            default: new Header({
+              children: [
+                new Paragraph({
+                  alignment: AlignmentType.CENTER,
+                  children: [
+                    new TextRun({ text: input.watermark, bold: true, color: 'C00000', size: 28 }),
+                  ],
+                }),
+              ],
+            }),
+          },
+        }),
+        children: paragraphs,
+      },
+    ],
+  });
+  return Packer.toBuffer(doc);
+}
+
+async function convertSubtitles(
+  input: FormatConversionInput,
+  format: SubtitleFormat
+): Promise<Buffer> {
+  if (!input.subtitleFormat) {
+    throw new Error(`${format.toUpperCase()} output requires subtitle cues`);
+  }
+  const cues = parseSubtitles(input.markdown, input.subtitleFormat);
+  return Buffer.from(serializeSubtitles(cues, format), 'utf-8');
+}
+
+/** Write a subtitle job's translated cues as a SubRip file. */
+export function convertSubtitlesToSrt(input: FormatConversionInput): Promise<Buffer> {
+  return convertSubtitles(input, 'srt');
+}
+
+/** Write a subtitle job's translated cues as a WebVTT file. */
+export function convertSubtitlesToVtt(input: FormatConversionInput): Promise<Buffer> {
+  return convertSubtitles(input, 'vtt');
+}
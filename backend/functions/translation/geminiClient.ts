@@ -26,18 +26,39 @@ import {
   GetSecretValueCommandOutput,
 } from '@aws-sdk/client-secrets-manager';
 import Logger from '../shared/logger';
+import { buildTranslationPrompt } from './promptBuilder';
 import {
   TranslationOptions,
   TranslationResult,
   TranslationContext,
+  CompletionResult,
   GeminiApiError,
   RateLimitError,
   AuthenticationError,
-  LANGUAGE_NAMES,
+  TranslationProvider,
 } from './types';
 
 const logger = new Logger('lfmt-gemini-client');
 
+/**
+ * The slice of the `@google/genai` SDK the client calls. Declared
+ * structurally so an offline backend (see mockGenAI.ts) can stand in for
+ * `GoogleGenAI` and still travel the same retry and error-mapping paths.
+ */
+export interface GenAIBackend {
+  models: {
+    generateContent(params: { model: string; contents: string }): Promise<{
+      text?: string;
+      candidates?: Array<{ finishReason?: string }>;
+      usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        totalTokenCount?: number;
+      };
+    }>;
+  };
+}
+
 /**
  * Configuration for Gemini client
  */
@@ -64,16 +85,23 @@ export interface GeminiClientConfig {
    * @default 1000
    */
   initialRetryDelayMs?: number;
+
+  /**
+   * Pre-built backend used instead of `GoogleGenAI`. When set,
+   * initialize() does not read the API key from Secrets Manager.
+   */
+  backend?: GenAIBackend;
 }
 
 /**
  * Gemini API Client for translation operations
  */
-export class GeminiClient {
+export class GeminiClient implements TranslationProvider {
+  readonly name = 'gemini' as const;
   private apiKey: string | null = null;
-  private genAI: GoogleGenAI | null = null;
+  private genAI: GenAIBackend | null;
   private secretsClient: SecretsManagerClient;
-  private config: Required<GeminiClientConfig>;
+  private config: Required<Omit<GeminiClientConfig, 'backend'>>;
 
   constructor(config: GeminiClientConfig) {
     this.config = {
@@ -82,16 +110,24 @@ export class GeminiClient {
       maxRetries: config.maxRetries ?? 3,
       initialRetryDelayMs: config.initialRetryDelayMs ?? 1000,
     };
+    this.genAI = config.backend ?? null;
 
     this.secretsClient = new SecretsManagerClient({});
-    logger.info('GeminiClient initialized', { model: this.config.model });
+    logger.info('GeminiClient initialized', {
+      model: this.config.model,
+      customBackend: !!config.backend,
+    });
+  }
+
+  get model(): string {
+    return this.config.model;
   }
 
   /**
    * Initialize the client by fetching API key from Secrets Manager
    */
   async initialize(): Promise<void> {
-    if (this.apiKey && this.genAI) {
+    if (this.genAI) {
       logger.debug('Client already initialized');
       return;
     }
@@ -141,6 +177,38 @@ export class GeminiClient {
     options: TranslationOptions,
     context?: TranslationContext
   ): Promise<TranslationResult> {
+    logger.info('Starting translation', {
+      textLength: text.length,
+      targetLanguage: options.targetLanguage,
+      hasContext: !!context,
+      contextChunks: context?.previousChunks.length ?? 0,
+      hasBrief: !!context?.brief,
+    });
+
+    const result = await this.complete(buildTranslationPrompt(text, options, context));
+
+    logger.info('Translation completed', {
+      targetLanguage: options.targetLanguage,
+      tokensUsed: result.tokensUsed.total,
+      estimatedCost: result.estimatedCost,
+      processingTimeMs: result.processingTimeMs,
+    });
+
+    return {
+      translatedText: result.text,
+      targetLanguage: options.targetLanguage,
+      tokensUsed: result.tokensUsed,
+      estimatedCost: result.estimatedCost,
+      processingTimeMs: result.processingTimeMs,
+      finishReason: result.finishReason,
+    };
+  }
+
+  /**
+   * Send a prompt and return the model's text, with the same retry and
+   * error mapping as a translation request.
+   */
+  async complete(prompt: string): Promise<CompletionResult> {
     if (!this.genAI) {
       throw new GeminiApiError(
         'Client not initialized. Call initialize() first.',
@@ -153,22 +221,12 @@ export class GeminiClient {
     const startTime = Date.now();
 
     try {
-      logger.info('Starting translation', {
-        textLength: text.length,
-        targetLanguage: options.targetLanguage,
-        hasContext: !!context,
-        contextChunks: context?.previousChunks.length ?? 0,
-      });
-
-      // Build the translation prompt
-      const prompt = this.buildTranslationPrompt(text, options, context);
-
       // Make the API call with retry logic
       const result = await this.makeRequestWithRetry(prompt);
 
       const processingTimeMs = Date.now() - startTime;
 
-      // Extract translated text from response.
+      // Extract text from response.
       // result.text is typed string | undefined by the @google/genai SDK.
       // It can be undefined / null / '' when Gemini returns a safety-filtered
       // or empty response (observed: chunk 0 Sherlock job 2026-05-02, after a
@@ -187,8 +245,8 @@ export class GeminiClient {
       // fix). OTHER and FINISH_REASON_UNSPECIFIED (or any unknown / undefined
       // value) are treated as transient and retryable so Step Functions can
       // schedule a retry.
-      const translatedText = result.text;
-      if (translatedText === undefined || translatedText === null || translatedText === '') {
+      const text = result.text;
+      if (text === undefined || text === null || text === '') {
         const finishReason = result.candidates?.[0]?.finishReason;
         const retryable = isFinishReasonRetryable(finishReason);
         throw new GeminiApiError(
@@ -210,24 +268,15 @@ export class GeminiClient {
       // Gemini 1.5 Pro pricing: $0.075 per 1M input tokens (free tier)
       const estimatedCost = (tokensUsed.input / 1_000_000) * 0.075;
 
-      logger.info('Translation completed', {
-        targetLanguage: options.targetLanguage,
-        tokensUsed: tokensUsed.total,
-        estimatedCost,
-        processingTimeMs,
-      });
+      // A non-empty response can still have been cut off (MAX_TOKENS);
+      // translateChunk's quality check flags it rather than failing the chunk.
+      const finishReason = result.candidates?.[0]?.finishReason;
 
-      return {
-        translatedText,
-        targetLanguage: options.targetLanguage,
-        tokensUsed,
-        estimatedCost,
-        processingTimeMs,
-      };
+      return { text, tokensUsed, estimatedCost, processingTimeMs, finishReason };
     } catch (error) {
       const processingTimeMs = Date.now() - startTime;
 
-      logger.error('Translation failed', {
+      logger.error('Gemini request failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
         processingTimeMs,
       });
@@ -240,53 +289,6 @@ export class GeminiClient {
     }
   }
 
-  /**
-   * Build translation prompt with context
-   */
-  private buildTranslationPrompt(
-    text: string,
-    options: TranslationOptions,
-    context?: TranslationContext
-  ): string {
-    const targetLanguageName = LANGUAGE_NAMES[options.targetLanguage];
-    const tone = options.tone || 'neutral';
-
-    let prompt = `You are a professional translator. Translate the following text to ${targetLanguageName}.\n\n`;
-
-    // Add tone/style instructions
-    if (tone === 'formal') {
-      prompt += 'Use formal language and professional tone.\n';
-    } else if (tone === 'informal') {
-      prompt += 'Use casual, conversational language.\n';
-    }
-
-    // Add formatting instructions
-    if (options.preserveFormatting !== false) {
-      prompt += 'Preserve all formatting, line breaks, and structure.\n';
-    }
-
-    // Add additional instructions
-    if (options.additionalInstructions) {
-      prompt += `${options.additionalInstructions}\n`;
-    }
-
-    // Add context from previous chunks if available
-    if (context && context.previousChunks.length > 0) {
-      prompt += '\n---CONTEXT FROM PREVIOUS SECTIONS---\n';
-      prompt += context.previousChunks.join('\n\n');
-      prompt += '\n---END CONTEXT---\n\n';
-      prompt +=
-        'Use the above context to maintain consistency in terminology, style, and narrative flow.\n\n';
-    }
-
-    prompt += '---TEXT TO TRANSLATE---\n';
-    prompt += text;
-    prompt += '\n---END TEXT---\n\n';
-    prompt += 'Provide ONLY the translated text without any explanations, notes, or metadata.';
-
-    return prompt;
-  }
-
   /**
    * Make API request with retry logic
    * Returns any - Gemini API response structure varies
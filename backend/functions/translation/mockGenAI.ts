@@ -0,0 +1,167 @@
+/**
+ * Offline Mock Translation Backend
+ * Deterministic stand-in for the Gemini SDK, for local runs and CI
+ *
+ * Plugged into GeminiClient as its `backend` (see GenAIBackend), so a mocked
+ * chunk still goes through the real client's retry loop, HTTP-status
+ * mapping (RateLimitError / AuthenticationError / GeminiApiError) and the
+ * EMPTY_RESPONSE → isFinishReasonRetryable decision. Only the network call
+ * is replaced. Prompts that are not translations (the translation brief)
+ * are answered with an empty brief.
+ *
+ * Enabled by `TRANSLATION_MOCK=true` on the translateChunk Lambda:
+ *
+ *   TRANSLATION_MOCK_LATENCY_MS      delay per request (default 0)
+ *   TRANSLATION_MOCK_CHARS_PER_TOKEN token usage reported per character
+ *                                    of prompt and output (default 4)
+ *   TRANSLATION_MOCK_FAILURES        comma-separated `chunkIndex:failure`
+ *                                    entries, where failure is a Gemini
+ *                                    finishReason (`3:SAFETY`) or an HTTP
+ *                                    status (`5:503`). A `xN` suffix makes
+ *                                    the failure transient: the first N
+ *                                    requests fail, later ones succeed
+ *                                    (`5:503x1`).
+ */
+
+import type { GenAIBackend } from './geminiClient';
+
+export interface MockFailure {
+  /** Gemini finishReason returned with an empty response, e.g. `SAFETY`. */
+  finishReason?: string;
+  /** HTTP status thrown as an SDK error, e.g. 429 or 503. */
+  status?: number;
+  /** Fail only the first N requests; omitted → every request fails. */
+  times?: number;
+}
+
+export interface MockTranslationConfig {
+  latencyMs: number;
+  charsPerToken: number;
+  /** Failures to inject, by chunk index. */
+  failures: Record<number, MockFailure>;
+}
+
+/** Answer to any prompt that is not a translation, i.e. the translation brief. */
+const MOCK_BRIEF = JSON.stringify({ characters: [], style: 'Mock brief', plotSummary: '' });
+
+const FAILURE_PATTERN = /^(\d+):([A-Z_]+|\d{3})(?:x(\d+))?$/;
+
+/**
+ * Read the mock configuration from the environment. Returns null unless
+ * `TRANSLATION_MOCK` is `true`. Malformed failure entries throw at cold
+ * start rather than silently running without the requested failure.
+ */
+export function mockConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): MockTranslationConfig | null {
+  if (env.TRANSLATION_MOCK !== 'true') {
+    return null;
+  }
+
+  const failures: Record<number, MockFailure> = {};
+  const entries = (env.TRANSLATION_MOCK_FAILURES ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  for (const entry of entries) {
+    const match = FAILURE_PATTERN.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid TRANSLATION_MOCK_FAILURES entry: ${entry}`);
+    }
+    const [, index, failure, times] = match;
+    failures[Number(index)] = {
+      ...(/^\d+$/.test(failure) ? { status: Number(failure) } : { finishReason: failure }),
+      ...(times !== undefined && { times: Number(times) }),
+    };
+  }
+
+  return {
+    latencyMs: Number(env.TRANSLATION_MOCK_LATENCY_MS ?? 0) || 0,
+    charsPerToken: Number(env.TRANSLATION_MOCK_CHARS_PER_TOKEN ?? 4) || 4,
+    failures,
+  };
+}
+
+/**
+ * Pseudo-translate text: every line that carries prose is bracketed with
+ * the target language name and padded by ~30%, the usual expansion from
+ * English to Romance languages, so layout code sees realistic growth.
+ * Blank lines, markdown markers and subtitle cue numbers / timing lines
+ * are kept verbatim so structural validation still passes.
+ */
+export function pseudoTranslate(text: string, languageName: string): string {
+  return text
+    .split('\n')
+    .map((line) => {
+      const structural =
+        line.trim() === '' ||
+        /^\d+$/.test(line.trim()) ||
+        line.includes('-->') ||
+        line.startsWith('WEBVTT');
+      if (structural) {
+        return line;
+      }
+      const prefix = /^\s*(?:#{1,6}\s+|[-*+]\s+|\d+\.\s+|>\s*)?/.exec(line)?.[0] ?? '';
+      const body = line.slice(prefix.length);
+      const padding = '~'.repeat(Math.ceil(body.length * 0.3));
+      return `${prefix}[${languageName}] ${body} ${padding}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Create a mock backend for one chunk. Failures are looked up by
+ * `chunkIndex`; the request counter behind `xN` transient failures is
+ * per backend, so translateChunk builds a fresh one per invocation.
+ */
+export function createMockGenAI(config: MockTranslationConfig, chunkIndex: number): GenAIBackend {
+  const failure = config.failures[chunkIndex];
+  let requests = 0;
+
+  return {
+    models: {
+      async generateContent({ contents }) {
+        requests++;
+        if (config.latencyMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, config.latencyMs));
+        }
+
+        const promptTokenCount = Math.ceil(contents.length / config.charsPerToken);
+        const failing = failure && (failure.times === undefined || requests <= failure.times);
+
+        if (failing && failure.status !== undefined) {
+          // Same shape the SDK throws: an Error carrying the HTTP status.
+          throw Object.assign(new Error(`Mock API error (${failure.status})`), {
+            status: failure.status,
+          });
+        }
+        if (failing && failure.finishReason !== undefined) {
+          return {
+            text: '',
+            candidates: [{ finishReason: failure.finishReason }],
+            usageMetadata: {
+              promptTokenCount,
+              candidatesTokenCount: 0,
+              totalTokenCount: promptTokenCount,
+            },
+          };
+        }
+
+        const languageName = /to ([^.\n]+)\.\n/.exec(contents)?.[1] ?? 'Translated';
+        const source = /---TEXT TO TRANSLATE---\n([\s\S]*)\n---END TEXT---/.exec(contents)?.[1];
+        const text = source === undefined ? MOCK_BRIEF : pseudoTranslate(source, languageName);
+        const candidatesTokenCount = Math.ceil(text.length / config.charsPerToken);
+
+        return {
+          text,
+          candidates: [{ finishReason: 'STOP' }],
+          usageMetadata: {
+            promptTokenCount,
+            candidatesTokenCount,
+            totalTokenCount: promptTokenCount + candidatesTokenCount,
+          },
+        };
+      },
+    },
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the PDF font loader
+ */
+
+import { mkdtempSync, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Point the layer lookup at a temp dir BEFORE the module under test reads it.
+const layerDir = mkdtempSync(path.join(os.tmpdir(), 'lfmt-fonts-'));
+process.env.PDF_FONT_LAYER_DIR = layerDir;
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { Readable } from 'stream';
+import { clearPdfFontCacheForTesting, loadPdfFont, pdfFontFileFor } from './pdfFonts';
+
+const s3Mock = mockClient(S3Client);
+const client = new S3Client({});
+
+describe('pdfFontFileFor', () => {
+  it.each([
+    ['zh', 'NotoSansSC-Regular.ttf'],
+    ['ja', 'NotoSansJP-Regular.ttf'],
+    ['ko', 'NotoSansKR-Regular.ttf'],
+    ['ru', 'NotoSans-Regular.ttf'],
+    ['ar', 'NotoNaskhArabic-Regular.ttf'],
+    ['he', 'NotoSansHebrew-Regular.ttf'],
+  ])('picks a font for %s', (language, fileName) => {
+    expect(pdfFontFileFor(language)).toBe(fileName);
+  });
+
+  it.each(['en', 'fr', 'xx', undefined])('needs no font for %s', (language) => {
+    expect(pdfFontFileFor(language)).toBeNull();
+  });
+});
+
+describe('loadPdfFont', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+    clearPdfFontCacheForTesting();
+  });
+
+  afterAll(async () => {
+    await fs.rm(layerDir, { recursive: true, force: true });
+  });
+
+  it('returns null without any lookup for Latin-script targets', async () => {
+    expect(await loadPdfFont(client, 'fonts-bucket', 'de')).toBeNull();
+    expect(s3Mock.calls()).toHaveLength(0);
+  });
+
+  it('prefers the layer directory over S3', async () => {
+    await fs.writeFile(path.join(layerDir, 'NotoSansKR-Regular.ttf'), 'layer-font');
+
+    const font = await loadPdfFont(client, 'fonts-bucket', 'ko');
+
+    expect(font?.toString()).toBe('layer-font');
+    expect(s3Mock.calls()).toHaveLength(0);
+  });
+
+  it('fetches from the fonts bucket when the layer does not have the file', async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .resolves({ Body: sdkStreamMixin(Readable.from([Buffer.from('s3-font')])) } as any);
+
+    const font = await loadPdfFont(client, 'fonts-bucket', 'ja');
+
+    expect(font?.toString()).toBe('s3-font');
+    expect(s3Mock.commandCalls(GetObjectCommand)[0].args[0].input).toEqual({
+      Bucket: 'fonts-bucket',
+      Key: 'fonts/NotoSansJP-Regular.ttf',
+    });
+  });
+
+  it('caches a loaded font for the life of the container', async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .resolves({ Body: sdkStreamMixin(Readable.from([Buffer.from('s3-font')])) } as any);
+
+    await loadPdfFont(client, 'fonts-bucket', 'ar');
+    await loadPdfFont(client, 'fonts-bucket', 'ar');
+
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(1);
+  });
+
+  it('returns null when the font is missing from the bucket', async () => {
+    s3Mock.on(GetObjectCommand).rejects({ name: 'NoSuchKey' });
+
+    expect(await loadPdfFont(client, 'fonts-bucket', 'he')).toBeNull();
+  });
+
+  it('returns null when no bucket is configured', async () => {
+    expect(await loadPdfFont(client, undefined, 'zh')).toBeNull();
+    expect(s3Mock.calls()).toHaveLength(0);
+  });
+
+  it('propagates unexpected S3 errors', async () => {
+    s3Mock.on(GetObjectCommand).rejects(new Error('AccessDenied'));
+
+    await expect(loadPdfFont(client, 'fonts-bucket', 'ru')).rejects.toThrow('AccessDenied');
+  });
+});
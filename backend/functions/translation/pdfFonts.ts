@@ -0,0 +1,123 @@
+/**
+ * PDF Font Loader
+ *
+ * PDFKit's built-in Helvetica only covers Latin-1, so a Chinese, Japanese,
+ * Korean, Russian, Arabic or Hebrew PDF rendered with it is a page of
+ * empty boxes. This module picks a font per script (from the shared
+ * LANGUAGE_REGISTRY) and loads it for downloadTranslation.ts, which hands
+ * the bytes to convertMarkdownToPdf.
+ *
+ * Fonts are NOT bundled into the Lambda zip — a single CJK face is
+ * ~10–16 MB and three of them would push the function past the 50 MB
+ * direct-upload limit. Lookup order:
+ *
+ * 1. `PDF_FONT_LAYER_DIR` (default `/opt/fonts`) — where a fonts Lambda
+ *    layer mounts its files. Zero latency when an operator attaches one.
+ * 2. `PDF_FONTS_BUCKET` under `fonts/` — fetched on demand on first use.
+ *
+ * Loaded fonts are cached per warm container, so only the first PDF for a
+ * given script pays the read. A missing font is not an error: the caller
+ * logs it and falls back to Helvetica.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getLanguage, LanguageScript } from '@lfmt/shared-types';
+
+const FONT_LAYER_DIR = process.env.PDF_FONT_LAYER_DIR || '/opt/fonts';
+
+/** S3 key prefix under PDF_FONTS_BUCKET. */
+const FONT_KEY_PREFIX = 'fonts/';
+
+/**
+ * Font file per script. Latin is absent on purpose — Helvetica handles it
+ * and needs no download. File names are the Noto releases; the same names
+ * are used in the layer directory and under the S3 prefix.
+ */
+export const PDF_FONT_FILES: Partial<Record<LanguageScript, string>> = {
+  Hans: 'NotoSansSC-Regular.ttf',
+  Jpan: 'NotoSansJP-Regular.ttf',
+  Kore: 'NotoSansKR-Regular.ttf',
+  Cyrl: 'NotoSans-Regular.ttf',
+  Arab: 'NotoNaskhArabic-Regular.ttf',
+  Hebr: 'NotoSansHebrew-Regular.ttf',
+};
+
+const fontCache = new Map<string, Buffer>();
+
+/**
+ * Empty the warm-container font cache for unit testing.
+ * Must NOT be called from production code.
+ */
+export function clearPdfFontCacheForTesting(): void {
+  fontCache.clear();
+}
+
+/** Font file needed to typeset `language`, or null when Helvetica will do. */
+export function pdfFontFileFor(language: string | undefined): string | null {
+  const script = language ? getLanguage(language)?.script : undefined;
+  return (script && PDF_FONT_FILES[script]) || null;
+}
+
+async function readFromLayer(fileName: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(FONT_LAYER_DIR, fileName));
+  } catch {
+    return null;
+  }
+}
+
+async function readFromBucket(
+  client: S3Client,
+  bucket: string,
+  fileName: string
+): Promise<Buffer | null> {
+  try {
+    const response = await client.send(
+      new GetObjectCommand({ Bucket: bucket, Key: `${FONT_KEY_PREFIX}${fileName}` })
+    );
+    if (!response.Body) {
+      return null;
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  } catch (error) {
+    if ((error as { name?: string }).name === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load the PDF font for a target language.
+ *
+ * @param client     - S3Client instance (caller manages lifecycle)
+ * @param fontBucket - PDF_FONTS_BUCKET, or undefined when no bucket is configured
+ * @param language   - Target language code (e.g. 'zh')
+ * @returns Font bytes, or null when the language needs no extra font or the
+ *   font is in neither the layer nor the bucket
+ */
+export async function loadPdfFont(
+  client: S3Client,
+  fontBucket: string | undefined,
+  language: string | undefined
+): Promise<Buffer | null> {
+  const fileName = pdfFontFileFor(language);
+  if (!fileName) {
+    return null;
+  }
+
+  const cached = fontCache.get(fileName);
+  if (cached) {
+    return cached;
+  }
+
+  const font =
+    (await readFromLayer(fileName)) ??
+    (fontBucket ? await readFromBucket(client, fontBucket, fileName) : null);
+  if (font) {
+    fontCache.set(fileName, font);
+  }
+  return font;
+}
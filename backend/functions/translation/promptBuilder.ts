@@ -0,0 +1,149 @@
+/**
+ * Translation Prompt Builder
+ * Provider-neutral prompt shared by every TranslationProvider
+ */
+
+import { selectGlossaryTermsForText } from '../shared/glossaryMatcher';
+import { TranslationOptions, TranslationContext, LANGUAGE_NAMES } from './types';
+
+/**
+ * Build the translation prompt for a chunk. Every provider sends the same
+ * instructions so that quality comparisons between vendors compare the
+ * models, not the prompts.
+ */
+export function buildTranslationPrompt(
+  text: string,
+  options: TranslationOptions,
+  context?: TranslationContext
+): string {
+  const targetLanguageName = LANGUAGE_NAMES[options.targetLanguage];
+  const tone = options.tone || 'neutral';
+
+  const sourceLanguageName = options.sourceLanguage
+    ? LANGUAGE_NAMES[options.sourceLanguage]
+    : undefined;
+  const sourceText = sourceLanguageName ? `${sourceLanguageName} text` : 'text';
+
+  let prompt = `You are a professional translator. Translate the following ${sourceText} to ${targetLanguageName}.\n\n`;
+
+  // Add tone/style instructions
+  if (tone === 'formal') {
+    prompt += 'Use formal language and professional tone.\n';
+  } else if (tone === 'informal') {
+    prompt += 'Use casual, conversational language.\n';
+  }
+
+  // Add formatting instructions
+  if (options.preserveFormatting !== false) {
+    prompt += 'Preserve all formatting, line breaks, and structure.\n';
+  }
+
+  // Subtitle cues: translateChunk validates the cue count and timing lines
+  // of the response against the source, so spell the rules out.
+  if (options.subtitleFormat) {
+    const format = options.subtitleFormat === 'srt' ? 'SubRip (SRT)' : 'WebVTT';
+    prompt += `The text is a sequence of ${format} subtitle cues separated by blank lines.\n`;
+    prompt +=
+      'Translate ONLY the subtitle text lines. Copy every cue number, cue identifier and ' +
+      'timing line (the lines containing "-->") exactly as written, character for character.\n';
+    prompt +=
+      'Return the same number of cues in the same order, separated by single blank lines. ' +
+      'Never merge, split, drop or add cues.\n';
+  }
+
+  // Paragraph alignment: translateChunk re-requests a prose chunk whose
+  // paragraphs did not line up with the source (see alignChunkParagraphs).
+  if (options.paragraphCount !== undefined) {
+    const paragraphs =
+      options.paragraphCount === 1
+        ? 'exactly 1 paragraph'
+        : `exactly ${options.paragraphCount} paragraphs`;
+    prompt += `The text has ${paragraphs}, separated by blank lines.\n`;
+    prompt +=
+      `Return ${paragraphs} in the same order, one for each source paragraph, separated by ` +
+      'single blank lines. Never merge, split, drop or add paragraphs.\n';
+  }
+
+  // Add additional instructions
+  if (options.additionalInstructions) {
+    prompt += `${options.additionalInstructions}\n`;
+  }
+
+  // Add project glossary — only the terms that occur in this chunk, so a
+  // large glossary doesn't inflate every prompt (see glossaryMatcher.ts).
+  const glossaryTerms = selectGlossaryTermsForText(options.glossaryTerms ?? [], text);
+  if (glossaryTerms.length > 0) {
+    prompt += '\n---GLOSSARY---\n';
+    prompt += 'Always render these terms exactly as given (source → required translation):\n';
+    for (const term of glossaryTerms) {
+      prompt += `- ${term.source} → ${term.target}`;
+      prompt += term.notes ? ` (${term.notes})\n` : '\n';
+    }
+    prompt += '---END GLOSSARY---\n';
+  }
+
+  // Translation memory brief: the cast with settled genders and name
+  // renderings, so pronouns and agreement hold across chunks that never
+  // see each other (see translationBrief.ts).
+  const brief = context?.brief;
+  if (brief && (brief.characters.length > 0 || brief.style || brief.plotSummary)) {
+    prompt += '\n---TRANSLATION BRIEF---\n';
+    if (brief.characters.length > 0) {
+      prompt += 'Characters (source name → name to use; gender):\n';
+      for (const character of brief.characters) {
+        prompt += `- ${character.name} → ${character.rendering ?? character.name}; ${character.gender}`;
+        prompt += character.notes ? ` (${character.notes})\n` : '\n';
+      }
+    }
+    if (brief.style) {
+      prompt += `Style: ${brief.style}\n`;
+    }
+    if (brief.plotSummary) {
+      prompt += `Story so far: ${brief.plotSummary}\n`;
+    }
+    prompt += '---END BRIEF---\n';
+    prompt +=
+      'Use these names, and pronouns and grammatical gender that match the genders listed. ' +
+      'Where a gender is unknown, do not guess one the text does not establish.\n';
+  }
+
+  // Translation memory: edited versions of paragraphs translated in an
+  // earlier job. Unchanged paragraphs never reach the prompt — translateChunk
+  // reuses their stored translation.
+  if (context?.memoryMatches && context.memoryMatches.length > 0) {
+    prompt += '\n---TRANSLATION MEMORY---\n';
+    prompt +=
+      'Earlier translations of passages close to ones in this text. Keep their wording ' +
+      'where the source is unchanged and adapt only what the edits require.\n';
+    for (const match of context.memoryMatches) {
+      prompt += `\nSource: ${match.source}\nTranslation: ${match.translation}\n`;
+    }
+    prompt += '---END TRANSLATION MEMORY---\n';
+  }
+
+  // Sequential mode: the model sees how the preceding chunks were actually
+  // rendered, so it can carry names, terminology and voice across the seam.
+  if (context?.source === 'translation' && context.previousChunks.length > 0) {
+    prompt += '\n---PREVIOUS TRANSLATION---\n';
+    prompt += context.previousChunks.join('\n\n');
+    prompt += '\n---END PREVIOUS TRANSLATION---\n\n';
+    prompt +=
+      `The above is the end of the ${targetLanguageName} translation so far. Continue it ` +
+      'seamlessly, keeping the same terminology, character names, and voice. Do not ' +
+      'repeat or re-translate it.\n\n';
+  } else if (context && context.previousChunks.length > 0) {
+    // Add context from previous chunks if available
+    prompt += '\n---CONTEXT FROM PREVIOUS SECTIONS---\n';
+    prompt += context.previousChunks.join('\n\n');
+    prompt += '\n---END CONTEXT---\n\n';
+    prompt +=
+      'Use the above context to maintain consistency in terminology, style, and narrative flow.\n\n';
+  }
+
+  prompt += '---TEXT TO TRANSLATE---\n';
+  prompt += text;
+  prompt += '\n---END TEXT---\n\n';
+  prompt += 'Provide ONLY the translated text without any explanations, notes, or metadata.';
+
+  return prompt;
+}
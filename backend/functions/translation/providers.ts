@@ -0,0 +1,107 @@
+/**
+ * Translation Provider Registry
+ * Per-container provider clients and rate limiters, shared by every Lambda
+ * that calls a translation model (translateChunk, buildTranslationBrief)
+ */
+
+import type { TranslationProviderName } from '@lfmt/shared-types';
+import { GeminiClient } from './geminiClient';
+import { AnthropicClient } from './anthropicClient';
+import { createMockGenAI, MockTranslationConfig } from './mockGenAI';
+import { TranslationProvider } from './types';
+import { DistributedRateLimiter } from '../shared/distributedRateLimiter';
+import {
+  ANTHROPIC_RATE_LIMITS,
+  GEMINI_RATE_LIMITS,
+  RateLimitConfig,
+} from '../shared/types/rateLimiting';
+import { getRequiredEnv } from '../shared/env';
+
+const GEMINI_API_KEY_SECRET = getRequiredEnv('GEMINI_API_KEY_SECRET_NAME');
+const ANTHROPIC_API_KEY_SECRET = getRequiredEnv('ANTHROPIC_API_KEY_SECRET_NAME');
+const RATE_LIMIT_BUCKETS_TABLE = getRequiredEnv('RATE_LIMIT_BUCKETS_TABLE');
+
+/**
+ * Each provider draws from its own distributed token bucket — a burst of
+ * Anthropic jobs must not starve Gemini jobs of quota, and vice versa.
+ */
+const PROVIDER_RATE_LIMITS: Record<TranslationProviderName, RateLimitConfig> = {
+  gemini: GEMINI_RATE_LIMITS,
+  anthropic: ANTHROPIC_RATE_LIMITS,
+};
+
+// Singleton instances (reused across invocations), keyed by
+// `provider:model` and by provider respectively.
+const providers = new Map<string, TranslationProvider>();
+const rateLimiters = new Map<TranslationProviderName, DistributedRateLimiter>();
+
+/**
+ * Reset singleton instances (for testing)
+ */
+export function resetProviders(): void {
+  providers.clear();
+  rateLimiters.clear();
+}
+
+/**
+ * Return the initialized client for a provider/model pair, creating it on
+ * first use. Clients are cached per container so warm invocations skip the
+ * Secrets Manager round trip.
+ */
+export async function getProvider(
+  name: TranslationProviderName,
+  model: string
+): Promise<TranslationProvider> {
+  const key = `${name}:${model}`;
+  const cached = providers.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const provider: TranslationProvider =
+    name === 'anthropic'
+      ? new AnthropicClient({ apiKeySecretName: ANTHROPIC_API_KEY_SECRET, model, maxRetries: 3 })
+      : new GeminiClient({ apiKeySecretName: GEMINI_API_KEY_SECRET, model, maxRetries: 3 });
+  await provider.initialize();
+  providers.set(key, provider);
+  return provider;
+}
+
+/**
+ * Build the offline mock client for one chunk. It is the real GeminiClient
+ * over a fake backend, so injected failures exercise the production error
+ * handling. Not cached: injected failures are keyed by chunk index.
+ */
+export async function getMockProvider(
+  config: MockTranslationConfig,
+  chunkIndex: number
+): Promise<TranslationProvider> {
+  const provider = new GeminiClient({
+    apiKeySecretName: GEMINI_API_KEY_SECRET,
+    model: 'mock',
+    maxRetries: 3,
+    initialRetryDelayMs: 10, // nothing upstream to back off from
+    backend: createMockGenAI(config, chunkIndex),
+  });
+  await provider.initialize();
+  return provider;
+}
+
+/**
+ * Return the distributed rate limiter for a provider's API quota.
+ */
+export function getRateLimiter(name: TranslationProviderName): DistributedRateLimiter {
+  let limiter = rateLimiters.get(name);
+  if (!limiter) {
+    const limits = PROVIDER_RATE_LIMITS[name];
+    limiter = new DistributedRateLimiter({
+      tableName: RATE_LIMIT_BUCKETS_TABLE,
+      apiId: limits.apiId,
+      rpm: limits.rpm,
+      tpm: limits.tpm,
+      rpd: limits.rpd,
+    });
+    rateLimiters.set(name, limiter);
+  }
+  return limiter;
+}
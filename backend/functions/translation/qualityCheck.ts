@@ -0,0 +1,249 @@
+/**
+ * Translation Quality Check
+ *
+ * Automatic, model-free checks translateChunk.ts runs on every translated
+ * chunk. Each compares the translation with its source and raises a
+ * QualityFlag on a symptom of a bad response rather than proving one — a
+ * flag sends the user to read that part, it does not fail the chunk:
+ *
+ * - TRUNCATED: the provider reported stopping at its output limit;
+ * - LENGTH_RATIO: the translation is far shorter or longer than its source;
+ * - DROPPED_PARAGRAPHS: fewer paragraphs came back than were sent;
+ * - UNTRANSLATED_SEGMENT: paragraphs still in the source language;
+ * - REPETITION: a sentence repeated over and over (a generation loop).
+ */
+
+import type { QualityFlag, QualityFlagSeverity } from '@lfmt/shared-types';
+import { detectLanguage, RELIABLE_DETECTION_CONFIDENCE } from '../shared/languageDetector';
+import { normalizeSegment, splitSegments } from './translationMemory';
+
+/** Chunks shorter than this (in length units) are too short for a meaningful ratio. */
+const MIN_RATIO_SOURCE_LENGTH = 200;
+
+/** Translation / source length ratios outside [low, high] raise a flag. */
+const LENGTH_RATIO_MEDIUM = { low: 0.5, high: 2 };
+const LENGTH_RATIO_HIGH = { low: 0.3, high: 3 };
+
+/**
+ * Length units per character. Han and kana carry roughly a word each and
+ * Hangul a syllable, so a faithful English → Japanese translation is a
+ * third of the characters; weighting them keeps the ratio near 1.
+ */
+const DENSE_SCRIPT_WEIGHTS: Array<[RegExp, number]> = [
+  [/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu, 3],
+  [/\p{Script=Hangul}/gu, 2],
+];
+
+/** Paragraphs with fewer letters than this are not language-checked (names, headings). */
+const MIN_DETECTION_LETTERS = 60;
+
+/** Share of paragraphs left untranslated above which the flag is HIGH. */
+const UNTRANSLATED_HIGH_SHARE = 0.25;
+
+/** Sentences shorter than this are not counted as repeats ("Yes.", "No!"). */
+const MIN_REPEATED_SENTENCE_LENGTH = 20;
+
+/** A sentence repeated this often is a loop — unless the source repeats it as much. */
+const REPETITION_MEDIUM = 3;
+const REPETITION_HIGH = 5;
+
+/** finishReason of a response cut off at the provider's output limit. */
+const TRUNCATED_FINISH_REASON = 'MAX_TOKENS';
+
+const EXCERPT_LENGTH = 60;
+
+const SEVERITY_RANK: Record<QualityFlagSeverity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+export interface ChunkQualityInput {
+  source: string;
+  translation: string;
+  /** ISO 639-1 source language, when detected or supplied. */
+  sourceLanguage?: string;
+  targetLanguage: string;
+  /** Provider finishReason of the response (see TranslationResult). */
+  finishReason?: string;
+}
+
+/**
+ * Run every check over one translated chunk.
+ *
+ * @returns The raised flags, most severe first; empty when the chunk looks fine.
+ */
+export function assessChunkQuality(input: ChunkQualityInput): QualityFlag[] {
+  const sourceParagraphs = splitSegments(input.source);
+  const translatedParagraphs = splitSegments(input.translation);
+
+  const flags = [
+    checkTruncation(input.finishReason),
+    checkLengthRatio(input.source, input.translation),
+    checkParagraphCount(sourceParagraphs.length, translatedParagraphs.length),
+    checkUntranslated(sourceParagraphs, translatedParagraphs, input),
+    checkRepetition(input.source, input.translation),
+  ].filter((flag): flag is QualityFlag => flag !== null);
+
+  return flags.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+/** The most severe of `flags`; LOW for an empty list. */
+export function highestSeverity(flags: QualityFlag[]): QualityFlagSeverity {
+  return flags.reduce<QualityFlagSeverity>(
+    (highest, flag) =>
+      SEVERITY_RANK[flag.severity] > SEVERITY_RANK[highest] ? flag.severity : highest,
+    'LOW'
+  );
+}
+
+function checkTruncation(finishReason: string | undefined): QualityFlag | null {
+  if (finishReason !== TRUNCATED_FINISH_REASON) {
+    return null;
+  }
+  return {
+    type: 'TRUNCATED',
+    severity: 'HIGH',
+    description: 'The model stopped at its output limit; the end of this part is likely missing.',
+  };
+}
+
+function lengthUnits(text: string): number {
+  const compact = text.replace(/\s+/g, '');
+  return DENSE_SCRIPT_WEIGHTS.reduce(
+    (units, [pattern, weight]) => units + (compact.match(pattern)?.length ?? 0) * (weight - 1),
+    compact.length
+  );
+}
+
+function checkLengthRatio(source: string, translation: string): QualityFlag | null {
+  const sourceUnits = lengthUnits(source);
+  if (sourceUnits < MIN_RATIO_SOURCE_LENGTH) {
+    return null;
+  }
+
+  const ratio = lengthUnits(translation) / sourceUnits;
+  const severity: QualityFlagSeverity | null =
+    ratio < LENGTH_RATIO_HIGH.low || ratio > LENGTH_RATIO_HIGH.high
+      ? 'HIGH'
+      : ratio < LENGTH_RATIO_MEDIUM.low || ratio > LENGTH_RATIO_MEDIUM.high
+        ? 'MEDIUM'
+        : null;
+  if (!severity) {
+    return null;
+  }
+
+  return {
+    type: 'LENGTH_RATIO',
+    severity,
+    description: `The translation is ${ratio < 1 ? 'much shorter' : 'much longer'} than the source (${Math.round(ratio * 100)}% of its length).`,
+  };
+}
+
+function checkParagraphCount(sourceCount: number, translatedCount: number): QualityFlag | null {
+  const missing = sourceCount - translatedCount;
+  if (missing <= 0) {
+    return null;
+  }
+
+  // One paragraph merged into its neighbour is common and usually harmless.
+  const severity: QualityFlagSeverity =
+    missing >= Math.max(2, Math.ceil(sourceCount * 0.1)) ? 'HIGH' : 'MEDIUM';
+  return {
+    type: 'DROPPED_PARAGRAPHS',
+    severity,
+    description: `${translatedCount} of ${sourceCount} paragraphs came back; ${missing} may have been dropped or merged.`,
+  };
+}
+
+function letterCount(text: string): number {
+  return text.match(/\p{L}/gu)?.length ?? 0;
+}
+
+/**
+ * Paragraphs returned unchanged, or long enough to detect and reliably in
+ * the source language. Without a known source language, the chunk's own
+ * source text decides it.
+ */
+function checkUntranslated(
+  sourceParagraphs: string[],
+  translatedParagraphs: string[],
+  input: ChunkQualityInput
+): QualityFlag | null {
+  const sourceLanguage = input.sourceLanguage ?? reliableLanguage(input.source);
+  const sourceSet = new Set(
+    sourceParagraphs
+      .filter((paragraph) => letterCount(paragraph) >= MIN_DETECTION_LETTERS)
+      .map(normalizeSegment)
+  );
+
+  const leaked = translatedParagraphs.filter((paragraph) => {
+    if (letterCount(paragraph) < MIN_DETECTION_LETTERS) {
+      return false;
+    }
+    if (sourceSet.has(normalizeSegment(paragraph))) {
+      return true;
+    }
+    return (
+      !!sourceLanguage &&
+      sourceLanguage !== input.targetLanguage &&
+      reliableLanguage(paragraph) === sourceLanguage
+    );
+  });
+  if (leaked.length === 0) {
+    return null;
+  }
+
+  const severity: QualityFlagSeverity =
+    leaked.length / translatedParagraphs.length > UNTRANSLATED_HIGH_SHARE ? 'HIGH' : 'MEDIUM';
+  const count = leaked.length === 1 ? '1 paragraph appears' : `${leaked.length} paragraphs appear`;
+  return {
+    type: 'UNTRANSLATED_SEGMENT',
+    severity,
+    description: `${count} to be left untranslated (first: "${excerpt(leaked[0])}").`,
+  };
+}
+
+function reliableLanguage(text: string): string | null {
+  const detected = detectLanguage(text);
+  return detected && detected.confidence >= RELIABLE_DETECTION_CONFIDENCE
+    ? detected.language
+    : null;
+}
+
+/** Sentences by normalized text, with their first wording and count. */
+function sentenceCounts(text: string): Map<string, { sentence: string; count: number }> {
+  const counts = new Map<string, { sentence: string; count: number }>();
+  for (const sentence of text.split(/(?<=[.!?。！？])\s*|\n+/u)) {
+    const key = normalizeSegment(sentence).toLowerCase();
+    if (key.length >= MIN_REPEATED_SENTENCE_LENGTH) {
+      const entry = counts.get(key) ?? { sentence, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+  }
+  return counts;
+}
+
+/**
+ * The most repeated sentence of the translation, when it repeats more
+ * often than any sentence of the source — a refrain the author wrote
+ * three times is translated three times.
+ */
+function checkRepetition(source: string, translation: string): QualityFlag | null {
+  const sourceMax = Math.max(0, ...[...sentenceCounts(source).values()].map(({ count }) => count));
+  const repeated = [...sentenceCounts(translation).values()].reduce<{
+    sentence: string;
+    count: number;
+  } | null>((most, entry) => (!most || entry.count > most.count ? entry : most), null);
+  if (!repeated || repeated.count < REPETITION_MEDIUM || repeated.count <= sourceMax) {
+    return null;
+  }
+
+  return {
+    type: 'REPETITION',
+    severity: repeated.count >= REPETITION_HIGH ? 'HIGH' : 'MEDIUM',
+    description: `A sentence is repeated ${repeated.count} times ("${excerpt(repeated.sentence)}"), which suggests the model looped.`,
+  };
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 1)}…` : flat;
+}
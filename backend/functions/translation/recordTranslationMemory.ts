@@ -0,0 +1,68 @@
+/**
+ * Record Translation Memory Lambda Function
+ * Adds a completed job's paragraph pairs to the user's translation memory
+ * (see translationMemory.ts), so later jobs on a revised edition of the
+ * same document reuse them
+ *
+ * Runs after UpdateJobCompleted. The translation is already delivered, so
+ * the state machine catches any failure here and still succeeds; a chunk
+ * whose translation does not line up paragraph for paragraph with its
+ * source is skipped rather than stored misaligned.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { S3Client } from '@aws-sdk/client-s3';
+import Logger from '../shared/logger';
+import { getRequiredEnv } from '../shared/env';
+import { loadJobForUser } from '../shared/jobRepository';
+import { recordJobTranslationMemory } from './translationMemory';
+
+const logger = new Logger('lfmt-record-translation-memory');
+const dynamoClient = new DynamoDBClient({});
+const s3Client = new S3Client({});
+
+const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
+const TRANSLATION_MEMORY_TABLE = getRequiredEnv('TRANSLATION_MEMORY_TABLE');
+
+/**
+ * Lambda event structure (from the state machine execution input)
+ */
+export interface RecordTranslationMemoryEvent {
+  jobId: string;
+  userId: string;
+  targetLanguage: string;
+}
+
+/**
+ * Lambda response structure
+ */
+export interface RecordTranslationMemoryResponse {
+  jobId: string;
+  recordedSegments: number;
+  skippedChunks: number;
+}
+
+export const handler = async (
+  event: RecordTranslationMemoryEvent
+): Promise<RecordTranslationMemoryResponse> => {
+  const { jobId, userId, targetLanguage } = event;
+
+  const job = await loadJobForUser(dynamoClient, JOBS_TABLE, jobId, userId);
+  if (!job) {
+    throw new Error(`Job not found: ${jobId}`);
+  }
+
+  const { recordedSegments, skippedChunks } = await recordJobTranslationMemory(
+    dynamoClient,
+    s3Client,
+    TRANSLATION_MEMORY_TABLE,
+    CHUNKS_BUCKET,
+    job,
+    targetLanguage
+  );
+
+  logger.info('Translation memory recorded', { jobId, recordedSegments, skippedChunks });
+
+  return { jobId, recordedSegments, skippedChunks };
+};
@@ -1,10 +1,12 @@
 /**
  * Translate Chunk Lambda Function
- * Translates individual document chunks using Gemini API
+ * Translates individual document chunks with the job's LLM provider
+ * (Gemini by default, or Anthropic when selected at startTranslation)
  * Manages context from previous chunks for translation continuity
  */
 
 import {
+  ConditionalCheckFailedException,
   DynamoDBClient,
   GetItemCommand,
   GetItemCommandOutput,
@@ -12,32 +14,93 @@ import {
 } from '@aws-sdk/client-dynamodb';
 import {
   S3Client,
+  CopyObjectCommand,
   GetObjectCommand,
   GetObjectCommandOutput,
   PutObjectCommand,
 } from '@aws-sdk/client-s3';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
-import { GeminiClient } from './geminiClient';
+import { mockConfigFromEnv } from './mockGenAI';
+import { getMockProvider, getProvider, getRateLimiter, resetProviders } from './providers';
 import { DistributedRateLimiter } from '../shared/distributedRateLimiter';
-import { GEMINI_RATE_LIMITS, RateLimitType, RateLimitError } from '../shared/types/rateLimiting';
-import { TranslationOptions, TranslationContext, GeminiApiError } from './types';
-import type { TranslationTone } from '@lfmt/shared-types';
+import { RateLimitType, RateLimitError } from '../shared/types/rateLimiting';
+import {
+  TranslationOptions,
+  TranslationContext,
+  TranslationResult,
+  TranslationApiError,
+  TranslationProvider,
+  isValidTargetLanguage,
+} from './types';
+import {
+  DEFAULT_TRANSLATION_MODELS,
+  DEFAULT_TRANSLATION_PROVIDER,
+  LANGUAGE_CODES,
+  MAX_CONTEXT_CHUNKS,
+} from '@lfmt/shared-types';
+import type {
+  ParagraphAlignment,
+  QualityFlag,
+  RevisionAlignment,
+  SubtitleFormat,
+  TranslationBrief,
+  TranslationContextMode,
+  TranslationProviderName,
+  TranslationTone,
+} from '@lfmt/shared-types';
 import Logger from '../shared/logger';
 import { getRequiredEnv } from '../shared/env';
+import type { ChunkRetranslation } from '../shared/translationExecution';
 import { countTokens } from '../shared/tokenizer';
+import { loadGlossaryForUser } from '../shared/glossaryRepository';
+import { validateSubtitleTranslation } from '../shared/subtitles';
+import { buildBriefUpdatePrompt, loadBrief, parseBrief, storeBrief } from './translationBrief';
+import { lookupTranslationMemory, splitSegments } from './translationMemory';
+import type { MemoryMatch } from './translationMemory';
+import { assessChunkQuality } from './qualityCheck';
 
 const logger = new Logger('lfmt-translate-chunk');
 const dynamoClient = new DynamoDBClient({});
 const s3Client = new S3Client({});
 
 const JOBS_TABLE = getRequiredEnv('JOBS_TABLE');
+const GLOSSARIES_TABLE = getRequiredEnv('GLOSSARIES_TABLE');
+const TRANSLATION_MEMORY_TABLE = getRequiredEnv('TRANSLATION_MEMORY_TABLE');
 const CHUNKS_BUCKET = getRequiredEnv('CHUNKS_BUCKET');
-const GEMINI_API_KEY_SECRET = getRequiredEnv('GEMINI_API_KEY_SECRET_NAME');
-const RATE_LIMIT_BUCKETS_TABLE = getRequiredEnv('RATE_LIMIT_BUCKETS_TABLE');
+// Offline pseudo-translation for local runs and CI (see mockGenAI.ts).
+const MOCK_TRANSLATION = mockConfigFromEnv();
+
+/**
+ * Requests per subtitle chunk before a response that keeps breaking the cue
+ * structure fails the job. Models occasionally merge two short cues; asking
+ * again usually fixes it, asking a third time rarely does.
+ */
+const SUBTITLE_TRANSLATION_ATTEMPTS = 2;
+
+/**
+ * Paragraphs translated at once when a prose chunk falls back to
+ * paragraph-by-paragraph translation (see alignChunkParagraphs).
+ */
+const PARAGRAPH_FALLBACK_CONCURRENCY = 4;
 
-// Singleton instances (reused across invocations)
-let geminiClient: GeminiClient | null = null;
-let distributedRateLimiter: DistributedRateLimiter | null = null;
+/**
+ * Sequential context: how many preceding translations a chunk sees by
+ * default (at most MAX_CONTEXT_CHUNKS), and how much of the end of each is
+ * kept. Only the tail matters for continuity, and the whole of every
+ * previous chunk would double the prompt.
+ */
+const DEFAULT_CONTEXT_CHUNKS = 2;
+const CONTEXT_TAIL_CHARS = 6000;
+
+/** Fuzzy translation memory matches passed to the model per chunk. */
+const MAX_MEMORY_REFERENCES = 8;
+
+/**
+ * Guards the job updates of a chunk against a pause or cancel that
+ * happened while it was being translated (see controlTranslation.ts).
+ */
+const STILL_RUNNING_CONDITION = 'NOT translationStatus IN (:paused, :cancelled)';
+const STOPPED_STATUS_VALUES = { ':paused': 'PAUSED', ':cancelled': 'CANCELLED' };
 
 // Test-only override: set via setRateLimiterForTesting(); cleared by resetClients()
 let _testRateLimiter: DistributedRateLimiter | null = null;
@@ -46,8 +109,7 @@ let _testRateLimiter: DistributedRateLimiter | null = null;
  * Reset singleton instances (for testing)
  */
 export function resetClients(): void {
-  geminiClient = null;
-  distributedRateLimiter = null;
+  resetProviders();
   _testRateLimiter = null;
 }
 
@@ -73,6 +135,19 @@ export interface TranslateChunkEvent {
   // of truth shared with the frontend TONE_OPTIONS and startTranslation.ts.
   tone?: TranslationTone;
   contextChunks?: number; // Number of previous chunks to use as context (default: 2)
+  // `sequential` runs with a Map concurrency of 1 and feeds the stored
+  // translations of the previous chunks into the prompt; `parallel` (or
+  // absent, for executions started before the mode existed) uses the
+  // source-side previousSummary written at chunking time.
+  contextMode?: TranslationContextMode;
+  // Project glossary to enforce. startTranslation always threads the key
+  // through the state machine input (null when no glossary was requested)
+  // because a missing JsonPath would fail the Map iteration.
+  glossaryId?: string | null;
+  // Set when POST /jobs/{jobId}/recover or .../retranslate runs the chunk
+  // again (see shared/translationExecution.ts); null or absent on a first
+  // translation.
+  retranslation?: ChunkRetranslation | null;
 }
 
 /**
@@ -112,56 +187,103 @@ export const handler = async (event: TranslateChunkEvent): Promise<TranslateChun
   });
 
   try {
-    // Initialize clients (singleton pattern for Lambda container reuse)
-    if (!geminiClient) {
-      geminiClient = new GeminiClient({
-        apiKeySecretName: GEMINI_API_KEY_SECRET,
-        model: 'gemini-2.5-flash',
-        maxRetries: 3,
-      });
-      await geminiClient.initialize();
-    }
-
-    // Use test-injected rate limiter (unit tests only) or initialize singleton
-    let rateLimiter: DistributedRateLimiter;
-    if (_testRateLimiter) {
-      rateLimiter = _testRateLimiter;
-    } else {
-      if (!distributedRateLimiter) {
-        distributedRateLimiter = new DistributedRateLimiter({
-          tableName: RATE_LIMIT_BUCKETS_TABLE,
-          apiId: GEMINI_RATE_LIMITS.apiId,
-          rpm: GEMINI_RATE_LIMITS.rpm,
-          tpm: GEMINI_RATE_LIMITS.tpm,
-          rpd: GEMINI_RATE_LIMITS.rpd,
-        });
-      }
-      rateLimiter = distributedRateLimiter;
-    }
-
     // Validate input
     validateEvent(event);
 
     // Load job metadata from DynamoDB
     const job = await loadJob(event.jobId, event.userId);
 
+    // Jobs started before provider selection existed carry neither field.
+    const providerName: TranslationProviderName =
+      job.translationProvider ?? DEFAULT_TRANSLATION_PROVIDER;
+    const model: string = job.translationModel ?? DEFAULT_TRANSLATION_MODELS[providerName];
+    const provider = MOCK_TRANSLATION
+      ? await getMockProvider(MOCK_TRANSLATION, event.chunkIndex)
+      : await getProvider(providerName, model);
+
+    // Use test-injected rate limiter (unit tests only) or initialize singleton.
+    // The offline mock draws on no vendor quota, so it is not rate limited.
+    const rateLimiter =
+      _testRateLimiter ?? (MOCK_TRANSLATION ? null : getRateLimiter(providerName));
+
     // Verify job is in correct state
     if (job.status !== 'CHUNKED' && job.translationStatus !== 'IN_PROGRESS') {
       throw new Error(`Job ${event.jobId} is not ready for translation (status: ${job.status})`);
     }
 
+    // A revision chunk whose source did not change keeps the previous
+    // revision's translation (see chunkDocument.ts), with no provider call
+    // — unless the user asked for this chunk to be translated again.
+    const reusedKey = event.retranslation ? null : await reusePreviousTranslation(job, event);
+    if (reusedKey) {
+      await updateJobProgress(event.jobId, event.userId, {
+        currentTranslatedChunks: job.translatedChunks || 0,
+        totalChunks: job.totalChunks,
+        tokensUsedDelta: 0,
+        estimatedCostDelta: 0,
+        memory: null,
+        chunkIndex: event.chunkIndex,
+      });
+
+      return {
+        success: true,
+        jobId: event.jobId,
+        chunkIndex: event.chunkIndex,
+        translatedKey: reusedKey,
+        tokensUsed: 0,
+        estimatedCost: 0,
+        processingTimeMs: Date.now() - startTime,
+      };
+    }
+
     // Load current chunk from S3 (includes pre-calculated previousSummary)
     const chunk = await loadChunk(job, event.chunkIndex);
 
-    // Use pre-calculated context from chunk metadata (parallel-safe)
-    // This eliminates sequential dependency on previous chunk translations
-    const context: TranslationContext = {
-      previousChunks: chunk.previousSummary ? [chunk.previousSummary] : [],
-      contextTokens: chunk.previousSummary ? countTokens(chunk.previousSummary) : 0,
-    };
+    // Parallel: pre-calculated source context from chunk metadata, which
+    // carries no dependency on other chunks' translations. Sequential: the
+    // previous chunks' actual translations, which the state machine
+    // guarantees are stored by running one chunk at a time.
+    const context: TranslationContext =
+      event.contextMode === 'sequential'
+        ? await loadPreviousTranslations(
+            event.jobId,
+            event.chunkIndex,
+            event.contextChunks ?? DEFAULT_CONTEXT_CHUNKS
+          )
+        : {
+            previousChunks: chunk.previousSummary ? [chunk.previousSummary] : [],
+            contextTokens: chunk.previousSummary ? countTokens(chunk.previousSummary) : 0,
+          };
+
+    // Translation memory brief, when the job was started with one. A brief
+    // that failed to generate is not fatal (see buildTranslationBrief.ts);
+    // a rolling job then builds one up from this chunk on.
+    if (job.translationBriefMode === 'initial' || job.translationBriefMode === 'rolling') {
+      const brief = await loadBrief(s3Client, CHUNKS_BUCKET, event.jobId);
+      if (brief) {
+        context.brief = brief;
+      } else {
+        logger.warn('Translation brief not found, translating without it', {
+          jobId: event.jobId,
+          chunkIndex: event.chunkIndex,
+        });
+      }
+    }
+
+    // Translation memory, for prose: paragraphs the user's earlier jobs
+    // translated are reused as stored, and edited versions of them go to the
+    // model as references. Subtitle chunks are validated cue by cue against
+    // their source, so they are always translated whole.
+    const memory = job.subtitleFormat ? null : await planMemoryReuse(chunk.primaryContent, event);
+    if (memory && memory.references.length > 0) {
+      context.memoryMatches = memory.references;
+    }
+    const pendingText = memory
+      ? pendingSegmentText(chunk.primaryContent, memory)
+      : chunk.primaryContent;
 
     // Estimate token count for rate limiting
-    const estimatedTokens = estimateTokens(chunk.primaryContent, context);
+    const estimatedTokens = estimateTokens(pendingText, context);
 
     logger.info('Estimated token usage', {
       estimatedTokens,
@@ -170,9 +292,12 @@ export const handler = async (event: TranslateChunkEvent): Promise<TranslateChun
       hasContext: context.previousChunks.length > 0,
     });
 
-    // Acquire rate limit tokens before making API call
+    // Acquire rate limit tokens before making API call (none when every
+    // paragraph comes from the translation memory)
     try {
-      await rateLimiter.acquire(estimatedTokens, RateLimitType.TPM);
+      if (pendingText) {
+        await rateLimiter?.acquire(estimatedTokens, RateLimitType.TPM);
+      }
     } catch (error) {
       if (error instanceof RateLimitError) {
         logger.warn('Rate limit exceeded, returning retryable error', {
@@ -194,44 +319,125 @@ export const handler = async (event: TranslateChunkEvent): Promise<TranslateChun
       throw error;
     }
 
+    // Load the project glossary, if one was requested. A glossary deleted
+    // after startTranslation validated it is a non-retryable failure: the
+    // user asked for enforced terminology and silently dropping it would
+    // produce exactly the inconsistent output the glossary exists to prevent.
+    let glossaryTerms: TranslationOptions['glossaryTerms'];
+    if (event.glossaryId) {
+      const glossary = await loadGlossaryForUser(
+        dynamoClient,
+        GLOSSARIES_TABLE,
+        event.glossaryId,
+        event.userId
+      );
+      if (!glossary) {
+        throw new Error(`Glossary not found: ${event.glossaryId}`);
+      }
+      glossaryTerms = glossary.terms;
+    }
+
     // Translate the chunk
     const translationOptions: TranslationOptions = {
       targetLanguage: event.targetLanguage as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+      // Detected at chunking time or overridden at startTranslation;
+      // absent on jobs chunked before detection existed.
+      sourceLanguage: job.sourceLanguage,
       tone: event.tone,
       preserveFormatting: true,
+      glossaryTerms,
+      // Set by chunkDocument for .srt / .vtt uploads.
+      subtitleFormat: job.subtitleFormat,
+      additionalInstructions: event.retranslation?.instructions ?? undefined,
     };
 
-    const result = await geminiClient.translate(chunk.primaryContent, translationOptions, context);
+    const { result: translated, reuse } = memory
+      ? await translateWithMemory(
+          provider,
+          rateLimiter,
+          chunk.primaryContent,
+          memory,
+          translationOptions,
+          context,
+          event
+        )
+      : {
+          result: await translateSubtitleChunk(
+            provider,
+            rateLimiter,
+            chunk.primaryContent,
+            job.subtitleFormat,
+            translationOptions,
+            context,
+            event
+          ),
+          reuse: null,
+        };
+
+    // Prose paragraphs must pair up with the source's for the side-by-side
+    // viewer; subtitle cues were already checked one by one.
+    const { result, alignment } = job.subtitleFormat
+      ? { result: translated, alignment: null }
+      : await alignChunkParagraphs(
+          provider,
+          rateLimiter,
+          chunk.primaryContent,
+          translated,
+          translationOptions,
+          context,
+          event
+        );
 
     logger.info('Translation completed', {
       jobId: event.jobId,
       chunkIndex: event.chunkIndex,
+      provider: provider.name,
+      model: provider.model,
       tokensUsed: result.tokensUsed.total,
       estimatedCost: result.estimatedCost,
       processingTimeMs: result.processingTimeMs,
+      reusedSegments: reuse?.reusedSegments,
     });
 
     // Store translated chunk to S3.
     // Metadata is passed in its natural shape (numbers for tokensUsed /
     // estimatedCost) — storeTranslatedChunk performs the String() coercion
     // internally so callers cannot accidentally re-introduce issue #172.
-    // The `?? 0` fallbacks defend against a future change in geminiClient.ts
-    // that drops its own `?? 0` guard (currently at geminiClient.ts:159-166):
-    // without them, a missing Gemini metadata field would silently coerce to
-    // the literal string "undefined" downstream of the helper.
+    // The `?? 0` fallbacks defend against a future change in a provider
+    // client that drops its own `?? 0` guard on usage metadata: without
+    // them, a missing field would silently coerce to the literal string
+    // "undefined" downstream of the helper.
     const translatedKey = await storeTranslatedChunk(
       event.jobId,
       event.chunkIndex,
       result.translatedText,
       {
-        sourceLanguage: 'en', // Assuming English source
+        sourceLanguage: job.sourceLanguage ?? 'unknown',
         targetLanguage: event.targetLanguage,
         tokensUsed: result.tokensUsed.total ?? 0,
         estimatedCost: result.estimatedCost ?? 0,
+        provider: provider.name,
+        model: provider.model,
         translatedAt: new Date().toISOString(),
+        paragraphAlignment: alignment ?? undefined,
       }
     );
 
+    // Rolling brief: fold what this chunk revealed into the brief for the
+    // next one. Sequential jobs only (startTranslation enforces it), so no
+    // other chunk is writing the brief concurrently.
+    const briefUsage =
+      job.translationBriefMode === 'rolling'
+        ? await reviseBrief(
+            provider,
+            rateLimiter,
+            context.brief,
+            chunk.primaryContent,
+            result.translatedText,
+            event
+          )
+        : { tokens: 0, cost: 0 };
+
     // Update job progress in DynamoDB.
     // CRITICAL (issue #168): tokensUsed and estimatedCost MUST be passed as
     // per-chunk DELTAS (not pre-computed running totals from the job we
@@ -253,10 +459,23 @@ export const handler = async (event: TranslateChunkEvent): Promise<TranslateChun
     await updateJobProgress(event.jobId, event.userId, {
       currentTranslatedChunks: job.translatedChunks || 0, // for IN_PROGRESS-vs-COMPLETED hint only
       totalChunks: job.totalChunks,
-      tokensUsedDelta: result.tokensUsed.total,
-      estimatedCostDelta: result.estimatedCost,
+      tokensUsedDelta: result.tokensUsed.total + briefUsage.tokens,
+      estimatedCostDelta: result.estimatedCost + briefUsage.cost,
+      memory: reuse,
+      chunkIndex: event.chunkIndex,
     });
 
+    // Automatic quality pass (see qualityCheck.ts). Flags are advisory:
+    // they point the user at the part to read, and never fail the chunk.
+    const qualityFlags = assessChunkQuality({
+      source: chunk.primaryContent,
+      translation: result.translatedText,
+      sourceLanguage: job.sourceLanguage,
+      targetLanguage: event.targetLanguage,
+      finishReason: result.finishReason,
+    });
+    await recordQualityFlags(event, qualityFlags);
+
     return {
       success: true,
       jobId: event.jobId,
@@ -278,15 +497,17 @@ export const handler = async (event: TranslateChunkEvent): Promise<TranslateChun
     });
 
     // Determine if error is retryable
-    const retryable = error instanceof GeminiApiError ? error.retryable : false;
+    const retryable = error instanceof TranslationApiError ? error.retryable : false;
 
     // Update job status if error is not retryable and we have a valid jobId and userId
     if (!retryable && event.jobId && event.userId) {
       try {
-        await updateJobStatus(event.jobId, event.userId, 'TRANSLATION_FAILED', {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          failedAt: new Date().toISOString(),
-        });
+        await markChunkFailed(
+          event.jobId,
+          event.userId,
+          event.chunkIndex,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
       } catch (updateError) {
         logger.error('Failed to update job status after translation error', {
           jobId: event.jobId,
@@ -306,6 +527,404 @@ export const handler = async (event: TranslateChunkEvent): Promise<TranslateChun
   }
 };
 
+/**
+ * Translate a chunk of subtitle cues, rejecting any response whose cue count
+ * or timing lines differ from the source (see shared/subtitles.ts).
+ *
+ * A mismatched response is re-requested up to SUBTITLE_TRANSLATION_ATTEMPTS
+ * times, each repeat drawing on the rate limiter like the first request;
+ * token usage and cost cover every attempt. When all attempts fail,
+ * throws a non-retryable TranslationApiError (`SUBTITLE_CUE_MISMATCH`) — a
+ * subtitle file with shifted timings is worse than no translation.
+ */
+async function translateSubtitleChunk(
+  client: TranslationProvider,
+  rateLimiter: DistributedRateLimiter | null,
+  text: string,
+  format: SubtitleFormat,
+  options: TranslationOptions,
+  context: TranslationContext,
+  event: TranslateChunkEvent
+): Promise<TranslationResult> {
+  const usage = { input: 0, output: 0, total: 0, cost: 0 };
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= SUBTITLE_TRANSLATION_ATTEMPTS; attempt++) {
+    // The handler acquired the first attempt's tokens.
+    if (attempt > 1) {
+      await acquireRetryTokens(rateLimiter, estimateTokens(text, context), event);
+    }
+    const result = await client.translate(text, options, context);
+    usage.input += result.tokensUsed.input;
+    usage.output += result.tokensUsed.output;
+    usage.total += result.tokensUsed.total;
+    usage.cost += result.estimatedCost;
+
+    const validation = validateSubtitleTranslation(text, result.translatedText, format);
+    if (validation.isValid) {
+      return {
+        ...result,
+        tokensUsed: { input: usage.input, output: usage.output, total: usage.total },
+        estimatedCost: usage.cost,
+      };
+    }
+
+    errors = validation.errors;
+    logger.warn('Translated subtitle cues do not match the source', {
+      jobId: event.jobId,
+      chunkIndex: event.chunkIndex,
+      attempt,
+      errors,
+    });
+  }
+
+  throw new TranslationApiError(
+    `Translated subtitles do not match the source cues: ${errors.join('; ')}`,
+    200,
+    'SUBTITLE_CUE_MISMATCH',
+    false
+  );
+}
+
+/**
+ * Make a prose translation's paragraphs line up with its source's. A
+ * response whose paragraph count differs (the model merged or split
+ * paragraphs) is re-requested once with the count spelled out; if that
+ * still differs, each source paragraph is translated on its own. Token
+ * usage and cost cover every request.
+ *
+ * Returns the translation with its ParagraphAlignment — null when every
+ * source paragraph maps to exactly one translated paragraph, which is
+ * always the case unless a paragraph translated on its own came back in
+ * several.
+ */
+async function alignChunkParagraphs(
+  provider: TranslationProvider,
+  rateLimiter: DistributedRateLimiter | null,
+  text: string,
+  translated: TranslationResult,
+  options: TranslationOptions,
+  context: TranslationContext,
+  event: TranslateChunkEvent
+): Promise<{ result: TranslationResult; alignment: ParagraphAlignment | null }> {
+  const paragraphs = splitSegments(text);
+  const received = splitSegments(translated.translatedText).length;
+  // A single source paragraph pairs with the whole translation.
+  if (paragraphs.length <= 1 || received === paragraphs.length) {
+    return { result: translated, alignment: null };
+  }
+
+  logger.warn('Translated paragraphs do not line up with the source, asking again', {
+    jobId: event.jobId,
+    chunkIndex: event.chunkIndex,
+    expected: paragraphs.length,
+    received,
+  });
+  await acquireRetryTokens(rateLimiter, estimateTokens(text, context), event);
+  const strict = await provider.translate(
+    text,
+    { ...options, paragraphCount: paragraphs.length },
+    context
+  );
+  const attempts = [translated, strict];
+  if (splitSegments(strict.translatedText).length === paragraphs.length) {
+    return { result: combineAttempts(strict, attempts), alignment: null };
+  }
+
+  logger.warn('Paragraphs still do not line up, translating them one by one', {
+    jobId: event.jobId,
+    chunkIndex: event.chunkIndex,
+    expected: paragraphs.length,
+    received: splitSegments(strict.translatedText).length,
+  });
+  // The brief and glossary still apply; the previous chunks would be sent
+  // once per paragraph, so they are left out.
+  const paragraphContext: TranslationContext = {
+    previousChunks: [],
+    contextTokens: 0,
+    brief: context.brief,
+  };
+  const parts: TranslationResult[] = [];
+  for (let i = 0; i < paragraphs.length; i += PARAGRAPH_FALLBACK_CONCURRENCY) {
+    const batch = paragraphs.slice(i, i + PARAGRAPH_FALLBACK_CONCURRENCY);
+    parts.push(
+      ...(await Promise.all(
+        batch.map(async (paragraph) => {
+          await acquireRetryTokens(rateLimiter, estimateTokens(paragraph, paragraphContext), event);
+          return provider.translate(paragraph, { ...options, paragraphCount: 1 }, paragraphContext);
+        })
+      ))
+    );
+  }
+
+  const rendered = parts.map((part) => splitSegments(part.translatedText));
+  const alignment = rendered.map((segments) => segments.length);
+  const truncated = parts.find((part) => part.finishReason === 'MAX_TOKENS');
+  return {
+    result: {
+      ...combineAttempts(parts[parts.length - 1], [...attempts, ...parts]),
+      translatedText: rendered.map((segments) => segments.join('\n\n')).join('\n\n'),
+      finishReason: truncated?.finishReason ?? parts[parts.length - 1].finishReason,
+    },
+    alignment: alignment.every((count) => count === 1) ? null : alignment,
+  };
+}
+
+/**
+ * Acquire rate limit tokens for a request beyond the chunk's first (a
+ * subtitle repair, a whole-chunk fallback from the translation memory or
+ * a paragraph realignment). A spent budget is rethrown
+ * as a retryable TranslationApiError, so the chunk is retried like one
+ * that hit the limit before its first request rather than failing the job.
+ */
+async function acquireRetryTokens(
+  rateLimiter: DistributedRateLimiter | null,
+  tokens: number,
+  event: TranslateChunkEvent
+): Promise<void> {
+  try {
+    await rateLimiter?.acquire(tokens, RateLimitType.TPM);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      logger.warn('Rate limit exceeded before a repeated request, returning retryable error', {
+        jobId: event.jobId,
+        chunkIndex: event.chunkIndex,
+        error: error.message,
+        retryAfterMs: error.retryAfterMs,
+      });
+      throw new TranslationApiError(error.message, 429, 'RATE_LIMIT_EXCEEDED', true);
+    }
+    throw error;
+  }
+}
+
+/** `result`, billed for every request in `attempts`. */
+function combineAttempts(
+  result: TranslationResult,
+  attempts: TranslationResult[]
+): TranslationResult {
+  return {
+    ...result,
+    tokensUsed: {
+      input: attempts.reduce((sum, attempt) => sum + attempt.tokensUsed.input, 0),
+      output: attempts.reduce((sum, attempt) => sum + attempt.tokensUsed.output, 0),
+      total: attempts.reduce((sum, attempt) => sum + attempt.tokensUsed.total, 0),
+    },
+    estimatedCost: attempts.reduce((sum, attempt) => sum + attempt.estimatedCost, 0),
+    processingTimeMs: attempts.reduce((sum, attempt) => sum + attempt.processingTimeMs, 0),
+  };
+}
+
+/**
+ * A chunk's paragraphs matched against the translation memory.
+ */
+interface MemoryPlan {
+  segments: string[];
+  /** Stored translation per paragraph; null where the model translates it. */
+  reused: Array<string | null>;
+  /** Fuzzy matches for the model, most similar first. */
+  references: MemoryMatch[];
+}
+
+/**
+ * Translation memory counters of one chunk, added to the job's totals.
+ */
+interface MemoryReuse {
+  segments: number;
+  reusedSegments: number;
+  savedTokens: number;
+}
+
+/**
+ * Look a chunk's paragraphs up in the user's translation memory. The
+ * memory saves cost but is not needed to translate, so a failed lookup is
+ * logged and the chunk is translated as if nothing matched.
+ */
+async function planMemoryReuse(text: string, event: TranslateChunkEvent): Promise<MemoryPlan> {
+  const segments = splitSegments(text);
+  let matches: Array<MemoryMatch | null> = [];
+
+  try {
+    matches = await lookupTranslationMemory(
+      dynamoClient,
+      TRANSLATION_MEMORY_TABLE,
+      event.userId,
+      event.targetLanguage,
+      segments
+    );
+  } catch (error) {
+    logger.warn('Translation memory lookup failed, translating without it', {
+      jobId: event.jobId,
+      chunkIndex: event.chunkIndex,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  // A retranslation is asked for because the stored translation is not
+  // good enough — and the memory most likely holds that very translation.
+  const reuseExact = !event.retranslation;
+
+  return {
+    segments,
+    reused: segments.map((_, i) =>
+      reuseExact && matches[i]?.similarity === 1 ? matches[i].translation : null
+    ),
+    references: matches
+      .filter((match): match is MemoryMatch => match !== null && match.similarity < 1)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_MEMORY_REFERENCES),
+  };
+}
+
+/**
+ * The text the model still has to translate: the paragraphs without a
+ * stored translation, or the chunk as-is when none has one (so a chunk
+ * the memory does not touch keeps its original spacing).
+ */
+function pendingSegmentText(text: string, memory: MemoryPlan): string {
+  if (memory.reused.every((translation) => translation === null)) {
+    return text;
+  }
+  return memory.segments.filter((_, i) => memory.reused[i] === null).join('\n\n');
+}
+
+/**
+ * Translate a prose chunk, reusing the stored translations of the
+ * paragraphs the memory matched exactly and sending only the others.
+ *
+ * The model's answer is split back into paragraphs and interleaved with
+ * the stored ones. If it merged or split a paragraph the two can no longer
+ * be lined up, so the whole chunk is translated instead — drawing on the
+ * rate limiter again, since the handler only acquired tokens for the
+ * unmatched paragraphs. Usage then covers both requests and nothing counts
+ * as reused.
+ */
+async function translateWithMemory(
+  provider: TranslationProvider,
+  rateLimiter: DistributedRateLimiter | null,
+  text: string,
+  memory: MemoryPlan,
+  options: TranslationOptions,
+  context: TranslationContext,
+  event: TranslateChunkEvent
+): Promise<{ result: TranslationResult; reuse: MemoryReuse }> {
+  const pendingText = pendingSegmentText(text, memory);
+  const pendingCount = memory.reused.filter((translation) => translation === null).length;
+  const reusedSegments = memory.segments.length - pendingCount;
+  const noReuse: MemoryReuse = {
+    segments: memory.segments.length,
+    reusedSegments: 0,
+    savedTokens: 0,
+  };
+
+  if (reusedSegments === 0) {
+    return { result: await provider.translate(text, options, context), reuse: noReuse };
+  }
+
+  const savedTokens = memory.segments.reduce((sum, segment, i) => {
+    const stored = memory.reused[i];
+    return stored === null ? sum : sum + countTokens(segment) + countTokens(stored);
+  }, 0);
+  const reuse: MemoryReuse = { segments: memory.segments.length, reusedSegments, savedTokens };
+
+  if (pendingCount === 0) {
+    return {
+      result: {
+        translatedText: memory.reused.join('\n\n'),
+        targetLanguage: options.targetLanguage,
+        tokensUsed: { input: 0, output: 0, total: 0 },
+        estimatedCost: 0,
+        processingTimeMs: 0,
+      },
+      reuse,
+    };
+  }
+
+  const partial = await provider.translate(pendingText, options, context);
+  const translated = splitSegments(partial.translatedText);
+  if (translated.length === pendingCount) {
+    let next = 0;
+    return {
+      result: {
+        ...partial,
+        translatedText: memory.reused.map((stored) => stored ?? translated[next++]).join('\n\n'),
+      },
+      reuse,
+    };
+  }
+
+  logger.warn('Translated paragraphs do not line up with the memory, translating the whole chunk', {
+    jobId: event.jobId,
+    chunkIndex: event.chunkIndex,
+    expected: pendingCount,
+    received: translated.length,
+  });
+  await acquireRetryTokens(rateLimiter, estimateTokens(text, context), event);
+  const full = await provider.translate(text, options, context);
+  return {
+    result: {
+      ...full,
+      tokensUsed: {
+        input: partial.tokensUsed.input + full.tokensUsed.input,
+        output: partial.tokensUsed.output + full.tokensUsed.output,
+        total: partial.tokensUsed.total + full.tokensUsed.total,
+      },
+      estimatedCost: partial.estimatedCost + full.estimatedCost,
+    },
+    reuse: noReuse,
+  };
+}
+
+/**
+ * Revise the job's brief with a translated chunk and store it (rolling
+ * brief mode). Best-effort: the chunk is already translated and stored, so
+ * a failed revision is logged and the next chunk sees the previous brief.
+ * Returns the usage to add to the job's totals.
+ */
+async function reviseBrief(
+  provider: TranslationProvider,
+  rateLimiter: DistributedRateLimiter | null,
+  brief: TranslationBrief | undefined,
+  sourceText: string,
+  translatedText: string,
+  event: TranslateChunkEvent
+): Promise<{ tokens: number; cost: number }> {
+  const current: TranslationBrief = brief ?? {
+    characters: [],
+    style: '',
+    plotSummary: '',
+    updatedThroughChunk: -1,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    const prompt = buildBriefUpdatePrompt(
+      current,
+      sourceText,
+      translatedText,
+      event.targetLanguage as TranslationOptions['targetLanguage']
+    );
+    await rateLimiter?.acquire(countTokens(prompt), RateLimitType.TPM);
+    const result = await provider.complete(prompt);
+    const revised = parseBrief(result.text, event.chunkIndex);
+    await storeBrief(s3Client, CHUNKS_BUCKET, event.jobId, revised);
+
+    logger.info('Translation brief revised', {
+      jobId: event.jobId,
+      chunkIndex: event.chunkIndex,
+      characters: revised.characters.length,
+    });
+    return { tokens: result.tokensUsed.total, cost: result.estimatedCost };
+  } catch (error) {
+    logger.warn('Failed to revise translation brief, keeping the previous one', {
+      jobId: event.jobId,
+      chunkIndex: event.chunkIndex,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { tokens: 0, cost: 0 };
+  }
+}
+
 /**
  * Validate translation event
  */
@@ -326,12 +945,20 @@ function validateEvent(event: TranslateChunkEvent): void {
     throw new Error('targetLanguage is required');
   }
 
-  const validLanguages = ['es', 'fr', 'it', 'de', 'zh'];
-  if (!validLanguages.includes(event.targetLanguage)) {
+  if (!isValidTargetLanguage(event.targetLanguage)) {
     throw new Error(
-      `Invalid targetLanguage: ${event.targetLanguage}. Must be one of: ${validLanguages.join(', ')}`
+      `Invalid targetLanguage: ${event.targetLanguage}. Must be one of: ${LANGUAGE_CODES.join(', ')}`
     );
   }
+
+  if (
+    event.contextChunks !== undefined &&
+    (!Number.isInteger(event.contextChunks) ||
+      event.contextChunks < 0 ||
+      event.contextChunks > MAX_CONTEXT_CHUNKS)
+  ) {
+    throw new Error(`contextChunks must be an integer between 0 and ${MAX_CONTEXT_CHUNKS}`);
+  }
 }
 
 /**
@@ -397,18 +1024,92 @@ async function loadChunk(
 }
 
 /**
- * Load translation context from previous translated chunks
- * DEPRECATED: This function is no longer used in parallel translation mode.
- * Context is now pre-calculated during chunking phase and stored in chunk.previousSummary.
- * Keeping this function for reference only - it will be removed in future cleanup.
+ * Copy the previous revision's translation of an unchanged chunk into place.
+ * Returns the translated key, or null when the chunk has to be translated:
+ * it changed, the job is not a revision, or the revision is translated into
+ * a different language than the previous one.
  */
+async function reusePreviousTranslation(
+  job: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+  event: TranslateChunkEvent
+): Promise<string | null> {
+  const alignment: RevisionAlignment | undefined = job.revisionAlignment;
+  const previousIndex = alignment?.reusedFrom[event.chunkIndex] ?? -1;
+  if (!alignment || alignment.targetLanguage !== event.targetLanguage || previousIndex < 0) {
+    return null;
+  }
+
+  const key = `translated/${event.jobId}/chunk-${event.chunkIndex}.txt`;
+  await s3Client.send(
+    new CopyObjectCommand({
+      Bucket: CHUNKS_BUCKET,
+      CopySource: `${CHUNKS_BUCKET}/revisions/${event.jobId}/${alignment.previousRevision}/chunk-${previousIndex}.txt`,
+      Key: key,
+    })
+  );
+
+  logger.info('Reused translation from previous revision', {
+    jobId: event.jobId,
+    chunkIndex: event.chunkIndex,
+    previousRevision: alignment.previousRevision,
+    previousIndex,
+  });
+
+  return key;
+}
+
+/**
+ * Load the stored translations of the `count` chunks before `chunkIndex`
+ * (sequential context mode), oldest first, keeping the last
+ * CONTEXT_TAIL_CHARS of each.
+ *
+ * A missing translation means the state machine did not run the chunks in
+ * order — retrying this chunk cannot fix that, so it fails the job rather
+ * than quietly translating without the context the user asked for.
+ */
+async function loadPreviousTranslations(
+  jobId: string,
+  chunkIndex: number,
+  count: number
+): Promise<TranslationContext> {
+  const previousChunks: string[] = [];
+
+  for (let index = Math.max(0, chunkIndex - count); index < chunkIndex; index++) {
+    let response: GetObjectCommandOutput;
+    try {
+      response = await s3Client.send(
+        new GetObjectCommand({
+          Bucket: CHUNKS_BUCKET,
+          Key: `translated/${jobId}/chunk-${index}.txt`,
+        })
+      );
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new Error(
+          `Sequential context mode requires chunk ${index} to be translated before chunk ${chunkIndex}`
+        );
+      }
+      throw error;
+    }
+
+    const text = (await response.Body?.transformToString()) ?? '';
+    previousChunks.push(text.slice(-CONTEXT_TAIL_CHARS));
+  }
+
+  return {
+    previousChunks,
+    contextTokens: previousChunks.reduce((sum, text) => sum + countTokens(text), 0),
+    source: 'translation',
+  };
+}
 
 /**
  * Estimate total tokens for rate limiting
  */
 function estimateTokens(content: string, context: TranslationContext): number {
   const contentTokens = countTokens(content);
-  const contextTokens = context.contextTokens;
+  const contextTokens =
+    context.contextTokens + (context.brief ? countTokens(JSON.stringify(context.brief)) : 0);
   const promptOverhead = 200; // Estimated tokens for prompt instructions
 
   return contentTokens + contextTokens + promptOverhead;
@@ -433,7 +1134,11 @@ interface S3ChunkMetadata {
   targetLanguage: string;
   tokensUsed: number; // coerced to string before signing
   estimatedCost: number; // coerced to string before signing
+  provider: TranslationProviderName;
+  model: string;
   translatedAt: string; // ISO timestamp
+  /** Omitted when every source paragraph maps to one translated paragraph. */
+  paragraphAlignment?: ParagraphAlignment; // comma-joined before signing
 }
 
 /**
@@ -463,9 +1168,14 @@ async function storeTranslatedChunk(
     targetLanguage: String(metadata.targetLanguage),
     tokensUsed: String(metadata.tokensUsed),
     estimatedCost: String(metadata.estimatedCost),
+    provider: String(metadata.provider),
+    model: String(metadata.model),
     translatedAt: String(metadata.translatedAt),
     chunkIndex: String(chunkIndex),
     jobId: String(jobId),
+    ...(metadata.paragraphAlignment && {
+      paragraphAlignment: metadata.paragraphAlignment.join(','),
+    }),
   };
 
   const command = new PutObjectCommand({
@@ -529,6 +1239,10 @@ async function updateJobProgress(
     totalChunks: number;
     tokensUsedDelta: number;
     estimatedCostDelta: number;
+    /** Translation memory counters; null for subtitle chunks. */
+    memory: MemoryReuse | null;
+    /** Leaves the failed chunks once translated (see markChunkFailed). */
+    chunkIndex: number;
   }
 ): Promise<void> {
   // Best-effort hint at the post-ADD count for the IN_PROGRESS-vs-COMPLETED
@@ -542,21 +1256,55 @@ async function updateJobProgress(
   const translationStatus =
     progress.currentTranslatedChunks + 1 >= progress.totalChunks ? 'COMPLETED' : 'IN_PROGRESS';
 
-  const command = new UpdateItemCommand({
-    TableName: JOBS_TABLE,
-    Key: marshall({ jobId, userId }),
-    UpdateExpression:
-      'SET translationStatus = :status, updatedAt = :updatedAt ADD translatedChunks :one, tokensUsed :tokens, estimatedCost :cost',
-    ExpressionAttributeValues: marshall({
-      ':status': translationStatus,
-      ':one': 1,
-      ':tokens': progress.tokensUsedDelta,
-      ':cost': progress.estimatedCostDelta,
-      ':updatedAt': new Date().toISOString(),
+  const counters =
+    'ADD translatedChunks :one, tokensUsed :tokens, estimatedCost :cost' +
+    (progress.memory
+      ? ', memorySegments :segments, memoryReusedSegments :reused, memorySavedTokens :saved'
+      : '') +
+    ' DELETE failedChunkIndexes :chunk';
+  const counterValues = {
+    ':one': 1,
+    ':chunk': new Set([progress.chunkIndex]),
+    ':tokens': progress.tokensUsedDelta,
+    ':cost': progress.estimatedCostDelta,
+    ':updatedAt': new Date().toISOString(),
+    ...(progress.memory && {
+      ':segments': progress.memory.segments,
+      ':reused': progress.memory.reusedSegments,
+      ':saved': progress.memory.savedTokens,
     }),
-  });
+  };
 
-  await dynamoClient.send(command);
+  try {
+    await dynamoClient.send(
+      new UpdateItemCommand({
+        TableName: JOBS_TABLE,
+        Key: marshall({ jobId, userId }),
+        UpdateExpression: `SET translationStatus = :status, updatedAt = :updatedAt ${counters}`,
+        ConditionExpression: STILL_RUNNING_CONDITION,
+        ExpressionAttributeValues: marshall({
+          ':status': translationStatus,
+          ...STOPPED_STATUS_VALUES,
+          ...counterValues,
+        }),
+      })
+    );
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+    // Paused or cancelled while this chunk was in flight: stopping the
+    // execution does not stop a running Lambda. Keep the status the owner
+    // set and only count the chunk.
+    await dynamoClient.send(
+      new UpdateItemCommand({
+        TableName: JOBS_TABLE,
+        Key: marshall({ jobId, userId }),
+        UpdateExpression: `SET updatedAt = :updatedAt ${counters}`,
+        ExpressionAttributeValues: marshall(counterValues),
+      })
+    );
+  }
 
   logger.info('Job progress updated', {
     jobId,
@@ -570,43 +1318,92 @@ async function updateJobProgress(
 }
 
 /**
- * Update job status in DynamoDB
- * Additional data and attribute values use any - DynamoDB supports mixed types
+ * Store the chunk's quality flags under `qualityFlags[chunkIndex]`.
+ * A chunk translated again drops the flags of its previous translation
+ * when the new one raises none; a first translation with no flags writes
+ * nothing. Best effort: the map is created by startTranslation, so the
+ * nested write fails on jobs started before the check existed, and a
+ * missing flag must not fail a translated chunk.
+ */
+async function recordQualityFlags(event: TranslateChunkEvent, flags: QualityFlag[]): Promise<void> {
+  if (flags.length === 0 && !event.retranslation) {
+    return;
+  }
+
+  try {
+    await dynamoClient.send(
+      new UpdateItemCommand({
+        TableName: JOBS_TABLE,
+        Key: marshall({ jobId: event.jobId, userId: event.userId }),
+        UpdateExpression:
+          flags.length > 0 ? 'SET qualityFlags.#chunk = :flags' : 'REMOVE qualityFlags.#chunk',
+        ExpressionAttributeNames: { '#chunk': String(event.chunkIndex) },
+        ...(flags.length > 0 && { ExpressionAttributeValues: marshall({ ':flags': flags }) }),
+      })
+    );
+  } catch (error) {
+    logger.warn('Failed to record quality flags', {
+      jobId: event.jobId,
+      chunkIndex: event.chunkIndex,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  if (flags.length > 0) {
+    logger.info('Chunk flagged by quality check', {
+      jobId: event.jobId,
+      chunkIndex: event.chunkIndex,
+      flags: flags.map((flag) => `${flag.type}:${flag.severity}`),
+    });
+  }
+}
+
+/**
+ * Record a chunk's non-retryable failure: the job is TRANSLATION_FAILED and
+ * the chunk joins `failedChunkIndexes`, which POST /jobs/{jobId}/recover
+ * retries. The set is ADDed to because parallel chunks can fail together.
  */
-async function updateJobStatus(
+async function markChunkFailed(
   jobId: string,
   userId: string,
-  status: string,
-  additionalData: Record<string, any> = {} // eslint-disable-line @typescript-eslint/no-explicit-any
+  chunkIndex: number,
+  error: string
 ): Promise<void> {
-  const updateExpression = ['SET #status = :status, updatedAt = :updatedAt'];
-  const expressionAttributeNames: Record<string, string> = {
-    '#status': 'status',
-  };
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const expressionAttributeValues: Record<string, any> = {
-    ':status': status,
-    ':updatedAt': new Date().toISOString(),
-  };
+  const failedAt = new Date().toISOString();
 
-  // Add additional fields
-  Object.entries(additionalData).forEach(([key, value], index) => {
-    const placeholder = `:val${index}`;
-    const attributeName = `#attr${index}`;
-    updateExpression.push(`${attributeName} = ${placeholder}`);
-    expressionAttributeNames[attributeName] = key;
-    expressionAttributeValues[placeholder] = value;
-  });
-
-  const command = new UpdateItemCommand({
-    TableName: JOBS_TABLE,
-    Key: marshall({ jobId, userId }),
-    UpdateExpression: updateExpression.join(', '),
-    ExpressionAttributeNames: expressionAttributeNames,
-    ExpressionAttributeValues: marshall(expressionAttributeValues),
-  });
-
-  await dynamoClient.send(command);
+  try {
+    await dynamoClient.send(
+      new UpdateItemCommand({
+        TableName: JOBS_TABLE,
+        Key: marshall({ jobId, userId }),
+        UpdateExpression:
+          'SET #status = :status, #error = :error, failedAt = :failedAt, updatedAt = :updatedAt ADD failedChunkIndexes :chunk',
+        ConditionExpression: STILL_RUNNING_CONDITION,
+        ExpressionAttributeNames: { '#status': 'status', '#error': 'error' },
+        ExpressionAttributeValues: marshall({
+          ':status': 'TRANSLATION_FAILED',
+          ':error': error,
+          ':failedAt': failedAt,
+          ':updatedAt': failedAt,
+          ':chunk': new Set([chunkIndex]),
+          ...STOPPED_STATUS_VALUES,
+        }),
+      })
+    );
+  } catch (updateError) {
+    if (!(updateError instanceof ConditionalCheckFailedException)) {
+      throw updateError;
+    }
+    // A paused job resumes with every chunk that has no translation, this
+    // one included; a cancelled job is not translated further.
+    logger.info('Job paused or cancelled; chunk failure not recorded', {
+      jobId,
+      userId,
+      chunkIndex,
+    });
+    return;
+  }
 
-  logger.info('Job status updated', { jobId, userId, status });
+  logger.info('Chunk marked as failed', { jobId, userId, chunkIndex });
 }
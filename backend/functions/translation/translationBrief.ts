@@ -0,0 +1,216 @@
+/**
+ * Translation Memory Brief
+ *
+ * A compact per-job summary — characters with their gender and chosen name
+ * rendering, register / voice notes, and a running plot summary — that is
+ * injected into every chunk prompt (see promptBuilder.ts). Chunks are
+ * translated without seeing each other, so without it a character's
+ * pronouns and grammatical gender drift from chunk to chunk.
+ *
+ * buildTranslationBrief.ts writes the initial brief from excerpts of the
+ * source before the first chunk is translated; for `rolling` jobs
+ * translateChunk.ts revises it after every chunk.
+ */
+
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import type {
+  BriefCharacter,
+  BriefCharacterGender,
+  LanguageCode,
+  TranslationBrief,
+} from '@lfmt/shared-types';
+import { LANGUAGE_NAMES } from './types';
+
+/**
+ * Characters of source text the initial brief is written from. Enough to
+ * meet the cast of a novel without spending a long-context request on it.
+ */
+export const BRIEF_SOURCE_BUDGET_CHARS = 40_000;
+
+/** Shortest excerpt worth sending — below this, sample fewer chunks. */
+const MIN_EXCERPT_CHARS = 1_500;
+
+/** Upper bound on the characters kept, so the brief stays compact. */
+const MAX_BRIEF_CHARACTERS = 40;
+
+const GENDERS: readonly BriefCharacterGender[] = ['female', 'male', 'nonbinary', 'unknown'];
+
+const RESPONSE_FORMAT = `Respond with ONLY a JSON object of this shape, no explanations:
+{
+  "characters": [
+    { "name": "<name as written in the source>", "gender": "female" | "male" | "nonbinary" | "unknown", "rendering": "<name in the target language>", "notes": "<role, relationships, form of address>" }
+  ],
+  "style": "<register, narrative person and tense, voice>",
+  "plotSummary": "<what has happened so far, at most 200 words>"
+}`;
+
+/** S3 key of a job's brief in the chunks bucket. */
+export function briefKey(jobId: string): string {
+  return `briefs/${jobId}/brief.json`;
+}
+
+/**
+ * Choose which source chunks the initial brief is written from, and how
+ * much of each, within BRIEF_SOURCE_BUDGET_CHARS. Every chunk contributes
+ * its opening when the budget allows; otherwise evenly spaced chunks do, so
+ * the excerpts still span the whole document.
+ */
+export function planBriefExcerpts(
+  totalChunks: number,
+  budget = BRIEF_SOURCE_BUDGET_CHARS
+): { chunkIndices: number[]; charsPerChunk: number } {
+  if (totalChunks <= 0) {
+    return { chunkIndices: [], charsPerChunk: 0 };
+  }
+
+  const count = Math.max(1, Math.min(totalChunks, Math.floor(budget / MIN_EXCERPT_CHARS)));
+  return {
+    chunkIndices: Array.from({ length: count }, (_, i) => Math.floor((i * totalChunks) / count)),
+    charsPerChunk: Math.floor(budget / count),
+  };
+}
+
+/**
+ * Prompt for the initial brief, written from source excerpts.
+ */
+export function buildBriefPrompt(
+  excerpts: string[],
+  targetLanguage: LanguageCode,
+  sourceLanguage?: LanguageCode
+): string {
+  const source = sourceLanguage ? `${LANGUAGE_NAMES[sourceLanguage]} ` : '';
+  const target = LANGUAGE_NAMES[targetLanguage];
+
+  return (
+    `You are preparing a ${source}document for translation into ${target} by several ` +
+    'translators who will each see only one section. Write a brief that keeps them consistent.\n\n' +
+    'List every named character with their gender as the text establishes it (use "unknown" ' +
+    `when it does not) and one ${target} rendering of their name to use throughout — keep the ` +
+    'original name unless the language conventionally adapts it. Note the register and ' +
+    'narrative voice, and summarise the plot.\n\n' +
+    `${RESPONSE_FORMAT}\n\n` +
+    '---DOCUMENT EXCERPTS---\n' +
+    excerpts.join('\n\n[...]\n\n') +
+    '\n---END EXCERPTS---'
+  );
+}
+
+/**
+ * Prompt revising a brief with what one translated chunk revealed. Existing
+ * renderings are fixed — changing one mid-document is exactly the
+ * inconsistency the brief exists to prevent.
+ */
+export function buildBriefUpdatePrompt(
+  brief: TranslationBrief,
+  sourceText: string,
+  translatedText: string,
+  targetLanguage: LanguageCode
+): string {
+  const target = LANGUAGE_NAMES[targetLanguage];
+
+  return (
+    `You maintain the brief that keeps a ${target} translation consistent. Update it with ` +
+    'the section below: add characters who appear for the first time, correct a gender only ' +
+    'when the text now establishes it, and extend the plot summary. Never change an existing ' +
+    'rendering. Keep the summary under 200 words.\n\n' +
+    `${RESPONSE_FORMAT}\n\n` +
+    '---CURRENT BRIEF---\n' +
+    JSON.stringify({
+      characters: brief.characters,
+      style: brief.style,
+      plotSummary: brief.plotSummary,
+    }) +
+    '\n---END BRIEF---\n\n' +
+    '---SECTION---\n' +
+    sourceText +
+    '\n---END SECTION---\n\n' +
+    `---${target.toUpperCase()} TRANSLATION OF THE SECTION---\n` +
+    translatedText +
+    '\n---END TRANSLATION---'
+  );
+}
+
+/**
+ * Parse a model response into a brief. Tolerates a Markdown code fence and
+ * normalizes unknown genders; throws when the response is not a brief.
+ */
+export function parseBrief(text: string, updatedThroughChunk: number): TranslationBrief {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Translation brief response is not valid JSON');
+  }
+  const { characters, style, plotSummary } = (raw ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(characters)) {
+    throw new Error('Translation brief response has no characters list');
+  }
+
+  return {
+    characters: characters
+      .filter(
+        (c): c is Record<string, unknown> =>
+          typeof c === 'object' && c !== null && typeof c.name === 'string'
+      )
+      .slice(0, MAX_BRIEF_CHARACTERS)
+      .map((c): BriefCharacter => {
+        const gender = GENDERS.find((g) => g === c.gender) ?? 'unknown';
+        return {
+          name: String(c.name),
+          gender,
+          ...(typeof c.rendering === 'string' && c.rendering && { rendering: c.rendering }),
+          ...(typeof c.notes === 'string' && c.notes && { notes: c.notes }),
+        };
+      }),
+    style: typeof style === 'string' ? style : '',
+    plotSummary: typeof plotSummary === 'string' ? plotSummary : '',
+    updatedThroughChunk,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load a job's brief, or null when none has been written.
+ */
+export async function loadBrief(
+  client: S3Client,
+  bucket: string,
+  jobId: string
+): Promise<TranslationBrief | null> {
+  try {
+    const response = await client.send(
+      new GetObjectCommand({ Bucket: bucket, Key: briefKey(jobId) })
+    );
+    const body = await response.Body?.transformToString();
+    return body ? (JSON.parse(body) as TranslationBrief) : null;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a job's brief, replacing any previous version.
+ */
+export async function storeBrief(
+  client: S3Client,
+  bucket: string,
+  jobId: string,
+  brief: TranslationBrief
+): Promise<void> {
+  await client.send(
+    new PutObjectCommand({
+      Bucket: bucket,
+      Key: briefKey(jobId),
+      Body: JSON.stringify(brief),
+      ContentType: 'application/json',
+    })
+  );
+}
@@ -0,0 +1,316 @@
+/**
+ * Translation Memory
+ *
+ * Cross-job store of source paragraphs and their translations, so that a
+ * revised edition of a manuscript only pays for the paragraphs that
+ * changed. recordJobTranslationMemory fills it from every completed prose
+ * job — run by recordTranslationMemory.ts at the end of an execution, and
+ * by controlTranslation.ts when a paused job turns out to be complete;
+ * translateChunk.ts looks each paragraph of a chunk up before calling the
+ * provider:
+ *
+ * - exact match (same normalized text): the stored translation is reused
+ *   and the paragraph is not sent to the model;
+ * - fuzzy match (an edited version of a stored paragraph): the stored pair
+ *   is given to the model as a reference.
+ *
+ * Table layout: memoryKey HASH (`{userId}#{targetLanguage}`, so memory
+ * never crosses users) + segmentKey RANGE. Each paragraph is written under
+ * `exact#{hash}` of its normalized text and, when long enough for fuzzy
+ * matching, under `head#` / `tail#` hashes of its first and last words —
+ * an edit rarely touches both ends, and both lookups are a BatchGetItem
+ * rather than a scan of the user's memory.
+ */
+
+import { createHash } from 'crypto';
+import {
+  BatchGetItemCommand,
+  BatchWriteItemCommand,
+  DynamoDBClient,
+  WriteRequest,
+} from '@aws-sdk/client-dynamodb';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { DynamoDBJob } from '@lfmt/shared-types';
+
+/** Lowest word-level similarity at which a stored pair is offered as a reference. */
+export const FUZZY_MATCH_THRESHOLD = 0.7;
+
+/** Words hashed into a head / tail anchor. */
+const ANCHOR_WORDS = 6;
+
+/** Paragraphs shorter than this are only matched exactly. */
+const MIN_FUZZY_WORDS = 12;
+
+/** DynamoDB limits: keys per BatchGetItem, requests per BatchWriteItem. */
+const BATCH_GET_SIZE = 100;
+const BATCH_WRITE_SIZE = 25;
+
+/** Attempts at a batch whose unprocessed keys keep coming back (throttling). */
+const MAX_BATCH_ATTEMPTS = 3;
+
+/**
+ * Chunks read at once when a job is recorded: controlTranslation records
+ * inside an API request, so a long document cannot be read one chunk at a
+ * time.
+ */
+const CHUNK_READ_CONCURRENCY = 10;
+
+/** A source paragraph and its translation. */
+export interface MemoryPair {
+  source: string;
+  translation: string;
+}
+
+/** A stored pair found for a paragraph; `similarity` is 1 for an exact match. */
+export interface MemoryMatch extends MemoryPair {
+  similarity: number;
+}
+
+interface MemoryItem extends MemoryPair {
+  memoryKey: string;
+  segmentKey: string;
+  jobId: string;
+  updatedAt: string;
+}
+
+/**
+ * Split text into the paragraphs the memory is keyed on.
+ */
+export function splitSegments(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Normalize a paragraph for matching: Unicode compatibility forms and
+ * whitespace runs, which differ between exports of the same manuscript,
+ * are folded; case and punctuation are kept because they change the
+ * translation.
+ */
+export function normalizeSegment(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function memoryKey(userId: string, targetLanguage: string): string {
+  return `${userId}#${targetLanguage}`;
+}
+
+/** Sort keys a paragraph is stored under; the exact key comes first. */
+function segmentKeys(segment: string): string[] {
+  const normalized = normalizeSegment(segment);
+  const keys = [`exact#${hash(normalized)}`];
+
+  const words = normalized.split(' ');
+  if (words.length >= MIN_FUZZY_WORDS) {
+    keys.push(`head#${hash(words.slice(0, ANCHOR_WORDS).join(' '))}`);
+    keys.push(`tail#${hash(words.slice(-ANCHOR_WORDS).join(' '))}`);
+  }
+  return keys;
+}
+
+/**
+ * Word-level similarity of two paragraphs in [0, 1]: one minus the word
+ * edit distance over the longer paragraph's length.
+ */
+export function segmentSimilarity(a: string, b: string): number {
+  const left = normalizeSegment(a).split(' ');
+  const right = normalizeSegment(b).split(' ');
+
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[right.length] / Math.max(left.length, right.length);
+}
+
+/**
+ * Pair the paragraphs of a source chunk with those of its translation.
+ * Returns null when the counts differ — the model merged or split a
+ * paragraph, and pairing by position would store mismatched translations.
+ */
+export function pairSegments(source: string, translation: string): MemoryPair[] | null {
+  const sources = splitSegments(source);
+  const translations = splitSegments(translation);
+
+  if (sources.length === 0 || sources.length !== translations.length) {
+    return null;
+  }
+  return sources.map((segment, i) => ({ source: segment, translation: translations[i] }));
+}
+
+/**
+ * Look every paragraph up in the user's memory for the target language.
+ * Returns, per paragraph, the exact match, else the most similar fuzzy
+ * match at or above FUZZY_MATCH_THRESHOLD, else null.
+ */
+export async function lookupTranslationMemory(
+  client: DynamoDBClient,
+  tableName: string,
+  userId: string,
+  targetLanguage: string,
+  segments: string[]
+): Promise<Array<MemoryMatch | null>> {
+  const partition = memoryKey(userId, targetLanguage);
+  const keysBySegment = segments.map(segmentKeys);
+  const uniqueKeys = [...new Set(keysBySegment.flat())];
+
+  const found = new Map<string, MemoryPair>();
+  for (let i = 0; i < uniqueKeys.length; i += BATCH_GET_SIZE) {
+    let keys = uniqueKeys
+      .slice(i, i + BATCH_GET_SIZE)
+      .map((segmentKey) => marshall({ memoryKey: partition, segmentKey }));
+
+    for (let attempt = 1; keys.length > 0 && attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+      const response = await client.send(
+        new BatchGetItemCommand({ RequestItems: { [tableName]: { Keys: keys } } })
+      );
+      for (const item of response.Responses?.[tableName] ?? []) {
+        const { segmentKey, source, translation } = unmarshall(item) as MemoryItem;
+        found.set(segmentKey, { source, translation });
+      }
+      // A lookup that stays throttled just finds fewer matches.
+      keys = response.UnprocessedKeys?.[tableName]?.Keys ?? [];
+    }
+  }
+
+  return segments.map((segment, i) => {
+    const [exactKey, ...anchorKeys] = keysBySegment[i];
+    const exact = found.get(exactKey);
+    if (exact) {
+      return { ...exact, similarity: 1 };
+    }
+
+    let best: MemoryMatch | null = null;
+    for (const key of anchorKeys) {
+      const candidate = found.get(key);
+      if (!candidate) continue;
+      const similarity = segmentSimilarity(segment, candidate.source);
+      if (similarity >= FUZZY_MATCH_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+        best = { ...candidate, similarity };
+      }
+    }
+    return best;
+  });
+}
+
+/**
+ * Store paragraph pairs in the user's memory for the target language,
+ * replacing earlier translations of the same text. Returns the number of
+ * items written (exact and anchor entries).
+ */
+export async function storeTranslationMemory(
+  client: DynamoDBClient,
+  tableName: string,
+  userId: string,
+  targetLanguage: string,
+  jobId: string,
+  pairs: MemoryPair[]
+): Promise<number> {
+  const partition = memoryKey(userId, targetLanguage);
+  const updatedAt = new Date().toISOString();
+
+  // Keyed by segmentKey: BatchWriteItem rejects a request that puts the same
+  // key twice, and a repeated paragraph or shared anchor is common.
+  const items = new Map<string, MemoryItem>();
+  for (const pair of pairs) {
+    for (const segmentKey of segmentKeys(pair.source)) {
+      items.set(segmentKey, { memoryKey: partition, segmentKey, ...pair, jobId, updatedAt });
+    }
+  }
+
+  const requests: WriteRequest[] = [...items.values()].map((item) => ({
+    PutRequest: { Item: marshall(item) },
+  }));
+
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    let batch = requests.slice(i, i + BATCH_WRITE_SIZE);
+
+    for (let attempt = 1; batch.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_ATTEMPTS) {
+        throw new Error(
+          `Translation memory writes still throttled after ${MAX_BATCH_ATTEMPTS} attempts`
+        );
+      }
+      const response = await client.send(
+        new BatchWriteItemCommand({ RequestItems: { [tableName]: batch } })
+      );
+      batch = response.UnprocessedItems?.[tableName] ?? [];
+    }
+  }
+
+  return requests.length;
+}
+
+/**
+ * Store the paragraph pairs of a completed job in its owner's memory. A
+ * chunk whose translation does not line up paragraph for paragraph with
+ * its source is skipped rather than stored misaligned; subtitle jobs are
+ * cue lists, not paragraphs, and store nothing.
+ */
+export async function recordJobTranslationMemory(
+  dynamoClient: DynamoDBClient,
+  s3Client: S3Client,
+  tableName: string,
+  bucket: string,
+  job: DynamoDBJob,
+  targetLanguage: string
+): Promise<{ recordedSegments: number; skippedChunks: number }> {
+  if (job.subtitleFormat) {
+    return { recordedSegments: 0, skippedChunks: 0 };
+  }
+
+  const readObject = async (key: string): Promise<string> => {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    return (await response.Body?.transformToString()) ?? '';
+  };
+
+  const readChunk = (key: string, index: number) =>
+    Promise.all([
+      readObject(key).then((body) =>
+        String((JSON.parse(body) as { primaryContent?: string }).primaryContent ?? '')
+      ),
+      readObject(`translated/${job.jobId}/chunk-${index}.txt`),
+    ]);
+
+  const chunkKeys = job.chunkingMetadata?.chunkKeys ?? [];
+  const pairs: MemoryPair[] = [];
+  let skippedChunks = 0;
+
+  for (let start = 0; start < chunkKeys.length; start += CHUNK_READ_CONCURRENCY) {
+    const batch = chunkKeys.slice(start, start + CHUNK_READ_CONCURRENCY);
+    const chunks = await Promise.all(batch.map((key, offset) => readChunk(key, start + offset)));
+
+    for (const [source, translation] of chunks) {
+      const chunkPairs = pairSegments(source, translation);
+      if (chunkPairs) {
+        pairs.push(...chunkPairs);
+      } else {
+        skippedChunks++;
+      }
+    }
+  }
+
+  await storeTranslationMemory(
+    dynamoClient,
+    tableName,
+    job.userId,
+    targetLanguage,
+    job.jobId,
+    pairs
+  );
+
+  return { recordedSegments: pairs.length, skippedChunks };
+}
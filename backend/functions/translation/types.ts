@@ -1,12 +1,23 @@
 /**
  * Translation Service Types
- * TypeScript interfaces for Gemini API integration
+ * TypeScript interfaces shared by the LLM translation providers
  */
 
+import { LANGUAGE_REGISTRY, isLanguageCode } from '@lfmt/shared-types';
+import type { MemoryMatch } from './translationMemory';
+import type {
+  GlossaryTerm,
+  LanguageCode,
+  SubtitleFormat,
+  TranslationBrief,
+  TranslationProviderName,
+} from '@lfmt/shared-types';
+
 /**
- * Supported target languages for translation
+ * Supported target languages for translation — every language in the
+ * shared-types LANGUAGE_REGISTRY.
  */
-export type TargetLanguage = 'es' | 'fr' | 'it' | 'de' | 'zh';
+export type TargetLanguage = LanguageCode;
 
 /**
  * Translation options for customizing output
@@ -17,6 +28,12 @@ export interface TranslationOptions {
    */
   targetLanguage: TargetLanguage;
 
+  /**
+   * Source language code (ISO 639-1), when detected or supplied by the
+   * user. Omitted → the prompt leaves the source language unstated.
+   */
+  sourceLanguage?: TargetLanguage;
+
   /**
    * Tone/style for translation (formal, informal, neutral)
    * @default 'neutral'
@@ -33,6 +50,26 @@ export interface TranslationOptions {
    * Additional context or instructions for the translator
    */
   additionalInstructions?: string;
+
+  /**
+   * Project glossary terms. The prompt builder injects only the subset
+   * that occurs in the text being translated.
+   */
+  glossaryTerms?: GlossaryTerm[];
+
+  /**
+   * Set when the text is a run of subtitle cues in this format. The prompt
+   * then asks for cue numbers, identifiers and timing lines to be copied
+   * verbatim and only the cue text to be translated.
+   */
+  subtitleFormat?: SubtitleFormat;
+
+  /**
+   * Number of blank-line separated paragraphs in the text. Set when a
+   * response merged or split paragraphs; the prompt then asks for exactly
+   * this many back, one per source paragraph.
+   */
+  paragraphCount?: number;
 }
 
 /**
@@ -72,6 +109,24 @@ export interface TranslationResult {
    * Processing time in milliseconds
    */
   processingTimeMs: number;
+
+  /**
+   * Why the model stopped generating, as reported by the provider (Gemini's
+   * finishReason, e.g. `STOP` or `MAX_TOKENS`, or Anthropic's stop_reason
+   * with `max_tokens` reported as `MAX_TOKENS`); absent when not reported
+   */
+  finishReason?: string;
+}
+
+/**
+ * Result of a free-form prompt (see TranslationProvider.complete)
+ */
+export interface CompletionResult {
+  text: string;
+  tokensUsed: TranslationResult['tokensUsed'];
+  estimatedCost: number;
+  processingTimeMs: number;
+  finishReason?: TranslationResult['finishReason'];
 }
 
 /**
@@ -79,7 +134,7 @@ export interface TranslationResult {
  */
 export interface TranslationContext {
   /**
-   * Previous translated chunks to provide context
+   * Text of the previous chunks, to provide context
    */
   previousChunks: string[];
 
@@ -87,12 +142,51 @@ export interface TranslationContext {
    * Total tokens in context
    */
   contextTokens: number;
+
+  /**
+   * What `previousChunks` holds: source-language summaries (parallel mode,
+   * the default) or the target-language translations of the preceding
+   * chunks (sequential mode).
+   */
+  source?: 'original' | 'translation';
+
+  /**
+   * The job's translation memory brief (characters, style, plot so far),
+   * when the job was started with one.
+   */
+  brief?: TranslationBrief;
+
+  /**
+   * Earlier translations of passages close to ones in this chunk, from the
+   * user's translation memory (see translationMemory.ts).
+   */
+  memoryMatches?: MemoryMatch[];
 }
 
 /**
- * Error thrown by Gemini API
+ * An LLM vendor that can translate a chunk. `initialize()` loads credentials
+ * and must resolve before `translate()` or `complete()` is called; it is
+ * idempotent so a warm Lambda container can call it on every invocation.
+ * `complete()` sends a prompt as-is, for auxiliary requests such as the
+ * translation brief.
+ */
+export interface TranslationProvider {
+  readonly name: TranslationProviderName;
+  readonly model: string;
+  initialize(): Promise<void>;
+  translate(
+    text: string,
+    options: TranslationOptions,
+    context?: TranslationContext
+  ): Promise<TranslationResult>;
+  complete(prompt: string): Promise<CompletionResult>;
+}
+
+/**
+ * Error thrown by a translation provider. `retryable` tells translateChunk
+ * whether Step Functions should try the chunk again or fail the job.
  */
-export class GeminiApiError extends Error {
+export class TranslationApiError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
@@ -100,11 +194,31 @@ export class GeminiApiError extends Error {
     public retryable: boolean = false
   ) {
     super(message);
-    this.name = 'GeminiApiError';
+    this.name = 'TranslationApiError';
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+/**
+ * Error thrown by Gemini API
+ */
+export class GeminiApiError extends TranslationApiError {
+  constructor(message: string, statusCode?: number, errorCode?: string, retryable = false) {
+    super(message, statusCode, errorCode, retryable);
+    this.name = 'GeminiApiError';
+  }
+}
+
+/**
+ * Error thrown by the Anthropic Messages API
+ */
+export class AnthropicApiError extends TranslationApiError {
+  constructor(message: string, statusCode?: number, errorCode?: string, retryable = false) {
+    super(message, statusCode, errorCode, retryable);
+    this.name = 'AnthropicApiError';
+  }
+}
+
 /**
  * Rate limit exceeded error
  */
@@ -129,19 +243,20 @@ export class AuthenticationError extends GeminiApiError {
 }
 
 /**
- * Language mapping for full language names
+ * Language mapping for full language names, as used in translation prompts.
+ * Derived from LANGUAGE_REGISTRY; Chinese is qualified with its script
+ * because "Chinese" alone leaves the model free to answer in Traditional.
  */
-export const LANGUAGE_NAMES: Record<TargetLanguage, string> = {
-  es: 'Spanish',
-  fr: 'French',
-  it: 'Italian',
-  de: 'German',
-  zh: 'Chinese (Simplified)',
-};
+export const LANGUAGE_NAMES = Object.fromEntries(
+  LANGUAGE_REGISTRY.map(({ code, englishName, script }) => [
+    code,
+    script === 'Hans' ? `${englishName} (Simplified)` : englishName,
+  ])
+) as Record<TargetLanguage, string>;
 
 /**
  * Validate if a language code is supported
  */
 export function isValidTargetLanguage(lang: string): lang is TargetLanguage {
-  return ['es', 'fr', 'it', 'de', 'zh'].includes(lang);
+  return isLanguageCode(lang);
 }
@@ -82,6 +82,19 @@ describe('LFMT Infrastructure Stack', () => {
               },
             ],
           }),
+          Match.objectLike({
+            IndexName: 'ReviewerJobsIndex',
+            KeySchema: [
+              {
+                AttributeName: 'reviewerEmail',
+                KeyType: 'HASH',
+              },
+              {
+                AttributeName: 'jobId',
+                KeyType: 'RANGE',
+              },
+            ],
+          }),
         ]),
       });
     });
@@ -155,6 +168,57 @@ describe('LFMT Infrastructure Stack', () => {
         },
       });
     });
+
+    test('Glossaries table is keyed by owner so GetItem enforces ownership', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'lfmt-glossaries-test',
+        KeySchema: [
+          {
+            AttributeName: 'userId',
+            KeyType: 'HASH',
+          },
+          {
+            AttributeName: 'glossaryId',
+            KeyType: 'RANGE',
+          },
+        ],
+        BillingMode: 'PAY_PER_REQUEST',
+      });
+    });
+
+    test('Comments table is keyed by job so its threads are one Query', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'lfmt-comments-test',
+        KeySchema: [
+          {
+            AttributeName: 'jobId',
+            KeyType: 'HASH',
+          },
+          {
+            AttributeName: 'threadId',
+            KeyType: 'RANGE',
+          },
+        ],
+        BillingMode: 'PAY_PER_REQUEST',
+      });
+    });
+
+    test("Translation memory table is partitioned by each user's memory", () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'lfmt-translation-memory-test',
+        KeySchema: [
+          {
+            AttributeName: 'memoryKey',
+            KeyType: 'HASH',
+          },
+          {
+            AttributeName: 'segmentKey',
+            KeyType: 'RANGE',
+          },
+        ],
+        BillingMode: 'PAY_PER_REQUEST',
+      });
+    });
   });
 
   describe('S3 Buckets', () => {
@@ -182,6 +246,33 @@ describe('LFMT Infrastructure Stack', () => {
       });
     });
 
+    test('Upload and chunking notifications fire for every accepted upload extension', () => {
+      const notifications = template.findResources('Custom::S3BucketNotifications');
+      const filters = Object.values(notifications).flatMap((resource: any) =>
+        resource.Properties.NotificationConfiguration.LambdaFunctionConfigurations.map(
+          (config: any) =>
+            Object.fromEntries(
+              config.Filter.Key.FilterRules.map((rule: any) => [
+                rule.Name.toLowerCase(),
+                rule.Value,
+              ])
+            )
+        )
+      );
+
+      for (const prefix of ['uploads/', 'documents/']) {
+        expect(filters).toEqual(
+          expect.arrayContaining([
+            { prefix, suffix: '.txt' },
+            { prefix, suffix: '.docx' },
+            { prefix, suffix: '.epub' },
+            { prefix, suffix: '.srt' },
+            { prefix, suffix: '.vtt' },
+          ])
+        );
+      }
+    });
+
     test('Results bucket configured correctly', () => {
       template.hasResourceProperties('AWS::S3::Bucket', {
         BucketName: 'lfmt-results-test',
@@ -296,6 +387,12 @@ describe('LFMT Infrastructure Stack', () => {
       expect(template.findResources('AWS::ApiGateway::Method')).toBeDefined();
     });
 
+    test('No legacy /claude resource is exposed', () => {
+      const resources = template.findResources('AWS::ApiGateway::Resource');
+      const paths = Object.values(resources).map((r: any) => r.Properties.PathPart);
+      expect(paths).not.toContain('claude');
+    });
+
     test('CloudFront URL is included in API Gateway CORS origins', () => {
       // Verify that CloudFront distribution exists and API can reference it
       expect(stack.frontendDistribution).toBeDefined();
@@ -465,6 +562,8 @@ describe('LFMT Infrastructure Stack', () => {
       // 2. Every DeleteItem statement resource is the JobsTable ARN — not a
       //    wildcard and not any other table.  The ARN is a CloudFormation {"Fn::GetAtt"}
       //    reference whose stringified form contains "JobsTable" in the logical ID.
+      //    The one exception is the isolated GlossaryPolicy (Role 8), which may
+      //    delete from the Glossaries table and nothing else.
       // 3. The TranslationLambdaRole (translationRole) does NOT have DeleteItem —
       //    if it did, ~5 other Lambdas would silently inherit it.
       const templateJson = template.toJSON();
@@ -517,11 +616,15 @@ describe('LFMT Infrastructure Stack', () => {
       //    not any other table).  In synthesised CloudFormation the ARN is represented
       //    as {"Fn::GetAtt": ["<JobsTableLogicalId>", "Arn"]} — the logical ID always
       //    contains "JobsTable" because that's the CDK construct ID used in the stack.
-      deleteItemStatements.forEach(({ resource }) => {
+      deleteItemStatements.forEach(({ resource, sourceLogicalId }) => {
         const resourceStr = JSON.stringify(resource);
         // Must not be a wildcard resource
         expect(resourceStr).not.toBe('"*"');
         expect(resourceStr).not.toContain('"*"');
+        if (sourceLogicalId.startsWith('GlossaryPolicy')) {
+          expect(resourceStr).toMatch(/^\{"Fn::GetAtt":\["GlossariesTable[A-Za-z0-9]*","Arn"\]\}$/);
+          return;
+        }
         // Must reference exactly the jobs table (logical ID check — tighter than
         // the loose /JobsTable/i regex used previously)
         expect(resourceStr).toMatch(/"JobsTable[A-Za-z0-9]*/);
@@ -687,9 +790,98 @@ describe('LFMT Infrastructure Stack', () => {
       const mapState = Object.values(states).find((state: any) => state.Type === 'Map');
       expect(mapState).toBeDefined();
 
-      // Verify parallel processing (default maxConcurrency: 10) with distributed rate limiting
-      // Note: maxConcurrency can be overridden via CDK context
-      expect((mapState as any).MaxConcurrency).toBe(10);
+      // Concurrency comes from the execution input: the CDK `maxConcurrency`
+      // context (default 10) for parallel jobs, 1 for sequential-context jobs
+      expect((mapState as any).MaxConcurrencyPath).toBe('$.maxConcurrency');
+    });
+
+    test('State machine can run again over some of the chunks', () => {
+      const stateMachines = template.findResources('AWS::StepFunctions::StateMachine');
+      const stateMachine = stateMachines[Object.keys(stateMachines)[0]];
+      const definition = JSON.parse(
+        stateMachine.Properties.DefinitionString['Fn::Join'][1].join('')
+      );
+
+      const mapState: any = Object.values(definition.States).find(
+        (state: any) => state.Type === 'Map'
+      );
+      expect(mapState.Parameters['retranslation.$']).toBe('$.retranslation');
+      const translateState = mapState.Iterator.States[mapState.Iterator.StartAt];
+      expect(translateState.Parameters.Payload['retranslation.$']).toBe('$.retranslation');
+
+      // A recovery execution's $.chunks holds only the chunks it retries.
+      const completed = definition.States.UpdateJobCompleted;
+      expect(completed.Parameters.ExpressionAttributeValues[':totalChunks']['S.$']).toBe(
+        "States.Format('{}', $.totalChunks)"
+      );
+    });
+
+    test('State machine writes the translation brief before the chunks', () => {
+      const stateMachines = template.findResources('AWS::StepFunctions::StateMachine');
+      const stateMachine = stateMachines[Object.keys(stateMachines)[0]];
+      const definition = JSON.parse(
+        stateMachine.Properties.DefinitionString['Fn::Join'][1].join('')
+      );
+
+      const briefState = definition.States[definition.StartAt];
+      expect(definition.StartAt).toMatch(/BuildTranslationBrief/);
+      expect(briefState.Parameters.Payload['briefMode.$']).toBe('$.briefMode');
+      // The execution input must reach the Map untouched.
+      expect(briefState.ResultPath).toBeNull();
+      expect(definition.States[briefState.Next].Type).toBe('Map');
+      expect(briefState.Retry).toContainEqual(
+        expect.objectContaining({ ErrorEquals: ['BriefRetryableError'], MaxAttempts: 3 })
+      );
+      // A brief that cannot be written must not fail the job.
+      expect(briefState.Catch[0]).toMatchObject({
+        ErrorEquals: ['States.ALL'],
+        Next: briefState.Next,
+      });
+    });
+
+    test('UpdateJobCompleted keeps a job paused or cancelled after its last chunk', () => {
+      const stateMachines = template.findResources('AWS::StepFunctions::StateMachine');
+      const stateMachine = stateMachines[Object.keys(stateMachines)[0]];
+      const definition = JSON.parse(
+        stateMachine.Properties.DefinitionString['Fn::Join'][1].join('')
+      );
+
+      // Same guard as translateChunk.ts STILL_RUNNING_CONDITION: the last
+      // chunk has already set translationStatus to COMPLETED.
+      const completed = definition.States.UpdateJobCompleted;
+      expect(completed.Parameters.ConditionExpression).toBe(
+        'NOT translationStatus IN (:paused, :cancelled)'
+      );
+      expect(completed.Parameters.ExpressionAttributeValues).toMatchObject({
+        ':paused': { S: 'PAUSED' },
+        ':cancelled': { S: 'CANCELLED' },
+      });
+      expect(completed.Catch).toEqual([
+        {
+          ErrorEquals: ['DynamoDB.ConditionalCheckFailedException'],
+          ResultPath: null,
+          Next: 'TranslationStopped',
+        },
+      ]);
+      expect(definition.States.TranslationStopped.Type).toBe('Succeed');
+    });
+
+    test('State machine adds a completed job to the translation memory', () => {
+      const stateMachines = template.findResources('AWS::StepFunctions::StateMachine');
+      const stateMachine = stateMachines[Object.keys(stateMachines)[0]];
+      const definition = JSON.parse(
+        stateMachine.Properties.DefinitionString['Fn::Join'][1].join('')
+      );
+
+      const completed = definition.States.UpdateJobCompleted;
+      const recordState = definition.States[completed.Next];
+      expect(completed.Next).toMatch(/RecordTranslationMemory/);
+      expect(recordState.Next).toBe('TranslationSuccess');
+      // A memory that cannot be written must not fail a delivered translation.
+      expect(recordState.Catch[0]).toMatchObject({
+        ErrorEquals: ['States.ALL'],
+        Next: 'TranslationSuccess',
+      });
     });
 
     test('State machine has workflow states', () => {
@@ -1155,8 +1347,8 @@ describe('LFMT Infrastructure Stack', () => {
   describe('Resource Count Validation', () => {
     test('Expected number of resources created', () => {
       // Ensure we're not creating too many or too few resources
-      template.resourceCountIs('AWS::DynamoDB::Table', 4); // Jobs, Users, Attestations, Rate Limit Buckets
-      template.resourceCountIs('AWS::S3::Bucket', 3); // Documents, Results, Frontend
+      template.resourceCountIs('AWS::DynamoDB::Table', 7); // Jobs, Users, Attestations, Rate Limit Buckets, Glossaries, Translation Memory, Comments
+      template.resourceCountIs('AWS::S3::Bucket', 4); // Documents, Results, Frontend, PDF fonts
       template.resourceCountIs('AWS::Cognito::UserPool', 1);
       template.resourceCountIs('AWS::Cognito::UserPoolClient', 1);
       template.resourceCountIs('AWS::ApiGateway::RestApi', 1);
@@ -1171,6 +1363,29 @@ describe('LFMT Infrastructure Stack', () => {
     });
   });
 
+  describe('Translation provider secrets', () => {
+    test('A placeholder secret exists for each provider API key', () => {
+      template.resourceCountIs('AWS::SecretsManager::Secret', 2);
+      template.hasResourceProperties('AWS::SecretsManager::Secret', {
+        Name: 'lfmt/gemini-api-key-test',
+      });
+      template.hasResourceProperties('AWS::SecretsManager::Secret', {
+        Name: 'lfmt/anthropic-api-key-test',
+      });
+    });
+
+    test('Lambda functions receive both secret names', () => {
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Environment: {
+          Variables: Match.objectLike({
+            GEMINI_API_KEY_SECRET_NAME: Match.anyValue(),
+            ANTHROPIC_API_KEY_SECRET_NAME: Match.anyValue(),
+          }),
+        },
+      });
+    });
+  });
+
   describe('Security Validation', () => {
     test('No hardcoded secrets or keys', () => {
       // Ensure no hardcoded values in the template
@@ -1727,7 +1942,10 @@ describe('LFMT Infrastructure Stack', () => {
   //   UploadRequest, UploadComplete, ChunkDocument, TranslateChunk,
   //   StartTranslation, GetTranslationStatus, GetJob, DeleteJob,
   //   DownloadTranslation (added in demo-readiness PR), ListJobs,
-  //   CspReport, CspNonceCustomResource.
+  //   CspReport, CspNonceCustomResource, ManageGlossaries, GlossaryReport,
+  //   BuildTranslationBrief, RecordTranslationMemory, CreateRevision,
+  //   RecoverTranslation, ControlTranslation, GetJobContent,
+  //   SaveChunkTranslation, ChunkHistory, ReviewTranslation, JobComments.
   // The dev-only PreSignUp Lambda is gated behind `isDev`
   // (stackName.toLowerCase().includes('dev')) and is absent in the
   // 'test' stackName used by these tests.
@@ -1735,8 +1953,17 @@ describe('LFMT Infrastructure Stack', () => {
   // (PR #208: +2 for GetJob + DeleteJob, 11 -> 13; demo-readiness: +1 for
   // DownloadTranslation, 13 -> 14; PR #239: +1 for ListJobs, 14 -> 15;
   // #201: +1 for CspReport, 15 -> 16; #254: +1 for CspNonceCustomResource,
-  // 16 -> 17).
-  const EXPECTED_APPLICATION_LAMBDA_COUNT = 17;
+  // 16 -> 17; project glossaries: +1 for ManageGlossaries, 17 -> 18;
+  // glossary report: +1 for GlossaryReport, 18 -> 19; translation brief:
+  // +1 for BuildTranslationBrief, 19 -> 20; translation memory: +1 for
+  // RecordTranslationMemory, 20 -> 21; revisions: +1 for CreateRevision,
+  // 21 -> 22; chunk recovery: +1 for RecoverTranslation, 22 -> 23;
+  // pause/resume/cancel: +1 for ControlTranslation, 23 -> 24; compare
+  // view: +1 for GetJobContent, 24 -> 25; post-editing: +1 for
+  // SaveChunkTranslation, 25 -> 26; chunk history: +1 for ChunkHistory,
+  // 26 -> 27; review: +1 for ReviewTranslation, 27 -> 28; comments: +1 for
+  // JobComments, 28 -> 29).
+  const EXPECTED_APPLICATION_LAMBDA_COUNT = 29;
 
   describe('Lambda Runtime Drift Guard (PR #203 R2)', () => {
     // Regression guard mirroring the CSP/'unsafe-eval' pattern (PR #198):
@@ -2074,6 +2301,34 @@ describe('LFMT Infrastructure Stack', () => {
       expect(hasTranslatedPrefixScope).toBe(true);
     });
 
+    test('PdfFontsBucket has no expiration lifecycle and is wired into DownloadTranslation', () => {
+      const buckets = template.findResources('AWS::S3::Bucket');
+      const fontsBucketEntry = Object.entries(buckets).find(([id]) =>
+        id.startsWith('PdfFontsBucket')
+      );
+      expect(fontsBucketEntry).toBeDefined();
+      const [fontsBucketId, fontsBucket] = fontsBucketEntry!;
+      expect((fontsBucket as any).Properties.LifecycleConfiguration).toBeUndefined();
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: Match.stringLikeRegexp('lfmt-download-translation-'),
+        Environment: {
+          Variables: Match.objectLike({ PDF_FONTS_BUCKET: { Ref: fontsBucketId } }),
+        },
+      });
+    });
+
+    test('DownloadTranslationLambdaRole reads fonts only under the fonts/ prefix', () => {
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const fontStatements = Object.values(managedPolicies)
+        .flatMap((policy: any) => policy.Properties?.PolicyDocument?.Statement ?? [])
+        .filter((stmt: any) => JSON.stringify(stmt.Resource).includes('PdfFontsBucket'));
+
+      expect(fontStatements).toHaveLength(1);
+      expect(fontStatements[0].Action).toBe('s3:GetObject');
+      expect(JSON.stringify(fontStatements[0].Resource)).toContain('/fonts/*');
+    });
+
     test('API Gateway has GET /jobs/{jobId}/download route', () => {
       // Verify the API Gateway resource tree contains the download path.
       // The route is /jobs/{jobId}/download (not /translation/{jobId}/download)
@@ -2107,6 +2362,412 @@ describe('LFMT Infrastructure Stack', () => {
       expect(downloadGetMethod).toBeDefined();
       expect((downloadGetMethod as any).Properties?.AuthorizationType).toBe('COGNITO_USER_POOLS');
     });
+
+    test('GET /jobs/{jobId}/chapters is served by the download Lambda behind COGNITO', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Resource', {
+        PathPart: 'chapters',
+      });
+
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const downloadGetMethods = Object.values(methods).filter((method: any) => {
+        const uri = JSON.stringify(method.Properties?.Integration?.Uri ?? '');
+        return method.Properties?.HttpMethod === 'GET' && uri.includes('DownloadTranslation');
+      });
+
+      // One method each for /download, /chapters and /review-pdf — all authenticated.
+      expect(downloadGetMethods).toHaveLength(3);
+      downloadGetMethods.forEach((method: any) =>
+        expect(method.Properties?.AuthorizationType).toBe('COGNITO_USER_POOLS')
+      );
+    });
+
+    test('POST /jobs/{jobId}/revisions is served by the create-revision Lambda behind COGNITO', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Resource', {
+        PathPart: 'revisions',
+      });
+
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const revisionMethod = Object.values(methods).find((method: any) => {
+        const uri = JSON.stringify(method.Properties?.Integration?.Uri ?? '');
+        return method.Properties?.HttpMethod === 'POST' && uri.includes('CreateRevision');
+      });
+
+      expect(revisionMethod).toBeDefined();
+      expect((revisionMethod as any).Properties?.AuthorizationType).toBe('COGNITO_USER_POOLS');
+    });
+
+    test('recover and retranslate routes are served by the recover-translation Lambda behind COGNITO', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: 'recover' });
+      template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: '{chunkIndex}' });
+      template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: 'retranslate' });
+
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const recoverMethods = Object.values(methods).filter((method: any) => {
+        const uri = JSON.stringify(method.Properties?.Integration?.Uri ?? '');
+        return method.Properties?.HttpMethod === 'POST' && uri.includes('RecoverTranslation');
+      });
+
+      expect(recoverMethods).toHaveLength(2);
+      for (const method of recoverMethods) {
+        expect((method as any).Properties?.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      }
+    });
+
+    test('pause, resume and cancel routes are served by the control-translation Lambda behind COGNITO', () => {
+      for (const action of ['pause', 'resume', 'cancel']) {
+        template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: action });
+      }
+
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const controlMethods = Object.values(methods).filter((method: any) => {
+        const uri = JSON.stringify(method.Properties?.Integration?.Uri ?? '');
+        return method.Properties?.HttpMethod === 'POST' && uri.includes('ControlTranslation');
+      });
+
+      expect(controlMethods).toHaveLength(3);
+      for (const method of controlMethods) {
+        expect((method as any).Properties?.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      }
+    });
+
+    test('source and chunk routes are served by the job-content Lambda behind COGNITO', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: 'source' });
+
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const contentMethods = Object.values(methods).filter((method: any) => {
+        const uri = JSON.stringify(method.Properties?.Integration?.Uri ?? '');
+        return method.Properties?.HttpMethod === 'GET' && uri.includes('GetJobContent');
+      });
+
+      expect(contentMethods).toHaveLength(2);
+      for (const method of contentMethods) {
+        expect((method as any).Properties?.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      }
+    });
+
+    test('/glossaries/{glossaryId} preflight allows every method the resource serves', () => {
+      // A browser DELETE or PUT fails its preflight unless the OPTIONS
+      // response lists the method.
+      const resources = template.findResources('AWS::ApiGateway::Resource', {
+        Properties: { PathPart: '{glossaryId}' },
+      });
+      const [glossaryResourceId] = Object.keys(resources);
+      expect(glossaryResourceId).toBeDefined();
+
+      const methods = template.findResources('AWS::ApiGateway::Method', {
+        Properties: { HttpMethod: 'OPTIONS', ResourceId: { Ref: glossaryResourceId } },
+      });
+      const [preflight] = Object.values(methods) as any[];
+      const allowMethods =
+        preflight.Properties.Integration.IntegrationResponses[0].ResponseParameters[
+          'method.response.header.Access-Control-Allow-Methods'
+        ];
+
+      expect(allowMethods.replace(/'/g, '').split(',').sort()).toEqual([
+        'DELETE',
+        'GET',
+        'OPTIONS',
+        'PUT',
+      ]);
+    });
+
+    test('JobContentLambdaRole only reads the source document, the chunks and their edits', () => {
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const statements = Object.values(managedPolicies)
+        .filter((policy: any) =>
+          JSON.stringify(policy.Properties?.Roles ?? []).includes('JobContentLambdaRole')
+        )
+        .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement);
+
+      const actions = statements.flatMap((stmt: any) =>
+        Array.isArray(stmt.Action) ? stmt.Action : [stmt.Action]
+      );
+      expect(actions.sort()).toEqual([
+        'dynamodb:GetItem',
+        'dynamodb:Query',
+        's3:GetObject',
+        's3:ListBucket',
+      ]);
+      expect(
+        JSON.stringify(statements.find((stmt: any) => stmt.Action === 'dynamodb:Query').Resource)
+      ).toContain('/index/ReviewerJobsIndex');
+
+      const s3Resources = JSON.stringify(
+        statements.find((stmt: any) => stmt.Action === 's3:GetObject').Resource
+      );
+      for (const prefix of ['/documents/*', '/chunks/*', '/translated/*', '/translated-edits/*']) {
+        expect(s3Resources).toContain(prefix);
+      }
+      expect(s3Resources).not.toContain('/uploads/');
+    });
+
+    test('glossary report is served by its own Lambda, which reads the chunks and their edits', () => {
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const reportMethods = Object.values(methods).filter((method: any) =>
+        JSON.stringify(method.Properties?.Integration?.Uri ?? '').includes('GlossaryReport')
+      );
+
+      expect(reportMethods.map((method: any) => method.Properties.HttpMethod).sort()).toEqual([
+        'GET',
+        'POST',
+      ]);
+      for (const method of reportMethods) {
+        expect((method as any).Properties.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      }
+
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const statements = Object.values(managedPolicies)
+        .filter((policy: any) =>
+          JSON.stringify(policy.Properties?.Roles ?? []).includes('GlossaryReportLambdaRole')
+        )
+        .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement);
+      const actions = statements.flatMap((stmt: any) =>
+        Array.isArray(stmt.Action) ? stmt.Action : [stmt.Action]
+      );
+      expect(actions.sort()).toEqual(['dynamodb:GetItem', 's3:GetObject', 's3:ListBucket']);
+
+      const s3Resources = JSON.stringify(
+        statements.find((stmt: any) => stmt.Action === 's3:GetObject').Resource
+      );
+      for (const prefix of ['/chunks/*', '/translated/*', '/translated-edits/*']) {
+        expect(s3Resources).toContain(prefix);
+      }
+    });
+
+    test('chunk edits are saved by their own Lambda behind COGNITO', () => {
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const editMethods = Object.values(methods).filter((method: any) =>
+        JSON.stringify(method.Properties?.Integration?.Uri ?? '').includes('SaveChunkTranslation')
+      );
+
+      expect(editMethods).toHaveLength(1);
+      expect((editMethods[0] as any).Properties.HttpMethod).toBe('PUT');
+      expect((editMethods[0] as any).Properties.AuthorizationType).toBe('COGNITO_USER_POOLS');
+    });
+
+    test('ChunkEditLambdaRole writes edits only, never the machine translation', () => {
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const statements = Object.values(managedPolicies)
+        .filter((policy: any) =>
+          JSON.stringify(policy.Properties?.Roles ?? []).includes('ChunkEditLambdaRole')
+        )
+        .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement);
+
+      const writes = statements.filter((stmt: any) =>
+        [stmt.Action].flat().some((action: string) => /Put|Delete/.test(action))
+      );
+      expect(writes).toHaveLength(1);
+      expect(writes[0].Action).toBe('s3:PutObject');
+      expect(JSON.stringify(writes[0].Resource)).toContain('/translated-edits/*');
+      expect(JSON.stringify(writes[0].Resource)).not.toContain('/translated/*');
+    });
+
+    test('chunk history is served read-only behind COGNITO', () => {
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const historyMethods = Object.values(methods).filter((method: any) =>
+        JSON.stringify(method.Properties?.Integration?.Uri ?? '').includes('ChunkHistory')
+      );
+
+      // versions, versions/{versionId} and edits
+      expect(historyMethods).toHaveLength(3);
+      historyMethods.forEach((method: any) => {
+        expect(method.Properties.HttpMethod).toBe('GET');
+        expect(method.Properties.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      });
+
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const actions = Object.values(managedPolicies)
+        .filter((policy: any) =>
+          JSON.stringify(policy.Properties?.Roles ?? []).includes('ChunkHistoryLambdaRole')
+        )
+        .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement)
+        .flatMap((stmt: any) => [stmt.Action].flat());
+      expect(actions).toEqual(
+        expect.arrayContaining(['s3:GetObjectVersion', 's3:ListBucketVersions'])
+      );
+      expect(actions.filter((action: string) => /Put|Delete/.test(action))).toEqual([]);
+    });
+
+    test('review is served by its own Lambda behind COGNITO, with Jobs table access only', () => {
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const reviewMethods = Object.values(methods).filter((method: any) =>
+        JSON.stringify(method.Properties?.Integration?.Uri ?? '').includes('ReviewTranslation')
+      );
+
+      // chunks/{chunkIndex}/review, review/submit, review/request-changes,
+      // review/approve and /reviews
+      expect(reviewMethods.map((method: any) => method.Properties.HttpMethod).sort()).toEqual([
+        'GET',
+        'POST',
+        'POST',
+        'POST',
+        'PUT',
+      ]);
+      reviewMethods.forEach((method: any) => {
+        expect(method.Properties.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      });
+
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const statements = Object.values(managedPolicies)
+        .filter((policy: any) =>
+          JSON.stringify(policy.Properties?.Roles ?? []).includes('ReviewLambdaRole')
+        )
+        .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement);
+      const actions = statements.flatMap((stmt: any) => [stmt.Action].flat());
+      expect(actions.sort()).toEqual(['dynamodb:GetItem', 'dynamodb:Query', 'dynamodb:UpdateItem']);
+      // Query reaches the reviewer index, not the table
+      expect(
+        JSON.stringify(statements.find((stmt: any) => stmt.Action === 'dynamodb:Query').Resource)
+      ).toContain('/index/ReviewerJobsIndex');
+    });
+
+    test('comments are served by their own Lambda behind COGNITO, and the download Lambda prints them', () => {
+      const methods = template.findResources('AWS::ApiGateway::Method');
+      const commentMethods = Object.values(methods).filter((method: any) =>
+        JSON.stringify(method.Properties?.Integration?.Uri ?? '').includes('JobComments')
+      );
+
+      // comments (GET, POST), comments/{threadId}/replies and comments/{threadId}/resolve
+      expect(commentMethods.map((method: any) => method.Properties.HttpMethod).sort()).toEqual([
+        'GET',
+        'POST',
+        'POST',
+        'PUT',
+      ]);
+      commentMethods.forEach((method: any) => {
+        expect(method.Properties.AuthorizationType).toBe('COGNITO_USER_POOLS');
+      });
+
+      const managedPolicies = template.findResources('AWS::IAM::ManagedPolicy');
+      const statementsOf = (roleId: string) =>
+        Object.values(managedPolicies)
+          .filter((policy: any) => JSON.stringify(policy.Properties?.Roles ?? []).includes(roleId))
+          .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement);
+      const actions = statementsOf('CommentsLambdaRole').flatMap((stmt: any) =>
+        [stmt.Action].flat()
+      );
+      expect(actions.sort()).toEqual([
+        'dynamodb:GetItem',
+        'dynamodb:PutItem',
+        'dynamodb:Query',
+        'dynamodb:Query',
+        'dynamodb:UpdateItem',
+      ]);
+      expect(statementsOf('DownloadTranslationLambdaRole')).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            Action: 'dynamodb:Query',
+            Resource: { 'Fn::GetAtt': [expect.stringMatching(/^CommentsTable/), 'Arn'] },
+          }),
+        ])
+      );
+    });
+
+    test('translation Lambdas may stop executions of the translation state machine', () => {
+      template.hasResourceProperties('AWS::IAM::ManagedPolicy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: 'states:StopExecution', Effect: 'Allow' }),
+          ]),
+        },
+        Roles: Match.arrayWith([
+          Match.objectLike({ Ref: Match.stringLikeRegexp('TranslationLambdaRole') }),
+        ]),
+      });
+    });
+  });
+});
+
+describe('LFMT Infrastructure Stack — offline mock translation', () => {
+  const synth = (context: Record<string, string>) => {
+    const app = new App({ context: { skipLambdaBundling: 'true', ...context } });
+    const stack = new LfmtInfrastructureStack(app, 'MockStack', {
+      stackName: 'lfmt-mock',
+      environment: context.environment ?? 'dev',
+      enableLogging: false,
+      retainData: false,
+    });
+    return Template.fromStack(stack);
+  };
+
+  const translateChunkEnv = (template: Template) => {
+    const functions = template.findResources('AWS::Lambda::Function', {
+      Properties: { FunctionName: 'lfmt-translate-chunk-lfmt-mock' },
+    });
+    return (Object.values(functions)[0] as any).Properties.Environment.Variables;
+  };
+
+  test('translateChunk runs against the real providers by default', () => {
+    expect(translateChunkEnv(synth({}))).not.toHaveProperty('TRANSLATION_MOCK');
+  });
+
+  test('mockTranslation context enables the mock and its failure injection', () => {
+    const env = translateChunkEnv(
+      synth({ mockTranslation: 'true', mockTranslationFailures: '1:SAFETY' })
+    );
+
+    expect(env.TRANSLATION_MOCK).toBe('true');
+    expect(env.TRANSLATION_MOCK_FAILURES).toBe('1:SAFETY');
+  });
+
+  test('the brief Lambda uses the mock too', () => {
+    const functions = synth({ mockTranslation: 'true' }).findResources('AWS::Lambda::Function', {
+      Properties: { FunctionName: 'lfmt-build-translation-brief-lfmt-mock' },
+    });
+    const env = (Object.values(functions)[0] as any).Properties.Environment.Variables;
+
+    expect(env.TRANSLATION_MOCK).toBe('true');
+  });
+
+  test('mockTranslation is refused for prod', () => {
+    expect(() => synth({ mockTranslation: 'true', environment: 'prod' })).toThrow(
+      'mockTranslation cannot be enabled for the prod environment'
+    );
+  });
+});
+
+describe('LFMT Infrastructure Stack — chunk concurrency', () => {
+  const synth = (context: Record<string, string>) => {
+    const app = new App({ context: { skipLambdaBundling: 'true', ...context } });
+    const stack = new LfmtInfrastructureStack(app, 'ConcurrencyStack', {
+      stackName: 'lfmt-concurrency',
+      environment: 'dev',
+      enableLogging: false,
+      retainData: false,
+    });
+    return Template.fromStack(stack);
+  };
+
+  const mapState = (template: Template) => {
+    const stateMachine = Object.values(
+      template.findResources('AWS::StepFunctions::StateMachine')
+    )[0] as any;
+    const definition = JSON.parse(stateMachine.Properties.DefinitionString['Fn::Join'][1].join(''));
+    return Object.values(definition.States).find((state: any) => state.Type === 'Map') as any;
+  };
+
+  const startTranslationEnv = (template: Template) => {
+    const functions = template.findResources('AWS::Lambda::Function', {
+      Properties: { FunctionName: 'lfmt-start-translation-lfmt-concurrency' },
+    });
+    return (Object.values(functions)[0] as any).Properties.Environment.Variables;
+  };
+
+  test('the Map reads its concurrency and the context mode from the execution input', () => {
+    const map = mapState(synth({}));
+
+    expect(map.MaxConcurrencyPath).toBe('$.maxConcurrency');
+    expect(map.MaxConcurrency).toBeUndefined();
+    expect(map.Parameters['contextMode.$']).toBe('$.contextMode');
+    const task = Object.values(map.Iterator.States)[0] as any;
+    expect(task.Parameters.Payload['contextMode.$']).toBe('$.contextMode');
+  });
+
+  test('startTranslation receives the parallel concurrency from CDK context', () => {
+    expect(startTranslationEnv(synth({})).TRANSLATION_MAX_CONCURRENCY).toBe('10');
+    expect(startTranslationEnv(synth({ maxConcurrency: '4' })).TRANSLATION_MAX_CONCURRENCY).toBe(
+      '4'
+    );
   });
 });
 
@@ -19,6 +19,7 @@ import * as route53 from 'aws-cdk-lib/aws-route53';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { CustomResource } from 'aws-cdk-lib';
 import { Provider } from 'aws-cdk-lib/custom-resources';
+import { ALLOWED_FILE_EXTENSIONS } from '@lfmt/shared-types';
 
 // CSP builder — extracted into its own module (#216) so the directive
 // shape is testable in isolation and re-usable from non-stack constructs.
@@ -98,12 +99,17 @@ export class LfmtInfrastructureStack extends Stack {
   public readonly jobsTable: dynamodb.Table;
   public readonly usersTable: dynamodb.Table;
   public readonly attestationsTable: dynamodb.Table;
+  public readonly glossariesTable: dynamodb.Table;
+  public readonly translationMemoryTable: dynamodb.Table;
+  public readonly commentsTable: dynamodb.Table;
   public readonly documentBucket: s3.Bucket;
   public readonly resultsBucket: s3.Bucket;
   public readonly frontendBucket: s3.Bucket;
+  public readonly pdfFontsBucket: s3.Bucket;
   public readonly api: apigateway.RestApi;
   public readonly frontendDistribution: cloudfront.Distribution;
   public readonly translationApiKeySecret: secretsmanager.Secret;
+  public readonly anthropicApiKeySecret: secretsmanager.Secret;
 
   // Lambda functions
   private registerFunction?: lambda.Function;
@@ -112,15 +118,27 @@ export class LfmtInfrastructureStack extends Stack {
   private resetPasswordFunction?: lambda.Function;
   private getCurrentUserFunction?: lambda.Function;
   private uploadRequestFunction?: lambda.Function;
+  private createRevisionFunction?: lambda.Function;
   private uploadCompleteFunction?: lambda.Function;
   private chunkDocumentFunction?: lambda.Function;
   private translateChunkFunction?: lambda.Function;
+  private buildTranslationBriefFunction?: lambda.Function;
+  private recordTranslationMemoryFunction?: lambda.Function;
   private startTranslationFunction?: lambda.Function;
+  private recoverTranslationFunction?: lambda.Function;
+  private controlTranslationFunction?: lambda.Function;
   private getTranslationStatusFunction?: lambda.Function;
   private getJobFunction?: lambda.Function;
   private deleteJobFunction?: lambda.Function;
   private listJobsFunction?: lambda.Function;
   private downloadTranslationFunction?: lambda.Function;
+  private manageGlossariesFunction?: lambda.Function;
+  private glossaryReportFunction?: lambda.Function;
+  private getJobContentFunction?: lambda.Function;
+  private saveChunkTranslationFunction?: lambda.Function;
+  private chunkHistoryFunction?: lambda.Function;
+  private reviewTranslationFunction?: lambda.Function;
+  private jobCommentsFunction?: lambda.Function;
   // CSP violation-report collector (#201). Anonymous, unauthenticated
   // endpoint receiving browser reports — kept on its own role so the
   // (minimal) IAM grant is auditable in isolation.
@@ -144,8 +162,31 @@ export class LfmtInfrastructureStack extends Stack {
   // indexes which violates least-privilege for a read-only list endpoint.
   private listJobsRole?: iam.Role;
   // Dedicated role for the download-translation Lambda — scoped to GetItem on
-  // JobsTable and GetObject on the translated/* prefix only.
+  // JobsTable and GetObject on the translated/* and translated-edits/* prefixes.
   private downloadTranslationRole?: iam.Role;
+  // Dedicated role for the glossary CRUD Lambda — the only function that
+  // may delete glossary items. translationRole gets read-only GetItem on
+  // the same table for the translate-chunk prompt.
+  private glossaryRole?: iam.Role;
+  // Dedicated role for the glossary-report Lambda — read-only: GetItem on
+  // the Jobs and Glossaries tables, GetObject on chunks/* and translated/*.
+  private glossaryReportRole?: iam.Role;
+  // Dedicated role for the job-content Lambda — read-only: GetItem on the
+  // Jobs table, GetObject on documents/*, chunks/*, translated/* and
+  // translated-edits/*.
+  private jobContentRole?: iam.Role;
+  // Dedicated role for the save-chunk-translation Lambda — the only
+  // function that writes translated-edits/*.
+  private chunkEditRole?: iam.Role;
+  // Dedicated role for the chunk-history Lambda — read-only, and the only
+  // function that reads noncurrent object versions of translated/*.
+  private chunkHistoryRole?: iam.Role;
+  // Dedicated role for the review Lambda — GetItem and UpdateItem on the
+  // Jobs table only; review state lives on the job record.
+  private reviewRole?: iam.Role;
+  // Dedicated role for the comments Lambda — GetItem on the Jobs table
+  // (ownership) and read/write on the Comments table; no S3 access.
+  private commentsRole?: iam.Role;
   // Dedicated role for the CSP report collector (#201). Only the
   // CloudWatch Logs basic-execution permissions — NO DDB/S3/API access.
   // Keeping this on its own role is doubly important here because the
@@ -199,14 +240,18 @@ export class LfmtInfrastructureStack extends Stack {
    * protected endpoints; only the HTTP methods differ (POST for mutating resources,
    * GET for read endpoints). Centralising them here prevents the three lines of
    * headers drifting independently (OMC review #9).
+   *
+   * A resource that serves more than one non-simple method must list them all in
+   * `otherMethods`, or the browser's preflight rejects the ones left out.
    */
   private corsPreflightOptions(
-    primaryMethod: 'GET' | 'POST' | 'DELETE' | 'PUT'
+    primaryMethod: 'GET' | 'POST' | 'DELETE' | 'PUT',
+    ...otherMethods: Array<'GET' | 'POST' | 'DELETE' | 'PUT'>
   ): apigateway.ResourceOptions {
     return {
       defaultCorsPreflightOptions: {
         allowOrigins: this.getAllowedApiOrigins(),
-        allowMethods: [primaryMethod, 'OPTIONS'],
+        allowMethods: [primaryMethod, ...otherMethods, 'OPTIONS'],
         allowHeaders: [
           'Content-Type',
           'X-Amz-Date',
@@ -304,6 +349,14 @@ export class LfmtInfrastructureStack extends Stack {
       sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
     });
 
+    // Sparse GSI of the jobs submitted for review, by assigned reviewer: the
+    // reviewer reads a job they do not own through it (see jobRepository.ts)
+    this.jobsTable.addGlobalSecondaryIndex({
+      indexName: 'ReviewerJobsIndex',
+      partitionKey: { name: 'reviewerEmail', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'jobId', type: dynamodb.AttributeType.STRING },
+    });
+
     // Users Table - From Document 10 (User Management)
     (this as any).usersTable = new dynamodb.Table(this, 'UsersTable', {
       tableName: `lfmt-users-${this.stackName}`,
@@ -359,6 +412,46 @@ export class LfmtInfrastructureStack extends Stack {
       // Automatic cleanup of inactive buckets after 7 days
       timeToLiveAttribute: 'ttl',
     });
+
+    // Glossaries Table - Project glossaries enforced across chunk translations.
+    // userId HASH + glossaryId RANGE: GetItem with both keys enforces
+    // ownership and GET /glossaries is a single Query — no GSI needed.
+    (this as any).glossariesTable = new dynamodb.Table(this, 'GlossariesTable', {
+      tableName: `lfmt-glossaries-${this.stackName}`,
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'glossaryId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+    });
+
+    // Translation Memory Table - paragraph translations reused across jobs.
+    // memoryKey HASH is `{userId}#{targetLanguage}`, so every lookup stays
+    // inside the caller's own memory; segmentKey RANGE is a hash of the
+    // paragraph (see backend/functions/translation/translationMemory.ts).
+    (this as any).translationMemoryTable = new dynamodb.Table(this, 'TranslationMemoryTable', {
+      tableName: `lfmt-translation-memory-${this.stackName}`,
+      partitionKey: { name: 'memoryKey', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'segmentKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+    });
+
+    // Comments Table - review comment threads on a job's paragraphs.
+    // jobId HASH + threadId RANGE: a job's threads are one Query. Ownership
+    // is checked on the job record, so the table carries no userId.
+    (this as any).commentsTable = new dynamodb.Table(this, 'CommentsTable', {
+      tableName: `lfmt-comments-${this.stackName}`,
+      partitionKey: { name: 'jobId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'threadId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+    });
   }
 
   private createS3Buckets(removalPolicy: RemovalPolicy) {
@@ -441,6 +534,19 @@ export class LfmtInfrastructureStack extends Stack {
         },
       ],
     });
+
+    // PDF Fonts Bucket — Noto faces for non-Latin PDF export, fetched on
+    // demand by the download Lambda (too large to bundle). Kept apart from
+    // the document bucket because that bucket's 90-day expiration would
+    // delete them. Populated by operators under `fonts/`; no lifecycle.
+    (this as any).pdfFontsBucket = new s3.Bucket(this, 'PdfFontsBucket', {
+      bucketName: `lfmt-pdf-fonts-${this.stackName.toLowerCase()}`,
+      removalPolicy,
+      autoDeleteObjects: removalPolicy === RemovalPolicy.DESTROY,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      publicReadAccess: false,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+    });
   }
 
   /**
@@ -638,13 +744,17 @@ export class LfmtInfrastructureStack extends Stack {
     /**
      * Create Secrets Manager resources for sensitive configuration
      *
-     * Creates a placeholder secret for the Gemini API key.
-     * The secret value must be populated manually after deployment:
+     * Creates placeholder secrets for the translation provider API keys
+     * (Gemini, Anthropic). The secret values must be populated manually
+     * after deployment:
      *
      * aws secretsmanager put-secret-value \
      *   --secret-id lfmt/gemini-api-key-${STACK_NAME} \
      *   --secret-string "YOUR_GEMINI_API_KEY"
      *
+     * A provider whose secret is left empty fails its jobs at the first
+     * chunk; jobs on the other provider are unaffected.
+     *
      * This approach:
      * - Ensures the secret resource exists (IaC-managed)
      * - Avoids storing sensitive keys in code
@@ -659,6 +769,12 @@ export class LfmtInfrastructureStack extends Stack {
         removalPolicy,
       }
     );
+
+    (this as any).anthropicApiKeySecret = new secretsmanager.Secret(this, 'AnthropicApiKeySecret', {
+      secretName: `lfmt/anthropic-api-key-${this.stackName}`,
+      description: 'API Key for the translation service (Anthropic)',
+      removalPolicy,
+    });
   }
 
   private createApiGateway() {
@@ -697,7 +813,6 @@ export class LfmtInfrastructureStack extends Stack {
     const jobsResource = this.api.root.addResource('jobs');
     const uploadResource = this.api.root.addResource('upload');
     const legalResource = this.api.root.addResource('legal');
-    const claudeResource = this.api.root.addResource('claude');
 
     // Job-specific resources
     const jobResource = jobsResource.addResource('{jobId}');
@@ -981,11 +1096,22 @@ export class LfmtInfrastructureStack extends Stack {
             this.usersTable.tableArn,
             this.attestationsTable.tableArn,
             (this as any).rateLimitBucketsTable.tableArn,
+            // GetItem only in practice: startTranslation validates the
+            // glossaryId and translateChunk loads the terms for the prompt.
+            this.glossariesTable.tableArn,
             `${this.jobsTable.tableArn}/index/*`,
             `${this.usersTable.tableArn}/index/*`,
             `${this.attestationsTable.tableArn}/index/*`,
           ],
         }),
+        // Translation memory: translateChunk looks paragraphs up,
+        // recordTranslationMemory stores a completed job's paragraphs, and
+        // controlTranslation those of a paused job completed on resume.
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:BatchGetItem', 'dynamodb:BatchWriteItem'],
+          resources: [this.translationMemoryTable.tableArn],
+        }),
       ],
     });
 
@@ -997,6 +1123,7 @@ export class LfmtInfrastructureStack extends Stack {
     //     --secret-id lfmt/gemini-api-key-${this.stackName} \
     //     --secret-string "YOUR_GEMINI_API_KEY"
     this.translationApiKeySecret.grantRead((this as any).translationRole);
+    this.anthropicApiKeySecret.grantRead((this as any).translationRole);
 
     // SECURITY: Removed TranslationLambdaInvokePolicy
     // Translation functions do NOT invoke other Lambda functions directly
@@ -1059,7 +1186,8 @@ export class LfmtInfrastructureStack extends Stack {
     // on the entire bucket.  The download Lambda only needs:
     //   - dynamodb:GetItem on JobsTable (ownership check via loadJobForUser)
     //   - s3:GetObject on documentBucket/translated/* (read translated chunks)
-    //   - s3:ListBucket on documentBucket (enumerate chunks for assembly)
+    //     and translated-edits/* (chunks edited in the viewer)
+    //   - s3:ListBucket on documentBucket (enumerate chunks and edits for assembly)
     //   - CloudWatch Logs write (via AWSLambdaBasicExecutionRole)
     //
     // Scoping to the translated/* prefix prevents this function from reading
@@ -1083,11 +1211,14 @@ export class LfmtInfrastructureStack extends Stack {
           actions: ['dynamodb:GetItem'],
           resources: [this.jobsTable.tableArn],
         }),
-        // S3: GetObject scoped to the translated/* prefix (translated chunks only)
+        // S3: GetObject scoped to the translated chunks and their saved edits
         new iam.PolicyStatement({
           effect: iam.Effect.ALLOW,
           actions: ['s3:GetObject'],
-          resources: [`${this.documentBucket.bucketArn}/translated/*`],
+          resources: [
+            `${this.documentBucket.bucketArn}/translated/*`,
+            `${this.documentBucket.bucketArn}/translated-edits/*`,
+          ],
         }),
         // S3: ListBucket needed for ListObjectsV2 to enumerate chunks under the prefix.
         // Scoped to the bucket ARN (resource-level condition for prefix is on the key,
@@ -1111,6 +1242,19 @@ export class LfmtInfrastructureStack extends Stack {
           actions: ['s3:GetObject', 's3:PutObject'],
           resources: [`${this.documentBucket.bucketArn}/translated-output/*`],
         }),
+        // Non-Latin PDF export: read-only on the fonts/ prefix of the
+        // dedicated fonts bucket (see pdfFonts.ts).
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject'],
+          resources: [`${this.pdfFontsBucket.bucketArn}/fonts/*`],
+        }),
+        // Review PDF: reads the job's comment threads for the margin notes.
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:Query'],
+          resources: [this.commentsTable.tableArn],
+        }),
       ],
     });
 
@@ -1157,6 +1301,295 @@ export class LfmtInfrastructureStack extends Stack {
       ],
     });
 
+    // ===================================================================
+    // Role 8: Glossary Lambda Function Role (isolated, minimal permissions)
+    //
+    // EXCLUSIVELY for the manage-glossaries Lambda (CRUD under /glossaries).
+    // Scoped to the Glossaries table only — no jobs table, no S3. DeleteItem
+    // lives here rather than on translationRole for the same reason as
+    // Role 5: translationRole is shared by ~5 Lambdas.
+    // ===================================================================
+    this.glossaryRole = new iam.Role(this, 'GlossaryLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for manage-glossaries Lambda: Glossaries table CRUD only',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'GlossaryPolicy', {
+      roles: [this.glossaryRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: [
+            'dynamodb:GetItem',
+            'dynamodb:PutItem',
+            'dynamodb:DeleteItem',
+            'dynamodb:Query',
+          ],
+          resources: [this.glossariesTable.tableArn],
+        }),
+      ],
+    });
+
+    // ===================================================================
+    // Role 9: Glossary Report Lambda Function Role (isolated, read-only)
+    //
+    // EXCLUSIVELY for the glossary-report Lambda. Unlike Role 6 it must
+    // read the SOURCE chunks (chunks/*) as well as the translated ones, so
+    // it cannot share downloadTranslationRole without widening that role.
+    // s3:ListBucket enumerates a chunk's saved edits (translated-edits/*),
+    // whose newest one is checked in place of the machine translation.
+    // ===================================================================
+    this.glossaryReportRole = new iam.Role(this, 'GlossaryReportLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for glossary-report Lambda - read-only access to job, glossary, source and translated chunks',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'GlossaryReportPolicy', {
+      roles: [this.glossaryReportRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:GetItem'],
+          resources: [this.jobsTable.tableArn, this.glossariesTable.tableArn],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject'],
+          resources: [
+            `${this.documentBucket.bucketArn}/chunks/*`,
+            `${this.documentBucket.bucketArn}/translated/*`,
+            `${this.documentBucket.bucketArn}/translated-edits/*`,
+          ],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:ListBucket'],
+          resources: [this.documentBucket.bucketArn],
+        }),
+      ],
+    });
+
+    // ===================================================================
+    // Role 10: Job Content Lambda Function Role (isolated, read-only)
+    //
+    // EXCLUSIVELY for the job-content Lambda behind the compare view. It
+    // presigns GETs of the validated source documents (documents/*) and
+    // reads one source chunk and its translation at a time. A presigned
+    // URL carries the signer's permissions, so documents/* is granted here
+    // rather than on Role 6 or Role 9. s3:ListBucket enumerates a chunk's
+    // saved edits (translated-edits/*), whose newest one is shown in place
+    // of the machine translation; it also makes a missing translation
+    // NoSuchKey rather than AccessDenied. Query on ReviewerJobsIndex lets
+    // a job's assigned reviewer read it too.
+    // ===================================================================
+    this.jobContentRole = new iam.Role(this, 'JobContentLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for job-content Lambda - read-only access to job, source document, source and translated chunks',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'JobContentPolicy', {
+      roles: [this.jobContentRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:GetItem'],
+          resources: [this.jobsTable.tableArn],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:Query'],
+          resources: [`${this.jobsTable.tableArn}/index/ReviewerJobsIndex`],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject'],
+          resources: [
+            `${this.documentBucket.bucketArn}/documents/*`,
+            `${this.documentBucket.bucketArn}/chunks/*`,
+            `${this.documentBucket.bucketArn}/translated/*`,
+            `${this.documentBucket.bucketArn}/translated-edits/*`,
+          ],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:ListBucket'],
+          resources: [this.documentBucket.bucketArn],
+        }),
+      ],
+    });
+
+    // ===================================================================
+    // Role 11: Chunk Edit Lambda Function Role (isolated)
+    //
+    // EXCLUSIVELY for the save-chunk-translation Lambda. It checks the
+    // chunk's machine translation (translated/*, read-only) and lists the
+    // chunk's saved edits, then writes the next version. PutObject is
+    // granted on translated-edits/* only, so an edit can never overwrite
+    // the machine output it is diffed against. UpdateItem withdraws the
+    // edited chunk's review approval.
+    // ===================================================================
+    this.chunkEditRole = new iam.Role(this, 'ChunkEditLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for save-chunk-translation Lambda - reads translated chunks, writes edited versions',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'ChunkEditPolicy', {
+      roles: [this.chunkEditRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:GetItem', 'dynamodb:UpdateItem'],
+          resources: [this.jobsTable.tableArn],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject'],
+          resources: [`${this.documentBucket.bucketArn}/translated/*`],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:PutObject'],
+          resources: [`${this.documentBucket.bucketArn}/translated-edits/*`],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:ListBucket'],
+          resources: [this.documentBucket.bucketArn],
+        }),
+      ],
+    });
+
+    // ===================================================================
+    // Role 12: Chunk History Lambda Function Role (isolated, read-only)
+    //
+    // EXCLUSIVELY for the chunk-history Lambda. The documents bucket is
+    // versioned, so every machine translation a retry or retranslation
+    // overwrote is a noncurrent version of translated/*; s3:GetObjectVersion
+    // and s3:ListBucketVersions read those back, and only on this role.
+    // HeadObject is authorised by GetObject / GetObjectVersion.
+    // ===================================================================
+    this.chunkHistoryRole = new iam.Role(this, 'ChunkHistoryLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for chunk-history Lambda - read-only access to translated chunk versions and edits',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'ChunkHistoryPolicy', {
+      roles: [this.chunkHistoryRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:GetItem'],
+          resources: [this.jobsTable.tableArn],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject', 's3:GetObjectVersion'],
+          resources: [`${this.documentBucket.bucketArn}/translated/*`],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject'],
+          resources: [`${this.documentBucket.bucketArn}/translated-edits/*`],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:ListBucket', 's3:ListBucketVersions'],
+          resources: [this.documentBucket.bucketArn],
+        }),
+      ],
+    });
+
+    // ===================================================================
+    // Role 13: Review Lambda Function Role (isolated)
+    //
+    // EXCLUSIVELY for the review-translation Lambda. The review — status,
+    // reviewer and per-chunk approvals — is kept on the job record, so the
+    // role needs the Jobs table only: no S3 access at all. Query on
+    // ReviewerJobsIndex finds the jobs assigned to the reviewer.
+    // ===================================================================
+    this.reviewRole = new iam.Role(this, 'ReviewLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for review-translation Lambda - reads and updates job review state',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'ReviewPolicy', {
+      roles: [this.reviewRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:GetItem', 'dynamodb:UpdateItem'],
+          resources: [this.jobsTable.tableArn],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:Query'],
+          resources: [`${this.jobsTable.tableArn}/index/ReviewerJobsIndex`],
+        }),
+      ],
+    });
+
+    // ===================================================================
+    // Role 14: Comments Lambda Function Role (isolated)
+    //
+    // EXCLUSIVELY for the job-comments Lambda. GetItem on the Jobs table
+    // for the ownership check — Query on ReviewerJobsIndex for the assigned
+    // reviewer's — and Query / PutItem / UpdateItem on the Comments table;
+    // threads are never deleted, so no DeleteItem.
+    // ===================================================================
+    this.commentsRole = new iam.Role(this, 'CommentsLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description:
+        'Isolated execution role for job-comments Lambda - reads and writes comment threads on owned or reviewed jobs',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    new iam.ManagedPolicy(this, 'CommentsPolicy', {
+      roles: [this.commentsRole],
+      statements: [
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:GetItem'],
+          resources: [this.jobsTable.tableArn],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:Query'],
+          resources: [`${this.jobsTable.tableArn}/index/ReviewerJobsIndex`],
+        }),
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['dynamodb:Query', 'dynamodb:PutItem', 'dynamodb:UpdateItem'],
+          resources: [this.commentsTable.tableArn],
+        }),
+      ],
+    });
+
     // CSP Report Collector Role (#201) — strictest possible IAM grant.
     //
     // The /csp-report endpoint is INTENTIONALLY unauthenticated (browsers
@@ -1298,9 +1731,13 @@ export class LfmtInfrastructureStack extends Stack {
       USERS_TABLE_NAME: this.usersTable.tableName,
       ATTESTATIONS_TABLE_NAME: this.attestationsTable.tableName,
       RATE_LIMIT_BUCKETS_TABLE: (this as any).rateLimitBucketsTable.tableName,
+      GLOSSARIES_TABLE: this.glossariesTable.tableName,
+      TRANSLATION_MEMORY_TABLE: this.translationMemoryTable.tableName,
+      COMMENTS_TABLE: this.commentsTable.tableName,
       DOCUMENT_BUCKET: this.documentBucket.bucketName,
       CHUNKS_BUCKET: this.documentBucket.bucketName, // Chunks stored in same bucket as documents
       GEMINI_API_KEY_SECRET_NAME: this.translationApiKeySecret.secretName,
+      ANTHROPIC_API_KEY_SECRET_NAME: this.anthropicApiKeySecret.secretName,
       // Pass all allowed origins as comma-separated list (includes localhost + CloudFront URL)
       ALLOWED_ORIGINS: this.getAllowedApiOrigins().join(','),
     };
@@ -1425,6 +1862,27 @@ export class LfmtInfrastructureStack extends Stack {
       },
     });
 
+    // Create Revision Lambda Function — presigned URL for a revised source
+    // document of a completed job (same grants as the first upload)
+    this.createRevisionFunction = new NodejsFunction(this, 'CreateRevisionFunction', {
+      functionName: `lfmt-create-revision-${this.stackName}`,
+      entry: '../functions/jobs/createRevision.ts',
+      handler: 'handler',
+      runtime: LAMBDA_RUNTIME,
+      architecture: LAMBDA_ARCHITECTURE,
+      role: uploadRole,
+      environment: commonEnv,
+      timeout: Duration.seconds(30),
+      memorySize: 512,
+      description: 'Start a new revision of a translated job',
+      bundling: {
+        externalModules: ['aws-sdk', '@aws-sdk/*'],
+        minify: true,
+        sourceMap: true,
+        forceDockerBundling: false,
+      },
+    });
+
     // Upload Complete Lambda Function (S3 event handler)
     this.uploadCompleteFunction = new NodejsFunction(this, 'UploadCompleteFunction', {
       functionName: `lfmt-upload-complete-${this.stackName}`,
@@ -1436,7 +1894,90 @@ export class LfmtInfrastructureStack extends Stack {
       environment: commonEnv,
       timeout: Duration.seconds(60), // Longer timeout for validation and updates
       memorySize: 512,
-      description: 'Process S3 upload completion events and update job status',
+      description: 'Process S3 upload completion events and update job status',
+      bundling: {
+        externalModules: ['aws-sdk', '@aws-sdk/*'],
+        minify: true,
+        sourceMap: true,
+        forceDockerBundling: false,
+      },
+    });
+
+    // Document Chunking Lambda Function (S3 event handler)
+    this.chunkDocumentFunction = new NodejsFunction(this, 'ChunkDocumentFunction', {
+      functionName: `lfmt-chunk-document-${this.stackName}`,
+      entry: '../functions/chunking/chunkDocument.ts',
+      handler: 'handler',
+      runtime: LAMBDA_RUNTIME,
+      architecture: LAMBDA_ARCHITECTURE,
+      role: chunkingRole,
+      environment: commonEnv,
+      timeout: Duration.minutes(5), // 5 minutes for large document processing
+      memorySize: 1024, // 1GB for chunking large documents
+      description: 'Process uploaded documents and create chunks for translation',
+      bundling: {
+        externalModules: ['aws-sdk', '@aws-sdk/*'],
+        minify: true,
+        sourceMap: true,
+        forceDockerBundling: false,
+      },
+    });
+
+    // Offline mock translation (translation/mockGenAI.ts) for CI stacks:
+    //   cdk deploy -c mockTranslation=true [-c mockTranslationFailures=3:SAFETY]
+    // Refused in prod — a mocked prod stack would return pseudo-translations
+    // to paying users.
+    const mockTranslation = this.node.tryGetContext('mockTranslation') === 'true';
+    if (mockTranslation && this.node.tryGetContext('environment') === 'prod') {
+      throw new Error('mockTranslation cannot be enabled for the prod environment');
+    }
+    const mockTranslationFailures = this.node.tryGetContext('mockTranslationFailures');
+
+    // Translate Chunk Lambda Function (processes individual chunks)
+    this.translateChunkFunction = new NodejsFunction(this, 'TranslateChunkFunction', {
+      functionName: `lfmt-translate-chunk-${this.stackName}`,
+      entry: '../functions/translation/translateChunk.ts',
+      handler: 'handler',
+      runtime: LAMBDA_RUNTIME,
+      architecture: LAMBDA_ARCHITECTURE,
+      role: translationRole,
+      environment: {
+        ...commonEnv,
+        TRANSLATE_CHUNK_FUNCTION_NAME: `lfmt-translate-chunk-${this.stackName}`, // Self-reference for recursive calls
+        ...(mockTranslation && { TRANSLATION_MOCK: 'true' }),
+        ...(mockTranslation &&
+          mockTranslationFailures && {
+            TRANSLATION_MOCK_FAILURES: String(mockTranslationFailures),
+          }),
+      },
+      timeout: Duration.minutes(2), // 2 minutes for Gemini API call with retries
+      memorySize: 512,
+      description: 'Translate individual document chunks using Gemini API',
+      bundling: {
+        externalModules: ['aws-sdk', '@aws-sdk/*'],
+        minify: true,
+        sourceMap: true,
+        forceDockerBundling: false,
+      },
+    });
+
+    // Build Translation Brief Lambda Function (runs once per execution, before
+    // the chunks; a no-op unless the job was started with a brief). Same mock
+    // switch as translateChunk so a mocked stack makes no vendor calls.
+    this.buildTranslationBriefFunction = new NodejsFunction(this, 'BuildTranslationBriefFunction', {
+      functionName: `lfmt-build-translation-brief-${this.stackName}`,
+      entry: '../functions/translation/buildTranslationBrief.ts',
+      handler: 'handler',
+      runtime: LAMBDA_RUNTIME,
+      architecture: LAMBDA_ARCHITECTURE,
+      role: translationRole,
+      environment: {
+        ...commonEnv,
+        ...(mockTranslation && { TRANSLATION_MOCK: 'true' }),
+      },
+      timeout: Duration.minutes(3), // one long-prompt model call with retries
+      memorySize: 512,
+      description: 'Write the translation memory brief for a job before its chunks run',
       bundling: {
         externalModules: ['aws-sdk', '@aws-sdk/*'],
         minify: true,
@@ -1445,18 +1986,60 @@ export class LfmtInfrastructureStack extends Stack {
       },
     });
 
-    // Document Chunking Lambda Function (S3 event handler)
-    this.chunkDocumentFunction = new NodejsFunction(this, 'ChunkDocumentFunction', {
-      functionName: `lfmt-chunk-document-${this.stackName}`,
-      entry: '../functions/chunking/chunkDocument.ts',
+    // Record Translation Memory Lambda Function (runs once per successful
+    // execution, after the job is marked COMPLETED)
+    this.recordTranslationMemoryFunction = new NodejsFunction(
+      this,
+      'RecordTranslationMemoryFunction',
+      {
+        functionName: `lfmt-record-translation-memory-${this.stackName}`,
+        entry: '../functions/translation/recordTranslationMemory.ts',
+        handler: 'handler',
+        runtime: LAMBDA_RUNTIME,
+        architecture: LAMBDA_ARCHITECTURE,
+        role: translationRole,
+        environment: commonEnv,
+        timeout: Duration.minutes(5), // reads every chunk of a 400K-word document
+        memorySize: 512,
+        description:
+          "Add a completed job's paragraph translations to the user's translation memory",
+        bundling: {
+          externalModules: ['aws-sdk', '@aws-sdk/*'],
+          minify: true,
+          sourceMap: true,
+          forceDockerBundling: false,
+        },
+      }
+    );
+
+    // Chunks translated at once by a parallel job. startTranslation puts it
+    // in the execution input (1 for a sequential job) and the ProcessChunksMap
+    // state reads it from there. Configurable per environment via CDK context:
+    // - Dev: Lower concurrency (5) to conserve resources
+    // - Staging: Match production (10) for testing
+    // - Production: Higher concurrency (15-20) as we scale
+    // Default: 10 (balanced for Gemini rate limits: 5 RPM per account)
+    const maxConcurrency = Number(this.node.tryGetContext('maxConcurrency') || 10);
+
+    // Start Translation Lambda Function (initiates translation process)
+    // Note: STATE_MACHINE_NAME provided as env var; Lambda constructs full ARN dynamically to avoid circular dependency
+    this.startTranslationFunction = new NodejsFunction(this, 'StartTranslationFunction', {
+      functionName: `lfmt-start-translation-${this.stackName}`,
+      entry: '../functions/jobs/startTranslation.ts',
       handler: 'handler',
       runtime: LAMBDA_RUNTIME,
       architecture: LAMBDA_ARCHITECTURE,
-      role: chunkingRole,
-      environment: commonEnv,
-      timeout: Duration.minutes(5), // 5 minutes for large document processing
-      memorySize: 1024, // 1GB for chunking large documents
-      description: 'Process uploaded documents and create chunks for translation',
+      role: translationRole,
+      environment: {
+        ...commonEnv,
+        TRANSLATE_CHUNK_FUNCTION_NAME: `lfmt-translate-chunk-${this.stackName}`,
+        // Pass state machine name only; Lambda constructs full ARN to avoid circular dependency
+        STATE_MACHINE_NAME: `lfmt-translation-workflow-${this.stackName}`,
+        TRANSLATION_MAX_CONCURRENCY: String(maxConcurrency),
+      },
+      timeout: Duration.seconds(30),
+      memorySize: 256,
+      description: 'Start translation process for a chunked document',
       bundling: {
         externalModules: ['aws-sdk', '@aws-sdk/*'],
         minify: true,
@@ -1465,21 +2048,24 @@ export class LfmtInfrastructureStack extends Stack {
       },
     });
 
-    // Translate Chunk Lambda Function (processes individual chunks)
-    this.translateChunkFunction = new NodejsFunction(this, 'TranslateChunkFunction', {
-      functionName: `lfmt-translate-chunk-${this.stackName}`,
-      entry: '../functions/translation/translateChunk.ts',
+    // Recover Translation Lambda Function (retries the failed chunks of a job
+    // or retranslates one chunk). Starts the same state machine as
+    // startTranslation, over a subset of the chunks.
+    this.recoverTranslationFunction = new NodejsFunction(this, 'RecoverTranslationFunction', {
+      functionName: `lfmt-recover-translation-${this.stackName}`,
+      entry: '../functions/jobs/recoverTranslation.ts',
       handler: 'handler',
       runtime: LAMBDA_RUNTIME,
       architecture: LAMBDA_ARCHITECTURE,
       role: translationRole,
       environment: {
         ...commonEnv,
-        TRANSLATE_CHUNK_FUNCTION_NAME: `lfmt-translate-chunk-${this.stackName}`, // Self-reference for recursive calls
+        STATE_MACHINE_NAME: `lfmt-translation-workflow-${this.stackName}`,
+        TRANSLATION_MAX_CONCURRENCY: String(maxConcurrency),
       },
-      timeout: Duration.minutes(2), // 2 minutes for Gemini API call with retries
-      memorySize: 512,
-      description: 'Translate individual document chunks using Gemini API',
+      timeout: Duration.seconds(30),
+      memorySize: 256,
+      description: 'Retry failed chunks or retranslate one chunk of a job',
       bundling: {
         externalModules: ['aws-sdk', '@aws-sdk/*'],
         minify: true,
@@ -1488,24 +2074,24 @@ export class LfmtInfrastructureStack extends Stack {
       },
     });
 
-    // Start Translation Lambda Function (initiates translation process)
-    // Note: STATE_MACHINE_NAME provided as env var; Lambda constructs full ARN dynamically to avoid circular dependency
-    this.startTranslationFunction = new NodejsFunction(this, 'StartTranslationFunction', {
-      functionName: `lfmt-start-translation-${this.stackName}`,
-      entry: '../functions/jobs/startTranslation.ts',
+    // Control Translation Lambda Function (pauses, resumes and cancels a
+    // running translation). Stops the job's execution; resuming starts a new
+    // one over the chunks not translated yet.
+    this.controlTranslationFunction = new NodejsFunction(this, 'ControlTranslationFunction', {
+      functionName: `lfmt-control-translation-${this.stackName}`,
+      entry: '../functions/jobs/controlTranslation.ts',
       handler: 'handler',
       runtime: LAMBDA_RUNTIME,
       architecture: LAMBDA_ARCHITECTURE,
       role: translationRole,
       environment: {
         ...commonEnv,
-        TRANSLATE_CHUNK_FUNCTION_NAME: `lfmt-translate-chunk-${this.stackName}`,
-        // Pass state machine name only; Lambda constructs full ARN to avoid circular dependency
         STATE_MACHINE_NAME: `lfmt-translation-workflow-${this.stackName}`,
+        TRANSLATION_MAX_CONCURRENCY: String(maxConcurrency),
       },
       timeout: Duration.seconds(30),
       memorySize: 256,
-      description: 'Start translation process for a chunked document',
+      description: 'Pause, resume or cancel a running translation',
       bundling: {
         externalModules: ['aws-sdk', '@aws-sdk/*'],
         minify: true,
@@ -1602,7 +2188,10 @@ export class LfmtInfrastructureStack extends Stack {
       description:
         'Assemble translated chunks and return full document for download - markdown inline, ePub/PDF via presigned URL (#28)',
       role: this.downloadTranslationRole,
-      environment: commonEnv,
+      environment: {
+        ...commonEnv,
+        PDF_FONTS_BUCKET: this.pdfFontsBucket.bucketName,
+      },
       // Issue #28: ePub/PDF generation can take 1–5 s for a multi-megabyte
       // source. 120 s gives headroom for cold-start + chunk fan-out
       // (115 chunks for a 400K-word doc) + conversion + S3 PutObject.
@@ -1626,6 +2215,122 @@ export class LfmtInfrastructureStack extends Stack {
       },
     });
 
+    // Manage Glossaries Lambda Function — /glossaries CRUD
+    // One function serves list/create/get/update/delete; every route needs
+    // the same Glossaries-table grant (glossaryRole, Role 8).
+    if (!this.glossaryRole) {
+      throw new Error('glossaryRole must be created before createLambdaFunctions');
+    }
+    this.manageGlossariesFunction = this.createJobLambda({
+      id: 'ManageGlossariesFunction',
+      functionName: `lfmt-manage-glossaries-${this.stackName}`,
+      entry: '../functions/glossaries/manageGlossaries.ts',
+      description:
+        'Create, list, read, update and delete project glossaries (authenticated owner only)',
+      role: this.glossaryRole,
+      environment: commonEnv,
+    });
+
+    // Glossary Report Lambda Function — GET /jobs/{jobId}/glossary-report
+    // Uses DEDICATED role (glossaryReportRole, Role 9): read-only access to
+    // the job, the glossary, and the source + translated chunks.
+    if (!this.glossaryReportRole) {
+      throw new Error('glossaryReportRole must be created before createLambdaFunctions');
+    }
+    this.glossaryReportFunction = this.createJobLambda({
+      id: 'GlossaryReportFunction',
+      functionName: `lfmt-glossary-report-${this.stackName}`,
+      entry: '../functions/glossaries/getGlossaryReport.ts',
+      description:
+        'Check a completed translation against a glossary and report per-chunk violations',
+      role: this.glossaryReportRole,
+      environment: commonEnv,
+      // 115 chunks x 2 GetObjects in batches of 10 — well under a minute,
+      // but the default 30 s leaves little headroom on a cold start.
+      timeoutSeconds: 60,
+    });
+
+    // Job Content Lambda Function — GET /jobs/{jobId}/source and
+    // GET /jobs/{jobId}/chunks/{chunkIndex}, behind the compare view.
+    // Uses DEDICATED role (jobContentRole, Role 10): read-only access to the
+    // job, its source document, and the source + translated chunks.
+    if (!this.jobContentRole) {
+      throw new Error('jobContentRole must be created before createLambdaFunctions');
+    }
+    this.getJobContentFunction = this.createJobLambda({
+      id: 'GetJobContentFunction',
+      functionName: `lfmt-get-job-content-${this.stackName}`,
+      entry: '../functions/jobs/getJobContent.ts',
+      description: 'Presign the source document of a job or return one chunk with its translation',
+      role: this.jobContentRole,
+      environment: commonEnv,
+    });
+
+    // Save Chunk Translation Lambda Function —
+    // PUT /jobs/{jobId}/chunks/{chunkIndex}/translation, from the compare view.
+    // Uses DEDICATED role (chunkEditRole, Role 11): writes translated-edits/* only.
+    if (!this.chunkEditRole) {
+      throw new Error('chunkEditRole must be created before createLambdaFunctions');
+    }
+    this.saveChunkTranslationFunction = this.createJobLambda({
+      id: 'SaveChunkTranslationFunction',
+      functionName: `lfmt-save-chunk-translation-${this.stackName}`,
+      entry: '../functions/jobs/saveChunkTranslation.ts',
+      description: 'Save an edited chunk translation as a new version next to the machine output',
+      role: this.chunkEditRole,
+      environment: commonEnv,
+    });
+
+    // Chunk History Lambda Function —
+    // GET /jobs/{jobId}/chunks/{chunkIndex}/versions[/{versionId}] and
+    // GET /jobs/{jobId}/edits, behind the chunk history view.
+    // Uses DEDICATED role (chunkHistoryRole, Role 12): read-only.
+    if (!this.chunkHistoryRole) {
+      throw new Error('chunkHistoryRole must be created before createLambdaFunctions');
+    }
+    this.chunkHistoryFunction = this.createJobLambda({
+      id: 'ChunkHistoryFunction',
+      functionName: `lfmt-chunk-history-${this.stackName}`,
+      entry: '../functions/jobs/getChunkHistory.ts',
+      description: 'List the versions of a translated chunk and export the edits of a job',
+      role: this.chunkHistoryRole,
+      environment: commonEnv,
+    });
+
+    // Review Translation Lambda Function —
+    // POST /jobs/{jobId}/review/{submit,request-changes,approve},
+    // PUT /jobs/{jobId}/chunks/{chunkIndex}/review and GET /reviews.
+    // Uses DEDICATED role (reviewRole, Role 13): the Jobs table only.
+    if (!this.reviewRole) {
+      throw new Error('reviewRole must be created before createLambdaFunctions');
+    }
+    this.reviewTranslationFunction = this.createJobLambda({
+      id: 'ReviewTranslationFunction',
+      functionName: `lfmt-review-translation-${this.stackName}`,
+      entry: '../functions/jobs/reviewTranslation.ts',
+      description: 'Move a completed translation through review and record chunk approvals',
+      role: this.reviewRole,
+      environment: commonEnv,
+    });
+
+    // Job Comments Lambda Function —
+    // GET/POST /jobs/{jobId}/comments,
+    // POST /jobs/{jobId}/comments/{threadId}/replies and
+    // PUT /jobs/{jobId}/comments/{threadId}/resolve.
+    // Uses DEDICATED role (commentsRole, Role 14): the Comments table, plus
+    // GetItem on the Jobs table.
+    if (!this.commentsRole) {
+      throw new Error('commentsRole must be created before createLambdaFunctions');
+    }
+    this.jobCommentsFunction = this.createJobLambda({
+      id: 'JobCommentsFunction',
+      functionName: `lfmt-job-comments-${this.stackName}`,
+      entry: '../functions/jobs/jobComments.ts',
+      description: 'Open, reply to and resolve comment threads on the paragraphs of a translation',
+      role: this.commentsRole,
+      environment: commonEnv,
+    });
+
     // CSP Report Collector Lambda (#201) — POST /csp-report (unauthenticated)
     //
     // Receives browser CSP violation reports and logs them to CloudWatch
@@ -1653,31 +2358,40 @@ export class LfmtInfrastructureStack extends Stack {
       memoryMB: 128,
     });
 
-    // Add S3 event notification for upload completion
-    this.documentBucket.addEventNotification(
-      s3.EventType.OBJECT_CREATED,
-      new s3n.LambdaDestination(this.uploadCompleteFunction),
-      {
-        prefix: 'uploads/',
-        suffix: '.txt',
-      }
-    );
-
-    // Add S3 event notification for document chunking
-    // This triggers after uploadComplete moves files from uploads/ to documents/
-    this.documentBucket.addEventNotification(
-      s3.EventType.OBJECT_CREATED,
-      new s3n.LambdaDestination(this.chunkDocumentFunction),
-      {
-        prefix: 'documents/',
-        suffix: '.txt',
-      }
-    );
+    // S3 notification filters take a single suffix, so each accepted upload
+    // extension (.txt, .docx, .epub, .srt, .vtt — see FILE_VALIDATION) gets
+    // its own pair.
+    for (const suffix of ALLOWED_FILE_EXTENSIONS) {
+      // Add S3 event notification for upload completion
+      this.documentBucket.addEventNotification(
+        s3.EventType.OBJECT_CREATED,
+        new s3n.LambdaDestination(this.uploadCompleteFunction),
+        {
+          prefix: 'uploads/',
+          suffix,
+        }
+      );
+
+      // Add S3 event notification for document chunking
+      // This triggers after uploadComplete moves files from uploads/ to documents/
+      this.documentBucket.addEventNotification(
+        s3.EventType.OBJECT_CREATED,
+        new s3n.LambdaDestination(this.chunkDocumentFunction),
+        {
+          prefix: 'documents/',
+          suffix,
+        }
+      );
+    }
   }
 
   private createStepFunctions() {
-    if (!this.translateChunkFunction) {
-      throw new Error('Translate chunk function must be created before Step Functions');
+    if (
+      !this.translateChunkFunction ||
+      !this.buildTranslationBriefFunction ||
+      !this.recordTranslationMemoryFunction
+    ) {
+      throw new Error('Translation functions must be created before Step Functions');
     }
 
     /**
@@ -1688,12 +2402,14 @@ export class LfmtInfrastructureStack extends Stack {
      * Flow:
      * 1. Initialize translation (mark job as IN_PROGRESS)
      * 2. Load job metadata from DynamoDB
-     * 3. Map state - iterate through all chunks sequentially
-     * 4. For each chunk:
+     * 3. Write the translation memory brief (no-op unless requested)
+     * 4. Map state - iterate through all chunks
+     * 5. For each chunk:
      *    - Invoke translateChunk Lambda
      *    - Lambda handles rate limiting internally
      *    - Update progress in DynamoDB
-     * 5. Mark job as COMPLETED or FAILED
+     * 6. Mark job as COMPLETED or FAILED
+     * 7. On success, add the job to the user's translation memory
      *
      * Error Handling:
      * - Retry transient failures (rate limits, API errors)
@@ -1704,7 +2420,7 @@ export class LfmtInfrastructureStack extends Stack {
     // Define the Translate Chunk task with retry logic
     const translateChunkTask = new tasks.LambdaInvoke(this, 'TranslateChunkTask', {
       lambdaFunction: this.translateChunkFunction,
-      // Input: { jobId, userId, chunkIndex, targetLanguage, tone, contextChunks }
+      // Input: { jobId, userId, chunkIndex, targetLanguage, tone, contextChunks, contextMode, glossaryId, retranslation }
       payload: stepfunctions.TaskInput.fromObject({
         jobId: stepfunctions.JsonPath.stringAt('$.jobId'),
         userId: stepfunctions.JsonPath.stringAt('$.userId'),
@@ -1712,6 +2428,14 @@ export class LfmtInfrastructureStack extends Stack {
         targetLanguage: stepfunctions.JsonPath.stringAt('$.targetLanguage'),
         tone: stepfunctions.JsonPath.stringAt('$.tone'),
         contextChunks: stepfunctions.JsonPath.numberAt('$.contextChunks'),
+        contextMode: stepfunctions.JsonPath.stringAt('$.contextMode'),
+        // null when no glossary was requested — startTranslation always
+        // sets the key so this path never goes missing.
+        glossaryId: stepfunctions.JsonPath.stringAt('$.glossaryId'),
+        // null on a first translation; set by the recovery endpoints
+        // (recoverTranslation.ts), which run the state machine again over
+        // some of the chunks.
+        retranslation: stepfunctions.JsonPath.objectAt('$.retranslation'),
       }),
       resultPath: '$.translateResult',
       retryOnServiceExceptions: true,
@@ -1741,15 +2465,34 @@ export class LfmtInfrastructureStack extends Stack {
     // The fix below catches at the Map level and routes to a real DDB writer
     // that records TRANSLATION_FAILED, so the UI sees the truth.
 
-    // Map state to process all chunks in parallel
-    // maxConcurrency can be configured per environment via CDK context:
-    // - Dev: Lower concurrency (5) to conserve resources
-    // - Staging: Match production (10) for testing
-    // - Production: Higher concurrency (15-20) as we scale
-    // Default: 10 (balanced for Gemini rate limits: 5 RPM per account)
-    const maxConcurrency = this.node.tryGetContext('maxConcurrency') || 10;
+    // Write the translation memory brief before any chunk runs. The Lambda
+    // returns at once for `briefMode: 'off'`, and a brief that cannot be
+    // written is not worth failing the job over: after the retries the
+    // chunks run without it (translateChunk tolerates a missing brief).
+    const buildTranslationBriefTask = new tasks.LambdaInvoke(this, 'BuildTranslationBriefTask', {
+      lambdaFunction: this.buildTranslationBriefFunction,
+      payload: stepfunctions.TaskInput.fromObject({
+        jobId: stepfunctions.JsonPath.stringAt('$.jobId'),
+        userId: stepfunctions.JsonPath.stringAt('$.userId'),
+        targetLanguage: stepfunctions.JsonPath.stringAt('$.targetLanguage'),
+        briefMode: stepfunctions.JsonPath.stringAt('$.briefMode'),
+      }),
+      resultPath: stepfunctions.JsonPath.DISCARD,
+      retryOnServiceExceptions: true,
+    });
+    buildTranslationBriefTask.addRetry({
+      errors: ['BriefRetryableError'],
+      interval: Duration.seconds(10),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    // Map state to process all chunks — in parallel, or one at a time in
+    // input order for a sequential-context job. The concurrency comes from
+    // the execution input (see `maxConcurrency` above), so both modes share
+    // one state machine.
     const processChunksMap = new stepfunctions.Map(this, 'ProcessChunksMap', {
-      maxConcurrency,
+      maxConcurrencyPath: '$.maxConcurrency',
       itemsPath: stepfunctions.JsonPath.stringAt('$.chunks'),
       parameters: {
         'jobId.$': '$.jobId',
@@ -1758,6 +2501,9 @@ export class LfmtInfrastructureStack extends Stack {
         'targetLanguage.$': '$.targetLanguage',
         'tone.$': '$.tone',
         'contextChunks.$': '$.contextChunks',
+        'contextMode.$': '$.contextMode',
+        'glossaryId.$': '$.glossaryId',
+        'retranslation.$': '$.retranslation',
       },
       resultPath: '$.translationResults',
     });
@@ -1784,6 +2530,14 @@ export class LfmtInfrastructureStack extends Stack {
     //
     // `#status` is used because `status` is a DDB reserved word — the
     // ExpressionAttributeNames map below aliases it.
+    //
+    // The write is conditional, like every job update of the chunk Lambda
+    // (STILL_RUNNING_CONDITION in translateChunk.ts): a pause or cancel
+    // that lands after the last chunk but before this state must not be
+    // overwritten with COMPLETED. The condition cannot require
+    // IN_PROGRESS — the last chunk's own progress update has already set
+    // translationStatus to COMPLETED. A failed condition is caught below
+    // and ends the execution in TranslationStopped.
     const updateJobCompleted = new tasks.DynamoUpdateItem(this, 'UpdateJobCompleted', {
       table: this.jobsTable,
       key: {
@@ -1792,11 +2546,14 @@ export class LfmtInfrastructureStack extends Stack {
       },
       updateExpression:
         'SET translationStatus = :status, #status = :outerStatus, translationCompletedAt = :completedAt, translatedChunks = :totalChunks, updatedAt = :updatedAt',
+      conditionExpression: 'NOT translationStatus IN (:paused, :cancelled)',
       expressionAttributeNames: {
         '#status': 'status',
       },
       expressionAttributeValues: {
         ':status': tasks.DynamoAttributeValue.fromString('COMPLETED'),
+        ':paused': tasks.DynamoAttributeValue.fromString('PAUSED'),
+        ':cancelled': tasks.DynamoAttributeValue.fromString('CANCELLED'),
         // 'COMPLETED' is a member of shared-types/src/jobs.ts JobStatus union
         // and matches what frontend logic (TranslationDetail.tsx) expects on
         // terminal success.
@@ -1805,9 +2562,11 @@ export class LfmtInfrastructureStack extends Stack {
           stepfunctions.JsonPath.stringAt('$$.State.EnteredTime')
         ),
         // CRITICAL FIX: DynamoDB NUMBER attributes in Step Functions MUST be provided as strings
-        // Using States.Format() to convert the number result from States.ArrayLength() to a string
+        // Using States.Format() to convert the number to a string. The job's
+        // chunk count comes from the input: a recovery execution's $.chunks
+        // holds only the chunks it translates again.
         ':totalChunks': tasks.DynamoAttributeValue.fromString(
-          stepfunctions.JsonPath.stringAt("States.Format('{}', States.ArrayLength($.chunks))")
+          stepfunctions.JsonPath.stringAt("States.Format('{}', $.totalChunks)")
         ),
         ':updatedAt': tasks.DynamoAttributeValue.fromString(
           stepfunctions.JsonPath.stringAt('$$.State.EnteredTime')
@@ -2015,6 +2774,40 @@ export class LfmtInfrastructureStack extends Stack {
       comment: 'All chunks translated successfully - hotfix v1',
     });
 
+    // Add the finished job to the user's translation memory. Runs after
+    // UpdateJobCompleted so the user never waits on it, and any failure
+    // still ends in TranslationSuccess: the translation is delivered and
+    // the memory only makes later jobs cheaper.
+    const recordTranslationMemoryTask = new tasks.LambdaInvoke(
+      this,
+      'RecordTranslationMemoryTask',
+      {
+        lambdaFunction: this.recordTranslationMemoryFunction,
+        payload: stepfunctions.TaskInput.fromObject({
+          jobId: stepfunctions.JsonPath.stringAt('$.jobId'),
+          userId: stepfunctions.JsonPath.stringAt('$.userId'),
+          targetLanguage: stepfunctions.JsonPath.stringAt('$.targetLanguage'),
+        }),
+        resultPath: stepfunctions.JsonPath.DISCARD,
+        retryOnServiceExceptions: true,
+      }
+    );
+    recordTranslationMemoryTask.addCatch(successState, {
+      errors: ['States.ALL'],
+      resultPath: stepfunctions.JsonPath.DISCARD,
+    });
+
+    // The job was paused or cancelled after its last chunk: the owner's
+    // status stands, and the job is neither completed nor added to the
+    // translation memory.
+    const stoppedState = new stepfunctions.Succeed(this, 'TranslationStopped', {
+      comment: 'Paused or cancelled before UpdateJobCompleted - the owner status is kept',
+    });
+    updateJobCompleted.addCatch(stoppedState, {
+      errors: ['DynamoDB.ConditionalCheckFailedException'],
+      resultPath: stepfunctions.JsonPath.DISCARD,
+    });
+
     // Wire the Choice rules. BooleanEquals against a Variable that holds
     // the result of the intrinsic above. true → failure path; otherwise
     // (default) → success path. This guarantees UpdateJobCompleted ONLY
@@ -2028,14 +2821,22 @@ export class LfmtInfrastructureStack extends Stack {
         stepfunctions.Condition.booleanEquals('$.aggregate.anyChunkFailed', true),
         normalizeFailureContext
       )
-      .otherwise(updateJobCompleted.next(successState));
+      .otherwise(updateJobCompleted.next(recordTranslationMemoryTask).next(successState));
 
     // Define the state machine workflow.
-    // Map → AggregateChunkResults → CheckAllChunksSucceeded
+    // BuildTranslationBrief (Catch → Map) → Map → AggregateChunkResults → CheckAllChunksSucceeded
     //   ├── (anyChunkFailed=true)  → NormalizeFailureContext → UpdateJobFailed → TranslationFailed
-    //   └── (default)              → UpdateJobCompleted → TranslationSuccess
+    //   └── (default)              → UpdateJobCompleted → RecordTranslationMemory (Catch → Success) → TranslationSuccess
+    //                                  (paused / cancelled: Catch → TranslationStopped)
     // Map Catch (States.ALL) → UpdateJobFailed (directly; $.error set by Catch resultPath)
-    const definition = processChunksMap.next(aggregateChunkResults).next(checkAllChunksSucceeded);
+    buildTranslationBriefTask.addCatch(processChunksMap, {
+      errors: ['States.ALL'],
+      resultPath: stepfunctions.JsonPath.DISCARD,
+    });
+    const definition = buildTranslationBriefTask
+      .next(processChunksMap)
+      .next(aggregateChunkResults)
+      .next(checkAllChunksSucceeded);
 
     // Create the state machine
     (this as any).translationStateMachine = new stepfunctions.StateMachine(
@@ -2060,6 +2861,8 @@ export class LfmtInfrastructureStack extends Stack {
 
     // Grant the state machine permission to invoke the Lambda function
     this.translateChunkFunction.grantInvoke(this.translationStateMachine);
+    this.buildTranslationBriefFunction.grantInvoke(this.translationStateMachine);
+    this.recordTranslationMemoryFunction.grantInvoke(this.translationStateMachine);
 
     // SECURITY: Grant minimal DynamoDB permissions to state machine
     // State machine only needs UpdateItem for the DynamoUpdateItem task
@@ -2072,7 +2875,10 @@ export class LfmtInfrastructureStack extends Stack {
     // 4. Update expression is fixed (status fields only, no user data modification)
     this.jobsTable.grant(this.translationStateMachine, 'dynamodb:UpdateItem');
 
-    // Grant startTranslation Lambda permission to start state machine executions
+    // Grant startTranslation, recoverTranslation and controlTranslation (all
+    // on the translation role) permission to start state machine executions,
+    // and controlTranslation permission to stop one when a job is paused or
+    // cancelled
     // SECURITY: Use CDK reference instead of hardcoded ARN string
     if (this.lambdaRole) {
       new iam.ManagedPolicy(this, 'LambdaStepFunctionsPolicy', {
@@ -2083,6 +2889,14 @@ export class LfmtInfrastructureStack extends Stack {
             actions: ['states:StartExecution'],
             resources: [this.translationStateMachine.stateMachineArn],
           }),
+          new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['states:StopExecution'],
+            // Same execution ARN pattern as DeleteJobStepFunctionsPolicy below.
+            resources: [
+              `${this.translationStateMachine.stateMachineArn.replace(':stateMachine:', ':execution:')}:*`,
+            ],
+          }),
         ],
       });
     }
@@ -2121,7 +2935,10 @@ export class LfmtInfrastructureStack extends Stack {
       !this.resetPasswordFunction ||
       !this.getCurrentUserFunction ||
       !this.uploadRequestFunction ||
+      !this.createRevisionFunction ||
       !this.startTranslationFunction ||
+      !this.recoverTranslationFunction ||
+      !this.controlTranslationFunction ||
       !this.getTranslationStatusFunction ||
       !this.getJobFunction ||
       !this.deleteJobFunction ||
@@ -2131,7 +2948,14 @@ export class LfmtInfrastructureStack extends Stack {
       !this.downloadTranslationFunction ||
       !this.downloadTranslationRole ||
       !this.cspReportFunction ||
-      !this.cspReportRole
+      !this.cspReportRole ||
+      !this.manageGlossariesFunction ||
+      !this.glossaryReportFunction ||
+      !this.getJobContentFunction ||
+      !this.saveChunkTranslationFunction ||
+      !this.chunkHistoryFunction ||
+      !this.reviewTranslationFunction ||
+      !this.jobCommentsFunction
     ) {
       throw new Error('Lambda functions and roles must be created before API endpoints');
     }
@@ -2265,6 +3089,168 @@ export class LfmtInfrastructureStack extends Stack {
       }
     );
 
+    // POST /jobs/{jobId}/revisions - Upload a revised source document (requires authentication)
+    const revisionsResource = jobResource.addResource(
+      'revisions',
+      this.corsPreflightOptions('POST')
+    );
+    revisionsResource.addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(this.createRevisionFunction),
+      {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      }
+    );
+
+    // POST /jobs/{jobId}/recover - Retry the failed chunks of a job (requires authentication)
+    const recoverResource = jobResource.addResource('recover', this.corsPreflightOptions('POST'));
+    recoverResource.addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(this.recoverTranslationFunction),
+      {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      }
+    );
+
+    // GET /jobs/{jobId}/chunks/{chunkIndex} - One chunk's source text and
+    // translation, for the compare view (requires authentication)
+    const chunkResource = jobResource
+      .addResource('chunks')
+      .addResource('{chunkIndex}', this.corsPreflightOptions('GET'));
+    chunkResource.addMethod('GET', new apigateway.LambdaIntegration(this.getJobContentFunction), {
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      authorizer: authorizer,
+    });
+
+    // GET /jobs/{jobId}/source - Presigned download of the source document
+    // (requires authentication). Served by the same Lambda.
+    jobResource
+      .addResource('source', this.corsPreflightOptions('GET'))
+      .addMethod('GET', new apigateway.LambdaIntegration(this.getJobContentFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // POST /jobs/{jobId}/chunks/{chunkIndex}/retranslate - Translate one chunk
+    // again (requires authentication). Served by the recover Lambda.
+    const retranslateResource = chunkResource.addResource(
+      'retranslate',
+      this.corsPreflightOptions('POST')
+    );
+    retranslateResource.addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(this.recoverTranslationFunction),
+      {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      }
+    );
+
+    // PUT /jobs/{jobId}/chunks/{chunkIndex}/translation - Save an edited
+    // translation of one chunk as a new version (requires authentication)
+    chunkResource
+      .addResource('translation', this.corsPreflightOptions('PUT'))
+      .addMethod('PUT', new apigateway.LambdaIntegration(this.saveChunkTranslationFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // GET /jobs/{jobId}/chunks/{chunkIndex}/versions - The chunk's machine
+    // translations and edits; /versions/{versionId} - one version's text
+    // (requires authentication)
+    const versionsResource = chunkResource.addResource(
+      'versions',
+      this.corsPreflightOptions('GET')
+    );
+    versionsResource.addMethod('GET', new apigateway.LambdaIntegration(this.chunkHistoryFunction), {
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      authorizer: authorizer,
+    });
+    versionsResource
+      .addResource('{versionId}', this.corsPreflightOptions('GET'))
+      .addMethod('GET', new apigateway.LambdaIntegration(this.chunkHistoryFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // GET /jobs/{jobId}/edits - Every saved edit of the job, for accounting
+    // (requires authentication). Served by the chunk-history Lambda.
+    jobResource
+      .addResource('edits', this.corsPreflightOptions('GET'))
+      .addMethod('GET', new apigateway.LambdaIntegration(this.chunkHistoryFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // PUT /jobs/{jobId}/chunks/{chunkIndex}/review - Approve one chunk or
+    // withdraw its approval; POST /jobs/{jobId}/review/submit,
+    // /request-changes and /approve - Move the job through review
+    // (requires authentication). One Lambda serves all four.
+    chunkResource
+      .addResource('review', this.corsPreflightOptions('PUT'))
+      .addMethod('PUT', new apigateway.LambdaIntegration(this.reviewTranslationFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+    const reviewResource = jobResource.addResource('review');
+    for (const action of ['submit', 'request-changes', 'approve']) {
+      reviewResource
+        .addResource(action, this.corsPreflightOptions('POST'))
+        .addMethod('POST', new apigateway.LambdaIntegration(this.reviewTranslationFunction), {
+          authorizationType: apigateway.AuthorizationType.COGNITO,
+          authorizer: authorizer,
+        });
+    }
+
+    // GET /reviews - The jobs assigned to the caller for review (requires
+    // authentication). Served by the review Lambda.
+    this.api.root
+      .addResource('reviews', this.corsPreflightOptions('GET'))
+      .addMethod('GET', new apigateway.LambdaIntegration(this.reviewTranslationFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // GET/POST /jobs/{jobId}/comments - List the job's comment threads or
+    // open one; POST /jobs/{jobId}/comments/{threadId}/replies and
+    // PUT /jobs/{jobId}/comments/{threadId}/resolve - Reply to a thread or
+    // resolve it (requires authentication). One Lambda serves all four.
+    const commentsIntegration = new apigateway.LambdaIntegration(this.jobCommentsFunction);
+    const commentsResource = jobResource.addResource('comments', this.corsPreflightOptions('POST'));
+    for (const method of ['GET', 'POST']) {
+      commentsResource.addMethod(method, commentsIntegration, {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+    }
+    const threadResource = commentsResource.addResource('{threadId}');
+    threadResource
+      .addResource('replies', this.corsPreflightOptions('POST'))
+      .addMethod('POST', commentsIntegration, {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+    threadResource
+      .addResource('resolve', this.corsPreflightOptions('PUT'))
+      .addMethod('PUT', commentsIntegration, {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // POST /jobs/{jobId}/pause, /resume and /cancel - Control a running
+    // translation (requires authentication). One Lambda serves all three and
+    // tells them apart by resource path.
+    for (const action of ['pause', 'resume', 'cancel']) {
+      jobResource
+        .addResource(action, this.corsPreflightOptions('POST'))
+        .addMethod('POST', new apigateway.LambdaIntegration(this.controlTranslationFunction), {
+          authorizationType: apigateway.AuthorizationType.COGNITO,
+          authorizer: authorizer,
+        });
+    }
+
     // GET /jobs/{jobId}/translation-status - Get Translation Status (requires authentication)
     const translationStatusResource = jobResource.addResource(
       'translation-status',
@@ -2311,6 +3297,76 @@ export class LfmtInfrastructureStack extends Stack {
       }
     );
 
+    // GET /jobs/{jobId}/chapters — chapter list backing ?chapter=N downloads
+    // (requires authentication). Served by the download Lambda: it needs the
+    // same chunk assembly and the same read grants.
+    const chaptersResource = jobResource.addResource('chapters', this.corsPreflightOptions('GET'));
+
+    chaptersResource.addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(this.downloadTranslationFunction),
+      {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      }
+    );
+
+    // GET /jobs/{jobId}/review-pdf — the translation with its comment
+    // threads as margin notes (requires authentication). Served by the
+    // download Lambda, which has the PDF pipeline and the chunk grants.
+    jobResource
+      .addResource('review-pdf', this.corsPreflightOptions('GET'))
+      .addMethod('GET', new apigateway.LambdaIntegration(this.downloadTranslationFunction), {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+
+    // GET, POST /jobs/{jobId}/glossary-report — glossary compliance report
+    // for a completed job (requires authentication). Optional ?glossaryId=
+    // selects a glossary other than the one the job was translated with;
+    // POST checks a submitted term list instead.
+    const glossaryReportIntegration = new apigateway.LambdaIntegration(this.glossaryReportFunction);
+    const glossaryReportResource = jobResource.addResource(
+      'glossary-report',
+      this.corsPreflightOptions('GET', 'POST')
+    );
+    for (const method of ['GET', 'POST']) {
+      glossaryReportResource.addMethod(method, glossaryReportIntegration, {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+    }
+
+    // /glossaries — project glossary CRUD (requires authentication)
+    //
+    //   GET, POST           /glossaries
+    //   GET, PUT, DELETE    /glossaries/{glossaryId}
+    //
+    // Both resources integrate with the same Lambda, which dispatches on
+    // method + path parameter. Ownership is enforced by the table key
+    // (userId from the Cognito claim), see manageGlossaries.ts.
+    const glossariesIntegration = new apigateway.LambdaIntegration(this.manageGlossariesFunction);
+    const glossariesResource = this.api.root.addResource(
+      'glossaries',
+      this.corsPreflightOptions('POST')
+    );
+    const glossaryResource = glossariesResource.addResource(
+      '{glossaryId}',
+      this.corsPreflightOptions('PUT', 'DELETE', 'GET')
+    );
+    for (const method of ['GET', 'POST']) {
+      glossariesResource.addMethod(method, glossariesIntegration, {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+    }
+    for (const method of ['GET', 'PUT', 'DELETE']) {
+      glossaryResource.addMethod(method, glossariesIntegration, {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: authorizer,
+      });
+    }
+
     // -------------------------------------------------------------------------
     // POST /csp-report — anonymous CSP violation report collector (#201).
     //
@@ -2827,6 +3883,21 @@ export class LfmtInfrastructureStack extends Stack {
       description: 'DynamoDB Attestations Table Name',
     });
 
+    new CfnOutput(this, 'GlossariesTableName', {
+      value: this.glossariesTable.tableName,
+      description: 'DynamoDB Glossaries Table Name',
+    });
+
+    new CfnOutput(this, 'TranslationMemoryTableName', {
+      value: this.translationMemoryTable.tableName,
+      description: 'DynamoDB Translation Memory Table Name',
+    });
+
+    new CfnOutput(this, 'CommentsTableName', {
+      value: this.commentsTable.tableName,
+      description: 'DynamoDB Comments Table Name',
+    });
+
     // S3 Bucket Names
     new CfnOutput(this, 'DocumentBucketName', {
       value: this.documentBucket.bucketName,
@@ -15,7 +15,7 @@ import { AuthProvider } from './contexts/AuthContext';
 import { ProtectedRoute } from './components/Auth/ProtectedRoute';
 import { MockModeBanner } from './components/common/MockModeBanner';
 import { theme } from './theme';
-import { ROUTES, FEATURE_FLAGS } from './config/constants';
+import { ROUTES } from './config/constants';
 import { queryClient } from './lib/queryClient';
 
 // Lazy load pages for better performance
@@ -119,20 +119,14 @@ function App() {
                     </ProtectedRoute>
                   }
                 />
-                {/*
-                  Compare route gated behind FEATURE_FLAGS.COMPARE_VIEW —
-                  source-pane retrieval API is not yet implemented.
-                */}
-                {FEATURE_FLAGS.COMPARE_VIEW && (
-                  <Route
-                    path={ROUTES.TRANSLATION_COMPARE}
-                    element={
-                      <ProtectedRoute>
-                        <TranslationCompare />
-                      </ProtectedRoute>
-                    }
-                  />
-                )}
+                <Route
+                  path={ROUTES.TRANSLATION_COMPARE}
+                  element={
+                    <ProtectedRoute>
+                      <TranslationCompare />
+                    </ProtectedRoute>
+                  }
+                />
 
                 {/* Default redirect to login */}
                 <Route path="/" element={<Navigate to={ROUTES.LOGIN} replace />} />
@@ -0,0 +1,247 @@
+/**
+ * Chunk History Dialog
+ *
+ * Lists every version of one part of a completed job — each machine
+ * translation (first run, retries, retranslations) and each edit saved in
+ * the compare view, with its author, time and note — and shows a
+ * word-level diff between any two of them. It opens on the newest machine
+ * translation against the current version, i.e. what editing changed.
+ * Parts are numbered from 1 here; the API takes the zero-based chunk index.
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { diffWords, type ChunkVersionSummary } from '@lfmt/shared-types';
+import { translationService, TranslationServiceError } from '../../services/translationService';
+import { getApiErrorMessage } from '../../utils/translationErrorMessages';
+
+export interface ChunkHistoryDialogProps {
+  jobId: string;
+  totalChunks: number;
+  open: boolean;
+  onClose: () => void;
+}
+
+function versionLabel(version: ChunkVersionSummary): string {
+  const savedAt = new Date(version.savedAt).toLocaleString();
+  return version.kind === 'edit'
+    ? `Edit ${version.version} — ${savedAt}`
+    : `Machine translation — ${savedAt}`;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof TranslationServiceError ? getApiErrorMessage(error) : fallback;
+}
+
+/** A version's text. Versions never change, so each is fetched once. */
+function useVersionText(
+  jobId: string,
+  chunkIndex: number,
+  version: ChunkVersionSummary | undefined
+) {
+  return useQuery({
+    queryKey: ['chunkVersion', jobId, chunkIndex, version?.versionId],
+    queryFn: () =>
+      translationService.getChunkVersion(jobId, chunkIndex, version?.versionId as string),
+    enabled: !!version,
+    staleTime: Infinity,
+  });
+}
+
+/** `to` with the words removed since `from` struck through and the words added highlighted. */
+const WordDiff: React.FC<{ from: string; to: string }> = ({ from, to }) => (
+  <Box
+    data-testid="word-diff"
+    sx={{
+      whiteSpace: 'pre-wrap',
+      p: 2,
+      border: 1,
+      borderColor: 'divider',
+      borderRadius: 1,
+      maxHeight: 400,
+      overflow: 'auto',
+    }}
+  >
+    {diffWords(from, to).map((part, i) =>
+      part.operation === 'removed' ? (
+        <Box component="del" key={i} sx={{ bgcolor: 'error.light', color: 'error.contrastText' }}>
+          {part.text}
+        </Box>
+      ) : part.operation === 'added' ? (
+        <Box
+          component="ins"
+          key={i}
+          sx={{ bgcolor: 'success.light', color: 'success.contrastText', textDecoration: 'none' }}
+        >
+          {part.text}
+        </Box>
+      ) : (
+        <span key={i}>{part.text}</span>
+      )
+    )}
+  </Box>
+);
+
+export const ChunkHistoryDialog: React.FC<ChunkHistoryDialogProps> = ({
+  jobId,
+  totalChunks,
+  open,
+  onClose,
+}) => {
+  const [part, setPart] = useState('1');
+  // Versions picked for the diff; null until the user picks one.
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  const partNumber = Number(part);
+  const partValid = Number.isInteger(partNumber) && partNumber >= 1 && partNumber <= totalChunks;
+  const chunkIndex = partNumber - 1;
+
+  const {
+    data: history,
+    isLoading,
+    error: historyError,
+  } = useQuery({
+    queryKey: ['chunkVersions', jobId, chunkIndex],
+    queryFn: () => translationService.getChunkVersions(jobId, chunkIndex),
+    enabled: open && partValid,
+  });
+  const versions = history?.versions ?? [];
+
+  const machineVersions = versions.filter((version) => version.kind === 'machine');
+  const defaultFrom = machineVersions[machineVersions.length - 1] ?? versions[0];
+  const defaultTo = versions.find((version) => version.current) ?? versions[versions.length - 1];
+  const from = versions.find((version) => version.versionId === fromId) ?? defaultFrom;
+  const to = versions.find((version) => version.versionId === toId) ?? defaultTo;
+
+  const fromText = useVersionText(jobId, chunkIndex, open ? from : undefined);
+  const toText = useVersionText(jobId, chunkIndex, open ? to : undefined);
+  const textError = fromText.error ?? toText.error;
+
+  const changePart = (value: string) => {
+    setPart(value);
+    setFromId(null);
+    setToId(null);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Edit History</DialogTitle>
+      <DialogContent>
+        <TextField
+          label="Part number"
+          type="number"
+          value={part}
+          onChange={(e) => changePart(e.target.value)}
+          error={!partValid}
+          helperText={`Between 1 and ${totalChunks}`}
+          inputProps={{ min: 1, max: totalChunks }}
+          margin="normal"
+        />
+
+        {isLoading && partValid && (
+          <Box sx={{ textAlign: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {historyError && (
+          <Alert severity="error" sx={{ my: 2 }}>
+            {errorMessage(historyError, 'Failed to load the history of this part')}
+          </Alert>
+        )}
+
+        {history && versions.length === 0 && (
+          <Alert severity="info" sx={{ my: 2 }}>
+            This part has no translation yet.
+          </Alert>
+        )}
+
+        {versions.length > 0 && (
+          <>
+            <List dense aria-label="Versions">
+              {versions.map((version) => {
+                const changes =
+                  version.wordsAdded !== undefined
+                    ? ` · +${version.wordsAdded} / −${version.wordsRemoved ?? 0} words`
+                    : '';
+                return (
+                  <ListItem
+                    key={version.versionId}
+                    secondaryAction={
+                      version.current ? <Chip label="Current" size="small" color="primary" /> : null
+                    }
+                  >
+                    <ListItemText
+                      primary={versionLabel(version)}
+                      secondary={`${version.author}${changes}${version.note ? ` · ${version.note}` : ''}`}
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+
+            <Box sx={{ display: 'flex', gap: 2, my: 2 }}>
+              {(
+                [
+                  ['From', from, setFromId],
+                  ['To', to, setToId],
+                ] as const
+              ).map(([label, selected, select]) => (
+                <TextField
+                  key={label}
+                  select
+                  label={label}
+                  value={selected?.versionId ?? ''}
+                  onChange={(e) => select(e.target.value)}
+                  fullWidth
+                >
+                  {versions.map((version) => (
+                    <MenuItem key={version.versionId} value={version.versionId}>
+                      {versionLabel(version)}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              ))}
+            </Box>
+
+            {textError ? (
+              <Alert severity="error">
+                {errorMessage(textError, 'Failed to load this version')}
+              </Alert>
+            ) : fromText.data && toText.data ? (
+              <WordDiff from={fromText.data.text} to={toText.data.text} />
+            ) : (
+              <Box sx={{ textAlign: 'center', py: 2 }}>
+                <CircularProgress size={24} />
+              </Box>
+            )}
+            <Typography variant="caption" color="text.secondary">
+              Earlier machine translations are kept for 30 days after they are replaced.
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
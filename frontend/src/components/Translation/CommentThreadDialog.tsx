@@ -0,0 +1,199 @@
+/**
+ * Comment Thread Dialog
+ *
+ * The comment threads of one paragraph of the side-by-side viewer: each
+ * thread with its replies, a reply box and a resolve / reopen button, and
+ * a box that opens a new thread on the paragraph. Resolved threads stay
+ * listed so they can be reopened.
+ *
+ * The callbacks come from the viewer's caller, which reports failures; a
+ * rejected callback keeps what was typed.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { MAX_COMMENT_LENGTH, type CommentThread } from '@lfmt/shared-types';
+
+export interface CommentThreadDialogProps {
+  open: boolean;
+  /** Names the paragraph in the title, e.g. "translated paragraph 3". */
+  paragraphLabel: string;
+  /** The paragraph's text, quoted above the threads. */
+  paragraphText: string;
+  threads: CommentThread[];
+  onClose: () => void;
+  onAdd: (body: string) => Promise<void>;
+  onReply: (threadId: string, body: string) => Promise<void>;
+  onResolve: (threadId: string, resolved: boolean) => Promise<void>;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString();
+}
+
+export const CommentThreadDialog: React.FC<CommentThreadDialogProps> = ({
+  open,
+  paragraphLabel,
+  paragraphText,
+  threads,
+  onClose,
+  onAdd,
+  onReply,
+  onResolve,
+}) => {
+  const [newComment, setNewComment] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  /** Run a comment action; returns whether it succeeded. */
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch {
+      // The caller reports the failure; keep what was typed.
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (await run(() => onAdd(newComment.trim()))) setNewComment('');
+  };
+
+  const handleReply = async (threadId: string) => {
+    const body = (replies[threadId] ?? '').trim();
+    if (await run(() => onReply(threadId, body))) {
+      setReplies((prev) => ({ ...prev, [threadId]: '' }));
+    }
+  };
+
+  const handleClose = () => {
+    if (busy) return;
+    setNewComment('');
+    setReplies({});
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Comments on {paragraphLabel}</DialogTitle>
+      <DialogContent>
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{
+            borderLeft: 3,
+            borderColor: 'divider',
+            pl: 1.5,
+            mb: 2,
+            whiteSpace: 'pre-wrap',
+            display: '-webkit-box',
+            WebkitLineClamp: 3,
+            WebkitBoxOrient: 'vertical',
+            overflow: 'hidden',
+          }}
+        >
+          {paragraphText.trim()}
+        </Typography>
+
+        {threads.map((thread) => (
+          <Box key={thread.threadId} data-testid="comment-thread" sx={{ mb: 2 }}>
+            {thread.comments.map((comment) => (
+              <Box key={comment.commentId} sx={{ mb: 1 }}>
+                <Typography variant="caption" color="text.secondary">
+                  {comment.author} · {formatDate(comment.createdAt)}
+                </Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {comment.body}
+                </Typography>
+              </Box>
+            ))}
+            {thread.resolved ? (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Chip
+                  size="small"
+                  color="success"
+                  label={thread.resolvedBy ? `Resolved by ${thread.resolvedBy}` : 'Resolved'}
+                />
+                <Button
+                  size="small"
+                  onClick={() => void run(() => onResolve(thread.threadId, false))}
+                  disabled={busy}
+                >
+                  Reopen
+                </Button>
+              </Box>
+            ) : (
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                <TextField
+                  placeholder="Reply"
+                  value={replies[thread.threadId] ?? ''}
+                  onChange={(e) =>
+                    setReplies((prev) => ({ ...prev, [thread.threadId]: e.target.value }))
+                  }
+                  size="small"
+                  multiline
+                  fullWidth
+                  disabled={busy}
+                  inputProps={{ maxLength: MAX_COMMENT_LENGTH, 'aria-label': 'Reply' }}
+                />
+                <Button
+                  onClick={() => void handleReply(thread.threadId)}
+                  disabled={busy || !(replies[thread.threadId] ?? '').trim()}
+                >
+                  Reply
+                </Button>
+                <Button
+                  color="success"
+                  onClick={() => void run(() => onResolve(thread.threadId, true))}
+                  disabled={busy}
+                >
+                  Resolve
+                </Button>
+              </Box>
+            )}
+            <Divider sx={{ mt: 2 }} />
+          </Box>
+        ))}
+
+        <TextField
+          label={threads.length > 0 ? 'New thread' : 'Comment'}
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          multiline
+          minRows={2}
+          fullWidth
+          margin="normal"
+          disabled={busy}
+          inputProps={{ maxLength: MAX_COMMENT_LENGTH }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={busy}>
+          Close
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => void handleAdd()}
+          disabled={busy || !newComment.trim()}
+        >
+          Add Comment
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
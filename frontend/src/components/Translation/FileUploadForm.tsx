@@ -20,7 +20,7 @@ import {
   Error as ErrorIcon,
 } from '@mui/icons-material';
 import { uploadService, type UploadProgress } from '../../services/uploadService';
-import { FILE_VALIDATION } from '@lfmt/shared-types';
+import { ALLOWED_FILE_EXTENSIONS, FILE_VALIDATION, expectedContentType } from '@lfmt/shared-types';
 
 /**
  * File validation constraints
@@ -29,10 +29,13 @@ import { FILE_VALIDATION } from '@lfmt/shared-types';
 const FILE_CONSTRAINTS = {
   MAX_SIZE: FILE_VALIDATION.MAX_FILE_SIZE,
   MIN_SIZE: FILE_VALIDATION.MIN_FILE_SIZE,
-  ALLOWED_TYPE: FILE_VALIDATION.ALLOWED_FILE_TYPE,
-  ALLOWED_EXTENSION: FILE_VALIDATION.ALLOWED_FILE_EXTENSION,
+  ALLOWED_EXTENSIONS: ALLOWED_FILE_EXTENSIONS,
 };
 
+const FILE_TYPE_ERROR = `Only ${ALLOWED_FILE_EXTENSIONS.slice(0, -1).join(', ')} or ${
+  ALLOWED_FILE_EXTENSIONS[ALLOWED_FILE_EXTENSIONS.length - 1]
+} files are allowed`;
+
 /**
  * Upload state
  */
@@ -73,14 +76,16 @@ export function FileUploadForm({ onUploadComplete, onUploadError }: FileUploadFo
    * Validate selected file
    */
   const validateFile = useCallback((file: File): string | null => {
-    // Check file type
-    if (file.type !== FILE_CONSTRAINTS.ALLOWED_TYPE) {
-      return `Only ${FILE_CONSTRAINTS.ALLOWED_EXTENSION} files are allowed`;
+    // Check file extension
+    const contentType = expectedContentType(file.name);
+    if (!contentType) {
+      return FILE_TYPE_ERROR;
     }
 
-    // Check file extension
-    if (!file.name.toLowerCase().endsWith(FILE_CONSTRAINTS.ALLOWED_EXTENSION)) {
-      return `Only ${FILE_CONSTRAINTS.ALLOWED_EXTENSION} files are allowed`;
+    // Check file type — an empty type is tolerated because browsers without
+    // Word or an e-book reader installed report `.docx`/`.epub` files that way.
+    if (file.type !== '' && file.type !== contentType) {
+      return FILE_TYPE_ERROR;
     }
 
     // Check file size
@@ -216,7 +221,8 @@ export function FileUploadForm({ onUploadComplete, onUploadError }: FileUploadFo
       </Typography>
 
       <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-        Upload a text file (.txt) for translation. Maximum file size: 100MB.
+        Upload a text file (.txt), Word document (.docx), e-book (.epub) or subtitles (.srt, .vtt)
+        for translation. Maximum file size: 100MB.
       </Typography>
 
       {/* Error Alert */}
@@ -277,7 +283,7 @@ export function FileUploadForm({ onUploadComplete, onUploadError }: FileUploadFo
           <input
             ref={fileInputRef}
             type="file"
-            accept={FILE_CONSTRAINTS.ALLOWED_EXTENSION}
+            accept={FILE_CONSTRAINTS.ALLOWED_EXTENSIONS.join(',')}
             onChange={handleInputChange}
             style={{ display: 'none' }}
             aria-label="File upload input"
@@ -0,0 +1,68 @@
+/**
+ * Flagged Chunks List
+ *
+ * Parts of a translation the automatic quality check flagged — a likely
+ * truncation, dropped paragraphs, text left in the source language, and
+ * so on — with the most severe flag of each part. Parts are numbered from
+ * 1, as in the Retranslate a Part dialog.
+ */
+
+import React from 'react';
+import { Box, Chip, List, ListItem, Paper, Typography } from '@mui/material';
+import type { FlaggedChunk, QualityFlagSeverity, QualityFlagType } from '@lfmt/shared-types';
+
+export interface FlaggedChunksListProps {
+  flaggedChunks: FlaggedChunk[];
+}
+
+const SEVERITY_CHIPS: Record<
+  QualityFlagSeverity,
+  { label: string; color: 'error' | 'warning' | 'default' }
+> = {
+  HIGH: { label: 'High', color: 'error' },
+  MEDIUM: { label: 'Medium', color: 'warning' },
+  LOW: { label: 'Low', color: 'default' },
+};
+
+const FLAG_LABELS: Record<QualityFlagType, string> = {
+  TRUNCATED: 'Cut off',
+  LENGTH_RATIO: 'Unusual length',
+  DROPPED_PARAGRAPHS: 'Missing paragraphs',
+  UNTRANSLATED_SEGMENT: 'Untranslated text',
+  REPETITION: 'Repeated text',
+  INCONSISTENCY: 'Inconsistency',
+  FORMATTING_LOSS: 'Formatting lost',
+  CONTEXT_BREAK: 'Context break',
+};
+
+export const FlaggedChunksList: React.FC<FlaggedChunksListProps> = ({ flaggedChunks }) => (
+  <Paper elevation={1} sx={{ p: 3, mb: 3 }} data-testid="flagged-chunks">
+    <Typography variant="h6" gutterBottom>
+      Quality Flags
+    </Typography>
+    <Typography variant="body2" color="text.secondary">
+      The automatic check found possible problems in {flaggedChunks.length}{' '}
+      {flaggedChunks.length === 1 ? 'part' : 'parts'} of the translation.
+    </Typography>
+    <List disablePadding>
+      {flaggedChunks.map(({ chunkIndex, severity, flags }) => (
+        <ListItem key={chunkIndex} disableGutters divider sx={{ display: 'block' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+            <Typography variant="subtitle2">Part {chunkIndex + 1}</Typography>
+            <Chip
+              label={SEVERITY_CHIPS[severity].label}
+              color={SEVERITY_CHIPS[severity].color}
+              size="small"
+              aria-label={`Severity: ${SEVERITY_CHIPS[severity].label}`}
+            />
+          </Box>
+          {flags.map((flag) => (
+            <Typography key={flag.type} variant="body2">
+              <strong>{FLAG_LABELS[flag.type]}:</strong> {flag.description}
+            </Typography>
+          ))}
+        </ListItem>
+      ))}
+    </List>
+  </Paper>
+);
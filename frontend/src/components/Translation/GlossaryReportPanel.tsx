@@ -0,0 +1,142 @@
+/**
+ * Glossary Report Panel
+ *
+ * Checks a completed translation against a glossary: every glossary term
+ * found in a part's source, and whether its required rendering appears in
+ * the part's current translation (saved edits included). Without a term
+ * list the job's own glossary is used; a pasted list (one
+ * `source = target` pair per line) is checked instead when given. Parts
+ * with violations link to the compare view, numbered from 1 as elsewhere
+ * on the page.
+ */
+
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Link,
+  List,
+  ListItem,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { GlossaryReportApiResponse, GlossaryTerm } from '@lfmt/shared-types';
+import { translationService, TranslationServiceError } from '../../services/translationService';
+import { getApiErrorMessage } from '../../utils/translationErrorMessages';
+
+export interface GlossaryReportPanelProps {
+  jobId: string;
+}
+
+/** Parse `source = target` lines, skipping blank and malformed ones. */
+function parseTerms(text: string): GlossaryTerm[] {
+  return text.split('\n').flatMap((line) => {
+    const separator = line.indexOf('=');
+    const source = line.slice(0, separator).trim();
+    const target = line.slice(separator + 1).trim();
+    return separator > 0 && source && target ? [{ source, target }] : [];
+  });
+}
+
+export const GlossaryReportPanel: React.FC<GlossaryReportPanelProps> = ({ jobId }) => {
+  const [termsText, setTermsText] = useState('');
+  const [report, setReport] = useState<GlossaryReportApiResponse | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const terms = parseTerms(termsText);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      setReport(
+        terms.length > 0
+          ? await translationService.checkGlossaryTerms(jobId, terms)
+          : await translationService.getGlossaryReport(jobId)
+      );
+    } catch (err) {
+      setReport(null);
+      setError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to check the glossary'
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const violatingChunks = report?.chunks.filter((chunk) => chunk.violationCount > 0) ?? [];
+
+  return (
+    <Paper elevation={1} sx={{ p: 3, mb: 3 }} data-testid="glossary-report">
+      <Typography variant="h6" gutterBottom>
+        Glossary Check
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        Checks that every glossary term is rendered as required. Leave the list empty to use the
+        glossary this job was translated with.
+      </Typography>
+
+      <TextField
+        label="Terms (one per line: source = target)"
+        value={termsText}
+        onChange={(e) => setTermsText(e.target.value)}
+        multiline
+        minRows={2}
+        fullWidth
+        margin="normal"
+        disabled={checking}
+      />
+      <Button
+        variant="outlined"
+        onClick={() => void handleCheck()}
+        disabled={checking}
+        startIcon={checking ? <CircularProgress size={16} /> : undefined}
+      >
+        Check Glossary
+      </Button>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {report && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            {report.glossaryName ? `${report.glossaryName}: ` : ''}
+            {report.termsFound} {report.termsFound === 1 ? 'term' : 'terms'} found,{' '}
+            {report.violationCount} {report.violationCount === 1 ? 'violation' : 'violations'}.
+          </Typography>
+          <List disablePadding>
+            {violatingChunks.map((chunk) => (
+              <ListItem key={chunk.chunkIndex} disableGutters divider sx={{ display: 'block' }}>
+                <Link
+                  component={RouterLink}
+                  to={`/translation/${jobId}/compare?part=${chunk.chunkIndex + 1}`}
+                  variant="subtitle2"
+                >
+                  Part {chunk.chunkIndex + 1}
+                </Link>
+                {chunk.terms
+                  .filter((check) => !check.compliant)
+                  .map((check) => (
+                    <Typography key={check.source} variant="body2">
+                      “{check.source}” should be rendered as “{check.target}”
+                    </Typography>
+                  ))}
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * Retranslate Chunk Dialog
+ *
+ * Translates one part of a completed job again, optionally with an
+ * instruction for the translator ("keep the names in English"). Parts are
+ * numbered from 1 here; the API takes the zero-based chunk index.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { MAX_RETRANSLATION_INSTRUCTIONS_LENGTH } from '@lfmt/shared-types';
+import { translationService, TranslationServiceError } from '../../services/translationService';
+import { getApiErrorMessage } from '../../utils/translationErrorMessages';
+
+export interface RetranslateChunkDialogProps {
+  jobId: string;
+  totalChunks: number;
+  open: boolean;
+  onClose: () => void;
+  /** Called once the retranslation has started. */
+  onStarted: () => void;
+}
+
+export const RetranslateChunkDialog: React.FC<RetranslateChunkDialogProps> = ({
+  jobId,
+  totalChunks,
+  open,
+  onClose,
+  onStarted,
+}) => {
+  const [part, setPart] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const partNumber = Number(part);
+  const partValid = Number.isInteger(partNumber) && partNumber >= 1 && partNumber <= totalChunks;
+
+  const reset = () => {
+    setPart('');
+    setInstructions('');
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (submitting) return;
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!partValid) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await translationService.retranslateChunk(
+        jobId,
+        partNumber - 1,
+        instructions.trim() || undefined
+      );
+      reset();
+      onStarted();
+    } catch (err) {
+      setError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to start the retranslation'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Retranslate a Part</DialogTitle>
+      <DialogContent>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          The document was translated in {totalChunks} parts. The part you choose is translated
+          again; the rest of the translation is kept.
+        </Alert>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          label="Part number"
+          type="number"
+          value={part}
+          onChange={(e) => setPart(e.target.value)}
+          error={part !== '' && !partValid}
+          helperText={`Between 1 and ${totalChunks}`}
+          inputProps={{ min: 1, max: totalChunks }}
+          fullWidth
+          margin="normal"
+        />
+        <TextField
+          label="Instructions (optional)"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          inputProps={{ maxLength: MAX_RETRANSLATION_INSTRUCTIONS_LENGTH }}
+          multiline
+          minRows={3}
+          fullWidth
+          margin="normal"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => void handleSubmit()}
+          disabled={!partValid || submitting}
+          startIcon={submitting ? <CircularProgress size={20} /> : undefined}
+        >
+          {submitting ? 'Starting...' : 'Retranslate'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,95 @@
+/**
+ * Review Assignments Panel
+ *
+ * The translations other users submitted for review to the signed-in
+ * user's (verified) email, most recently submitted first. Each links to
+ * the compare view, where the reviewer approves the parts and then the
+ * translation. Nothing is shown to a user with no assignments.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Alert, Chip, Link, List, ListItem, Paper, Typography } from '@mui/material';
+import type { ReviewAssignment } from '@lfmt/shared-types';
+import { translationService, TranslationServiceError } from '../../services/translationService';
+import { getApiErrorMessage } from '../../utils/translationErrorMessages';
+import { getLanguageLabel } from '../../utils/translationLabels';
+
+const STATUS_LABELS: Record<ReviewAssignment['status'], string> = {
+  IN_REVIEW: 'Awaiting your review',
+  CHANGES_REQUESTED: 'Changes requested',
+  APPROVED: 'Approved',
+};
+
+export const ReviewAssignmentsPanel: React.FC = () => {
+  const [assignments, setAssignments] = useState<ReviewAssignment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    translationService
+      .listReviewAssignments()
+      .then((response) => {
+        if (!cancelled) setAssignments(response.assignments);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(
+          err instanceof TranslationServiceError
+            ? getApiErrorMessage(err)
+            : 'Failed to load your reviews'
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <Alert severity="warning" sx={{ mb: 4 }} onClose={() => setError(null)}>
+        {error}
+      </Alert>
+    );
+  }
+
+  if (assignments.length === 0) return null;
+
+  return (
+    <Paper elevation={1} sx={{ p: 3, mb: 4 }} data-testid="review-assignments">
+      <Typography variant="h6" gutterBottom>
+        Reviews Assigned to You
+      </Typography>
+      <List disablePadding>
+        {assignments.map((assignment) => (
+          <ListItem
+            key={assignment.jobId}
+            disableGutters
+            divider
+            sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}
+          >
+            <div>
+              <Link
+                component={RouterLink}
+                to={`/translation/${assignment.jobId}/compare`}
+                variant="subtitle2"
+              >
+                {assignment.fileName || assignment.jobId}
+              </Link>
+              <Typography variant="body2" color="text.secondary">
+                {getLanguageLabel(assignment.targetLanguage)} ·{' '}
+                {assignment.review.approvedChunks.length} of {assignment.review.totalChunks} parts
+                approved
+              </Typography>
+            </div>
+            <Chip
+              size="small"
+              label={STATUS_LABELS[assignment.status]}
+              color={assignment.status === 'IN_REVIEW' ? 'primary' : 'default'}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Paper>
+  );
+};
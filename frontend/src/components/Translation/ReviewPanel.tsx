@@ -0,0 +1,271 @@
+/**
+ * Review Panel
+ *
+ * The review of a completed translation. The owner submits it to a
+ * reviewer (by email), who signs in with that address and finds it on
+ * their dashboard; the reviewer approves the parts one by one in the
+ * compare view and then the translation as a whole — or sends it back
+ * with a comment, to be edited by the owner and submitted again. Until it
+ * is approved, every download is marked as a draft.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  LinearProgress,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { MAX_REVIEW_COMMENT_LENGTH } from '@lfmt/shared-types';
+import {
+  translationService,
+  TranslationServiceError,
+  type TranslationJob,
+} from '../../services/translationService';
+import { getApiErrorMessage } from '../../utils/translationErrorMessages';
+
+export interface ReviewPanelProps {
+  job: TranslationJob;
+  /** Called once the review has changed, so the job can be reloaded. */
+  onChanged: () => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString();
+}
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ job, onChanged }) => {
+  const [submitDialogOpen, setSubmitDialogOpen] = useState(false);
+  const [changesDialogOpen, setChangesDialogOpen] = useState(false);
+  const [reviewerEmail, setReviewerEmail] = useState(job.review?.reviewerEmail ?? '');
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = job.review;
+  const approvedCount = review?.approvedChunks.length ?? 0;
+  const totalChunks = review?.totalChunks ?? job.totalChunks ?? 0;
+  const allApproved = totalChunks > 0 && approvedCount >= totalChunks;
+  const emailValid = EMAIL_PATTERN.test(reviewerEmail.trim());
+
+  /** Run a review action; returns whether it succeeded. */
+  const run = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof TranslationServiceError ? getApiErrorMessage(err) : fallbackMessage);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!emailValid) return;
+    const submitted = await run(
+      () => translationService.submitReview(job.jobId, reviewerEmail.trim()),
+      'Failed to submit the translation for review'
+    );
+    if (submitted) setSubmitDialogOpen(false);
+  };
+
+  const handleRequestChanges = async () => {
+    const requested = await run(
+      () => translationService.requestReviewChanges(job.jobId, comment.trim() || undefined),
+      'Failed to request changes'
+    );
+    if (requested) {
+      setChangesDialogOpen(false);
+      setComment('');
+    }
+  };
+
+  const isReviewer = job.reviewerAccess === true;
+  const canSubmit =
+    !isReviewer && (job.status === 'COMPLETED' || job.status === 'CHANGES_REQUESTED');
+
+  return (
+    <Paper elevation={1} sx={{ p: 3, mb: 3 }} data-testid="review-panel">
+      <Typography variant="h6" gutterBottom>
+        Review
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!review && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          This translation has not been submitted for review. Downloads are marked as a draft until
+          it is approved.
+        </Typography>
+      )}
+
+      {review && (
+        <>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            Reviewer: {review.reviewerEmail} (submitted {formatDate(review.submittedAt)})
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={totalChunks > 0 ? (approvedCount / totalChunks) * 100 : 0}
+              sx={{ flex: 1, height: 8, borderRadius: 4 }}
+              aria-label="Parts approved"
+            />
+            <Typography variant="body2" color="text.secondary">
+              {approvedCount} of {totalChunks} parts approved
+            </Typography>
+          </Box>
+        </>
+      )}
+
+      {job.status === 'CHANGES_REQUESTED' && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Changes were requested{review?.comment ? `: ${review.comment}` : '.'}
+        </Alert>
+      )}
+
+      {job.status === 'IN_REVIEW' && isReviewer && !allApproved && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Approve each part in the side-by-side view, then approve the translation.
+        </Typography>
+      )}
+
+      {job.status === 'IN_REVIEW' && !isReviewer && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Waiting for the reviewer. Downloads are marked as a draft until the translation is
+          approved.
+        </Typography>
+      )}
+
+      {job.status === 'APPROVED' && review?.approvedAt && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Approved by {review.approvedBy} on {formatDate(review.approvedAt)}.
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        {canSubmit && (
+          <Button variant="outlined" onClick={() => setSubmitDialogOpen(true)} disabled={busy}>
+            {review ? 'Resubmit for Review' : 'Submit for Review'}
+          </Button>
+        )}
+        {job.status === 'IN_REVIEW' && isReviewer && (
+          <>
+            <Button
+              variant="contained"
+              color="success"
+              onClick={() =>
+                void run(
+                  () => translationService.approveReview(job.jobId),
+                  'Failed to approve the translation'
+                )
+              }
+              disabled={busy || !allApproved}
+            >
+              Approve Translation
+            </Button>
+            <Button
+              variant="outlined"
+              color="warning"
+              onClick={() => setChangesDialogOpen(true)}
+              disabled={busy}
+            >
+              Request Changes
+            </Button>
+          </>
+        )}
+      </Box>
+
+      <Dialog
+        open={submitDialogOpen}
+        onClose={() => !busy && setSubmitDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Submit for Review</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The reviewer approves the translation part by part. Parts already approved stay approved
+            unless they are edited.
+          </DialogContentText>
+          <TextField
+            label="Reviewer email"
+            type="email"
+            value={reviewerEmail}
+            onChange={(e) => setReviewerEmail(e.target.value)}
+            error={reviewerEmail !== '' && !emailValid}
+            fullWidth
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSubmitDialogOpen(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => void handleSubmit()}
+            disabled={!emailValid || busy}
+            startIcon={busy ? <CircularProgress size={20} /> : undefined}
+          >
+            Submit
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={changesDialogOpen}
+        onClose={() => !busy && setChangesDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Request Changes</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Comment (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            inputProps={{ maxLength: MAX_REVIEW_COMMENT_LENGTH }}
+            multiline
+            minRows={3}
+            fullWidth
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setChangesDialogOpen(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={() => void handleRequestChanges()}
+            disabled={busy}
+            startIcon={busy ? <CircularProgress size={20} /> : undefined}
+          >
+            Request Changes
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
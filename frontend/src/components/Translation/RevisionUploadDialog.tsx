@@ -0,0 +1,124 @@
+/**
+ * Revision Upload Dialog
+ *
+ * Uploads a revised version of a completed job's source document. The
+ * backend re-chunks it and aligns the chunks with the previous revision;
+ * the job page then shows how many chunks changed before the user starts
+ * the (partial) retranslation.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from '@mui/material';
+import { FileUpload } from './FileUpload';
+import { LegalAttestation, type LegalAttestationData } from './LegalAttestation';
+import { translationService, TranslationServiceError } from '../../services/translationService';
+import { getApiErrorMessage } from '../../utils/translationErrorMessages';
+
+export interface RevisionUploadDialogProps {
+  jobId: string;
+  open: boolean;
+  onClose: () => void;
+  /** Called after the revised file reached S3 and chunking has started. */
+  onUploaded: (revision: number) => void;
+}
+
+const NO_ATTESTATION: LegalAttestationData = {
+  acceptCopyrightOwnership: false,
+  acceptTranslationRights: false,
+  acceptLiabilityTerms: false,
+};
+
+export const RevisionUploadDialog: React.FC<RevisionUploadDialogProps> = ({
+  jobId,
+  open,
+  onClose,
+  onUploaded,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [attestation, setAttestation] = useState<LegalAttestationData>(NO_ATTESTATION);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canUpload =
+    file !== null &&
+    attestation.acceptCopyrightOwnership &&
+    attestation.acceptTranslationRights &&
+    attestation.acceptLiabilityTerms;
+
+  const handleClose = () => {
+    if (uploading) return;
+    setFile(null);
+    setAttestation(NO_ATTESTATION);
+    setError(null);
+    onClose();
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const legalAttestation = await translationService.createLegalAttestation(
+        attestation.acceptCopyrightOwnership,
+        attestation.acceptTranslationRights,
+        attestation.acceptLiabilityTerms
+      );
+      const { revision } = await translationService.uploadRevision(jobId, {
+        file,
+        legalAttestation,
+      });
+      setFile(null);
+      setAttestation(NO_ATTESTATION);
+      onUploaded(revision);
+    } catch (err) {
+      setError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to upload the revised document'
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Upload Revised Version</DialogTitle>
+      <DialogContent>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Only the parts of the document that changed are translated again; the rest is kept from
+          the current translation. You will see how much changed before starting.
+        </Alert>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <FileUpload file={file} onChange={setFile} />
+        <LegalAttestation value={attestation} onChange={setAttestation} />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={uploading}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => void handleUpload()}
+          disabled={!canUpload || uploading}
+          startIcon={uploading ? <CircularProgress size={20} /> : undefined}
+        >
+          {uploading ? 'Uploading...' : 'Upload Revision'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
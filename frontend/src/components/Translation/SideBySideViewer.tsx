@@ -11,20 +11,140 @@
  *   Previous useState-based isScrolling flag triggered effect re-registration
  *   on every scroll tick — fixed by moving the flag to a ref.
  *
+ * - Each pane carries its own `dir`, so an Arabic or Hebrew
+ *   translation renders right-to-left next to a left-to-right source.
+ * - With a paragraph alignment, the translated paragraphs a source
+ *   paragraph became share one row, so row N of each pane is the same text.
+ *   Paired panes sync by row rather than by scroll percentage.
+ * - With `onSaveTranslation`, each translated row can be edited in place.
+ *   Saving hands back the whole translation with the alignment of the
+ *   edited rows, so a row split into two paragraphs stays next to its
+ *   source paragraph.
+ * - With `onAddComment`, each paragraph of either pane can carry comment
+ *   threads (see CommentThreadDialog). A thread anchored past the last
+ *   paragraph, after a retranslation with fewer rows, shows on the last
+ *   one, as in the review PDF. "Unresolved only" narrows both panes to the
+ *   rows with an open thread; paired panes keep the same rows.
+ *
  * Implements requirements from GitHub Issue #27.
  */
 
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { Box, Paper, Typography, Divider, IconButton, Tooltip } from '@mui/material';
+import {
+  Badge,
+  Box,
+  Paper,
+  Typography,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  Switch,
+  Tooltip,
+  TextField,
+  Button,
+} from '@mui/material';
+import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
+import EditIcon from '@mui/icons-material/Edit';
 import SyncIcon from '@mui/icons-material/Sync';
 import SyncDisabledIcon from '@mui/icons-material/SyncDisabled';
 import { Virtuoso, VirtuosoHandle } from 'react-virtuoso';
+import {
+  MAX_EDIT_NOTE_LENGTH,
+  type CommentAnchor,
+  type CommentSide,
+  type CommentThread,
+  type ParagraphAlignment,
+  type TextDirection,
+} from '@lfmt/shared-types';
+import { CommentThreadDialog } from './CommentThreadDialog';
 
 export interface SideBySideViewerProps {
   sourceText: string;
   translatedText: string;
   sourceLanguage?: string;
   targetLanguage?: string;
+  /** Writing direction of the source pane (see `getTextDirection`). */
+  sourceDirection?: TextDirection;
+  /** Writing direction of the translated pane (see `getTextDirection`). */
+  translatedDirection?: TextDirection;
+  /**
+   * Translated paragraphs per source paragraph. Ignored unless it accounts
+   * for every paragraph of both texts.
+   */
+  alignment?: ParagraphAlignment;
+  /**
+   * Makes the translated rows editable. Called with the edited translation,
+   * when the rows pair with the source paragraphs their alignment, and the
+   * editor's note if one was written; the editor stays open if the
+   * returned promise rejects.
+   */
+  onSaveTranslation?: (
+    translatedText: string,
+    alignment?: ParagraphAlignment,
+    note?: string
+  ) => Promise<void>;
+  /** Comment threads of the text on screen (one chunk). */
+  comments?: CommentThread[];
+  /**
+   * Makes the paragraphs of both panes commentable. The comment callbacks
+   * keep the typed text when the returned promise rejects.
+   */
+  onAddComment?: (
+    anchor: Pick<CommentAnchor, 'side' | 'paragraphIndex'>,
+    body: string
+  ) => Promise<void>;
+  onReplyToComment?: (threadId: string, body: string) => Promise<void>;
+  onResolveComment?: (threadId: string, resolved: boolean) => Promise<void>;
+}
+
+const NO_COMMENTS: CommentThread[] = [];
+
+/**
+ * Group `paragraphs` into one row per source paragraph, or null when
+ * `alignment` does not describe these texts.
+ */
+function groupByAlignment(
+  paragraphs: string[],
+  alignment: ParagraphAlignment,
+  sourceCount: number
+): string[] | null {
+  const total = alignment.reduce((sum, count) => sum + count, 0);
+  if (alignment.length !== sourceCount || total !== paragraphs.length) {
+    return null;
+  }
+  let next = 0;
+  return alignment.map((count) => paragraphs.slice(next, (next += count)).join('\n\n'));
+}
+
+/**
+ * The threads of one pane per row; a thread anchored past the last row
+ * goes on the last one.
+ */
+function threadsByRow(
+  threads: CommentThread[],
+  side: CommentSide,
+  rowCount: number
+): Map<number, CommentThread[]> {
+  const rows = new Map<number, CommentThread[]>();
+  if (rowCount === 0) return rows;
+  for (const thread of threads) {
+    if (thread.side !== side) continue;
+    const row = Math.min(thread.paragraphIndex, rowCount - 1);
+    rows.set(row, [...(rows.get(row) ?? []), thread]);
+  }
+  return rows;
+}
+
+/** Rows with at least one unresolved thread, in order. */
+function unresolvedRows(rows: Map<number, CommentThread[]>): number[] {
+  return [...rows]
+    .filter(([, threads]) => threads.some((thread) => !thread.resolved))
+    .map(([row]) => row);
+}
+
+/** Split text into its non-empty paragraphs. */
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\n+/).filter((p) => p.trim());
 }
 
 export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
@@ -32,6 +152,14 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
   translatedText,
   sourceLanguage = 'Source',
   targetLanguage = 'Translation',
+  sourceDirection = 'ltr',
+  translatedDirection = 'ltr',
+  alignment,
+  onSaveTranslation,
+  comments = NO_COMMENTS,
+  onAddComment,
+  onReplyToComment,
+  onResolveComment,
 }) => {
   const sourceVirtuosoRef = useRef<VirtuosoHandle>(null);
   const translatedVirtuosoRef = useRef<VirtuosoHandle>(null);
@@ -43,21 +171,53 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
   // approach rebuilt scroll listeners hundreds of times per second).
   const isScrollingRef = useRef(false);
   const rafIdRef = useRef<number | null>(null);
+  const sourceFirstRowRef = useRef(0);
+  const translatedFirstRowRef = useRef(0);
   const scrollResetTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const [syncEnabled, setSyncEnabled] = useState(true);
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [unresolvedOnly, setUnresolvedOnly] = useState(false);
+  const [openAnchor, setOpenAnchor] = useState<{ side: CommentSide; row: number } | null>(null);
 
   // Split text into paragraphs (memoized — splitting 400K-word strings on every
   // render would be wasteful).
-  const sourceParagraphs = useMemo(
-    () => sourceText.split(/\n\n+/).filter((p) => p.trim()),
-    [sourceText]
+  const sourceParagraphs = useMemo(() => splitParagraphs(sourceText), [sourceText]);
+  const translatedParagraphs = useMemo(() => splitParagraphs(translatedText), [translatedText]);
+  const translatedRows = useMemo(
+    () =>
+      (alignment && groupByAlignment(translatedParagraphs, alignment, sourceParagraphs.length)) ||
+      translatedParagraphs,
+    [alignment, translatedParagraphs, sourceParagraphs.length]
+  );
+  // Row N of each pane holds the same text.
+  const paired = translatedRows.length === sourceParagraphs.length;
+
+  const sourceThreads = useMemo(
+    () => threadsByRow(comments, 'source', sourceParagraphs.length),
+    [comments, sourceParagraphs.length]
   );
-  const translatedParagraphs = useMemo(
-    () => translatedText.split(/\n\n+/).filter((p) => p.trim()),
-    [translatedText]
+  const translatedThreads = useMemo(
+    () => threadsByRow(comments, 'translation', translatedRows.length),
+    [comments, translatedRows.length]
   );
 
+  // Virtuoso items are row indices, so a filtered pane still knows which
+  // paragraph each item is. Paired panes show the same rows.
+  const [sourceItems, translatedItems] = useMemo(() => {
+    if (!unresolvedOnly) {
+      return [sourceParagraphs.map((_, i) => i), translatedRows.map((_, i) => i)];
+    }
+    const sourceOpen = unresolvedRows(sourceThreads);
+    const translatedOpen = unresolvedRows(translatedThreads);
+    if (!paired) return [sourceOpen, translatedOpen];
+    const rows = [...new Set([...sourceOpen, ...translatedOpen])].sort((a, b) => a - b);
+    return [rows, rows];
+  }, [unresolvedOnly, paired, sourceParagraphs, translatedRows, sourceThreads, translatedThreads]);
+
   // Synchronized scrolling. Reads the isScrolling flag from a ref so the
   // effect only re-registers when syncEnabled flips, not on every scroll tick.
   useEffect(() => {
@@ -67,7 +227,12 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
     const translatedEl = translatedScrollerRef.current;
     if (!sourceEl || !translatedEl) return;
 
-    const syncScroll = (source: HTMLElement, target: HTMLElement) => {
+    const syncScroll = (
+      source: HTMLElement,
+      target: HTMLElement,
+      firstRowRef: React.MutableRefObject<number>,
+      targetHandle: VirtuosoHandle | null
+    ) => {
       if (isScrollingRef.current) return;
       isScrollingRef.current = true;
 
@@ -76,13 +241,17 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
         cancelAnimationFrame(rafIdRef.current);
       }
       rafIdRef.current = requestAnimationFrame(() => {
+        rafIdRef.current = null;
+        if (paired && targetHandle) {
+          targetHandle.scrollToIndex({ index: firstRowRef.current, align: 'start' });
+          return;
+        }
         const sourceMax = source.scrollHeight - source.clientHeight;
         const targetMax = target.scrollHeight - target.clientHeight;
         if (sourceMax > 0 && targetMax > 0) {
           const scrollPercentage = source.scrollTop / sourceMax;
           target.scrollTop = scrollPercentage * targetMax;
         }
-        rafIdRef.current = null;
       });
 
       // Release the lock shortly after, so the OPPOSITE pane's scroll event
@@ -95,8 +264,10 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
       }, 100);
     };
 
-    const onSourceScroll = () => syncScroll(sourceEl, translatedEl);
-    const onTranslatedScroll = () => syncScroll(translatedEl, sourceEl);
+    const onSourceScroll = () =>
+      syncScroll(sourceEl, translatedEl, sourceFirstRowRef, translatedVirtuosoRef.current);
+    const onTranslatedScroll = () =>
+      syncScroll(translatedEl, sourceEl, translatedFirstRowRef, sourceVirtuosoRef.current);
 
     // Passive listeners — we never preventDefault, and passive lets the browser
     // skip the "is this handler going to block scrolling?" check on every event.
@@ -116,12 +287,45 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
       }
       isScrollingRef.current = false;
     };
-  }, [syncEnabled]);
+  }, [syncEnabled, paired]);
 
   const toggleSync = () => {
     setSyncEnabled((prev) => !prev);
   };
 
+  const startEditing = (index: number) => {
+    setEditingRow(index);
+    setDraft(translatedRows[index].trim());
+    setNote('');
+  };
+
+  /**
+   * Put the edited row back in place and hand the whole translation to
+   * `onSaveTranslation`. Blank lines holding only spaces become plain
+   * paragraph breaks, so the paragraphs counted here are the ones the
+   * backend counts.
+   */
+  const saveRow = async () => {
+    if (editingRow === null || !onSaveTranslation) return;
+    const edited = draft.replace(/\n\s*\n/g, '\n\n').trim();
+    const rows = translatedRows.map((row, index) => (index === editingRow ? edited : row));
+    const rowAlignment = paired ? rows.map((row) => splitParagraphs(row).length) : undefined;
+
+    setSaving(true);
+    try {
+      await onSaveTranslation(
+        rows.filter((row) => row.trim()).join('\n\n'),
+        rowAlignment,
+        note.trim() || undefined
+      );
+      setEditingRow(null);
+    } catch {
+      // The caller reports the failure; keep the draft so it is not lost.
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const renderParagraph = (keyPrefix: string) => (index: number, paragraph: string) => (
     <Typography
       key={`${keyPrefix}-${index}`}
@@ -137,6 +341,106 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
     </Typography>
   );
 
+  const renderCommentButton = (side: CommentSide, index: number) => {
+    if (!onAddComment) return null;
+    const threads = (side === 'source' ? sourceThreads : translatedThreads).get(index) ?? [];
+    const open = threads.filter((thread) => !thread.resolved).length;
+    const label = `${side === 'source' ? 'Source' : 'Translated'} paragraph ${index + 1}`;
+    return (
+      <Tooltip title={threads.length > 0 ? `${threads.length} comment thread(s)` : 'Comment'}>
+        <IconButton
+          size="small"
+          onClick={() => setOpenAnchor({ side, row: index })}
+          color={open > 0 ? 'warning' : 'default'}
+          aria-label={`Comments on ${label.toLowerCase()}`}
+          sx={{ mr: 1 }}
+        >
+          <Badge badgeContent={threads.length} color={open > 0 ? 'warning' : 'default'}>
+            <ChatBubbleOutlineIcon fontSize="small" />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+    );
+  };
+
+  const renderSourceRow = (_: number, index: number) => {
+    if (!onAddComment) {
+      return renderParagraph('source')(index, sourceParagraphs[index]);
+    }
+    return (
+      <Box key={`source-${index}`} sx={{ display: 'flex', alignItems: 'flex-start' }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          {renderParagraph('source')(index, sourceParagraphs[index])}
+        </Box>
+        {renderCommentButton('source', index)}
+      </Box>
+    );
+  };
+
+  const renderTranslatedRow = (_: number, index: number) => {
+    const row = translatedRows[index];
+    if (index === editingRow) {
+      return (
+        <Box key={`translated-${index}`} sx={{ mb: 3, px: 3 }}>
+          <TextField
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            multiline
+            fullWidth
+            disabled={saving}
+            inputProps={{ 'aria-label': `Translation of paragraph ${index + 1}` }}
+          />
+          <TextField
+            label="Note (optional)"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            fullWidth
+            size="small"
+            disabled={saving}
+            inputProps={{ maxLength: MAX_EDIT_NOTE_LENGTH }}
+            sx={{ mt: 1 }}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+            <Button onClick={() => setEditingRow(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              onClick={saveRow}
+              disabled={saving || !draft.trim() || draft.trim() === row.trim()}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </Box>
+        </Box>
+      );
+    }
+    if (!onSaveTranslation && !onAddComment) {
+      return renderParagraph('translated')(index, row);
+    }
+    return (
+      <Box key={`translated-${index}`} sx={{ display: 'flex', alignItems: 'flex-start' }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>{renderParagraph('translated')(index, row)}</Box>
+        {renderCommentButton('translation', index)}
+        {onSaveTranslation && (
+          <Tooltip title="Edit this paragraph">
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => startEditing(index)}
+                disabled={editingRow !== null}
+                aria-label={`Edit paragraph ${index + 1}`}
+                sx={{ mr: 1 }}
+              >
+                <EditIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        )}
+      </Box>
+    );
+  };
+
   return (
     <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       {/* Header with sync toggle */}
@@ -149,19 +453,32 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
         }}
       >
         <Typography variant="h6">Side-by-Side Comparison</Typography>
-        <Tooltip
-          title={syncEnabled ? 'Disable synchronized scrolling' : 'Enable synchronized scrolling'}
-        >
-          <IconButton
-            onClick={toggleSync}
-            color={syncEnabled ? 'primary' : 'default'}
-            aria-label={
-              syncEnabled ? 'Disable synchronized scrolling' : 'Enable synchronized scrolling'
-            }
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          {onAddComment && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={unresolvedOnly}
+                  onChange={(e) => setUnresolvedOnly(e.target.checked)}
+                />
+              }
+              label="Unresolved only"
+            />
+          )}
+          <Tooltip
+            title={syncEnabled ? 'Disable synchronized scrolling' : 'Enable synchronized scrolling'}
           >
-            {syncEnabled ? <SyncIcon /> : <SyncDisabledIcon />}
-          </IconButton>
-        </Tooltip>
+            <IconButton
+              onClick={toggleSync}
+              color={syncEnabled ? 'primary' : 'default'}
+              aria-label={
+                syncEnabled ? 'Disable synchronized scrolling' : 'Enable synchronized scrolling'
+              }
+            >
+              {syncEnabled ? <SyncIcon /> : <SyncDisabledIcon />}
+            </IconButton>
+          </Tooltip>
+        </Box>
       </Box>
 
       {/* Dual pane container */}
@@ -198,6 +515,7 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
           <Divider />
           <Box
             data-testid="source-pane"
+            dir={sourceDirection}
             sx={{
               flex: 1,
               minHeight: 0,
@@ -207,8 +525,11 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
           >
             <Virtuoso
               ref={sourceVirtuosoRef}
-              data={sourceParagraphs}
-              itemContent={renderParagraph('source')}
+              data={sourceItems}
+              itemContent={renderSourceRow}
+              rangeChanged={({ startIndex }) => {
+                sourceFirstRowRef.current = startIndex;
+              }}
               scrollerRef={(ref) => {
                 sourceScrollerRef.current = ref as HTMLElement | null;
               }}
@@ -243,6 +564,7 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
           <Divider />
           <Box
             data-testid="translated-pane"
+            dir={translatedDirection}
             sx={{
               flex: 1,
               minHeight: 0,
@@ -252,8 +574,11 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
           >
             <Virtuoso
               ref={translatedVirtuosoRef}
-              data={translatedParagraphs}
-              itemContent={renderParagraph('translated')}
+              data={translatedItems}
+              itemContent={renderTranslatedRow}
+              rangeChanged={({ startIndex }) => {
+                translatedFirstRowRef.current = startIndex;
+              }}
               scrollerRef={(ref) => {
                 translatedScrollerRef.current = ref as HTMLElement | null;
               }}
@@ -262,6 +587,31 @@ export const SideBySideViewer: React.FC<SideBySideViewerProps> = ({
           </Box>
         </Paper>
       </Box>
+
+      {openAnchor && onAddComment && (
+        <CommentThreadDialog
+          open
+          paragraphLabel={`${openAnchor.side === 'source' ? 'source' : 'translated'} paragraph ${
+            openAnchor.row + 1
+          }`}
+          paragraphText={
+            (openAnchor.side === 'source' ? sourceParagraphs : translatedRows)[openAnchor.row] ?? ''
+          }
+          threads={
+            (openAnchor.side === 'source' ? sourceThreads : translatedThreads).get(
+              openAnchor.row
+            ) ?? NO_COMMENTS
+          }
+          onClose={() => setOpenAnchor(null)}
+          onAdd={(body) =>
+            onAddComment({ side: openAnchor.side, paragraphIndex: openAnchor.row }, body)
+          }
+          onReply={(threadId, body) => onReplyToComment?.(threadId, body) ?? Promise.resolve()}
+          onResolve={(threadId, resolved) =>
+            onResolveComment?.(threadId, resolved) ?? Promise.resolve()
+          }
+        />
+      )}
     </Box>
   );
 };
@@ -17,18 +17,21 @@ import {
   Paper,
   SelectChangeEvent,
 } from '@mui/material';
-import { TRANSLATION_TONE_VALUES, type TranslationTone } from '@lfmt/shared-types';
+import {
+  LANGUAGE_REGISTRY,
+  TRANSLATION_TONE_VALUES,
+  type LanguageCode,
+  type TranslationTone,
+} from '@lfmt/shared-types';
 
 // LANGUAGE_OPTIONS / TONE_OPTIONS are exported as the canonical source of
 // truth for both (a) the dropdown rendered below AND (b) the read-only
 // label maps consumed by `utils/translationLabels.ts`. Keeping the option
 // arrays here (next to the form) preserves the component-local layout the
 // dropdown wants, while the label helpers derive their tables from these
-// same arrays — so adding a language requires exactly one edit, and the
-// TypeScript compiler catches drift via `LanguageCode` / `ToneCode` (R2).
-//
-// `as const` is load-bearing: it narrows the literal types so we can
-// derive `LanguageCode` / `ToneCode` unions below.
+// same arrays. Both are in turn derived from shared-types
+// (LANGUAGE_REGISTRY / TRANSLATION_TONE_VALUES), so adding a language is
+// one registry entry and the backend validator picks it up too.
 //
 // We deliberately export non-component values from this `.tsx` file —
 // the alternative (a separate `translationOptions.ts` module) would
@@ -36,13 +39,12 @@ import { TRANSLATION_TONE_VALUES, type TranslationTone } from '@lfmt/shared-type
 // will still rebuild the whole module on edit, which is fine for a
 // rarely-touched options table.
 // eslint-disable-next-line react-refresh/only-export-components
-export const LANGUAGE_OPTIONS = [
-  { value: 'es', label: 'Spanish (Español)' },
-  { value: 'fr', label: 'French (Français)' },
-  { value: 'de', label: 'German (Deutsch)' },
-  { value: 'it', label: 'Italian (Italiano)' },
-  { value: 'zh', label: 'Chinese (中文)' },
-] as const;
+export const LANGUAGE_OPTIONS: ReadonlyArray<{ value: LanguageCode; label: string }> =
+  LANGUAGE_REGISTRY.map(({ code, englishName, nativeName }) => ({
+    value: code,
+    // "English (English)" would be silly — only show the endonym when it differs.
+    label: nativeName === englishName ? englishName : `${englishName} (${nativeName})`,
+  }));
 
 /**
  * Human-readable metadata for each tone — ordered for UI display.
@@ -67,7 +69,7 @@ export const TONE_OPTIONS = TRANSLATION_TONE_VALUES.map((value) => ({
   ...TONE_METADATA[value],
 }));
 
-export type LanguageCode = (typeof LANGUAGE_OPTIONS)[number]['value'];
+export type { LanguageCode };
 export type ToneCode = TranslationTone;
 
 export interface TranslationConfigData {
@@ -14,6 +14,7 @@ import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty';
 import { TranslationJob } from '../../services/translationService';
 import { useTranslationJob, calculateProgress } from '../../hooks/useTranslationJob';
 import { getLanguageLabel } from '../../utils/translationLabels';
+import { isTranslatedStatus } from '@lfmt/shared-types';
 
 export interface TranslationProgressProps {
   jobId: string;
@@ -30,6 +31,11 @@ const STATUS_COLORS: Record<string, 'default' | 'primary' | 'success' | 'error'
   FAILED: 'error',
   CHUNKING_FAILED: 'error',
   TRANSLATION_FAILED: 'error',
+  PAUSED: 'warning',
+  CANCELLED: 'default',
+  IN_REVIEW: 'primary',
+  CHANGES_REQUESTED: 'warning',
+  APPROVED: 'success',
 };
 
 const STATUS_LABELS: Record<string, string> = {
@@ -41,6 +47,11 @@ const STATUS_LABELS: Record<string, string> = {
   FAILED: 'Failed',
   CHUNKING_FAILED: 'Chunking Failed',
   TRANSLATION_FAILED: 'Translation Failed',
+  PAUSED: 'Paused',
+  CANCELLED: 'Cancelled',
+  IN_REVIEW: 'In Review',
+  CHANGES_REQUESTED: 'Changes Requested',
+  APPROVED: 'Approved',
 };
 
 export const TranslationProgress: React.FC<TranslationProgressProps> = ({
@@ -54,9 +65,11 @@ export const TranslationProgress: React.FC<TranslationProgressProps> = ({
   useEffect(() => {
     if (!job || !isTerminal) return;
 
-    if (job.status === 'COMPLETED' && onComplete) {
+    // A translation under review has completed too.
+    const translated = isTranslatedStatus(job.status);
+    if (translated && onComplete) {
       onComplete(job);
-    } else if (job.status !== 'COMPLETED' && onError) {
+    } else if (!translated && job.status !== 'CANCELLED' && onError) {
       onError(job.errorMessage || 'Translation failed');
     }
   }, [job, isTerminal, onComplete, onError]);
@@ -95,7 +108,7 @@ export const TranslationProgress: React.FC<TranslationProgressProps> = ({
 
   const progress = calculateProgress(job);
   const isError = job.status.includes('FAILED');
-  const isComplete = job.status === 'COMPLETED';
+  const isComplete = isTranslatedStatus(job.status);
 
   return (
     <Paper elevation={1} sx={{ p: 3 }}>
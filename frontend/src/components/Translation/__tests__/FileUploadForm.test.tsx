@@ -75,6 +75,54 @@ describe('FileUploadForm', () => {
       expect(uploadButton).toBeEnabled();
     });
 
+    it('should accept a Word document, even with an empty browser-reported type', async () => {
+      const user = userEvent.setup();
+      render(<FileUploadForm onUploadComplete={mockOnUploadComplete} />);
+
+      const content = 'x'.repeat(1500);
+      const file = new File([content], 'manuscript.docx', { type: '' });
+
+      const input = screen.getByLabelText(/file upload input/i);
+      await user.upload(input, file);
+
+      await waitFor(() => {
+        expect(screen.getByText('manuscript.docx')).toBeInTheDocument();
+      });
+      expect(screen.getByRole('button', { name: /^upload$/i })).toBeEnabled();
+    });
+
+    it('should accept an EPUB e-book', async () => {
+      const user = userEvent.setup();
+      render(<FileUploadForm onUploadComplete={mockOnUploadComplete} />);
+
+      const content = 'x'.repeat(1500);
+      const file = new File([content], 'novel.epub', { type: 'application/epub+zip' });
+
+      const input = screen.getByLabelText(/file upload input/i);
+      await user.upload(input, file);
+
+      await waitFor(() => {
+        expect(screen.getByText('novel.epub')).toBeInTheDocument();
+      });
+      expect(screen.getByRole('button', { name: /^upload$/i })).toBeEnabled();
+    });
+
+    it('should accept SRT subtitles', async () => {
+      const user = userEvent.setup();
+      render(<FileUploadForm onUploadComplete={mockOnUploadComplete} />);
+
+      const content = '1\n00:00:01,000 --> 00:00:02,000\nHello.\n\n'.repeat(40);
+      const file = new File([content], 'episode.srt', { type: 'application/x-subrip' });
+
+      const input = screen.getByLabelText(/file upload input/i);
+      await user.upload(input, file);
+
+      await waitFor(() => {
+        expect(screen.getByText('episode.srt')).toBeInTheDocument();
+      });
+      expect(screen.getByRole('button', { name: /^upload$/i })).toBeEnabled();
+    });
+
     it('should display file size after selection', async () => {
       const user = userEvent.setup();
       render(<FileUploadForm onUploadComplete={mockOnUploadComplete} />);
@@ -173,7 +221,9 @@ describe('FileUploadForm', () => {
       await user.upload(input, file);
 
       await waitFor(() => {
-        expect(screen.getByText(/only \.txt files are allowed/i)).toBeInTheDocument();
+        expect(
+          screen.getByText(/only \.txt, \.docx, \.epub, \.srt or \.vtt files are allowed/i)
+        ).toBeInTheDocument();
       });
     });
 
@@ -188,7 +238,9 @@ describe('FileUploadForm', () => {
       await user.upload(input, file);
 
       await waitFor(() => {
-        expect(screen.getByText(/only \.txt files are allowed/i)).toBeInTheDocument();
+        expect(
+          screen.getByText(/only \.txt, \.docx, \.epub, \.srt or \.vtt files are allowed/i)
+        ).toBeInTheDocument();
       });
     });
 
@@ -206,7 +258,9 @@ describe('FileUploadForm', () => {
 
       await waitFor(() => {
         // Type check passes, but extension check fails
-        expect(screen.getByText(/only \.txt files are allowed/i)).toBeInTheDocument();
+        expect(
+          screen.getByText(/only \.txt, \.docx, \.epub, \.srt or \.vtt files are allowed/i)
+        ).toBeInTheDocument();
       });
 
       // Select valid file
@@ -216,7 +270,9 @@ describe('FileUploadForm', () => {
       await user.upload(input, validFile);
 
       await waitFor(() => {
-        expect(screen.queryByText(/only \.txt files are allowed/i)).not.toBeInTheDocument();
+        expect(
+          screen.queryByText(/only \.txt, \.docx, \.epub, \.srt or \.vtt files are allowed/i)
+        ).not.toBeInTheDocument();
       });
     });
   });
@@ -402,7 +458,7 @@ describe('FileUploadForm', () => {
 
       const input = screen.getByLabelText(/file upload input/i);
       expect(input).toHaveAttribute('type', 'file');
-      expect(input).toHaveAttribute('accept', '.txt');
+      expect(input).toHaveAttribute('accept', '.txt,.docx,.epub,.srt,.vtt');
     });
 
     it('should have accessible buttons', () => {
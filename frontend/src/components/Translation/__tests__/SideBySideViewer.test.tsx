@@ -6,6 +6,9 @@
  * - Sync toggle UX (default ON, can be disabled)
  * - Virtualization (only a subset of paragraphs rendered for huge inputs)
  * - Empty / minimal text
+ * - Paragraph alignment grouping translated rows
+ * - Editing translated rows in place
+ * - Comment threads and the unresolved filter
  *
  * Note on scroll-sync testing: jsdom does not implement layout, so
  * scrollTop/scrollHeight are always 0 and the rAF + scroll handler chain
@@ -18,8 +21,9 @@
 
 import React from 'react';
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '../../../test-utils';
+import { render, screen, fireEvent, within, waitFor } from '../../../test-utils';
 import { SideBySideViewer } from '../SideBySideViewer';
+import type { CommentThread } from '@lfmt/shared-types';
 
 // Stub react-virtuoso so the test environment doesn't depend on layout APIs
 // (jsdom returns 0 for clientHeight, which makes Virtuoso render nothing).
@@ -77,6 +81,26 @@ describe('SideBySideViewer', () => {
     expect(screen.getByText('Translation')).toBeInTheDocument();
   });
 
+  it('renders each pane in its own writing direction', () => {
+    render(
+      <SideBySideViewer
+        sourceText="Hello world."
+        translatedText="שלום עולם."
+        sourceDirection="ltr"
+        translatedDirection="rtl"
+      />
+    );
+
+    expect(screen.getByTestId('source-pane')).toHaveAttribute('dir', 'ltr');
+    expect(screen.getByTestId('translated-pane')).toHaveAttribute('dir', 'rtl');
+  });
+
+  it('defaults both panes to left-to-right', () => {
+    render(<SideBySideViewer sourceText="A" translatedText="B" />);
+
+    expect(screen.getByTestId('translated-pane')).toHaveAttribute('dir', 'ltr');
+  });
+
   it('splits text on blank-line boundaries and renders paragraphs', () => {
     const source = 'First paragraph.\n\nSecond paragraph.\n\nThird paragraph.';
     render(<SideBySideViewer sourceText={source} translatedText="Translated." />);
@@ -87,6 +111,207 @@ describe('SideBySideViewer', () => {
     expect(screen.getByText('Translated.')).toBeInTheDocument();
   });
 
+  describe('paragraph alignment', () => {
+    const source = 'It rained.\n\nThe river rose.\n\nWe left.';
+    const translated = 'Llovió.\n\nEl río\n\ncreció.\n\nNos fuimos.';
+    const translatedRows = () =>
+      within(screen.getByTestId('translated-pane')).getByTestId('virtuoso-scroller').children;
+
+    it('shows the paragraphs a source paragraph became in one row', () => {
+      render(
+        <SideBySideViewer sourceText={source} translatedText={translated} alignment={[1, 2, 1]} />
+      );
+
+      expect(translatedRows()).toHaveLength(3);
+      expect(translatedRows()[1]).toHaveTextContent('El río creció.');
+    });
+
+    it('ignores an alignment that does not match the texts', () => {
+      render(
+        <SideBySideViewer sourceText={source} translatedText={translated} alignment={[1, 1, 1]} />
+      );
+
+      expect(translatedRows()).toHaveLength(4);
+    });
+  });
+
+  describe('editing', () => {
+    const source = 'It rained.\n\nThe river rose.\n\nWe left.';
+    const translated = 'Llovió.\n\nEl río creció.\n\nNos fuimos.';
+
+    it('offers no editing without onSaveTranslation', () => {
+      render(<SideBySideViewer sourceText={source} translatedText={translated} />);
+
+      expect(screen.queryByRole('button', { name: /edit paragraph/i })).not.toBeInTheDocument();
+    });
+
+    it('saves an edited row with the alignment of the rows', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      render(
+        <SideBySideViewer
+          sourceText={source}
+          translatedText={translated}
+          onSaveTranslation={onSave}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit paragraph 2' }));
+      fireEvent.change(screen.getByLabelText('Translation of paragraph 2'), {
+        target: { value: 'El río subió,\n  \ny subió.' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      await waitFor(() => {
+        expect(screen.queryByLabelText('Translation of paragraph 2')).not.toBeInTheDocument();
+      });
+      expect(onSave).toHaveBeenCalledWith(
+        'Llovió.\n\nEl río subió,\n\ny subió.\n\nNos fuimos.',
+        [1, 2, 1],
+        undefined
+      );
+    });
+
+    it("passes the editor's note along with the edit", async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      render(
+        <SideBySideViewer
+          sourceText={source}
+          translatedText={translated}
+          onSaveTranslation={onSave}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit paragraph 1' }));
+      fireEvent.change(screen.getByLabelText('Translation of paragraph 1'), {
+        target: { value: 'Llovía.' },
+      });
+      fireEvent.change(screen.getByLabelText('Note (optional)'), {
+        target: { value: ' Imperfect tense ' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      await waitFor(() => expect(onSave).toHaveBeenCalled());
+      expect(onSave.mock.calls[0][2]).toBe('Imperfect tense');
+    });
+
+    it('keeps the draft open when the save fails', async () => {
+      const onSave = vi.fn().mockRejectedValue(new Error('conflict'));
+      render(
+        <SideBySideViewer
+          sourceText={source}
+          translatedText={translated}
+          onSaveTranslation={onSave}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit paragraph 1' }));
+      fireEvent.change(screen.getByLabelText('Translation of paragraph 1'), {
+        target: { value: 'Llovía.' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      await waitFor(() => expect(onSave).toHaveBeenCalled());
+      expect(screen.getByLabelText('Translation of paragraph 1')).toHaveValue('Llovía.');
+    });
+  });
+
+  describe('comments', () => {
+    const source = 'It rained.\n\nThe river rose.\n\nWe left.';
+    const translated = 'Llovió.\n\nEl río creció.\n\nNos fuimos.';
+    const thread = (overrides: Partial<CommentThread> = {}): CommentThread => ({
+      jobId: 'job-1',
+      threadId: 'thread-1',
+      chunkIndex: 0,
+      paragraphIndex: 1,
+      side: 'translation',
+      comments: [
+        {
+          commentId: 'comment-1',
+          author: 'editor@example.com',
+          body: 'Too literal',
+          createdAt: '2026-03-02T08:00:00.000Z',
+        },
+      ],
+      resolved: false,
+      createdAt: '2026-03-02T08:00:00.000Z',
+      updatedAt: '2026-03-02T08:00:00.000Z',
+      ...overrides,
+    });
+    const paneRows = (pane: string) =>
+      within(screen.getByTestId(pane)).getByTestId('virtuoso-scroller').children;
+
+    const renderWithComments = (comments: CommentThread[], handlers = {}) =>
+      render(
+        <SideBySideViewer
+          sourceText={source}
+          translatedText={translated}
+          comments={comments}
+          onAddComment={vi.fn().mockResolvedValue(undefined)}
+          {...handlers}
+        />
+      );
+
+    it('offers no comments without onAddComment', () => {
+      render(<SideBySideViewer sourceText={source} translatedText={translated} />);
+
+      expect(screen.queryByRole('button', { name: /comments on/i })).not.toBeInTheDocument();
+      expect(screen.queryByLabelText('Unresolved only')).not.toBeInTheDocument();
+    });
+
+    it('opens a thread on a source paragraph', async () => {
+      const onAddComment = vi.fn().mockResolvedValue(undefined);
+      renderWithComments([], { onAddComment });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Comments on source paragraph 3' }));
+      fireEvent.change(screen.getByLabelText('Comment'), { target: { value: ' Who is we? ' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add Comment' }));
+
+      await waitFor(() => expect(screen.getByLabelText('Comment')).toHaveValue(''));
+      expect(onAddComment).toHaveBeenCalledWith(
+        { side: 'source', paragraphIndex: 2 },
+        'Who is we?'
+      );
+    });
+
+    it('replies to and resolves the threads of a paragraph', async () => {
+      const onReplyToComment = vi.fn().mockResolvedValue(undefined);
+      const onResolveComment = vi.fn().mockResolvedValue(undefined);
+      renderWithComments([thread()], { onReplyToComment, onResolveComment });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Comments on translated paragraph 2' }));
+      expect(screen.getByText('Too literal')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Reply'), { target: { value: 'Agreed' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Reply' }));
+      await waitFor(() => expect(onReplyToComment).toHaveBeenCalledWith('thread-1', 'Agreed'));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Resolve' }));
+      await waitFor(() => expect(onResolveComment).toHaveBeenCalledWith('thread-1', true));
+    });
+
+    it('shows a thread anchored past the last row on the last row', () => {
+      renderWithComments([thread({ paragraphIndex: 7 })]);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Comments on translated paragraph 3' }));
+
+      expect(screen.getByText('Too literal')).toBeInTheDocument();
+    });
+
+    it('narrows paired panes to the rows with an unresolved thread', () => {
+      renderWithComments([
+        thread(),
+        thread({ threadId: 'thread-2', paragraphIndex: 0, side: 'source', resolved: true }),
+      ]);
+
+      fireEvent.click(screen.getByLabelText('Unresolved only'));
+
+      expect(paneRows('source-pane')).toHaveLength(1);
+      expect(paneRows('source-pane')[0]).toHaveTextContent('The river rose.');
+      expect(paneRows('translated-pane')).toHaveLength(1);
+      expect(paneRows('translated-pane')[0]).toHaveTextContent('El río creció.');
+    });
+  });
+
   it('toggles synchronized scrolling icon when sync button is clicked', () => {
     render(<SideBySideViewer sourceText="A" translatedText="B" />);
 
@@ -26,7 +26,7 @@ import {
   type TranslationConfigData,
   type TranslationConfigProps,
 } from '../TranslationConfig';
-import { TRANSLATION_TONE_VALUES } from '@lfmt/shared-types';
+import { LANGUAGE_REGISTRY, TRANSLATION_TONE_VALUES } from '@lfmt/shared-types';
 import { TRANSLATION_CONFIG_LABEL_PATTERNS as TC } from '../translationConfigLabels';
 
 describe('TranslationConfig', () => {
@@ -80,7 +80,7 @@ describe('TranslationConfig', () => {
       expect(defaultProps.value.targetLanguage).toBe('');
     });
 
-    it('should show all 5 language options when opened', async () => {
+    it('should show every registry language option when opened', async () => {
       const user = userEvent.setup();
       render(<TranslationConfig {...defaultProps} />);
 
@@ -88,11 +88,20 @@ describe('TranslationConfig', () => {
       await user.click(languageSelect);
 
       // Check for all language options
+      expect(screen.getByRole('option', { name: 'English' })).toBeInTheDocument();
       expect(screen.getByRole('option', { name: /Spanish.*Español/i })).toBeInTheDocument();
       expect(screen.getByRole('option', { name: /French.*Français/i })).toBeInTheDocument();
       expect(screen.getByRole('option', { name: /German.*Deutsch/i })).toBeInTheDocument();
       expect(screen.getByRole('option', { name: /Italian.*Italiano/i })).toBeInTheDocument();
       expect(screen.getByRole('option', { name: /Chinese.*中文/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Japanese.*日本語/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Korean.*한국어/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Portuguese.*Português/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Russian.*Русский/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Arabic.*العربية/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Hebrew.*עברית/i })).toBeInTheDocument();
+      // +1 for the empty "Select a language" placeholder item.
+      expect(screen.getAllByRole('option')).toHaveLength(LANGUAGE_REGISTRY.length + 1);
     });
 
     it('should call onChange when Spanish is selected', async () => {
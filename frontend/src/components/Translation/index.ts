@@ -18,3 +18,26 @@ export type { TranslationProgressProps } from './TranslationProgress';
 
 export { FileUploadForm } from './FileUploadForm';
 export type { FileUploadFormProps } from './FileUploadForm';
+
+export { RevisionUploadDialog } from './RevisionUploadDialog';
+export type { RevisionUploadDialogProps } from './RevisionUploadDialog';
+
+export { RetranslateChunkDialog } from './RetranslateChunkDialog';
+export type { RetranslateChunkDialogProps } from './RetranslateChunkDialog';
+
+export { FlaggedChunksList } from './FlaggedChunksList';
+export type { FlaggedChunksListProps } from './FlaggedChunksList';
+
+export { ChunkHistoryDialog } from './ChunkHistoryDialog';
+export type { ChunkHistoryDialogProps } from './ChunkHistoryDialog';
+
+export { ReviewPanel } from './ReviewPanel';
+export type { ReviewPanelProps } from './ReviewPanel';
+
+export { ReviewAssignmentsPanel } from './ReviewAssignmentsPanel';
+
+export { CommentThreadDialog } from './CommentThreadDialog';
+export type { CommentThreadDialogProps } from './CommentThreadDialog';
+
+export { GlossaryReportPanel } from './GlossaryReportPanel';
+export type { GlossaryReportPanelProps } from './GlossaryReportPanel';
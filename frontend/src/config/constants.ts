@@ -5,6 +5,7 @@
  * Environment-specific values are loaded from import.meta.env (Vite).
  */
 
+import { LANGUAGE_REGISTRY } from '@lfmt/shared-types';
 import { stripTrailingSlashes } from '../utils/url';
 
 /**
@@ -103,14 +104,10 @@ export const TRANSLATION_CONFIG = {
   /**
    * Supported source/target languages
    */
-  SUPPORTED_LANGUAGES: [
-    { code: 'en', name: 'English' },
-    { code: 'es', name: 'Spanish' },
-    { code: 'fr', name: 'French' },
-    { code: 'de', name: 'German' },
-    { code: 'it', name: 'Italian' },
-    { code: 'zh', name: 'Chinese' },
-  ] as const,
+  SUPPORTED_LANGUAGES: LANGUAGE_REGISTRY.map(({ code, englishName }) => ({
+    code,
+    name: englishName,
+  })),
 
   /**
    * Document size limits (from backend constraints)
@@ -205,19 +202,6 @@ export const FEATURE_FLAGS = {
    * Enable analytics tracking
    */
   ANALYTICS: import.meta.env.PROD,
-
-  /**
-   * Enable Side-by-Side Compare View.
-   *
-   * Default OFF: the source-text retrieval API is not yet implemented, so
-   * the source pane currently renders a "requires backend implementation"
-   * placeholder. Hiding the entry-point prevents shipping a half-built
-   * feature to end users. Set VITE_ENABLE_COMPARE_VIEW=true to expose it
-   * for development / demos.
-   *
-   * Tracking issue: source-text retrieval API + viewer completion.
-   */
-  COMPARE_VIEW: import.meta.env.VITE_ENABLE_COMPARE_VIEW === 'true',
 } as const;
 
 /**
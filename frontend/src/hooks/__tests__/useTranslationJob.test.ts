@@ -57,6 +57,7 @@ describe('isTerminalState', () => {
     expect(isTerminalState('FAILED')).toBe(true);
     expect(isTerminalState('CHUNKING_FAILED')).toBe(true);
     expect(isTerminalState('TRANSLATION_FAILED')).toBe(true);
+    expect(isTerminalState('CANCELLED')).toBe(true);
   });
 
   it('returns false for non-terminal statuses', () => {
@@ -64,6 +65,7 @@ describe('isTerminalState', () => {
     expect(isTerminalState('CHUNKING')).toBe(false);
     expect(isTerminalState('CHUNKED')).toBe(false);
     expect(isTerminalState('IN_PROGRESS')).toBe(false);
+    expect(isTerminalState('PAUSED')).toBe(false);
   });
 
   it('returns false for unknown status', () => {
@@ -10,7 +10,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { useState, useEffect } from 'react';
 import { translationService, TranslationJob } from '../services/translationService';
-import { TRANSLATION_TERMINAL_STATUSES } from '@lfmt/shared-types';
+import { TRANSLATION_TERMINAL_STATUSES, isTranslatedStatus } from '@lfmt/shared-types';
 
 // Use the canonical list from shared-types so there is one source of truth.
 const TERMINAL_STATES = TRANSLATION_TERMINAL_STATUSES;
@@ -81,7 +81,7 @@ export function useTranslationJob(jobId: string | undefined) {
 }
 
 export function calculateProgress(job: TranslationJob): number {
-  if (job.status === 'COMPLETED') return 100;
+  if (isTranslatedStatus(job.status)) return 100;
   if (
     job.status === 'FAILED' ||
     job.status === 'CHUNKING_FAILED' ||
@@ -1,7 +1,8 @@
 /**
  * Dashboard Page
  *
- * Main dashboard page for authenticated users with quick actions for translation workflow.
+ * Main dashboard page for authenticated users with quick actions for translation workflow,
+ * and the translations other users asked them to review.
  */
 
 import {
@@ -18,6 +19,7 @@ import {
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { ROUTES } from '../config/constants';
+import { ReviewAssignmentsPanel } from '../components/Translation/ReviewAssignmentsPanel';
 import AddIcon from '@mui/icons-material/Add';
 import HistoryIcon from '@mui/icons-material/History';
 import TranslateIcon from '@mui/icons-material/Translate';
@@ -110,6 +112,8 @@ export default function DashboardPage() {
         </Grid>
       </Grid>
 
+      <ReviewAssignmentsPanel />
+
       {/* Info Section */}
       <Paper elevation={1} sx={{ p: 3 }}>
         <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
@@ -4,19 +4,36 @@
  * Displays side-by-side comparison of source and translated documents.
  * Implements requirements from GitHub Issue #27.
  *
- * Notes (post-OMC review):
- * - Source-pane retrieval requires a backend API that does not yet exist;
- *   this page is gated behind FEATURE_FLAGS.COMPARE_VIEW (default OFF in
- *   production). The route still exists so users with the flag enabled can
- *   exercise the viewer end-to-end against the translation blob.
+ * Notes:
+ * - The document is compared one part (chunk) at a time. Each part comes
+ *   from GET /jobs/{jobId}/chunks/{chunkIndex} with its source text,
+ *   translation and paragraph alignment, so even a 400K-word book never
+ *   puts more than one chunk into the viewer. `?part=N` (1-based, as in
+ *   the Retranslate a Part dialog) opens a given part.
  * - Job state is sourced from `useTranslationJob` (React Query) so we share
  *   the cache with TranslationDetail and avoid duplicate fetching code.
- * - Translated blob size is capped (50MB) to prevent multi-GB Blob.text()
- *   loads from blowing up the renderer.
+ *   Parts are cached the same way, so paging back is instant.
+ * - "Download Original" follows a presigned URL from GET /jobs/{jobId}/source;
+ *   the source document is never read into the page.
+ * - Translated paragraphs are edited in place. A save goes to
+ *   PUT /jobs/{jobId}/chunks/{chunkIndex}/translation as the part's next
+ *   version, based on the version shown, with the editor's optional note,
+ *   and the part is then reloaded.
+ * - While the translation is in review, its reviewer approves each part
+ *   here with PUT /jobs/{jobId}/chunks/{chunkIndex}/review, and the
+ *   translation as a whole in the review panel. The reviewer reads and
+ *   comments but does not edit; the owner's edit withdraws the part's
+ *   approval, so the job is reloaded after a save too. An approved
+ *   translation is read-only.
+ * - Paragraphs of both panes take comment threads, listed for the whole
+ *   job with GET /jobs/{jobId}/comments and handed to the viewer a part
+ *   at a time. Comments stay open on an approved translation. "Review PDF"
+ *   downloads the translation with the threads as margin notes.
  */
 
-import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate, Link as RouterLink } from 'react-router-dom';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link as RouterLink } from 'react-router-dom';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import {
   Container,
   Box,
@@ -26,30 +43,100 @@ import {
   Link,
   Alert,
   CircularProgress,
+  FormControlLabel,
+  Menu,
+  MenuItem,
+  Switch,
 } from '@mui/material';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import DownloadIcon from '@mui/icons-material/Download';
+import RateReviewIcon from '@mui/icons-material/RateReview';
 import { SideBySideViewer } from '../components/Translation/SideBySideViewer';
+import { ReviewPanel } from '../components/Translation/ReviewPanel';
 import { translationService, TranslationServiceError } from '../services/translationService';
 import { useTranslationJob } from '../hooks/useTranslationJob';
 import { getApiErrorMessage } from '../utils/translationErrorMessages';
+import { getTextDirection } from '../utils/translationLabels';
+import {
+  isTranslatedStatus,
+  type CommentAnchor,
+  type ParagraphAlignment,
+  type ReviewPdfComments,
+} from '@lfmt/shared-types';
+
+/** Zero-based chunk index from the 1-based `?part=` parameter; part 1 when absent or invalid. */
+function parsePart(value: string | null): number {
+  const part = Number(value);
+  return Number.isInteger(part) && part >= 1 ? part - 1 : 0;
+}
 
 /**
- * Maximum translated blob size we will load fully into memory via Blob.text().
- * Above this we show an error rather than freeze the renderer on a multi-GB
- * download. 50MB ≈ ~12M characters of UTF-8 text — well above any expected
- * translation output (400K words ≈ 2-4MB).
+ * Download a presigned URL straight from S3. An anchor click keeps the
+ * page; the URL's Content-Disposition names the file.
  */
-const MAX_BLOB_SIZE_BYTES = 50 * 1024 * 1024;
+function followDownloadUrl(downloadUrl: string): void {
+  const link = document.createElement('a');
+  link.href = downloadUrl;
+  link.rel = 'noopener noreferrer';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
 
 export const TranslationCompare: React.FC = () => {
   const { jobId } = useParams<{ jobId: string }>();
   const navigate = useNavigate();
-  const { job, isLoading: jobLoading, error: jobError } = useTranslationJob(jobId);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    job,
+    isLoading: jobLoading,
+    error: jobError,
+    refetch: refetchJob,
+  } = useTranslationJob(jobId);
+
+  const [sourceDownloading, setSourceDownloading] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [reviewSaving, setReviewSaving] = useState(false);
+  const [commentError, setCommentError] = useState<string | null>(null);
+  const [reviewPdfMenu, setReviewPdfMenu] = useState<HTMLElement | null>(null);
+  const [reviewPdfExporting, setReviewPdfExporting] = useState(false);
 
-  const [sourceText, setSourceText] = useState<string>('');
-  const [translatedText, setTranslatedText] = useState<string>('');
-  const [downloadLoading, setDownloadLoading] = useState(false);
-  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const totalChunks = job?.totalChunks ?? 0;
+  const chunkIndex = Math.min(parsePart(searchParams.get('part')), Math.max(totalChunks - 1, 0));
+  const isCompleted = job !== undefined && isTranslatedStatus(job.status);
+  const inReview = job?.status === 'IN_REVIEW';
+  // The assigned reviewer reaches this page from the dashboard; the
+  // owner's pages (details, history) and actions are not theirs.
+  const isReviewer = job?.reviewerAccess === true;
+  const partApproved = job?.review?.approvedChunks.includes(chunkIndex) ?? false;
+
+  const {
+    data: chunk,
+    isLoading: chunkLoading,
+    isFetching: chunkFetching,
+    error: chunkError,
+    refetch: refetchChunk,
+  } = useQuery({
+    queryKey: ['translationChunk', jobId, chunkIndex],
+    queryFn: () => translationService.getChunk(jobId as string, chunkIndex),
+    enabled: !!jobId && isCompleted,
+    staleTime: Infinity,
+    // Keep the current part on screen while the next one loads.
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: commentList, refetch: refetchComments } = useQuery({
+    queryKey: ['translationComments', jobId],
+    queryFn: () => translationService.listComments(jobId as string),
+    enabled: !!jobId && isCompleted,
+  });
+  const partComments = useMemo(
+    () => commentList?.threads.filter((thread) => thread.chunkIndex === chunk?.chunkIndex),
+    [commentList, chunk?.chunkIndex]
+  );
 
   // Derived error message (job fetch error → friendly message + optional redirect).
   // #271: page-specific 404 / 403 strings stay as hard-coded overrides (backend
@@ -68,6 +155,14 @@ export const TranslationCompare: React.FC = () => {
     return 'Failed to load translation data';
   })();
 
+  // A part that fails to load: same API-envelope precedence chain (#271).
+  const loadError = (() => {
+    if (!chunkError) return null;
+    return chunkError instanceof TranslationServiceError
+      ? getApiErrorMessage(chunkError)
+      : 'Failed to load translation data';
+  })();
+
   // Redirect on 403 after 3s, with proper cleanup so a fast-unmount doesn't
   // navigate from a stale timer.
   useEffect(() => {
@@ -77,63 +172,137 @@ export const TranslationCompare: React.FC = () => {
     }
   }, [jobError, navigate]);
 
-  // Once the job is COMPLETED, download and read the translated blob.
-  useEffect(() => {
-    let cancelled = false;
-
-    if (!jobId || !job || job.status !== 'COMPLETED') return;
-
-    const loadTranslation = async () => {
-      setDownloadLoading(true);
-      setDownloadError(null);
-      try {
-        const translatedBlob = await translationService.downloadTranslation(jobId);
-
-        // Guard against multi-GB blobs being read into memory.
-        if (translatedBlob.size > MAX_BLOB_SIZE_BYTES) {
-          if (!cancelled) {
-            setDownloadError(
-              `Translated document is too large to preview (${Math.round(
-                translatedBlob.size / 1024 / 1024
-              )}MB). Please download the file instead.`
-            );
-            setDownloadLoading(false);
-          }
-          return;
-        }
-
-        const translatedTextContent = await translatedBlob.text();
-        if (cancelled) return;
-        setTranslatedText(translatedTextContent);
-
-        // TODO: Implement source text retrieval from backend.
-        // The page is feature-flagged off by default (see FEATURE_FLAGS.COMPARE_VIEW)
-        // precisely because of this. When the source-fetch API ships, replace this
-        // placeholder with the real fetch call.
-        setSourceText(
-          'Note: Source text display requires backend implementation.\n\nThe original source document would appear here for comparison with the translation.'
-        );
-        setDownloadLoading(false);
-      } catch (err) {
-        if (cancelled) return;
-        if (err instanceof TranslationServiceError) {
-          // #271: route through API-envelope precedence (GENERIC_MESSAGES filter
-          // → response.data.message → COPY_BY_CODE → STATUS_MESSAGES → fallback)
-          // instead of surfacing raw `err.message`. Mirrors the #266 / #269 fixes
-          // on the sibling sites.
-          setDownloadError(getApiErrorMessage(err));
-        } else {
-          setDownloadError('Failed to load translation data');
-        }
-        setDownloadLoading(false);
-      }
-    };
-
-    loadTranslation();
-    return () => {
-      cancelled = true;
-    };
-  }, [jobId, job]);
+  const goToPart = (index: number) => {
+    setSaveError(null);
+    setSearchParams({ part: String(index + 1) });
+  };
+
+  /**
+   * Save an edit of the part on screen. Rethrows so the viewer keeps the
+   * editor open; the error is shown above the viewer.
+   */
+  const handleSaveTranslation = async (
+    translatedText: string,
+    paragraphAlignment?: ParagraphAlignment,
+    note?: string
+  ) => {
+    if (!jobId || !chunk) return;
+    setSaveError(null);
+    try {
+      await translationService.saveChunkTranslation(jobId, chunk.chunkIndex, {
+        translatedText,
+        paragraphAlignment,
+        baseVersion: chunk.translationVersion,
+        note,
+      });
+    } catch (err) {
+      setSaveError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to save the translation'
+      );
+      throw err;
+    }
+    await Promise.all([refetchChunk(), inReview ? refetchJob() : undefined]);
+  };
+
+  /** Approve the part on screen, or withdraw its approval. */
+  const handleReviewPart = async (approved: boolean) => {
+    if (!jobId) return;
+    setSaveError(null);
+    setReviewSaving(true);
+    try {
+      await translationService.setChunkReview(jobId, chunkIndex, approved);
+      await refetchJob();
+    } catch (err) {
+      setSaveError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to update the approval of this part'
+      );
+    } finally {
+      setReviewSaving(false);
+    }
+  };
+
+  /**
+   * Run a comment action on the part on screen, then reload the threads.
+   * Rethrows so the thread dialog keeps what was typed.
+   */
+  const runCommentAction = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setCommentError(null);
+    try {
+      await action();
+    } catch (err) {
+      setCommentError(
+        err instanceof TranslationServiceError ? getApiErrorMessage(err) : fallbackMessage
+      );
+      throw err;
+    }
+    await refetchComments();
+  };
+
+  const handleAddComment = (anchor: Pick<CommentAnchor, 'side' | 'paragraphIndex'>, body: string) =>
+    runCommentAction(
+      () =>
+        translationService.createComment(
+          jobId as string,
+          { ...anchor, chunkIndex: chunk?.chunkIndex ?? chunkIndex },
+          body
+        ),
+      'Failed to add the comment'
+    );
+
+  const handleReplyToComment = (threadId: string, body: string) =>
+    runCommentAction(
+      () => translationService.replyToComment(jobId as string, threadId, body),
+      'Failed to add the reply'
+    );
+
+  const handleResolveComment = (threadId: string, resolved: boolean) =>
+    runCommentAction(
+      () => translationService.setCommentResolved(jobId as string, threadId, resolved),
+      resolved ? 'Failed to resolve the comment' : 'Failed to reopen the comment'
+    );
+
+  /** Download the review PDF with all threads or only the unresolved ones. */
+  const handleExportReviewPdf = async (comments: ReviewPdfComments) => {
+    if (!jobId) return;
+    setReviewPdfMenu(null);
+    setCommentError(null);
+    setReviewPdfExporting(true);
+    try {
+      const { downloadUrl } = await translationService.getReviewPdfUrl(jobId, comments);
+      followDownloadUrl(downloadUrl);
+    } catch (err) {
+      setCommentError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to export the review PDF'
+      );
+    } finally {
+      setReviewPdfExporting(false);
+    }
+  };
+
+  /** Download the source document straight from S3. */
+  const handleDownloadSource = async () => {
+    if (!jobId) return;
+    setSourceError(null);
+    setSourceDownloading(true);
+    try {
+      const { downloadUrl } = await translationService.getSourceDocument(jobId);
+      followDownloadUrl(downloadUrl);
+    } catch (err) {
+      setSourceError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to download the original document'
+      );
+    } finally {
+      setSourceDownloading(false);
+    }
+  };
 
   // No jobId in URL → render error directly.
   if (!jobId) {
@@ -149,8 +318,8 @@ export const TranslationCompare: React.FC = () => {
     );
   }
 
-  // Loading job from React Query OR loading the translated blob.
-  if (jobLoading || (job?.status === 'COMPLETED' && downloadLoading)) {
+  // Loading job from React Query OR loading the first part.
+  if (jobLoading || (isCompleted && chunkLoading)) {
     return (
       <Container maxWidth="lg" sx={{ py: 4, textAlign: 'center' }}>
         <CircularProgress />
@@ -159,8 +328,8 @@ export const TranslationCompare: React.FC = () => {
     );
   }
 
-  // Error from job fetch or blob download.
-  const error = fetchError ?? downloadError;
+  // Error from job fetch or part fetch.
+  const error = fetchError ?? loadError;
   if (error) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -175,7 +344,7 @@ export const TranslationCompare: React.FC = () => {
   }
 
   // Job loaded but not yet COMPLETED.
-  if (job && job.status !== 'COMPLETED') {
+  if (job && !isCompleted) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
         <Alert severity="warning" sx={{ mb: 3 }}>
@@ -188,6 +357,8 @@ export const TranslationCompare: React.FC = () => {
     );
   }
 
+  const partCount = chunk?.totalChunks ?? totalChunks;
+
   return (
     <Container
       maxWidth="xl"
@@ -198,35 +369,156 @@ export const TranslationCompare: React.FC = () => {
         <Link component={RouterLink} to="/dashboard" underline="hover" color="inherit">
           Dashboard
         </Link>
-        <Link component={RouterLink} to="/translation/history" underline="hover" color="inherit">
-          Translation History
-        </Link>
-        <Link component={RouterLink} to={`/translation/${jobId}`} underline="hover" color="inherit">
-          {job?.fileName || 'Translation Details'}
-        </Link>
+        {!isReviewer && (
+          <Link component={RouterLink} to="/translation/history" underline="hover" color="inherit">
+            Translation History
+          </Link>
+        )}
+        {!isReviewer && (
+          <Link
+            component={RouterLink}
+            to={`/translation/${jobId}`}
+            underline="hover"
+            color="inherit"
+          >
+            {job?.fileName || 'Translation Details'}
+          </Link>
+        )}
+        {isReviewer && <Typography color="inherit">{job?.fileName}</Typography>}
         <Typography color="text.primary">Compare</Typography>
       </Breadcrumbs>
 
       {/* Page Header */}
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">Translation Comparison</Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            startIcon={<DownloadIcon />}
+            variant="outlined"
+            onClick={handleDownloadSource}
+            disabled={sourceDownloading}
+          >
+            Download Original
+          </Button>
+          {!isReviewer && (
+            <>
+              <Button
+                startIcon={<RateReviewIcon />}
+                variant="outlined"
+                onClick={(e) => setReviewPdfMenu(e.currentTarget)}
+                disabled={reviewPdfExporting}
+                aria-haspopup="menu"
+              >
+                Review PDF
+              </Button>
+              <Menu
+                anchorEl={reviewPdfMenu}
+                open={reviewPdfMenu !== null}
+                onClose={() => setReviewPdfMenu(null)}
+              >
+                <MenuItem onClick={() => void handleExportReviewPdf('all')}>All comments</MenuItem>
+                <MenuItem onClick={() => void handleExportReviewPdf('unresolved')}>
+                  Unresolved comments only
+                </MenuItem>
+              </Menu>
+            </>
+          )}
+          <Button
+            component={RouterLink}
+            to={isReviewer ? '/dashboard' : `/translation/${jobId}`}
+            startIcon={<ArrowBackIcon />}
+            variant="outlined"
+          >
+            {isReviewer ? 'Back to Dashboard' : 'Back to Details'}
+          </Button>
+        </Box>
+      </Box>
+
+      {sourceError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setSourceError(null)}>
+          {sourceError}
+        </Alert>
+      )}
+
+      {isReviewer && job && <ReviewPanel job={job} onChanged={() => void refetchJob()} />}
+
+      {/* Part navigation */}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 2, mb: 2 }}>
         <Button
-          component={RouterLink}
-          to={`/translation/${jobId}`}
-          startIcon={<ArrowBackIcon />}
-          variant="outlined"
+          startIcon={<ChevronLeftIcon />}
+          onClick={() => goToPart(chunkIndex - 1)}
+          disabled={chunkIndex === 0 || chunkFetching}
         >
-          Back to Details
+          Previous Part
         </Button>
+        <Typography aria-live="polite">
+          Part {chunkIndex + 1} of {partCount}
+        </Typography>
+        <Button
+          endIcon={<ChevronRightIcon />}
+          onClick={() => goToPart(chunkIndex + 1)}
+          disabled={chunkIndex >= partCount - 1 || chunkFetching}
+        >
+          Next Part
+        </Button>
+        {inReview && isReviewer && (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={partApproved}
+                onChange={(e) => void handleReviewPart(e.target.checked)}
+                disabled={reviewSaving || chunkFetching}
+              />
+            }
+            label="Approved"
+          />
+        )}
       </Box>
 
+      {commentError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setCommentError(null)}>
+          {commentError}
+        </Alert>
+      )}
+
+      {saveError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setSaveError(null)}>
+          {saveError}
+        </Alert>
+      )}
+
+      {chunk && chunk.translationVersion !== undefined && chunk.translationVersion > 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Edited translation (version {chunk.translationVersion})
+        </Typography>
+      )}
+
+      {chunk && chunk.translatedText === null && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This part has no translation yet.
+        </Alert>
+      )}
+
       {/* Side-by-Side Viewer */}
       <Box sx={{ flex: 1, minHeight: 0 }}>
         <SideBySideViewer
-          sourceText={sourceText}
-          translatedText={translatedText}
+          key={chunk?.chunkIndex}
+          sourceText={chunk?.sourceText ?? ''}
+          translatedText={chunk?.translatedText ?? ''}
+          alignment={chunk?.paragraphAlignment}
+          onSaveTranslation={
+            chunk && chunk.translatedText !== null && !isReviewer && job?.status !== 'APPROVED'
+              ? handleSaveTranslation
+              : undefined
+          }
+          comments={partComments}
+          onAddComment={chunk ? handleAddComment : undefined}
+          onReplyToComment={handleReplyToComment}
+          onResolveComment={handleResolveComment}
           sourceLanguage="Source"
           targetLanguage={job?.targetLanguage}
+          sourceDirection={getTextDirection(job?.sourceLanguage)}
+          translatedDirection={getTextDirection(job?.targetLanguage)}
         />
       </Box>
     </Container>
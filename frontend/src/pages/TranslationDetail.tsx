@@ -14,10 +14,19 @@
  *   background and the component shows its own skeleton until data lands), and
  *   the local "Refresh Status" button calls query.refetch() instead of a
  *   duplicated fetch path.
+ *
+ * Completed book translations also load their chapter list so editors can
+ * download a single chapter instead of the whole book.
+ *
+ * Completed jobs open the per-part edit history (versions and word diffs)
+ * and export the saved edits as CSV for translator-payment accounting, and
+ * are checked against a glossary part by part. The assigned reviewer of a
+ * translation is sent on to the compare view, where the review is done.
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
 import { useParams, useNavigate, Link as RouterLink } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import {
   Box,
   Container,
@@ -30,11 +39,24 @@ import {
   CircularProgress,
   Skeleton,
   Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
 } from '@mui/material';
 import DownloadIcon from '@mui/icons-material/Download';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import HistoryIcon from '@mui/icons-material/History';
 import {
   translationService,
   TranslationServiceError,
@@ -43,10 +65,22 @@ import {
   type TranslationJobStatus,
 } from '../services/translationService';
 import { TranslationProgress } from '../components/Translation/TranslationProgress';
+import { RevisionUploadDialog } from '../components/Translation/RevisionUploadDialog';
+import { RetranslateChunkDialog } from '../components/Translation/RetranslateChunkDialog';
+import { FlaggedChunksList } from '../components/Translation/FlaggedChunksList';
+import { ChunkHistoryDialog } from '../components/Translation/ChunkHistoryDialog';
+import { ReviewPanel } from '../components/Translation/ReviewPanel';
+import { GlossaryReportPanel } from '../components/Translation/GlossaryReportPanel';
 import { useTranslationJob } from '../hooks/useTranslationJob';
 import { getLanguageLabel, getToneLabel } from '../utils/translationLabels';
 import { getApiErrorMessage } from '../utils/translationErrorMessages';
-import { FEATURE_FLAGS } from '../config/constants';
+import { editsToCsv } from '../utils/editExport';
+import {
+  isLanguageCode,
+  isTranslatedStatus,
+  SRT_CONTENT_TYPE,
+  VTT_CONTENT_TYPE,
+} from '@lfmt/shared-types';
 
 // ---------------------------------------------------------------------------
 // Pure helpers — module-level so they are not recreated on every render.
@@ -67,19 +101,9 @@ function formatFileSize(bytes: number): string {
 // Type predicates that narrow the wire's `string` shape into the strict
 // `TranslationConfig` union before we hand the value to startTranslation.
 // Keeps the `any`-cast pattern out of this file (#225 / #228 OMC R1 C2).
-const SUPPORTED_LANGUAGES: ReadonlyArray<TranslationConfig['targetLanguage']> = [
-  'es',
-  'fr',
-  'de',
-  'it',
-  'zh',
-];
+// Languages are narrowed with shared-types' `isLanguageCode`.
 const SUPPORTED_TONES: ReadonlyArray<TranslationConfig['tone']> = ['formal', 'informal', 'neutral'];
 
-function isSupportedLanguage(value: string): value is TranslationConfig['targetLanguage'] {
-  return (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
-}
-
 function isSupportedTone(value: string): value is TranslationConfig['tone'] {
   return (SUPPORTED_TONES as readonly string[]).includes(value);
 }
@@ -109,10 +133,20 @@ function describeStatusChip(status: TranslationJobStatus | undefined): StatusChi
       return { label: 'Translating…', color: 'info' };
     case 'COMPLETED':
       return { label: 'Completed', color: 'success' };
+    case 'IN_REVIEW':
+      return { label: 'In review', color: 'info' };
+    case 'CHANGES_REQUESTED':
+      return { label: 'Changes requested', color: 'warning' };
+    case 'APPROVED':
+      return { label: 'Approved', color: 'success' };
     case 'FAILED':
     case 'CHUNKING_FAILED':
     case 'TRANSLATION_FAILED':
       return { label: 'Failed', color: 'error' };
+    case 'PAUSED':
+      return { label: 'Paused', color: 'warning' };
+    case 'CANCELLED':
+      return { label: 'Cancelled', color: 'default' };
     default:
       // Unknown / future status — render the raw value so the user has
       // SOMETHING to see, and our backend log will surface the mismatch.
@@ -128,6 +162,13 @@ export const TranslationDetail: React.FC = () => {
   // three download buttons can each show their own loading state without
   // disabling the others. `null` means no download is running.
   const [downloadingFormat, setDownloadingFormat] = useState<OutputFormat | null>(null);
+  // Chapter the downloads are narrowed to; '' downloads the whole book.
+  const [selectedChapter, setSelectedChapter] = useState<number | ''>('');
+  const [revisionDialogOpen, setRevisionDialogOpen] = useState(false);
+  const [retranslateDialogOpen, setRetranslateDialogOpen] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [exportingEdits, setExportingEdits] = useState(false);
 
   // Primary data source: React Query adaptive-polling hook (PR #125).
   // Starts fetching immediately on mount — no need for a separate
@@ -168,22 +209,27 @@ export const TranslationDetail: React.FC = () => {
     async (format: OutputFormat) => {
       if (!jobId || !job) return;
 
+      // No chapter argument at all for whole-book downloads.
+      const chapterArgs: [] | [number] = selectedChapter === '' ? [] : [selectedChapter];
       setActionError(null);
       setDownloadingFormat(format);
       try {
         if (format === 'markdown') {
-          const blob = await translationService.downloadTranslation(jobId);
+          const blob = await translationService.downloadTranslation(jobId, ...chapterArgs);
           const url = window.URL.createObjectURL(blob);
           const link = document.createElement('a');
           link.href = url;
-          link.download = `translated_${job.fileName}`;
+          link.download =
+            selectedChapter === ''
+              ? `translated_${job.fileName}`
+              : `translated_${job.fileName.replace(/\.[^.]+$/, '')}_chapter-${selectedChapter}.txt`;
           document.body.appendChild(link);
           link.click();
           document.body.removeChild(link);
           window.URL.revokeObjectURL(url);
         } else {
-          // ePub / PDF — presigned-URL envelope.
-          const envelope = await translationService.getDownloadUrl(jobId, format);
+          // ePub / PDF / Word / subtitles — presigned-URL envelope.
+          const envelope = await translationService.getDownloadUrl(jobId, format, ...chapterArgs);
           // Use an anchor click rather than `window.location =` so the
           // current SPA page is not navigated away from. The browser
           // honours the presigned URL's Content-Disposition and saves
@@ -211,9 +257,38 @@ export const TranslationDetail: React.FC = () => {
         setDownloadingFormat(null);
       }
     },
-    [jobId, job]
+    [jobId, job, selectedChapter]
   );
 
+  /** Download every saved edit of the job as CSV. */
+  const handleExportEdits = useCallback(async () => {
+    if (!jobId || !job) return;
+
+    setActionError(null);
+    setExportingEdits(true);
+    try {
+      const { edits } = await translationService.getJobEdits(jobId);
+      const url = window.URL.createObjectURL(
+        new Blob([editsToCsv(edits)], { type: 'text/csv;charset=utf-8' })
+      );
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `edits_${job.fileName.replace(/\.[^.]+$/, '')}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setActionError(
+        err instanceof TranslationServiceError
+          ? getApiErrorMessage(err)
+          : 'Failed to export the edit history'
+      );
+    } finally {
+      setExportingEdits(false);
+    }
+  }, [jobId, job]);
+
   const handleStartTranslation = useCallback(async () => {
     if (!jobId || !job) return;
 
@@ -223,7 +298,7 @@ export const TranslationDetail: React.FC = () => {
     // out-of-vocab value would send a malformed request to the API.
     if (
       !job.targetLanguage ||
-      !isSupportedLanguage(job.targetLanguage) ||
+      !isLanguageCode(job.targetLanguage) ||
       !job.tone ||
       !isSupportedTone(job.tone)
     ) {
@@ -257,6 +332,26 @@ export const TranslationDetail: React.FC = () => {
     }
   }, [jobId, job, refetch]);
 
+  // Retry, pause, resume and cancel act on the translation workflow and
+  // then refresh the job. A failed translation and a paused one both keep
+  // the chunks they finished; only the rest are translated again.
+  const runWorkflowAction = useCallback(
+    async (action: (jobId: string) => Promise<unknown>, fallbackMessage: string) => {
+      if (!jobId) return;
+
+      setActionError(null);
+      try {
+        await action(jobId);
+        await refetch();
+      } catch (err) {
+        setActionError(
+          err instanceof TranslationServiceError ? getApiErrorMessage(err) : fallbackMessage
+        );
+      }
+    },
+    [jobId, refetch]
+  );
+
   // ------------------------------------------------------------------
   // Derived status booleans — computed from the React Query job, not
   // from a separate local-state copy. Defaults to false when job is
@@ -264,9 +359,21 @@ export const TranslationDetail: React.FC = () => {
   // ------------------------------------------------------------------
 
   const status = job?.status;
+  // The outer status stays CHUNKED while the translation runs; the
+  // workflow status tells the two apart.
+  const isTranslating = status === 'CHUNKED' && job?.translationStatus === 'IN_PROGRESS';
+  const isPaused = status === 'PAUSED';
+
+  // A translation under review (or approved) has completed too: it is
+  // downloaded, compared and edited the same way.
+  const isTranslated = status !== undefined && isTranslatedStatus(status);
+  // Revisions and retranslations wait while a review is under way; on an
+  // approved translation (or one sent back) they remove the review, and it
+  // is submitted again afterwards.
+  const canRevise = isTranslated && status !== 'IN_REVIEW';
 
   // Show TranslationProgress for any non-terminal, non-CHUNKED status plus
-  // COMPLETED. CHUNKED means the job is ready to start (user action needed)
+  // the translated ones. CHUNKED means the job is ready to start (user action needed)
   // and has its own action button.
   const showProgress =
     jobId !== undefined &&
@@ -274,15 +381,29 @@ export const TranslationDetail: React.FC = () => {
       status === 'PENDING' ||
       status === 'CHUNKING' ||
       status === 'IN_PROGRESS' ||
-      status === 'COMPLETED');
+      isTranslating ||
+      isPaused ||
+      isTranslated);
 
-  const isCompleted = status === 'COMPLETED';
-  const isChunked = status === 'CHUNKED';
   // Show Start Translation button ONLY when in CHUNKED state (i.e.,
   // translationStatus effectively 'NOT_STARTED' — chunking done, translate
   // not yet kicked off). Hide it for IN_PROGRESS / COMPLETED / FAILED.
+  const isChunked = status === 'CHUNKED' && !isTranslating;
   const isFailed =
     status === 'FAILED' || status === 'CHUNKING_FAILED' || status === 'TRANSLATION_FAILED';
+  // Subtitle uploads additionally offer SRT / VTT downloads.
+  const isSubtitleJob =
+    job?.contentType === SRT_CONTENT_TYPE || job?.contentType === VTT_CONTENT_TYPE;
+
+  // Chapter list for the picker. Subtitle translations have no chapters,
+  // and the endpoint answers 409 until the job completes.
+  const { data: chapterList } = useQuery({
+    queryKey: ['translationChapters', jobId],
+    queryFn: () => translationService.listChapters(jobId as string),
+    enabled: !!jobId && isTranslated && job !== undefined && !isSubtitleJob,
+    staleTime: Infinity,
+  });
+  const chapters = chapterList?.chapters ?? [];
 
   // ------------------------------------------------------------------
   // Fatal error state: query errored AND we have no job data at all.
@@ -300,6 +421,13 @@ export const TranslationDetail: React.FC = () => {
     return () => clearTimeout(timer);
   }, [is403, navigate]);
 
+  // The assigned reviewer has no use for the owner's actions: they review
+  // in the compare view.
+  const isReviewer = job?.reviewerAccess === true;
+  useEffect(() => {
+    if (isReviewer) navigate(`/translation/${jobId}/compare`, { replace: true });
+  }, [isReviewer, jobId, navigate]);
+
   if (queryError && !job && !isLoading) {
     // #269: route through the API-precedence extractor (same helper used for
     // action errors above at lines 205 / 252) so the user sees the Lambda's
@@ -401,6 +529,19 @@ export const TranslationDetail: React.FC = () => {
         </Alert>
       )}
 
+      {/* Revision summary — a revised upload has been chunked; only the
+          changed chunks are translated (and billed) when it is started. */}
+      {isChunked && job?.revision && (
+        <Alert severity="info" sx={{ mb: 3 }} data-testid="revision-summary">
+          Revision {job.revision.revision}: {job.revision.changedChunks} of{' '}
+          {job.revision.changedChunks + job.revision.unchangedChunks} chunks changed since revision{' '}
+          {job.revision.previousRevision}.
+          {job.revision.targetLanguage === job.targetLanguage
+            ? ' Only the changed chunks will be translated.'
+            : ' The target language changed, so every chunk will be translated.'}
+        </Alert>
+      )}
+
       {/* Progress Component — rendered on mount for any in-flight or completed
           job. TranslationProgress owns its own React Query subscription via
           useTranslationJob, so it will start polling immediately regardless of
@@ -513,14 +654,52 @@ export const TranslationDetail: React.FC = () => {
         ) : null}
       </Paper>
 
+      {/* Parts the automatic quality check flagged, filled in chunk by chunk
+          while the translation runs. */}
+      {job?.flaggedChunks && job.flaggedChunks.length > 0 && (
+        <FlaggedChunksList flaggedChunks={job.flaggedChunks} />
+      )}
+
+      {/* Review — submitting the finished translation to a reviewer. */}
+      {isTranslated && job && <ReviewPanel job={job} onChanged={() => void refetch()} />}
+
+      {/* Glossary check — required term renderings, part by part. */}
+      {isTranslated && jobId && <GlossaryReportPanel jobId={jobId} />}
+
+      {/* Chapter picker — narrows every download button below to one
+          chapter. Hidden for single-chapter translations, where the
+          chapter is the whole book. */}
+      {isTranslated && chapters.length > 1 && (
+        <FormControl size="small" sx={{ mb: 2, minWidth: 280 }}>
+          <InputLabel id="download-chapter-label">Chapter</InputLabel>
+          <Select
+            labelId="download-chapter-label"
+            id="download-chapter"
+            value={selectedChapter}
+            label="Chapter"
+            onChange={(e) =>
+              setSelectedChapter(e.target.value === '' ? '' : Number(e.target.value))
+            }
+          >
+            <MenuItem value="">Whole book</MenuItem>
+            {chapters.map((chapter) => (
+              <MenuItem key={chapter.number} value={chapter.number}>
+                {chapter.number}. {chapter.title}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
       {/* Action Buttons */}
       <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-        {isCompleted && (
+        {isTranslated && (
           <>
             {/*
-              Issue #28: three independent download buttons — Markdown
+              Issue #28: independent download buttons — Markdown
               (primary, original behaviour), ePub (e-reader friendly,
-              primary use case for casual readers), PDF (universal).
+              primary use case for casual readers), PDF (universal),
+              Word (for authors and editors revising the translation).
               Each button shows its own spinner when in-flight; the
               others remain enabled so the user can re-trigger another
               format if e.g. the ePub takes longer than expected.
@@ -559,20 +738,81 @@ export const TranslationDetail: React.FC = () => {
             >
               {downloadingFormat === 'pdf' ? 'Preparing PDF...' : 'Download PDF'}
             </Button>
+            <Button
+              variant="outlined"
+              startIcon={
+                downloadingFormat === 'docx' ? <CircularProgress size={20} /> : <DownloadIcon />
+              }
+              onClick={() => void handleDownload('docx')}
+              disabled={downloadingFormat !== null}
+              aria-label="Download Word"
+            >
+              {downloadingFormat === 'docx' ? 'Preparing Word...' : 'Download Word'}
+            </Button>
             {/*
-              Compare button gated behind feature flag — the source-pane backend
-              API is not yet implemented. See FEATURE_FLAGS.COMPARE_VIEW.
+              Subtitle uploads (.srt / .vtt) can be downloaded in either
+              subtitle format; the backend rejects both for other jobs.
             */}
-            {FEATURE_FLAGS.COMPARE_VIEW && (
+            {isSubtitleJob &&
+              (['srt', 'vtt'] as const).map((format) => (
+                <Button
+                  key={format}
+                  variant="outlined"
+                  startIcon={
+                    downloadingFormat === format ? <CircularProgress size={20} /> : <DownloadIcon />
+                  }
+                  onClick={() => void handleDownload(format)}
+                  disabled={downloadingFormat !== null}
+                  aria-label={`Download ${format.toUpperCase()}`}
+                >
+                  {downloadingFormat === format
+                    ? `Preparing ${format.toUpperCase()}...`
+                    : `Download ${format.toUpperCase()}`}
+                </Button>
+              ))}
+            {canRevise && (
+              <Button
+                variant="outlined"
+                startIcon={<UploadFileIcon />}
+                onClick={() => setRevisionDialogOpen(true)}
+              >
+                Upload Revised Version
+              </Button>
+            )}
+            {canRevise && job?.totalChunks !== undefined && job.totalChunks > 0 && (
               <Button
                 variant="outlined"
-                startIcon={<CompareArrowsIcon />}
-                component={RouterLink}
-                to={`/translation/${jobId}/compare`}
+                startIcon={<RefreshIcon />}
+                onClick={() => setRetranslateDialogOpen(true)}
               >
-                Compare Side-by-Side
+                Retranslate a Part
               </Button>
             )}
+            <Button
+              variant="outlined"
+              startIcon={<CompareArrowsIcon />}
+              component={RouterLink}
+              to={`/translation/${jobId}/compare`}
+            >
+              Compare Side-by-Side
+            </Button>
+            {job?.totalChunks !== undefined && job.totalChunks > 0 && (
+              <Button
+                variant="outlined"
+                startIcon={<HistoryIcon />}
+                onClick={() => setHistoryDialogOpen(true)}
+              >
+                Edit History
+              </Button>
+            )}
+            <Button
+              variant="outlined"
+              startIcon={exportingEdits ? <CircularProgress size={20} /> : <DownloadIcon />}
+              onClick={() => void handleExportEdits()}
+              disabled={exportingEdits}
+            >
+              {exportingEdits ? 'Exporting...' : 'Export Edits (CSV)'}
+            </Button>
           </>
         )}
 
@@ -585,7 +825,25 @@ export const TranslationDetail: React.FC = () => {
           </Button>
         )}
 
-        {isFailed && (
+        {/* A failed translation run retries only its missing chunks; the
+            other failures (upload, chunking) start the translation over. */}
+        {isFailed && status === 'TRANSLATION_FAILED' && (
+          <Button
+            variant="contained"
+            color="warning"
+            startIcon={<RefreshIcon />}
+            onClick={() =>
+              void runWorkflowAction(
+                translationService.retryFailedChunks,
+                'Failed to retry the failed parts'
+              )
+            }
+          >
+            Retry Failed Parts
+          </Button>
+        )}
+
+        {isFailed && status !== 'TRANSLATION_FAILED' && (
           <Button
             variant="contained"
             color="warning"
@@ -596,10 +854,100 @@ export const TranslationDetail: React.FC = () => {
           </Button>
         )}
 
+        {isTranslating && (
+          <Button
+            variant="outlined"
+            startIcon={<PauseIcon />}
+            onClick={() =>
+              void runWorkflowAction(
+                translationService.pauseTranslation,
+                'Failed to pause the translation'
+              )
+            }
+          >
+            Pause Translation
+          </Button>
+        )}
+
+        {isPaused && (
+          <Button
+            variant="contained"
+            startIcon={<PlayArrowIcon />}
+            onClick={() =>
+              void runWorkflowAction(
+                translationService.resumeTranslation,
+                'Failed to resume the translation'
+              )
+            }
+          >
+            Resume Translation
+          </Button>
+        )}
+
+        {(isTranslating || isPaused) && (
+          <Button variant="outlined" color="error" onClick={() => setCancelDialogOpen(true)}>
+            Cancel Translation
+          </Button>
+        )}
+
         <Button variant="outlined" onClick={() => void refetch()} startIcon={<RefreshIcon />}>
           Refresh Status
         </Button>
       </Box>
+
+      <RevisionUploadDialog
+        jobId={jobId}
+        open={revisionDialogOpen}
+        onClose={() => setRevisionDialogOpen(false)}
+        onUploaded={() => {
+          setRevisionDialogOpen(false);
+          void refetch();
+        }}
+      />
+      {job?.totalChunks !== undefined && (
+        <RetranslateChunkDialog
+          jobId={jobId}
+          totalChunks={job.totalChunks}
+          open={retranslateDialogOpen}
+          onClose={() => setRetranslateDialogOpen(false)}
+          onStarted={() => {
+            setRetranslateDialogOpen(false);
+            void refetch();
+          }}
+        />
+      )}
+      {job?.totalChunks !== undefined && (
+        <ChunkHistoryDialog
+          jobId={jobId}
+          totalChunks={job.totalChunks}
+          open={historyDialogOpen}
+          onClose={() => setHistoryDialogOpen(false)}
+        />
+      )}
+      <Dialog open={cancelDialogOpen} onClose={() => setCancelDialogOpen(false)}>
+        <DialogTitle>Cancel this translation?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The parts translated so far are kept with the job, but a cancelled translation cannot be
+            resumed.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCancelDialogOpen(false)}>Keep Translating</Button>
+          <Button
+            color="error"
+            onClick={() => {
+              setCancelDialogOpen(false);
+              void runWorkflowAction(
+                translationService.cancelTranslation,
+                'Failed to cancel the translation'
+              );
+            }}
+          >
+            Cancel Translation
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 };
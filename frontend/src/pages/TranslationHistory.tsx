@@ -38,6 +38,7 @@ import {
 } from '../services/translationService';
 import { getLanguageLabel, getToneLabel } from '../utils/translationLabels';
 import { getApiErrorMessage } from '../utils/translationErrorMessages';
+import { isTranslatedStatus } from '@lfmt/shared-types';
 
 const STATUS_COLORS: Record<string, 'default' | 'primary' | 'success' | 'error' | 'warning'> = {
   PENDING: 'default',
@@ -48,6 +49,9 @@ const STATUS_COLORS: Record<string, 'default' | 'primary' | 'success' | 'error'
   FAILED: 'error',
   CHUNKING_FAILED: 'error',
   TRANSLATION_FAILED: 'error',
+  IN_REVIEW: 'primary',
+  CHANGES_REQUESTED: 'warning',
+  APPROVED: 'success',
 };
 
 export const TranslationHistory: React.FC = () => {
@@ -195,6 +199,9 @@ export const TranslationHistory: React.FC = () => {
           <MenuItem value="CHUNKED">Chunked</MenuItem>
           <MenuItem value="IN_PROGRESS">In Progress</MenuItem>
           <MenuItem value="COMPLETED">Completed</MenuItem>
+          <MenuItem value="IN_REVIEW">In Review</MenuItem>
+          <MenuItem value="CHANGES_REQUESTED">Changes Requested</MenuItem>
+          <MenuItem value="APPROVED">Approved</MenuItem>
           <MenuItem value="FAILED">Failed</MenuItem>
         </TextField>
 
@@ -282,7 +289,7 @@ export const TranslationHistory: React.FC = () => {
                         <VisibilityIcon />
                       </IconButton>
                     </Tooltip>
-                    {job.status === 'COMPLETED' && (
+                    {isTranslatedStatus(job.status) && (
                       <Tooltip title="Download">
                         <IconButton
                           size="small"
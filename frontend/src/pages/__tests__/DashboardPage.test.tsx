@@ -8,6 +8,7 @@
  * - Navigation after logout
  * - User information display
  * - Edge cases (missing user fields)
+ * - Reviews assigned to the user
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -17,6 +18,19 @@ import { MemoryRouter, Routes, Route } from 'react-router-dom';
 import DashboardPage from '../DashboardPage';
 import { AuthContext, type AuthContextType } from '../../contexts/AuthContext';
 import type { User } from '../../services/authService';
+import { translationService } from '../../services/translationService';
+
+vi.mock('../../services/translationService', async () => {
+  const actual = await vi.importActual<typeof import('../../services/translationService')>(
+    '../../services/translationService'
+  );
+  return {
+    ...actual,
+    translationService: {
+      listReviewAssignments: vi.fn(),
+    },
+  };
+});
 
 // Mock login page component
 function MockLoginPage() {
@@ -58,6 +72,7 @@ describe('DashboardPage', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(translationService.listReviewAssignments).mockResolvedValue({ assignments: [] });
   });
 
   describe('Page Rendering', () => {
@@ -97,6 +112,45 @@ describe('DashboardPage', () => {
     });
   });
 
+  describe('Review Assignments', () => {
+    it('lists the translations assigned to the user for review', async () => {
+      vi.mocked(translationService.listReviewAssignments).mockResolvedValue({
+        assignments: [
+          {
+            jobId: 'job-7',
+            fileName: 'novel.docx',
+            targetLanguage: 'es',
+            status: 'IN_REVIEW',
+            review: {
+              reviewerEmail: 'john.doe@example.com',
+              submittedAt: '2026-03-02T08:00:00.000Z',
+              approvedChunks: [0],
+              totalChunks: 4,
+            },
+          },
+        ],
+      });
+
+      renderDashboard({ user: mockUser });
+
+      expect(await screen.findByRole('link', { name: 'novel.docx' })).toHaveAttribute(
+        'href',
+        '/translation/job-7/compare'
+      );
+      expect(screen.getByText(/1 of 4 parts approved/)).toBeInTheDocument();
+      expect(screen.getByText('Awaiting your review')).toBeInTheDocument();
+    });
+
+    it('shows nothing when no review is assigned', async () => {
+      renderDashboard({ user: mockUser });
+
+      await waitFor(() => {
+        expect(translationService.listReviewAssignments).toHaveBeenCalled();
+      });
+      expect(screen.queryByTestId('review-assignments')).not.toBeInTheDocument();
+    });
+  });
+
   describe('User Data Display', () => {
     it('should display full name correctly', () => {
       const user: User = {
@@ -5,12 +5,16 @@
  * - 404 / 403 / generic error branches
  * - 403 setTimeout navigation cleanup
  * - Integration with useTranslationJob (job-fetch path)
- * - Blob size cap enforcement
+ * - Paging through parts and downloading the original
+ * - Saving an edited part
+ * - Approving parts and the translation as its reviewer
+ * - Commenting on a part and exporting the review PDF
  */
 
 import React from 'react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '../../test-utils';
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor, within } from '../../test-utils';
 import { MemoryRouter, Route, Routes } from 'react-router-dom';
 import { TranslationCompare } from '../TranslationCompare';
 import {
@@ -18,6 +22,7 @@ import {
   TranslationServiceError,
   type TranslationJob,
 } from '../../services/translationService';
+import type { CommentThread, JobChunkApiResponse } from '@lfmt/shared-types';
 
 vi.mock('../../services/translationService', async () => {
   const actual = await vi.importActual<typeof import('../../services/translationService')>(
@@ -27,7 +32,17 @@ vi.mock('../../services/translationService', async () => {
     ...actual,
     translationService: {
       getJobStatus: vi.fn(),
-      downloadTranslation: vi.fn(),
+      getChunk: vi.fn(),
+      getSourceDocument: vi.fn(),
+      saveChunkTranslation: vi.fn(),
+      setChunkReview: vi.fn(),
+      approveReview: vi.fn(),
+      requestReviewChanges: vi.fn(),
+      listComments: vi.fn(),
+      createComment: vi.fn(),
+      replyToComment: vi.fn(),
+      setCommentResolved: vi.fn(),
+      getReviewPdfUrl: vi.fn(),
     },
   };
 });
@@ -78,9 +93,20 @@ const completedJob: TranslationJob = {
   updatedAt: '2024-01-01T00:00:00Z',
 };
 
-function renderAt(jobId = 'job-1') {
+function chunk(chunkIndex: number, overrides: Partial<JobChunkApiResponse> = {}) {
+  return {
+    jobId: 'job-1',
+    chunkIndex,
+    totalChunks: 5,
+    sourceText: `Source of part ${chunkIndex + 1}.`,
+    translatedText: `Traducción de la parte ${chunkIndex + 1}.`,
+    ...overrides,
+  };
+}
+
+function renderAt(jobId = 'job-1', search = '') {
   return render(
-    <MemoryRouter initialEntries={[`/translation/${jobId}/compare`]}>
+    <MemoryRouter initialEntries={[`/translation/${jobId}/compare${search}`]}>
       <Routes>
         <Route path="/translation/:jobId/compare" element={<TranslationCompare />} />
         <Route path="/dashboard" element={<div>Dashboard</div>} />
@@ -94,6 +120,7 @@ describe('TranslationCompare page', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockNavigate.mockClear();
+    vi.mocked(translationService.listComments).mockResolvedValue({ jobId: 'job-1', threads: [] });
   });
 
   afterEach(() => {
@@ -169,16 +196,9 @@ describe('TranslationCompare page', () => {
     });
   });
 
-  it('integrates with useTranslationJob and renders comparison after blob loads', async () => {
+  it('integrates with useTranslationJob and renders the first part', async () => {
     vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
-    // jsdom's Blob does not implement .text(); provide a polyfilled mock.
-    const blob = new Blob(['Translated content here.\n\nSecond paragraph.'], {
-      type: 'text/plain',
-    });
-    Object.defineProperty(blob, 'text', {
-      value: () => Promise.resolve('Translated content here.\n\nSecond paragraph.'),
-    });
-    vi.mocked(translationService.downloadTranslation).mockResolvedValue(blob);
+    vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
 
     renderAt();
 
@@ -191,29 +211,448 @@ describe('TranslationCompare page', () => {
       expect(screen.getAllByTestId('virtuoso-scroller')).toHaveLength(2);
     });
 
+    expect(screen.getByText('Part 1 of 5')).toBeInTheDocument();
+    expect(screen.getByText('Traducción de la parte 1.')).toBeInTheDocument();
     expect(translationService.getJobStatus).toHaveBeenCalledWith('job-1');
-    expect(translationService.downloadTranslation).toHaveBeenCalledWith('job-1');
+    expect(translationService.getChunk).toHaveBeenCalledWith('job-1', 0);
+  });
+
+  it('renders an Arabic translation right-to-left beside a left-to-right source', async () => {
+    vi.mocked(translationService.getJobStatus).mockResolvedValue({
+      ...completedJob,
+      sourceLanguage: 'en',
+      targetLanguage: 'ar',
+    });
+    vi.mocked(translationService.getChunk).mockResolvedValue(
+      chunk(0, { sourceText: 'Hello, world.', translatedText: 'مرحبا بالعالم.' })
+    );
+
+    renderAt();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('translated-pane')).toHaveAttribute('dir', 'rtl');
+    });
+    expect(screen.getByTestId('source-pane')).toHaveAttribute('dir', 'ltr');
+  });
+
+  it('opens the part named in the URL and pages to the next one', async () => {
+    vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+    vi.mocked(translationService.getChunk).mockImplementation(async (_jobId, index) =>
+      chunk(index)
+    );
+
+    const user = userEvent.setup();
+    renderAt('job-1', '?part=2');
+
+    await waitFor(() => {
+      expect(screen.getByText('Part 2 of 5')).toBeInTheDocument();
+    });
+    expect(translationService.getChunk).toHaveBeenCalledWith('job-1', 1);
+
+    await user.click(screen.getByRole('button', { name: /next part/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Traducción de la parte 3.')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Part 3 of 5')).toBeInTheDocument();
+  });
+
+  it('says so when a part has no translation yet', async () => {
+    vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+    vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0, { translatedText: null }));
+
+    renderAt();
+
+    await waitFor(() => {
+      expect(screen.getByText('This part has no translation yet.')).toBeInTheDocument();
+    });
+  });
+
+  it('saves an edited paragraph as the next version and reloads the part', async () => {
+    vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+    vi.mocked(translationService.getChunk)
+      .mockResolvedValueOnce(chunk(0, { translationVersion: 0 }))
+      .mockResolvedValueOnce(
+        chunk(0, { translatedText: 'Traducción corregida.', translationVersion: 1 })
+      );
+    vi.mocked(translationService.saveChunkTranslation).mockResolvedValue({
+      jobId: 'job-1',
+      chunkIndex: 0,
+      version: 1,
+      savedAt: '2026-03-02T09:00:00.000Z',
+    });
+
+    const user = userEvent.setup();
+    renderAt();
+
+    await user.click(await screen.findByRole('button', { name: 'Edit paragraph 1' }));
+    const editor = screen.getByLabelText('Translation of paragraph 1');
+    await user.clear(editor);
+    await user.type(editor, 'Traducción corregida.');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Edited translation (version 1)')).toBeInTheDocument();
+    });
+    expect(translationService.saveChunkTranslation).toHaveBeenCalledWith('job-1', 0, {
+      translatedText: 'Traducción corregida.',
+      paragraphAlignment: [1],
+      baseVersion: 0,
+    });
   });
 
-  it('refuses to load translated blob if it exceeds the size cap', async () => {
+  it('shows why an edit could not be saved', async () => {
     vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+    vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0, { translationVersion: 0 }));
+    vi.mocked(translationService.saveChunkTranslation).mockRejectedValue(
+      new TranslationServiceError(
+        'This part was saved again while you were editing; reload it before editing',
+        'API_GENERIC',
+        409
+      )
+    );
+
+    const user = userEvent.setup();
+    renderAt();
+
+    await user.click(await screen.findByRole('button', { name: 'Edit paragraph 1' }));
+    await user.type(screen.getByLabelText('Translation of paragraph 1'), ' Más.');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/saved again while you were editing/i)).toBeInTheDocument();
+    });
+    expect(screen.getByLabelText('Translation of paragraph 1')).toBeInTheDocument();
+  });
 
-    // Build an oversized blob — we don't actually allocate 60MB; we override
-    // the `size` getter so the size check fires without big allocations.
-    const giantBlob = new Blob(['x'], { type: 'text/plain' });
-    Object.defineProperty(giantBlob, 'size', { value: 60 * 1024 * 1024 });
-    vi.mocked(translationService.downloadTranslation).mockResolvedValue(giantBlob);
+  describe('review', () => {
+    const inReviewJob: TranslationJob = {
+      ...completedJob,
+      status: 'IN_REVIEW',
+      review: {
+        reviewerEmail: 'reviewer@example.com',
+        submittedAt: '2026-03-02T08:00:00.000Z',
+        approvedChunks: [1],
+        totalChunks: 5,
+      },
+      reviewerAccess: true,
+    };
+    const fullyApproved: TranslationJob = {
+      ...inReviewJob,
+      review: { ...inReviewJob.review!, approvedChunks: [0, 1, 2, 3, 4] },
+    };
+
+    it('approves the part on screen and reloads the job', async () => {
+      vi.mocked(translationService.getJobStatus)
+        .mockResolvedValueOnce(inReviewJob)
+        .mockResolvedValue({
+          ...inReviewJob,
+          review: { ...inReviewJob.review!, approvedChunks: [0, 1] },
+        });
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+      vi.mocked(translationService.setChunkReview).mockResolvedValue({
+        jobId: 'job-1',
+        status: 'IN_REVIEW',
+        review: { ...inReviewJob.review!, approvedChunks: [0, 1] },
+      });
+
+      const user = userEvent.setup();
+      renderAt();
+
+      const approval = await screen.findByRole('checkbox', { name: 'Approved' });
+      expect(approval).not.toBeChecked();
+      await user.click(approval);
+
+      await waitFor(() => {
+        expect(screen.getByRole('checkbox', { name: 'Approved' })).toBeChecked();
+      });
+      expect(translationService.setChunkReview).toHaveBeenCalledWith('job-1', 0, true);
+    });
+
+    it('shows the approval of the part named in the URL', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(inReviewJob);
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(1));
+
+      renderAt('job-1', '?part=2');
+
+      expect(await screen.findByRole('checkbox', { name: 'Approved' })).toBeChecked();
+    });
+
+    it("shows the reviewer the review panel but not the owner's actions", async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(inReviewJob);
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+
+      renderAt();
+
+      expect(await screen.findByRole('button', { name: 'Approve Translation' })).toBeDisabled();
+      expect(screen.getByText('1 of 5 parts approved')).toBeInTheDocument();
+      // The reviewer comments but does not edit, and goes back to the dashboard.
+      await screen.findByText('Traducción de la parte 1.');
+      expect(screen.queryByRole('button', { name: 'Edit paragraph 1' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Review PDF' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Submit for Review' })).not.toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /Back to Dashboard/ })).toHaveAttribute(
+        'href',
+        '/dashboard'
+      );
+    });
+
+    it('offers the owner no approval of a translation in review', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...inReviewJob,
+        reviewerAccess: undefined,
+      });
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+
+      renderAt();
+
+      await screen.findByRole('button', { name: 'Edit paragraph 1' });
+      expect(screen.queryByRole('checkbox', { name: 'Approved' })).not.toBeInTheDocument();
+      expect(screen.queryByTestId('review-panel')).not.toBeInTheDocument();
+    });
+
+    it('approves the translation once every part is approved', async () => {
+      vi.mocked(translationService.getJobStatus)
+        .mockResolvedValueOnce(fullyApproved)
+        .mockResolvedValue({
+          ...fullyApproved,
+          status: 'APPROVED',
+          review: {
+            ...fullyApproved.review!,
+            approvedAt: '2026-03-03T10:00:00.000Z',
+            approvedBy: 'reviewer@example.com',
+          },
+        });
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+      vi.mocked(translationService.approveReview).mockResolvedValue({
+        jobId: 'job-1',
+        status: 'APPROVED',
+        review: fullyApproved.review!,
+      });
+
+      const user = userEvent.setup();
+      renderAt();
+      await user.click(await screen.findByRole('button', { name: 'Approve Translation' }));
+
+      expect(translationService.approveReview).toHaveBeenCalledWith('job-1');
+      expect(await screen.findByText(/Approved by reviewer@example.com/)).toBeInTheDocument();
+    });
+
+    it('requests changes with a comment', async () => {
+      vi.mocked(translationService.getJobStatus)
+        .mockResolvedValueOnce(inReviewJob)
+        .mockResolvedValue({
+          ...inReviewJob,
+          status: 'CHANGES_REQUESTED',
+          review: { ...inReviewJob.review!, comment: 'Part 2 drops a sentence' },
+        });
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+      vi.mocked(translationService.requestReviewChanges).mockResolvedValue({
+        jobId: 'job-1',
+        status: 'CHANGES_REQUESTED',
+        review: inReviewJob.review!,
+      });
+
+      const user = userEvent.setup();
+      renderAt();
+      await user.click(await screen.findByRole('button', { name: 'Request Changes' }));
+      const dialog = await screen.findByRole('dialog');
+      await user.type(within(dialog).getByLabelText(/Comment/i), 'Part 2 drops a sentence');
+      await user.click(within(dialog).getByRole('button', { name: 'Request Changes' }));
+
+      expect(translationService.requestReviewChanges).toHaveBeenCalledWith(
+        'job-1',
+        'Part 2 drops a sentence'
+      );
+      expect(
+        await screen.findByText('Changes were requested: Part 2 drops a sentence')
+      ).toBeInTheDocument();
+      // Resubmitting is the owner's to do.
+      expect(screen.queryByRole('button', { name: 'Resubmit for Review' })).not.toBeInTheDocument();
+    });
+
+    it('shows why the translation could not be approved', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(fullyApproved);
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+      vi.mocked(translationService.approveReview).mockRejectedValue(
+        new TranslationServiceError('1 of 5 parts are not approved yet', 'API_GENERIC', 409)
+      );
+
+      const user = userEvent.setup();
+      renderAt();
+      await user.click(await screen.findByRole('button', { name: 'Approve Translation' }));
+
+      expect(await screen.findByText('1 of 5 parts are not approved yet')).toBeInTheDocument();
+    });
+
+    it('offers no approval outside a review', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+
+      renderAt();
+
+      await screen.findByRole('button', { name: 'Edit paragraph 1' });
+      expect(screen.queryByRole('checkbox', { name: 'Approved' })).not.toBeInTheDocument();
+    });
+
+    it('does not offer editing once the translation is approved', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...inReviewJob,
+        status: 'APPROVED',
+        reviewerAccess: undefined,
+      });
+      vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
 
+      renderAt();
+
+      await screen.findByText('Traducción de la parte 1.');
+      expect(screen.queryByRole('button', { name: 'Edit paragraph 1' })).not.toBeInTheDocument();
+    });
+  });
+
+  it('downloads the original through a presigned URL', async () => {
+    vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+    vi.mocked(translationService.getChunk).mockResolvedValue(chunk(0));
+    vi.mocked(translationService.getSourceDocument).mockResolvedValue({
+      jobId: 'job-1',
+      filename: 'doc.txt',
+      revision: 1,
+      downloadUrl: 'https://s3.example.com/source',
+      expiresInSeconds: 900,
+    });
+    const clickedHrefs: string[] = [];
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (
+      this: HTMLAnchorElement
+    ) {
+      clickedHrefs.push(this.href);
+    });
+
+    const user = userEvent.setup();
     renderAt();
 
+    await user.click(await screen.findByRole('button', { name: /download original/i }));
+
     await waitFor(() => {
-      expect(screen.getByText(/too large to preview/i)).toBeInTheDocument();
+      expect(clickedHrefs).toEqual(['https://s3.example.com/source']);
+    });
+    expect(translationService.getSourceDocument).toHaveBeenCalledWith('job-1');
+  });
+
+  describe('comments', () => {
+    const thread = (overrides: Partial<CommentThread> = {}): CommentThread => ({
+      jobId: 'job-1',
+      threadId: 'thread-1',
+      chunkIndex: 1,
+      paragraphIndex: 0,
+      side: 'translation',
+      comments: [
+        {
+          commentId: 'comment-1',
+          author: 'editor@example.com',
+          body: 'Too literal',
+          createdAt: '2026-03-02T08:00:00.000Z',
+        },
+      ],
+      resolved: false,
+      createdAt: '2026-03-02T08:00:00.000Z',
+      updatedAt: '2026-03-02T08:00:00.000Z',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
+      vi.mocked(translationService.getChunk).mockImplementation(async (_jobId, index) =>
+        chunk(index)
+      );
+    });
+
+    it('shows only the threads of the part on screen', async () => {
+      vi.mocked(translationService.listComments).mockResolvedValue({
+        jobId: 'job-1',
+        threads: [thread(), thread({ threadId: 'thread-2', chunkIndex: 0, side: 'source' })],
+      });
+
+      const user = userEvent.setup();
+      renderAt('job-1', '?part=2');
+
+      await user.click(
+        await screen.findByRole('button', { name: 'Comments on translated paragraph 1' })
+      );
+
+      expect(await screen.findByText('Too literal')).toBeInTheDocument();
+      expect(screen.getAllByTestId('comment-thread')).toHaveLength(1);
+    });
+
+    it('opens a thread on the part on screen and reloads the threads', async () => {
+      vi.mocked(translationService.createComment).mockResolvedValue({ ...thread() });
+
+      const user = userEvent.setup();
+      renderAt('job-1', '?part=2');
+
+      await user.click(
+        await screen.findByRole('button', { name: 'Comments on source paragraph 1' })
+      );
+      await user.type(screen.getByLabelText('Comment'), 'Is this a quote?');
+      await user.click(screen.getByRole('button', { name: 'Add Comment' }));
+
+      await waitFor(() => {
+        expect(translationService.listComments).toHaveBeenCalledTimes(2);
+      });
+      expect(translationService.createComment).toHaveBeenCalledWith(
+        'job-1',
+        { side: 'source', paragraphIndex: 0, chunkIndex: 1 },
+        'Is this a quote?'
+      );
+    });
+
+    it('shows why a comment could not be added', async () => {
+      vi.mocked(translationService.createComment).mockRejectedValue(
+        new TranslationServiceError('Comment validation failed', 'API_GENERIC', 400)
+      );
+
+      const user = userEvent.setup();
+      renderAt();
+
+      await user.click(
+        await screen.findByRole('button', { name: 'Comments on translated paragraph 1' })
+      );
+      await user.type(screen.getByLabelText('Comment'), 'Check this');
+      await user.click(screen.getByRole('button', { name: 'Add Comment' }));
+
+      expect(await screen.findByText('Comment validation failed')).toBeInTheDocument();
+      expect(screen.getByLabelText('Comment')).toHaveValue('Check this');
+    });
+
+    it('downloads the review PDF with the unresolved comments only', async () => {
+      vi.mocked(translationService.getReviewPdfUrl).mockResolvedValue({
+        format: 'pdf',
+        downloadUrl: 'https://s3.example.com/review',
+        expiresInSeconds: 900,
+        objectKey: 'translated-output/job-1/review-unresolved.pdf',
+      });
+      const clickedHrefs: string[] = [];
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (
+        this: HTMLAnchorElement
+      ) {
+        clickedHrefs.push(this.href);
+      });
+
+      const user = userEvent.setup();
+      renderAt();
+
+      await user.click(await screen.findByRole('button', { name: /review pdf/i }));
+      await user.click(screen.getByRole('menuitem', { name: 'Unresolved comments only' }));
+
+      await waitFor(() => {
+        expect(clickedHrefs).toEqual(['https://s3.example.com/review']);
+      });
+      expect(translationService.getReviewPdfUrl).toHaveBeenCalledWith('job-1', 'unresolved');
     });
   });
 
   // ---------------------------------------------------------------------
   // #271 — Generic error fall-through (the non-404, non-403 branch of
-  // fetchError, and the downloadError catch) must route through
+  // fetchError, and a part that fails to load) must route through
   // getApiErrorMessage so the API-envelope precedence chain governs the
   // alert. The 404 / 403 hardcoded strings remain as page-specific UX
   // overrides (covered by sibling tests above).
@@ -235,10 +674,10 @@ describe('TranslationCompare page', () => {
     expect(screen.queryByText(/^Network Error$/)).not.toBeInTheDocument();
   });
 
-  it('replaces a GENERIC_MESSAGES download error with NETWORK_MESSAGE (#271)', async () => {
+  it('replaces a GENERIC_MESSAGES part error with NETWORK_MESSAGE (#271)', async () => {
     vi.mocked(translationService.getJobStatus).mockResolvedValue(completedJob);
-    // Download fails with a generic axios string — must NOT leak.
-    vi.mocked(translationService.downloadTranslation).mockRejectedValue(
+    // The part fails with a generic axios string — must NOT leak.
+    vi.mocked(translationService.getChunk).mockRejectedValue(
       new TranslationServiceError('Network Error', 'API_GENERIC')
     );
 
@@ -264,7 +703,7 @@ describe('TranslationCompare page', () => {
       expect(screen.getByText(/translation is not yet completed/i)).toBeInTheDocument();
     });
 
-    // We should NOT have tried to download a blob for an in-progress job.
-    expect(translationService.downloadTranslation).not.toHaveBeenCalled();
+    // We should NOT have tried to load a part of an in-progress job.
+    expect(translationService.getChunk).not.toHaveBeenCalled();
   });
 });
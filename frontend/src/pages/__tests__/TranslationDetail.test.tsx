@@ -9,6 +9,9 @@
  * - TranslationProgress component integration
  * - Download button (enabled/disabled based on status)
  * - Start/Retry translation buttons
+ * - Edit history (versions + word diff) and the edit export
+ * - Review: submitting, the owner's view of a review, and sending the reviewer to compare
+ * - Glossary check: the job glossary or a pasted term list, linked by part
  * - Refresh functionality (via React Query refetch)
  * - Error handling (query errors, 403 redirect, general errors)
  * - Breadcrumb navigation
@@ -20,7 +23,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor, act } from '@testing-library/react';
+import { render, screen, waitFor, act, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { MemoryRouter, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
@@ -49,7 +52,23 @@ vi.mock('../../services/translationService', () => ({
     downloadTranslation: vi.fn(),
     // Issue #28: new presigned-URL endpoint for ePub + PDF downloads.
     getDownloadUrl: vi.fn(),
+    listChapters: vi.fn(),
     startTranslation: vi.fn(),
+    uploadRevision: vi.fn(),
+    createLegalAttestation: vi.fn(),
+    retryFailedChunks: vi.fn(),
+    retranslateChunk: vi.fn(),
+    pauseTranslation: vi.fn(),
+    resumeTranslation: vi.fn(),
+    cancelTranslation: vi.fn(),
+    getChunkVersions: vi.fn(),
+    getChunkVersion: vi.fn(),
+    getJobEdits: vi.fn(),
+    submitReview: vi.fn(),
+    requestReviewChanges: vi.fn(),
+    approveReview: vi.fn(),
+    getGlossaryReport: vi.fn(),
+    checkGlossaryTerms: vi.fn(),
   },
   // Issue #215: updated to match new 4-arg constructor (message, errorCode, statusCode?, originalError?).
   TranslationServiceError: class TranslationServiceError extends Error {
@@ -157,6 +176,10 @@ describe('TranslationDetail', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockNavigate.mockClear();
+    vi.mocked(translationService.listChapters).mockResolvedValue({
+      jobId: 'job-123',
+      chapters: [],
+    });
   });
 
   afterEach(() => {
@@ -629,6 +652,121 @@ describe('TranslationDetail', () => {
       clickSpy.mockRestore();
     });
 
+    it('downloads a Word document via getDownloadUrl', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.getDownloadUrl).mockResolvedValue({
+        format: 'docx',
+        downloadUrl: 'https://signed.example.com/translation.docx',
+        expiresInSeconds: 900,
+        objectKey: 'translated-output/job-123/translation.docx',
+      });
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Download Word/i })).toBeInTheDocument();
+      });
+      await user.click(screen.getByRole('button', { name: /Download Word/i }));
+
+      await waitFor(() => {
+        expect(translationService.getDownloadUrl).toHaveBeenCalledWith('job-123', 'docx');
+      });
+      clickSpy.mockRestore();
+    });
+
+    it('offers SRT and VTT downloads only for subtitle jobs', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockCompletedJob,
+        fileName: 'episode.srt',
+        contentType: 'application/x-subrip',
+      });
+      vi.mocked(translationService.getDownloadUrl).mockResolvedValue({
+        format: 'vtt',
+        downloadUrl: 'https://signed.example.com/translation.vtt',
+        expiresInSeconds: 900,
+        objectKey: 'translated-output/job-123/translation.vtt',
+      });
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Download SRT/i })).toBeInTheDocument();
+      });
+      await user.click(screen.getByRole('button', { name: /Download VTT/i }));
+
+      await waitFor(() => {
+        expect(translationService.getDownloadUrl).toHaveBeenCalledWith('job-123', 'vtt');
+      });
+      clickSpy.mockRestore();
+    });
+
+    it('hides subtitle downloads for other documents', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Download Word/i })).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('button', { name: /Download SRT/i })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Download VTT/i })).not.toBeInTheDocument();
+    });
+
+    describe('chapter picker', () => {
+      const chapters = [
+        { number: 1, title: 'Introduction' },
+        { number: 2, title: 'The Storm' },
+      ];
+
+      it('downloads the selected chapter instead of the whole book', async () => {
+        const user = userEvent.setup();
+        vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+        vi.mocked(translationService.listChapters).mockResolvedValue({
+          jobId: 'job-123',
+          chapters,
+        });
+        vi.mocked(translationService.getDownloadUrl).mockResolvedValue({
+          format: 'pdf',
+          downloadUrl: 'https://signed.example.com/chapter-2.pdf',
+          expiresInSeconds: 900,
+          objectKey: 'translated-output/job-123/chapter-2.pdf',
+        });
+        const clickSpy = vi
+          .spyOn(HTMLAnchorElement.prototype, 'click')
+          .mockImplementation(() => {});
+
+        renderComponent();
+
+        await user.click(await screen.findByRole('combobox', { name: /Chapter/i }));
+        await user.click(screen.getByRole('option', { name: '2. The Storm' }));
+        await user.click(screen.getByRole('button', { name: /Download PDF/i }));
+
+        await waitFor(() => {
+          expect(translationService.getDownloadUrl).toHaveBeenCalledWith('job-123', 'pdf', 2);
+        });
+        clickSpy.mockRestore();
+      });
+
+      it('is not offered for subtitle jobs', async () => {
+        vi.mocked(translationService.getJobStatus).mockResolvedValue({
+          ...mockCompletedJob,
+          contentType: 'application/x-subrip',
+        });
+
+        renderComponent();
+
+        await waitFor(() => {
+          expect(screen.getByRole('button', { name: /Download SRT/i })).toBeInTheDocument();
+        });
+        expect(translationService.listChapters).not.toHaveBeenCalled();
+        expect(screen.queryByRole('combobox', { name: /Chapter/i })).not.toBeInTheDocument();
+      });
+    });
+
     it('downloads PDF via getDownloadUrl (#28)', async () => {
       const user = userEvent.setup();
       vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
@@ -870,6 +1008,556 @@ describe('TranslationDetail', () => {
   // Refresh Functionality
   // -------------------------------------------------------------------------
 
+  describe('Revisions', () => {
+    it('offers a revised upload for completed jobs only', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+
+      renderComponent();
+
+      expect(
+        await screen.findByRole('button', { name: /Upload Revised Version/i })
+      ).toBeInTheDocument();
+    });
+
+    it('shows how many chunks of a chunked revision changed', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockChunkedJob,
+        revision: {
+          revision: 2,
+          previousRevision: 1,
+          changedChunks: 2,
+          unchangedChunks: 3,
+          targetLanguage: 'es',
+        },
+      });
+
+      renderComponent();
+
+      const summary = await screen.findByTestId('revision-summary');
+      expect(summary).toHaveTextContent(
+        'Revision 2: 2 of 5 chunks changed since revision 1. Only the changed chunks will be translated.'
+      );
+      expect(
+        screen.queryByRole('button', { name: /Upload Revised Version/i })
+      ).not.toBeInTheDocument();
+    });
+
+    it('uploads the revised file and refreshes the job', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.createLegalAttestation).mockResolvedValue({} as any);
+      vi.mocked(translationService.uploadRevision).mockResolvedValue({
+        jobId: 'job-123',
+        revision: 2,
+      });
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Upload Revised Version/i }));
+
+      const dialog = await screen.findByRole('dialog');
+      const file = new File(['revised'], 'document-v2.txt', { type: 'text/plain' });
+      await user.upload(dialog.querySelector('input[type="file"]') as HTMLInputElement, file);
+      for (const checkbox of within(dialog).getAllByRole('checkbox')) {
+        await user.click(checkbox);
+      }
+      await user.click(within(dialog).getByRole('button', { name: /^Upload Revision$/i }));
+
+      await waitFor(() => {
+        expect(translationService.uploadRevision).toHaveBeenCalledWith('job-123', {
+          file,
+          legalAttestation: {},
+        });
+      });
+      await waitFor(() => {
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      });
+      expect(vi.mocked(translationService.getJobStatus).mock.calls.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('Recovery', () => {
+    it('retries only the failed parts of a failed translation run', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockFailedJob,
+        status: 'TRANSLATION_FAILED',
+      });
+      vi.mocked(translationService.retryFailedChunks).mockResolvedValue([1, 3]);
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Retry Failed Parts/i }));
+
+      await waitFor(() => {
+        expect(translationService.retryFailedChunks).toHaveBeenCalledWith('job-123');
+      });
+      expect(translationService.startTranslation).not.toHaveBeenCalled();
+      expect(screen.queryByRole('button', { name: /Retry Translation/i })).not.toBeInTheDocument();
+    });
+
+    it('shows why the failed parts could not be retried', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockFailedJob,
+        status: 'TRANSLATION_FAILED',
+      });
+      vi.mocked(translationService.retryFailedChunks).mockRejectedValue(
+        new TranslationServiceError('No chunks are missing a translation.', 'NO_FAILED_CHUNKS', 400)
+      );
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Retry Failed Parts/i }));
+
+      expect(await screen.findByText('No chunks are missing a translation.')).toBeInTheDocument();
+    });
+
+    it('retranslates one part of a completed job with an instruction', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.retranslateChunk).mockResolvedValue(undefined);
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Retranslate a Part/i }));
+
+      const dialog = await screen.findByRole('dialog');
+      const submit = within(dialog).getByRole('button', { name: /^Retranslate$/i });
+      await user.type(within(dialog).getByLabelText(/Part number/i), '6');
+      expect(submit).toBeDisabled();
+
+      await user.clear(within(dialog).getByLabelText(/Part number/i));
+      await user.type(within(dialog).getByLabelText(/Part number/i), '3');
+      await user.type(within(dialog).getByLabelText(/Instructions/i), 'Keep the names in English');
+      await user.click(submit);
+
+      await waitFor(() => {
+        expect(translationService.retranslateChunk).toHaveBeenCalledWith(
+          'job-123',
+          2,
+          'Keep the names in English'
+        );
+      });
+      await waitFor(() => {
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('Edit history', () => {
+    const versions = [
+      {
+        versionId: 'machine-mv1',
+        kind: 'machine' as const,
+        author: 'claude/claude-sonnet',
+        savedAt: '2026-03-01T10:05:00.000Z',
+        current: false,
+      },
+      {
+        versionId: 'edit-1',
+        kind: 'edit' as const,
+        version: 1,
+        author: 'user-1',
+        savedAt: '2026-03-02T09:00:00.000Z',
+        note: 'Fixed the tense',
+        baseVersion: 0,
+        wordsAdded: 1,
+        wordsRemoved: 1,
+        current: true,
+      },
+    ];
+
+    it('diffs the machine translation of a part against its current version', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.getChunkVersions).mockResolvedValue({
+        jobId: 'job-123',
+        chunkIndex: 1,
+        versions,
+      });
+      vi.mocked(translationService.getChunkVersion).mockImplementation(
+        async (jobId, chunkIndex, versionId) => ({
+          jobId,
+          chunkIndex,
+          versionId,
+          text: versionId === 'edit-1' ? 'Llovía toda la noche.' : 'Llovió toda la noche.',
+        })
+      );
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Edit History/i }));
+
+      const dialog = await screen.findByRole('dialog');
+      await user.clear(within(dialog).getByLabelText(/Part number/i));
+      await user.type(within(dialog).getByLabelText(/Part number/i), '2');
+
+      expect(await within(dialog).findByText(/Fixed the tense/)).toBeInTheDocument();
+      expect(within(dialog).getByText('Current')).toBeInTheDocument();
+      await waitFor(() => {
+        expect(translationService.getChunkVersions).toHaveBeenCalledWith('job-123', 1);
+      });
+
+      const diff = await within(dialog).findByTestId('word-diff');
+      expect(diff.querySelector('del')).toHaveTextContent('Llovió');
+      expect(diff.querySelector('ins')).toHaveTextContent('Llovía');
+    });
+
+    it('exports the edits of the job as CSV', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.getJobEdits).mockResolvedValue({
+        jobId: 'job-123',
+        edits: [
+          {
+            chunkIndex: 1,
+            version: 1,
+            baseVersion: 0,
+            author: 'user-1',
+            savedAt: '2026-03-02T09:00:00.000Z',
+          },
+        ],
+      });
+      const mockCreateObjectURL = vi.fn((_blob: Blob) => 'blob:mock-url');
+      const originalCreateObjectURL = URL.createObjectURL;
+      const originalRevokeObjectURL = URL.revokeObjectURL;
+      URL.createObjectURL = mockCreateObjectURL;
+      URL.revokeObjectURL = vi.fn();
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Export Edits/i }));
+
+      await waitFor(() => expect(mockCreateObjectURL).toHaveBeenCalled());
+      // jsdom's Blob has no text(); read it the way a browser page would.
+      const csv = await new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(mockCreateObjectURL.mock.calls[0][0]);
+      });
+      expect(csv).toContain('2,1,0,user-1,2026-03-02T09:00:00.000Z');
+
+      URL.createObjectURL = originalCreateObjectURL;
+      URL.revokeObjectURL = originalRevokeObjectURL;
+    });
+  });
+
+  describe('Pause and cancel', () => {
+    const mockTranslatingJob: TranslationJob = {
+      ...mockChunkedJob,
+      translationStatus: 'IN_PROGRESS',
+      completedChunks: 2,
+    };
+
+    it('offers pause and cancel instead of start while a translation runs', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockTranslatingJob);
+      vi.mocked(translationService.pauseTranslation).mockResolvedValue(undefined);
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Pause Translation/i }));
+
+      await waitFor(() => {
+        expect(translationService.pauseTranslation).toHaveBeenCalledWith('job-123');
+      });
+      expect(screen.queryByRole('button', { name: /Start Translation/i })).not.toBeInTheDocument();
+      expect(screen.getByTestId('translation-progress')).toBeInTheDocument();
+    });
+
+    it('resumes a paused translation', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockTranslatingJob,
+        status: 'PAUSED',
+        translationStatus: 'PAUSED',
+      });
+      vi.mocked(translationService.resumeTranslation).mockResolvedValue([2, 3, 4]);
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Resume Translation/i }));
+
+      await waitFor(() => {
+        expect(translationService.resumeTranslation).toHaveBeenCalledWith('job-123');
+      });
+      expect(screen.queryByRole('button', { name: /Pause Translation/i })).not.toBeInTheDocument();
+    });
+
+    it('cancels only after the user confirms', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockTranslatingJob);
+      vi.mocked(translationService.cancelTranslation).mockResolvedValue(undefined);
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: /Cancel Translation/i }));
+
+      const dialog = await screen.findByRole('dialog');
+      await user.click(within(dialog).getByRole('button', { name: /Keep Translating/i }));
+      expect(translationService.cancelTranslation).not.toHaveBeenCalled();
+
+      await user.click(screen.getByRole('button', { name: /Cancel Translation/i }));
+      await user.click(
+        within(await screen.findByRole('dialog')).getByRole('button', {
+          name: /Cancel Translation/i,
+        })
+      );
+
+      await waitFor(() => {
+        expect(translationService.cancelTranslation).toHaveBeenCalledWith('job-123');
+      });
+    });
+  });
+
+  describe('Quality flags', () => {
+    it('lists the flagged parts with their severity', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockCompletedJob,
+        flaggedChunks: [
+          {
+            chunkIndex: 2,
+            severity: 'HIGH',
+            flags: [
+              {
+                type: 'TRUNCATED',
+                severity: 'HIGH',
+                description: 'The model stopped at its output limit.',
+              },
+              {
+                type: 'DROPPED_PARAGRAPHS',
+                severity: 'MEDIUM',
+                description: '9 of 10 paragraphs came back.',
+              },
+            ],
+          },
+        ],
+      });
+
+      renderComponent();
+
+      const list = await screen.findByTestId('flagged-chunks');
+      expect(within(list).getByText('Part 3')).toBeInTheDocument();
+      expect(within(list).getByLabelText('Severity: High')).toBeInTheDocument();
+      expect(within(list).getByText(/The model stopped at its output limit/)).toBeInTheDocument();
+      expect(within(list).getByText(/9 of 10 paragraphs came back/)).toBeInTheDocument();
+    });
+
+    it('shows no quality section for a job without flags', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+
+      renderComponent();
+
+      await screen.findByRole('button', { name: /Download Markdown/i });
+      expect(screen.queryByTestId('flagged-chunks')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Review', () => {
+    const review = {
+      reviewerEmail: 'reviewer@example.com',
+      submittedAt: '2026-03-02T08:00:00.000Z',
+      approvedChunks: [0, 1, 2],
+      totalChunks: 5,
+    };
+    const mockInReviewJob: TranslationJob = { ...mockCompletedJob, status: 'IN_REVIEW', review };
+
+    it('submits a completed translation to a reviewer', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus)
+        .mockResolvedValueOnce(mockCompletedJob)
+        .mockResolvedValue(mockInReviewJob);
+      vi.mocked(translationService.submitReview).mockResolvedValue({
+        jobId: 'job-123',
+        status: 'IN_REVIEW',
+        review,
+      });
+
+      renderComponent();
+      expect(
+        await screen.findByText(/This translation has not been submitted for review\./)
+      ).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Submit for Review' }));
+
+      const dialog = await screen.findByRole('dialog');
+      const submit = within(dialog).getByRole('button', { name: 'Submit' });
+      await user.type(within(dialog).getByLabelText(/Reviewer email/i), 'reviewer');
+      expect(submit).toBeDisabled();
+      await user.type(within(dialog).getByLabelText(/Reviewer email/i), '@example.com');
+      await user.click(submit);
+
+      expect(translationService.submitReview).toHaveBeenCalledWith(
+        'job-123',
+        'reviewer@example.com'
+      );
+      expect(await screen.findByText('3 of 5 parts approved')).toBeInTheDocument();
+      expect(screen.getByTestId('status-chip')).toHaveTextContent('In review');
+    });
+
+    it('waits for the reviewer while the translation is in review', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockInReviewJob);
+
+      renderComponent();
+
+      expect(await screen.findByText(/Waiting for the reviewer\./)).toBeInTheDocument();
+      expect(screen.getByText(/Reviewer: reviewer@example.com/)).toBeInTheDocument();
+      expect(screen.getByText('3 of 5 parts approved')).toBeInTheDocument();
+      // Only the reviewer approves or sends the translation back.
+      expect(screen.queryByRole('button', { name: 'Approve Translation' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Request Changes' })).not.toBeInTheDocument();
+      // Downloads stay available (as drafts); revisions wait for the review.
+      expect(screen.getByRole('button', { name: /Download Markdown/i })).toBeInTheDocument();
+      expect(
+        screen.queryByRole('button', { name: /Upload Revised Version/i })
+      ).not.toBeInTheDocument();
+    });
+
+    it('shows the changes the reviewer requested and offers a resubmission', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockInReviewJob,
+        status: 'CHANGES_REQUESTED',
+        review: { ...review, comment: 'Part 2 drops a sentence' },
+      });
+
+      renderComponent();
+
+      expect(
+        await screen.findByText('Changes were requested: Part 2 drops a sentence')
+      ).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Resubmit for Review' })).toBeInTheDocument();
+    });
+
+    it('offers a revision and a retranslation of an approved translation', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockInReviewJob,
+        status: 'APPROVED',
+        review: {
+          ...review,
+          approvedChunks: [0, 1, 2, 3, 4],
+          approvedAt: '2026-03-03T10:00:00.000Z',
+          approvedBy: 'reviewer@example.com',
+        },
+      });
+
+      renderComponent();
+
+      expect(
+        await screen.findByRole('button', { name: /Upload Revised Version/i })
+      ).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Retranslate a Part/i })).toBeInTheDocument();
+    });
+
+    it('sends the assigned reviewer on to the compare view', async () => {
+      vi.mocked(translationService.getJobStatus).mockResolvedValue({
+        ...mockInReviewJob,
+        reviewerAccess: true,
+      });
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/translation/job-123/compare', {
+          replace: true,
+        });
+      });
+    });
+  });
+
+  describe('Glossary check', () => {
+    const report = {
+      jobId: 'job-123',
+      glossaryId: 'gloss-1',
+      glossaryName: 'Middle-earth',
+      totalChunks: 5,
+      termsFound: 2,
+      violationCount: 1,
+      chunks: [
+        {
+          chunkIndex: 0,
+          violationCount: 0,
+          terms: [
+            {
+              source: 'Frodo',
+              target: 'Frodo',
+              sourceOccurrences: 1,
+              targetOccurrences: 1,
+              compliant: true,
+            },
+          ],
+        },
+        {
+          chunkIndex: 2,
+          violationCount: 1,
+          terms: [
+            {
+              source: 'Shire',
+              target: 'Comarca',
+              sourceOccurrences: 2,
+              targetOccurrences: 0,
+              compliant: false,
+            },
+          ],
+        },
+      ],
+      generatedAt: '2026-03-03T10:00:00.000Z',
+    };
+
+    it('checks the job glossary and links each violating part', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.getGlossaryReport).mockResolvedValue(report);
+
+      renderComponent();
+      const panel = await screen.findByTestId('glossary-report');
+      await user.click(within(panel).getByRole('button', { name: 'Check Glossary' }));
+
+      expect(translationService.getGlossaryReport).toHaveBeenCalledWith('job-123');
+      expect(
+        await within(panel).findByText('Middle-earth: 2 terms found, 1 violation.')
+      ).toBeInTheDocument();
+      expect(within(panel).getByRole('link', { name: 'Part 3' })).toHaveAttribute(
+        'href',
+        '/translation/job-123/compare?part=3'
+      );
+      expect(
+        within(panel).getByText('“Shire” should be rendered as “Comarca”')
+      ).toBeInTheDocument();
+      expect(within(panel).queryByRole('link', { name: 'Part 1' })).not.toBeInTheDocument();
+    });
+
+    it('checks a pasted term list instead', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.checkGlossaryTerms).mockResolvedValue({
+        ...report,
+        glossaryId: undefined,
+        glossaryName: undefined,
+      });
+
+      renderComponent();
+      const panel = await screen.findByTestId('glossary-report');
+      await user.type(within(panel).getByLabelText(/Terms/), 'Shire = Comarca{enter}Frodo=Frodo');
+      await user.click(within(panel).getByRole('button', { name: 'Check Glossary' }));
+
+      expect(translationService.checkGlossaryTerms).toHaveBeenCalledWith('job-123', [
+        { source: 'Shire', target: 'Comarca' },
+        { source: 'Frodo', target: 'Frodo' },
+      ]);
+      expect(translationService.getGlossaryReport).not.toHaveBeenCalled();
+      expect(await within(panel).findByText('2 terms found, 1 violation.')).toBeInTheDocument();
+    });
+
+    it('shows why the glossary could not be checked', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationService.getJobStatus).mockResolvedValue(mockCompletedJob);
+      vi.mocked(translationService.getGlossaryReport).mockRejectedValue(
+        new TranslationServiceError(
+          'No glossary to check against — pass ?glossaryId=, submit a term list, or translate the job with a glossary',
+          'API_GENERIC',
+          400
+        )
+      );
+
+      renderComponent();
+      const panel = await screen.findByTestId('glossary-report');
+      await user.click(within(panel).getByRole('button', { name: 'Check Glossary' }));
+
+      expect(await within(panel).findByText(/No glossary to check against/)).toBeInTheDocument();
+    });
+  });
+
   describe('Refresh Functionality', () => {
     it('should have refresh status button', async () => {
       vi.mocked(translationService.getJobStatus).mockResolvedValue(mockInProgressJob);
@@ -19,11 +19,36 @@ import { AxiosError } from 'axios';
 import {
   uploadDocument,
   uploadAndAwaitChunked,
+  uploadRevision,
   startTranslation,
+  retryFailedChunks,
+  retranslateChunk,
+  pauseTranslation,
+  resumeTranslation,
+  cancelTranslation,
   getJobStatus,
   getTranslationJobs,
   downloadTranslation,
   getDownloadUrl,
+  listChapters,
+  getSourceDocument,
+  getChunk,
+  saveChunkTranslation,
+  getChunkVersions,
+  getChunkVersion,
+  getJobEdits,
+  submitReview,
+  setChunkReview,
+  requestReviewChanges,
+  approveReview,
+  listReviewAssignments,
+  listComments,
+  createComment,
+  replyToComment,
+  setCommentResolved,
+  getReviewPdfUrl,
+  getGlossaryReport,
+  checkGlossaryTerms,
   createLegalAttestation,
   TranslationServiceError,
   UPLOAD_AWAIT_CHUNKED_POLL_INTERVAL_MS,
@@ -50,7 +75,8 @@ import { getAuthToken, apiClient } from '../../utils/api';
 // controlled stub rather than an XHR-based S3 PUT (#230 SRP refactor).
 // Browser-safe-header filtering and XHR lifecycle are uploadService's
 // responsibility and are covered by uploadService.test.ts.
-vi.mock('../uploadService', () => ({
+vi.mock('../uploadService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../uploadService')>()),
   uploadToS3: vi.fn(),
 }));
 
@@ -600,6 +626,163 @@ describe('TranslationService - uploadDocument', () => {
   });
 });
 
+describe('TranslationService - uploadRevision', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  it('requests a revision upload URL and PUTs the revised file to it', async () => {
+    const file = new File(['revised'], 'book-v2.txt', { type: 'text/plain' });
+    const legalAttestation = buildAttestation();
+    // Flat response — unlike POST /jobs/upload, no `data` envelope.
+    mockedApiClient.post.mockResolvedValueOnce({
+      data: {
+        message: 'Revision upload URL generated successfully',
+        jobId: 'job-1',
+        revision: 2,
+        uploadUrl: 'https://s3.amazonaws.com/bucket/revision-url',
+        fileId: 'file-2',
+        expiresIn: 900,
+        requiredHeaders: { 'Content-Type': 'text/plain', 'Content-Length': '7' },
+      },
+    });
+    mockedUploadToS3.mockResolvedValueOnce(undefined);
+
+    const result = await uploadRevision('job-1', { file, legalAttestation });
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-1/revisions', {
+      fileName: 'book-v2.txt',
+      fileSize: file.size,
+      contentType: 'text/plain',
+      legalAttestation,
+    });
+    expect(mockedUploadToS3).toHaveBeenCalledWith(
+      file,
+      'https://s3.amazonaws.com/bucket/revision-url',
+      { 'Content-Type': 'text/plain', 'Content-Length': '7' }
+    );
+    expect(result).toEqual({ jobId: 'job-1', revision: 2 });
+  });
+
+  it('surfaces a rejected revision as a TranslationServiceError', async () => {
+    mockedApiClient.post.mockRejectedValueOnce(
+      new AxiosError('Request failed', '400', undefined, undefined, {
+        status: 400,
+        data: { message: 'A revision can only be uploaded for a completed translation.' },
+      } as any)
+    );
+
+    await expect(
+      uploadRevision('job-1', {
+        file: new File(['x'], 'book.txt', { type: 'text/plain' }),
+        legalAttestation: buildAttestation(),
+      })
+    ).rejects.toBeInstanceOf(TranslationServiceError);
+    expect(mockedUploadToS3).not.toHaveBeenCalled();
+  });
+});
+
+describe('TranslationService - recovery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  it('retries the failed chunks and returns their indexes', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({
+      data: {
+        message: 'Retrying 2 chunks',
+        jobId: 'job-1',
+        recoveryStrategy: 'RETRY',
+        translationStatus: 'IN_PROGRESS',
+        totalChunks: 4,
+        translatedChunks: 2,
+        chunkIndexes: [1, 3],
+      },
+    });
+
+    const result = await retryFailedChunks('job-1', 'Keep the names in English');
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-1/recover', {
+      recoveryStrategy: 'RETRY',
+      parameters: { instructions: 'Keep the names in English' },
+    });
+    expect(result).toEqual([1, 3]);
+  });
+
+  it('retranslates one chunk', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({
+      data: {
+        message: 'Retranslating chunk 2',
+        jobId: 'job-1',
+        chunkIndex: 2,
+        translationStatus: 'IN_PROGRESS',
+      },
+    });
+
+    await retranslateChunk('job-1', 2);
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-1/chunks/2/retranslate', {});
+  });
+
+  it('surfaces a job without failed chunks as a TranslationServiceError', async () => {
+    mockedApiClient.post.mockRejectedValueOnce(
+      new AxiosError('Request failed', '400', undefined, undefined, {
+        status: 400,
+        data: { message: 'No chunks are missing a translation.', errorCode: 'NO_FAILED_CHUNKS' },
+      } as any)
+    );
+
+    await expect(retryFailedChunks('job-1')).rejects.toBeInstanceOf(TranslationServiceError);
+  });
+});
+
+describe('TranslationService - pause, resume and cancel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  it('pauses with an optional reason', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({ data: { translationStatus: 'PAUSED' } });
+
+    await pauseTranslation('job-1', 'Checking the glossary');
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-1/pause', {
+      reason: 'Checking the glossary',
+    });
+  });
+
+  it('resumes and returns the chunks still to translate', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({
+      data: {
+        message: 'Translation resumed',
+        jobId: 'job-1',
+        translationStatus: 'IN_PROGRESS',
+        totalChunks: 5,
+        translatedChunks: 3,
+        chunkIndexes: [3, 4],
+      },
+    });
+
+    await expect(resumeTranslation('job-1')).resolves.toEqual([3, 4]);
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-1/resume', {});
+  });
+
+  it('surfaces a rejected cancel as a TranslationServiceError', async () => {
+    mockedApiClient.post.mockRejectedValueOnce(
+      new AxiosError('Request failed', '400', undefined, undefined, {
+        status: 400,
+        data: { message: 'Only a running or paused translation can be cancelled.' },
+      } as any)
+    );
+
+    await expect(cancelTranslation('job-1')).rejects.toBeInstanceOf(TranslationServiceError);
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-1/cancel', {});
+  });
+});
+
 describe('TranslationService - startTranslation', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -648,6 +831,106 @@ describe('TranslationService - startTranslation', () => {
       expect(result.totalChunks).toBe(4);
       expect(result.completedChunks).toBe(0);
     });
+
+    it('should forward the selected glossaryId in the payload', async () => {
+      const request: TranslationConfig = {
+        targetLanguage: 'es',
+        tone: 'formal',
+        glossaryId: 'glossary-1',
+      };
+
+      mockedApiClient.post.mockResolvedValueOnce({
+        data: {
+          message: 'Translation started successfully',
+          jobId: 'job-123',
+          translationStatus: 'IN_PROGRESS',
+          targetLanguage: 'es',
+          totalChunks: 4,
+          translatedChunks: 0,
+        },
+      });
+
+      await startTranslation('job-123', request);
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith(
+        expect.stringContaining('/jobs/job-123/translate'),
+        { targetLanguage: 'es', tone: 'formal', glossaryId: 'glossary-1' }
+      );
+    });
+
+    it('should forward a provider and model selection in the payload', async () => {
+      mockedApiClient.post.mockResolvedValueOnce({
+        data: {
+          message: 'Translation started successfully',
+          jobId: 'job-123',
+          translationStatus: 'IN_PROGRESS',
+          targetLanguage: 'es',
+          totalChunks: 4,
+          translatedChunks: 0,
+        },
+      });
+
+      await startTranslation('job-123', {
+        targetLanguage: 'es',
+        tone: 'neutral',
+        provider: 'anthropic',
+        model: 'claude-haiku-4-5',
+      });
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith(
+        expect.stringContaining('/jobs/job-123/translate'),
+        { targetLanguage: 'es', tone: 'neutral', provider: 'anthropic', model: 'claude-haiku-4-5' }
+      );
+    });
+
+    it('should forward a sequential context mode in the payload', async () => {
+      mockedApiClient.post.mockResolvedValueOnce({
+        data: {
+          message: 'Translation started successfully',
+          jobId: 'job-123',
+          translationStatus: 'IN_PROGRESS',
+          targetLanguage: 'es',
+          totalChunks: 4,
+          translatedChunks: 0,
+        },
+      });
+
+      await startTranslation('job-123', {
+        targetLanguage: 'es',
+        tone: 'neutral',
+        contextMode: 'sequential',
+      });
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith(
+        expect.stringContaining('/jobs/job-123/translate'),
+        { targetLanguage: 'es', tone: 'neutral', contextMode: 'sequential' }
+      );
+    });
+
+    it('should forward a rolling brief mode in the payload', async () => {
+      mockedApiClient.post.mockResolvedValueOnce({
+        data: {
+          message: 'Translation started successfully',
+          jobId: 'job-123',
+          translationStatus: 'IN_PROGRESS',
+          targetLanguage: 'es',
+          totalChunks: 4,
+          translatedChunks: 0,
+        },
+      });
+
+      await startTranslation('job-123', {
+        targetLanguage: 'es',
+        tone: 'neutral',
+        contextMode: 'sequential',
+        briefMode: 'rolling',
+      });
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith(
+        expect.stringContaining('/jobs/job-123/translate'),
+        { targetLanguage: 'es', tone: 'neutral', contextMode: 'sequential', briefMode: 'rolling' }
+      );
+    });
   });
 
   describe('Error Scenarios', () => {
@@ -1756,4 +2039,419 @@ describe('TranslationService - getDownloadUrl (#28)', () => {
 
     await expect(getDownloadUrl('job-x', 'epub')).rejects.toThrow('Failed to generate EPUB output');
   });
+
+  it('adds the chapter query parameter when one is selected', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({
+      data: {
+        format: 'pdf',
+        downloadUrl: 'https://signed.example.com/chapter-2.pdf',
+        expiresInSeconds: 900,
+        objectKey: 'translated-output/job-123/chapter-2.pdf',
+      },
+    });
+
+    await getDownloadUrl('job-123', 'pdf', 2);
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/download', {
+      params: { format: 'pdf', chapter: 2 },
+    });
+  });
+});
+
+describe('TranslationService - chapters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  it('lists the chapters of a job', async () => {
+    const chapters = [
+      { number: 1, title: 'Introduction' },
+      { number: 2, title: 'The Storm' },
+    ];
+    mockedApiClient.get.mockResolvedValueOnce({ data: { jobId: 'job-123', chapters } });
+
+    const result = await listChapters('job-123');
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/chapters');
+    expect(result.chapters).toEqual(chapters);
+  });
+
+  it('downloads a single chapter as text', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({ data: new Blob(['# The Storm']) });
+
+    await downloadTranslation('job-123', 2);
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/download', {
+      responseType: 'blob',
+      params: { chapter: 2 },
+    });
+  });
+});
+
+describe('TranslationService - job content', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  it('requests a presigned download of the source document', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({
+      data: { jobId: 'job-123', filename: 'novel.txt', downloadUrl: 'https://s3/source' },
+    });
+
+    const result = await getSourceDocument('job-123');
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/source');
+    expect(result.downloadUrl).toBe('https://s3/source');
+  });
+
+  it('fetches one chunk with its translation', async () => {
+    const chunk = {
+      jobId: 'job-123',
+      chunkIndex: 2,
+      totalChunks: 5,
+      sourceText: 'It rained.',
+      translatedText: 'Llovió.',
+    };
+    mockedApiClient.get.mockResolvedValueOnce({ data: chunk });
+
+    const result = await getChunk('job-123', 2);
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/chunks/2');
+    expect(result).toEqual(chunk);
+  });
+
+  it('wraps a missing chunk in a TranslationServiceError', async () => {
+    mockedApiClient.get.mockRejectedValueOnce(
+      new AxiosError('Not Found', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 404,
+        data: { message: 'Chunk 9 not found; the job has 5 chunks', errorCode: 'CHUNK_NOT_FOUND' },
+      } as any)
+    );
+
+    await expect(getChunk('job-123', 9)).rejects.toBeInstanceOf(TranslationServiceError);
+  });
+
+  it('saves an edited chunk translation', async () => {
+    mockedApiClient.put.mockResolvedValueOnce({
+      data: { jobId: 'job-123', chunkIndex: 2, version: 1, savedAt: '2026-03-02T09:00:00.000Z' },
+    });
+
+    const result = await saveChunkTranslation('job-123', 2, {
+      translatedText: 'Llovía.',
+      baseVersion: 0,
+    });
+
+    expect(mockedApiClient.put).toHaveBeenCalledWith('/jobs/job-123/chunks/2/translation', {
+      translatedText: 'Llovía.',
+      baseVersion: 0,
+    });
+    expect(result.version).toBe(1);
+  });
+
+  it('lists the versions of a chunk and fetches one by id', async () => {
+    mockedApiClient.get
+      .mockResolvedValueOnce({ data: { jobId: 'job-123', chunkIndex: 2, versions: [] } })
+      .mockResolvedValueOnce({
+        data: { jobId: 'job-123', chunkIndex: 2, versionId: 'machine-a/b', text: 'Llovió.' },
+      });
+
+    await getChunkVersions('job-123', 2);
+    const version = await getChunkVersion('job-123', 2, 'machine-a/b');
+
+    expect(mockedApiClient.get).toHaveBeenNthCalledWith(1, '/jobs/job-123/chunks/2/versions');
+    expect(mockedApiClient.get).toHaveBeenNthCalledWith(
+      2,
+      '/jobs/job-123/chunks/2/versions/machine-a%2Fb'
+    );
+    expect(version.text).toBe('Llovió.');
+  });
+
+  it('fetches the edits of a job for export', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({ data: { jobId: 'job-123', edits: [] } });
+
+    await getJobEdits('job-123');
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/edits');
+  });
+});
+
+describe('TranslationService - review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  const reviewResponse = (status: string, approvedChunks: number[] = []) => ({
+    data: {
+      jobId: 'job-123',
+      status,
+      review: {
+        reviewerEmail: 'reviewer@example.com',
+        submittedAt: '2026-03-02T08:00:00.000Z',
+        approvedChunks,
+        totalChunks: 3,
+      },
+    },
+  });
+
+  it('submits a translation for review', async () => {
+    mockedApiClient.post.mockResolvedValueOnce(reviewResponse('IN_REVIEW'));
+
+    const result = await submitReview('job-123', 'reviewer@example.com');
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-123/review/submit', {
+      reviewerEmail: 'reviewer@example.com',
+    });
+    expect(result.status).toBe('IN_REVIEW');
+  });
+
+  it('approves a part and withdraws the approval', async () => {
+    mockedApiClient.put
+      .mockResolvedValueOnce(reviewResponse('IN_REVIEW', [1]))
+      .mockResolvedValueOnce(reviewResponse('IN_REVIEW'));
+
+    const approved = await setChunkReview('job-123', 1, true);
+    await setChunkReview('job-123', 1, false);
+
+    expect(approved.review.approvedChunks).toEqual([1]);
+    expect(mockedApiClient.put).toHaveBeenNthCalledWith(1, '/jobs/job-123/chunks/1/review', {
+      approved: true,
+    });
+    expect(mockedApiClient.put).toHaveBeenNthCalledWith(2, '/jobs/job-123/chunks/1/review', {
+      approved: false,
+    });
+  });
+
+  it('requests changes with and without a comment', async () => {
+    mockedApiClient.post.mockResolvedValue(reviewResponse('CHANGES_REQUESTED'));
+
+    await requestReviewChanges('job-123', 'Part 2 drops a sentence');
+    await requestReviewChanges('job-123');
+
+    expect(mockedApiClient.post).toHaveBeenNthCalledWith(
+      1,
+      '/jobs/job-123/review/request-changes',
+      { comment: 'Part 2 drops a sentence' }
+    );
+    expect(mockedApiClient.post).toHaveBeenNthCalledWith(
+      2,
+      '/jobs/job-123/review/request-changes',
+      {}
+    );
+  });
+
+  it('wraps an incomplete review in a TranslationServiceError', async () => {
+    mockedApiClient.post.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: {
+        status: 409,
+        data: { message: '1 of 3 parts are not approved yet', errorCode: 'REVIEW_INCOMPLETE' },
+      },
+      message: 'Conflict',
+    } as AxiosError);
+
+    await expect(approveReview('job-123')).rejects.toMatchObject({
+      statusCode: 409,
+      message: '1 of 3 parts are not approved yet',
+    });
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-123/review/approve');
+  });
+
+  it('lists the reviews assigned to the caller', async () => {
+    const { review } = reviewResponse('IN_REVIEW').data;
+    mockedApiClient.get.mockResolvedValueOnce({
+      data: { assignments: [{ jobId: 'job-123', status: 'IN_REVIEW', review }] },
+    });
+
+    const result = await listReviewAssignments();
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/reviews');
+    expect(result.assignments).toEqual([{ jobId: 'job-123', status: 'IN_REVIEW', review }]);
+  });
+});
+
+describe('TranslationService - comments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  const thread = {
+    jobId: 'job-123',
+    threadId: 'thread-1',
+    chunkIndex: 2,
+    paragraphIndex: 4,
+    side: 'translation',
+    comments: [
+      {
+        commentId: 'comment-1',
+        author: 'editor@example.com',
+        body: 'Too literal',
+        createdAt: '2026-03-02T08:00:00.000Z',
+      },
+    ],
+    resolved: false,
+    createdAt: '2026-03-02T08:00:00.000Z',
+    updatedAt: '2026-03-02T08:00:00.000Z',
+  };
+
+  it('lists the threads of a job', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({ data: { jobId: 'job-123', threads: [thread] } });
+
+    const result = await listComments('job-123');
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/comments');
+    expect(result.threads).toEqual([thread]);
+  });
+
+  it('opens a thread on a paragraph', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({ data: thread });
+
+    await createComment(
+      'job-123',
+      { chunkIndex: 2, paragraphIndex: 4, side: 'translation' },
+      'Too literal'
+    );
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-123/comments', {
+      chunkIndex: 2,
+      paragraphIndex: 4,
+      side: 'translation',
+      body: 'Too literal',
+    });
+  });
+
+  it('replies to a thread and resolves it', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({ data: thread });
+    mockedApiClient.put.mockResolvedValueOnce({ data: { ...thread, resolved: true } });
+
+    await replyToComment('job-123', 'thread-1', 'Agreed');
+    const resolved = await setCommentResolved('job-123', 'thread-1', true);
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-123/comments/thread-1/replies', {
+      body: 'Agreed',
+    });
+    expect(mockedApiClient.put).toHaveBeenCalledWith('/jobs/job-123/comments/thread-1/resolve', {
+      resolved: true,
+    });
+    expect(resolved.resolved).toBe(true);
+  });
+
+  it('wraps a full thread in a TranslationServiceError', async () => {
+    mockedApiClient.post.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: {
+        status: 409,
+        data: {
+          message: 'Thread thread-1 does not exist or already has 100 comments',
+          errorCode: 'THREAD_UNAVAILABLE',
+        },
+      },
+      message: 'Conflict',
+    } as AxiosError);
+
+    await expect(replyToComment('job-123', 'thread-1', 'Agreed')).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Thread thread-1 does not exist or already has 100 comments',
+    });
+  });
+
+  it('requests the review PDF with all comments unless told otherwise', async () => {
+    const envelope = {
+      format: 'pdf',
+      downloadUrl: 'https://s3.example.com/review',
+      expiresInSeconds: 900,
+      objectKey: 'translated-output/job-123/review.pdf',
+    };
+    mockedApiClient.get.mockResolvedValue({ data: envelope });
+
+    const result = await getReviewPdfUrl('job-123');
+    await getReviewPdfUrl('job-123', 'unresolved');
+
+    expect(result).toEqual(envelope);
+    expect(mockedApiClient.get).toHaveBeenNthCalledWith(1, '/jobs/job-123/review-pdf', {
+      params: { comments: 'all' },
+    });
+    expect(mockedApiClient.get).toHaveBeenNthCalledWith(2, '/jobs/job-123/review-pdf', {
+      params: { comments: 'unresolved' },
+    });
+  });
+});
+
+describe('TranslationService - getGlossaryReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getAuthToken as ReturnType<typeof vi.fn>).mockReturnValue('mock-token-123');
+  });
+
+  const report = {
+    jobId: 'job-123',
+    glossaryId: 'gloss-1',
+    glossaryName: 'Middle-earth',
+    totalChunks: 2,
+    termsFound: 1,
+    violationCount: 1,
+    chunks: [
+      {
+        chunkIndex: 1,
+        violationCount: 1,
+        terms: [
+          {
+            source: 'Mordor',
+            target: 'Mordor',
+            sourceOccurrences: 1,
+            targetOccurrences: 0,
+            compliant: false,
+          },
+        ],
+      },
+    ],
+    generatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('fetches the report for the job glossary when no override is given', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({ data: report });
+
+    const result = await getGlossaryReport('job-123');
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/glossary-report', undefined);
+    expect(result.chunks[0].chunkIndex).toBe(1);
+  });
+
+  it('forwards the glossaryId override as a query parameter', async () => {
+    mockedApiClient.get.mockResolvedValueOnce({ data: { ...report, glossaryId: 'gloss-2' } });
+
+    await getGlossaryReport('job-123', 'gloss-2');
+
+    expect(mockedApiClient.get).toHaveBeenCalledWith('/jobs/job-123/glossary-report', {
+      params: { glossaryId: 'gloss-2' },
+    });
+  });
+
+  it('wraps backend errors as TranslationServiceError', async () => {
+    mockedApiClient.get.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: {
+        status: 409,
+        data: { message: 'Translation not yet complete; current status: IN_PROGRESS' },
+      },
+      message: 'Conflict',
+    } as AxiosError);
+
+    await expect(getGlossaryReport('job-x')).rejects.toThrow('Translation not yet complete');
+  });
+
+  it('posts a submitted term list', async () => {
+    mockedApiClient.post.mockResolvedValueOnce({
+      data: { ...report, glossaryId: undefined, glossaryName: undefined },
+    });
+    const terms = [{ source: 'Mordor', target: 'Mordor' }];
+
+    const result = await checkGlossaryTerms('job-123', terms);
+
+    expect(mockedApiClient.post).toHaveBeenCalledWith('/jobs/job-123/glossary-report', { terms });
+    expect(result.violationCount).toBe(1);
+  });
 });
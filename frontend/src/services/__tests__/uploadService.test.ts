@@ -72,6 +72,19 @@ describe('uploadService', () => {
       });
     });
 
+    it('should declare the Word MIME type for a .docx the browser left untyped', async () => {
+      const mockFile = new File(['docx bytes'], 'manuscript.docx', { type: '' });
+      vi.spyOn(api.apiClient, 'post').mockResolvedValue({ data: { data: {} } });
+
+      await uploadService.requestUploadUrl(mockFile);
+
+      expect(api.apiClient.post).toHaveBeenCalledWith('/jobs/upload', {
+        fileName: 'manuscript.docx',
+        fileSize: mockFile.size,
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      });
+    });
+
     it('should handle API errors', async () => {
       // Arrange
       const mockFile = new File(['test'], 'test.txt', { type: 'text/plain' });
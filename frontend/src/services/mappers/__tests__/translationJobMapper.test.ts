@@ -43,6 +43,46 @@ describe('translationJobMapper.toTranslationJob', () => {
     expect(toTranslationJob(wire, FIXED_NOW).status).toBe('CHUNKED');
   });
 
+  it('carries the workflow status, which tells a running translation from a CHUNKED job', () => {
+    const wire: TranslationJobWire = {
+      jobId: 'job-1',
+      status: 'CHUNKED',
+      translationStatus: 'IN_PROGRESS',
+    };
+    expect(toTranslationJob(wire, FIXED_NOW).translationStatus).toBe('IN_PROGRESS');
+  });
+
+  it('passes the flagged chunks through', () => {
+    const flaggedChunks = [
+      {
+        chunkIndex: 1,
+        severity: 'MEDIUM' as const,
+        flags: [{ type: 'REPETITION' as const, severity: 'MEDIUM' as const, description: 'x' }],
+      },
+    ];
+    const wire: TranslationJobWire = { jobId: 'job-1', status: 'COMPLETED', flaggedChunks };
+    expect(toTranslationJob(wire, FIXED_NOW).flaggedChunks).toEqual(flaggedChunks);
+  });
+
+  it('passes the review through', () => {
+    const review = {
+      reviewerEmail: 'reviewer@example.com',
+      submittedAt: '2026-03-02T08:00:00.000Z',
+      approvedChunks: [0],
+      totalChunks: 2,
+    };
+    const wire: TranslationJobWire = { jobId: 'job-1', status: 'IN_REVIEW', review };
+    expect(toTranslationJob(wire, FIXED_NOW).review).toEqual(review);
+  });
+
+  it('passes the reviewer access flag through', () => {
+    const wire: TranslationJobWire = { jobId: 'job-1', status: 'IN_REVIEW', reviewerAccess: true };
+    expect(toTranslationJob(wire, FIXED_NOW).reviewerAccess).toBe(true);
+    expect(
+      toTranslationJob({ jobId: 'job-1', status: 'COMPLETED' }, FIXED_NOW).reviewerAccess
+    ).toBeUndefined();
+  });
+
   it('falls back to "" / 0 / now when optional fields are omitted', () => {
     const wire: TranslationJobWire = {
       jobId: 'job-1',
@@ -89,11 +129,12 @@ describe('translationJobMapper.toTranslationJob', () => {
     expect(fromMessage.errorMessage).toBe('fallback');
   });
 
-  it('passes through `targetLanguage`, `tone`, `failedChunks` verbatim', () => {
+  it('passes through `sourceLanguage`, `targetLanguage`, `tone`, `failedChunks` verbatim', () => {
     const job = toTranslationJob(
       {
         jobId: 'j',
         status: 'IN_PROGRESS',
+        sourceLanguage: 'fr',
         targetLanguage: 'es',
         tone: 'formal',
         failedChunks: 2,
@@ -102,6 +143,7 @@ describe('translationJobMapper.toTranslationJob', () => {
       },
       FIXED_NOW
     );
+    expect(job.sourceLanguage).toBe('fr');
     expect(job.targetLanguage).toBe('es');
     expect(job.tone).toBe('formal');
     expect(job.failedChunks).toBe(2);
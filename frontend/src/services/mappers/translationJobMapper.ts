@@ -19,7 +19,12 @@
  * projection. KISS / YAGNI.
  */
 
-import type { TranslationJobStatus } from '@lfmt/shared-types';
+import type {
+  FlaggedChunk,
+  ReviewSummary,
+  RevisionSummary,
+  TranslationJobStatus,
+} from '@lfmt/shared-types';
 import type { TranslationJob } from '../translationService';
 
 /**
@@ -37,6 +42,8 @@ export interface TranslationJobWire {
   fileSize?: number;
   contentType?: string;
   status: string;
+  /** Workflow status; `status` stays CHUNKED while a translation runs. */
+  translationStatus?: string;
   /**
    * Backend wire field name (#229: renamed from `chunksTranslated` to match DDB column).
    * Frontend model uses `completedChunks` — the ACL translation happens in toTranslationJob.
@@ -44,6 +51,9 @@ export interface TranslationJobWire {
   translatedChunks?: number;
   totalChunks?: number;
   failedChunks?: number;
+  flaggedChunks?: FlaggedChunk[];
+  /** Detected at chunking time (or overridden at translation start). */
+  sourceLanguage?: string;
   targetLanguage?: string;
   tone?: 'formal' | 'informal' | 'neutral';
   createdAt?: string;
@@ -52,6 +62,10 @@ export interface TranslationJobWire {
   completedAt?: string;
   error?: string;
   errorMessage?: string;
+  revision?: RevisionSummary;
+  review?: ReviewSummary;
+  /** Set when the caller is the assigned reviewer rather than the owner. */
+  reviewerAccess?: boolean;
 }
 
 /**
@@ -77,6 +91,8 @@ export function toTranslationJob(
     fileSize: wire.fileSize ?? 0,
     contentType: wire.contentType ?? '',
     status: wire.status as TranslationJobStatus,
+    translationStatus: wire.translationStatus,
+    sourceLanguage: wire.sourceLanguage,
     targetLanguage: wire.targetLanguage,
     tone: wire.tone,
     totalChunks: wire.totalChunks,
@@ -85,9 +101,13 @@ export function toTranslationJob(
     // This translation is the architectural reason the mapper exists.
     completedChunks: wire.translatedChunks,
     failedChunks: wire.failedChunks,
+    flaggedChunks: wire.flaggedChunks,
     createdAt: wire.createdAt ?? now,
     updatedAt: wire.translationCompletedAt ?? wire.updatedAt ?? wire.createdAt ?? now,
     completedAt: wire.translationCompletedAt ?? wire.completedAt,
     errorMessage: wire.error ?? wire.errorMessage,
+    revision: wire.revision,
+    review: wire.review,
+    reviewerAccess: wire.reviewerAccess,
   };
 }
@@ -7,13 +7,53 @@
 
 import axios from 'axios';
 import { apiClient } from '../utils/api';
-import { uploadToS3 } from './uploadService';
+import { uploadContentType, uploadToS3 } from './uploadService';
 import type {
+  CancelTranslationApiResponse,
+  CancelTranslationRequest,
+  ChapterListApiResponse,
+  ChunkReviewRequest,
+  ChunkVersionApiResponse,
+  ChunkVersionsApiResponse,
+  CommentAnchor,
+  CommentThreadApiResponse,
+  CreateCommentThreadRequest,
+  CreateRevisionApiResponse,
+  FlaggedChunk,
+  GlossaryReportApiResponse,
+  GlossaryReportRequest,
+  GlossaryTerm,
+  JobChunkApiResponse,
+  JobEditsApiResponse,
+  JobSourceApiResponse,
+  LanguageCode,
+  ListCommentThreadsApiResponse,
   OutputFormat,
+  PauseTranslationApiResponse,
+  PauseTranslationRequest,
   PresignedDownloadEnvelope,
   PresignedUrlApiResponse,
+  RecoverTranslationApiResponse,
+  RecoverTranslationRequest,
+  ReplyToCommentThreadRequest,
+  RequestChangesRequest,
+  ResolveCommentThreadRequest,
+  ResumeTranslationApiResponse,
+  ReviewApiResponse,
+  ReviewAssignmentsApiResponse,
+  ReviewPdfComments,
+  ReviewSummary,
+  RetranslateChunkApiResponse,
+  RetranslateChunkRequest,
+  RevisionSummary,
+  SaveChunkTranslationApiResponse,
+  SaveChunkTranslationRequest,
   StartTranslationApiResponse,
+  SubmitReviewRequest,
+  TranslationBriefMode,
+  TranslationContextMode,
   TranslationJobStatus,
+  TranslationProviderName,
   TranslationStatusApiResponse,
   ListJobsEnvelope,
 } from '@lfmt/shared-types';
@@ -46,15 +86,31 @@ export interface TranslationJob {
   fileSize: number;
   contentType: string;
   status: TranslationJobStatus;
+  /**
+   * Status of the translation workflow. `status` stays CHUNKED while it
+   * runs, so only this tells a running translation (IN_PROGRESS) from one
+   * that has not started.
+   */
+  translationStatus?: string;
+  /** ISO 639-1 code of the manuscript; absent when detection was inconclusive. */
+  sourceLanguage?: string;
   targetLanguage?: string;
   tone?: 'formal' | 'informal' | 'neutral';
   totalChunks?: number;
   completedChunks?: number;
   failedChunks?: number;
+  /** Chunks the automatic quality check flagged, in document order. */
+  flaggedChunks?: FlaggedChunk[];
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
   errorMessage?: string;
+  /** Set once a revised upload has been chunked and aligned with the previous revision. */
+  revision?: RevisionSummary;
+  /** Set once the translation has been submitted for review. */
+  review?: ReviewSummary;
+  /** Set when the caller is the assigned reviewer rather than the owner. */
+  reviewerAccess?: boolean;
 }
 
 /**
@@ -73,8 +129,24 @@ export interface LegalAttestation {
  * Translation Configuration
  */
 export interface TranslationConfig {
-  targetLanguage: 'es' | 'fr' | 'de' | 'it' | 'zh';
+  targetLanguage: LanguageCode;
   tone: 'formal' | 'informal' | 'neutral';
+  /** Optional project glossary enforced across every chunk of the job. */
+  glossaryId?: string;
+  /** LLM backend; the server defaults to (or keeps) the job's previous choice. */
+  provider?: TranslationProviderName;
+  /** Vendor model id, e.g. `gemini-2.5-flash`; must belong to `provider`. */
+  model?: string;
+  /**
+   * `sequential` translates one chunk at a time, each continuing from the
+   * previous chunks' translations — slower, but more consistent.
+   */
+  contextMode?: TranslationContextMode;
+  /**
+   * Character / style brief injected into every chunk prompt. `rolling`
+   * revises it after each chunk and needs the `sequential` context mode.
+   */
+  briefMode?: TranslationBriefMode;
 }
 
 /**
@@ -91,6 +163,11 @@ export interface UploadDocumentRequest {
 export interface StartTranslationRequest {
   targetLanguage: string;
   tone: string;
+  glossaryId?: string;
+  provider?: TranslationProviderName;
+  model?: string;
+  contextMode?: TranslationContextMode;
+  briefMode?: TranslationBriefMode;
 }
 
 /**
@@ -177,6 +254,12 @@ export type TranslationErrorCode =
   | 'FORBIDDEN' // 403 — retained for deployment-window forward-compat (#286 removed the backend emitter); also covers auth-handler 403s that are orthogonal to BOLA
   | 'INVALID_JOB_STATUS' // 400 — job not in CHUNKED status; cannot start translation
   | 'NO_CHUNKS_AVAILABLE' // 400 — job has no chunks; cannot start translation
+  | 'GLOSSARY_NOT_FOUND' // 404 — requested glossary does not exist OR is not owned by the caller
+  | 'SOURCE_LANGUAGE_MATCHES_TARGET' // 400 — document is already in the target language
+  | 'MODEL_PROVIDER_MISMATCH' // 400 — requested model does not belong to the provider
+  | 'ROLLING_BRIEF_REQUIRES_SEQUENTIAL' // 400 — briefMode 'rolling' without contextMode 'sequential'
+  // ---- Codes emitted by `backend/functions/jobs/recoverTranslation.ts` ----
+  | 'NO_FAILED_CHUNKS' // 400 — retry requested but every chunk has a translation
   | 'API_GENERIC'; // API / service error — fall through to status-code map
 
 /**
@@ -383,6 +466,11 @@ const KNOWN_TRANSLATION_ERROR_CODES: ReadonlySet<TranslationErrorCode> =
     'FORBIDDEN',
     'INVALID_JOB_STATUS',
     'NO_CHUNKS_AVAILABLE',
+    'GLOSSARY_NOT_FOUND',
+    'SOURCE_LANGUAGE_MATCHES_TARGET',
+    'MODEL_PROVIDER_MISMATCH',
+    'ROLLING_BRIEF_REQUIRES_SEQUENTIAL',
+    'NO_FAILED_CHUNKS',
   ]);
 
 function isKnownTranslationErrorCode(value: unknown): value is TranslationErrorCode {
@@ -407,7 +495,7 @@ export const uploadDocument = async (request: UploadDocumentRequest): Promise<Tr
     const presignedResponse = await apiClient.post<PresignedUrlApiResponse>('/jobs/upload', {
       fileName: request.file.name,
       fileSize: request.file.size,
-      contentType: request.file.type,
+      contentType: uploadContentType(request.file),
       legalAttestation: request.legalAttestation,
     });
 
@@ -459,6 +547,40 @@ export const uploadDocument = async (request: UploadDocumentRequest): Promise<Tr
   }
 };
 
+/**
+ * Upload a revised version of a completed job's source document.
+ *
+ * The job goes back through chunking (PENDING_UPLOAD → CHUNKED); once it
+ * is CHUNKED, `getJobStatus` reports how many chunks changed, and only
+ * those are translated (and billed) by the next `startTranslation`.
+ */
+export const uploadRevision = async (
+  jobId: string,
+  request: UploadDocumentRequest
+): Promise<{ jobId: string; revision: number }> => {
+  try {
+    const response = await apiClient.post<CreateRevisionApiResponse>(`/jobs/${jobId}/revisions`, {
+      fileName: request.file.name,
+      fileSize: request.file.size,
+      contentType: uploadContentType(request.file),
+      legalAttestation: request.legalAttestation,
+    });
+
+    const { uploadUrl, requiredHeaders, revision } = response.data;
+
+    // Same presigned-PUT contract as uploadDocument — requiredHeaders only.
+    try {
+      await uploadToS3(request.file, uploadUrl, requiredHeaders);
+    } catch (uploadError) {
+      throw wrapS3UploadError(uploadError);
+    }
+
+    return { jobId, revision };
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
 /**
  * Upload a document and wait until the backend chunking pipeline advances
  * the job to `CHUNKED` status before returning.
@@ -576,6 +698,11 @@ export const startTranslation = async (
     const response = await apiClient.post<StartTranslationApiResponse>(`/jobs/${jobId}/translate`, {
       targetLanguage: config.targetLanguage,
       tone: config.tone,
+      ...(config.glossaryId && { glossaryId: config.glossaryId }),
+      ...(config.provider && { provider: config.provider }),
+      ...(config.model && { model: config.model }),
+      ...(config.contextMode && { contextMode: config.contextMode }),
+      ...(config.briefMode && { briefMode: config.briefMode }),
     });
 
     const body = response.data;
@@ -603,6 +730,98 @@ export const startTranslation = async (
   }
 };
 
+/**
+ * Retry the chunks of a failed translation that have no translation yet.
+ * The other chunks keep theirs; the job reports IN_PROGRESS until the
+ * retried chunks are done.
+ *
+ * @param instructions - Optional instruction added to each retried chunk's prompt
+ * @returns The indexes of the chunks being retried
+ */
+export const retryFailedChunks = async (
+  jobId: string,
+  instructions?: string
+): Promise<number[]> => {
+  try {
+    const request: RecoverTranslationRequest = {
+      recoveryStrategy: 'RETRY',
+      ...(instructions && { parameters: { instructions } }),
+    };
+    const response = await apiClient.post<RecoverTranslationApiResponse>(
+      `/jobs/${jobId}/recover`,
+      request
+    );
+    return response.data.chunkIndexes;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Translate one chunk of a completed translation again, optionally with an
+ * instruction added to its prompt.
+ *
+ * @param chunkIndex - Zero-based index of the chunk
+ */
+export const retranslateChunk = async (
+  jobId: string,
+  chunkIndex: number,
+  instructions?: string
+): Promise<void> => {
+  try {
+    const request: RetranslateChunkRequest = instructions ? { instructions } : {};
+    await apiClient.post<RetranslateChunkApiResponse>(
+      `/jobs/${jobId}/chunks/${chunkIndex}/retranslate`,
+      request
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Pause a running translation. The chunks already translated are kept;
+ * `resumeTranslation` translates the rest.
+ */
+export const pauseTranslation = async (jobId: string, reason?: string): Promise<void> => {
+  try {
+    const request: PauseTranslationRequest = reason ? { reason } : {};
+    await apiClient.post<PauseTranslationApiResponse>(`/jobs/${jobId}/pause`, request);
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Resume a paused translation with the chunks it has not translated yet.
+ *
+ * @returns The indexes of the chunks being translated; empty when the
+ *   paused run had finished them all and the job is now complete
+ */
+export const resumeTranslation = async (jobId: string): Promise<number[]> => {
+  try {
+    const response = await apiClient.post<ResumeTranslationApiResponse>(
+      `/jobs/${jobId}/resume`,
+      {}
+    );
+    return response.data.chunkIndexes;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Cancel a running or paused translation for good.
+ */
+export const cancelTranslation = async (jobId: string, reason?: string): Promise<void> => {
+  try {
+    const request: CancelTranslationRequest = reason ? { reason } : {};
+    await apiClient.post<CancelTranslationApiResponse>(`/jobs/${jobId}/cancel`, request);
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
 /**
  * Get job status.
  *
@@ -686,11 +905,14 @@ export const getTranslationJobs = async (): Promise<TranslationJob[]> => {
  * For ePub/PDF, use `getDownloadUrl` instead — those formats are
  * delivered via a JSON envelope + presigned S3 URL because the bytes
  * routinely exceed API Gateway's 6 MB response cap.
+ *
+ * Pass `chapter` (1-based, from `listChapters`) to download one chapter.
  */
-export const downloadTranslation = async (jobId: string): Promise<Blob> => {
+export const downloadTranslation = async (jobId: string, chapter?: number): Promise<Blob> => {
   try {
     const response = await apiClient.get(`/jobs/${jobId}/download`, {
       responseType: 'blob',
+      ...(chapter !== undefined && { params: { chapter } }),
     });
 
     return response.data;
@@ -700,7 +922,7 @@ export const downloadTranslation = async (jobId: string): Promise<Blob> => {
 };
 
 /**
- * Request a presigned-URL download for ePub or PDF output (issue #28).
+ * Request a presigned-URL download for ePub, PDF or Word output (issue #28).
  *
  * The backend lazily generates the requested format (or reuses a cached
  * artefact) and returns a short-lived presigned S3 URL inside a JSON
@@ -713,16 +935,342 @@ export const downloadTranslation = async (jobId: string): Promise<Blob> => {
  * output (no extra round-trip + works for casual clients that don't
  * want to navigate away).
  *
+ * `chapter` (1-based) narrows the output to a single chapter.
+ *
  * @throws {TranslationServiceError} — API failures (404 / 409 / 500)
  *   are wrapped just like other endpoints.
  */
 export const getDownloadUrl = async (
   jobId: string,
-  format: Exclude<OutputFormat, 'markdown'>
+  format: Exclude<OutputFormat, 'markdown'>,
+  chapter?: number
 ): Promise<PresignedDownloadEnvelope> => {
   try {
     const response = await apiClient.get<PresignedDownloadEnvelope>(`/jobs/${jobId}/download`, {
-      params: { format },
+      params: chapter !== undefined ? { format, chapter } : { format },
+    });
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * List the chapters of a completed translation — the same chapters, in the
+ * same order, as the ePub export. Each `number` can be passed as `chapter`
+ * to `downloadTranslation` / `getDownloadUrl`.
+ *
+ * @throws {TranslationServiceError} — 400 (subtitle job), 404, 409 (job
+ *   not COMPLETED) and 500 are wrapped just like other endpoints.
+ */
+export const listChapters = async (jobId: string): Promise<ChapterListApiResponse> => {
+  try {
+    const response = await apiClient.get<ChapterListApiResponse>(`/jobs/${jobId}/chapters`);
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Request a presigned download of the job's source document (the current
+ * revision). Follow `downloadUrl` right away; it expires after 15 minutes.
+ *
+ * @throws {TranslationServiceError} — 404, 409 (upload not validated yet)
+ *   and 500 are wrapped just like other endpoints.
+ */
+export const getSourceDocument = async (jobId: string): Promise<JobSourceApiResponse> => {
+  try {
+    const response = await apiClient.get<JobSourceApiResponse>(`/jobs/${jobId}/source`);
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Fetch one chunk's source text with its translation (null until the
+ * chunk is translated) and paragraph alignment, so a document can be
+ * compared a chunk at a time.
+ *
+ * @param chunkIndex - Zero-based index of the chunk
+ * @throws {TranslationServiceError} — 400, 404 (job or chunk) and 500 are
+ *   wrapped just like other endpoints.
+ */
+export const getChunk = async (jobId: string, chunkIndex: number): Promise<JobChunkApiResponse> => {
+  try {
+    const response = await apiClient.get<JobChunkApiResponse>(
+      `/jobs/${jobId}/chunks/${chunkIndex}`
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Save an edited translation of one chunk. The backend stores it as the
+ * chunk's next version and keeps the machine translation.
+ *
+ * @param chunkIndex - Zero-based index of the chunk
+ * @throws {TranslationServiceError} — 400, 404 and 409 (EDIT_CONFLICT:
+ *   `request.baseVersion` is no longer the current version) are wrapped
+ *   just like other endpoints.
+ */
+export const saveChunkTranslation = async (
+  jobId: string,
+  chunkIndex: number,
+  request: SaveChunkTranslationRequest
+): Promise<SaveChunkTranslationApiResponse> => {
+  try {
+    const response = await apiClient.put<SaveChunkTranslationApiResponse>(
+      `/jobs/${jobId}/chunks/${chunkIndex}/translation`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * List a chunk's versions, oldest first: every machine translation written
+ * for it and every edit saved in the viewer.
+ *
+ * @param chunkIndex - Zero-based index of the chunk
+ */
+export const getChunkVersions = async (
+  jobId: string,
+  chunkIndex: number
+): Promise<ChunkVersionsApiResponse> => {
+  try {
+    const response = await apiClient.get<ChunkVersionsApiResponse>(
+      `/jobs/${jobId}/chunks/${chunkIndex}/versions`
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Fetch the text of one version listed by getChunkVersions.
+ *
+ * @throws {TranslationServiceError} — 404 VERSION_NOT_FOUND once an old
+ *   machine translation has expired from the bucket.
+ */
+export const getChunkVersion = async (
+  jobId: string,
+  chunkIndex: number,
+  versionId: string
+): Promise<ChunkVersionApiResponse> => {
+  try {
+    const response = await apiClient.get<ChunkVersionApiResponse>(
+      `/jobs/${jobId}/chunks/${chunkIndex}/versions/${encodeURIComponent(versionId)}`
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Fetch what was saved with every edit of a job (author, time, note, word
+ * counts), by chunk then version — the data behind the edit export.
+ */
+export const getJobEdits = async (jobId: string): Promise<JobEditsApiResponse> => {
+  try {
+    const response = await apiClient.get<JobEditsApiResponse>(`/jobs/${jobId}/edits`);
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Submit a completed translation for review by `reviewerEmail`. A
+ * translation with changes requested is resubmitted the same way; the
+ * parts already approved stay approved.
+ *
+ * @throws {TranslationServiceError} — 400 (invalid email, or the job is
+ *   not COMPLETED / CHANGES_REQUESTED) and 409 are wrapped just like
+ *   other endpoints.
+ */
+export const submitReview = async (
+  jobId: string,
+  reviewerEmail: string
+): Promise<ReviewApiResponse> => {
+  try {
+    const request: SubmitReviewRequest = { reviewerEmail };
+    const response = await apiClient.post<ReviewApiResponse>(
+      `/jobs/${jobId}/review/submit`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Approve one part of a translation in review, or withdraw its approval.
+ *
+ * @param chunkIndex - Zero-based index of the chunk
+ */
+export const setChunkReview = async (
+  jobId: string,
+  chunkIndex: number,
+  approved: boolean
+): Promise<ReviewApiResponse> => {
+  try {
+    const request: ChunkReviewRequest = { approved };
+    const response = await apiClient.put<ReviewApiResponse>(
+      `/jobs/${jobId}/chunks/${chunkIndex}/review`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/** Send a translation in review back with an optional comment. */
+export const requestReviewChanges = async (
+  jobId: string,
+  comment?: string
+): Promise<ReviewApiResponse> => {
+  try {
+    const request: RequestChangesRequest = comment ? { comment } : {};
+    const response = await apiClient.post<ReviewApiResponse>(
+      `/jobs/${jobId}/review/request-changes`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Approve a translation in review.
+ *
+ * @throws {TranslationServiceError} — 409 REVIEW_INCOMPLETE while a part
+ *   is not approved.
+ */
+export const approveReview = async (jobId: string): Promise<ReviewApiResponse> => {
+  try {
+    const response = await apiClient.post<ReviewApiResponse>(`/jobs/${jobId}/review/approve`);
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * List the translations the caller was asked to review (matched on their
+ * verified email), most recently submitted first.
+ */
+export const listReviewAssignments = async (): Promise<ReviewAssignmentsApiResponse> => {
+  try {
+    const response = await apiClient.get<ReviewAssignmentsApiResponse>('/reviews');
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * List the comment threads of a job, in document order (chunk, then side,
+ * then paragraph).
+ */
+export const listComments = async (jobId: string): Promise<ListCommentThreadsApiResponse> => {
+  try {
+    const response = await apiClient.get<ListCommentThreadsApiResponse>(`/jobs/${jobId}/comments`);
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Open a comment thread on a paragraph of a completed translation.
+ *
+ * @throws {TranslationServiceError} — 400 (empty or too long comment,
+ *   invalid chunk, or the translation is not complete) and 404 are
+ *   wrapped just like other endpoints.
+ */
+export const createComment = async (
+  jobId: string,
+  anchor: CommentAnchor,
+  body: string
+): Promise<CommentThreadApiResponse> => {
+  try {
+    const request: CreateCommentThreadRequest = { ...anchor, body };
+    const response = await apiClient.post<CommentThreadApiResponse>(
+      `/jobs/${jobId}/comments`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Reply to a comment thread.
+ *
+ * @throws {TranslationServiceError} — 409 THREAD_UNAVAILABLE when the
+ *   thread is gone or full.
+ */
+export const replyToComment = async (
+  jobId: string,
+  threadId: string,
+  body: string
+): Promise<CommentThreadApiResponse> => {
+  try {
+    const request: ReplyToCommentThreadRequest = { body };
+    const response = await apiClient.post<CommentThreadApiResponse>(
+      `/jobs/${jobId}/comments/${threadId}/replies`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/** Resolve a comment thread, or reopen it. */
+export const setCommentResolved = async (
+  jobId: string,
+  threadId: string,
+  resolved: boolean
+): Promise<CommentThreadApiResponse> => {
+  try {
+    const request: ResolveCommentThreadRequest = { resolved };
+    const response = await apiClient.put<CommentThreadApiResponse>(
+      `/jobs/${jobId}/comments/${threadId}/resolve`,
+      request
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Request a presigned download of the review PDF: the translation with its
+ * comment threads as margin notes. Follow `downloadUrl` right away; it
+ * expires after 15 minutes.
+ *
+ * @param comments - `'unresolved'` leaves resolved threads out
+ */
+export const getReviewPdfUrl = async (
+  jobId: string,
+  comments: ReviewPdfComments = 'all'
+): Promise<PresignedDownloadEnvelope> => {
+  try {
+    const response = await apiClient.get<PresignedDownloadEnvelope>(`/jobs/${jobId}/review-pdf`, {
+      params: { comments },
     });
     return response.data;
   } catch (error) {
@@ -730,6 +1278,55 @@ export const getDownloadUrl = async (
   }
 };
 
+/**
+ * Fetch the glossary compliance report for a completed job.
+ *
+ * Without `glossaryId` the backend checks against the glossary the job was
+ * translated with. Each entry in `chunks` carries a `chunkIndex` so the
+ * caller can link straight to the offending chunk.
+ *
+ * @throws {TranslationServiceError} — 400 (no glossary), 404, 409 (job not
+ *   COMPLETED) and 500 are wrapped just like other endpoints.
+ */
+export const getGlossaryReport = async (
+  jobId: string,
+  glossaryId?: string
+): Promise<GlossaryReportApiResponse> => {
+  try {
+    const response = await apiClient.get<GlossaryReportApiResponse>(
+      `/jobs/${jobId}/glossary-report`,
+      glossaryId ? { params: { glossaryId } } : undefined
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Check a completed job against a term list that need not be saved as a
+ * glossary. The report has the same shape as getGlossaryReport's, without
+ * a glossary id or name.
+ *
+ * @throws {TranslationServiceError} — 400 (invalid term list), 404, 409 and
+ *   500 are wrapped just like other endpoints.
+ */
+export const checkGlossaryTerms = async (
+  jobId: string,
+  terms: GlossaryTerm[]
+): Promise<GlossaryReportApiResponse> => {
+  try {
+    const body: GlossaryReportRequest = { terms };
+    const response = await apiClient.post<GlossaryReportApiResponse>(
+      `/jobs/${jobId}/glossary-report`,
+      body
+    );
+    return response.data;
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
 /**
  * Get user's IP address for legal attestation
  * Note: IP address is now captured on the backend from request headers
@@ -768,11 +1365,36 @@ export const createLegalAttestation = async (
 export const translationService = {
   uploadDocument,
   uploadAndAwaitChunked,
+  uploadRevision,
   startTranslation,
+  retryFailedChunks,
+  retranslateChunk,
+  pauseTranslation,
+  resumeTranslation,
+  cancelTranslation,
   getJobStatus,
   getTranslationJobs,
   downloadTranslation,
   getDownloadUrl,
+  listChapters,
+  getSourceDocument,
+  getChunk,
+  saveChunkTranslation,
+  getChunkVersions,
+  getChunkVersion,
+  getJobEdits,
+  submitReview,
+  setChunkReview,
+  requestReviewChanges,
+  approveReview,
+  listReviewAssignments,
+  listComments,
+  createComment,
+  replyToComment,
+  setCommentResolved,
+  getReviewPdfUrl,
+  getGlossaryReport,
+  checkGlossaryTerms,
   getUserIPAddress,
   createLegalAttestation,
 };
@@ -11,6 +11,7 @@
 
 import { apiClient } from '../utils/api';
 import type { PresignedUrlApiResponse, PresignedUrlRequest } from '@lfmt/shared-types';
+import { expectedContentType } from '@lfmt/shared-types';
 import { stripBrowserForbiddenHeaders } from '../utils/headerFilters';
 
 /**
@@ -54,6 +55,15 @@ export interface UploadResult {
   error?: string;
 }
 
+/**
+ * Content type to declare for an upload. Browsers without Word installed
+ * often report an empty `File.type` for `.docx`, so the type is derived
+ * from the extension when the backend would accept the file.
+ */
+export function uploadContentType(file: File): string {
+  return expectedContentType(file.name) ?? file.type;
+}
+
 /**
  * Request presigned URL from backend
  *
@@ -65,7 +75,7 @@ export async function requestUploadUrl(file: File): Promise<UploadRequestResult>
   const request: PresignedUrlRequest = {
     fileName: file.name,
     fileSize: file.size,
-    contentType: file.type,
+    contentType: uploadContentType(file),
   };
 
   // POST /jobs/upload returns the `{message, data: PresignedUrlResponse}`
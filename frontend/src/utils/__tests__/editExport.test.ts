@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { editsToCsv } from '../editExport';
+
+describe('editsToCsv', () => {
+  it('writes one row per edit with 1-based part numbers', () => {
+    const csv = editsToCsv([
+      {
+        chunkIndex: 0,
+        version: 2,
+        baseVersion: 1,
+        author: 'user-123',
+        savedAt: '2026-03-02T09:00:00.000Z',
+        wordCount: 120,
+        wordsAdded: 4,
+        wordsRemoved: 3,
+        note: 'Names, "as agreed"',
+      },
+      { chunkIndex: 4, version: 1, baseVersion: 0, author: 'user-123', savedAt: '2026-03-03' },
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Part,Version,Based on version,Author,Saved at,Words,Words added,Words removed,Note',
+      '1,2,1,user-123,2026-03-02T09:00:00.000Z,120,4,3,"Names, ""as agreed"""',
+      '5,1,0,user-123,2026-03-03,,,,',
+      '',
+    ]);
+  });
+
+  it('keeps a note from being read as a spreadsheet formula', () => {
+    const csv = editsToCsv([
+      { chunkIndex: 0, version: 1, baseVersion: 0, author: 'u', savedAt: 's', note: '=SUM(A1)' },
+    ]);
+
+    expect(csv).toContain(",'=SUM(A1)\r\n");
+  });
+});
@@ -11,7 +11,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { LANGUAGE_LABELS, TONE_LABELS, getLanguageLabel, getToneLabel } from '../translationLabels';
+import {
+  LANGUAGE_LABELS,
+  TONE_LABELS,
+  getLanguageLabel,
+  getTextDirection,
+  getToneLabel,
+} from '../translationLabels';
 
 describe('LANGUAGE_LABELS table', () => {
   it('exposes the dropdown-derived languages', () => {
@@ -23,11 +29,6 @@ describe('LANGUAGE_LABELS table', () => {
     expect(LANGUAGE_LABELS.de).toBe('German (Deutsch)');
     expect(LANGUAGE_LABELS.it).toBe('Italian (Italiano)');
     expect(LANGUAGE_LABELS.zh).toBe('Chinese (中文)');
-  });
-
-  it('includes the legacy English alias not present in the dropdown', () => {
-    // 'en' is an extension on top of the derived map — it appears in
-    // legacy DDB rows but is not selectable from the wizard.
     expect(LANGUAGE_LABELS.en).toBe('English');
   });
 });
@@ -71,6 +72,22 @@ describe('getLanguageLabel', () => {
   });
 });
 
+describe('getTextDirection', () => {
+  it.each([
+    ['ar', 'rtl'],
+    ['he', 'rtl'],
+    ['es', 'ltr'],
+    ['zh', 'ltr'],
+  ])('resolves "%s" → %s', (code, expected) => {
+    expect(getTextDirection(code)).toBe(expected);
+  });
+
+  it('defaults to ltr for unknown or missing codes', () => {
+    expect(getTextDirection('xx')).toBe('ltr');
+    expect(getTextDirection(undefined)).toBe('ltr');
+  });
+});
+
 describe('getToneLabel', () => {
   it.each([
     ['formal', 'Formal'],
@@ -0,0 +1,40 @@
+/**
+ * Edit export — turns GET /jobs/{jobId}/edits into a CSV file for
+ * translator-payment accounting. Parts are numbered from 1, as everywhere
+ * else in the UI; versions are the numbers shown in the edit history.
+ */
+
+import type { ChunkEditRecord } from '@lfmt/shared-types';
+
+const COLUMNS: Array<[header: string, value: (edit: ChunkEditRecord) => unknown]> = [
+  ['Part', (edit) => edit.chunkIndex + 1],
+  ['Version', (edit) => edit.version],
+  ['Based on version', (edit) => edit.baseVersion],
+  ['Author', (edit) => edit.author],
+  ['Saved at', (edit) => edit.savedAt],
+  ['Words', (edit) => edit.wordCount],
+  ['Words added', (edit) => edit.wordsAdded],
+  ['Words removed', (edit) => edit.wordsRemoved],
+  ['Note', (edit) => edit.note],
+];
+
+/**
+ * RFC 4180 field: quoted when it holds a comma, quote or line break. A
+ * leading `=`, `+`, `-` or `@` is prefixed with `'` so a spreadsheet does
+ * not run a note as a formula.
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The edits as CSV, one row per edit, with a header row. */
+export function editsToCsv(edits: readonly ChunkEditRecord[]): string {
+  const rows = [
+    COLUMNS.map(([header]) => header),
+    ...edits.map((edit) => COLUMNS.map(([, value]) => csvField(value(edit)))),
+  ];
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
@@ -86,6 +86,16 @@ const COPY_BY_CODE: Record<
     "This translation isn't ready to start yet — please wait for processing to finish and try again.",
   NO_CHUNKS_AVAILABLE:
     "This document couldn't be prepared for translation — please re-upload it and try again.",
+  GLOSSARY_NOT_FOUND:
+    "We couldn't find the selected glossary — please choose another one and try again.",
+  SOURCE_LANGUAGE_MATCHES_TARGET:
+    'This document already appears to be in the language you selected — please choose a different target language.',
+  MODEL_PROVIDER_MISMATCH:
+    "The selected model isn't offered by that provider — please choose another model and try again.",
+  ROLLING_BRIEF_REQUIRES_SEQUENTIAL:
+    'An updating brief needs one-chunk-at-a-time translation — please turn on sequential context.',
+  NO_FAILED_CHUNKS:
+    'Every part of this document is already translated — retranslate a part instead of retrying.',
 };
 
 const STATUS_MESSAGES: Record<number, string> = {
@@ -20,6 +20,7 @@
  * without picking up its label here.
  */
 
+import { getLanguage, type TextDirection } from '@lfmt/shared-types';
 import {
   LANGUAGE_OPTIONS,
   TONE_OPTIONS,
@@ -47,14 +48,12 @@ const DERIVED_TONE_LABELS: Record<ToneCode, string> = Object.fromEntries(
  * may carry codes outside the dropdown's enum (legacy rows, future
  * languages), and the resolver helpers below handle that gracefully.
  *
- * Aliases (e.g. `en`, `casual`) extend the derived map with display
+ * Aliases (e.g. `casual`) extend the derived map with display
  * fallbacks for codes that exist in stored data but are NOT present in
  * the dropdown.
  */
 export const LANGUAGE_LABELS: Record<string, string> = {
   ...DERIVED_LANGUAGE_LABELS,
-  // Alias: some legacy rows from before the dropdown existed used 'en'.
-  en: 'English',
 };
 
 export const TONE_LABELS: Record<string, string> = {
@@ -74,6 +73,14 @@ export function getLanguageLabel(code: string | undefined | null): string {
   return LANGUAGE_LABELS[code] ?? code;
 }
 
+/**
+ * Resolve a language code to its writing direction via the shared
+ * LANGUAGE_REGISTRY. Unknown or missing codes read left-to-right.
+ */
+export function getTextDirection(code: string | undefined | null): TextDirection {
+  return (code && getLanguage(code)?.direction) || 'ltr';
+}
+
 /**
  * Resolve a tone code to its display label. Same fallback policy as
  * `getLanguageLabel`. Capitalizes the first character of unknown codes
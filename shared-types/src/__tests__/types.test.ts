@@ -11,6 +11,21 @@ import {
   legalAttestationPayloadSchema,
   legalAttestationRecordSchema,
   ATTESTATION_VERSION,
+  LANGUAGE_REGISTRY,
+  LANGUAGE_CODES,
+  isLanguageCode,
+  getLanguage,
+  fileValidationSchema,
+  DOCX_CONTENT_TYPE,
+  EPUB_CONTENT_TYPE,
+  SRT_CONTENT_TYPE,
+  VTT_CONTENT_TYPE,
+  expectedContentType,
+  OUTPUT_FORMAT_CONTENT_TYPES,
+  isOutputFormat,
+  diffWords,
+  countWords,
+  countWordChanges,
 } from '../index';
 
 describe('Shared Types Validation', () => {
@@ -225,6 +240,54 @@ describe('Shared Types Validation', () => {
     });
   });
 
+  describe('Upload file validation', () => {
+    test.each([
+      ['manuscript.txt', 'text/plain'],
+      ['manuscript.docx', DOCX_CONTENT_TYPE],
+      ['novel.epub', EPUB_CONTENT_TYPE],
+      ['episode-01.srt', SRT_CONTENT_TYPE],
+      ['episode-01.vtt', VTT_CONTENT_TYPE],
+    ])('fileValidationSchema accepts %s', (filename, contentType) => {
+      const result = fileValidationSchema.safeParse({ filename, fileSize: 5000, contentType });
+      expect(result.success).toBe(true);
+    });
+
+    test('fileValidationSchema rejects a content type that does not match the extension', () => {
+      const result = fileValidationSchema.safeParse({
+        filename: 'manuscript.docx',
+        fileSize: 5000,
+        contentType: 'text/plain',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    test('fileValidationSchema rejects legacy .doc files', () => {
+      const result = fileValidationSchema.safeParse({
+        filename: 'manuscript.doc',
+        fileSize: 5000,
+        contentType: 'application/msword',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    test('expectedContentType matches extensions case-insensitively', () => {
+      expect(expectedContentType('Draft.DOCX')).toBe(DOCX_CONTENT_TYPE);
+      expect(expectedContentType('notes.pdf')).toBeUndefined();
+    });
+
+    test('docx is a download format with the Word MIME type', () => {
+      expect(isOutputFormat('docx')).toBe(true);
+      expect(OUTPUT_FORMAT_CONTENT_TYPES.docx).toBe(DOCX_CONTENT_TYPE);
+    });
+
+    test('srt and vtt are download formats with the subtitle MIME types', () => {
+      expect(isOutputFormat('srt')).toBe(true);
+      expect(isOutputFormat('vtt')).toBe(true);
+      expect(OUTPUT_FORMAT_CONTENT_TYPES.srt).toBe(SRT_CONTENT_TYPE);
+      expect(OUTPUT_FORMAT_CONTENT_TYPES.vtt).toBe(VTT_CONTENT_TYPE);
+    });
+  });
+
   describe('Legal Attestation Write-Path Schemas (OpenSpec task 3.8.0)', () => {
     test('ATTESTATION_VERSION is a stable, non-empty string', () => {
       expect(typeof ATTESTATION_VERSION).toBe('string');
@@ -314,4 +377,68 @@ describe('Shared Types Validation', () => {
       expect(legalAttestationRecordSchema.safeParse(record).success).toBe(false);
     });
   });
+
+  describe('Language registry', () => {
+    test('codes are unique ISO 639-1 codes', () => {
+      expect(new Set(LANGUAGE_CODES).size).toBe(LANGUAGE_REGISTRY.length);
+      LANGUAGE_CODES.forEach((code) => expect(code).toMatch(/^[a-z]{2}$/));
+    });
+
+    test('covers the launch languages plus ja, ko, pt, ru, ar, he', () => {
+      ['en', 'es', 'fr', 'de', 'it', 'zh', 'ja', 'ko', 'pt', 'ru', 'ar', 'he'].forEach((code) => {
+        expect(isLanguageCode(code)).toBe(true);
+      });
+      expect(isLanguageCode('xx')).toBe(false);
+    });
+
+    test('marks exactly the Arabic- and Hebrew-script languages as right-to-left', () => {
+      const rtl = LANGUAGE_REGISTRY.filter((language) => language.direction === 'rtl');
+      expect(rtl.map((language) => language.code)).toEqual(['ar', 'he']);
+    });
+
+    test('getLanguage resolves registry entries and rejects unknown codes', () => {
+      expect(getLanguage('ja')).toMatchObject({ englishName: 'Japanese', script: 'Jpan' });
+      expect(getLanguage('ja')?.epubHyphenationCode).toBeNull();
+      expect(getLanguage('de')?.epubHyphenationCode).toBe('de-1996');
+      expect(getLanguage('xx')).toBeUndefined();
+    });
+  });
+  describe('Word diff', () => {
+    test('marks the words an edit replaced and keeps the rest equal', () => {
+      expect(diffWords('The rain fell all night.', 'The rain came down all night.')).toEqual([
+        { operation: 'equal', text: 'The rain ', words: 2 },
+        { operation: 'removed', text: 'fell ', words: 1 },
+        { operation: 'added', text: 'came down ', words: 2 },
+        { operation: 'equal', text: 'all night.', words: 2 },
+      ]);
+    });
+
+    test('ignores re-wrapped whitespace', () => {
+      expect(diffWords('one two\nthree', 'one  two three')).toEqual([
+        { operation: 'equal', text: 'one  two three', words: 3 },
+      ]);
+    });
+
+    test('diffs Chinese and Japanese a character at a time', () => {
+      expect(countWords('雨が降った')).toBe(5);
+      expect(countWordChanges('雨が降った', '雪が降った')).toEqual({
+        wordsAdded: 1,
+        wordsRemoved: 1,
+      });
+    });
+
+    test('reassembles both texts from the parts', () => {
+      const before = 'a b c d e f g h';
+      const after = 'x a c d y f g h z';
+      const parts = diffWords(before, after);
+      const join = (skip: string) =>
+        parts
+          .filter((part) => part.operation !== skip)
+          .map((part) => part.text.trim())
+          .join(' ');
+      expect(join('added')).toBe(before);
+      expect(join('removed')).toBe(after);
+      expect(countWordChanges(before, after)).toEqual({ wordsAdded: 3, wordsRemoved: 2 });
+    });
+  });
 });
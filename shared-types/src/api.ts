@@ -1,5 +1,4 @@
-// API Types - From Document 3 (API Gateway & Lambda Functions) and Document 5 (Claude API Integration)
-import { z } from 'zod';
+// API Types - From Document 3 (API Gateway & Lambda Functions)
 
 // Generic API Response.
 //
@@ -34,51 +33,27 @@ export interface ApiMetadata {
   processingTime: number;
 }
 
-// Claude API Integration
-export interface ClaudeTranslationRequest {
-  chunkId: string;
-  content: string;
-  targetLanguage: string;
-  contextWindow?: {
-    preceding: string;
-    following: string;
-  };
-  translationHints?: TranslationHint[];
-  retryAttempt?: number;
-}
-
-export interface TranslationHint {
-  type: 'terminology' | 'style' | 'context';
-  hint: string;
-  priority: 'LOW' | 'MEDIUM' | 'HIGH';
-}
+export type QualityFlagType =
+  | 'INCONSISTENCY'
+  | 'UNTRANSLATED_SEGMENT'
+  | 'FORMATTING_LOSS'
+  | 'CONTEXT_BREAK'
+  // Produced by the automatic per-chunk check (translation/qualityCheck.ts)
+  | 'LENGTH_RATIO'
+  | 'DROPPED_PARAGRAPHS'
+  | 'REPETITION'
+  | 'TRUNCATED';
 
-export interface ClaudeTranslationResponse {
-  chunkId: string;
-  translatedContent: string;
-  confidence: number; // 0-1 quality score
-  tokenUsage: {
-    inputTokens: number;
-    outputTokens: number;
-    cost: number;
-  };
-  processingTime: number;
-  claudeModel: string;
-  translationMetadata: {
-    detectedLanguage?: string;
-    preservedFormatting: string[];
-    qualityFlags: QualityFlag[];
-  };
-}
+export type QualityFlagSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
 
 export interface QualityFlag {
-  type: 'INCONSISTENCY' | 'UNTRANSLATED_SEGMENT' | 'FORMATTING_LOSS' | 'CONTEXT_BREAK';
-  severity: 'LOW' | 'MEDIUM' | 'HIGH';
+  type: QualityFlagType;
+  severity: QualityFlagSeverity;
   description: string;
   chunkPosition?: number;
 }
 
-// Claude API Usage Tracking
+// Translation API Usage Tracking
 export interface UsageRequest {
   timeRange: 'hour' | 'day' | 'month';
   startDate?: string;
@@ -172,7 +147,7 @@ export interface CostEstimationRequest {
 export interface CostEstimationResponse {
   estimatedCost: number;
   breakdown: {
-    claudeAPICost: number;
+    translationAPICost: number;
     awsInfrastructureCost: number;
   };
   processingTime: {
@@ -192,26 +167,3 @@ export type JobStatus =
   | 'FAILED'
   | 'CANCELLED'
   | 'RESUMED';
-
-// Validation Schemas
-export const claudeTranslationRequestSchema = z.object({
-  chunkId: z.string().uuid(),
-  content: z.string().min(1),
-  targetLanguage: z.enum(['spanish', 'french', 'italian', 'german', 'chinese']),
-  contextWindow: z
-    .object({
-      preceding: z.string(),
-      following: z.string(),
-    })
-    .optional(),
-  translationHints: z
-    .array(
-      z.object({
-        type: z.enum(['terminology', 'style', 'context']),
-        hint: z.string(),
-        priority: z.enum(['LOW', 'MEDIUM', 'HIGH']),
-      })
-    )
-    .optional(),
-  retryAttempt: z.number().min(0).max(3).optional(),
-});
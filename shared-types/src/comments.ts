@@ -0,0 +1,127 @@
+// Comment Types — threaded review comments on the paragraphs of a translation.
+//
+// Reviewers comment on one paragraph of the source or of the translation in
+// the side-by-side viewer. Threads are stored in the Comments DynamoDB table
+// (jobId HASH + threadId RANGE) and anchored by position — chunk index plus
+// paragraph index — rather than by text, so a thread stays on its paragraph
+// when the chunk is retranslated or edited. The review PDF export prints them
+// as margin notes beside the paragraphs they are anchored to.
+import { z } from 'zod';
+
+/** Longest comment accepted, in characters. */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Most comments in one thread, the first included.
+ *
+ * Rationale: a thread is one DynamoDB item (400 KB item limit); 100
+ * comments at MAX_COMMENT_LENGTH stay well under it.
+ */
+export const MAX_THREAD_COMMENTS = 100;
+
+/** The pane of the side-by-side viewer a thread is anchored in. */
+export type CommentSide = 'source' | 'translation';
+
+/**
+ * Where a thread is anchored.
+ *
+ * On the source side `paragraphIndex` counts the chunk's source paragraphs;
+ * on the translation side it counts the viewer's translated rows, which
+ * pair up with the source paragraphs once the chunk is aligned — so a
+ * translation thread survives a retranslation that splits or merges
+ * paragraphs differently.
+ */
+export interface CommentAnchor {
+  /** 0-based chunk index — matches `translated/{jobId}/chunk-{N}.txt`. */
+  chunkIndex: number;
+  /** 0-based paragraph index within the chunk. */
+  paragraphIndex: number;
+  side: CommentSide;
+}
+
+/** One comment of a thread. */
+export interface JobComment {
+  commentId: string;
+  /** Email of the author, or the user id when the token carried none. */
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * DynamoDB Comment Thread Record.
+ * Composite primary key (jobId HASH + threadId RANGE) so GET
+ * /jobs/{jobId}/comments is a single Query; ownership is checked on the job.
+ */
+export interface CommentThread extends CommentAnchor {
+  jobId: string;
+  threadId: string;
+  /** Oldest first; the first comment opened the thread. */
+  comments: JobComment[];
+  resolved: boolean;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Request body for POST /jobs/{jobId}/comments: open a thread. */
+export interface CreateCommentThreadRequest extends CommentAnchor {
+  body: string;
+}
+
+/** Request body for POST /jobs/{jobId}/comments/{threadId}/replies. */
+export interface ReplyToCommentThreadRequest {
+  body: string;
+}
+
+/** Request body for PUT /jobs/{jobId}/comments/{threadId}/resolve. */
+export interface ResolveCommentThreadRequest {
+  resolved: boolean;
+}
+
+/**
+ * Response body returned by POST /jobs/{jobId}/comments, POST
+ * .../{threadId}/replies and PUT .../{threadId}/resolve: the whole thread
+ * after the change. Flat shape (no `data` wrapper).
+ */
+export interface CommentThreadApiResponse extends CommentThread {
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Response body returned by GET /jobs/{jobId}/comments: every thread of
+ * the job, in document order (chunk, then side, then paragraph, then
+ * creation time).
+ */
+export interface ListCommentThreadsApiResponse {
+  jobId: string;
+  threads: CommentThread[];
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Which threads GET /jobs/{jobId}/review-pdf prints as margin notes.
+ * @default 'all'
+ */
+export type ReviewPdfComments = 'all' | 'unresolved';
+
+// Validation Schemas
+const commentBodySchema = z.string().trim().min(1).max(MAX_COMMENT_LENGTH);
+
+export const createCommentThreadRequestSchema = z.object({
+  chunkIndex: z.number().int().min(0),
+  paragraphIndex: z.number().int().min(0),
+  side: z.enum(['source', 'translation']),
+  body: commentBodySchema,
+});
+
+export const replyToCommentThreadRequestSchema = z.object({
+  body: commentBodySchema,
+});
+
+export const resolveCommentThreadRequestSchema = z.object({
+  resolved: z.boolean(),
+});
@@ -1,6 +1,14 @@
 // Document Processing Types - From Document 4 (Document Chunking Engine)
 import { z } from 'zod';
-import { fileSizeSchema } from './validation.js';
+import {
+  DOCX_CONTENT_TYPE,
+  EPUB_CONTENT_TYPE,
+  SRT_CONTENT_TYPE,
+  VTT_CONTENT_TYPE,
+  expectedContentType,
+  fileSizeSchema,
+  filenamePatter,
+} from './validation.js';
 
 // Document Chunking
 export interface DocumentChunk {
@@ -148,7 +156,7 @@ export interface QualityMetrics {
   completionRate: number; // Percentage of chunks successfully translated
   consistencyScore: number; // Automated coherence assessment
   processingEfficiency: number; // Words processed per minute
-  averageConfidence: number; // Average Claude API confidence
+  averageConfidence: number; // Average model confidence
   qualityFlags: string[];
 }
 
@@ -161,8 +169,19 @@ export const chunkingRequestSchema = z.object({
   overlapSize: z.number().min(200).max(300).optional(),
 });
 
-export const fileValidationSchema = z.object({
-  filename: z.string().regex(/^[a-zA-Z0-9._-]+\.txt$/, 'Invalid filename format'),
-  fileSize: fileSizeSchema,
-  contentType: z.literal('text/plain'),
-});
+export const fileValidationSchema = z
+  .object({
+    filename: z.string().regex(filenamePatter, 'Invalid filename format'),
+    fileSize: fileSizeSchema,
+    contentType: z.enum([
+      'text/plain',
+      DOCX_CONTENT_TYPE,
+      EPUB_CONTENT_TYPE,
+      SRT_CONTENT_TYPE,
+      VTT_CONTENT_TYPE,
+    ]),
+  })
+  .refine(({ filename, contentType }) => expectedContentType(filename) === contentType, {
+    message: 'Content type does not match the file extension',
+    path: ['contentType'],
+  });
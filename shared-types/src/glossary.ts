@@ -0,0 +1,197 @@
+// Glossary Types — project glossaries enforced across every chunk translation.
+//
+// A glossary is a user-owned list of source term → required target rendering
+// pairs (character names, place names, coined terms). It is stored in the
+// Glossaries DynamoDB table (userId HASH + glossaryId RANGE) and referenced
+// from a translation job by `glossaryId` (POST /jobs/{jobId}/translate body,
+// or the legacy `translationOptions.customGlossary` slot on CreateJobRequest).
+//
+// translateChunk.ts loads the glossary once per invocation and
+// GeminiClient.buildTranslationPrompt injects ONLY the terms that actually
+// occur in the chunk being translated — a 2,000-term glossary must not
+// inflate every prompt by 2,000 lines.
+import { z } from 'zod';
+
+/**
+ * Upper bound on the number of terms in a single glossary.
+ *
+ * Rationale: the whole glossary lives in one DynamoDB item (400 KB item
+ * limit). 2,000 terms at the per-field caps below stays comfortably under
+ * that ceiling while covering the character/place list of any novel.
+ */
+export const MAX_GLOSSARY_TERMS = 2000;
+
+/** Maximum length of a single source term or target rendering, in characters. */
+export const MAX_GLOSSARY_TERM_LENGTH = 200;
+
+/** Maximum length of the optional per-term translator note, in characters. */
+export const MAX_GLOSSARY_NOTE_LENGTH = 500;
+
+/**
+ * A single glossary entry.
+ *
+ * `caseSensitive` defaults to false — "Frodo" and "FRODO" in a chapter
+ * heading should both pull the term into the prompt. Set it for terms that
+ * collide with ordinary words ("Will" the character vs. "will" the verb).
+ */
+export interface GlossaryTerm {
+  /** Term as it appears in the source document. */
+  source: string;
+  /** Required rendering in the target language. */
+  target: string;
+  /** Optional note for the translator (gender, register, etymology). */
+  notes?: string;
+  /** Match the source term case-sensitively. @default false */
+  caseSensitive?: boolean;
+}
+
+/**
+ * DynamoDB Glossary Record.
+ * Composite primary key (userId HASH + glossaryId RANGE) so GetItem with both
+ * keys enforces ownership and GET /glossaries is a single Query.
+ */
+export interface Glossary {
+  userId: string;
+  glossaryId: string;
+  name: string;
+  description?: string;
+  /** Target language code the renderings are written in (e.g. 'es'). */
+  targetLanguage?: string;
+  terms: GlossaryTerm[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Request body for POST /glossaries. */
+export interface CreateGlossaryRequest {
+  name: string;
+  description?: string;
+  targetLanguage?: string;
+  terms: GlossaryTerm[];
+}
+
+/**
+ * Request body for PUT /glossaries/{glossaryId}.
+ * Every field is optional; `terms`, when present, REPLACES the stored list.
+ */
+export type UpdateGlossaryRequest = Partial<CreateGlossaryRequest>;
+
+/**
+ * Response body returned by GET /glossaries/{glossaryId}, POST /glossaries
+ * and PUT /glossaries/{glossaryId}. Flat shape (no `data` wrapper).
+ */
+export interface GlossaryApiResponse {
+  glossaryId: string;
+  name: string;
+  description?: string;
+  targetLanguage?: string;
+  terms: GlossaryTerm[];
+  termCount: number;
+  createdAt: string;
+  updatedAt: string;
+  [key: string]: unknown;
+}
+
+/**
+ * List element returned by GET /glossaries — the term list itself is omitted
+ * so a user with dozens of large glossaries gets a small response.
+ */
+export interface GlossarySummary {
+  glossaryId: string;
+  name: string;
+  description?: string;
+  targetLanguage?: string;
+  termCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Response envelope returned by GET /glossaries. */
+export interface ListGlossariesApiResponse {
+  glossaries: GlossarySummary[];
+  count: number;
+  [key: string]: unknown;
+}
+
+/** Response body returned by DELETE /glossaries/{glossaryId}. */
+export interface DeleteGlossaryApiResponse {
+  message: string;
+  glossaryId: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Compliance of one glossary term within one chunk.
+ * `compliant` is false when the source term occurs in the source chunk but
+ * the required rendering never appears in the translated chunk.
+ */
+export interface GlossaryTermCheck {
+  source: string;
+  target: string;
+  /** Whole-word occurrences of `source` in the source chunk. */
+  sourceOccurrences: number;
+  /** Whole-word occurrences of `target` in the translated chunk. */
+  targetOccurrences: number;
+  compliant: boolean;
+}
+
+/** Per-chunk section of the glossary compliance report. */
+export interface GlossaryReportChunk {
+  /** 0-based chunk index — matches `translated/{jobId}/chunk-{N}.txt`. */
+  chunkIndex: number;
+  /** Every glossary term found in this chunk's source text. */
+  terms: GlossaryTermCheck[];
+  /** Number of non-compliant entries in `terms`. */
+  violationCount: number;
+}
+
+/**
+ * Request body for POST /jobs/{jobId}/glossary-report — checks the job
+ * against a submitted term list instead of a saved glossary.
+ */
+export interface GlossaryReportRequest {
+  terms: GlossaryTerm[];
+}
+
+/**
+ * Response body returned by GET and POST /jobs/{jobId}/glossary-report.
+ *
+ * `chunks` lists ONLY chunks whose source contains at least one glossary
+ * term, in ascending chunk order, so reviewers can jump straight to the
+ * offending chunk. `glossaryId` and `glossaryName` are absent when a term
+ * list was submitted.
+ */
+export interface GlossaryReportApiResponse {
+  jobId: string;
+  glossaryId?: string;
+  glossaryName?: string;
+  totalChunks: number;
+  /** Distinct glossary terms found anywhere in the source. */
+  termsFound: number;
+  /** Total non-compliant (chunk, term) pairs. */
+  violationCount: number;
+  chunks: GlossaryReportChunk[];
+  generatedAt: string;
+  [key: string]: unknown;
+}
+
+// Validation Schemas
+export const glossaryTermSchema = z.object({
+  source: z.string().trim().min(1).max(MAX_GLOSSARY_TERM_LENGTH),
+  target: z.string().trim().min(1).max(MAX_GLOSSARY_TERM_LENGTH),
+  notes: z.string().max(MAX_GLOSSARY_NOTE_LENGTH).optional(),
+  caseSensitive: z.boolean().optional(),
+});
+
+export const createGlossaryRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  targetLanguage: z.string().min(2).max(10).optional(),
+  terms: z.array(glossaryTermSchema).max(MAX_GLOSSARY_TERMS),
+});
+
+export const updateGlossaryRequestSchema = createGlossaryRequestSchema.partial();
+
+export const glossaryReportRequestSchema = z.object({
+  terms: z.array(glossaryTermSchema).min(1).max(MAX_GLOSSARY_TERMS),
+});
@@ -29,18 +29,22 @@ export * from './jobs.js'; // Export JobStatus + TranslationJobStatus + TRANSLAT
 export * from './documents.js'; // Export ValidationResult from here (primary)
 export * from './legal.js';
 export * from './workflows.js';
+export * from './glossary.js';
+export * from './comments.js'; // Paragraph comment threads and the review PDF
+export * from './languages.js'; // LANGUAGE_REGISTRY — drives every language list in the app
+export * from './textDiff.js'; // diffWords — chunk history view and edit accounting
 
 // API and polling interfaces with selective exports to avoid conflicts
 export {
   ApiResponse,
   ApiError,
   ApiMetadata,
-  ClaudeTranslationRequest,
-  TranslationHint,
-  ClaudeTranslationResponse,
   CostEstimationRequest,
   CostEstimationResponse,
   ProgressResponse,
+  QualityFlag,
+  QualityFlagType,
+  QualityFlagSeverity,
 } from './api.js';
 
 export {
@@ -55,6 +59,13 @@ export {
 export {
   ValidationUtils,
   FILE_VALIDATION,
+  DOCX_CONTENT_TYPE,
+  EPUB_CONTENT_TYPE,
+  SRT_CONTENT_TYPE,
+  VTT_CONTENT_TYPE,
+  AllowedFileExtension,
+  ALLOWED_FILE_EXTENSIONS,
+  expectedContentType,
   uuidSchema,
   emailSchema,
   timestampSchema,
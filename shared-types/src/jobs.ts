@@ -1,6 +1,15 @@
 // Job Management Types - From Document 7 (Job State Management)
 import { z } from 'zod';
-import { fileSizeSchema } from './validation.js';
+import type { RecoveryRequest, RecoveryStrategy } from './errors.js';
+import type { PauseWorkflowRequest, ResumeWorkflowRequest } from './workflows.js';
+import type { QualityFlag, QualityFlagSeverity } from './api.js';
+import {
+  DOCX_CONTENT_TYPE,
+  EPUB_CONTENT_TYPE,
+  SRT_CONTENT_TYPE,
+  VTT_CONTENT_TYPE,
+  fileSizeSchema,
+} from './validation.js';
 
 // Job Status Types
 
@@ -33,6 +42,174 @@ export const TRANSLATION_TONE_VALUES = [
   'neutral',
 ] as const satisfies ReadonlyArray<TranslationTone>;
 
+/**
+ * LLM vendors a job can be translated with. Chosen per job on
+ * POST /jobs/{jobId}/translate and persisted as `translationProvider`, so
+ * the same document can be run through each vendor to compare quality and
+ * cost, or re-run on the other vendor when one is degraded.
+ */
+export const TRANSLATION_PROVIDERS = ['gemini', 'anthropic'] as const;
+
+export type TranslationProviderName = (typeof TRANSLATION_PROVIDERS)[number];
+
+export const DEFAULT_TRANSLATION_PROVIDER: TranslationProviderName = 'gemini';
+
+/** Model used when a translation request names a provider but no model. */
+export const DEFAULT_TRANSLATION_MODELS: Readonly<Record<TranslationProviderName, string>> = {
+  gemini: 'gemini-2.5-flash',
+  anthropic: 'claude-sonnet-4-5',
+};
+
+export function isTranslationProvider(value: unknown): value is TranslationProviderName {
+  return (TRANSLATION_PROVIDERS as readonly unknown[]).includes(value);
+}
+
+/**
+ * How chunks see their predecessors during translation.
+ * - `parallel` (default): each chunk gets a summary of the preceding
+ *   *source* text, so every chunk can be translated at once.
+ * - `sequential`: chunks are translated one after another and each gets
+ *   the *translated* text of the chunks before it — slower, but names,
+ *   register and narrative voice carry over, which matters for fiction.
+ */
+export const TRANSLATION_CONTEXT_MODES = ['parallel', 'sequential'] as const;
+
+export type TranslationContextMode = (typeof TRANSLATION_CONTEXT_MODES)[number];
+
+export function isTranslationContextMode(value: unknown): value is TranslationContextMode {
+  return (TRANSLATION_CONTEXT_MODES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Most preceding chunks a chunk sees as context (`contextChunks`).
+ * startTranslation rejects larger or non-integer values with a 400 and
+ * translateChunk fails a chunk given one.
+ */
+export const MAX_CONTEXT_CHUNKS = 5;
+
+/**
+ * Translation memory brief — a compact, model-written summary of the
+ * document that every chunk prompt carries, so names, pronouns and
+ * grammatical gender stay consistent across chunks.
+ *
+ * - `off` (default): no brief.
+ * - `initial`: written once from excerpts of the source before the first
+ *   chunk is translated.
+ * - `rolling`: as `initial`, then revised after every chunk with what that
+ *   chunk revealed. Needs the `sequential` context mode — parallel chunks
+ *   would overwrite each other's revisions.
+ */
+export const TRANSLATION_BRIEF_MODES = ['off', 'initial', 'rolling'] as const;
+
+export type TranslationBriefMode = (typeof TRANSLATION_BRIEF_MODES)[number];
+
+export function isTranslationBriefMode(value: unknown): value is TranslationBriefMode {
+  return (TRANSLATION_BRIEF_MODES as readonly unknown[]).includes(value);
+}
+
+export type BriefCharacterGender = 'female' | 'male' | 'nonbinary' | 'unknown';
+
+export interface BriefCharacter {
+  /** Name as written in the source. */
+  name: string;
+  gender: BriefCharacterGender;
+  /** Chosen rendering of the name in the target language. */
+  rendering?: string;
+  /** Role, relationships, form of address — whatever affects the wording. */
+  notes?: string;
+}
+
+/** Stored as JSON at `briefs/{jobId}/brief.json` in the chunks bucket. */
+export interface TranslationBrief {
+  characters: BriefCharacter[];
+  /** Register and narrative voice to keep, e.g. "first person, past tense". */
+  style: string;
+  /** Running summary of the plot up to `updatedThroughChunk`. */
+  plotSummary: string;
+  /** Last chunk folded into the brief; -1 for the initial brief. */
+  updatedThroughChunk: number;
+  updatedAt: string;
+}
+
+/**
+ * Translation memory reuse for a job run, reported by
+ * GET /jobs/{jobId}/translation-status. Segments are source paragraphs of
+ * prose jobs; a segment is reused when a completed job of the same user
+ * already translated identical (normalized) text into the same language,
+ * and its stored translation is used without asking the model.
+ */
+export interface TranslationMemoryStats {
+  /** Segments looked up in the memory so far. */
+  segments: number;
+  reusedSegments: number;
+  /** `reusedSegments / segments`, 0 when no segment was looked up. */
+  reuseRatio: number;
+  /** Estimated prompt and response tokens the reused segments did not cost. */
+  savedTokens: number;
+}
+
+/**
+ * A translated chunk the automatic quality check flagged, reported by
+ * GET /jobs/{jobId}/translation-status. `severity` is the highest of the
+ * chunk's flags.
+ */
+export interface FlaggedChunk {
+  chunkIndex: number;
+  severity: QualityFlagSeverity;
+  flags: QualityFlag[];
+}
+
+/**
+ * How a translated chunk's paragraphs line up with its source's: per
+ * source paragraph, the number of translated paragraphs it became. Only
+ * recorded when a chunk had to be translated paragraph by paragraph and a
+ * paragraph came back in several; otherwise the pairing is one to one.
+ */
+export type ParagraphAlignment = number[];
+
+/**
+ * Snapshot of a completed translation taken by POST /jobs/{jobId}/revisions
+ * when a revised source document is uploaded to the job. chunkDocument
+ * aligns the revision's chunks against `chunkKeys`.
+ */
+export interface PreviousRevision {
+  revision: number;
+  chunkKeys: string[];
+  /** Language the snapshot was translated into. */
+  targetLanguage: string;
+}
+
+/**
+ * How the chunks of a revision line up with the previous revision's,
+ * recorded by chunkDocument. A chunk whose source is unchanged reuses the
+ * previous translation when the revision is translated into the same
+ * language; only the changed chunks are sent to the model.
+ */
+export interface RevisionAlignment {
+  previousRevision: number;
+  targetLanguage: string;
+  /**
+   * Per chunk of the revision: index of the identical chunk of the previous
+   * revision, or -1 when its source changed.
+   */
+  reusedFrom: number[];
+  changedChunks: number;
+}
+
+/**
+ * Revision of a job's source document, reported by
+ * GET /jobs/{jobId}/translation-status once the revision is chunked — in
+ * time to show what translating it will cost.
+ */
+export interface RevisionSummary {
+  revision: number;
+  previousRevision: number;
+  changedChunks: number;
+  unchangedChunks: number;
+  /** Language the unchanged chunks can be reused in. */
+  targetLanguage: string;
+}
+
 /**
  * Legacy chunk-pipeline job status union used by the original spec documents.
  * Retained for historical compatibility; prefer TranslationJobStatus for all
@@ -56,8 +233,23 @@ export type JobStatus =
  *   PENDING → (S3 event) → CHUNKING → CHUNKED
  *     → (startTranslation) → IN_PROGRESS → COMPLETED
  *
- * Terminal states (no further transitions):
- *   COMPLETED | FAILED | CHUNKING_FAILED | TRANSLATION_FAILED
+ * A running translation can be paused (PAUSED, resumed back to CHUNKED)
+ * or cancelled (CANCELLED) by its owner.
+ *
+ * A completed translation can then go through human review:
+ *
+ *   COMPLETED → (submit) → IN_REVIEW → (approve) → APPROVED
+ *                            ↑   ↓ (request changes)
+ *                          CHANGES_REQUESTED
+ *
+ * `translationStatus` stays COMPLETED throughout review. A revision or a
+ * retranslation of a reviewed translation removes its review, and the job
+ * is COMPLETED again once translated.
+ *
+ * Terminal states (no further transitions by the pipeline; the review
+ * states only move on a user's action):
+ *   COMPLETED | FAILED | CHUNKING_FAILED | TRANSLATION_FAILED | CANCELLED
+ *   | IN_REVIEW | CHANGES_REQUESTED | APPROVED
  *
  * This type is the single source of truth shared between:
  *   - frontend/src/services/translationService.ts (TranslationJob.status)
@@ -75,7 +267,34 @@ export type TranslationJobStatus =
   | 'COMPLETED'
   | 'FAILED'
   | 'CHUNKING_FAILED'
-  | 'TRANSLATION_FAILED';
+  | 'TRANSLATION_FAILED'
+  | 'PAUSED'
+  | 'CANCELLED'
+  | 'IN_REVIEW'
+  | 'CHANGES_REQUESTED'
+  | 'APPROVED';
+
+/** Statuses of a completed translation that has been submitted for review. */
+export const REVIEW_STATUSES = [
+  'IN_REVIEW',
+  'CHANGES_REQUESTED',
+  'APPROVED',
+] as const satisfies ReadonlyArray<TranslationJobStatus>;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+/**
+ * Statuses of a job whose translation is complete — COMPLETED, or any
+ * review status. Its translation can be viewed and downloaded.
+ */
+export const TRANSLATED_STATUSES = [
+  'COMPLETED',
+  ...REVIEW_STATUSES,
+] as const satisfies ReadonlyArray<TranslationJobStatus>;
+
+export function isTranslatedStatus(status: string): boolean {
+  return (TRANSLATED_STATUSES as readonly string[]).includes(status);
+}
 
 /**
  * Statuses that represent a terminal (no-further-transition) outcome for a
@@ -87,6 +306,8 @@ export const TRANSLATION_TERMINAL_STATUSES = [
   'FAILED',
   'CHUNKING_FAILED',
   'TRANSLATION_FAILED',
+  'CANCELLED',
+  ...REVIEW_STATUSES,
 ] as const satisfies ReadonlyArray<TranslationJobStatus>;
 
 /** Type helper — narrows to just the terminal members of TranslationJobStatus. */
@@ -119,6 +340,7 @@ export interface CreateJobRequest {
   };
   translationOptions?: {
     preserveFormatting: boolean;
+    /** glossaryId of a saved project glossary (see glossary.ts). */
     customGlossary?: string;
     qualityLevel: QualityLevel;
   };
@@ -192,6 +414,38 @@ export interface TranslationJob {
   metadata: JobMetadata;
 }
 
+/**
+ * One chapter of a structured upload (an EPUB spine item) and the range of
+ * chunks it was split into. Chunks never straddle chapters, so the range is
+ * exact: chunks `firstChunkIndex … firstChunkIndex + chunkCount - 1`.
+ */
+export interface SourceChapter {
+  /** Title from the book's table of contents (or its first heading). */
+  title: string;
+  firstChunkIndex: number;
+  chunkCount: number;
+  /** Spine item path inside the source package, e.g. `OEBPS/ch01.xhtml`. */
+  href?: string;
+}
+
+/** Bibliographic metadata read from a structured upload's package document. */
+export interface SourceDocumentMetadata {
+  title?: string;
+  author?: string;
+  /** The book's unique identifier (ISBN, UUID URN, ...). */
+  identifier?: string;
+  /** Declared language of the source (BCP 47, as written in the package). */
+  language?: string;
+}
+
+/**
+ * Subtitle file formats. A job chunked from a `.srt` or `.vtt` upload is
+ * translated cue by cue and can be downloaded in either format.
+ */
+export const SUBTITLE_FORMATS = ['srt', 'vtt'] as const;
+
+export type SubtitleFormat = (typeof SUBTITLE_FORMATS)[number];
+
 /**
  * DynamoDB Job Record
  * Represents the actual structure of job records stored in DynamoDB.
@@ -216,22 +470,122 @@ export interface DynamoDBJob {
     chunkCount?: number;
     averageChunkSize?: number;
   };
+  /**
+   * Source language detected from the first chunks by chunkDocument
+   * (ISO 639-1), or the caller's override from POST /jobs/{jobId}/translate.
+   */
+  sourceLanguage?: string;
+  /** Detector confidence in [0, 1]; absent when the language was user-supplied. */
+  sourceLanguageConfidence?: number;
+  /** Chapter map recorded by chunkDocument for EPUB uploads, in reading order. */
+  chapters?: SourceChapter[];
+  /** Package metadata of an EPUB upload, reused when exporting to ePub. */
+  sourceMetadata?: SourceDocumentMetadata;
+  /**
+   * Set by chunkDocument for subtitle uploads. Marks the job as
+   * subtitle-aware: chunks hold whole cues, the prompt keeps cue numbers
+   * and timestamps verbatim, and `srt` / `vtt` downloads are offered.
+   */
+  subtitleFormat?: SubtitleFormat;
 
   // Translation Metadata
-  translationStatus?: 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED' | 'TRANSLATION_FAILED';
+  translationStatus?:
+    | 'NOT_STARTED'
+    | 'IN_PROGRESS'
+    | 'COMPLETED'
+    | 'TRANSLATION_FAILED'
+    | 'PAUSED'
+    | 'CANCELLED';
   targetLanguage?: string;
   translationTone?: TranslationTone;
   tone?: TranslationTone; // Alias for translationTone
+  /** Previous chunks sent as context with each chunk (set by startTranslation). */
+  translationContextChunks?: number;
   translatedChunks?: number;
   tokensUsed?: number;
   estimatedCost?: number;
   translationStartedAt?: string;
   translationCompletedAt?: string;
   translationError?: string;
+  /**
+   * Chunks whose last attempt failed for good in the latest run. Added by
+   * translateChunk on a non-retryable failure and removed again when the
+   * chunk succeeds, so POST /jobs/{jobId}/recover retries exactly these
+   * (plus any chunk an aborted execution never reached).
+   */
+  failedChunkIndexes?: Set<number>;
+  /**
+   * Automatic quality flags by chunk index (as a string: DynamoDB map
+   * keys), written by translateChunk for every chunk that raised any.
+   * Reset to an empty map when a translation starts; absent on jobs
+   * translated before the check existed.
+   */
+  qualityFlags?: Record<string, QualityFlag[]>;
+  /** Options captured at job creation (CreateJobRequest.translationOptions). */
+  translationOptions?: CreateJobRequest['translationOptions'];
+  /** Project glossary applied to every chunk (set by startTranslation). */
+  glossaryId?: string;
+  /**
+   * Vendor and model the chunks are translated with (set by
+   * startTranslation). Absent on jobs started before providers were
+   * selectable, which ran on the Gemini default.
+   */
+  translationProvider?: TranslationProviderName;
+  translationModel?: string;
+  /** Chunk schedule of the latest run; absent → `parallel`. */
+  translationContextMode?: TranslationContextMode;
+  /** Translation memory brief of the latest run; absent → `off`. */
+  translationBriefMode?: TranslationBriefMode;
+  /**
+   * Translation memory counters of the latest run (see
+   * TranslationMemoryStats). Accumulated per chunk with atomic ADDs;
+   * absent until the first prose chunk is translated.
+   */
+  memorySegments?: number;
+  memoryReusedSegments?: number;
+  memorySavedTokens?: number;
+
+  // Revisions
+  /** Revision of the source document; absent → 1 (the original upload). */
+  revision?: number;
+  /** Set by POST /jobs/{jobId}/revisions, read by chunkDocument. */
+  previousRevision?: PreviousRevision;
+  /** Set by chunkDocument when it chunks a revision. */
+  revisionAlignment?: RevisionAlignment;
 
   // Step Functions
+  /** Latest translation execution; stopped by pause, cancel and deleteJob. */
   executionArn?: string;
   executionStatus?: string;
+  pausedAt?: string;
+  pauseReason?: string;
+  cancelledAt?: string;
+  cancelReason?: string;
+
+  // Review (see REVIEW_STATUSES)
+  /**
+   * Reviewer the job was last submitted to, lower-cased. Key of the sparse
+   * ReviewerJobsIndex GSI, through which the reviewer reads the job.
+   */
+  reviewerEmail?: string;
+  reviewSubmittedAt?: string;
+  /**
+   * Approved chunks by chunk index (as a string: DynamoDB map keys).
+   * Created empty on the first submission; saving an edit of a chunk
+   * removes its approval.
+   */
+  chunkReviews?: Record<string, ChunkReview>;
+  /** The reviewer's comment with the latest change request. */
+  reviewComment?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+
+  // Soft delete (openspec/changes/add-soft-delete-jobs, #209)
+  /**
+   * Unix epoch seconds after which a deleted job is purged. A job carrying
+   * it is deleted: loadJobForUser treats it as not found.
+   */
+  deleteAt?: number;
 
   // Legal Attestation
   legalAttestation?: {
@@ -256,7 +610,7 @@ export interface JobCosts {
   estimated: number;
   actual?: number;
   breakdown: {
-    claudeAPI: number;
+    translationAPI: number;
     infrastructure: number;
   };
 }
@@ -436,6 +790,10 @@ export interface TranslationStatusApiResponse {
   /** Overall job status (PENDING_UPLOAD, UPLOADED, CHUNKED, etc.). */
   status: string;
   translationStatus: string;
+  /** Detected (or user-supplied) source language, ISO 639-1. */
+  sourceLanguage?: string;
+  /** Detector confidence in [0, 1]; absent when the language was user-supplied. */
+  sourceLanguageConfidence?: number;
   targetLanguage?: string;
   tone?: TranslationTone;
   totalChunks: number;
@@ -456,6 +814,21 @@ export interface TranslationStatusApiResponse {
   translationStartedAt?: string;
   translationCompletedAt?: string;
   estimatedCompletion?: string;
+  /** Translation memory reuse of the latest run; absent for subtitle jobs. */
+  translationMemory?: TranslationMemoryStats;
+  /** Present once a revised source document has been chunked. */
+  revision?: RevisionSummary;
+  /** Chunks of the latest run that failed for good; absent when none did. */
+  failedChunks?: number;
+  /** Chunks with quality flags, in document order; absent when none has any. */
+  flaggedChunks?: FlaggedChunk[];
+  /** Present once the translation has been submitted for review. */
+  review?: ReviewSummary;
+  /**
+   * True when the caller is not the owner but the assigned reviewer, who
+   * can read, comment on and review the job but not change it otherwise.
+   */
+  reviewerAccess?: boolean;
   error?: string;
   [key: string]: unknown;
 }
@@ -483,6 +856,27 @@ export interface StartTranslationApiResponse {
   estimatedCost?: number;
   /** Step Functions execution ARN (for tracking / debugging). */
   executionArn?: string;
+  /** Project glossary applied to this run, when one was requested. */
+  glossaryId?: string;
+  /** Vendor and model this run translates with. */
+  translationProvider?: TranslationProviderName;
+  translationModel?: string;
+  /** Chunk schedule of this run. */
+  translationContextMode?: TranslationContextMode;
+  /** Translation memory brief of this run. */
+  translationBriefMode?: TranslationBriefMode;
+  /** Source language the chunks will be translated from, when known. */
+  sourceLanguage?: string;
+  /**
+   * Chunks of a revision copied from the previous translation instead of
+   * translated; left out of `estimatedCost`.
+   */
+  reusedChunks?: number;
+  /**
+   * Non-fatal issues the caller should surface, e.g. a low-confidence
+   * detection that the source is already in the target language.
+   */
+  warnings?: string[];
   /**
    * API Gateway correlation UUID (echo of `event.requestContext.requestId`).
    * Present on every response shape produced by `createFlatResponse` /
@@ -493,6 +887,130 @@ export interface StartTranslationApiResponse {
   [key: string]: unknown;
 }
 
+/**
+ * Response body returned by POST /jobs/{jobId}/revisions (flat, like
+ * every job-side endpoint except POST /jobs/upload).
+ *
+ * The revised document is PUT to `uploadUrl` with `requiredHeaders`, as
+ * for a new upload; the job then goes through upload validation and
+ * chunking again and reports a RevisionSummary once it is CHUNKED.
+ */
+export interface CreateRevisionApiResponse {
+  message: string;
+  jobId: string;
+  /** Number of the revision being uploaded (the original upload is 1). */
+  revision: number;
+  uploadUrl: string;
+  fileId: string;
+  expiresIn: number;
+  requiredHeaders: Record<string, string>;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/** Longest instruction override accepted by the recovery endpoints. */
+export const MAX_RETRANSLATION_INSTRUCTIONS_LENGTH = 2000;
+
+/**
+ * Request body of POST /jobs/{jobId}/recover.
+ *
+ * Only the `RETRY` strategy is implemented: it starts a new execution over
+ * the chunks a failed run left untranslated and, once they succeed, marks
+ * the job COMPLETED as a full run would. `parameters.instructions` is added
+ * to the prompt of every retried chunk.
+ */
+export interface RecoverTranslationRequest extends Pick<RecoveryRequest, 'recoveryStrategy'> {
+  parameters?: { instructions?: string };
+}
+
+/** Response body returned by POST /jobs/{jobId}/recover. */
+export interface RecoverTranslationApiResponse {
+  message: string;
+  jobId: string;
+  recoveryStrategy: RecoveryStrategy;
+  translationStatus: string;
+  totalChunks: number;
+  /** Chunks that keep their translation from the failed run. */
+  translatedChunks: number;
+  /** Chunks the new execution translates, in document order. */
+  chunkIndexes: number[];
+  executionArn?: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Request body of POST /jobs/{jobId}/chunks/{chunkIndex}/retranslate. The
+ * chunk is translated again from scratch — the translation memory and a
+ * previous revision are not consulted — with `instructions` added to its
+ * prompt.
+ */
+export interface RetranslateChunkRequest {
+  instructions?: string;
+}
+
+/** Response body returned by POST /jobs/{jobId}/chunks/{chunkIndex}/retranslate. */
+export interface RetranslateChunkApiResponse {
+  message: string;
+  jobId: string;
+  chunkIndex: number;
+  translationStatus: string;
+  executionArn?: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Request body of POST /jobs/{jobId}/pause. The running execution is
+ * stopped; the chunks it already translated are kept.
+ */
+export type PauseTranslationRequest = Partial<PauseWorkflowRequest>;
+
+/** Response body returned by POST /jobs/{jobId}/pause. */
+export interface PauseTranslationApiResponse {
+  message: string;
+  jobId: string;
+  translationStatus: string;
+  translatedChunks: number;
+  totalChunks: number;
+  pausedAt: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Request body of POST /jobs/{jobId}/resume. A paused translation always
+ * resumes with the chunks that have no translation yet; `resumeFromState`
+ * is not supported.
+ */
+export type ResumeTranslationRequest = ResumeWorkflowRequest;
+
+/** Response body returned by POST /jobs/{jobId}/resume. */
+export interface ResumeTranslationApiResponse {
+  message: string;
+  jobId: string;
+  translationStatus: string;
+  totalChunks: number;
+  translatedChunks: number;
+  /** Chunks the new execution translates, in document order. */
+  chunkIndexes: number[];
+  executionArn?: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/** Request body of POST /jobs/{jobId}/cancel; the job id comes from the path. */
+export type CancelTranslationRequest = Pick<CancelJobRequest, 'reason'>;
+
+/** Response body returned by POST /jobs/{jobId}/cancel. */
+export interface CancelTranslationApiResponse extends CancelJobResponse {
+  status: 'CANCELLED';
+  translatedChunks: number;
+  totalChunks: number;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
 /**
  * Canonical 4xx error-code union emitted by POST /jobs/{jobId}/translate.
  *
@@ -521,6 +1039,10 @@ export type StartTranslationErrorCode =
   | 'INVALID_JOB_STATUS'
   | 'TRANSLATION_ALREADY_STARTED'
   | 'NO_CHUNKS_AVAILABLE'
+  | 'GLOSSARY_NOT_FOUND'
+  | 'SOURCE_LANGUAGE_MATCHES_TARGET'
+  | 'MODEL_PROVIDER_MISMATCH'
+  | 'ROLLING_BRIEF_REQUIRES_SEQUENTIAL'
   | 'INTERNAL_ERROR';
 
 /**
@@ -586,6 +1108,10 @@ export interface DownloadTranslationApiResponse {
  * - `markdown` — the original raw text/plain output (existing behaviour).
  * - `epub`     — industry-standard ebook format (Kindle, Kobo, iBooks, etc.).
  * - `pdf`      — universal format that preserves layout on any device.
+ * - `docx`     — Word document with the source's heading hierarchy, for
+ *                authors and editors who revise in Word.
+ * - `srt`      — SubRip subtitles; only for jobs chunked from a subtitle file.
+ * - `vtt`      — WebVTT subtitles; only for jobs chunked from a subtitle file.
  *
  * This type is the SINGLE SOURCE OF TRUTH shared between:
  *   - frontend/src/services/translationService.ts (downloadTranslation `format` arg)
@@ -597,7 +1123,7 @@ export interface DownloadTranslationApiResponse {
  * query value against `OUTPUT_FORMAT_VALUES` and rejects unknown formats
  * with 400 — defense-in-depth against typos and supply-chain confusion.
  */
-export type OutputFormat = 'markdown' | 'epub' | 'pdf';
+export type OutputFormat = 'markdown' | 'epub' | 'pdf' | 'docx' | 'srt' | 'vtt';
 
 /**
  * Runtime array of allowed OutputFormat values — derived from the union so
@@ -615,6 +1141,9 @@ export const OUTPUT_FORMAT_VALUES = [
   'markdown',
   'epub',
   'pdf',
+  'docx',
+  'srt',
+  'vtt',
 ] as const satisfies ReadonlyArray<OutputFormat>;
 
 /**
@@ -642,8 +1171,11 @@ export function isOutputFormat(value: unknown): value is OutputFormat {
  */
 export const OUTPUT_FORMAT_CONTENT_TYPES: Readonly<Record<OutputFormat, string>> = {
   markdown: 'text/plain; charset=utf-8',
-  epub: 'application/epub+zip',
+  epub: EPUB_CONTENT_TYPE,
   pdf: 'application/pdf',
+  docx: DOCX_CONTENT_TYPE,
+  srt: SRT_CONTENT_TYPE,
+  vtt: VTT_CONTENT_TYPE,
 };
 
 /**
@@ -655,10 +1187,13 @@ export const OUTPUT_FORMAT_FILE_EXTENSIONS: Readonly<Record<OutputFormat, string
   markdown: 'txt',
   epub: 'epub',
   pdf: 'pdf',
+  docx: 'docx',
+  srt: 'srt',
+  vtt: 'vtt',
 };
 
 /**
- * JSON envelope returned by GET /jobs/{jobId}/download?format=epub|pdf.
+ * JSON envelope returned by GET /jobs/{jobId}/download?format=epub|pdf|docx|srt|vtt.
  *
  * The Lambda generates (or reuses) the converted artefact, uploads it to
  * S3 under `translated-output/{jobId}/translation.{ext}`, and replies
@@ -670,9 +1205,12 @@ export const OUTPUT_FORMAT_FILE_EXTENSIONS: Readonly<Record<OutputFormat, string
  *
  * The presigned URL expiry is informational — the SPA does not need to
  * persist this value; it should redirect to `downloadUrl` immediately.
+ *
+ * With `&chapter=N` the same envelope points at a single-chapter artefact
+ * (`translated-output/{jobId}/chapter-{N}.{ext}`).
  */
 export interface PresignedDownloadEnvelope {
-  /** Always 'epub' or 'pdf' (never 'markdown' — that path stays inline). */
+  /** Any format except 'markdown' — that path stays inline. */
   format: Exclude<OutputFormat, 'markdown'>;
   /** S3 presigned GET URL. Time-bounded; do not log or share. */
   downloadUrl: string;
@@ -687,6 +1225,223 @@ export interface PresignedDownloadEnvelope {
   [key: string]: unknown;
 }
 
+/** One entry of a translation's chapter list; `number` is 1-based. */
+export interface TranslationChapter {
+  number: number;
+  title: string;
+}
+
+/**
+ * Response of GET /jobs/{jobId}/chapters. Chapters match the ePub export's
+ * table of contents; pass `number` as `?chapter=` to the download endpoint.
+ */
+export interface ChapterListApiResponse {
+  jobId: string;
+  chapters: TranslationChapter[];
+  [key: string]: unknown;
+}
+
+/**
+ * Response of GET /jobs/{jobId}/source: a presigned download of the job's
+ * source document, for the revision currently on the job.
+ */
+export interface JobSourceApiResponse {
+  jobId: string;
+  filename: string;
+  fileSize?: number;
+  revision: number;
+  /** S3 presigned GET URL. Time-bounded; do not log or share. */
+  downloadUrl: string;
+  expiresInSeconds: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Response of GET /jobs/{jobId}/chunks/{chunkIndex}: one chunk's source
+ * text next to its translation, as the side-by-side viewer pages through
+ * a document.
+ */
+export interface JobChunkApiResponse {
+  jobId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  sourceText: string;
+  /** Null until the job's latest run has translated the chunk. */
+  translatedText: string | null;
+  /** Present only when the pairing is not one paragraph to one. */
+  paragraphAlignment?: ParagraphAlignment;
+  /** Version of `translatedText`: 0 for the machine translation, else the edit saved. */
+  translationVersion?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Longest note accepted with a chunk edit. Notes travel in the edit's S3
+ * object metadata, which is capped at 2 KB.
+ */
+export const MAX_EDIT_NOTE_LENGTH = 200;
+
+/**
+ * Request body of PUT /jobs/{jobId}/chunks/{chunkIndex}/translation: an
+ * edited translation of the chunk, saved as a new version next to the
+ * machine translation.
+ */
+export interface SaveChunkTranslationRequest {
+  translatedText: string;
+  /** Translated paragraphs per source paragraph, as the editor kept them paired. */
+  paragraphAlignment?: ParagraphAlignment;
+  /**
+   * The `translationVersion` the edit started from. The save is refused
+   * when another one was saved in the meantime.
+   */
+  baseVersion?: number;
+  /** The editor's note on what the edit changes, shown in the chunk's history. */
+  note?: string;
+}
+
+/** Response of PUT /jobs/{jobId}/chunks/{chunkIndex}/translation. */
+export interface SaveChunkTranslationApiResponse {
+  jobId: string;
+  chunkIndex: number;
+  /** The version the edit was saved as; the machine translation is 0. */
+  version: number;
+  savedAt: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * One entry of a chunk's history. Every machine translation written for
+ * the chunk (a retry, a retranslation, a revision) is kept as an S3 object
+ * version; every edit saved in the viewer is a numbered version.
+ */
+export interface ChunkVersionSummary {
+  /** Opaque id for GET /jobs/{jobId}/chunks/{chunkIndex}/versions/{versionId}. */
+  versionId: string;
+  kind: 'machine' | 'edit';
+  /** Edit number; absent for machine translations, which are all version 0. */
+  version?: number;
+  /** The editor's user id, or `provider/model` for a machine translation. */
+  author: string;
+  savedAt: string;
+  note?: string;
+  /** For an edit, the version it was made from (0: the machine translation). */
+  baseVersion?: number;
+  wordCount?: number;
+  /** For an edit, words added and removed relative to its base version. */
+  wordsAdded?: number;
+  wordsRemoved?: number;
+  /** Whether this is the translation the viewer and downloads use. */
+  current: boolean;
+}
+
+/** Response of GET /jobs/{jobId}/chunks/{chunkIndex}/versions, oldest first. */
+export interface ChunkVersionsApiResponse {
+  jobId: string;
+  chunkIndex: number;
+  versions: ChunkVersionSummary[];
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/** Response of GET /jobs/{jobId}/chunks/{chunkIndex}/versions/{versionId}. */
+export interface ChunkVersionApiResponse {
+  jobId: string;
+  chunkIndex: number;
+  versionId: string;
+  text: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/** A saved edit, as exported for translator-payment accounting. */
+export interface ChunkEditRecord {
+  chunkIndex: number;
+  version: number;
+  author: string;
+  savedAt: string;
+  note?: string;
+  baseVersion: number;
+  wordCount?: number;
+  wordsAdded?: number;
+  wordsRemoved?: number;
+}
+
+/** Response of GET /jobs/{jobId}/edits: every saved edit, by chunk then version. */
+export interface JobEditsApiResponse {
+  jobId: string;
+  edits: ChunkEditRecord[];
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/** Approval of one chunk by its reviewer. */
+export interface ChunkReview {
+  /** Email of the reviewer. */
+  approvedBy: string;
+  approvedAt: string;
+}
+
+/** Longest comment accepted with a change request. */
+export const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+/** Review state of a job, as returned with its status and by the review endpoints. */
+export interface ReviewSummary {
+  reviewerEmail: string;
+  submittedAt: string;
+  /** Indexes of the approved chunks, ascending. */
+  approvedChunks: number[];
+  totalChunks: number;
+  /** The reviewer's comment with the latest change request. */
+  comment?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+}
+
+/**
+ * Request body of POST /jobs/{jobId}/review/submit: submit a completed
+ * translation, or one with changes requested, to a reviewer.
+ */
+export interface SubmitReviewRequest {
+  reviewerEmail: string;
+}
+
+/** Request body of POST /jobs/{jobId}/review/request-changes. */
+export interface RequestChangesRequest {
+  comment?: string;
+}
+
+/** Request body of PUT /jobs/{jobId}/chunks/{chunkIndex}/review. */
+export interface ChunkReviewRequest {
+  approved: boolean;
+}
+
+/** Response of every review endpoint: the job's status and review after the change. */
+export interface ReviewApiResponse {
+  jobId: string;
+  status: ReviewStatus;
+  review: ReviewSummary;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+/** A job assigned to the caller for review. */
+export interface ReviewAssignment {
+  jobId: string;
+  fileName?: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  status: ReviewStatus;
+  review: ReviewSummary;
+}
+
+/** Response of GET /reviews: the caller's assignments, most recently submitted first. */
+export interface ReviewAssignmentsApiResponse {
+  assignments: ReviewAssignment[];
+  requestId?: string;
+  [key: string]: unknown;
+}
+
 // Validation Schemas
 export const createJobRequestSchema = z.object({
   userId: z.string().uuid(),
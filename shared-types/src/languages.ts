@@ -0,0 +1,153 @@
+// Language registry — the single source of truth for every language LFMT
+// can translate into (and detect as a source). The backend prompt builder
+// and validators, the frontend language dropdown and the export pipeline
+// all derive their tables from LANGUAGE_REGISTRY, so adding a language is
+// one entry here.
+
+/** ISO 15924 script code of the language's usual writing system. */
+export type LanguageScript = 'Latn' | 'Hans' | 'Jpan' | 'Kore' | 'Cyrl' | 'Arab' | 'Hebr';
+
+/** Text direction, as used by the `dir` attribute in HTML and EPUB. */
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageDefinition {
+  /** ISO 639-1 code, as stored on jobs and sent over the wire. */
+  code: string;
+  /** English display name — used in translation prompts and error messages. */
+  englishName: string;
+  /** Endonym shown next to the English name in the UI. */
+  nativeName: string;
+  script: LanguageScript;
+  direction: TextDirection;
+  /**
+   * BCP 47 tag for EPUB `xml:lang`, which reading systems use to select
+   * hyphenation patterns. Null for scripts that are not hyphenated
+   * (CJK, Arabic, Hebrew) — exports should disable hyphenation there.
+   */
+  epubHyphenationCode: string | null;
+}
+
+export const LANGUAGE_REGISTRY = [
+  {
+    code: 'en',
+    englishName: 'English',
+    nativeName: 'English',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'en-US',
+  },
+  {
+    code: 'es',
+    englishName: 'Spanish',
+    nativeName: 'Español',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'es',
+  },
+  {
+    code: 'fr',
+    englishName: 'French',
+    nativeName: 'Français',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'fr',
+  },
+  {
+    code: 'de',
+    englishName: 'German',
+    nativeName: 'Deutsch',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'de-1996',
+  },
+  {
+    code: 'it',
+    englishName: 'Italian',
+    nativeName: 'Italiano',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'it',
+  },
+  {
+    code: 'pt',
+    englishName: 'Portuguese',
+    nativeName: 'Português',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'pt',
+  },
+  {
+    code: 'nl',
+    englishName: 'Dutch',
+    nativeName: 'Nederlands',
+    script: 'Latn',
+    direction: 'ltr',
+    epubHyphenationCode: 'nl',
+  },
+  {
+    code: 'zh',
+    englishName: 'Chinese',
+    nativeName: '中文',
+    script: 'Hans',
+    direction: 'ltr',
+    epubHyphenationCode: null,
+  },
+  {
+    code: 'ja',
+    englishName: 'Japanese',
+    nativeName: '日本語',
+    script: 'Jpan',
+    direction: 'ltr',
+    epubHyphenationCode: null,
+  },
+  {
+    code: 'ko',
+    englishName: 'Korean',
+    nativeName: '한국어',
+    script: 'Kore',
+    direction: 'ltr',
+    epubHyphenationCode: null,
+  },
+  {
+    code: 'ru',
+    englishName: 'Russian',
+    nativeName: 'Русский',
+    script: 'Cyrl',
+    direction: 'ltr',
+    epubHyphenationCode: 'ru',
+  },
+  {
+    code: 'ar',
+    englishName: 'Arabic',
+    nativeName: 'العربية',
+    script: 'Arab',
+    direction: 'rtl',
+    epubHyphenationCode: null,
+  },
+  {
+    code: 'he',
+    englishName: 'Hebrew',
+    nativeName: 'עברית',
+    script: 'Hebr',
+    direction: 'rtl',
+    epubHyphenationCode: null,
+  },
+] as const satisfies ReadonlyArray<LanguageDefinition>;
+
+/** Union of every registered language code. */
+export type LanguageCode = (typeof LANGUAGE_REGISTRY)[number]['code'];
+
+/** Registered codes in registry (display) order. */
+export const LANGUAGE_CODES: ReadonlyArray<LanguageCode> = LANGUAGE_REGISTRY.map(
+  (language) => language.code
+);
+
+/** Type guard for wire strings (request bodies, DynamoDB rows). */
+export function isLanguageCode(value: string): value is LanguageCode {
+  return (LANGUAGE_CODES as readonly string[]).includes(value);
+}
+
+/** Registry entry for `code`, or undefined for an unregistered code. */
+export function getLanguage(code: string): LanguageDefinition | undefined {
+  return LANGUAGE_REGISTRY.find((language) => language.code === code);
+}
@@ -0,0 +1,191 @@
+// Word-level text diff — shared by the chunk history view, which shows
+// what an edit changed, and the backend, which records how many words
+// each saved edit added and removed for translator-payment accounting.
+// Both sides must count the same way, hence one implementation here.
+
+export type WordDiffOperation = 'equal' | 'added' | 'removed';
+
+export interface WordDiffPart {
+  operation: WordDiffOperation;
+  /** The words with the whitespace that follows them, as in the text they come from. */
+  text: string;
+  /** Words in `text`. */
+  words: number;
+}
+
+/**
+ * Above this many changed words the diff is not worked out word by word:
+ * the texts are reported as removed and added whole. Myers' algorithm
+ * keeps one row per changed word, so this bounds its memory.
+ */
+export const MAX_WORD_DIFF_CHANGES = 1000;
+
+/**
+ * A word, or a single Han / kana character — Chinese and Japanese are
+ * not written with spaces, so their characters are diffed one by one.
+ */
+const WORD =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+interface Token {
+  word: string;
+  /** The word and the whitespace up to the next one. */
+  text: string;
+}
+
+function tokenize(text: string): { leading: string; tokens: Token[] } {
+  const tokens: Token[] = [];
+  const matches = [...text.matchAll(WORD)];
+  matches.forEach((match, i) => {
+    const end = i + 1 < matches.length ? (matches[i + 1].index as number) : text.length;
+    tokens.push({ word: match[0], text: text.slice(match.index, end) });
+  });
+  return { leading: matches.length ? text.slice(0, matches[0].index) : text, tokens };
+}
+
+/** Words in `text`, counted as diffWords counts them. */
+export function countWords(text: string): number {
+  return text.match(WORD)?.length ?? 0;
+}
+
+/**
+ * The word-level changes from `before` to `after`, in reading order.
+ * Words are compared without their surrounding whitespace, so re-wrapping
+ * a paragraph is not a change; equal parts carry the whitespace of `after`.
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = tokenize(before).tokens;
+  const { leading, tokens: b } = tokenize(after);
+  const parts: WordDiffPart[] = [];
+
+  const push = (operation: WordDiffOperation, tokens: Token[]) => {
+    if (tokens.length === 0) return;
+    const text = tokens.map((token) => token.text).join('');
+    const last = parts[parts.length - 1];
+    if (last?.operation === operation) {
+      last.text += text;
+      last.words += tokens.length;
+    } else {
+      parts.push({ operation, text, words: tokens.length });
+    }
+  };
+
+  // Common prefix and suffix, which most edits leave most of the text in.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start].word === b[start].word) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1].word === b[endB - 1].word) {
+    endA--;
+    endB--;
+  }
+
+  push('equal', b.slice(0, start));
+  for (const [operation, from, to] of myers(a, b, start, endA, endB)) {
+    push(operation, operation === 'removed' ? a.slice(from, to) : b.slice(from, to));
+  }
+  push('equal', b.slice(endB));
+
+  if (leading && parts.length > 0) {
+    parts[0].text = leading + parts[0].text;
+  }
+  return parts;
+}
+
+/**
+ * Myers' O(ND) diff of a[start..endA) against b[start..endB), as runs of
+ * [operation, from, to] — indices into `a` for removals, into `b` otherwise.
+ */
+function myers(
+  a: Token[],
+  b: Token[],
+  start: number,
+  endA: number,
+  endB: number
+): Array<[WordDiffOperation, number, number]> {
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) {
+    return wholesale(start, endA, endB);
+  }
+
+  const max = Math.min(n + m, MAX_WORD_DIFF_CHANGES);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x].word === b[start + y].word) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) {
+    return wholesale(start, endA, endB);
+  }
+
+  // Walk the trace back from (n, m), one edit per step.
+  const steps: Array<[WordDiffOperation, number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]);
+    const prevX = down ? prev[offset + k + 1] : prev[offset + k - 1];
+    const prevY = prevX - (down ? k + 1 : k - 1);
+    if (x > (down ? prevX : prevX + 1)) {
+      steps.push(['equal', start + y - (x - (down ? prevX : prevX + 1)), start + y]);
+    }
+    steps.push(
+      down
+        ? ['added', start + prevY, start + prevY + 1]
+        : ['removed', start + prevX, start + prevX + 1]
+    );
+    x = prevX;
+    y = prevY;
+  }
+  if (x > 0) {
+    steps.push(['equal', start, start + y]);
+  }
+  return steps.reverse();
+}
+
+function wholesale(
+  start: number,
+  endA: number,
+  endB: number
+): Array<[WordDiffOperation, number, number]> {
+  return [
+    ['removed', start, endA],
+    ['added', start, endB],
+  ];
+}
+
+/** Words removed and added between two texts. */
+export function countWordChanges(
+  before: string,
+  after: string
+): { wordsAdded: number; wordsRemoved: number } {
+  let wordsAdded = 0;
+  let wordsRemoved = 0;
+  for (const part of diffWords(before, after)) {
+    if (part.operation === 'added') wordsAdded += part.words;
+    if (part.operation === 'removed') wordsRemoved += part.words;
+  }
+  return { wordsAdded, wordsRemoved };
+}
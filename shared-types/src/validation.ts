@@ -6,20 +6,53 @@ export const uuidSchema = z.string().uuid();
 export const emailSchema = z.string().email();
 export const timestampSchema = z.string().datetime();
 
+/** MIME type of a Word (Office Open XML) document. */
+export const DOCX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** MIME type of an EPUB e-book. */
+export const EPUB_CONTENT_TYPE = 'application/epub+zip';
+
+/** MIME type of a SubRip subtitle file. */
+export const SRT_CONTENT_TYPE = 'application/x-subrip';
+
+/** MIME type of a WebVTT subtitle file. */
+export const VTT_CONTENT_TYPE = 'text/vtt';
+
 // File validation constants
 export const FILE_VALIDATION = {
   /** Minimum file size in bytes (1KB) */
   MIN_FILE_SIZE: 1000,
   /** Maximum file size in bytes (100MB) */
   MAX_FILE_SIZE: 100 * 1024 * 1024,
-  /** Allowed file type */
-  ALLOWED_FILE_TYPE: 'text/plain',
-  /** Allowed file extension */
-  ALLOWED_FILE_EXTENSION: '.txt',
+  /** Allowed content type per file extension — plain text, Word manuscripts, e-books and subtitles */
+  ALLOWED_FILE_TYPES: {
+    '.txt': 'text/plain',
+    '.docx': DOCX_CONTENT_TYPE,
+    '.epub': EPUB_CONTENT_TYPE,
+    '.srt': SRT_CONTENT_TYPE,
+    '.vtt': VTT_CONTENT_TYPE,
+  },
 } as const;
 
+export type AllowedFileExtension = keyof typeof FILE_VALIDATION.ALLOWED_FILE_TYPES;
+
+/** Allowed extensions, for `accept=` attributes and error messages. */
+export const ALLOWED_FILE_EXTENSIONS = Object.keys(
+  FILE_VALIDATION.ALLOWED_FILE_TYPES
+) as AllowedFileExtension[];
+
+/**
+ * Content type expected for `filename`, or undefined when its extension is
+ * not accepted. Matching is case-insensitive on the extension.
+ */
+export function expectedContentType(filename: string): string | undefined {
+  const extension = ALLOWED_FILE_EXTENSIONS.find((ext) => filename.toLowerCase().endsWith(ext));
+  return extension && FILE_VALIDATION.ALLOWED_FILE_TYPES[extension];
+}
+
 // File validation
-export const filenamePatter = /^[a-zA-Z0-9._-]+\.txt$/;
+export const filenamePatter = /^[a-zA-Z0-9._-]+\.(txt|docx|epub|srt|vtt)$/;
 export const filenameSchema = z.string().regex(filenamePatter, 'Invalid filename format');
 
 // Language validation